@@ -0,0 +1,64 @@
+import {
+  formatCsvAmount,
+  getDebtAgingBucket,
+  toCsv,
+} from '@/utils/accountingCsv';
+
+describe('Accounting CSV', () => {
+  describe('toCsv', () => {
+    it('should quote cells with commas, quotes and line breaks', () => {
+      const csv = toCsv([
+        ['Customer', 'Note'],
+        ['Ko Aung, Mandalay', 'Paid "half"'],
+        ['Ma Hla', 'Line one\nLine two'],
+        ['Walk-in', null],
+      ]);
+
+      expect(csv).toBe(
+        'Customer,Note\r\n' +
+          '"Ko Aung, Mandalay","Paid ""half"""\r\n' +
+          'Ma Hla,"Line one\nLine two"\r\n' +
+          'Walk-in,\r\n',
+      );
+    });
+
+    it('should stop text cells from running as formulas', () => {
+      expect(toCsv([['=SUM(A1:A3)', '@cmd', -250]])).toBe(
+        "'=SUM(A1:A3),'@cmd,-250\r\n",
+      );
+    });
+
+    it('should prefix text starting with a minus but not negative amounts', () => {
+      expect(toCsv([['-2+3+cmd|calc', '-1.500,00', '-1500.00', -250]])).toBe(
+        '\'-2+3+cmd|calc,"-1.500,00",-1500.00,-250\r\n',
+      );
+    });
+  });
+
+  describe('formatCsvAmount', () => {
+    const kyat = { decimals: 0, thousandSeparator: ',', decimalSeparator: '.' };
+    const euro = { decimals: 2, thousandSeparator: '.', decimalSeparator: ',' };
+
+    it("should use the currency's decimals and separators", () => {
+      expect(formatCsvAmount(1234567.4, kyat, false)).toBe('1,234,567');
+      expect(formatCsvAmount(1234.5, euro, false)).toBe('1.234,50');
+      expect(formatCsvAmount(-1500, euro, false)).toBe('-1.500,00');
+    });
+
+    it('should write plain numbers when raw numbers are chosen', () => {
+      expect(formatCsvAmount(1234567.4, kyat, true)).toBe('1234567');
+      expect(formatCsvAmount(1234.5, euro, true)).toBe('1234.50');
+      expect(formatCsvAmount(-0.001, euro, true)).toBe('0.00');
+    });
+  });
+
+  describe('getDebtAgingBucket', () => {
+    it('should age debt in 30 day steps', () => {
+      expect(getDebtAgingBucket(0)).toBe('current');
+      expect(getDebtAgingBucket(30)).toBe('current');
+      expect(getDebtAgingBucket(31)).toBe('days_31_60');
+      expect(getDebtAgingBucket(90)).toBe('days_61_90');
+      expect(getDebtAgingBucket(91)).toBe('over_90');
+    });
+  });
+});
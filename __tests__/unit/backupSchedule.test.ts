@@ -0,0 +1,77 @@
+import {
+  BackupSchedule,
+  getDueBackupTrigger,
+  getLastCloseTime,
+  isValidCloseTime,
+} from '@/utils/backupSchedule';
+
+describe('Backup Schedule', () => {
+  const schedule: BackupSchedule = {
+    dailyAtClose: true,
+    closeTime: '21:00',
+    everySales: 0,
+  };
+
+  const at = (day: number, hours: number, minutes = 0) =>
+    new Date(2024, 0, day, hours, minutes);
+
+  describe('getLastCloseTime', () => {
+    it("should use today's closing time once it has passed", () => {
+      expect(getLastCloseTime('21:00', at(10, 22))).toEqual(at(10, 21));
+    });
+
+    it("should use yesterday's closing time before today's", () => {
+      expect(getLastCloseTime('21:00', at(10, 9))).toEqual(at(9, 21));
+    });
+  });
+
+  describe('getDueBackupTrigger', () => {
+    it('should be due after closing time with no backup since', () => {
+      expect(
+        getDueBackupTrigger(schedule, at(9, 21, 5), 0, at(10, 21, 1)),
+      ).toBe('daily');
+    });
+
+    it('should not repeat the daily backup on the same evening', () => {
+      expect(
+        getDueBackupTrigger(schedule, at(10, 21, 1), 0, at(10, 23)),
+      ).toBeNull();
+    });
+
+    it('should catch up a daily backup missed while the app was closed', () => {
+      expect(getDueBackupTrigger(schedule, at(8, 21, 1), 0, at(10, 8))).toBe(
+        'daily',
+      );
+    });
+
+    it('should back up after the configured number of sales', () => {
+      const salesSchedule = {
+        ...schedule,
+        dailyAtClose: false,
+        everySales: 50,
+      };
+
+      expect(
+        getDueBackupTrigger(salesSchedule, null, 49, at(10, 12)),
+      ).toBeNull();
+      expect(getDueBackupTrigger(salesSchedule, null, 50, at(10, 12))).toBe(
+        'sales',
+      );
+    });
+
+    it('should ignore an invalid closing time', () => {
+      expect(
+        getDueBackupTrigger({ ...schedule, closeTime: '25:00' }, null, 0),
+      ).toBeNull();
+    });
+  });
+
+  describe('isValidCloseTime', () => {
+    it('should accept 24-hour HH:MM times only', () => {
+      expect(isValidCloseTime('09:30')).toBe(true);
+      expect(isValidCloseTime('23:59')).toBe(true);
+      expect(isValidCloseTime('9:30')).toBe(false);
+      expect(isValidCloseTime('24:00')).toBe(false);
+    });
+  });
+});
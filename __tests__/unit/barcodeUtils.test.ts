@@ -0,0 +1,98 @@
+import {
+  buildInternalBarcode,
+  calculateEan13CheckDigit,
+  encodeCode128,
+  encodeEan13,
+  getBarcodeFormat,
+  getNextInternalBarcode,
+  isValidEan13,
+} from '@/utils/barcodeUtils';
+import { buildLabelSheetHtml, LABEL_LAYOUTS } from '@/utils/labelSheet';
+
+describe('Barcodes', () => {
+  describe('EAN-13', () => {
+    it('should calculate the check digit', () => {
+      expect(calculateEan13CheckDigit('400638133393')).toBe(1);
+      expect(calculateEan13CheckDigit('590123412345')).toBe(7);
+      expect(isValidEan13('4006381333931')).toBe(true);
+      expect(isValidEan13('4006381333932')).toBe(false);
+    });
+
+    it('should encode to 95 modules with guard bars', () => {
+      const modules = encodeEan13('4006381333931');
+
+      expect(modules).toHaveLength(95);
+      expect(modules.startsWith('101')).toBe(true);
+      expect(modules.slice(45, 50)).toBe('01010');
+      expect(modules.endsWith('101')).toBe(true);
+      // First digit 4 puts the second digit (0) in the "L" set
+      expect(modules.slice(3, 10)).toBe('0001101');
+    });
+  });
+
+  describe('Code 128', () => {
+    it('should wrap the data in start B, a check symbol and stop', () => {
+      const modules = encodeCode128('AB-12');
+
+      // Start, five characters and the check symbol at 11 modules, stop at 13
+      expect(modules).toHaveLength(11 * 7 + 13);
+      expect(modules.startsWith('11010010000')).toBe(true);
+      expect(modules.endsWith('1100011101011')).toBe(true);
+    });
+  });
+
+  it('should print valid EAN-13s as EAN-13 and anything else as Code 128', () => {
+    expect(getBarcodeFormat('4006381333931')).toBe('EAN13');
+    expect(getBarcodeFormat('4006381333932')).toBe('CODE128');
+    expect(getBarcodeFormat('SKU-001')).toBe('CODE128');
+    expect(getBarcodeFormat('')).toBe(null);
+  });
+
+  describe('internal barcodes', () => {
+    it('should build valid EAN-13s in the in-store range', () => {
+      const code = buildInternalBarcode(1);
+
+      expect(code).toBe('2000000000015');
+      expect(isValidEan13(code)).toBe(true);
+    });
+
+    it('should continue after the highest internal code in use', () => {
+      expect(
+        getNextInternalBarcode([
+          buildInternalBarcode(7),
+          buildInternalBarcode(3),
+          '4006381333931',
+        ]),
+      ).toBe(buildInternalBarcode(8));
+      expect(getNextInternalBarcode([])).toBe(buildInternalBarcode(1));
+    });
+  });
+
+  describe('buildLabelSheetHtml', () => {
+    const label = { name: 'Tea & Milk', price: '1,500 MMK', barcode: null };
+    const options = {
+      layout: LABEL_LAYOUTS.a4_2x7,
+      showName: true,
+      showPrice: true,
+      showBarcode: true,
+      skip: 0,
+    };
+
+    it('should start a new sheet once one is full', () => {
+      const html = buildLabelSheetHtml(Array(15).fill(label), options);
+
+      expect(html.match(/class="sheet"/g)).toHaveLength(2);
+      expect(html).toContain('Tea &amp; Milk');
+    });
+
+    it('should leave skipped positions empty on the first sheet', () => {
+      const html = buildLabelSheetHtml(Array(13).fill(label), {
+        ...options,
+        skip: 1,
+      });
+
+      expect(html.match(/class="sheet"/g)).toHaveLength(1);
+      expect(html).toContain('<div class="label"></div>');
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { DataExportService } from '../../services/dataExportService';
+import {
+  DataExportService,
+  ExportData,
+} from '../../services/dataExportService';
 import { DatabaseService } from '../../services/database';
 
 // Mock dependencies
@@ -265,4 +268,57 @@ describe('DataExportService - Simplified All Data Export', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('verifyChecksum', () => {
+    const buildExport = (): ExportData => ({
+      version: '2.0',
+      exportDate: '2024-01-01T00:00:00.000Z',
+      dataType: 'all',
+      metadata: {
+        exportDate: '2024-01-01T00:00:00.000Z',
+        dataType: 'all',
+        version: '2.0',
+        recordCount: 1,
+        fileSize: 0,
+      },
+      data: {
+        products: [{ id: '1', name: 'Product 1', price: 10.99 }],
+        categories: [],
+        suppliers: [],
+        sales: [],
+        saleItems: [],
+        customers: [],
+        expenses: [],
+        expenseCategories: [],
+        stockMovements: [],
+        bulkPricing: [],
+      },
+      relationships: {
+        productCategories: {},
+        productSuppliers: {},
+        saleCustomers: {},
+      },
+      integrity: {
+        checksum: '',
+        recordCounts: { products: 1 },
+        validationRules: [],
+      },
+    });
+
+    it('should accept a file as it was written', async () => {
+      const data = buildExport();
+      await exportService.generateExportFile(data, 'backup.json');
+
+      const written = JSON.parse(JSON.stringify(data));
+      expect(exportService.verifyChecksum(written)).toBe(true);
+    });
+
+    it('should reject a file whose records were changed', async () => {
+      const data = buildExport();
+      await exportService.generateExportFile(data, 'backup.json');
+
+      data.data.products[0].price = 1;
+      expect(exportService.verifyChecksum(data)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,194 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+// Deterministic stand-in for SHA-256 so chains can be rebuilt in tests
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(
+    async (_algorithm: string, value: string) => `hash(${value})`,
+  ),
+}));
+
+describe('DatabaseService - Audit Log', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+  let auditRows: any[];
+
+  const insertedAuditRow = (params: any[]) => ({
+    id: params[0],
+    seq: params[1],
+    entity_type: params[2],
+    entity_id: params[3],
+    entity_label: params[4],
+    action: params[5],
+    before_data: params[6],
+    after_data: params[7],
+    staff_id: params[8],
+    created_at: params[9],
+    prev_hash: params[10],
+    hash: params[11],
+  });
+
+  beforeEach(() => {
+    auditRows = [];
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(async (query: string, params: any[]) => {
+        if (query.includes('INSERT INTO audit_log')) {
+          auditRows.push(insertedAuditRow(params));
+        }
+        return { changes: 1 };
+      }),
+      getFirstAsync: jest.fn(async (query: string) => {
+        if (query.includes('FROM audit_log')) {
+          return auditRows[auditRows.length - 1] || null;
+        }
+        return null;
+      }),
+      getAllAsync: jest.fn(async (query: string, params: any[]) => {
+        if (query.includes('FROM audit_log')) {
+          return auditRows.filter((row) => row.seq >= params[0]);
+        }
+        return [];
+      }),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addAuditLogEntry', () => {
+    it('should chain each entry to the previous hash', async () => {
+      await db.addAuditLogEntry({
+        entity_type: 'product',
+        entity_id: 'product-1',
+        action: 'update',
+        before: { price: 1000 },
+        after: { price: 1200 },
+      });
+      await db.addAuditLogEntry({
+        entity_type: 'product',
+        entity_id: 'product-1',
+        action: 'delete',
+        before: { name: 'Tea' },
+      });
+
+      expect(auditRows).toHaveLength(2);
+      expect(auditRows[0].seq).toBe(1);
+      expect(auditRows[0].prev_hash).toBe('0'.repeat(64));
+      expect(auditRows[1].seq).toBe(2);
+      expect(auditRows[1].prev_hash).toBe(auditRows[0].hash);
+    });
+
+    it('should keep concurrent writes in one chain', async () => {
+      await Promise.all([
+        db.addAuditLogEntry({ entity_type: 'sale', action: 'delete' }),
+        db.addAuditLogEntry({ entity_type: 'sale', action: 'delete' }),
+        db.addAuditLogEntry({ entity_type: 'sale', action: 'delete' }),
+      ]);
+
+      expect(auditRows.map((row) => row.seq)).toEqual([1, 2, 3]);
+      expect(auditRows[2].prev_hash).toBe(auditRows[1].hash);
+    });
+
+    it('should record the signed-in staff member', async () => {
+      db.setActiveStaff({ id: 'staff-1', role: 'owner' });
+
+      await db.addAuditLogEntry({ entity_type: 'import', action: 'import' });
+
+      expect(auditRows[0].staff_id).toBe('staff-1');
+    });
+  });
+
+  describe('verifyAuditLogChain', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 3; i++) {
+        await db.addAuditLogEntry({
+          entity_type: 'product',
+          entity_id: `product-${i}`,
+          action: 'update',
+          before: { price: 100 },
+          after: { price: 200 + i },
+        });
+      }
+    });
+
+    it('should accept an untouched log', async () => {
+      await expect(db.verifyAuditLogChain()).resolves.toEqual({
+        valid: true,
+        checked: 3,
+        brokenAtSeq: null,
+      });
+    });
+
+    it('should detect an edited entry', async () => {
+      auditRows[1].after_data = JSON.stringify({ price: 150 });
+
+      await expect(db.verifyAuditLogChain()).resolves.toEqual({
+        valid: false,
+        checked: 1,
+        brokenAtSeq: 2,
+      });
+    });
+
+    it('should detect a deleted entry', async () => {
+      auditRows.splice(1, 1);
+
+      const result = await db.verifyAuditLogChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAtSeq).toBe(2);
+    });
+  });
+
+  describe('audited mutations', () => {
+    it('should log payment method changes with before and after values', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) => {
+        if (query.includes('FROM sales')) {
+          return { voucher_id: '2025-01-15-001', payment_method: 'Debt' };
+        }
+        if (query.includes('FROM audit_log')) {
+          return auditRows[auditRows.length - 1] || null;
+        }
+        return null;
+      });
+
+      await db.updateSalePaymentMethod('sale-1', 'Cash');
+
+      expect(auditRows[0]).toEqual(
+        expect.objectContaining({
+          entity_type: 'sale',
+          entity_id: 'sale-1',
+          entity_label: '2025-01-15-001',
+          action: 'update',
+          before_data: JSON.stringify({ payment_method: 'Debt' }),
+          after_data: JSON.stringify({ payment_method: 'Cash' }),
+        }),
+      );
+    });
+
+    it('should only log product fields that changed', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) => {
+        if (query.includes('FROM products')) {
+          return { id: 'product-1', name: 'Tea', price: 1000, cost: 600 };
+        }
+        return null;
+      });
+
+      await db.updateProduct('product-1', { name: 'Tea', price: 1200 });
+
+      expect(auditRows[0].before_data).toBe(JSON.stringify({ price: 1000 }));
+      expect(auditRows[0].after_data).toBe(JSON.stringify({ price: 1200 }));
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { BACKUP_TABLES, DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Backup', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const statements = () =>
+    mockDatabase.runAsync.mock.calls.map(([query]: [string]) => query);
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+      getFirstAsync: jest.fn().mockResolvedValue(null),
+      getAllAsync: jest.fn().mockImplementation(async (query: string) => {
+        if (query.includes('PRAGMA table_info(products)')) {
+          return [{ name: 'id' }, { name: 'name' }, { name: 'quantity' }];
+        }
+        if (query.includes('PRAGMA table_info(stock_ledger)')) {
+          return [{ name: 'id' }, { name: 'product_id' }, { name: 'delta' }];
+        }
+        if (query.includes('PRAGMA table_info')) {
+          return [{ name: 'id' }];
+        }
+        if (query === 'SELECT * FROM debt_payments') {
+          return [{ id: 'payment-1', amount: 500 }];
+        }
+        return [];
+      }),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should read every table without a row limit', async () => {
+    const tables = await db.getBackupTables();
+
+    expect(Object.keys(tables)).toEqual(BACKUP_TABLES);
+    expect(tables.debt_payments).toEqual([{ id: 'payment-1', amount: 500 }]);
+    for (const [query] of mockDatabase.getAllAsync.mock.calls) {
+      expect(query).not.toMatch(/LIMIT|WHERE/);
+    }
+  });
+
+  it('should empty every table before writing the backup rows', async () => {
+    await db.replaceBackupTables({
+      products: [{ id: 'product-1', name: 'Tea', quantity: 4, imageUrl: 'x' }],
+      stock_ledger: [{ id: 'entry-1', product_id: 'product-1', delta: 4 }],
+    });
+
+    const queries = statements();
+    const deletes = queries.filter((query: string) =>
+      query.startsWith('DELETE FROM'),
+    );
+    expect(deletes).toHaveLength(BACKUP_TABLES.length);
+    expect(deletes).toContain('DELETE FROM sale_returns');
+    // The audit log is added to, never rolled back
+    expect(deletes).not.toContain('DELETE FROM audit_log');
+    expect(queries.findIndex((query: string) => query.includes('INSERT'))).toBe(
+      BACKUP_TABLES.length,
+    );
+
+    // Columns the table no longer has are left out
+    const insert = mockDatabase.runAsync.mock.calls.find(([query]: [string]) =>
+      query.includes('INSERT INTO products'),
+    );
+    expect(insert[0]).toContain('(id, name, quantity)');
+    expect(insert[1]).toEqual(['product-1', 'Tea', 4]);
+    expect(mockDatabase.execAsync).toHaveBeenLastCalledWith('COMMIT');
+  });
+
+  it('should leave the current data in place when a row fails', async () => {
+    mockDatabase.runAsync.mockImplementation(async (query: string) => {
+      if (query.includes('INSERT INTO stock_ledger')) {
+        throw new Error('constraint failed');
+      }
+      return { changes: 1 };
+    });
+
+    await expect(
+      db.replaceBackupTables({
+        stock_ledger: [{ id: 'entry-1', product_id: 'product-1', delta: 4 }],
+      }),
+    ).rejects.toThrow('constraint failed');
+    expect(mockDatabase.execAsync).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(mockDatabase.execAsync).not.toHaveBeenCalledWith('COMMIT');
+  });
+});
@@ -0,0 +1,198 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+// Stock movements write audit entries, which hash with expo-crypto
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(
+    async (_algorithm: string, value: string) => `hash(${value})`,
+  ),
+}));
+
+describe('DatabaseService - Inventory Costing', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const saleItem = {
+    product_id: 'product-1',
+    quantity: 5,
+    price: 1000,
+    cost: 400,
+    discount: 0,
+    subtotal: 5000,
+  };
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn().mockResolvedValue([]),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('weighted average', () => {
+    it('should average the stock-in cost into the product cost', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+        query.includes('SELECT cost, quantity FROM products')
+          ? { cost: 400, quantity: 10 }
+          : null,
+      );
+
+      await db.addStockMovement({
+        product_id: 'product-1',
+        type: 'stock_in',
+        quantity: 10,
+        unit_cost: 500,
+      });
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO inventory_cost_layers'),
+        [
+          expect.any(String),
+          'product-1',
+          expect.any(String),
+          10,
+          10,
+          500,
+          expect.any(String),
+        ],
+      );
+      // (10 x 400 + 10 x 500) / 20
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE products SET cost = ?'),
+        [450, 'product-1'],
+      );
+    });
+
+    it('should cost sales at the current average cost', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+        query.includes('SELECT cost FROM products') ? { cost: 450 } : null,
+      );
+
+      await db.addSale({ total: 5000, payment_method: 'Cash' }, [saleItem]);
+
+      const itemInsert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO sale_items'),
+      );
+      expect(itemInsert[1][5]).toBe(450);
+    });
+  });
+
+  describe('FIFO', () => {
+    beforeEach(() => {
+      db.setCostingMethod('fifo');
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+        query.includes('SELECT cost FROM products') ? { cost: 400 } : null,
+      );
+      mockDatabase.getAllAsync.mockImplementation(async (query: string) =>
+        query.includes('FROM inventory_cost_layers')
+          ? [
+              { id: 'layer-1', remaining_quantity: 3, unit_cost: 400 },
+              { id: 'layer-2', remaining_quantity: 10, unit_cost: 500 },
+            ]
+          : [],
+      );
+    });
+
+    it('should cost sales from the oldest layers first', async () => {
+      await db.addSale({ total: 5000, payment_method: 'Cash' }, [saleItem]);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE inventory_cost_layers'),
+        [3, 'layer-1'],
+      );
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE inventory_cost_layers'),
+        [2, 'layer-2'],
+      );
+      // (3 x 400 + 2 x 500) / 5
+      const itemInsert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO sale_items'),
+      );
+      expect(itemInsert[1][5]).toBe(440);
+    });
+
+    it('should keep the recorded cost of imported sales', async () => {
+      await db.addSale(
+        { total: 5000, payment_method: 'Cash', voucher_id: '2024-01-01-001' },
+        [saleItem],
+      );
+
+      const itemInsert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO sale_items'),
+      );
+      expect(itemInsert[1][5]).toBe(400);
+    });
+  });
+
+  describe('profit reports', () => {
+    it('should keep reported profit when the product cost changes after a sale', async () => {
+      // One sale of 5 items, costed at 400 each when it was made
+      let productCost = 400;
+      const unitCost = (query: string) =>
+        /quantity \* si\.cost\b/.test(query) ? 400 : productCost;
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) => {
+        if (query.includes('as total_cost')) {
+          return { total_cost: 5 * unitCost(query), total_items: 5 };
+        }
+        if (query.includes('as total_revenue')) {
+          return { total_sales: 1, total_revenue: 5000, avg_sale: 5000 };
+        }
+        if (query.includes('as previous_revenue')) {
+          return { previous_revenue: 0 };
+        }
+        return null;
+      });
+
+      const before = await db.getSalesAnalytics(30);
+      // Stock received later at a higher cost moves the product cost
+      productCost = 600;
+      const after = await db.getSalesAnalytics(30);
+
+      expect(before.totalProfit).toBe(3000);
+      expect(after.totalProfit).toBe(3000);
+    });
+  });
+
+  describe('getInventoryValuation', () => {
+    it('should value stock from the cost layers under FIFO', async () => {
+      db.setCostingMethod('fifo');
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          product_id: 'product-1',
+          product_name: 'Tea',
+          category_name: 'Drinks',
+          quantity: 8,
+          value: 3800,
+        },
+      ]);
+
+      const valuation = await db.getInventoryValuation();
+
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledWith(
+        expect.stringContaining('FROM inventory_cost_layers'),
+        [],
+      );
+      expect(valuation).toEqual({
+        method: 'fifo',
+        totalValue: 3800,
+        totalQuantity: 8,
+        items: [expect.objectContaining({ unit_cost: 475, value: 3800 })],
+      });
+    });
+  });
+});
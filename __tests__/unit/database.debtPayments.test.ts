@@ -0,0 +1,215 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Debt Payments', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getCustomerDebtBalance', () => {
+    it('should subtract active payments from debt sales', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ debt_balance: 3000 });
+
+      const result = await db.getCustomerDebtBalance('customer-1');
+
+      expect(result).toBe(3000);
+      expect(mockDatabase.getFirstAsync).toHaveBeenCalledWith(
+        expect.stringContaining('FROM debt_payments'),
+        ['customer-1', 'customer-1', 'customer-1'],
+      );
+    });
+
+    it('should never return a negative balance', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ debt_balance: -500 });
+
+      const result = await db.getCustomerDebtBalance('customer-1');
+
+      expect(result).toBe(0);
+    });
+  });
+
+  describe('getSaleDebtBalance', () => {
+    it('should apply customer-level payments to the oldest sale first', async () => {
+      mockDatabase.getAllAsync
+        // getSaleById
+        .mockResolvedValueOnce([
+          {
+            id: 'sale-2',
+            payment_method: 'Debt',
+            customer_id: 'customer-1',
+            total: 5000,
+          },
+        ])
+        // Debt sales, oldest first
+        .mockResolvedValueOnce([
+          { id: 'sale-1', customer_id: 'customer-1', total: 4000 },
+          { id: 'sale-2', customer_id: 'customer-1', total: 5000 },
+        ])
+        // Active payments
+        .mockResolvedValueOnce([
+          { customer_id: 'customer-1', sale_id: null, amount: 6000 },
+        ]);
+
+      const result = await db.getSaleDebtBalance('sale-2');
+
+      // 4000 settles sale-1, remaining 2000 goes to sale-2
+      expect(result).toBe(3000);
+    });
+
+    it('should return 0 for sales that are not debt sales', async () => {
+      mockDatabase.getAllAsync.mockResolvedValueOnce([
+        { id: 'sale-1', payment_method: 'Cash', total: 5000 },
+      ]);
+
+      const result = await db.getSaleDebtBalance('sale-1');
+
+      expect(result).toBe(0);
+    });
+  });
+
+  describe('recordDebtPayment', () => {
+    it('should record a partial payment against the customer balance', async () => {
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce({ id: 'customer-1', name: 'John Doe' })
+        .mockResolvedValueOnce({ debt_balance: 10000 });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      const id = await db.recordDebtPayment({
+        customer_id: 'customer-1',
+        amount: 4000,
+        payment_method: 'Cash',
+        note: 'Paid half',
+      });
+
+      expect(typeof id).toBe('string');
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO debt_payments'),
+        [
+          id,
+          'customer-1',
+          null,
+          4000,
+          'Cash',
+          'Paid half',
+          null, // No open shift
+          expect.any(String),
+        ],
+      );
+    });
+
+    it('should reject payments larger than the outstanding debt', async () => {
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce({ id: 'customer-1', name: 'John Doe' })
+        .mockResolvedValueOnce({ debt_balance: 1000 });
+
+      await expect(
+        db.recordDebtPayment({
+          customer_id: 'customer-1',
+          amount: 1500,
+          payment_method: 'Cash',
+        }),
+      ).rejects.toThrow('Payment amount exceeds outstanding debt');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-positive amounts', async () => {
+      await expect(
+        db.recordDebtPayment({
+          customer_id: 'customer-1',
+          amount: 0,
+          payment_method: 'Cash',
+        }),
+      ).rejects.toThrow('Payment amount must be greater than zero');
+    });
+  });
+
+  describe('voidDebtPayment', () => {
+    it('should mark the payment as voided instead of deleting it', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        id: 'payment-1',
+        voided: 0,
+      });
+
+      await db.voidDebtPayment('payment-1', 'Entered twice');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('SET voided = 1'),
+        [expect.any(String), 'Entered twice', 'payment-1'],
+      );
+    });
+
+    it('should not void a payment twice', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        id: 'payment-1',
+        voided: 1,
+      });
+
+      await expect(db.voidDebtPayment('payment-1')).rejects.toThrow(
+        'Debt payment is already voided',
+      );
+    });
+  });
+
+  describe('getCustomerDebtStatement', () => {
+    it('should build a running balance of charges and payments', async () => {
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([
+          {
+            id: 'sale-1',
+            voucher_id: '2025-01-01-001',
+            total: 5000,
+            created_at: '2025-01-01 10:00:00',
+          },
+          {
+            id: 'sale-2',
+            voucher_id: '2025-01-05-001',
+            total: 3000,
+            created_at: '2025-01-05 10:00:00',
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            id: 'payment-1',
+            customer_id: 'customer-1',
+            amount: 2000,
+            payment_method: 'Cash',
+            payment_date: '2025-01-03 09:00:00',
+            voided: 0,
+          },
+        ])
+        // Returns credited to debt
+        .mockResolvedValueOnce([]);
+
+      const statement = await db.getCustomerDebtStatement('customer-1');
+
+      expect(statement.map((entry) => entry.type)).toEqual([
+        'charge',
+        'payment',
+        'charge',
+      ]);
+      expect(statement.map((entry) => entry.balance)).toEqual([
+        5000, 3000, 6000,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Held Carts', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('holdCart', () => {
+    it('should store cart items as JSON', async () => {
+      const id = await db.holdCart({
+        label: 'Table 3',
+        customer_id: 'customer-1',
+        note: 'Pays later',
+        items: [
+          { product_id: 'product-1', quantity: 2, discount: 100 },
+          { product_id: 'product-2', quantity: 1, discount: 0 },
+        ],
+        total: 4900,
+      });
+
+      expect(typeof id).toBe('string');
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO held_carts'),
+        [
+          id,
+          'Table 3',
+          'customer-1',
+          'Pays later',
+          JSON.stringify([
+            { product_id: 'product-1', quantity: 2, discount: 100 },
+            { product_id: 'product-2', quantity: 1, discount: 0 },
+          ]),
+          4900,
+          expect.any(String),
+          expect.any(String),
+        ],
+      );
+    });
+
+    it('should store null customer and note when not provided', async () => {
+      await db.holdCart({
+        label: 'Cart 1',
+        items: [{ product_id: 'product-1', quantity: 1, discount: 0 }],
+        total: 1000,
+      });
+
+      const params = mockDatabase.runAsync.mock.calls[0][1];
+      expect(params[2]).toBeNull();
+      expect(params[3]).toBeNull();
+    });
+
+    it('should reject an empty cart', async () => {
+      await expect(
+        db.holdCart({ label: 'Empty', items: [], total: 0 }),
+      ).rejects.toThrow('Cannot hold an empty cart');
+
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHeldCarts', () => {
+    it('should parse stored items', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          id: 'held-1',
+          label: 'Table 3',
+          customer_id: 'customer-1',
+          customer_name: 'John Doe',
+          note: null,
+          items: '[{"product_id":"product-1","quantity":2,"discount":0}]',
+          total: 2000,
+          created_at: '2024-01-15 10:00:00',
+          updated_at: '2024-01-15 10:00:00',
+        },
+      ]);
+
+      const heldCarts = await db.getHeldCarts();
+
+      expect(heldCarts).toHaveLength(1);
+      expect(heldCarts[0].customer_name).toBe('John Doe');
+      expect(heldCarts[0].items).toEqual([
+        { product_id: 'product-1', quantity: 2, discount: 0 },
+      ]);
+    });
+  });
+
+  describe('resumeHeldCart', () => {
+    it('should load products and customer and remove the held cart', async () => {
+      const product = {
+        id: 'product-1',
+        name: 'Test Product',
+        price: 1000,
+        cost: 600,
+        quantity: 10,
+      };
+      const customer = { id: 'customer-1', name: 'John Doe' };
+
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce({
+          id: 'held-1',
+          label: 'Table 3',
+          customer_id: 'customer-1',
+          note: 'Extra ice',
+          items:
+            '[{"product_id":"product-1","quantity":2,"discount":0},{"product_id":"product-2","quantity":1,"discount":0}]',
+          total: 3000,
+          created_at: '2024-01-15 10:00:00',
+          updated_at: '2024-01-15 10:00:00',
+        })
+        .mockResolvedValueOnce(product)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(customer);
+      mockDatabase.getAllAsync.mockResolvedValue([]);
+
+      const result = await db.resumeHeldCart('held-1');
+
+      expect(result.heldCart.note).toBe('Extra ice');
+      expect(result.products).toEqual([{ ...product, bulk_pricing: [] }]);
+      expect(result.customer).toEqual(customer);
+      expect(result.missingProductIds).toEqual(['product-2']);
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM held_carts WHERE id = ?',
+        ['held-1'],
+      );
+    });
+
+    it('should throw when the held cart does not exist', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      await expect(db.resumeHeldCart('missing')).rejects.toThrow(
+        'Held cart not found',
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+// Receiving writes audit entries, which hash with expo-crypto
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(
+    async (_algorithm: string, value: string) => `hash(${value})`,
+  ),
+}));
+
+describe('DatabaseService - Purchase Orders', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const sentOrder = {
+    id: 'po-1',
+    po_number: 'PO-20250115-001',
+    supplier_id: 'supplier-1',
+    status: 'sent',
+  };
+
+  const orderItems = [
+    {
+      id: 'item-1',
+      purchase_order_id: 'po-1',
+      product_id: 'product-1',
+      product_name: 'Tea',
+      quantity_ordered: 10,
+      quantity_received: 0,
+      unit_cost: 500,
+      received_cost: 0,
+    },
+    {
+      id: 'item-2',
+      purchase_order_id: 'po-1',
+      product_id: 'product-2',
+      product_name: 'Coffee',
+      quantity_ordered: 5,
+      quantity_received: 0,
+      unit_cost: 800,
+      received_cost: 0,
+    },
+  ];
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createPurchaseOrder', () => {
+    it('should create a draft with the next PO number for the day', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+        query.includes('FROM purchase_orders')
+          ? { po_number: 'PO-20250115-004' }
+          : null,
+      );
+
+      const { poNumber } = await db.createPurchaseOrder({
+        supplier_id: 'supplier-1',
+        items: [{ product_id: 'product-1', quantity: 10, unit_cost: 500 }],
+      });
+
+      expect(poNumber).toMatch(/^PO-\d{8}-005$/);
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining("'draft'"),
+        expect.arrayContaining([poNumber, 'supplier-1']),
+      );
+      expect(mockDatabase.execAsync).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should reject an order without items', async () => {
+      await expect(
+        db.createPurchaseOrder({ supplier_id: 'supplier-1', items: [] }),
+      ).rejects.toThrow('Add at least one product to the purchase order');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('should reject fractional quantities', async () => {
+      await expect(
+        db.createPurchaseOrder({
+          supplier_id: 'supplier-1',
+          items: [{ product_id: 'product-1', quantity: 1.5, unit_cost: 500 }],
+        }),
+      ).rejects.toThrow('Order quantity must be a whole number above zero');
+    });
+  });
+
+  describe('receivePurchaseOrder', () => {
+    beforeEach(() => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+        query.includes('FROM purchase_orders po') ? sentOrder : null,
+      );
+      mockDatabase.getAllAsync.mockImplementation(async (query: string) =>
+        query.includes('FROM purchase_order_items') ? orderItems : [],
+      );
+    });
+
+    it('should post stock movements referenced by the PO number', async () => {
+      await db.receivePurchaseOrder('po-1', [
+        { item_id: 'item-1', quantity: 10, unit_cost: 480 },
+      ]);
+
+      const movementInsert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO stock_movements'),
+      );
+      expect(movementInsert[1]).toEqual(
+        expect.arrayContaining([
+          'product-1',
+          10,
+          'supplier-1',
+          'PO-20250115-001',
+          480,
+        ]),
+      );
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE products SET quantity = quantity + ?'),
+        [10, 'product-1'],
+      );
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE purchase_order_items'),
+        [10, 4800, 'item-1'],
+      );
+    });
+
+    it('should mark the order partially received until every line arrives', async () => {
+      const status = await db.receivePurchaseOrder('po-1', [
+        { item_id: 'item-1', quantity: 10, unit_cost: 500 },
+      ]);
+
+      expect(status).toBe('partially_received');
+    });
+
+    it('should mark the order received when the last line arrives', async () => {
+      const status = await db.receivePurchaseOrder('po-1', [
+        { item_id: 'item-1', quantity: 10, unit_cost: 500 },
+        { item_id: 'item-2', quantity: 5, unit_cost: 800 },
+      ]);
+
+      expect(status).toBe('received');
+    });
+
+    it('should not receive more than is still on order', async () => {
+      await expect(
+        db.receivePurchaseOrder('po-1', [
+          { item_id: 'item-2', quantity: 6, unit_cost: 800 },
+        ]),
+      ).rejects.toThrow('Received quantity exceeds quantity still on order');
+      expect(mockDatabase.execAsync).not.toHaveBeenCalled();
+    });
+
+    it('should not receive a draft order', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        ...sentOrder,
+        status: 'draft',
+      });
+
+      await expect(
+        db.receivePurchaseOrder('po-1', [
+          { item_id: 'item-1', quantity: 1, unit_cost: 500 },
+        ]),
+      ).rejects.toThrow('Only sent purchase orders can be received');
+    });
+  });
+
+  describe('cancelPurchaseOrder', () => {
+    it('should keep orders with received goods', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        ...sentOrder,
+        status: 'partially_received',
+      });
+
+      await expect(db.cancelPurchaseOrder('po-1')).rejects.toThrow(
+        'Purchase orders with received goods cannot be cancelled',
+      );
+    });
+  });
+
+  describe('getSupplierPayables', () => {
+    it('should subtract payments from the value of received goods', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          supplier_id: 'supplier-1',
+          supplier_name: 'Golden Tea',
+          received_value: 10000,
+          paid_amount: 4000,
+          open_orders: 1,
+        },
+        {
+          supplier_id: 'supplier-2',
+          supplier_name: 'Idle Supplier',
+          received_value: 0,
+          paid_amount: 0,
+          open_orders: 0,
+        },
+      ]);
+
+      const payables = await db.getSupplierPayables();
+
+      expect(payables).toEqual([
+        expect.objectContaining({ supplier_id: 'supplier-1', balance: 6000 }),
+      ]);
+    });
+  });
+
+  describe('getPurchaseOrderSuggestions', () => {
+    it('should group low stock products by supplier, less what is on order', async () => {
+      jest.spyOn(db, 'predictLowStockItems').mockResolvedValue({
+        criticalItems: [
+          {
+            productId: 'product-1',
+            productName: 'Tea',
+            currentStock: 2,
+            minStock: 10,
+            avgDailySales: 1,
+          },
+        ],
+        warningItems: [
+          {
+            productId: 'product-3',
+            productName: 'Loose Item',
+            currentStock: 3,
+            minStock: 5,
+            avgDailySales: 0.5,
+          },
+        ],
+      } as any);
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          id: 'product-1',
+          cost: 500,
+          supplier_id: 'supplier-1',
+          supplier_name: 'Golden Tea',
+          on_order: 8,
+        },
+      ]);
+
+      const suggestions = await db.getPurchaseOrderSuggestions();
+
+      // 30 days of sales = 30, less 2 in stock and 8 already on order
+      expect(suggestions).toEqual([
+        {
+          supplier_id: 'supplier-1',
+          supplier_name: 'Golden Tea',
+          items: [
+            expect.objectContaining({
+              product_id: 'product-1',
+              suggested_quantity: 20,
+              unit_cost: 500,
+            }),
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Sale Returns', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const sale = {
+    id: 'sale-1',
+    voucher_id: '2025-01-01-001',
+    total: 5000,
+    payment_method: 'Cash',
+    customer_id: 'customer-1',
+  };
+
+  const saleItems = [
+    {
+      id: 'item-1',
+      sale_id: 'sale-1',
+      product_id: 'product-1',
+      quantity: 2,
+      price: 1500,
+      cost: 1000,
+      discount: 200,
+      subtotal: 2800,
+      product_name: 'Product 1',
+    },
+    {
+      id: 'item-2',
+      sale_id: 'sale-1',
+      product_id: 'product-2',
+      quantity: 1,
+      price: 2200,
+      cost: 1500,
+      discount: 0,
+      subtotal: 2200,
+      product_name: 'Product 2',
+    },
+  ];
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSaleReturn', () => {
+    it('should refund pro rata, restock and post a stock movement', async () => {
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([sale]) // getSaleById
+        .mockResolvedValueOnce(saleItems) // getSaleItems
+        .mockResolvedValueOnce([]); // getReturnedQuantities
+      mockDatabase.getFirstAsync.mockResolvedValueOnce({ count: 0 });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      const result = await db.createSaleReturn('sale-1', {
+        items: [{ sale_item_id: 'item-1', quantity: 1, restock: true }],
+        refund_method: 'Cash',
+        reason: 'Wrong size',
+      });
+
+      // 2800 subtotal over 2 units keeps the item discount
+      expect(result.refundAmount).toBe(1400);
+      expect(result.returnNumber).toBe('2025-01-01-001-R1');
+      expect(mockDatabase.execAsync).toHaveBeenCalledWith('BEGIN TRANSACTION');
+      expect(mockDatabase.execAsync).toHaveBeenCalledWith('COMMIT');
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO stock_movements'),
+        [
+          expect.any(String),
+          'product-1',
+          1,
+          'Sale return',
+          '2025-01-01-001-R1',
+          1000,
+          null, // No staff member signed in
+          expect.any(String),
+        ],
+      );
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE products SET quantity = quantity + ?'),
+        [1, 'product-1'],
+      );
+    });
+
+    it('should record who took the return on its stock movement', async () => {
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([sale])
+        .mockResolvedValueOnce(saleItems)
+        .mockResolvedValueOnce([]);
+      mockDatabase.getFirstAsync.mockResolvedValueOnce({ count: 0 });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+      db.setActiveStaff({ id: 'staff-2', role: 'manager' });
+
+      await db.createSaleReturn('sale-1', {
+        items: [{ sale_item_id: 'item-1', quantity: 1, restock: true }],
+        refund_method: 'Cash',
+      });
+
+      const [, params] = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO stock_movements'),
+      );
+      expect(params[6]).toBe('staff-2');
+    });
+
+    it('should not touch stock for written-off items', async () => {
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([sale])
+        .mockResolvedValueOnce(saleItems)
+        .mockResolvedValueOnce([]);
+      mockDatabase.getFirstAsync.mockResolvedValueOnce({ count: 1 });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      const result = await db.createSaleReturn('sale-1', {
+        items: [{ sale_item_id: 'item-2', quantity: 1, restock: false }],
+        refund_method: 'Cash',
+      });
+
+      expect(result.returnNumber).toBe('2025-01-01-001-R2');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO stock_movements'),
+        expect.anything(),
+      );
+    });
+
+    it('should reject returning more than was sold', async () => {
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([sale])
+        .mockResolvedValueOnce(saleItems)
+        .mockResolvedValueOnce([{ sale_item_id: 'item-1', quantity: 2 }]);
+
+      await expect(
+        db.createSaleReturn('sale-1', {
+          items: [{ sale_item_id: 'item-1', quantity: 1, restock: true }],
+          refund_method: 'Cash',
+        }),
+      ).rejects.toThrow('Return quantity exceeds quantity available to return');
+      expect(mockDatabase.execAsync).not.toHaveBeenCalled();
+    });
+
+    it('should require at least one item', async () => {
+      await expect(
+        db.createSaleReturn('sale-1', {
+          items: [{ sale_item_id: 'item-1', quantity: 0, restock: true }],
+          refund_method: 'Cash',
+        }),
+      ).rejects.toThrow('Select at least one item to return');
+    });
+  });
+
+  describe('getSalesSummaryByDateRange', () => {
+    it('should net out refunds given in the range', async () => {
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce({ count: 3, total: 12000 })
+        .mockResolvedValueOnce({ refund_total: 1400 })
+        .mockResolvedValueOnce({ returned_items: 1, restocked_cost: 1000 });
+
+      const result = await db.getSalesSummaryByDateRange(
+        new Date('2025-01-01'),
+        new Date('2025-01-31'),
+      );
+
+      expect(result).toEqual({ count: 3, total: 10600 });
+    });
+  });
+
+  describe('getPaymentMethodAnalytics', () => {
+    it('should subtract refunds from the refund method totals', async () => {
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([
+          { payment_method: 'Cash', total_amount: 8000, transaction_count: 4 },
+          {
+            payment_method: 'KBZPay',
+            total_amount: 6000,
+            transaction_count: 2,
+          },
+        ])
+        .mockResolvedValueOnce([{ refund_method: 'Cash', refund_total: 3000 }]);
+
+      const result = await db.getPaymentMethodAnalytics(
+        new Date('2025-01-01'),
+        new Date('2025-01-31'),
+      );
+
+      expect(result).toEqual([
+        { payment_method: 'KBZPay', total_amount: 6000, transaction_count: 2 },
+        { payment_method: 'Cash', total_amount: 5000, transaction_count: 4 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { DatabaseService, LOYALTY_PAYMENT_METHOD } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Cash Drawer Shifts', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const openShift = {
+    id: 'shift-1',
+    status: 'open',
+    opening_float: 50000,
+    opened_at: '2025-01-15 08:00:00',
+  };
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('openShift', () => {
+    it('should open a shift with the starting float', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      const id = await db.openShift(50000, 'Morning');
+
+      expect(typeof id).toBe('string');
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO shifts'),
+        [id, 50000, 'Morning', expect.any(String)],
+      );
+    });
+
+    it('should not open a second shift', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ id: 'shift-1' });
+
+      await expect(db.openShift(0)).rejects.toThrow('A shift is already open');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('should reject a negative float', async () => {
+      await expect(db.openShift(-1)).rejects.toThrow(
+        'Opening float cannot be negative',
+      );
+    });
+  });
+
+  describe('addCashMovement', () => {
+    it('should record a pay-out against the open shift', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ id: 'shift-1' });
+
+      const id = await db.addCashMovement({
+        type: 'pay_out',
+        amount: 10000,
+        reason: 'Bank deposit',
+      });
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO cash_movements'),
+        [id, 'shift-1', 'pay_out', 10000, 'Bank deposit', expect.any(String)],
+      );
+    });
+
+    it('should require an open shift', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      await expect(
+        db.addCashMovement({ type: 'pay_in', amount: 1000 }),
+      ).rejects.toThrow('No open shift');
+    });
+  });
+
+  describe('getShiftReport', () => {
+    it('should reconcile expected cash from drawer activity', async () => {
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce(openShift) // getShiftById
+        .mockResolvedValueOnce({ total: 3000 }) // cash debt payments
+        .mockResolvedValueOnce({
+          refund_count: 2,
+          refunds_total: 7000,
+          cash_refunds: 5000,
+        })
+        .mockResolvedValueOnce({ total: 2000 }); // drawer expenses
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([
+          { payment_method: 'Cash', sale_count: 3, total: 30000 },
+          { payment_method: 'KBZPay', sale_count: 1, total: 12000 },
+        ])
+        .mockResolvedValueOnce([
+          { id: 'm-1', shift_id: 'shift-1', type: 'pay_in', amount: 1000 },
+          { id: 'm-2', shift_id: 'shift-1', type: 'pay_out', amount: 10000 },
+        ]);
+
+      const report = await db.getShiftReport('shift-1');
+
+      expect(report.saleCount).toBe(4);
+      expect(report.salesTotal).toBe(42000);
+      expect(report.cashSales).toBe(30000);
+      expect(report.payIns).toBe(1000);
+      expect(report.payOuts).toBe(10000);
+      // 50000 + 30000 + 3000 + 1000 - 10000 - 5000 - 2000
+      expect(report.expectedCash).toBe(67000);
+      expect(report.countedCash).toBeNull();
+      expect(report.variance).toBeNull();
+    });
+
+    it('should list points as a tender without counting them as cash', async () => {
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce(openShift) // getShiftById
+        .mockResolvedValueOnce({ total: 0 }) // cash debt payments
+        .mockResolvedValueOnce({
+          refund_count: 0,
+          refunds_total: 0,
+          cash_refunds: 0,
+        })
+        .mockResolvedValueOnce({ total: 0 }); // drawer expenses
+      mockDatabase.getAllAsync
+        .mockResolvedValueOnce([
+          // A 10000 sale with 4000 of it paid in points
+          {
+            payment_method: 'Cash',
+            sale_count: 2,
+            total: 16000,
+            points_sale_count: 1,
+            points_total: 4000,
+          },
+        ])
+        .mockResolvedValueOnce([]); // cash movements
+
+      const report = await db.getShiftReport('shift-1');
+
+      expect(report.paymentTotals).toEqual([
+        { payment_method: 'Cash', sale_count: 2, total: 16000 },
+        { payment_method: LOYALTY_PAYMENT_METHOD, sale_count: 1, total: 4000 },
+      ]);
+      expect(report.saleCount).toBe(2);
+      expect(report.salesTotal).toBe(20000);
+      expect(report.cashSales).toBe(16000);
+      expect(report.expectedCash).toBe(50000 + 16000);
+    });
+
+    it('should throw when the shift does not exist', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      await expect(db.getShiftReport('missing')).rejects.toThrow(
+        'Shift not found',
+      );
+    });
+  });
+
+  describe('closeShift', () => {
+    it('should store the counted and expected cash', async () => {
+      const closedShift = {
+        ...openShift,
+        status: 'closed',
+        expected_cash: 50000,
+        counted_cash: 49500,
+        closed_at: '2025-01-15 18:00:00',
+      };
+      mockDatabase.getFirstAsync.mockImplementation((query: string) => {
+        if (query.includes('FROM shifts WHERE id')) {
+          return Promise.resolve(
+            mockDatabase.runAsync.mock.calls.length > 0
+              ? closedShift
+              : openShift,
+          );
+        }
+        return Promise.resolve({ total: 0 });
+      });
+      mockDatabase.getAllAsync.mockResolvedValue([]);
+
+      const report = await db.closeShift('shift-1', 49500, 'Counted twice');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining("SET status = 'closed'"),
+        [50000, 49500, 'Counted twice', expect.any(String), 'shift-1'],
+      );
+      expect(report.countedCash).toBe(49500);
+      expect(report.variance).toBe(-500);
+    });
+
+    it('should not close a shift twice', async () => {
+      mockDatabase.getFirstAsync.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes('FROM shifts WHERE id')
+            ? { ...openShift, status: 'closed' }
+            : { total: 0 },
+        ),
+      );
+      mockDatabase.getAllAsync.mockResolvedValue([]);
+
+      await expect(db.closeShift('shift-1', 0)).rejects.toThrow(
+        'Shift is already closed',
+      );
+    });
+  });
+
+  describe('addSale', () => {
+    it('should link new sales to the open shift', async () => {
+      mockDatabase.getFirstAsync.mockImplementation((query: string) =>
+        Promise.resolve(
+          query.includes('FROM shifts') ? { id: 'shift-1' } : null,
+        ),
+      );
+      mockDatabase.getAllAsync.mockResolvedValue([]);
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      await db.addSale({ total: 1000, payment_method: 'Cash' }, [
+        {
+          product_id: 'product-1',
+          quantity: 1,
+          price: 1000,
+          cost: 600,
+          discount: 0,
+          subtotal: 1000,
+        },
+      ]);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO sales'),
+        expect.arrayContaining(['shift-1']),
+      );
+    });
+
+    it('should not link imported sales to the open shift', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ id: 'shift-1' });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      await db.addSale(
+        { total: 1000, payment_method: 'Cash', voucher_id: '2024-01-01-001' },
+        [],
+      );
+
+      const saleInsert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO sales'),
+      );
+      expect(saleInsert[1]).not.toContain('shift-1');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+// Hash is deterministic so PIN checks can be asserted
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(
+    async (_algorithm: string, value: string) => `hash(${value})`,
+  ),
+}));
+
+describe('DatabaseService - Staff Accounts', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const ownerRow = {
+    id: 'staff-1',
+    name: 'Aung Aung',
+    role: 'owner',
+    pin_hash: 'hash(salt-1:1234)',
+    pin_salt: 'salt-1',
+    is_active: 1,
+    created_at: '2025-01-15 08:00:00',
+    updated_at: '2025-01-15 08:00:00',
+  };
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addStaff', () => {
+    it('should store a salted PIN hash, never the PIN', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
+
+      const id = await db.addStaff({
+        name: ' Aung Aung ',
+        role: 'owner',
+        pin: '1234',
+      });
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT INTO staff');
+      expect(params[0]).toBe(id);
+      expect(params[1]).toBe('Aung Aung');
+      expect(params[3]).toBe(`hash(${params[4]}:1234)`);
+      expect(params).not.toContain('1234');
+    });
+
+    it('should require the first account to be an owner', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
+
+      await expect(
+        db.addStaff({ name: 'Cashier', role: 'cashier', pin: '1234' }),
+      ).rejects.toThrow('The first staff account must be an owner');
+    });
+
+    it('should reject a PIN that is not 4 to 6 digits', async () => {
+      await expect(
+        db.addStaff({ name: 'Owner', role: 'owner', pin: '12a4' }),
+      ).rejects.toThrow('PIN must be 4 to 6 digits');
+    });
+
+    it('should only let owners add staff', async () => {
+      db.setActiveStaff({ id: 'staff-2', role: 'manager' });
+
+      await expect(
+        db.addStaff({ name: 'Cashier', role: 'cashier', pin: '1234' }),
+      ).rejects.toThrow('Permission denied');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateStaff', () => {
+    it('should keep at least one active owner', async () => {
+      mockDatabase.getFirstAsync
+        .mockResolvedValueOnce(ownerRow)
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        db.updateStaff('staff-1', { is_active: false }),
+      ).rejects.toThrow('At least one active owner is required');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyStaffPin', () => {
+    it('should return the staff member for the right PIN', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(ownerRow);
+
+      const staff = await db.verifyStaffPin('staff-1', '1234');
+
+      expect(staff).toEqual(
+        expect.objectContaining({ id: 'staff-1', role: 'owner' }),
+      );
+      expect(staff).not.toHaveProperty('pin_hash');
+    });
+
+    it('should return null for a wrong PIN', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(ownerRow);
+
+      expect(await db.verifyStaffPin('staff-1', '9999')).toBeNull();
+    });
+  });
+
+  describe('role permissions', () => {
+    it('should block a cashier from deleting a sale', async () => {
+      db.setActiveStaff({ id: 'staff-3', role: 'cashier' });
+
+      await expect(db.deleteSale('sale-1')).rejects.toThrow(
+        'Permission denied',
+      );
+      expect(mockDatabase.execAsync).not.toHaveBeenCalled();
+    });
+
+    it('should block a manager from deleting a product', async () => {
+      db.setActiveStaff({ id: 'staff-2', role: 'manager' });
+
+      await expect(db.deleteProduct('product-1')).rejects.toThrow(
+        'Permission denied',
+      );
+    });
+
+    it('should allow everything when nobody is signed in', () => {
+      expect(() => db.assertPermission('data.cleanup')).not.toThrow();
+    });
+  });
+
+  describe('sale attribution', () => {
+    it('should record the signed-in cashier on a new sale', async () => {
+      db.setActiveStaff({ id: 'staff-3', role: 'cashier' });
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+      mockDatabase.getAllAsync.mockResolvedValue([]);
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      await db.addSale({ total: 1000, payment_method: 'Cash' }, [
+        {
+          product_id: 'product-1',
+          quantity: 1,
+          price: 1000,
+          cost: 600,
+          discount: 0,
+          subtotal: 1000,
+        },
+      ]);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO sales'),
+        expect.arrayContaining(['staff-3']),
+      );
+    });
+
+    it('should not attribute imported sales to the signed-in staff', async () => {
+      db.setActiveStaff({ id: 'staff-3', role: 'cashier' });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      await db.addSale(
+        { total: 1000, payment_method: 'Cash', voucher_id: '2024-01-01-001' },
+        [],
+      );
+
+      const saleInsert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO sales'),
+      );
+      expect(saleInsert[1]).not.toContain('staff-3');
+    });
+  });
+});
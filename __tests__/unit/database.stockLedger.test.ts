@@ -0,0 +1,159 @@
+import { DatabaseService, InsufficientStockError } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Stock Ledger', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const saleItem = {
+    product_id: 'product-1',
+    quantity: 2,
+    price: 1000,
+    cost: 400,
+    discount: 0,
+    subtotal: 2000,
+  };
+
+  const findQuery = (fragment: string) =>
+    mockDatabase.runAsync.mock.calls.filter(([query]: [string]) =>
+      query.includes(fragment),
+    );
+
+  const stockOnHand = (quantity: number) =>
+    mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+      query.includes('SELECT name, quantity FROM products')
+        ? { name: 'Green Tea', quantity }
+        : null,
+    );
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn().mockResolvedValue([]),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+    db.setDeviceId('device-a');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addSale', () => {
+    it('should append the sold quantity to the ledger', async () => {
+      stockOnHand(5);
+
+      const { id } = await db.addSale({ total: 2000, payment_method: 'Cash' }, [
+        saleItem,
+      ]);
+
+      const [ledgerInsert] = findQuery('INSERT INTO stock_ledger');
+      expect(ledgerInsert[1]).toEqual([
+        expect.any(String),
+        'product-1',
+        -2,
+        'sale',
+        id,
+        'device-a',
+        null,
+        expect.any(String),
+      ]);
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE products SET quantity = quantity + ?'),
+        [-2, 'product-1'],
+      );
+    });
+
+    it('should refuse to oversell when negative stock is blocked', async () => {
+      stockOnHand(1);
+
+      await expect(
+        db.addSale({ total: 2000, payment_method: 'Cash' }, [saleItem]),
+      ).rejects.toBeInstanceOf(InsufficientStockError);
+
+      expect(findQuery('INSERT INTO stock_ledger')).toHaveLength(0);
+      expect(mockDatabase.execAsync).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should sell below zero when negative stock is allowed', async () => {
+      stockOnHand(1);
+      db.setAllowNegativeStock(true);
+
+      await db.addSale({ total: 2000, payment_method: 'Cash' }, [saleItem]);
+
+      expect(findQuery('INSERT INTO stock_ledger')).toHaveLength(1);
+      expect(mockDatabase.execAsync).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should never refuse imported sales', async () => {
+      stockOnHand(0);
+
+      await db.addSale(
+        { total: 2000, payment_method: 'Cash', voucher_id: 'V-001' },
+        [saleItem],
+      );
+
+      expect(findQuery('INSERT INTO stock_ledger')).toHaveLength(1);
+    });
+  });
+
+  describe('getStockReconciliation', () => {
+    it('should report how far merged sales took stock below zero', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          product_id: 'product-1',
+          product_name: 'Green Tea',
+          quantity: -1,
+          lowest_balance: -1,
+          oversold_sales: 1,
+          device_count: 2,
+          first_oversold_at: '2024-01-01 10:00:00',
+        },
+        {
+          product_id: 'product-2',
+          product_name: 'Black Tea',
+          quantity: 4,
+          lowest_balance: -2,
+          oversold_sales: 1,
+          device_count: 2,
+          first_oversold_at: '2024-01-01 11:00:00',
+        },
+      ]);
+
+      const items = await db.getStockReconciliation();
+
+      expect(items.map((item) => item.oversold_quantity)).toEqual([1, 2]);
+    });
+  });
+
+  describe('reconcileStockLedger', () => {
+    it('should record existing stock as opening entries', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([{ id: 'product-1' }]);
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        quantity: 7,
+        entries: 0,
+        ledgered: 0,
+      });
+
+      await db.reconcileStockLedger();
+
+      const [ledgerInsert] = findQuery('INSERT INTO stock_ledger');
+      expect(ledgerInsert[1].slice(1, 4)).toEqual(['product-1', 7, 'opening']);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { DatabaseService, SyncChange } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Sync', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+  let localRows: Record<string, any[]>;
+  let localVersions: Record<string, any>;
+  let pendingRows: string[];
+
+  const remoteCategory: SyncChange = {
+    table_name: 'categories',
+    row_id: 'remote-category',
+    operation: 'upsert',
+    version: 2,
+    updated_at: '2024-01-02T00:00:00.000Z',
+    device_id: 'device-b',
+    data: { id: 'remote-category', name: 'Drinks', description: 'Cold' },
+  };
+
+  const findQuery = (fragment: string) =>
+    mockDatabase.runAsync.mock.calls.filter(([query]: [string]) =>
+      query.includes(fragment),
+    );
+
+  beforeEach(() => {
+    localRows = { categories: [] };
+    localVersions = {};
+    pendingRows = [];
+
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+      getFirstAsync: jest
+        .fn()
+        .mockImplementation(async (query: string, params: any[] = []) => {
+          if (query.includes('FROM sync_id_map')) return null;
+          if (query.includes('FROM sync_row_versions')) {
+            return localVersions[params[1]] || null;
+          }
+          if (query.includes('FROM sync_outbox')) {
+            return pendingRows.includes(params[1]) ? { 1: 1 } : null;
+          }
+          if (query.includes('SELECT * FROM categories WHERE id = ?')) {
+            return (
+              localRows.categories.find((row) => row.id === params[0]) || null
+            );
+          }
+          return null;
+        }),
+      getAllAsync: jest
+        .fn()
+        .mockImplementation(async (query: string, params: any[] = []) => {
+          if (query.includes('PRAGMA table_info(categories)')) {
+            return [{ name: 'id' }, { name: 'name' }, { name: 'description' }];
+          }
+          if (query.includes('SELECT * FROM categories WHERE name = ?')) {
+            return localRows.categories.filter((row) => row.name === params[0]);
+          }
+          return [];
+        }),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applyRemoteSyncChanges', () => {
+    it('should write a new remote row with the triggers paused', async () => {
+      const result = await db.applyRemoteSyncChanges(
+        [remoteCategory],
+        'device-a',
+      );
+
+      expect(result).toEqual({ applied: 1, skipped: 0, conflicts: 0 });
+      const [insert] = findQuery('INSERT INTO categories');
+      expect(insert[0]).toContain('ON CONFLICT (id) DO UPDATE');
+      expect(insert[1]).toEqual(['remote-category', 'Drinks', 'Cold']);
+
+      const stateWrites = mockDatabase.runAsync.mock.calls.map(
+        ([query]: [string]) => query,
+      );
+      expect(stateWrites[0]).toContain('INSERT INTO sync_state');
+      expect(stateWrites[stateWrites.length - 1]).toContain(
+        "DELETE FROM sync_state WHERE key = 'applying_remote'",
+      );
+      expect(mockDatabase.execAsync).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should ignore changes this device made', async () => {
+      const result = await db.applyRemoteSyncChanges(
+        [{ ...remoteCategory, device_id: 'device-a' }],
+        'device-a',
+      );
+
+      expect(result).toEqual({ applied: 0, skipped: 1, conflicts: 0 });
+      expect(mockDatabase.execAsync).not.toHaveBeenCalled();
+    });
+
+    it('should merge a row created on both devices under one name', async () => {
+      localRows.categories = [
+        { id: 'local-category', name: 'Drinks', description: null },
+      ];
+      localVersions['local-category'] = {
+        version: 1,
+        updated_at: '2024-01-01T00:00:00.000Z',
+        deleted: 0,
+        device_id: null,
+      };
+
+      const result = await db.applyRemoteSyncChanges(
+        [remoteCategory],
+        'device-a',
+      );
+
+      expect(result.conflicts).toBe(1);
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledWith(
+        'SELECT * FROM categories WHERE name = ?',
+        ['Drinks'],
+      );
+      expect(findQuery('INTO sync_id_map')[0][1]).toEqual([
+        'categories',
+        'remote-category',
+        'local-category',
+      ]);
+      // The remote edit is newer, so it lands on the local row
+      expect(findQuery('INSERT INTO categories')[0][1]).toEqual([
+        'local-category',
+        'Drinks',
+        'Cold',
+      ]);
+      expect(findQuery('INSERT INTO sync_conflicts')[0][1][3]).toBe('merged');
+    });
+
+    it('should keep a newer local edit that has not been pushed', async () => {
+      localRows.categories = [
+        { id: 'remote-category', name: 'Soft Drinks', description: null },
+      ];
+      localVersions['remote-category'] = {
+        version: 3,
+        updated_at: '2024-01-03T00:00:00.000Z',
+        deleted: 0,
+        device_id: null,
+      };
+      pendingRows = ['remote-category'];
+
+      const result = await db.applyRemoteSyncChanges(
+        [remoteCategory],
+        'device-a',
+      );
+
+      expect(result).toEqual({ applied: 0, skipped: 1, conflicts: 1 });
+      expect(findQuery('INSERT INTO categories')).toHaveLength(0);
+      expect(findQuery('INSERT INTO sync_conflicts')[0][1][3]).toBe(
+        'kept_local',
+      );
+    });
+  });
+});
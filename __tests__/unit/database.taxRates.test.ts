@@ -0,0 +1,147 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+describe('DatabaseService - Tax Rates', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn(),
+      getFirstAsync: jest.fn(),
+      getAllAsync: jest.fn(),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addTaxRate', () => {
+    it('should insert an exclusive tax rate', async () => {
+      const id = await db.addTaxRate({
+        name: 'Commercial Tax',
+        rate: 5,
+        is_inclusive: 0,
+      });
+
+      expect(typeof id).toBe('string');
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO tax_rates'),
+        [id, 'Commercial Tax', 5, 0],
+      );
+    });
+
+    it('should reject rates outside 0-100', async () => {
+      await expect(
+        db.addTaxRate({ name: 'Bad', rate: 150, is_inclusive: 0 }),
+      ).rejects.toThrow('Tax rate must be between 0 and 100');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTaxRate', () => {
+    it('should not delete a rate that is still assigned', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ count: 2 });
+
+      await expect(db.deleteTaxRate('tax-1')).rejects.toThrow(
+        'Cannot delete tax rate that is assigned to categories or products',
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('should delete an unassigned rate', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
+
+      await db.deleteTaxRate('tax-1');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM tax_rates WHERE id = ?',
+        ['tax-1'],
+      );
+    });
+  });
+
+  describe('addSale', () => {
+    it('should persist tax per sale item and the sale tax total', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
+      mockDatabase.runAsync.mockResolvedValue({ changes: 1 });
+
+      await db.addSale(
+        {
+          total: 10500,
+          payment_method: 'Cash',
+          voucher_id: '2025-01-01-001',
+        },
+        [
+          {
+            product_id: 'product-1',
+            quantity: 2,
+            price: 5000,
+            cost: 3000,
+            discount: 0,
+            subtotal: 10000,
+            tax_name: 'Commercial Tax',
+            tax_rate: 5,
+            tax_amount: 500,
+            tax_inclusive: 0,
+          },
+        ],
+      );
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO sales'),
+        expect.arrayContaining([10500, 'Cash', 500]),
+      );
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('tax_inclusive'),
+        expect.arrayContaining(['Commercial Tax', 5, 500, 0]),
+      );
+    });
+  });
+
+  describe('getTaxSummaryByDateRange', () => {
+    it('should net refunded tax out of collected tax per rate', async () => {
+      mockDatabase.getAllAsync
+        // Tax collected on sales in range
+        .mockResolvedValueOnce([
+          {
+            tax_name: 'Commercial Tax',
+            tax_rate: 5,
+            tax_inclusive: 0,
+            taxable_amount: 20000,
+            tax_amount: 1000,
+            item_count: 4,
+          },
+        ])
+        // Tax on items returned in range
+        .mockResolvedValueOnce([
+          {
+            tax_name: 'Commercial Tax',
+            tax_rate: 5,
+            tax_inclusive: 0,
+            refunded_tax: 250,
+          },
+        ]);
+
+      const summary = await db.getTaxSummaryByDateRange(
+        new Date('2025-01-01'),
+        new Date('2025-01-31'),
+      );
+
+      expect(summary).toHaveLength(1);
+      expect(summary[0].tax_amount).toBe(1000);
+      expect(summary[0].refunded_tax).toBe(250);
+      expect(summary[0].net_tax).toBe(750);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { DatabaseService } from '@/services/database';
+import * as SQLite from 'expo-sqlite';
+
+// Mock expo-sqlite
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+// Product deletes write audit entries, which hash with expo-crypto
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(() => 'uuid-' + Math.random().toString(36).slice(2)),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(
+    async (_algorithm: string, value: string) => `hash(${value})`,
+  ),
+}));
+
+describe('DatabaseService - Product Variants', () => {
+  let db: DatabaseService;
+  let mockDatabase: any;
+
+  const parent = {
+    id: 'parent-1',
+    name: 'T-Shirt',
+    category_id: 'category-1',
+    supplier_id: 'supplier-1',
+    tax_rate_id: null,
+    imageUrl: null,
+    parent_id: null,
+    variant_attributes: '["Size","Colour"]',
+    price: 10000,
+    cost: 6000,
+    quantity: 0,
+    min_stock: 0,
+  };
+
+  beforeEach(() => {
+    mockDatabase = {
+      execAsync: jest.fn(),
+      runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+      getFirstAsync: jest
+        .fn()
+        .mockImplementation(async (query: string) =>
+          query.includes('SELECT * FROM products') ? parent : null,
+        ),
+      getAllAsync: jest.fn().mockResolvedValue([]),
+    };
+
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(mockDatabase);
+    db = new DatabaseService(mockDatabase);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addProductVariant', () => {
+    it('should add the variant as a product under its parent', async () => {
+      await db.addProductVariant('parent-1', {
+        options: { Colour: 'Red', Size: ' M ' },
+        barcode: '8850001',
+        price: 12000,
+        cost: 7000,
+        quantity: 5,
+        min_stock: 2,
+      });
+
+      const insert = mockDatabase.runAsync.mock.calls.find(
+        ([query]: [string]) => query.includes('INSERT INTO products'),
+      );
+      const params = insert[1];
+      expect(params[1]).toBe('T-Shirt (M / Red)');
+      expect(params[2]).toBe('8850001');
+      expect(params[3]).toBe('category-1');
+      expect(params[4]).toBe(12000);
+      expect(params[6]).toBe(5);
+      expect(params[8]).toBe('supplier-1');
+      expect(params[11]).toBe('parent-1');
+      expect(JSON.parse(params[12])).toEqual({ Size: 'M', Colour: 'Red' });
+    });
+
+    it('should reject a combination that already exists', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          id: 'variant-1',
+          parent_id: 'parent-1',
+          variant_options: '{"Size":"M","Colour":"Red"}',
+        },
+      ]);
+
+      await expect(
+        db.addProductVariant('parent-1', {
+          options: { Size: 'm', Colour: 'red' },
+          price: 12000,
+          cost: 7000,
+          quantity: 5,
+          min_stock: 2,
+        }),
+      ).rejects.toThrow('A variant with these options already exists');
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('should require a value for every option', async () => {
+      await expect(
+        db.addProductVariant('parent-1', {
+          options: { Size: 'M' },
+          price: 12000,
+          cost: 7000,
+          quantity: 5,
+          min_stock: 2,
+        }),
+      ).rejects.toThrow('Enter a value for Colour');
+    });
+  });
+
+  describe('deleteProduct', () => {
+    it('should not delete a product that still has variants', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (query: string) =>
+        query.includes('WHERE parent_id = ?') ? { count: 2 } : parent,
+      );
+
+      await expect(db.deleteProduct('parent-1')).rejects.toThrow(
+        'Delete the variants of this product first',
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVariantSalesRollup', () => {
+    it('should roll variant sales up to their parent', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          parent_id: 'parent-1',
+          parent_name: 'T-Shirt',
+          product_id: 'variant-1',
+          name: 'T-Shirt (M / Red)',
+          variant_options: '{"Size":"M","Colour":"Red"}',
+          quantity: 3,
+          revenue: 36000,
+          profit: 15000,
+        },
+        {
+          parent_id: 'parent-1',
+          parent_name: 'T-Shirt',
+          product_id: 'variant-2',
+          name: 'T-Shirt (L / Red)',
+          variant_options: '{"Size":"L","Colour":"Red"}',
+          quantity: 1,
+          revenue: 12000,
+          profit: 5000,
+        },
+      ]);
+
+      const rollups = await db.getVariantSalesRollup(
+        new Date('2024-01-01'),
+        new Date('2024-01-31'),
+      );
+
+      expect(rollups).toHaveLength(1);
+      expect(rollups[0]).toEqual(
+        expect.objectContaining({
+          parent_id: 'parent-1',
+          quantity: 4,
+          revenue: 48000,
+          profit: 20000,
+        }),
+      );
+      expect(rollups[0].variants.map((v) => v.product_id)).toEqual([
+        'variant-1',
+        'variant-2',
+      ]);
+    });
+  });
+});
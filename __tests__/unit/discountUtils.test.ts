@@ -0,0 +1,105 @@
+import {
+  allocateOrderDiscount,
+  calculateOrderDiscount,
+  getCouponError,
+  normalizeCouponCode,
+} from '@/utils/discountUtils';
+import type { Coupon } from '@/services/database';
+
+describe('Order discounts', () => {
+  const coupon = (overrides: Partial<Coupon>): Coupon => ({
+    id: 'coupon-1',
+    code: 'WELCOME10',
+    discount_type: 'percent',
+    discount_value: 10,
+    min_spend: null,
+    expires_on: null,
+    max_uses: null,
+    is_active: 1,
+    use_count: 0,
+    created_at: '2026-01-01 00:00:00',
+    updated_at: '2026-01-01 00:00:00',
+    ...overrides,
+  });
+
+  const at = (date: string, time: string) => new Date(`${date}T${time}:00`);
+
+  describe('calculateOrderDiscount', () => {
+    it('should take a percentage or a fixed amount off the subtotal', () => {
+      expect(
+        calculateOrderDiscount(15000, { type: 'percent', value: 10 }),
+      ).toBe(1500);
+      expect(
+        calculateOrderDiscount(15000, { type: 'fixed', value: 2000 }),
+      ).toBe(2000);
+      expect(calculateOrderDiscount(15000, null)).toBe(0);
+    });
+
+    it('should never take off more than the subtotal', () => {
+      expect(calculateOrderDiscount(1500, { type: 'fixed', value: 2000 })).toBe(
+        1500,
+      );
+      expect(
+        calculateOrderDiscount(1500, { type: 'percent', value: 150 }),
+      ).toBe(1500);
+    });
+  });
+
+  describe('allocateOrderDiscount', () => {
+    it('should share the discount by line amount', () => {
+      expect(allocateOrderDiscount([1000, 3000], 400)).toEqual([100, 300]);
+    });
+
+    it('should add up to the discount exactly after rounding', () => {
+      const shares = allocateOrderDiscount([1000, 1000, 1000], 100);
+
+      expect(shares).toEqual([33.33, 33.33, 33.34]);
+      expect(shares.reduce((sum, share) => sum + share, 0)).toBe(100);
+    });
+  });
+
+  describe('getCouponError', () => {
+    const noon = at('2026-03-10', '12:00');
+
+    it('should accept a coupon that meets every condition', () => {
+      expect(
+        getCouponError(
+          coupon({ min_spend: 10000, expires_on: '2026-03-10', max_uses: 1 }),
+          10000,
+          noon,
+        ),
+      ).toBe(null);
+    });
+
+    it('should reject a coupon past its expiry day', () => {
+      const march = coupon({ expires_on: '2026-03-10' });
+
+      expect(getCouponError(march, 0, at('2026-03-10', '23:59'))).toBe(null);
+      expect(getCouponError(march, 0, at('2026-03-11', '00:00'))).toBe(
+        'expired',
+      );
+    });
+
+    it('should reject a single-use coupon once used', () => {
+      expect(
+        getCouponError(coupon({ max_uses: 1, use_count: 1 }), 0, noon),
+      ).toBe('used_up');
+    });
+
+    it('should reject an order below the minimum spend', () => {
+      expect(getCouponError(coupon({ min_spend: 10000 }), 9999, noon)).toBe(
+        'below_minimum',
+      );
+    });
+
+    it('should reject a coupon that is switched off', () => {
+      expect(getCouponError(coupon({ is_active: 0 }), 0, noon)).toBe(
+        'inactive',
+      );
+    });
+  });
+
+  it('should match codes regardless of case and spaces', () => {
+    expect(normalizeCouponCode('  welcome10 ')).toBe('WELCOME10');
+  });
+});
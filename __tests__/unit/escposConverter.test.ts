@@ -1,5 +1,11 @@
-import { ESCPOSConverter, ReceiptData } from '@/utils/escposConverter';
+import {
+  ESCPOSConverter,
+  LabelPrintOptions,
+  ReceiptData,
+  ShiftReportPrintData,
+} from '@/utils/escposConverter';
 import { ShopSettings } from '@/services/shopSettingsStorage';
+import { PrinterCodePage } from '@/utils/printerProfiles';
 
 describe('ESCPOSConverter', () => {
   const mockReceiptData: ReceiptData = {
@@ -167,5 +173,292 @@ describe('ESCPOSConverter', () => {
       expect(result).toContain('\x1B!\x10'); // Double height on
       expect(result).toContain('\x1B!\x00'); // Double height off
     });
+
+    it('should print the voucher ID and customer with their debt', () => {
+      const result = ESCPOSConverter.convertReceipt(
+        {
+          ...mockReceiptData,
+          saleId: 'b7e0c5d2-uuid',
+          voucherId: 'V-20250115-0001',
+          customer: { name: 'Daw Aye', debtBalance: 5000 },
+        },
+        mockShopSettings
+      );
+
+      expect(result).toContain('Receipt #: V-20250115-0001');
+      expect(result).not.toContain('b7e0c5d2-uuid');
+      expect(result).toContain('Customer: Daw Aye');
+      expect(result).toContain('Balance owed');
+    });
+
+    it('should print a voucher link QR code with the voucher ID', () => {
+      const result = ESCPOSConverter.convertReceipt(
+        { ...mockReceiptData, voucherId: 'V 1' },
+        {
+          ...mockShopSettings,
+          receiptQrMode: 'voucher',
+          receiptQrValue: 'https://shop.example/r/{voucherId}',
+        }
+      );
+      const content = 'https://shop.example/r/V%201';
+
+      // Store command carries the data length plus three
+      expect(result).toContain(
+        '\x1D(k' + String.fromCharCode(content.length + 3, 0) + '1P0' + content
+      );
+      expect(result).toContain('\x1D(k\x03\x001Q0');
+    });
+
+    it('should leave the payment QR code off credit notes', () => {
+      const settings: ShopSettings = {
+        ...mockShopSettings,
+        receiptQrMode: 'payment',
+        receiptQrValue: 'PAY-QR-DATA',
+      };
+
+      expect(
+        ESCPOSConverter.convertReceipt(mockReceiptData, settings)
+      ).toContain('1P0PAY-QR-DATA');
+      expect(
+        ESCPOSConverter.convertReceipt(
+          {
+            ...mockReceiptData,
+            creditNote: { originalReceiptId: 'V-0001' },
+          },
+          settings
+        )
+      ).not.toContain('\x1D(k');
+    });
+
+    it('should print the logo as a raster image', () => {
+      const result = ESCPOSConverter.convertReceipt(
+        mockReceiptData,
+        mockShopSettings,
+        {
+          width: 16,
+          height: 1,
+          bytesPerRow: 2,
+          data: Uint8Array.of(0xff, 0x81),
+        }
+      );
+
+      expect(result).toContain('\x1Dv0\x00\x02\x00\x01\x00\xff\x81');
+    });
+  });
+
+  describe('toBytes', () => {
+    it('should keep command bytes and send ASCII text as it is', () => {
+      expect(
+        Array.from(ESCPOSConverter.toBytes('\x1D\xffA\x1Bt\xe9A', 'pc437'))
+      ).toEqual([0x1d, 0xff, 0x41, 0x1b, 0x74, 0xe9, 0x41]);
+    });
+
+    it('should encode text in the code page of each profile', () => {
+      const bytes = (text: string, codePage: PrinterCodePage) =>
+        Array.from(ESCPOSConverter.toBytes(text, codePage));
+
+      expect(bytes('é€', 'pc437')).toEqual([0x82, 0x3f]);
+      expect(bytes('é€', 'pc858')).toEqual([0x82, 0xd5]);
+      expect(bytes('é€', 'wpc1252')).toEqual([0xe9, 0x80]);
+    });
+
+    it('should send ? for characters the code page has no glyph for', () => {
+      expect(
+        Array.from(ESCPOSConverter.toBytes('\u1000😀', 'wpc1252'))
+      ).toEqual([0x3f, 0x3f]);
+    });
+  });
+
+  describe('convertShiftReport', () => {
+    const mockShiftReport: ShiftReportPrintData = {
+      type: 'X',
+      openedAt: new Date('2025-01-15T08:00:00Z'),
+      openingFloat: 50000,
+      paymentTotals: [
+        { name: 'Cash', count: 3, total: 30000 },
+        { name: 'KBZPay', count: 1, total: 12000 },
+      ],
+      salesTotal: 42000,
+      cashSales: 30000,
+      refundsTotal: 5000,
+      cashRefunds: 5000,
+      debtCollected: 0,
+      payIns: 0,
+      payOuts: 10000,
+      drawerExpenses: 2000,
+      expectedCash: 63000,
+    };
+
+    it('should print sales per payment method and expected cash', () => {
+      const result = ESCPOSConverter.convertShiftReport(
+        mockShiftReport,
+        mockShopSettings
+      );
+
+      expect(result).toContain('Test Shop');
+      expect(result).toContain('X REPORT');
+      expect(result).toContain('Cash (3)');
+      expect(result).toContain('KBZPay (1)');
+      expect(result).toContain('Expected cash');
+      expect(result).not.toContain('Counted cash');
+    });
+
+    it('should print counted cash and variance on a Z report', () => {
+      const result = ESCPOSConverter.convertShiftReport(
+        {
+          ...mockShiftReport,
+          type: 'Z',
+          closedAt: new Date('2025-01-15T18:00:00Z'),
+          countedCash: 62500,
+          variance: -500,
+        },
+        mockShopSettings
+      );
+
+      expect(result).toContain('Z REPORT');
+      expect(result).toContain('Closed:');
+      expect(result).toContain('Counted cash');
+      expect(result).toContain('Short');
+    });
+  });
+
+  describe('convertLabels', () => {
+    const labelOptions: LabelPrintOptions = {
+      showName: true,
+      showPrice: true,
+      showBarcode: true,
+      showShopName: false,
+    };
+
+    it('should send EAN-13 barcodes as 12 digits', () => {
+      const result = ESCPOSConverter.convertLabels(
+        [{ name: 'Green Tea', price: 1500, barcode: '4006381333931' }],
+        labelOptions,
+        mockShopSettings
+      );
+
+      expect(result).toContain('Green Tea');
+      expect(result).toContain('\x1DkC\x0C400638133393');
+      expect(result).not.toContain('Test Shop');
+    });
+
+    it('should send other barcodes as Code 128 set B', () => {
+      const result = ESCPOSConverter.convertLabels(
+        [{ name: 'Green Tea', price: 1500, barcode: 'SKU{1' }],
+        labelOptions,
+        mockShopSettings
+      );
+
+      expect(result).toContain('\x1DkI\x08{BSKU{{1');
+    });
+
+    it('should separate labels and skip barcodes when there is none', () => {
+      const result = ESCPOSConverter.convertLabels(
+        [
+          { name: 'Green Tea', price: 1500, barcode: null },
+          { name: 'Black Tea', price: 1200 },
+        ],
+        { ...labelOptions, showShopName: true },
+        mockShopSettings
+      );
+
+      expect(result).not.toContain('\x1Dk');
+      expect(result).toContain('-'.repeat(32));
+      expect(result.match(/Test Shop/g)).toHaveLength(2);
+    });
+  });
+
+  describe('printer profiles', () => {
+    const wideSettings: ShopSettings = {
+      ...mockShopSettings,
+      printerProfile: {
+        paperWidth: '80mm',
+        charsPerLine: 48,
+        codePage: 'wpc1252',
+        cutCommand: 'partial',
+        renderMode: 'text',
+      },
+    };
+
+    it('should print for the Xprinter P300 when no profile is set', () => {
+      const result = ESCPOSConverter.convertReceipt(
+        mockReceiptData,
+        mockShopSettings
+      );
+
+      expect(result.startsWith('\x1B@\x1Bt\x00')).toBe(true);
+      expect(result).toContain('-'.repeat(32) + '\n');
+      expect(result).not.toContain('-'.repeat(33));
+      expect(result.endsWith('\x1DV\x00')).toBe(true);
+    });
+
+    it('should lay out lines, code page and cut for the profile', () => {
+      const result = ESCPOSConverter.convertReceipt(
+        mockReceiptData,
+        wideSettings
+      );
+      const totalLine = result
+        .split('\n')
+        .find((line) => line.includes('TOTAL')) as string;
+
+      expect(result.startsWith('\x1B@\x1Bt\x10')).toBe(true);
+      expect(result).toContain('-'.repeat(48) + '\n');
+      expect(totalLine.replace(/\x1B../g, '').length).toBe(48);
+      expect(result.endsWith('\x1DV\x01')).toBe(true);
+    });
+  });
+
+  describe('toPrintSegments', () => {
+    it('should group text lines and keep other commands as they are', () => {
+      const commands = ESCPOSConverter.convertLabels(
+        [{ name: 'Green Tea', price: 1500, barcode: 'SKU-1' }],
+        {
+          showName: true,
+          showPrice: false,
+          showBarcode: true,
+          showShopName: false,
+        },
+        mockShopSettings
+      );
+
+      const segments = ESCPOSConverter.toPrintSegments(commands);
+
+      // Feeds after the barcode stay with it rather than printing blank lines
+      expect(segments.map((segment) => segment.type)).toEqual([
+        'raw',
+        'lines',
+        'raw',
+      ]);
+      expect(segments[1]).toEqual({
+        type: 'lines',
+        lines: [
+          { text: 'Green Tea', align: 'center', bold: true, large: false },
+        ],
+      });
+      const raw = segments[2].type === 'raw' ? segments[2].commands : '';
+      expect(raw).toContain('{BSKU-1');
+      expect(raw.endsWith('\n\n\n\x1DV\x00')).toBe(true);
+    });
+
+    it('should skip over QR and image data', () => {
+      const segments = ESCPOSConverter.toPrintSegments(
+        ESCPOSConverter.convertReceipt(
+          mockReceiptData,
+          {
+            ...mockShopSettings,
+            receiptQrMode: 'payment',
+            receiptQrValue: 'PAY\nDATA',
+          },
+          { width: 8, height: 1, bytesPerRow: 1, data: Uint8Array.of(0x0a) }
+        )
+      );
+      const text = segments
+        .flatMap((segment) => (segment.type === 'lines' ? segment.lines : []))
+        .map((line) => line.text);
+
+      expect(text).toContain('Test Shop');
+      expect(text).toContain('Come again soon!');
+      expect(text).not.toContain('DATA');
+    });
   });
 });
@@ -0,0 +1,117 @@
+import {
+  ExportChainError,
+  ExportManifest,
+  createExportManifest,
+  orderExportChain,
+} from '@/utils/exportChain';
+
+describe('Export chain', () => {
+  const full = createExportManifest('full-1', '2026-01-01T00:00:00.000Z', null);
+  const first = createExportManifest('inc-1', '2026-01-02T00:00:00.000Z', full);
+  const second = createExportManifest(
+    'inc-2',
+    '2026-01-03T00:00:00.000Z',
+    first,
+  );
+
+  const link = (manifest?: ExportManifest) => ({ manifest });
+
+  const chainErrorCode = (links: { manifest?: ExportManifest }[]) => {
+    try {
+      orderExportChain(links);
+    } catch (error) {
+      return error instanceof ExportChainError ? error.code : 'other';
+    }
+    return null;
+  };
+
+  describe('createExportManifest', () => {
+    it('should start a chain with a full export', () => {
+      expect(full).toEqual({
+        exportId: 'full-1',
+        kind: 'full',
+        chainId: 'full-1',
+        baseExportId: null,
+        sequence: 0,
+        since: null,
+        until: '2026-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should continue from the time the base was read', () => {
+      expect(second).toEqual({
+        exportId: 'inc-2',
+        kind: 'incremental',
+        chainId: 'full-1',
+        baseExportId: 'inc-1',
+        sequence: 2,
+        since: '2026-01-02T00:00:00.000Z',
+        until: '2026-01-03T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('orderExportChain', () => {
+    it('should put the full export first and increments in order', () => {
+      const ordered = orderExportChain([link(second), link(full), link(first)]);
+
+      expect(ordered.map((l) => l.manifest!.exportId)).toEqual([
+        'full-1',
+        'inc-1',
+        'inc-2',
+      ]);
+    });
+
+    it('should reject a chain with an increment left out', () => {
+      let error: unknown;
+      try {
+        orderExportChain([link(full), link(second)]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ExportChainError);
+      expect((error as ExportChainError).code).toBe('missing_link');
+      expect((error as ExportChainError).sequence).toBe(1);
+    });
+
+    it('should reject an increment taken from another copy of the chain', () => {
+      const otherFirst = createExportManifest(
+        'inc-1b',
+        '2026-01-02T12:00:00.000Z',
+        full,
+      );
+
+      expect(chainErrorCode([link(full), link(otherFirst), link(second)])).toBe(
+        'missing_link',
+      );
+    });
+
+    it('should reject files that do not form one chain', () => {
+      const otherFull = createExportManifest(
+        'full-2',
+        '2026-02-01T00:00:00.000Z',
+        null,
+      );
+      const otherFirst = createExportManifest(
+        'inc-3',
+        '2026-02-02T00:00:00.000Z',
+        otherFull,
+      );
+
+      expect(chainErrorCode([link(full), link(undefined)])).toBe('not_linked');
+      expect(chainErrorCode([link(first), link(second)])).toBe(
+        'no_full_export',
+      );
+      expect(chainErrorCode([link(full), link(otherFull)])).toBe(
+        'several_full_exports',
+      );
+      expect(chainErrorCode([link(full), link(otherFirst)])).toBe(
+        'different_chains',
+      );
+      expect(chainErrorCode([link(full), link(first), link(first)])).toBe(
+        'duplicate_link',
+      );
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  CorruptedExportError,
+  WrongPassphraseError,
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+} from '@/utils/exportEncryption';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (byteCount: number) =>
+    new Uint8Array(require('crypto').randomBytes(byteCount)),
+}));
+
+// Key derivation is deliberately slow
+jest.setTimeout(30000);
+
+describe('Export Encryption', () => {
+  const plaintext = JSON.stringify({
+    version: '2.0',
+    data: { customers: [{ name: 'Ko Aung', phone: '09 123 456 789' }] },
+  });
+
+  it('should round trip the export with the right passphrase', async () => {
+    const encrypted = await encryptExport(plaintext, 'shop passphrase');
+
+    expect(isEncryptedExport(encrypted)).toBe(true);
+    expect(encrypted.data).not.toContain('Ko Aung');
+    expect(await decryptExport(encrypted, 'shop passphrase')).toBe(plaintext);
+  });
+
+  it('should not detect a plain export as encrypted', () => {
+    expect(isEncryptedExport(JSON.parse(plaintext))).toBe(false);
+    expect(isEncryptedExport(null)).toBe(false);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const encrypted = await encryptExport(plaintext, 'shop passphrase');
+
+    await expect(
+      decryptExport(encrypted, 'other passphrase'),
+    ).rejects.toBeInstanceOf(WrongPassphraseError);
+  });
+
+  it('should report a changed file as corrupted', async () => {
+    const encrypted = await encryptExport(plaintext, 'shop passphrase');
+    const data = Buffer.from(encrypted.data, 'base64');
+    data[0] ^= 0xff;
+
+    await expect(
+      decryptExport(
+        { ...encrypted, data: data.toString('base64') },
+        'shop passphrase',
+      ),
+    ).rejects.toBeInstanceOf(CorruptedExportError);
+  });
+
+  it('should report a file with missing fields as corrupted', async () => {
+    const encrypted = await encryptExport(plaintext, 'shop passphrase');
+
+    await expect(
+      decryptExport(
+        { ...encrypted, cipher: { ...encrypted.cipher, iv: '' } },
+        'shop passphrase',
+      ),
+    ).rejects.toBeInstanceOf(CorruptedExportError);
+  });
+
+  it('should reject a file asking for a different iteration count', async () => {
+    const encrypted = await encryptExport(plaintext, 'shop passphrase');
+
+    for (const iterations of [1e9, 1, -1, 100000.5]) {
+      await expect(
+        decryptExport(
+          { ...encrypted, kdf: { ...encrypted.kdf, iterations } },
+          'shop passphrase',
+        ),
+      ).rejects.toBeInstanceOf(CorruptedExportError);
+    }
+  });
+
+  it('should open a file by its tag whatever its key check says', async () => {
+    const encrypted = await encryptExport(plaintext, 'shop passphrase');
+
+    expect(
+      await decryptExport(
+        { ...encrypted, keyCheck: 'changed' },
+        'shop passphrase',
+      ),
+    ).toBe(plaintext);
+  });
+
+  it('should use a new salt and iv for every file', async () => {
+    const first = await encryptExport(plaintext, 'shop passphrase');
+    const second = await encryptExport(plaintext, 'shop passphrase');
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.cipher.iv).not.toBe(second.cipher.iv);
+    expect(first.data).not.toBe(second.data);
+  });
+});
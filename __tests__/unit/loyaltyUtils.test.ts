@@ -0,0 +1,109 @@
+import {
+  LoyaltySettings,
+  calculateEarnedPoints,
+  calculatePointsBalance,
+  getLoyaltyTier,
+  getMaxRedeemablePoints,
+  getPointsExpiry,
+} from '@/utils/loyaltyUtils';
+import type { LoyaltyPointsEntry } from '@/services/database';
+
+describe('Loyalty points', () => {
+  const settings: LoyaltySettings = {
+    enabled: true,
+    earnRate: 0.01,
+    pointValue: 10,
+    expiryDays: 30,
+    tierMultipliers: { bronze: 1, silver: 1.25, gold: 1.5 },
+  };
+
+  let nextId = 1;
+  const entry = (
+    points: number,
+    createdAt: string,
+    expiresAt: string | null = null,
+  ): LoyaltyPointsEntry => ({
+    id: `entry-${nextId++}`,
+    customer_id: 'customer-1',
+    type: points > 0 ? 'earn' : 'redeem',
+    points,
+    expires_at: expiresAt,
+    created_at: createdAt,
+  });
+
+  describe('calculateEarnedPoints', () => {
+    it('should earn by the rate and the tier multiplier', () => {
+      expect(calculateEarnedPoints(1000, settings, 'bronze')).toBe(10);
+      expect(calculateEarnedPoints(1000, settings, 'gold')).toBe(15);
+    });
+
+    it('should round partial points down', () => {
+      expect(calculateEarnedPoints(1099, settings, 'silver')).toBe(13);
+    });
+
+    it('should earn nothing while the program is off', () => {
+      expect(
+        calculateEarnedPoints(1000, { ...settings, enabled: false }, 'gold'),
+      ).toBe(0);
+    });
+  });
+
+  it('should map customer segments to tiers', () => {
+    expect(getLoyaltyTier('high_value')).toBe('gold');
+    expect(getLoyaltyTier('medium_value')).toBe('silver');
+    expect(getLoyaltyTier('at_risk')).toBe('bronze');
+  });
+
+  it('should cap redeemable points at the balance and the amount', () => {
+    expect(getMaxRedeemablePoints(500, 1234, settings)).toBe(123);
+    expect(getMaxRedeemablePoints(50, 1234, settings)).toBe(50);
+    expect(getMaxRedeemablePoints(50, 0, settings)).toBe(0);
+  });
+
+  it('should expire points the given number of days after earning', () => {
+    expect(getPointsExpiry(new Date('2026-03-01T10:30:00'), settings)).toBe(
+      '2026-03-31 10:30:00',
+    );
+    expect(
+      getPointsExpiry(new Date('2026-03-01T10:30:00'), {
+        ...settings,
+        expiryDays: 0,
+      }),
+    ).toBe(null);
+  });
+
+  describe('calculatePointsBalance', () => {
+    it('should spend the oldest points first', () => {
+      const ledger = [
+        entry(100, '2026-01-01 10:00:00', '2026-02-01 10:00:00'),
+        entry(50, '2026-01-20 10:00:00', '2026-02-20 10:00:00'),
+        entry(-80, '2026-01-25 10:00:00'),
+      ];
+
+      // 20 left of the first lot expire, the second lot is untouched
+      expect(
+        calculatePointsBalance(ledger, new Date('2026-02-05T00:00:00')),
+      ).toEqual({ balance: 50, expired: 20 });
+    });
+
+    it('should keep points without an expiry', () => {
+      const ledger = [entry(100, '2026-01-01 10:00:00')];
+
+      expect(
+        calculatePointsBalance(ledger, new Date('2030-01-01T00:00:00')),
+      ).toEqual({ balance: 100, expired: 0 });
+    });
+
+    it('should not let expired points be spent later', () => {
+      const ledger = [
+        entry(100, '2026-01-01 10:00:00', '2026-02-01 10:00:00'),
+        entry(40, '2026-02-10 10:00:00', '2026-03-10 10:00:00'),
+        entry(-30, '2026-02-15 10:00:00'),
+      ];
+
+      expect(
+        calculatePointsBalance(ledger, new Date('2026-02-20T00:00:00')),
+      ).toEqual({ balance: 10, expired: 100 });
+    });
+  });
+});
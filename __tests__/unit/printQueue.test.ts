@@ -0,0 +1,89 @@
+import {
+  createPrintJob,
+  getDueJob,
+  getRetryDelay,
+  PRINT_RETRY,
+  PrintJob,
+  pruneFinishedJobs,
+  recordFailure,
+  requeueJob,
+  restoreJobs,
+} from '@/utils/printQueue';
+
+const receiptJob = (id: string, now: number = 0): PrintJob =>
+  createPrintJob(
+    id,
+    {
+      type: 'receipt',
+      receipt: {
+        saleId: id,
+        items: [],
+        total: 1000,
+        paymentMethod: 'cash',
+        date: new Date('2025-01-15T10:30:00Z'),
+      },
+    },
+    `Receipt #${id}`,
+    now,
+  );
+
+describe('printQueue', () => {
+  it('should double the wait after each failed attempt up to the limit', () => {
+    expect(getRetryDelay(1)).toBe(PRINT_RETRY.baseDelayMs);
+    expect(getRetryDelay(2)).toBe(PRINT_RETRY.baseDelayMs * 2);
+    expect(getRetryDelay(3)).toBe(PRINT_RETRY.baseDelayMs * 4);
+    expect(getRetryDelay(20)).toBe(PRINT_RETRY.maxDelayMs);
+  });
+
+  it('should reschedule a failed attempt and give up after the last one', () => {
+    let job = recordFailure(receiptJob('1'), 'Printer not connected', 1000);
+    expect(job.status).toBe('pending');
+    expect(job.attempts).toBe(1);
+    expect(job.nextAttemptAt).toBe(1000 + PRINT_RETRY.baseDelayMs);
+
+    for (let i = 1; i < PRINT_RETRY.maxAttempts; i++) {
+      job = recordFailure(job, 'Printer not connected', 1000);
+    }
+    expect(job.status).toBe('failed');
+
+    const retried = requeueJob(job, 5000);
+    expect(retried.status).toBe('pending');
+    expect(retried.attempts).toBe(0);
+    expect(retried.nextAttemptAt).toBe(5000);
+  });
+
+  it('should print in queue order, waiting on a job that is backing off', () => {
+    const first = recordFailure(receiptJob('1'), 'Printer not connected', 0);
+    const second = receiptJob('2');
+    const jobs = [first, second];
+
+    expect(getDueJob(jobs, 1000)).toBeNull();
+    expect(getDueJob(jobs, first.nextAttemptAt)?.id).toBe('1');
+    expect(getDueJob([{ ...first, status: 'failed' }, second], 0)?.id).toBe(
+      '2',
+    );
+  });
+
+  it('should restore dates and retry jobs interrupted while printing', () => {
+    const job = { ...receiptJob('1'), status: 'printing' as const };
+    const [restored] = restoreJobs(JSON.parse(JSON.stringify([job])));
+
+    expect(restored.status).toBe('pending');
+    expect(
+      restored.payload.type === 'receipt' &&
+        restored.payload.receipt.date instanceof Date,
+    ).toBe(true);
+  });
+
+  it('should keep only the most recent finished jobs', () => {
+    const jobs = Array.from({ length: 25 }, (_, i) => ({
+      ...receiptJob(String(i)),
+      status: 'done' as const,
+    }));
+    const pruned = pruneFinishedJobs([...jobs, receiptJob('waiting')]);
+
+    expect(pruned).toHaveLength(21);
+    expect(pruned[0].id).toBe('5');
+    expect(pruned[20].id).toBe('waiting');
+  });
+});
@@ -0,0 +1,195 @@
+import { applyPromotions, isPromotionActive } from '@/utils/promotionUtils';
+import type { Promotion } from '@/services/database';
+
+describe('Promotions', () => {
+  const promotion = (overrides: Partial<Promotion>): Promotion => ({
+    id: 'promo-1',
+    name: 'Promotion',
+    type: 'percent_off',
+    product_ids: [],
+    category_id: null,
+    buy_quantity: null,
+    get_quantity: null,
+    discount_percent: null,
+    bundle_price: null,
+    start_date: null,
+    end_date: null,
+    start_time: null,
+    end_time: null,
+    is_active: 1,
+    created_at: '2026-01-01 00:00:00',
+    updated_at: '2026-01-01 00:00:00',
+    ...overrides,
+  });
+
+  const at = (date: string, time: string) => new Date(`${date}T${time}:00`);
+  const noon = at('2026-03-10', '12:00');
+
+  describe('isPromotionActive', () => {
+    it('should run between its start and end dates inclusive', () => {
+      const march = promotion({
+        start_date: '2026-03-01',
+        end_date: '2026-03-31',
+      });
+
+      expect(isPromotionActive(march, at('2026-03-01', '00:00'))).toBe(true);
+      expect(isPromotionActive(march, at('2026-03-31', '23:59'))).toBe(true);
+      expect(isPromotionActive(march, at('2026-02-28', '23:59'))).toBe(false);
+      expect(isPromotionActive(march, at('2026-04-01', '00:00'))).toBe(false);
+    });
+
+    it('should only run inside its daily time window', () => {
+      const happyHour = promotion({ start_time: '17:00', end_time: '19:00' });
+
+      expect(isPromotionActive(happyHour, at('2026-03-10', '17:00'))).toBe(
+        true,
+      );
+      expect(isPromotionActive(happyHour, at('2026-03-10', '19:00'))).toBe(
+        false,
+      );
+      expect(isPromotionActive(happyHour, noon)).toBe(false);
+    });
+
+    it('should run a late window past midnight', () => {
+      const lateNight = promotion({ start_time: '22:00', end_time: '02:00' });
+
+      expect(isPromotionActive(lateNight, at('2026-03-10', '23:30'))).toBe(
+        true,
+      );
+      expect(isPromotionActive(lateNight, at('2026-03-11', '01:30'))).toBe(
+        true,
+      );
+      expect(isPromotionActive(lateNight, at('2026-03-11', '03:00'))).toBe(
+        false,
+      );
+    });
+
+    it('should not run when switched off', () => {
+      expect(isPromotionActive(promotion({ is_active: 0 }), noon)).toBe(false);
+    });
+  });
+
+  describe('applyPromotions', () => {
+    it('should give the cheapest items free when buying 2 get 1 across products', () => {
+      const buyTwoGetOne = promotion({
+        type: 'buy_x_get_y',
+        product_ids: ['cola', 'juice'],
+        buy_quantity: 2,
+        get_quantity: 1,
+      });
+
+      const result = applyPromotions(
+        [
+          { productId: 'cola', unitPrice: 1000, quantity: 2 },
+          { productId: 'juice', unitPrice: 1500, quantity: 2 },
+        ],
+        [buyTwoGetOne],
+        noon,
+      );
+
+      // Juice, juice, cola pay for themselves; the last cola is left over
+      expect(result.lineDiscounts).toEqual({ cola: 1000 });
+      expect(result.totalDiscount).toBe(1000);
+    });
+
+    it('should take a percentage off everything in a category', () => {
+      const drinks = promotion({
+        type: 'percent_off',
+        category_id: 'drinks',
+        discount_percent: 10,
+      });
+
+      const result = applyPromotions(
+        [
+          {
+            productId: 'cola',
+            categoryId: 'drinks',
+            unitPrice: 1000,
+            quantity: 3,
+          },
+          {
+            productId: 'bread',
+            categoryId: 'bakery',
+            unitPrice: 2000,
+            quantity: 1,
+          },
+        ],
+        [drinks],
+        noon,
+      );
+
+      expect(result.lineDiscounts).toEqual({ cola: 300 });
+      expect(result.applied).toEqual([
+        { promotionId: 'promo-1', name: 'Promotion', discount: 300 },
+      ]);
+    });
+
+    it('should price a complete bundle and share the saving by price', () => {
+      const breakfast = promotion({
+        type: 'bundle_price',
+        product_ids: ['coffee', 'bread'],
+        bundle_price: 2400,
+      });
+      const lines = [
+        { productId: 'coffee', unitPrice: 1000, quantity: 1 },
+        { productId: 'bread', unitPrice: 2000, quantity: 2 },
+      ];
+
+      const result = applyPromotions(lines, [breakfast], noon);
+
+      expect(result.lineDiscounts).toEqual({ coffee: 200, bread: 400 });
+      expect(result.totalDiscount).toBe(600);
+      expect(
+        applyPromotions(lines.slice(1), [breakfast], noon).applied,
+      ).toEqual([]);
+    });
+
+    it('should not discount the same units with two promotions', () => {
+      const tenPercent = promotion({
+        id: 'ten',
+        name: '10% off cola',
+        product_ids: ['cola'],
+        discount_percent: 10,
+      });
+      const buyOneGetOne = promotion({
+        id: 'bogo',
+        name: 'Cola buy 1 get 1',
+        type: 'buy_x_get_y',
+        product_ids: ['cola'],
+        buy_quantity: 1,
+        get_quantity: 1,
+      });
+
+      const result = applyPromotions(
+        [{ productId: 'cola', unitPrice: 1000, quantity: 3 }],
+        [tenPercent, buyOneGetOne],
+        noon,
+      );
+
+      // The larger saving wins the pair; the odd unit gets the 10%
+      expect(result.applied.map((applied) => applied.promotionId)).toEqual([
+        'bogo',
+        'ten',
+      ]);
+      expect(result.lineDiscounts).toEqual({ cola: 1100 });
+    });
+
+    it('should skip promotions outside their time window', () => {
+      const happyHour = promotion({
+        product_ids: ['cola'],
+        discount_percent: 50,
+        start_time: '17:00',
+        end_time: '19:00',
+      });
+
+      const result = applyPromotions(
+        [{ productId: 'cola', unitPrice: 1000, quantity: 1 }],
+        [happyHour],
+        noon,
+      );
+
+      expect(result.totalDiscount).toBe(0);
+      expect(result.applied).toEqual([]);
+    });
+  });
+});
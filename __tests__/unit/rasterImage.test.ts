@@ -0,0 +1,74 @@
+import { deflateSync } from 'zlib';
+import { decodePng, inflate, toMonochrome } from '@/utils/rasterImage';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_CRC = [0, 0, 0, 0]; // Not checked when decoding
+
+// Minimal PNG: signature, IHDR, one IDAT and IEND
+const buildPng = (
+  width: number,
+  height: number,
+  colourType: number,
+  rows: number[][],
+): Uint8Array => {
+  const chunk = (type: string, data: number[]) => [
+    (data.length >>> 24) & 0xff,
+    (data.length >>> 16) & 0xff,
+    (data.length >>> 8) & 0xff,
+    data.length & 0xff,
+    ...type.split('').map((char) => char.charCodeAt(0)),
+    ...data,
+    ...PNG_CRC,
+  ];
+  const header = [0, 0, 0, width, 0, 0, 0, height, 8, colourType, 0, 0, 0];
+  const idat = Array.from(deflateSync(Uint8Array.from(rows.flat())));
+
+  return Uint8Array.from([
+    ...PNG_SIGNATURE,
+    ...chunk('IHDR', header),
+    ...chunk('IDAT', idat),
+    ...chunk('IEND', []),
+  ]);
+};
+
+describe('rasterImage', () => {
+  it('should inflate stored, fixed and dynamic blocks', () => {
+    const text = 'Receipt logo '.repeat(40);
+    const bytes = Uint8Array.from(Buffer.from(text));
+
+    for (const level of [0, 1, 9]) {
+      const result = inflate(deflateSync(bytes, { level }));
+      expect(Buffer.from(result).toString()).toBe(text);
+    }
+  });
+
+  it('should decode filtered RGB rows', () => {
+    // Row 1 uses the Sub filter, row 2 the Up filter
+    const png = buildPng(2, 2, 2, [
+      [1, 10, 20, 30, 5, 5, 5],
+      [2, 0, 0, 0, 1, 1, 1],
+    ]);
+
+    const image = decodePng(png);
+
+    expect(image.width).toBe(2);
+    expect(Array.from(image.data)).toEqual([
+      10, 20, 30, 255, 15, 25, 35, 255, 10, 20, 30, 255, 16, 26, 36, 255,
+    ]);
+  });
+
+  it('should pack dark pixels into bits and treat transparency as paper', () => {
+    // Grey + alpha: black, white, transparent black, then black again
+    const png = buildPng(9, 1, 4, [
+      [
+        0, 0, 255, 255, 255, 0, 0, 0, 255, 0, 255, 0, 255, 0, 255, 0, 255, 0,
+        255,
+      ],
+    ]);
+
+    const mono = toMonochrome(decodePng(png));
+
+    expect(mono.bytesPerRow).toBe(2);
+    expect(Array.from(mono.data)).toEqual([0b10011111, 0b10000000]);
+  });
+});
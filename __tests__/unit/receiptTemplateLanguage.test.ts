@@ -0,0 +1,86 @@
+import {
+  renderTemplate,
+  STARTER_TEMPLATE,
+  TemplateHtml,
+  validateTemplate,
+} from '@/utils/receiptTemplateLanguage';
+
+const formatters = {
+  currency: (value: string | number | Date) => `${value} Ks`,
+  date: () => '1 Jan 2025',
+  time: () => '10:00',
+  upper: (value: string | number | Date) => String(value).toUpperCase(),
+};
+
+describe('receiptTemplateLanguage', () => {
+  it('should fill in values, escaping text but not app-built markup', () => {
+    const html = renderTemplate(
+      '<b>{{shopName}}</b>{{taxLines}}{{total | currency}} {{date}}',
+      {
+        shopName: 'Tom & Jerry <Shop>',
+        taxLines: new TemplateHtml('<div>Tax</div>'),
+        total: 1500,
+        date: new Date(),
+      },
+      formatters,
+    );
+
+    expect(html).toBe(
+      '<b>Tom &amp; Jerry &lt;Shop&gt;</b><div>Tax</div>1500 Ks 1 Jan 2025',
+    );
+  });
+
+  it('should repeat loops and choose between if and else', () => {
+    const source =
+      '{{#each items}}[{{item.name}}{{#if item.discount}} -{{item.discount}}{{/if}}]{{/each}}' +
+      '{{#if customerName}}{{customerName}}{{else}}Walk-in{{/if}}';
+
+    const html = renderTemplate(
+      source,
+      {
+        items: [
+          { name: 'Tea', discount: 0 },
+          { name: 'Rice', discount: 50 },
+        ],
+        customerName: '',
+      },
+      formatters,
+    );
+
+    expect(html).toBe('[Tea][Rice -50]Walk-in');
+  });
+
+  it('should report unknown names, bad blocks and script', () => {
+    const issues = validateTemplate(
+      '{{shopname}} {{total | money}} {{item.name}} {{#each total}}{{/each}}' +
+        '{{#if note}}<img onerror="x()" />',
+    );
+
+    expect(issues).toEqual([
+      { code: 'unclosed_block', name: '#if note' },
+      { code: 'unknown_placeholder', name: 'shopname' },
+      { code: 'unknown_formatter', name: 'money' },
+      { code: 'unknown_placeholder', name: 'item.name' },
+      { code: 'not_a_list', name: 'total' },
+      { code: 'script', name: '<img onerror=' },
+    ]);
+    expect(validateTemplate('{{/if}}')).toEqual([
+      { code: 'unexpected_tag', name: '/if' },
+    ]);
+  });
+
+  it('should not render a template with errors', () => {
+    expect(() => renderTemplate('{{#if note}}', {}, formatters)).toThrow(
+      'unclosed_block',
+    );
+  });
+
+  it('should ship a starter template that passes validation', () => {
+    expect(
+      validateTemplate(
+        STARTER_TEMPLATE.htmlTemplate,
+        STARTER_TEMPLATE.cssStyles,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  getUnmappedRequiredFields,
+  mapSpreadsheetRows,
+  parseSpreadsheet,
+  suggestColumnMapping,
+} from '@/utils/spreadsheetImport';
+import { DataImportService } from '@/services/dataImportService';
+import { DatabaseService } from '@/services/database';
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-file-system/legacy', () => ({}));
+jest.mock('expo-document-picker', () => ({}));
+
+describe('Spreadsheet Import', () => {
+  const csv = [
+    'Item Name,SKU,Category,Selling Price,Cost Price,Qty',
+    'Green Tea,0088512,Drinks,"1,500",1000,24',
+    ',,,,,',
+    'Milk,8851234567890,Drinks,2500,abc,',
+  ].join('\n');
+
+  describe('parseSpreadsheet', () => {
+    it('should read headers and rows, keeping leading zeros', () => {
+      const table = parseSpreadsheet(csv, 'string');
+
+      expect(table.headers).toEqual([
+        'Item Name',
+        'SKU',
+        'Category',
+        'Selling Price',
+        'Cost Price',
+        'Qty',
+      ]);
+      expect(table.rows).toHaveLength(2);
+      expect(table.rows[0][1]).toBe('0088512');
+      expect(table.rows[1][1]).toBe('8851234567890');
+    });
+  });
+
+  describe('suggestColumnMapping', () => {
+    it('should match columns by header name', () => {
+      const { headers } = parseSpreadsheet(csv, 'string');
+      const mapping = suggestColumnMapping(headers, 'products');
+
+      expect(mapping).toEqual({
+        name: 0,
+        barcode: 1,
+        category: 2,
+        price: 3,
+        cost: 4,
+        quantity: 5,
+        min_stock: null,
+        supplier: null,
+      });
+      expect(getUnmappedRequiredFields(mapping, 'products')).toEqual([]);
+    });
+
+    it('should list required fields without a column', () => {
+      const mapping = suggestColumnMapping(['Phone'], 'customers');
+
+      expect(getUnmappedRequiredFields(mapping, 'customers')).toEqual(['name']);
+    });
+  });
+
+  describe('mapSpreadsheetRows', () => {
+    it('should convert numbers and leave out empty cells', () => {
+      const table = parseSpreadsheet(csv, 'string');
+      const rows = mapSpreadsheetRows(
+        table,
+        suggestColumnMapping(table.headers, 'products'),
+        'products',
+      );
+
+      expect(rows[0]).toEqual({
+        name: 'Green Tea',
+        barcode: '0088512',
+        category: 'Drinks',
+        price: 1500,
+        cost: 1000,
+        quantity: 24,
+      });
+      // Text that is not a number is kept for validation to report
+      expect(rows[1].cost).toBe('abc');
+      expect(rows[1]).not.toHaveProperty('quantity');
+    });
+  });
+
+  describe('previewSpreadsheetImport', () => {
+    const existingProduct = {
+      id: '7b1f3c2a-4d5e-4f60-8a7b-9c0d1e2f3a4b',
+      name: 'Green Tea (old name)',
+      barcode: '0088512',
+      quantity: 5,
+      min_stock: 3,
+      supplier_id: null,
+    };
+    const mockDatabase = {
+      getProducts: jest.fn().mockResolvedValue([existingProduct]),
+    } as unknown as DatabaseService;
+
+    it('should match products by barcode and flag invalid rows', async () => {
+      const service = new DataImportService(mockDatabase);
+      const preview = await service.previewSpreadsheetImport('products', [
+        {
+          name: 'Green Tea',
+          barcode: '0088512',
+          category: 'Drinks',
+          price: 1500,
+          cost: 1000,
+        },
+        { name: 'Milk', category: 'Drinks', price: 2500, cost: 'abc' },
+        { name: 'Bread', category: 'Bakery', price: 1200, cost: 800 },
+        {
+          name: 'Green Tea Large',
+          barcode: '0088512',
+          category: 'Drinks',
+          price: 1800,
+          cost: 1200,
+        },
+      ]);
+
+      expect(preview.totalRows).toBe(4);
+      expect(preview.newCount).toBe(1);
+      expect(preview.records.map((r) => r.name)).toEqual([
+        'Green Tea',
+        'Bread',
+      ]);
+
+      const duplicate = preview.conflicts.find((c) => c.type === 'duplicate');
+      expect(duplicate?.existingRecord).toBe(existingProduct);
+      // Stock is not in the sheet, so the current stock is kept
+      expect(duplicate?.record.quantity).toBe(5);
+
+      const invalid = preview.conflicts.filter(
+        (c) => c.type === 'validation_failed',
+      );
+      expect(invalid.map((c) => c.message)).toEqual([
+        expect.stringContaining('Row 3:'),
+        'Row 5: same barcode as row 2',
+      ]);
+      expect(preview.conflictSummary.conflictStatistics.products).toMatchObject(
+        { total: 3, duplicate: 1, validation_failed: 2 },
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { resolveSyncConflict, SyncRowVersion } from '@/utils/syncRules';
+
+describe('Sync Rules', () => {
+  const version = (overrides: Partial<SyncRowVersion>): SyncRowVersion => ({
+    operation: 'upsert',
+    version: 1,
+    updated_at: '2024-01-01T10:00:00.000Z',
+    device_id: 'device-a',
+    ...overrides,
+  });
+
+  describe('last_write_wins', () => {
+    it('should keep the later change', () => {
+      const earlier = version({ updated_at: '2024-01-01T10:00:00.000Z' });
+      const later = version({
+        updated_at: '2024-01-01T10:00:01.000Z',
+        version: 1,
+      });
+
+      expect(resolveSyncConflict('last_write_wins', earlier, later)).toBe(
+        'incoming',
+      );
+      expect(resolveSyncConflict('last_write_wins', later, earlier)).toBe(
+        'current',
+      );
+    });
+
+    it('should fall back to the version and then the device id', () => {
+      const base = version({ version: 2 });
+
+      expect(
+        resolveSyncConflict('last_write_wins', base, version({ version: 3 })),
+      ).toBe('incoming');
+      expect(
+        resolveSyncConflict(
+          'last_write_wins',
+          base,
+          version({ version: 2, device_id: 'device-b' }),
+        ),
+      ).toBe('incoming');
+      expect(
+        resolveSyncConflict(
+          'last_write_wins',
+          version({ version: 2, device_id: 'device-b' }),
+          base,
+        ),
+      ).toBe('current');
+    });
+  });
+
+  describe('keep_first', () => {
+    it('should only let a delete replace an existing row', () => {
+      const first = version({ updated_at: '2024-01-01T10:00:00.000Z' });
+
+      expect(
+        resolveSyncConflict(
+          'keep_first',
+          first,
+          version({ updated_at: '2024-02-01T10:00:00.000Z' }),
+        ),
+      ).toBe('current');
+      expect(
+        resolveSyncConflict(
+          'keep_first',
+          first,
+          version({ operation: 'delete' }),
+        ),
+      ).toBe('incoming');
+    });
+  });
+});
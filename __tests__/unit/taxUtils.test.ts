@@ -0,0 +1,100 @@
+import {
+  calculateTax,
+  resolveProductTaxRate,
+  buildTaxBreakdown,
+  TAX_EXEMPT,
+} from '@/utils/taxUtils';
+import { TaxRate } from '@/services/database';
+
+describe('Tax Utils', () => {
+  const vat: TaxRate = {
+    id: 'vat',
+    name: 'VAT',
+    rate: 5,
+    is_inclusive: 0,
+    created_at: '2025-01-01 00:00:00',
+    updated_at: '2025-01-01 00:00:00',
+  };
+  const commercialTax: TaxRate = {
+    ...vat,
+    id: 'ct',
+    name: 'Commercial Tax',
+    rate: 10,
+    is_inclusive: 1,
+  };
+
+  describe('calculateTax', () => {
+    it('should add exclusive tax on top of the amount', () => {
+      expect(calculateTax(1000, 5, false)).toEqual({
+        net: 1000,
+        tax: 50,
+        gross: 1050,
+      });
+    });
+
+    it('should extract inclusive tax from the amount', () => {
+      expect(calculateTax(1100, 10, true)).toEqual({
+        net: 1000,
+        tax: 100,
+        gross: 1100,
+      });
+    });
+
+    it('should return no tax for a zero rate', () => {
+      expect(calculateTax(1000, 0, false).tax).toBe(0);
+    });
+  });
+
+  describe('resolveProductTaxRate', () => {
+    const categories = [{ id: 'drinks', tax_rate_id: 'vat' }];
+
+    it('should fall back to the category rate', () => {
+      const product = { category_id: 'drinks', tax_rate_id: null };
+      expect(resolveProductTaxRate(product, categories, [vat])).toBe(vat);
+    });
+
+    it('should prefer the product override', () => {
+      const product = { category_id: 'drinks', tax_rate_id: 'ct' };
+      expect(
+        resolveProductTaxRate(product, categories, [vat, commercialTax]),
+      ).toBe(commercialTax);
+    });
+
+    it('should return null for exempt products', () => {
+      const product = { category_id: 'drinks', tax_rate_id: TAX_EXEMPT };
+      expect(resolveProductTaxRate(product, categories, [vat])).toBeNull();
+    });
+  });
+
+  describe('buildTaxBreakdown', () => {
+    it('should group lines by rate and skip untaxed lines', () => {
+      const breakdown = buildTaxBreakdown([
+        {
+          tax_name: 'VAT',
+          tax_rate: 5,
+          tax_inclusive: 0,
+          tax_amount: 50,
+          subtotal: 1000,
+        },
+        {
+          tax_name: 'VAT',
+          tax_rate: 5,
+          tax_inclusive: 0,
+          tax_amount: 25,
+          subtotal: 500,
+        },
+        { tax_rate: 0, tax_inclusive: 0, tax_amount: 0, subtotal: 800 },
+      ]);
+
+      expect(breakdown).toEqual([
+        {
+          name: 'VAT',
+          rate: 5,
+          inclusive: false,
+          taxable: 1500,
+          amount: 75,
+        },
+      ]);
+    });
+  });
+});
@@ -6,15 +6,24 @@ import { Sidebar } from '@/components/Sidebar';
 import { useDrawer } from '@/context/DrawerContext';
 import { detailScreenOptions } from '@/config/screenOptions';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { StaffProvider, useStaff } from '@/context/StaffContext';
+import { StaffLoginScreen } from '@/components/StaffLoginScreen';
+import { AccessDenied } from '@/components/AccessDenied';
+import { getRoutePermission } from '@/utils/staffPermissions';
 
 /**
  * DrawerContent component
  * Renders the sidebar and screen content with Stack navigation
  * Separated to allow useDrawer hook access within DrawerProvider
+ * Screens the signed-in staff role cannot open are covered, and the staff
+ * PIN lock covers everything while nobody is signed in
  */
 function DrawerContent() {
   const { isOpen, closeDrawer } = useDrawer();
   const pathname = usePathname();
+  const { isLocked, can } = useStaff();
+
+  const requiredPermission = getRoutePermission(pathname);
 
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
@@ -25,8 +34,15 @@ function DrawerContent() {
         <Stack.Screen name="product-form" options={detailScreenOptions} />
       </Stack>
 
+      {requiredPermission && !can(requiredPermission) && !isLocked && (
+        <AccessDenied />
+      )}
+
       {/* Sidebar overlay */}
       <Sidebar isOpen={isOpen} onClose={closeDrawer} currentRoute={pathname} />
+
+      {/* Staff PIN lock */}
+      {isLocked && <StaffLoginScreen />}
     </SafeAreaView>
   );
 }
@@ -44,7 +60,9 @@ function DrawerContent() {
 export default function DrawerLayout() {
   return (
     <DrawerProvider>
-      <DrawerContent />
+      <StaffProvider>
+        <DrawerContent />
+      </StaffProvider>
     </DrawerProvider>
   );
 }
@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MenuButton } from '@/components/MenuButton';
+import { DateFilter, DateFilterComponent } from '@/components/DateFilter';
+import { useDrawer } from '@/context/DrawerContext';
+import { useDatabase } from '@/context/DatabaseContext';
+import { useCurrencyContext } from '@/context/CurrencyContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import {
+  ACCOUNTING_REPORTS,
+  AccountingExportService,
+  AccountingReport,
+} from '@/services/accountingExportService';
+import { FileSpreadsheet, Hash, Share2 } from 'lucide-react-native';
+
+/**
+ * Accountant CSV exports
+ *
+ * Features:
+ * - Sales (per sale and per line), expenses, stock movements, debt aging
+ *   and profit & loss for a day, month or year
+ * - Amounts use the shop currency's separators, or plain numbers
+ * - Each file is shared from the device's share sheet
+ */
+export default function AccountingExportPage() {
+  const { t } = useTranslation();
+  const { openDrawer } = useDrawer();
+  const { db } = useDatabase();
+  const { currentCurrency } = useCurrencyContext();
+  const { showToast } = useToast();
+
+  const [exporting, setExporting] = useState<AccountingReport | null>(null);
+  const [rawNumbers, setRawNumbers] = useState(false);
+  const [dateFilter, setDateFilter] = useState<DateFilter>({
+    mode: 'month',
+    selectedDate: new Date(),
+    selectedMonth: new Date().getMonth(),
+    selectedYear: new Date().getFullYear(),
+    startDate: new Date(),
+    endDate: new Date(),
+  });
+
+  // Calculate start and end dates based on filter
+  const { startDate, endDate } = useMemo(() => {
+    const today = new Date();
+    let start: Date, end: Date;
+
+    switch (dateFilter.mode) {
+      case 'day':
+        start = new Date(dateFilter.selectedDate);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(dateFilter.selectedDate);
+        end.setHours(23, 59, 59, 999);
+        break;
+      case 'month':
+        start = new Date(dateFilter.selectedYear, dateFilter.selectedMonth, 1);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(
+          dateFilter.selectedYear,
+          dateFilter.selectedMonth + 1,
+          0,
+        );
+        end.setHours(23, 59, 59, 999);
+        break;
+      case 'year':
+        start = new Date(dateFilter.selectedYear, 0, 1);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(dateFilter.selectedYear, 11, 31);
+        end.setHours(23, 59, 59, 999);
+        break;
+      default:
+        start = today;
+        end = today;
+    }
+
+    return { startDate: start, endDate: end };
+  }, [
+    dateFilter.mode,
+    dateFilter.selectedDate,
+    dateFilter.selectedMonth,
+    dateFilter.selectedYear,
+  ]);
+
+  const handleExport = async (report: AccountingReport) => {
+    if (!db || !currentCurrency) {
+      showToast(t('accountingExport.notReady'), 'error');
+      return;
+    }
+
+    setExporting(report);
+    try {
+      const service = new AccountingExportService(db);
+      const { fileUri, rowCount } = await service.exportReport(report, {
+        startDate,
+        endDate,
+        currency: currentCurrency,
+        rawNumbers,
+      });
+      showToast(t('accountingExport.exported', { count: rowCount }), 'success');
+      await service.shareReport(
+        fileUri,
+        t(`accountingExport.reports.${report}.title`),
+      );
+    } catch (error) {
+      console.error('Error exporting accounting report:', error);
+      Alert.alert(t('common.error'), t('accountingExport.exportFailed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('accountingExport.title')}
+        </Text>
+      </View>
+
+      <View style={{ padding: 10 }}>
+        <DateFilterComponent
+          dateFilter={dateFilter}
+          onDateFilterChange={setDateFilter}
+        />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+      >
+        <View style={styles.optionCard}>
+          <View style={styles.optionIcon}>
+            <Hash size={20} color="#059669" />
+          </View>
+          <View style={styles.optionInfo}>
+            <Text style={styles.optionTitle} weight="medium">
+              {t('accountingExport.rawNumbers')}
+            </Text>
+            <Text style={styles.optionDescription}>
+              {t('accountingExport.rawNumbersDesc')}
+            </Text>
+          </View>
+          <Switch
+            value={rawNumbers}
+            onValueChange={setRawNumbers}
+            disabled={exporting !== null}
+          />
+        </View>
+
+        {ACCOUNTING_REPORTS.map((report) => (
+          <TouchableOpacity
+            key={report}
+            style={[
+              styles.reportRow,
+              exporting !== null &&
+                exporting !== report &&
+                styles.reportRowDisabled,
+            ]}
+            onPress={() => handleExport(report)}
+            disabled={exporting !== null}
+            activeOpacity={0.7}
+          >
+            <View style={styles.reportIcon}>
+              <FileSpreadsheet size={20} color="#059669" />
+            </View>
+            <View style={styles.reportInfo}>
+              <Text style={styles.reportTitle} weight="medium">
+                {t(`accountingExport.reports.${report}.title`)}
+              </Text>
+              <Text style={styles.reportDescription}>
+                {t(`accountingExport.reports.${report}.description`)}
+              </Text>
+            </View>
+            {exporting === report ? (
+              <ActivityIndicator size="small" color="#059669" />
+            ) : (
+              <Share2 size={18} color="#9CA3AF" />
+            )}
+          </TouchableOpacity>
+        ))}
+
+        <Text style={styles.footnote}>
+          {t('accountingExport.currencyNote', {
+            code: currentCurrency?.code || '',
+          })}
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingTop: 0,
+    gap: 10,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 12,
+    marginBottom: 6,
+  },
+  optionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#ECFDF5',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 12,
+  },
+  reportRowDisabled: {
+    opacity: 0.5,
+  },
+  reportIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reportInfo: {
+    flex: 1,
+  },
+  reportTitle: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  reportDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  footnote: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 6,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,586 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as FileSystem from 'expo-file-system';
+import { cacheDirectory } from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import * as XLSX from 'xlsx';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDatabase } from '@/context/DatabaseContext';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import {
+  useInfiniteAuditLog,
+  useAuditLogVerification,
+  useStaffMembers,
+} from '@/hooks/useQueries';
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogFilters,
+} from '@/services/database';
+import {
+  Download,
+  History,
+  ShieldAlert,
+  ShieldCheck,
+} from 'lucide-react-native';
+
+type EntityFilter =
+  | 'all'
+  | 'product'
+  | 'sale'
+  | 'stock_movement'
+  | 'bulk_pricing'
+  | 'promotion'
+  | 'coupon'
+  | 'receipt_template'
+  | 'import'
+  | 'backup';
+type PeriodFilter = 'all' | 'today' | 'week' | 'month';
+
+const ENTITY_FILTERS: EntityFilter[] = [
+  'all',
+  'product',
+  'sale',
+  'stock_movement',
+  'bulk_pricing',
+  'promotion',
+  'coupon',
+  'receipt_template',
+  'import',
+  'backup',
+];
+const PERIOD_FILTERS: PeriodFilter[] = ['all', 'today', 'week', 'month'];
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: '#059669',
+  update: '#2563EB',
+  delete: '#DC2626',
+  import: '#7C3AED',
+  restore: '#D97706',
+};
+
+const EXPORT_LIMIT = 10000;
+
+const getPeriodRange = (
+  period: PeriodFilter,
+): Pick<AuditLogFilters, 'startDate' | 'endDate'> => {
+  if (period === 'all') return {};
+
+  const end = new Date();
+  const start = new Date();
+  if (period === 'week') {
+    start.setDate(start.getDate() - 6);
+  } else if (period === 'month') {
+    start.setDate(start.getDate() - 29);
+  }
+  return { startDate: start, endDate: end };
+};
+
+const parseAuditData = (data: string | null): Record<string, any> => {
+  if (!data) return {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+};
+
+const formatAuditValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Audit Log Page
+ * Read-only history of changes to products, sales, stock and bulk pricing
+ *
+ * Features:
+ * - Filter by record type, period and staff member
+ * - Before/after values for every changed field
+ * - Hash chain check that flags edited or deleted log entries
+ * - Export the filtered log to Excel
+ */
+export default function AuditLog() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { db } = useDatabase();
+
+  const [entityFilter, setEntityFilter] = useState<EntityFilter>('all');
+  const [periodFilter, setPeriodFilter] = useState<PeriodFilter>('all');
+  const [staffFilter, setStaffFilter] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const { data: staffMembers = [] } = useStaffMembers(true);
+
+  const filters = useMemo<AuditLogFilters>(
+    () => ({
+      entityType: entityFilter === 'all' ? undefined : entityFilter,
+      staffId: staffFilter || undefined,
+      ...getPeriodRange(periodFilter),
+    }),
+    [entityFilter, periodFilter, staffFilter],
+  );
+
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteAuditLog(filters);
+  const { data: verification, refetch: refetchVerification } =
+    useAuditLogVerification();
+
+  const entries = useMemo(() => data?.pages.flat() ?? [], [data]);
+
+  const handleRefresh = () => {
+    refetch();
+    refetchVerification();
+  };
+
+  const handleExport = async () => {
+    if (!db) return;
+
+    try {
+      setExporting(true);
+      const exportEntries = await db.getAuditLog(filters, 1, EXPORT_LIMIT);
+
+      if (exportEntries.length === 0) {
+        Alert.alert(t('auditLog.noEntries'), t('auditLog.noEntriesToExport'));
+        return;
+      }
+
+      if (Platform.OS !== 'web') {
+        const excelData = exportEntries.map((entry) => ({
+          '#': entry.seq,
+          Date: entry.created_at,
+          Staff: entry.staff_name || '',
+          Record: entry.entity_type,
+          Name: entry.entity_label || '',
+          'Record ID': entry.entity_id || '',
+          Action: entry.action,
+          Before: entry.before_data || '',
+          After: entry.after_data || '',
+          Hash: entry.hash,
+        }));
+
+        const ws = XLSX.utils.json_to_sheet(excelData);
+        ws['!cols'] = [
+          { wch: 6 },
+          { wch: 20 },
+          { wch: 15 },
+          { wch: 15 },
+          { wch: 25 },
+          { wch: 38 },
+          { wch: 10 },
+          { wch: 40 },
+          { wch: 40 },
+          { wch: 66 },
+        ];
+
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'Audit Log');
+
+        const filename = `audit_log_${new Date().toISOString().split('T')[0]}.xlsx`;
+        const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'base64' });
+
+        const filePath = `${cacheDirectory}${filename}`;
+        const exportFile = new FileSystem.File(filePath);
+        await exportFile.write(wbout, { encoding: 'base64' });
+
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(filePath);
+        } else {
+          Alert.alert(t('common.error'), t('auditLog.sharingNotAvailable'));
+        }
+      }
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      Alert.alert(t('common.error'), t('auditLog.exportFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderChanges = (entry: AuditLogEntry) => {
+    const before = parseAuditData(entry.before_data);
+    const after = parseAuditData(entry.after_data);
+    const fields = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)]),
+    );
+
+    if (fields.length === 0) return null;
+
+    return (
+      <View style={styles.changes}>
+        {fields.map((field) => (
+          <View key={field} style={styles.changeRow}>
+            <Text style={styles.changeField}>{field}</Text>
+            <Text style={styles.changeValue} numberOfLines={2}>
+              {entry.action === 'update'
+                ? `${formatAuditValue(before[field])} → ${formatAuditValue(after[field])}`
+                : formatAuditValue(
+                    entry.action === 'delete' ? before[field] : after[field],
+                  )}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderEntry = ({ item }: { item: AuditLogEntry }) => (
+    <Card style={styles.entryCard}>
+      <View style={styles.entryHeader}>
+        <View
+          style={[
+            styles.actionBadge,
+            { backgroundColor: ACTION_COLORS[item.action] + '20' },
+          ]}
+        >
+          <Text
+            style={[styles.actionText, { color: ACTION_COLORS[item.action] }]}
+            weight="medium"
+          >
+            {t(`auditLog.actions.${item.action}`)}
+          </Text>
+        </View>
+        <Text style={styles.entitySeq}>#{item.seq}</Text>
+      </View>
+      <Text style={styles.entityLabel} weight="bold" numberOfLines={1}>
+        {item.entity_label || t(`auditLog.entities.${item.entity_type}`)}
+      </Text>
+      <Text style={styles.entryMeta}>
+        {t(`auditLog.entities.${item.entity_type}`)} •{' '}
+        {formatDate(item.created_at)}
+        {item.staff_name ? ` • ${item.staff_name}` : ''}
+      </Text>
+      {renderChanges(item)}
+    </Card>
+  );
+
+  const renderChips = <T extends string>(
+    options: T[],
+    selected: T,
+    onSelect: (option: T) => void,
+    getLabel: (option: T) => string,
+  ) =>
+    options.map((option) => (
+      <TouchableOpacity
+        key={option}
+        style={[styles.chip, selected === option && styles.chipSelected]}
+        onPress={() => onSelect(option)}
+      >
+        <Text
+          style={[
+            styles.chipText,
+            selected === option && styles.chipTextSelected,
+          ]}
+        >
+          {getLabel(option)}
+        </Text>
+      </TouchableOpacity>
+    ));
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('auditLog.title')}
+        </Text>
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={handleExport}
+          disabled={exporting}
+          accessibilityLabel={t('auditLog.export')}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color="#059669" />
+          ) : (
+            <Download size={20} color="#059669" />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {verification && (
+        <View
+          style={[
+            styles.chainBanner,
+            verification.valid ? styles.chainValid : styles.chainBroken,
+          ]}
+        >
+          {verification.valid ? (
+            <ShieldCheck size={18} color="#059669" />
+          ) : (
+            <ShieldAlert size={18} color="#DC2626" />
+          )}
+          <Text
+            style={[
+              styles.chainText,
+              { color: verification.valid ? '#065F46' : '#991B1B' },
+            ]}
+          >
+            {verification.valid
+              ? t('auditLog.chainValid', { count: verification.checked })
+              : t('auditLog.chainBroken', {
+                  seq: verification.brokenAtSeq ?? '',
+                })}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.filters}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {renderChips(ENTITY_FILTERS, entityFilter, setEntityFilter, (e) =>
+            e === 'all'
+              ? t('auditLog.allRecords')
+              : t(`auditLog.entities.${e}`),
+          )}
+        </ScrollView>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {renderChips(PERIOD_FILTERS, periodFilter, setPeriodFilter, (p) =>
+            t(`auditLog.periods.${p}`),
+          )}
+          {staffMembers.length > 0 &&
+            renderChips(
+              ['all', ...staffMembers.map((staff) => staff.id)],
+              staffFilter || 'all',
+              (id) => setStaffFilter(id === 'all' ? null : id),
+              (id) =>
+                id === 'all'
+                  ? t('auditLog.allStaff')
+                  : staffMembers.find((staff) => staff.id === id)?.name || '',
+            )}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+          onEndReached={() => {
+            if (hasNextPage && !isFetchingNextPage) {
+              fetchNextPage();
+            }
+          }}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching && !isFetchingNextPage}
+              onRefresh={handleRefresh}
+              colors={['#059669']}
+              tintColor={'#059669'}
+            />
+          }
+          ListFooterComponent={
+            isFetchingNextPage ? (
+              <ActivityIndicator style={styles.footerLoader} color="#059669" />
+            ) : null
+          }
+          ListEmptyComponent={
+            <Card style={styles.emptyCard}>
+              <History size={48} color="#D1D5DB" />
+              <Text style={styles.emptyText}>{t('auditLog.noEntries')}</Text>
+              <Text style={styles.emptySubtext}>
+                {t('auditLog.noEntriesHint')}
+              </Text>
+            </Card>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  exportButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chainBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chainValid: {
+    backgroundColor: '#ECFDF5',
+  },
+  chainBroken: {
+    backgroundColor: '#FEF2F2',
+  },
+  chainText: {
+    fontSize: 13,
+    flex: 1,
+  },
+  filters: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#059669',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  listContent: {
+    padding: 16,
+  },
+  entryCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  actionBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  actionText: {
+    fontSize: 12,
+  },
+  entitySeq: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  entityLabel: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  changes: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+    gap: 4,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  changeField: {
+    fontSize: 12,
+    color: '#6B7280',
+    width: 110,
+  },
+  changeValue: {
+    fontSize: 12,
+    color: '#111827',
+    flex: 1,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,596 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useBackup } from '@/context/BackupContext';
+import { BackupInfo } from '@/services/backupService';
+import { isValidCloseTime } from '@/utils/backupSchedule';
+import {
+  AlertTriangle,
+  DatabaseBackup,
+  ShieldAlert,
+  ShieldCheck,
+  Trash2,
+} from 'lucide-react-native';
+
+const SALES_OPTIONS = [0, 25, 50, 100];
+const KEEP_OPTIONS = [3, 7, 14, 30];
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Backups Page
+ * Sets the automatic backup schedule and lists the backups kept on this
+ * device, each of which can be restored in one step
+ */
+export default function Backups() {
+  const { t } = useTranslation();
+  const { openDrawer } = useDrawer();
+  const { showToast } = useToast();
+  const {
+    settings,
+    backups,
+    backingUp,
+    restoring,
+    lastError,
+    backupNow,
+    restoreBackup,
+    deleteBackup,
+    saveSettings,
+    refreshBackups,
+  } = useBackup();
+
+  const [closeTime, setCloseTime] = useState('');
+
+  useEffect(() => {
+    if (settings) setCloseTime(settings.closeTime);
+  }, [settings]);
+
+  useEffect(() => {
+    refreshBackups();
+  }, [refreshBackups]);
+
+  if (!settings) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator style={styles.loading} color="#059669" />
+      </SafeAreaView>
+    );
+  }
+
+  const trimmedCloseTime = closeTime.trim();
+  const closeTimeChanged = trimmedCloseTime !== settings.closeTime;
+
+  const handleSaveCloseTime = async () => {
+    if (!isValidCloseTime(trimmedCloseTime)) {
+      Alert.alert(t('common.error'), t('backups.invalidCloseTime'));
+      return;
+    }
+
+    await saveSettings({ ...settings, closeTime: trimmedCloseTime });
+    showToast(t('backups.settingsSaved'), 'success');
+  };
+
+  const handleBackupNow = async () => {
+    const backup = await backupNow();
+    if (backup) {
+      showToast(
+        t('backups.backupCreated', { count: backup.recordCount }),
+        'success',
+      );
+    }
+  };
+
+  const runRestore = async (backup: BackupInfo) => {
+    try {
+      const { result } = await restoreBackup(backup.fileUri);
+      showToast(
+        t('backups.restoreComplete', {
+          count: result.imported + result.updated,
+        }),
+        'success',
+      );
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert(
+        t('backups.restoreFailed'),
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  };
+
+  const handleRestore = (backup: BackupInfo) => {
+    Alert.alert(
+      t('backups.restoreTitle'),
+      t('backups.restoreMessage', { date: formatDate(backup.createdAt) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('backups.restore'),
+          style: 'destructive',
+          onPress: () => runRestore(backup),
+        },
+      ],
+    );
+  };
+
+  const handleDelete = (backup: BackupInfo) => {
+    Alert.alert(
+      t('backups.deleteTitle'),
+      t('backups.deleteMessage', { date: formatDate(backup.createdAt) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => deleteBackup(backup.fileUri),
+        },
+      ],
+    );
+  };
+
+  const renderBackup = (backup: BackupInfo) => (
+    <View key={backup.fileUri} style={styles.backupRow}>
+      <View style={styles.backupInfo}>
+        <View style={styles.backupTitleRow}>
+          {backup.verified ? (
+            <ShieldCheck size={16} color="#059669" />
+          ) : (
+            <ShieldAlert size={16} color="#DC2626" />
+          )}
+          <Text style={styles.backupDate} weight="medium">
+            {formatDate(backup.createdAt)}
+          </Text>
+        </View>
+        <Text style={styles.backupMeta}>
+          {t(`backups.triggers.${backup.trigger}`)} •{' '}
+          {formatFileSize(backup.fileSize)}
+        </Text>
+        <Text style={styles.backupMeta}>
+          {backup.verified
+            ? t('backups.recordSummary', {
+                products: backup.recordCounts.products ?? 0,
+                sales: backup.recordCounts.sales ?? 0,
+                customers: backup.recordCounts.customers ?? 0,
+              })
+            : t('backups.checksumFailed')}
+        </Text>
+      </View>
+      <View style={styles.backupActions}>
+        <TouchableOpacity
+          style={[
+            styles.restoreButton,
+            (!backup.verified || restoring) && styles.disabled,
+          ]}
+          onPress={() => handleRestore(backup)}
+          disabled={!backup.verified || restoring}
+        >
+          <Text style={styles.restoreButtonText} weight="medium">
+            {t('backups.restore')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => handleDelete(backup)}
+          disabled={restoring}
+        >
+          <Trash2 size={18} color="#9CA3AF" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <View style={styles.headerContent}>
+          <Text style={styles.title} weight="medium">
+            {t('backups.title')}
+          </Text>
+          <Text style={styles.subtitle}>{t('backups.subtitle')}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('backups.schedule')}
+          </Text>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchInfo}>
+              <Text style={styles.switchLabel} weight="medium">
+                {t('backups.dailyAtClose')}
+              </Text>
+              <Text style={styles.hint}>{t('backups.dailyAtCloseHint')}</Text>
+            </View>
+            <Switch
+              value={settings.dailyAtClose}
+              onValueChange={(dailyAtClose) =>
+                saveSettings({ ...settings, dailyAtClose })
+              }
+            />
+          </View>
+
+          {settings.dailyAtClose && (
+            <>
+              <Text style={styles.inputLabel}>{t('backups.closeTime')}</Text>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.timeInput]}
+                  placeholder="21:00"
+                  value={closeTime}
+                  onChangeText={setCloseTime}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    !closeTimeChanged && styles.disabled,
+                  ]}
+                  onPress={handleSaveCloseTime}
+                  disabled={!closeTimeChanged}
+                >
+                  <Text style={styles.primaryButtonText} weight="medium">
+                    {t('common.save')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.inputLabel, styles.spaced]}>
+            {t('backups.everySales')}
+          </Text>
+          <View style={styles.chipRow}>
+            {SALES_OPTIONS.map((count) => (
+              <TouchableOpacity
+                key={count}
+                style={[
+                  styles.chip,
+                  settings.everySales === count && styles.chipActive,
+                ]}
+                onPress={() => saveSettings({ ...settings, everySales: count })}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    settings.everySales === count && styles.chipTextActive,
+                  ]}
+                >
+                  {count === 0
+                    ? t('backups.off')
+                    : t('backups.salesCount', { count })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.inputLabel, styles.spaced]}>
+            {t('backups.keep')}
+          </Text>
+          <View style={styles.chipRow}>
+            {KEEP_OPTIONS.map((count) => (
+              <TouchableOpacity
+                key={count}
+                style={[
+                  styles.chip,
+                  settings.keepCount === count && styles.chipActive,
+                ]}
+                onPress={() => saveSettings({ ...settings, keepCount: count })}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    settings.keepCount === count && styles.chipTextActive,
+                  ]}
+                >
+                  {t('backups.keepCount', { count })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>{t('backups.keepHint')}</Text>
+
+          {lastError && (
+            <View style={styles.errorBanner}>
+              <AlertTriangle size={16} color="#B45309" />
+              <Text style={styles.errorText}>
+                {t('backups.lastBackupFailed', { error: lastError })}
+              </Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.backupButton,
+              (backingUp || restoring) && styles.disabled,
+            ]}
+            onPress={handleBackupNow}
+            disabled={backingUp || restoring}
+          >
+            {backingUp ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <>
+                <DatabaseBackup size={18} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText} weight="medium">
+                  {t('backups.backupNow')}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </Card>
+
+        <Card>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('backups.savedBackups')}
+          </Text>
+          <Text style={styles.hint}>{t('backups.restoreHint')}</Text>
+          {backups.length === 0 ? (
+            <Text style={styles.emptyText}>{t('backups.noBackups')}</Text>
+          ) : (
+            backups.map(renderBackup)
+          )}
+        </Card>
+      </ScrollView>
+
+      {restoring && (
+        <View style={styles.overlay}>
+          <Card style={styles.overlayCard}>
+            <ActivityIndicator size="large" color="#059669" />
+            <Text style={styles.overlayText} weight="medium">
+              {t('backups.restoring')}
+            </Text>
+          </Card>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  spaced: {
+    marginTop: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  timeInput: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#059669',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 16,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#B45309',
+  },
+  backupButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  backupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  backupInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  backupTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  backupDate: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  backupMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  backupActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  restoreButton: {
+    borderWidth: 1,
+    borderColor: '#059669',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  restoreButtonText: {
+    fontSize: 13,
+    color: '#059669',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  overlayCard: {
+    padding: 24,
+    alignItems: 'center',
+    gap: 12,
+  },
+  overlayText: {
+    fontSize: 15,
+    color: '#111827',
+  },
+});
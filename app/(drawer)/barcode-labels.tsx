@@ -0,0 +1,607 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Print from 'expo-print';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { MenuButton } from '@/components/MenuButton';
+import { SearchablePickerModal } from '@/components/SearchablePickerModal';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useShopSettingsData } from '@/context/ShopSettingsContext';
+import { usePrintQueue } from '@/context/PrintQueueContext';
+import {
+  useCategories,
+  useProductMutations,
+  useProducts,
+} from '@/hooks/useQueries';
+import { BluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import {
+  LABEL_LAYOUTS,
+  LabelLayoutId,
+  buildLabelSheetHtml,
+  expandLabelCopies,
+} from '@/utils/labelSheet';
+import { Minus, Plus, X } from 'lucide-react-native';
+
+interface LabelSelection {
+  productId: string;
+  copies: number;
+}
+
+/**
+ * Barcode Labels Page
+ * Design and print price and shelf labels for products
+ *
+ * Features:
+ * - Pick products one by one or a whole category, with copies per product
+ * - Give products without a barcode an internal EAN-13
+ * - A4 label sheets as a PDF, with a starting position for part-used sheets
+ * - Labels with barcodes on the Bluetooth thermal printer
+ */
+export default function BarcodeLabels() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+  const shopSettings = useShopSettingsData();
+  const { enqueue } = usePrintQueue();
+
+  const { data: products = [] } = useProducts();
+  const { data: categories = [] } = useCategories();
+  const { assignInternalBarcodes } = useProductMutations();
+
+  const [selections, setSelections] = useState<LabelSelection[]>([]);
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('a4_3x8');
+  const [showName, setShowName] = useState(true);
+  const [showPrice, setShowPrice] = useState(true);
+  const [showBarcode, setShowBarcode] = useState(true);
+  const [showShopName, setShowShopName] = useState(false);
+  const [skipText, setSkipText] = useState('');
+  const [showProductPicker, setShowProductPicker] = useState(false);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [printing, setPrinting] = useState(false);
+
+  // Parents of variants hold no stock, so their variants get the labels
+  const labelProducts = useMemo(() => {
+    const parentIds = new Set(
+      products.map((product) => product.parent_id).filter(Boolean),
+    );
+    return products.filter((product) => !parentIds.has(product.id));
+  }, [products]);
+  const productsById = useMemo(
+    () => new Map(labelProducts.map((product) => [product.id, product])),
+    [labelProducts],
+  );
+
+  const selectedProducts = selections.flatMap(({ productId, copies }) => {
+    const product = productsById.get(productId);
+    return product ? [{ product, copies }] : [];
+  });
+  const missingBarcodes = selectedProducts.filter(
+    ({ product }) => !product.barcode,
+  );
+  const labelCount = selectedProducts.reduce(
+    (sum, { copies }) => sum + copies,
+    0,
+  );
+
+  const addProducts = (productIds: string[]) => {
+    const selected = new Set(selections.map((item) => item.productId));
+    setSelections([
+      ...selections,
+      ...productIds
+        .filter((productId) => !selected.has(productId))
+        .map((productId) => ({ productId, copies: 1 })),
+    ]);
+  };
+
+  const handleAddCategory = (categoryId?: string) => {
+    if (!categoryId) return;
+    const productIds = labelProducts
+      .filter((product) => product.category_id === categoryId)
+      .map((product) => product.id);
+    if (productIds.length === 0) {
+      showToast(t('labels.noProductsInCategory'), 'info');
+      return;
+    }
+    addProducts(productIds);
+  };
+
+  const setCopies = (productId: string, copies: number) => {
+    setSelections(
+      selections.map((item) =>
+        item.productId === productId
+          ? { ...item, copies: Math.max(1, copies) }
+          : item,
+      ),
+    );
+  };
+
+  const removeSelection = (productId: string) => {
+    setSelections(selections.filter((item) => item.productId !== productId));
+  };
+
+  const handleGenerateBarcodes = async () => {
+    try {
+      const assigned = await assignInternalBarcodes.mutateAsync(
+        missingBarcodes.map(({ product }) => product.id),
+      );
+      showToast(t('labels.barcodesGenerated', { count: assigned }), 'success');
+    } catch (error) {
+      console.error('Error generating barcodes:', error);
+      Alert.alert(t('common.error'), t('labels.failedToGenerate'));
+    }
+  };
+
+  const getLabels = () =>
+    expandLabelCopies(
+      selectedProducts.map(({ product, copies }) => ({
+        item: product,
+        copies,
+      })),
+    );
+
+  const handlePrintSheet = async () => {
+    if (labelCount === 0) {
+      Alert.alert(t('common.error'), t('labels.noProductsSelected'));
+      return;
+    }
+
+    setPrinting(true);
+    try {
+      const html = buildLabelSheetHtml(
+        getLabels().map((product) => ({
+          name: product.name,
+          price: formatPrice(product.price),
+          barcode: product.barcode,
+        })),
+        {
+          layout: LABEL_LAYOUTS[layoutId],
+          showName,
+          showPrice,
+          showBarcode,
+          shopName: showShopName ? shopSettings?.shopName : undefined,
+          skip: parseInt(skipText, 10) || 0,
+        },
+      );
+      const { uri } = await Print.printToFileAsync({ html, base64: false });
+      await Print.printAsync({ uri });
+    } catch (error) {
+      console.error('Error printing label sheet:', error);
+      Alert.alert(t('printing.printError'), t('printing.printErrorMessage'));
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const handlePrintThermal = async () => {
+    if (labelCount === 0) {
+      Alert.alert(t('common.error'), t('labels.noProductsSelected'));
+      return;
+    }
+
+    setPrinting(true);
+    try {
+      if (!(await BluetoothPrinterService.hasPrinter())) {
+        Alert.alert(
+          t('printing.printerNotConnected'),
+          t('printing.connectThermalPrinter'),
+        );
+        return;
+      }
+
+      enqueue(
+        {
+          type: 'labels',
+          labels: getLabels().map((product) => ({
+            name: product.name,
+            price: product.price,
+            barcode: product.barcode,
+          })),
+          options: { showName, showPrice, showBarcode, showShopName },
+        },
+        t('labels.labelCount', { count: labelCount }),
+      );
+      showToast(t('printQueue.queued'), 'success');
+    } catch (error) {
+      console.error('Error printing labels:', error);
+      Alert.alert(t('common.error'), t('labels.failedToPrint'));
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const contentOptions = [
+    { key: 'name', value: showName, onChange: setShowName },
+    { key: 'price', value: showPrice, onChange: setShowPrice },
+    { key: 'barcode', value: showBarcode, onChange: setShowBarcode },
+    { key: 'shopName', value: showShopName, onChange: setShowShopName },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('labels.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Card style={styles.sectionCard}>
+          <Text style={styles.sectionTitle} weight="bold">
+            {t('labels.products')}
+          </Text>
+          {selectedProducts.length === 0 && (
+            <Text style={styles.inputHint}>{t('labels.selectHint')}</Text>
+          )}
+          {selectedProducts.map(({ product, copies }) => (
+            <View key={product.id} style={styles.selectedProduct}>
+              <View style={styles.selectedProductInfo}>
+                <Text style={styles.selectedProductName} numberOfLines={1}>
+                  {product.name}
+                </Text>
+                <Text
+                  style={[
+                    styles.selectedProductMeta,
+                    !product.barcode && styles.missingBarcode,
+                  ]}
+                >
+                  {product.barcode || t('labels.noBarcode')} •{' '}
+                  {formatPrice(product.price)}
+                </Text>
+              </View>
+              <View style={styles.copiesControl}>
+                <TouchableOpacity
+                  style={styles.copiesButton}
+                  onPress={() => setCopies(product.id, copies - 1)}
+                >
+                  <Minus size={16} color="#374151" />
+                </TouchableOpacity>
+                <Text style={styles.copiesText}>{copies}</Text>
+                <TouchableOpacity
+                  style={styles.copiesButton}
+                  onPress={() => setCopies(product.id, copies + 1)}
+                >
+                  <Plus size={16} color="#374151" />
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity onPress={() => removeSelection(product.id)}>
+                <X size={18} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.inputRow}>
+            <TouchableOpacity
+              style={[styles.addButton, styles.inputHalf]}
+              onPress={() => setShowProductPicker(true)}
+            >
+              <Plus size={18} color="#059669" />
+              <Text style={styles.addButtonText}>{t('labels.addProduct')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, styles.inputHalf]}
+              onPress={() => setShowCategoryPicker(true)}
+            >
+              <Plus size={18} color="#059669" />
+              <Text style={styles.addButtonText}>
+                {t('labels.addCategory')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {selectedProducts.length > 0 && (
+            <TouchableOpacity onPress={() => setSelections([])}>
+              <Text style={styles.clearText}>{t('labels.clearSelection')}</Text>
+            </TouchableOpacity>
+          )}
+        </Card>
+
+        {missingBarcodes.length > 0 && (
+          <Card style={styles.warningCard}>
+            <Text style={styles.warningText}>
+              {t('labels.missingBarcodes', { count: missingBarcodes.length })}
+            </Text>
+            <Button
+              title={t('labels.generateBarcodes')}
+              onPress={handleGenerateBarcodes}
+              disabled={assignInternalBarcodes.isPending}
+              variant="secondary"
+            />
+          </Card>
+        )}
+
+        <Card style={styles.sectionCard}>
+          <Text style={styles.sectionTitle} weight="bold">
+            {t('labels.design')}
+          </Text>
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('labels.layout')}</Text>
+            <View style={styles.chipRow}>
+              {Object.values(LABEL_LAYOUTS).map((layout) => (
+                <TouchableOpacity
+                  key={layout.id}
+                  style={[
+                    styles.chip,
+                    layoutId === layout.id && styles.chipActive,
+                  ]}
+                  onPress={() => setLayoutId(layout.id)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      layoutId === layout.id && styles.chipTextActive,
+                    ]}
+                  >
+                    {t(`labels.layouts.${layout.id}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {contentOptions.map((option) => (
+            <View key={option.key} style={styles.switchRow}>
+              <Text style={styles.inputLabel}>
+                {t(`labels.show.${option.key}`)}
+              </Text>
+              <Switch
+                value={option.value}
+                onValueChange={option.onChange}
+                trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+              />
+            </View>
+          ))}
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('labels.skipLabels')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              value={skipText}
+              onChangeText={setSkipText}
+              keyboardType="number-pad"
+            />
+            <Text style={styles.inputHint}>{t('labels.skipHint')}</Text>
+          </View>
+        </Card>
+
+        <Text style={styles.summaryText}>
+          {t('labels.labelCount', { count: labelCount })}
+        </Text>
+        <View style={styles.actions}>
+          <Button
+            title={t('labels.printSheet')}
+            onPress={handlePrintSheet}
+            disabled={printing}
+          />
+          <Button
+            title={t('labels.printThermal')}
+            onPress={handlePrintThermal}
+            disabled={printing}
+            variant="secondary"
+          />
+        </View>
+      </ScrollView>
+
+      <SearchablePickerModal
+        visible={showProductPicker}
+        onClose={() => setShowProductPicker(false)}
+        title={t('labels.addProduct')}
+        items={labelProducts
+          .filter(
+            (product) =>
+              !selections.some((item) => item.productId === product.id),
+          )
+          .map((product) => ({ id: product.id, name: product.name }))}
+        onSelect={(id) => id && addProducts([id])}
+        showAllOption={false}
+      />
+
+      <SearchablePickerModal
+        visible={showCategoryPicker}
+        onClose={() => setShowCategoryPicker(false)}
+        title={t('labels.addCategory')}
+        items={categories.map((category) => ({
+          id: category.id,
+          name: category.name,
+        }))}
+        onSelect={handleAddCategory}
+        showAllOption={false}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionCard: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  selectedProduct: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  selectedProductInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  selectedProductName: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  selectedProductMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  missingBarcode: {
+    color: '#D97706',
+  },
+  copiesControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  copiesButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  copiesText: {
+    fontSize: 14,
+    color: '#111827',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#059669',
+  },
+  addButtonText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '500',
+  },
+  clearText: {
+    fontSize: 13,
+    color: '#EF4444',
+    textAlign: 'center',
+  },
+  warningCard: {
+    gap: 12,
+    marginBottom: 16,
+    backgroundColor: '#FFFBEB',
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#92400E',
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  inputHint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#059669',
+    backgroundColor: '#ECFDF5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  actions: {
+    gap: 12,
+    marginBottom: 32,
+  },
+});
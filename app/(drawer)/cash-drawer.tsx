@@ -0,0 +1,641 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { PriceInput } from '@/components/PriceInput';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { ShiftReportView } from '@/components/ShiftReportView';
+import { CashMovementModal } from '@/components/CashMovementModal';
+import { CloseShiftModal } from '@/components/CloseShiftModal';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { usePrintQueue } from '@/context/PrintQueueContext';
+import {
+  useOpenShift,
+  useShifts,
+  useShiftReport,
+  useShiftMutations,
+} from '@/hooks/useQueries';
+import { CashMovement, Shift, ShiftReport } from '@/services/database';
+import {
+  PaymentMethodService,
+  type PaymentMethod,
+} from '@/services/paymentMethodService';
+import { BluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import { toShiftReportPrintData } from '@/utils/shiftReportUtils';
+import {
+  ArrowDownCircle,
+  ArrowUpCircle,
+  Printer,
+  Lock,
+  Wallet,
+  X,
+} from 'lucide-react-native';
+
+/**
+ * Cash Drawer Page
+ * Open and close cash drawer shifts and reconcile the drawer
+ *
+ * Features:
+ * - Open a shift with a starting float
+ * - Record pay-ins and pay-outs while the shift is open
+ * - Live X report for the open shift
+ * - Close with a counted amount and print the Z report over Bluetooth
+ * - Review and reprint reports for past shifts
+ */
+export default function CashDrawer() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { showToast } = useToast();
+  const { enqueue } = usePrintQueue();
+
+  const {
+    data: openShift,
+    isLoading: openShiftLoading,
+    refetch: refetchOpenShift,
+  } = useOpenShift();
+  const { data: shifts = [], refetch: refetchShifts } = useShifts();
+  const {
+    data: openShiftReport,
+    isRefetching,
+    refetch: refetchReport,
+  } = useShiftReport(openShift?.id);
+  const { openShift: openShiftMutation } = useShiftMutations();
+
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [floatText, setFloatText] = useState('');
+  const [openingFloat, setOpeningFloat] = useState(0);
+  const [openingNote, setOpeningNote] = useState('');
+  const [movementType, setMovementType] = useState<CashMovement['type'] | null>(
+    null,
+  );
+  const [showCloseModal, setShowCloseModal] = useState(false);
+  const [viewingShiftId, setViewingShiftId] = useState<string | undefined>();
+  const [printing, setPrinting] = useState(false);
+
+  const { data: viewingReport } = useShiftReport(viewingShiftId);
+
+  useEffect(() => {
+    const loadPaymentMethods = async () => {
+      const methods = await PaymentMethodService.getPaymentMethods();
+      setPaymentMethods(methods);
+    };
+    loadPaymentMethods();
+  }, []);
+
+  const closedShifts = shifts.filter((shift) => shift.status === 'closed');
+
+  const handleRefresh = () => {
+    refetchOpenShift();
+    refetchShifts();
+    if (openShift) {
+      refetchReport();
+    }
+  };
+
+  const handleOpenShift = async () => {
+    if (floatText.trim().length === 0) {
+      Alert.alert(t('common.error'), t('shifts.enterOpeningFloat'));
+      return;
+    }
+
+    try {
+      await openShiftMutation.mutateAsync({
+        openingFloat,
+        note: openingNote.trim() || undefined,
+      });
+      setFloatText('');
+      setOpeningFloat(0);
+      setOpeningNote('');
+      showToast(t('shifts.shiftOpened'), 'success');
+    } catch (error) {
+      console.error('Error opening shift:', error);
+      Alert.alert(t('common.error'), t('shifts.failedToOpenShift'));
+    }
+  };
+
+  const handleShiftClosed = (report: ShiftReport) => {
+    setShowCloseModal(false);
+    setViewingShiftId(report.shift.id);
+    showToast(t('shifts.shiftClosed'), 'success');
+  };
+
+  const printReport = async (report: ShiftReport) => {
+    setPrinting(true);
+    try {
+      if (!(await BluetoothPrinterService.hasPrinter())) {
+        Alert.alert(
+          t('printing.printerNotConnected'),
+          t('printing.connectThermalPrinter'),
+        );
+        return;
+      }
+
+      enqueue(
+        {
+          type: 'shift_report',
+          report: toShiftReportPrintData(report, paymentMethods),
+        },
+        `${
+          report.shift.closed_at ? t('shifts.zReport') : t('shifts.xReport')
+        } • ${formatShiftDate(report.shift.opened_at)}`,
+      );
+      showToast(t('shifts.reportPrinted'), 'success');
+    } catch (error) {
+      console.error('Error printing shift report:', error);
+      Alert.alert(t('common.error'), t('shifts.failedToPrintReport'));
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const formatShiftDate = (dateString: string) =>
+    new Date(dateString.replace(' ', 'T')).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const getVariance = (shift: Shift) =>
+    (shift.counted_cash || 0) - (shift.expected_cash || 0);
+
+  if (openShiftLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('shifts.cashDrawer')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={handleRefresh}
+            colors={['#059669']}
+            tintColor={'#059669'}
+          />
+        }
+      >
+        {openShift ? (
+          <>
+            <Card style={styles.statusCard}>
+              <View style={styles.statusHeader}>
+                <View style={styles.statusBadge}>
+                  <Text style={styles.statusBadgeText} weight="medium">
+                    {t('shifts.shiftOpen')}
+                  </Text>
+                </View>
+                <Text style={styles.statusMeta}>
+                  {t('shifts.openedAt')} {formatShiftDate(openShift.opened_at)}
+                </Text>
+              </View>
+              <Text style={styles.expectedLabel}>
+                {t('shifts.expectedCash')}
+              </Text>
+              <Text style={styles.expectedValue} weight="bold">
+                {formatPrice(
+                  openShiftReport?.expectedCash ?? openShift.opening_float,
+                )}
+              </Text>
+              {openShift.opening_note ? (
+                <Text style={styles.noteText}>{openShift.opening_note}</Text>
+              ) : null}
+
+              <View style={styles.actionsRow}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => setMovementType('pay_in')}
+                >
+                  <ArrowDownCircle size={20} color="#059669" />
+                  <Text style={styles.actionText} weight="medium">
+                    {t('shifts.payIn')}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => setMovementType('pay_out')}
+                >
+                  <ArrowUpCircle size={20} color="#EF4444" />
+                  <Text style={styles.actionText} weight="medium">
+                    {t('shifts.payOut')}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() =>
+                    openShiftReport && printReport(openShiftReport)
+                  }
+                  disabled={!openShiftReport || printing}
+                >
+                  <Printer size={20} color="#3B82F6" />
+                  <Text style={styles.actionText} weight="medium">
+                    {t('shifts.printXReport')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </Card>
+
+            {openShiftReport && (
+              <Card style={styles.reportCard}>
+                <Text style={styles.reportTitle} weight="bold">
+                  {t('shifts.xReport')}
+                </Text>
+                <ShiftReportView
+                  report={openShiftReport}
+                  paymentMethods={paymentMethods}
+                />
+              </Card>
+            )}
+
+            <Button
+              title={t('shifts.closeShift')}
+              onPress={() => setShowCloseModal(true)}
+              disabled={!openShiftReport}
+              style={styles.closeShiftButton}
+            />
+          </>
+        ) : (
+          <Card style={styles.openCard}>
+            <View style={styles.openHeader}>
+              <Wallet size={24} color="#059669" />
+              <Text style={styles.openTitle} weight="bold">
+                {t('shifts.openShift')}
+              </Text>
+            </View>
+            <Text style={styles.openHint}>{t('shifts.openShiftHint')}</Text>
+            <PriceInput
+              label={t('shifts.openingFloat')}
+              value={floatText}
+              onValueChange={(text: string, numericValue: number) => {
+                setFloatText(text);
+                setOpeningFloat(numericValue);
+              }}
+              showCurrencyHint={false}
+            />
+            <Text style={styles.inputLabel} weight="medium">
+              {t('shifts.openingNote')}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={openingNote}
+              onChangeText={setOpeningNote}
+              placeholder={t('shifts.openingNotePlaceholder')}
+              maxLength={200}
+            />
+            <Button
+              title={t('shifts.openShift')}
+              onPress={handleOpenShift}
+              disabled={openShiftMutation.isPending}
+            />
+          </Card>
+        )}
+
+        <View style={styles.listHeader}>
+          <Text style={styles.listTitle} weight="bold">
+            {t('shifts.pastShifts')}
+          </Text>
+          <Text style={styles.listCount}>{closedShifts.length}</Text>
+        </View>
+
+        {closedShifts.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Lock size={40} color="#D1D5DB" />
+            <Text style={styles.emptyText}>{t('shifts.noPastShifts')}</Text>
+          </Card>
+        ) : (
+          closedShifts.map((shift) => {
+            const variance = getVariance(shift);
+            return (
+              <TouchableOpacity
+                key={shift.id}
+                onPress={() => setViewingShiftId(shift.id)}
+              >
+                <Card style={styles.shiftCard}>
+                  <View style={styles.shiftInfo}>
+                    <Text style={styles.shiftDate} weight="medium">
+                      {formatShiftDate(shift.opened_at)}
+                      {shift.closed_at
+                        ? ` - ${formatShiftDate(shift.closed_at)}`
+                        : ''}
+                    </Text>
+                    <Text style={styles.shiftMeta}>
+                      {t('shifts.expectedCash')}:{' '}
+                      {formatPrice(shift.expected_cash || 0)} •{' '}
+                      {t('shifts.countedCash')}:{' '}
+                      {formatPrice(shift.counted_cash || 0)}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.shiftVariance,
+                      variance < 0 ? styles.negative : styles.positive,
+                    ]}
+                    weight="bold"
+                  >
+                    {variance < 0 ? '-' : '+'}
+                    {formatPrice(Math.abs(variance))}
+                  </Text>
+                </Card>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <CashMovementModal
+        visible={movementType !== null}
+        type={movementType || 'pay_in'}
+        onClose={() => setMovementType(null)}
+      />
+
+      {openShift && openShiftReport && (
+        <CloseShiftModal
+          visible={showCloseModal}
+          shiftId={openShift.id}
+          expectedCash={openShiftReport.expectedCash}
+          onClose={() => setShowCloseModal(false)}
+          onClosed={handleShiftClosed}
+        />
+      )}
+
+      {/* Z report for a closed shift */}
+      <Modal
+        visible={!!viewingShiftId}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setViewingShiftId(undefined)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle} weight="bold">
+              {t('shifts.zReport')}
+            </Text>
+            <TouchableOpacity onPress={() => setViewingShiftId(undefined)}>
+              <X size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+          {viewingReport ? (
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.statusMeta}>
+                {formatShiftDate(viewingReport.shift.opened_at)}
+                {viewingReport.shift.closed_at
+                  ? ` - ${formatShiftDate(viewingReport.shift.closed_at)}`
+                  : ''}
+              </Text>
+              {viewingReport.shift.closing_note ? (
+                <Text style={styles.noteText}>
+                  {viewingReport.shift.closing_note}
+                </Text>
+              ) : null}
+              <Card style={styles.reportCard}>
+                <ShiftReportView
+                  report={viewingReport}
+                  paymentMethods={paymentMethods}
+                />
+              </Card>
+              <Button
+                title={t('shifts.printZReport')}
+                onPress={() => printReport(viewingReport)}
+                disabled={printing}
+                style={styles.closeShiftButton}
+              />
+            </ScrollView>
+          ) : (
+            <LoadingSpinner />
+          )}
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  statusCard: {
+    padding: 16,
+    marginBottom: 16,
+  },
+  statusHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusBadge: {
+    backgroundColor: '#D1FAE5',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    color: '#065F46',
+  },
+  statusMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  expectedLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  expectedValue: {
+    fontSize: 28,
+    color: '#111827',
+    marginTop: 4,
+  },
+  noteText: {
+    fontSize: 13,
+    color: '#374151',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 12,
+    color: '#374151',
+    textAlign: 'center',
+  },
+  reportCard: {
+    padding: 16,
+    marginBottom: 16,
+  },
+  reportTitle: {
+    fontSize: 18,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  closeShiftButton: {
+    marginBottom: 24,
+  },
+  openCard: {
+    padding: 16,
+    marginBottom: 24,
+  },
+  openHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  openTitle: {
+    fontSize: 18,
+    color: '#111827',
+  },
+  openHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    marginBottom: 16,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  listTitle: {
+    fontSize: 18,
+    color: '#111827',
+  },
+  listCount: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  emptyCard: {
+    padding: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  shiftCard: {
+    padding: 16,
+    marginBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  shiftInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  shiftDate: {
+    fontSize: 14,
+    color: '#111827',
+    marginBottom: 4,
+  },
+  shiftMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  shiftVariance: {
+    fontSize: 14,
+  },
+  negative: {
+    color: '#EF4444',
+  },
+  positive: {
+    color: '#059669',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalTitle: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+});
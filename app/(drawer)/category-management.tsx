@@ -20,9 +20,11 @@ import {
   useCategories,
   useCategoryMutations,
   useCategoriesWithCounts,
+  useTaxRates,
 } from '@/hooks/useQueries';
 import { useToast } from '@/context/ToastContext';
 import { Category } from '@/services/database';
+import { TaxRateSelector } from '@/components/TaxRateSelector';
 import { Edit, Trash2, FolderPlus, Plus, X } from 'lucide-react-native';
 
 /**
@@ -48,18 +50,21 @@ export default function CategoryManagement() {
     useCategoriesWithCounts();
   const { addCategory, updateCategory, deleteCategory } =
     useCategoryMutations();
+  const { data: taxRates = [] } = useTaxRates();
 
   const [showFormModal, setShowFormModal] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [categoryFormData, setCategoryFormData] = useState({
     name: '',
     description: '',
+    tax_rate_id: null as string | null,
   });
 
   const resetCategoryForm = () => {
     setCategoryFormData({
       name: '',
       description: '',
+      tax_rate_id: null,
     });
     setEditingCategory(null);
     setShowFormModal(false);
@@ -69,6 +74,7 @@ export default function CategoryManagement() {
     setCategoryFormData({
       name: '',
       description: '',
+      tax_rate_id: null,
     });
     setEditingCategory(null);
     setShowFormModal(true);
@@ -87,6 +93,7 @@ export default function CategoryManagement() {
           data: {
             name: categoryFormData.name,
             description: categoryFormData.description,
+            tax_rate_id: categoryFormData.tax_rate_id,
           },
         });
       } else {
@@ -113,6 +120,7 @@ export default function CategoryManagement() {
     setCategoryFormData({
       name: category.name,
       description: category.description || '',
+      tax_rate_id: category.tax_rate_id || null,
     });
     setEditingCategory(category);
     setShowFormModal(true);
@@ -228,6 +236,9 @@ export default function CategoryManagement() {
           /* Categories List */
           categories.map((category) => {
             const productCount = getCategoryProductCount(category.id);
+            const taxRate = taxRates.find(
+              (rate) => rate.id === category.tax_rate_id,
+            );
             return (
               <Card key={category.id} style={styles.categoryCard}>
                 <View style={styles.categoryContent}>
@@ -247,6 +258,11 @@ export default function CategoryManagement() {
                           ? t('products.product')
                           : t('products.products')}
                       </Text>
+                      {taxRate && (
+                        <Text style={styles.taxRateBadge}>
+                          {taxRate.name} ({taxRate.rate}%)
+                        </Text>
+                      )}
                     </View>
                   </View>
 
@@ -337,6 +353,20 @@ export default function CategoryManagement() {
                   numberOfLines={4}
                 />
               </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('tax.taxRate')}</Text>
+                <TaxRateSelector
+                  taxRates={taxRates}
+                  value={categoryFormData.tax_rate_id}
+                  onChange={(taxRateId) =>
+                    setCategoryFormData({
+                      ...categoryFormData,
+                      tax_rate_id: taxRateId,
+                    })
+                  }
+                />
+              </View>
             </View>
           </ScrollView>
 
@@ -450,6 +480,11 @@ const styles = StyleSheet.create({
     color: '#059669',
     fontWeight: '500',
   },
+  taxRateBadge: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 12,
+  },
   categoryActions: {
     flexDirection: 'row',
     gap: 8,
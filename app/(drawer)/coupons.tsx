@@ -0,0 +1,1067 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import {
+  useCoupons,
+  useCouponMutations,
+  useOrderDiscountAnalytics,
+} from '@/hooks/useQueries';
+import { Coupon } from '@/services/database';
+import {
+  OrderDiscountType,
+  getCouponError,
+  normalizeCouponCode,
+} from '@/utils/discountUtils';
+import { Edit, Plus, Ticket, Trash2, X } from 'lucide-react-native';
+
+const DISCOUNT_TYPES: OrderDiscountType[] = ['percent', 'fixed'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type AnalyticsRange = 30 | 90 | 180;
+
+interface CouponFormData {
+  code: string;
+  description: string;
+  discount_type: OrderDiscountType;
+  discount_value: string;
+  min_spend: string;
+  expires_on: string;
+  single_use: boolean;
+  max_uses: string;
+  is_active: boolean;
+}
+
+const emptyFormData: CouponFormData = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: '',
+  min_spend: '',
+  expires_on: '',
+  single_use: false,
+  max_uses: '',
+  is_active: true,
+};
+
+/**
+ * Coupons Page
+ * Manage coupon codes that cashiers enter at checkout
+ *
+ * Features:
+ * - Percentage or fixed amount off the whole order
+ * - Single use, limited or unlimited uses
+ * - Optional minimum spend and expiry date
+ * - Use of coupons and manual order discounts over the last 30, 90 or 180
+ *   days
+ */
+export default function Coupons() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const { data: coupons = [], isLoading } = useCoupons();
+  const { addCoupon, updateCoupon, deleteCoupon } = useCouponMutations();
+
+  const [activeTab, setActiveTab] = useState<'coupons' | 'analytics'>(
+    'coupons',
+  );
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>(30);
+  const { startDate, endDate } = useMemo(() => {
+    const end = new Date();
+    const start = new Date();
+    start.setDate(end.getDate() - analyticsRange);
+    return { startDate: start, endDate: end };
+  }, [analyticsRange]);
+  const { data: analytics, isLoading: analyticsLoading } =
+    useOrderDiscountAnalytics(startDate, endDate);
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [couponFormData, setCouponFormData] =
+    useState<CouponFormData>(emptyFormData);
+
+  const resetCouponForm = () => {
+    setCouponFormData(emptyFormData);
+    setEditingCoupon(null);
+    setShowFormModal(false);
+  };
+
+  const handleAddNew = () => {
+    setCouponFormData(emptyFormData);
+    setEditingCoupon(null);
+    setShowFormModal(true);
+  };
+
+  const handleEditCoupon = (coupon: Coupon) => {
+    setCouponFormData({
+      code: coupon.code,
+      description: coupon.description || '',
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value.toString(),
+      min_spend: coupon.min_spend?.toString() || '',
+      expires_on: coupon.expires_on || '',
+      single_use: coupon.max_uses === 1,
+      max_uses:
+        coupon.max_uses && coupon.max_uses > 1
+          ? coupon.max_uses.toString()
+          : '',
+      is_active: coupon.is_active === 1,
+    });
+    setEditingCoupon(coupon);
+    setShowFormModal(true);
+  };
+
+  const getValidationError = (): string | null => {
+    const form = couponFormData;
+    const code = normalizeCouponCode(form.code);
+    if (!code) {
+      return t('coupons.enterCode');
+    }
+    if (
+      coupons.some(
+        (coupon) => coupon.code === code && coupon.id !== editingCoupon?.id,
+      )
+    ) {
+      return t('coupons.codeExists');
+    }
+
+    const value = parseFloat(form.discount_value);
+    if (!(value > 0) || (form.discount_type === 'percent' && value > 100)) {
+      return form.discount_type === 'percent'
+        ? t('coupons.invalidPercent')
+        : t('coupons.invalidAmount');
+    }
+    if (form.min_spend && !(parseFloat(form.min_spend) >= 0)) {
+      return t('coupons.invalidMinSpend');
+    }
+    if (form.expires_on && !DATE_PATTERN.test(form.expires_on)) {
+      return t('coupons.invalidExpiry');
+    }
+    if (
+      !form.single_use &&
+      form.max_uses &&
+      !(parseInt(form.max_uses, 10) >= 1)
+    ) {
+      return t('coupons.invalidMaxUses');
+    }
+    return null;
+  };
+
+  const handleCouponSubmit = async () => {
+    const validationError = getValidationError();
+    if (validationError) {
+      Alert.alert(t('common.error'), validationError);
+      return;
+    }
+
+    const form = couponFormData;
+    const data = {
+      code: normalizeCouponCode(form.code),
+      description: form.description.trim() || null,
+      discount_type: form.discount_type,
+      discount_value: parseFloat(form.discount_value),
+      min_spend: form.min_spend ? parseFloat(form.min_spend) : null,
+      expires_on: form.expires_on || null,
+      max_uses: form.single_use
+        ? 1
+        : form.max_uses
+          ? parseInt(form.max_uses, 10)
+          : null,
+      is_active: form.is_active ? 1 : 0,
+    };
+
+    try {
+      if (editingCoupon) {
+        await updateCoupon.mutateAsync({ id: editingCoupon.id, data });
+      } else {
+        await addCoupon.mutateAsync(data);
+      }
+
+      resetCouponForm();
+      showToast(
+        editingCoupon ? t('coupons.couponUpdated') : t('coupons.couponAdded'),
+        'success',
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('coupons.failedToSave'));
+      console.error('Error saving coupon:', error);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon, value: boolean) => {
+    try {
+      await updateCoupon.mutateAsync({
+        id: coupon.id,
+        data: {
+          code: coupon.code,
+          description: coupon.description,
+          discount_type: coupon.discount_type,
+          discount_value: coupon.discount_value,
+          min_spend: coupon.min_spend,
+          expires_on: coupon.expires_on,
+          max_uses: coupon.max_uses,
+          is_active: value ? 1 : 0,
+        },
+      });
+    } catch (error) {
+      Alert.alert(t('common.error'), t('coupons.failedToSave'));
+      console.error('Error updating coupon:', error);
+    }
+  };
+
+  const handleDeleteCoupon = (coupon: Coupon) => {
+    Alert.alert(
+      t('coupons.deleteCoupon'),
+      `${t('coupons.areYouSure')} "${coupon.code}"?`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCoupon.mutateAsync(coupon.id);
+              showToast(t('coupons.couponDeleted'), 'success');
+            } catch (error) {
+              console.error('Error deleting coupon:', error);
+              Alert.alert(t('common.error'), t('coupons.failedToDelete'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const describeDiscount = (coupon: Coupon) =>
+    coupon.discount_type === 'percent'
+      ? t('coupons.percentOffRule', { percent: coupon.discount_value })
+      : t('coupons.amountOffRule', {
+          amount: formatPrice(coupon.discount_value),
+        });
+
+  const describeConditions = (coupon: Coupon) => {
+    const parts: string[] = [];
+    if (coupon.min_spend) {
+      parts.push(
+        t('coupons.minSpendRule', { amount: formatPrice(coupon.min_spend) }),
+      );
+    }
+    if (coupon.expires_on) {
+      parts.push(t('coupons.expiresRule', { date: coupon.expires_on }));
+    }
+    return parts.join(' • ');
+  };
+
+  const describeUses = (coupon: Coupon) =>
+    coupon.max_uses
+      ? t('coupons.usesOfMax', {
+          count: coupon.use_count || 0,
+          max: coupon.max_uses,
+        })
+      : t('coupons.uses', { count: coupon.use_count || 0 });
+
+  const renderCouponList = () => (
+    <>
+      <View style={styles.listHeader}>
+        <Text style={styles.listTitle} weight="bold">
+          {t('coupons.title')}
+        </Text>
+        <Text style={styles.listCount}>{coupons.length}</Text>
+      </View>
+
+      {coupons.length === 0 ? (
+        <Card style={styles.emptyCard}>
+          <Ticket size={48} color="#D1D5DB" />
+          <Text style={styles.emptyText}>{t('coupons.noCoupons')}</Text>
+          <Text style={styles.emptySubtext}>{t('coupons.addFirstCoupon')}</Text>
+        </Card>
+      ) : (
+        coupons.map((coupon) => {
+          const conditions = describeConditions(coupon);
+          // Minimum spend depends on the order, so leave it out here
+          const unavailable = getCouponError(coupon, Infinity, new Date());
+
+          return (
+            <Card key={coupon.id} style={styles.couponCard}>
+              <View style={styles.couponContent}>
+                <View style={styles.couponInfo}>
+                  <View style={styles.couponTitleRow}>
+                    <Text style={styles.couponCode} weight="bold">
+                      {coupon.code}
+                    </Text>
+                    {unavailable && unavailable !== 'inactive' && (
+                      <View style={styles.unavailableBadge}>
+                        <Text style={styles.unavailableBadgeText}>
+                          {t(`coupons.status.${unavailable}`)}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text style={styles.couponRule}>
+                    {describeDiscount(coupon)}
+                  </Text>
+                  {coupon.description ? (
+                    <Text style={styles.couponMeta} numberOfLines={2}>
+                      {coupon.description}
+                    </Text>
+                  ) : null}
+                  {conditions ? (
+                    <Text style={styles.couponMeta}>{conditions}</Text>
+                  ) : null}
+                  <Text style={styles.couponMeta}>{describeUses(coupon)}</Text>
+                </View>
+
+                <View style={styles.couponActions}>
+                  <Switch
+                    value={coupon.is_active === 1}
+                    onValueChange={(value) => handleToggleActive(coupon, value)}
+                    trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                  />
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleEditCoupon(coupon)}
+                  >
+                    <Edit size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.deleteButton]}
+                    onPress={() => handleDeleteCoupon(coupon)}
+                  >
+                    <Trash2 size={20} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </Card>
+          );
+        })
+      )}
+    </>
+  );
+
+  const renderAnalytics = () => {
+    if (analyticsLoading || !analytics) {
+      return <LoadingSpinner />;
+    }
+
+    const discountedSales =
+      analytics.manualDiscountCount + analytics.couponUseCount;
+    const discountedShare =
+      analytics.totalSales > 0
+        ? (discountedSales / analytics.totalSales) * 100
+        : 0;
+
+    return (
+      <>
+        <View style={styles.rangeSelector}>
+          {([30, 90, 180] as const).map((range) => (
+            <TouchableOpacity
+              key={range}
+              style={[
+                styles.rangeButton,
+                analyticsRange === range && styles.rangeButtonActive,
+              ]}
+              onPress={() => setAnalyticsRange(range)}
+            >
+              <Text
+                style={[
+                  styles.rangeButtonText,
+                  analyticsRange === range && styles.rangeButtonTextActive,
+                ]}
+              >
+                {range === 30
+                  ? t('analytics.last30Days')
+                  : range === 90
+                    ? t('analytics.last90Days')
+                    : t('analytics.last180Days')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.summaryGrid}>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('coupons.couponDiscounts')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#EF4444' }]}>
+              {formatPrice(analytics.couponDiscountTotal)}
+            </Text>
+            <Text style={styles.summaryHint}>
+              {t('coupons.salesCount', { count: analytics.couponUseCount })}
+            </Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('coupons.manualDiscounts')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#F59E0B' }]}>
+              {formatPrice(analytics.manualDiscountTotal)}
+            </Text>
+            <Text style={styles.summaryHint}>
+              {t('coupons.salesCount', {
+                count: analytics.manualDiscountCount,
+              })}
+            </Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('coupons.discountedSales')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#3B82F6' }]}>
+              {discountedSales} / {analytics.totalSales}
+            </Text>
+            <Text style={styles.summaryHint}>
+              {t('coupons.ofAllSales', {
+                percent: discountedShare.toFixed(1),
+              })}
+            </Text>
+          </Card>
+        </View>
+
+        <Text style={styles.listTitle} weight="bold">
+          {t('coupons.byCoupon')}
+        </Text>
+        {analytics.coupons.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Ticket size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>{t('coupons.noAnalyticsData')}</Text>
+          </Card>
+        ) : (
+          analytics.coupons.map((row) => (
+            <Card key={row.coupon_id} style={styles.couponCard}>
+              <Text style={styles.couponCode} weight="bold">
+                {row.code}
+              </Text>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.couponMeta}>
+                  {t('coupons.uses', { count: row.use_count })}
+                </Text>
+                <Text style={styles.analyticsDiscount}>
+                  -{formatPrice(row.discount_given)}
+                </Text>
+              </View>
+              <View style={styles.analyticsRow}>
+                <Text style={styles.couponMeta}>{t('coupons.revenue')}</Text>
+                <Text style={styles.analyticsRevenue}>
+                  {formatPrice(row.revenue)}
+                </Text>
+              </View>
+            </Card>
+          ))
+        )}
+      </>
+    );
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('coupons.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.tabBar}>
+        {(['coupons', 'analytics'] as const).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.activeTab]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === tab && styles.activeTabText,
+              ]}
+            >
+              {tab === 'coupons' ? t('coupons.title') : t('coupons.analytics')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {activeTab === 'coupons' ? renderCouponList() : renderAnalytics()}
+      </ScrollView>
+
+      {/* Floating Action Button */}
+      {activeTab === 'coupons' && (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={handleAddNew}
+          activeOpacity={0.8}
+        >
+          <Plus size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
+
+      {/* Coupon Form Modal */}
+      <Modal
+        visible={showFormModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={resetCouponForm}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle} weight="bold">
+              {editingCoupon ? t('coupons.editCoupon') : t('coupons.addCoupon')}
+            </Text>
+            <TouchableOpacity
+              onPress={resetCouponForm}
+              style={styles.closeButton}
+            >
+              <X size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formSection}>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('coupons.code')} *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('coupons.codePlaceholder')}
+                  value={couponFormData.code}
+                  onChangeText={(text) =>
+                    setCouponFormData({
+                      ...couponFormData,
+                      code: text.toUpperCase(),
+                    })
+                  }
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>
+                  {t('coupons.description')}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('coupons.descriptionPlaceholder')}
+                  value={couponFormData.description}
+                  onChangeText={(text) =>
+                    setCouponFormData({ ...couponFormData, description: text })
+                  }
+                />
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>
+                  {t('coupons.discountType')}
+                </Text>
+                <View style={styles.chipRow}>
+                  {DISCOUNT_TYPES.map((type) => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.chip,
+                        couponFormData.discount_type === type &&
+                          styles.chipActive,
+                      ]}
+                      onPress={() =>
+                        setCouponFormData({
+                          ...couponFormData,
+                          discount_type: type,
+                        })
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          couponFormData.discount_type === type &&
+                            styles.chipTextActive,
+                        ]}
+                      >
+                        {t(`coupons.types.${type}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputRow}>
+                <View style={[styles.inputContainer, styles.inputHalf]}>
+                  <Text style={styles.inputLabel}>
+                    {couponFormData.discount_type === 'percent'
+                      ? t('coupons.discountPercent')
+                      : t('coupons.discountAmount')}{' '}
+                    *
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={
+                      couponFormData.discount_type === 'percent' ? '10' : '0'
+                    }
+                    value={couponFormData.discount_value}
+                    onChangeText={(text) =>
+                      setCouponFormData({
+                        ...couponFormData,
+                        discount_value: text,
+                      })
+                    }
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <View style={[styles.inputContainer, styles.inputHalf]}>
+                  <Text style={styles.inputLabel}>{t('coupons.minSpend')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="0"
+                    value={couponFormData.min_spend}
+                    onChangeText={(text) =>
+                      setCouponFormData({
+                        ...couponFormData,
+                        min_spend: text,
+                      })
+                    }
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('coupons.expiresOn')}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  value={couponFormData.expires_on}
+                  onChangeText={(text) =>
+                    setCouponFormData({
+                      ...couponFormData,
+                      expires_on: text.trim(),
+                    })
+                  }
+                />
+                <Text style={styles.inputHint}>{t('coupons.expiryHint')}</Text>
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.inputLabel}>{t('coupons.singleUse')}</Text>
+                <Switch
+                  value={couponFormData.single_use}
+                  onValueChange={(value) =>
+                    setCouponFormData({
+                      ...couponFormData,
+                      single_use: value,
+                    })
+                  }
+                  trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                />
+              </View>
+
+              {!couponFormData.single_use && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>{t('coupons.maxUses')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={t('coupons.unlimited')}
+                    value={couponFormData.max_uses}
+                    onChangeText={(text) =>
+                      setCouponFormData({
+                        ...couponFormData,
+                        max_uses: text,
+                      })
+                    }
+                    keyboardType="number-pad"
+                  />
+                  <Text style={styles.inputHint}>
+                    {t('coupons.maxUsesHint')}
+                  </Text>
+                </View>
+              )}
+
+              <View style={styles.switchRow}>
+                <Text style={styles.inputLabel}>{t('coupons.active')}</Text>
+                <Switch
+                  value={couponFormData.is_active}
+                  onValueChange={(value) =>
+                    setCouponFormData({
+                      ...couponFormData,
+                      is_active: value,
+                    })
+                  }
+                  trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                />
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Button
+              title={t('common.cancel')}
+              onPress={resetCouponForm}
+              variant="secondary"
+              style={styles.footerButton}
+            />
+            <Button
+              title={editingCoupon ? t('common.update') : t('common.add')}
+              onPress={handleCouponSubmit}
+              style={styles.footerButton}
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#059669',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  activeTabText: {
+    color: '#059669',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  listTitle: {
+    fontSize: 18,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  listCount: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  couponCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  couponContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  couponInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  couponTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  couponCode: {
+    fontSize: 16,
+    color: '#111827',
+    letterSpacing: 1,
+  },
+  unavailableBadge: {
+    backgroundColor: '#FEE2E2',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  unavailableBadgeText: {
+    fontSize: 11,
+    color: '#B91C1C',
+    fontWeight: '600',
+  },
+  couponRule: {
+    fontSize: 13,
+    color: '#059669',
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  couponMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  couponActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButton: {
+    backgroundColor: '#FEE2E2',
+  },
+  rangeSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  rangeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  rangeButtonActive: {
+    backgroundColor: '#059669',
+  },
+  rangeButtonText: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  rangeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 20,
+  },
+  summaryCard: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    padding: 16,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 6,
+  },
+  summaryValue: {
+    fontSize: 18,
+    color: '#111827',
+    fontWeight: '600',
+  },
+  summaryHint: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  analyticsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  analyticsDiscount: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+  analyticsRevenue: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#059669',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalTitle: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  formSection: {
+    gap: 20,
+    paddingBottom: 20,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  inputHint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#059669',
+    backgroundColor: '#ECFDF5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
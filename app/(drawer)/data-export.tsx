@@ -6,10 +6,19 @@ import {
   ScrollView,
   Alert,
   Modal,
+  Switch,
 } from 'react-native';
-import { FileText, Share, CheckCircle, HelpCircle } from 'lucide-react-native';
+import {
+  FileText,
+  Share,
+  CheckCircle,
+  HelpCircle,
+  Lock,
+  FileDiff,
+} from 'lucide-react-native';
 import DataManagementGuide from '@/components/DataManagementGuide';
 import { ExportPreviewModal } from '@/components/ExportPreviewModal';
+import { PassphraseModal } from '@/components/PassphraseModal';
 import { useTranslation } from '@/context/LocalizationContext';
 import { useToast } from '@/context/ToastContext';
 import { useDatabase } from '@/context/DatabaseContext';
@@ -20,6 +29,8 @@ import {
   ExportProgress,
   ExportPreview,
 } from '@/services/dataExportService';
+import { ExportHistoryService } from '@/services/exportHistoryService';
+import { ExportManifest } from '@/utils/exportChain';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
@@ -31,6 +42,7 @@ interface ExportOption {
   color: string;
   backgroundColor: string;
   dataType: 'all';
+  incremental?: boolean; // Only what changed since the last export
 }
 
 export default function DataExport() {
@@ -53,6 +65,9 @@ export default function DataExport() {
   const [isGeneratingPreview, setIsGeneratingPreview] = useState(false);
   const [pendingExportOption, setPendingExportOption] =
     useState<ExportOption | null>(null);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [showPassphraseModal, setShowPassphraseModal] = useState(false);
+  const [lastExport, setLastExport] = useState<ExportManifest | null>(null);
 
   // Get user-friendly display name for data types
   const getDataTypeDisplayName = (dataType: string): string => {
@@ -74,6 +89,10 @@ export default function DataExport() {
     }
   }, [db]);
 
+  React.useEffect(() => {
+    ExportHistoryService.getLastExport().then(setLastExport);
+  }, []);
+
   const exportOptions: ExportOption[] = [
     {
       id: 'exportAll',
@@ -84,6 +103,22 @@ export default function DataExport() {
       backgroundColor: '#F5F3FF',
       dataType: 'all',
     },
+    ...(lastExport
+      ? [
+          {
+            id: 'exportChanges',
+            title: t('dataExport.exportChanges'),
+            description: t('dataExport.exportChangesDesc', {
+              date: new Date(lastExport.until).toLocaleString(),
+            }),
+            icon: FileDiff,
+            color: '#0EA5E9',
+            backgroundColor: '#F0F9FF',
+            dataType: 'all' as const,
+            incremental: true,
+          },
+        ]
+      : []),
   ];
 
   const handleExport = async (option: ExportOption) => {
@@ -92,6 +127,17 @@ export default function DataExport() {
       return;
     }
 
+    if (option.incremental) {
+      // The preview counts every record, so go straight to the export
+      setPendingExportOption(option);
+      if (encryptExport) {
+        setShowPassphraseModal(true);
+      } else {
+        await runExport(undefined, option);
+      }
+      return;
+    }
+
     // Generate preview first
     setIsGeneratingPreview(true);
     setPendingExportOption(option);
@@ -109,12 +155,37 @@ export default function DataExport() {
   };
 
   const handleConfirmExport = async () => {
-    if (!exportService || !pendingExportOption) {
+    if (encryptExport) {
+      // Ask for the passphrase before the export starts
+      setShowExportPreview(false);
+      setShowPassphraseModal(true);
+      return;
+    }
+
+    await runExport();
+  };
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+    setShowPassphraseModal(false);
+    await runExport(passphrase);
+  };
+
+  const handleCancelPassphrase = () => {
+    setShowPassphraseModal(false);
+    setPendingExportOption(null);
+    setExportPreview(null);
+  };
+
+  const runExport = async (
+    passphrase?: string,
+    option: ExportOption | null = pendingExportOption,
+  ) => {
+    if (!exportService || !option) {
       return;
     }
 
     setShowExportPreview(false);
-    setIsExporting(pendingExportOption.id);
+    setIsExporting(option.id);
     // Initialize progress to show the modal
     setExportProgress({
       stage: 'Starting export...',
@@ -125,14 +196,23 @@ export default function DataExport() {
 
     try {
       console.log('Starting export process...');
-      const result = await exportService.exportAllData();
+      const result =
+        option.incremental && lastExport
+          ? await exportService.exportIncrementalData(lastExport, passphrase)
+          : await exportService.exportAllData(passphrase);
       console.log('Export completed:', result);
 
       if (result.success && result.fileUri) {
+        // The next incremental export continues from this one
+        if (result.manifest) {
+          await ExportHistoryService.saveLastExport(result.manifest);
+          setLastExport(result.manifest);
+        }
+
         // Generate enhanced user-friendly feedback message
-        const dataTypeName = getDataTypeDisplayName(
-          pendingExportOption.dataType,
-        );
+        const dataTypeName = option.incremental
+          ? option.title
+          : getDataTypeDisplayName(option.dataType);
         let feedbackMessage: string;
 
         if (result.emptyExport) {
@@ -149,7 +229,7 @@ export default function DataExport() {
           try {
             await exportService.shareExportFile(
               result.fileUri,
-              `Empty Export - ${pendingExportOption.title}`,
+              `Empty Export - ${option.title}`,
             );
           } catch (shareError) {
             console.error('Sharing empty export failed:', shareError);
@@ -169,7 +249,7 @@ export default function DataExport() {
           try {
             await exportService.shareExportFile(
               result.fileUri,
-              `Export ${pendingExportOption.title}`,
+              `Export ${option.title}`,
             );
             console.log('File sharing completed successfully');
             showToast(feedbackMessage, 'success');
@@ -190,7 +270,7 @@ export default function DataExport() {
     } catch (error) {
       console.error('Export error:', error);
       showToast(
-        `${t('dataExport.exportFailed')} ${pendingExportOption.title}: ${
+        `${t('dataExport.exportFailed')} ${option.title}: ${
           error instanceof Error ? error.message : 'Unknown error'
         }`,
         'error',
@@ -257,6 +337,26 @@ export default function DataExport() {
           </Text>
         </View>
 
+        {/* Encryption */}
+        <View style={styles.encryptionCard}>
+          <View style={styles.encryptionIcon}>
+            <Lock size={20} color="#8B5CF6" />
+          </View>
+          <View style={styles.encryptionInfo}>
+            <Text style={styles.encryptionTitle} weight="medium">
+              {t('dataExport.encryptExport')}
+            </Text>
+            <Text style={styles.encryptionDescription}>
+              {t('dataExport.encryptExportDesc')}
+            </Text>
+          </View>
+          <Switch
+            value={encryptExport}
+            onValueChange={setEncryptExport}
+            disabled={isExporting !== null}
+          />
+        </View>
+
         <View style={styles.exportList}>
           {exportOptions.map((option) => {
             const IconComponent = option.icon;
@@ -413,6 +513,14 @@ export default function DataExport() {
         </Modal>
       )}
 
+      {/* Passphrase Modal */}
+      <PassphraseModal
+        visible={showPassphraseModal}
+        mode="set"
+        onSubmit={handlePassphraseSubmit}
+        onClose={handleCancelPassphrase}
+      />
+
       {/* Export Preview Modal */}
       <ExportPreviewModal
         visible={showExportPreview}
@@ -513,6 +621,42 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  encryptionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  encryptionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#F5F3FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  encryptionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  encryptionTitle: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  encryptionDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
   exportOptionDisabled: {
     opacity: 0.6,
   },
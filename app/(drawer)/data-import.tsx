@@ -7,11 +7,14 @@ import {
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   FolderOpen,
   CheckCircle,
   HelpCircle,
   FileSearch,
+  FileSpreadsheet,
+  Link,
 } from 'lucide-react-native';
 import DataManagementGuide from '@/components/DataManagementGuide';
 import { useTranslation } from '@/context/LocalizationContext';
@@ -26,11 +29,25 @@ import {
   DataConflict,
   ConflictResolution,
   ConflictSummary,
+  SpreadsheetImportPreview,
 } from '@/services/dataImportService';
+import { ExportChainError } from '@/utils/exportChain';
+import {
+  CorruptedExportError,
+  PassphraseRequiredError,
+  WrongPassphraseError,
+} from '@/utils/exportEncryption';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
-import { readAsStringAsync } from 'expo-file-system/legacy';
 import { ConflictResolutionModal } from '@/components/ConflictResolutionModal';
+import { PassphraseModal } from '@/components/PassphraseModal';
+import { SpreadsheetMappingModal } from '@/components/SpreadsheetMappingModal';
+import {
+  ColumnMapping,
+  SpreadsheetEntity,
+  SpreadsheetTable,
+  mapSpreadsheetRows,
+} from '@/utils/spreadsheetImport';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 
 interface ImportOption {
@@ -47,6 +64,7 @@ export default function DataImport() {
   const { showToast } = useToast();
   const { db } = useDatabase();
   const { openDrawer } = useDrawer();
+  const queryClient = useQueryClient();
   const [isImporting, setIsImporting] = useState<string | null>(null);
   const [importProgress, setImportProgress] = useState<ImportProgress | null>(
     null,
@@ -64,6 +82,24 @@ export default function DataImport() {
     fileUri: string;
     option: ImportOption;
   } | null>(null);
+  // Encrypted file waiting for its passphrase
+  const [lockedImport, setLockedImport] = useState<{
+    fileUri: string;
+    option: ImportOption;
+    chainFileUris?: string[]; // Set when the file is part of a chain
+  } | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  // Spreadsheet waiting for its column mapping
+  const [spreadsheet, setSpreadsheet] = useState<{
+    table: SpreadsheetTable;
+    filename: string;
+    option: ImportOption;
+  } | null>(null);
+  const [pendingSpreadsheet, setPendingSpreadsheet] = useState<{
+    preview: SpreadsheetImportPreview;
+    option: ImportOption;
+  } | null>(null);
 
   // Get user-friendly display name for data types
   const getDataTypeDisplayName = (): string => {
@@ -92,6 +128,22 @@ export default function DataImport() {
       color: '#8B5CF6',
       backgroundColor: '#F5F3FF',
     },
+    {
+      id: 'spreadsheet',
+      title: t('dataImport.importSpreadsheet'),
+      description: t('dataImport.importSpreadsheetDesc'),
+      icon: FileSpreadsheet,
+      color: '#059669',
+      backgroundColor: '#ECFDF5',
+    },
+    {
+      id: 'export-chain',
+      title: t('dataImport.importChain'),
+      description: t('dataImport.importChainDesc'),
+      icon: Link,
+      color: '#0EA5E9',
+      backgroundColor: '#F0F9FF',
+    },
   ];
 
   const handleImport = async (option: ImportOption) => {
@@ -100,6 +152,15 @@ export default function DataImport() {
       return;
     }
 
+    if (option.id === 'spreadsheet') {
+      await handleSpreadsheetPick(option);
+      return;
+    }
+    if (option.id === 'export-chain') {
+      await handleChainPick(option);
+      return;
+    }
+
     try {
       const result = await DocumentPicker.getDocumentAsync({
         type: 'application/json',
@@ -108,10 +169,349 @@ export default function DataImport() {
 
       if (result.canceled) return;
 
-      // Validate the file first
-      const validation = await importService.validateImportFile(
-        result.assets[0].uri,
+      // A new file needs its own passphrase
+      importService.setPassphrase(undefined);
+      await processImportFile(result.assets[0].uri, option);
+    } catch (error) {
+      console.error('Import error:', error);
+      showToast(t('dataImport.importFailed'), 'error');
+    }
+  };
+
+  const handleSpreadsheetPick = async (option: ImportOption) => {
+    if (!importService) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: [
+          'text/csv',
+          'text/comma-separated-values',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'application/vnd.ms-excel',
+        ],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const table = await importService.readSpreadsheetFile(
+        asset.uri,
+        asset.name,
+      );
+      if (table.headers.length === 0 || table.rows.length === 0) {
+        Alert.alert(
+          t('dataImport.invalidFormat'),
+          t('spreadsheetImport.emptyFile'),
+        );
+        return;
+      }
+
+      setSpreadsheet({ table, filename: asset.name, option });
+    } catch (error) {
+      console.error('Spreadsheet read error:', error);
+      Alert.alert(
+        t('dataImport.invalidFormat'),
+        t('spreadsheetImport.readFailed'),
+      );
+    }
+  };
+
+  const handleChainPick = async (option: ImportOption) => {
+    if (!importService) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/json',
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) return;
+
+      importService.setPassphrase(undefined);
+      await processChainFiles(
+        result.assets.map((asset) => asset.uri),
+        option,
+      );
+    } catch (error) {
+      console.error('Import error:', error);
+      showToast(t('dataImport.importFailed'), 'error');
+    }
+  };
+
+  const processChainFiles = async (
+    fileUris: string[],
+    option: ImportOption,
+  ) => {
+    if (!importService) return;
+
+    let increments: number;
+    try {
+      // Check the chain before asking, so nothing is written for a chain
+      // with a missing file
+      const chain = await importService.readExportChain(fileUris);
+      increments = chain.length - 1;
+    } catch (error) {
+      if (
+        error instanceof PassphraseRequiredError ||
+        error instanceof WrongPassphraseError
+      ) {
+        setLockedImport({
+          fileUri: fileUris[0],
+          option,
+          chainFileUris: fileUris,
+        });
+        setPassphraseError(
+          error instanceof WrongPassphraseError
+            ? t('passphrase.wrongPassphrase')
+            : null,
+        );
+        return;
+      }
+      setLockedImport(null);
+      setPassphraseError(null);
+
+      if (error instanceof ExportChainError) {
+        showChainError(error);
+      } else if (error instanceof CorruptedExportError) {
+        Alert.alert(
+          t('dataImport.corruptedFile'),
+          t('dataImport.corruptedFileDesc'),
+        );
+      } else {
+        console.error('Chain read error:', error);
+        Alert.alert(
+          t('dataImport.invalidFormat'),
+          t('dataImport.chainReadFailed'),
+        );
+      }
+      return;
+    }
+    setLockedImport(null);
+    setPassphraseError(null);
+
+    Alert.alert(
+      t('dataImport.confirmImport'),
+      `${t('dataImport.confirmChainImport', { count: increments })} ${t(
+        'dataImport.existingDataWarning',
+      )}`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('dataImport.import'),
+          onPress: async () => {
+            await performChainImport(fileUris, option);
+          },
+        },
+      ],
+    );
+  };
+
+  const showChainError = (error: ExportChainError) => {
+    Alert.alert(
+      t('dataImport.chainInvalid'),
+      t(`dataImport.chainErrors.${error.code}`, {
+        number: error.sequence ?? 0,
+      }),
+    );
+  };
+
+  const performChainImport = async (
+    fileUris: string[],
+    option: ImportOption,
+  ) => {
+    if (!importService) return;
+
+    setIsImporting(option.id);
+    setImportProgress(null);
+
+    try {
+      const result = await importService.importExportChain(fileUris);
+      await queryClient.invalidateQueries();
+
+      showToast(
+        t('dataImport.chainImportComplete', {
+          imported: result.imported,
+          updated: result.updated,
+          deleted: result.deleted ?? 0,
+        }),
+        'success',
       );
+    } catch (error) {
+      if (error instanceof ExportChainError) {
+        showChainError(error);
+        return;
+      }
+
+      console.error('Chain import error:', error);
+      showToast(
+        `${t('dataImport.importFailed')}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        'error',
+      );
+    } finally {
+      setIsImporting(null);
+      setImportProgress(null);
+    }
+  };
+
+  const handleMappingConfirm = async (
+    recordType: SpreadsheetEntity,
+    mapping: ColumnMapping,
+  ) => {
+    if (!importService || !spreadsheet) return;
+
+    const { table, option } = spreadsheet;
+    setSpreadsheet(null);
+
+    try {
+      // Dry run: validate every row and match existing records
+      const preview = await importService.previewSpreadsheetImport(
+        recordType,
+        mapSpreadsheetRows(table, mapping, recordType),
+      );
+
+      if (preview.conflicts.length > 0) {
+        setConflicts(preview.conflicts);
+        setConflictSummary(preview.conflictSummary);
+        setPendingSpreadsheet({ preview, option });
+        setShowConflictModal(true);
+        return;
+      }
+
+      Alert.alert(
+        t('dataImport.confirmImport'),
+        t('spreadsheetImport.confirmNew', {
+          count: preview.newCount,
+          type: t(`spreadsheetImport.entities.${recordType}`),
+        }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('dataImport.import'),
+            onPress: async () => {
+              await performSpreadsheetImport(preview, option, 'update');
+            },
+          },
+        ],
+      );
+    } catch (error) {
+      console.error('Spreadsheet preview error:', error);
+      showToast(
+        `${t('dataImport.importFailed')}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        'error',
+      );
+    }
+  };
+
+  const performSpreadsheetImport = async (
+    preview: SpreadsheetImportPreview,
+    option: ImportOption,
+    conflictResolution: ImportOptions['conflictResolution'],
+  ) => {
+    if (!importService) return;
+
+    setIsImporting(option.id);
+    setImportProgress(null);
+
+    try {
+      const result = await importService.importSpreadsheetRecords(preview, {
+        batchSize: 25,
+        conflictResolution,
+      });
+      await queryClient.invalidateQueries();
+
+      showToast(
+        t('spreadsheetImport.importComplete', {
+          imported: result.imported,
+          updated: result.updated,
+          skipped: result.skipped,
+        }),
+        'success',
+      );
+
+      if (result.errors.length > 0) {
+        Alert.alert(
+          t('dataImport.importCompleteWithErrors'),
+          result.errors
+            .slice(0, 10)
+            .map((e) => e.message)
+            .join('\n'),
+          [{ text: t('common.ok'), style: 'default' }],
+        );
+      }
+    } catch (error) {
+      console.error('Spreadsheet import error:', error);
+      showToast(
+        `${t('dataImport.importFailed')}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        'error',
+      );
+    } finally {
+      setIsImporting(null);
+      setImportProgress(null);
+    }
+  };
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+    if (!importService || !lockedImport) return;
+
+    importService.setPassphrase(passphrase);
+    setUnlocking(true);
+    try {
+      if (lockedImport.chainFileUris) {
+        await processChainFiles(
+          lockedImport.chainFileUris,
+          lockedImport.option,
+        );
+      } else {
+        await processImportFile(lockedImport.fileUri, lockedImport.option);
+      }
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleCancelPassphrase = () => {
+    importService?.setPassphrase(undefined);
+    setLockedImport(null);
+    setPassphraseError(null);
+  };
+
+  const processImportFile = async (fileUri: string, option: ImportOption) => {
+    if (!importService) return;
+
+    try {
+      // Validate the file first
+      const validation = await importService.validateImportFile(fileUri);
+      const fileErrorCode = validation.errors[0]?.code;
+      if (
+        fileErrorCode === 'PASSPHRASE_REQUIRED' ||
+        fileErrorCode === 'WRONG_PASSPHRASE'
+      ) {
+        setLockedImport({ fileUri, option });
+        setPassphraseError(
+          fileErrorCode === 'WRONG_PASSPHRASE'
+            ? t('passphrase.wrongPassphrase')
+            : null,
+        );
+        return;
+      }
+      setLockedImport(null);
+      setPassphraseError(null);
+
+      if (fileErrorCode === 'CORRUPTED_FILE') {
+        Alert.alert(
+          t('dataImport.corruptedFile'),
+          t('dataImport.corruptedFileDesc'),
+        );
+        return;
+      }
       if (!validation.isValid) {
         const errorMessages = validation.errors
           .map((e) => e.message)
@@ -121,7 +521,7 @@ export default function DataImport() {
       }
 
       // Check if the file contains the selected data type
-      const fileContent = await readAsStringAsync(result.assets[0].uri);
+      const fileContent = await importService.readImportFile(fileUri);
       const importData = JSON.parse(fileContent);
       const dataTypeValidation =
         importService.validateDataTypeAvailability(importData);
@@ -148,15 +548,13 @@ export default function DataImport() {
       }
 
       // Preview the import data
-      const preview = await importService.previewImportData(
-        result.assets[0].uri,
-      );
+      const preview = await importService.previewImportData(fileUri);
 
       // Check for conflicts
       if (preview.conflicts.length > 0) {
         setConflicts(preview.conflicts);
         setConflictSummary(preview.conflictSummary);
-        setPendingImport({ fileUri: result.assets[0].uri, option });
+        setPendingImport({ fileUri, option });
         setShowConflictModal(true);
         return;
       }
@@ -176,7 +574,7 @@ export default function DataImport() {
           {
             text: t('dataImport.import'),
             onPress: async () => {
-              await performImport(result.assets[0].uri, option);
+              await performImport(fileUri, option);
             },
           },
         ],
@@ -317,6 +715,17 @@ export default function DataImport() {
     setConflicts([]);
     setConflictSummary(undefined);
 
+    if (pendingSpreadsheet) {
+      const { preview, option } = pendingSpreadsheet;
+      setPendingSpreadsheet(null);
+      await performSpreadsheetImport(
+        preview,
+        option,
+        resolution.action === 'update' ? 'update' : 'skip',
+      );
+      return;
+    }
+
     // Continue with the import using the resolved conflicts
     if (pendingImport) {
       const actionMessage =
@@ -633,9 +1042,29 @@ export default function DataImport() {
           setConflicts([]);
           setConflictSummary(undefined);
           setPendingImport(null);
+          setPendingSpreadsheet(null);
         }}
       />
 
+      {/* Spreadsheet Column Mapping */}
+      <SpreadsheetMappingModal
+        visible={spreadsheet !== null}
+        table={spreadsheet?.table ?? null}
+        filename={spreadsheet?.filename}
+        onConfirm={handleMappingConfirm}
+        onCancel={() => setSpreadsheet(null)}
+      />
+
+      {/* Passphrase for encrypted files */}
+      <PassphraseModal
+        visible={lockedImport !== null}
+        mode="enter"
+        error={passphraseError}
+        busy={unlocking}
+        onSubmit={handlePassphraseSubmit}
+        onClose={handleCancelPassphrase}
+      />
+
       {/* Data Management Guide */}
       <DataManagementGuide
         visible={showGuide}
@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { useStaff } from '@/context/StaffContext';
+import {
+  useCategories,
+  useInventoryValuation,
+  useCostingMethodMutation,
+} from '@/hooks/useQueries';
+import { CostingMethod, InventoryValuationItem } from '@/services/database';
+import { Layers } from 'lucide-react-native';
+
+const COSTING_METHODS: CostingMethod[] = ['weighted_average', 'fifo'];
+
+/**
+ * Inventory valuation report
+ *
+ * Features:
+ * - Stock on hand valued under the selected costing method
+ * - Per-product quantity, unit cost and value, filterable by category
+ * - Staff who manage settings can switch between weighted average and FIFO
+ */
+export default function InventoryValuationPage() {
+  const { t } = useTranslation();
+  const { openDrawer } = useDrawer();
+  const { formatPrice } = useCurrencyFormatter();
+  const { showToast } = useToast();
+  const { can } = useStaff();
+
+  const [categoryFilter, setCategoryFilter] = useState('All');
+
+  const { data: categories = [] } = useCategories();
+  const {
+    data: valuation,
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useInventoryValuation(categoryFilter);
+  const changeCostingMethod = useCostingMethodMutation();
+
+  const canChangeMethod = can('settings.manage');
+
+  const handleSelectMethod = (method: CostingMethod) => {
+    if (!valuation || method === valuation.method) return;
+
+    Alert.alert(
+      t('inventoryValuation.changeMethod'),
+      t('inventoryValuation.changeMethodConfirm', {
+        method: t(`inventoryValuation.methods.${method}`),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.confirm'),
+          onPress: async () => {
+            try {
+              await changeCostingMethod.mutateAsync(method);
+              showToast(t('inventoryValuation.methodChanged'), 'success');
+            } catch (error) {
+              console.error('Error changing costing method:', error);
+              Alert.alert(
+                t('common.error'),
+                t('inventoryValuation.failedToChangeMethod'),
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderItem = ({ item }: { item: InventoryValuationItem }) => (
+    <Card style={styles.itemCard}>
+      <View style={styles.itemRow}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} weight="medium" numberOfLines={1}>
+            {item.product_name}
+          </Text>
+          <Text style={styles.itemMeta}>
+            {t('inventoryValuation.quantityAtCost', {
+              quantity: item.quantity,
+              cost: formatPrice(item.unit_cost),
+            })}
+            {item.category_name ? ` • ${item.category_name}` : ''}
+          </Text>
+        </View>
+        <Text style={styles.itemValue} weight="bold">
+          {formatPrice(item.value)}
+        </Text>
+      </View>
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('inventoryValuation.title')}
+        </Text>
+      </View>
+
+      <View style={styles.filters}>
+        <View style={styles.methodRow}>
+          {COSTING_METHODS.map((method) => {
+            const selected = valuation?.method === method;
+            return (
+              <TouchableOpacity
+                key={method}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => handleSelectMethod(method)}
+                disabled={!canChangeMethod || changeCostingMethod.isPending}
+              >
+                <Text
+                  style={[styles.chipText, selected && styles.chipTextSelected]}
+                >
+                  {t(`inventoryValuation.methods.${method}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {[{ id: 'All', name: t('common.all') }, ...categories].map(
+            (category) => (
+              <TouchableOpacity
+                key={category.id}
+                style={[
+                  styles.chip,
+                  categoryFilter === category.id && styles.chipSelected,
+                ]}
+                onPress={() => setCategoryFilter(category.id)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    categoryFilter === category.id && styles.chipTextSelected,
+                  ]}
+                >
+                  {category.name}
+                </Text>
+              </TouchableOpacity>
+            ),
+          )}
+        </ScrollView>
+      </View>
+
+      {isLoading || !valuation ? (
+        <LoadingSpinner />
+      ) : (
+        <FlatList
+          data={valuation.items}
+          keyExtractor={(item) => item.product_id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              colors={['#059669']}
+              tintColor={'#059669'}
+            />
+          }
+          ListHeaderComponent={
+            <Card style={styles.summaryCard}>
+              <Text style={styles.summaryLabel}>
+                {t('inventoryValuation.totalValue')}
+              </Text>
+              <Text style={styles.summaryValue} weight="bold">
+                {formatPrice(valuation.totalValue)}
+              </Text>
+              <Text style={styles.summaryMeta}>
+                {t('inventoryValuation.unitsInStock', {
+                  quantity: valuation.totalQuantity,
+                  products: valuation.items.length,
+                })}
+              </Text>
+              <Text style={styles.methodHint}>
+                {t(`inventoryValuation.methodHints.${valuation.method}`)}
+              </Text>
+            </Card>
+          }
+          ListEmptyComponent={
+            <Card style={styles.emptyCard}>
+              <Layers size={48} color="#D1D5DB" />
+              <Text style={styles.emptyText}>
+                {t('inventoryValuation.noStock')}
+              </Text>
+            </Card>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  filters: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#059669',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  listContent: {
+    padding: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  summaryValue: {
+    fontSize: 28,
+    color: '#059669',
+    marginTop: 4,
+  },
+  summaryMeta: {
+    fontSize: 13,
+    color: '#374151',
+    marginTop: 4,
+  },
+  methodHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  itemCard: {
+    padding: 12,
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  itemValue: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Switch } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import {
+  useCustomerSegmentation,
+  useLoyaltySettings,
+  useLoyaltySettingsMutation,
+  useLoyaltyTotals,
+} from '@/hooks/useQueries';
+import {
+  LoyaltySettings,
+  LoyaltyTier,
+  getLoyaltyTier,
+} from '@/utils/loyaltyUtils';
+
+const TIERS: LoyaltyTier[] = ['bronze', 'silver', 'gold'];
+
+interface LoyaltyFormData {
+  enabled: boolean;
+  earnRate: string;
+  pointValue: string;
+  expiryDays: string;
+  tierMultipliers: Record<LoyaltyTier, string>;
+}
+
+const toFormData = (settings: LoyaltySettings): LoyaltyFormData => ({
+  enabled: settings.enabled,
+  earnRate: settings.earnRate.toString(),
+  pointValue: settings.pointValue.toString(),
+  expiryDays: settings.expiryDays.toString(),
+  tierMultipliers: {
+    bronze: settings.tierMultipliers.bronze.toString(),
+    silver: settings.tierMultipliers.silver.toString(),
+    gold: settings.tierMultipliers.gold.toString(),
+  },
+});
+
+/**
+ * Loyalty Page
+ * Set up the points program customers earn into at checkout
+ *
+ * Features:
+ * - Earn rate per currency unit and the value of a point when redeemed
+ * - Points expiry
+ * - Earn multiplier per tier; tiers follow the customer segments
+ * - Members and points issued and redeemed so far
+ */
+export default function Loyalty() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const { data: settings, isLoading } = useLoyaltySettings();
+  const { data: totals } = useLoyaltyTotals();
+  const { data: segmentation } = useCustomerSegmentation();
+  const updateSettings = useLoyaltySettingsMutation();
+
+  const [formData, setFormData] = useState<LoyaltyFormData | null>(null);
+
+  useEffect(() => {
+    if (settings) {
+      setFormData(toFormData(settings));
+    }
+  }, [settings]);
+
+  const tierCounts = TIERS.reduce(
+    (counts, tier) => ({ ...counts, [tier]: 0 }),
+    {} as Record<LoyaltyTier, number>,
+  );
+  segmentation?.segments.forEach((segment) => {
+    tierCounts[getLoyaltyTier(segment.segment)] += segment.count;
+  });
+
+  const handleSave = async () => {
+    if (!formData) return;
+
+    const earnRate = parseFloat(formData.earnRate);
+    const pointValue = parseFloat(formData.pointValue);
+    const expiryDays = formData.expiryDays
+      ? parseInt(formData.expiryDays, 10)
+      : 0;
+    const multipliers = TIERS.map((tier) =>
+      parseFloat(formData.tierMultipliers[tier]),
+    );
+
+    if (!(earnRate > 0)) {
+      Alert.alert(t('common.error'), t('loyalty.invalidEarnRate'));
+      return;
+    }
+    if (!(pointValue > 0)) {
+      Alert.alert(t('common.error'), t('loyalty.invalidPointValue'));
+      return;
+    }
+    if (!(expiryDays >= 0)) {
+      Alert.alert(t('common.error'), t('loyalty.invalidExpiry'));
+      return;
+    }
+    if (multipliers.some((multiplier) => !(multiplier > 0))) {
+      Alert.alert(t('common.error'), t('loyalty.invalidMultiplier'));
+      return;
+    }
+
+    try {
+      await updateSettings.mutateAsync({
+        enabled: formData.enabled,
+        earnRate,
+        pointValue,
+        expiryDays,
+        tierMultipliers: {
+          bronze: multipliers[0],
+          silver: multipliers[1],
+          gold: multipliers[2],
+        },
+      });
+      showToast(t('loyalty.settingsSaved'), 'success');
+    } catch (error) {
+      console.error('Error saving loyalty settings:', error);
+      Alert.alert(t('common.error'), t('loyalty.failedToSave'));
+    }
+  };
+
+  if (isLoading || !formData) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('loyalty.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.summaryGrid}>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>{t('loyalty.members')}</Text>
+            <Text style={styles.summaryValue}>{totals?.members || 0}</Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>{t('loyalty.pointsIssued')}</Text>
+            <Text style={[styles.summaryValue, { color: '#059669' }]}>
+              {totals?.pointsEarned || 0}
+            </Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('loyalty.pointsRedeemed')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#EF4444' }]}>
+              {totals?.pointsRedeemed || 0}
+            </Text>
+          </Card>
+        </View>
+
+        <Card style={styles.sectionCard}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.inputLabel}>{t('loyalty.enabled')}</Text>
+              <Text style={styles.inputHint}>{t('loyalty.enabledHint')}</Text>
+            </View>
+            <Switch
+              value={formData.enabled}
+              onValueChange={(value) =>
+                setFormData({ ...formData, enabled: value })
+              }
+              trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+            />
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={[styles.inputContainer, styles.inputHalf]}>
+              <Text style={styles.inputLabel}>{t('loyalty.earnRate')}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.01"
+                value={formData.earnRate}
+                onChangeText={(text) =>
+                  setFormData({ ...formData, earnRate: text })
+                }
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={[styles.inputContainer, styles.inputHalf]}>
+              <Text style={styles.inputLabel}>{t('loyalty.pointValue')}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="1"
+                value={formData.pointValue}
+                onChangeText={(text) =>
+                  setFormData({ ...formData, pointValue: text })
+                }
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+          {parseFloat(formData.earnRate) > 0 &&
+            parseFloat(formData.pointValue) > 0 && (
+              <Text style={styles.inputHint}>
+                {t('loyalty.rateExample', {
+                  spend: formatPrice(1 / parseFloat(formData.earnRate)),
+                  value: formatPrice(parseFloat(formData.pointValue)),
+                })}
+              </Text>
+            )}
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('loyalty.expiryDays')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="365"
+              value={formData.expiryDays}
+              onChangeText={(text) =>
+                setFormData({ ...formData, expiryDays: text })
+              }
+              keyboardType="number-pad"
+            />
+            <Text style={styles.inputHint}>{t('loyalty.expiryHint')}</Text>
+          </View>
+        </Card>
+
+        <Text style={styles.listTitle} weight="bold">
+          {t('loyalty.tiersTitle')}
+        </Text>
+        <Text style={styles.listHint}>{t('loyalty.tiersHint')}</Text>
+        {TIERS.map((tier) => (
+          <Card key={tier} style={styles.tierCard}>
+            <View style={styles.tierInfo}>
+              <Text style={styles.tierName} weight="bold">
+                {t(`loyalty.tiers.${tier}`)}
+              </Text>
+              <Text style={styles.inputHint}>
+                {t(`loyalty.tierRules.${tier}`)}
+              </Text>
+              <Text style={styles.inputHint}>
+                {t('loyalty.customerCount', { count: tierCounts[tier] })}
+              </Text>
+            </View>
+            <View style={styles.multiplierInput}>
+              <Text style={styles.inputHint}>{t('loyalty.multiplier')}</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.tierMultipliers[tier]}
+                onChangeText={(text) =>
+                  setFormData({
+                    ...formData,
+                    tierMultipliers: {
+                      ...formData.tierMultipliers,
+                      [tier]: text,
+                    },
+                  })
+                }
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </Card>
+        ))}
+
+        <Button
+          title={t('common.save')}
+          onPress={handleSave}
+          disabled={updateSettings.isPending}
+          style={styles.saveButton}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flexBasis: '30%',
+    flexGrow: 1,
+    padding: 16,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 6,
+  },
+  summaryValue: {
+    fontSize: 18,
+    color: '#111827',
+    fontWeight: '600',
+  },
+  sectionCard: {
+    gap: 16,
+    marginBottom: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    gap: 4,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  inputHint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  listTitle: {
+    fontSize: 18,
+    color: '#111827',
+  },
+  listHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  tierCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  tierInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  tierName: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  multiplierInput: {
+    width: 96,
+    gap: 4,
+  },
+  saveButton: {
+    marginTop: 8,
+    marginBottom: 32,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   StyleSheet,
@@ -20,10 +20,19 @@ import {
   useBulkPricing,
   useBasicSuppliers,
   useInfiniteStockMovements,
+  useProductVariants,
+  useVariantSalesRollup,
 } from '@/hooks/useQueries';
 import { useToast } from '@/context/ToastContext';
 import { useDatabase } from '@/context/DatabaseContext';
+import { useStaff } from '@/context/StaffContext';
+import { VariantFormModal } from '@/components/VariantFormModal';
 import { Product, Sale } from '@/services/database';
+import {
+  formatVariantLabel,
+  parseVariantAttributes,
+  parseVariantOptions,
+} from '@/utils/productVariants';
 import {
   ArrowLeft,
   Package,
@@ -34,6 +43,9 @@ import {
   FileText,
   TrendingUp,
   Receipt,
+  Layers,
+  Plus,
+  ChevronRight,
 } from 'lucide-react-native';
 
 type TabType = 'info' | 'movement' | 'sales';
@@ -49,8 +61,11 @@ export default function ProductDetail() {
   const { formatPrice } = useCurrencyFormatter();
   const { showToast } = useToast();
   const { db, isReady } = useDatabase();
+  const { can } = useStaff();
 
   const [product, setProduct] = useState<Product | null>(null);
+  const [parentProduct, setParentProduct] = useState<Product | null>(null);
+  const [showVariantForm, setShowVariantForm] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [showActionsMenu, setShowActionsMenu] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('info');
@@ -59,24 +74,28 @@ export default function ProductDetail() {
   const { data: suppliers = [] } = useBasicSuppliers();
   const { deleteProduct } = useProductMutations();
 
-  // Load product data
-  useEffect(() => {
-    if (!isReady || !db || !id) return;
+  // Load product data, and the parent product when this is a variant
+  const loadProduct = async () => {
+    if (!db || !id) return;
 
-    const loadProduct = async () => {
-      try {
-        setIsLoading(true);
-        const products = await db.getProducts();
-        const foundProduct = products.find((p) => p.id === id);
-        setProduct(foundProduct || null);
-      } catch (error) {
-        console.error('Error loading product:', error);
-        showToast(t('common.error'), 'error');
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    try {
+      setIsLoading(true);
+      const products = await db.getProducts();
+      const foundProduct = products.find((p) => p.id === id);
+      setProduct(foundProduct || null);
+      setParentProduct(
+        products.find((p) => p.id === foundProduct?.parent_id) || null,
+      );
+    } catch (error) {
+      console.error('Error loading product:', error);
+      showToast(t('common.error'), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  useEffect(() => {
+    if (!isReady || !db || !id) return;
     loadProduct();
   }, [id, isReady, db]);
 
@@ -88,6 +107,13 @@ export default function ProductDetail() {
 
   const handleEdit = () => {
     setShowActionsMenu(false);
+
+    // Variants are edited in place; their name and category follow the parent
+    if (parentProduct) {
+      setShowVariantForm(true);
+      return;
+    }
+
     router.push({
       pathname: '/(drawer)/product-form' as any,
       params: { id, mode: 'edit' },
@@ -161,17 +187,21 @@ export default function ProductDetail() {
               <Text style={styles.actionsMenuItemText}>{t('common.edit')}</Text>
             </TouchableOpacity>
 
-            <View style={styles.actionsMenuDivider} />
+            {can('products.delete') && (
+              <>
+                <View style={styles.actionsMenuDivider} />
 
-            <TouchableOpacity
-              style={styles.actionsMenuItem}
-              onPress={handleDelete}
-            >
-              <Trash2 size={18} color="#EF4444" />
-              <Text style={[styles.actionsMenuItemText, styles.deleteText]}>
-                {t('common.delete')}
-              </Text>
-            </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionsMenuItem}
+                  onPress={handleDelete}
+                >
+                  <Trash2 size={18} color="#EF4444" />
+                  <Text style={[styles.actionsMenuItemText, styles.deleteText]}>
+                    {t('common.delete')}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
         )}
       </View>
@@ -244,6 +274,7 @@ export default function ProductDetail() {
           suppliers={suppliers}
           formatPrice={formatPrice}
           getSupplierName={getSupplierName}
+          onVariantsChanged={loadProduct}
           t={t}
         />
       ) : activeTab === 'movement' ? (
@@ -251,6 +282,18 @@ export default function ProductDetail() {
       ) : (
         <SalesTab productId={id!} />
       )}
+
+      {parentProduct && (
+        <VariantFormModal
+          visible={showVariantForm}
+          parent={parentProduct}
+          variant={product}
+          onClose={() => {
+            setShowVariantForm(false);
+            loadProduct();
+          }}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -262,13 +305,27 @@ function InfoTab({
   suppliers,
   formatPrice,
   getSupplierName,
+  onVariantsChanged,
   t,
 }: any) {
+  // A parent's stock is the combined stock of its variants
+  const { data: variants = [] } = useProductVariants(
+    product && !product.parent_id ? product.id : '',
+  );
+
   if (!product) return null;
 
   const profit = product.price - product.cost;
   const profitMargin = ((profit / product.price) * 100).toFixed(1);
-  const isLowStock = product.quantity <= product.min_stock;
+  const quantity =
+    variants.length > 0
+      ? variants.reduce((sum: number, v: Product) => sum + v.quantity, 0)
+      : product.quantity;
+  const minStock =
+    variants.length > 0
+      ? variants.reduce((sum: number, v: Product) => sum + v.min_stock, 0)
+      : product.min_stock;
+  const isLowStock = quantity <= minStock;
 
   return (
     <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -340,13 +397,13 @@ function InfoTab({
               style={[styles.stockValue, isLowStock && styles.lowStockText]}
               weight="bold"
             >
-              {product.quantity}
+              {quantity}
             </Text>
           </View>
           <View style={styles.stockItem}>
             <Text style={styles.stockLabel}>{t('products.minStock')}</Text>
             <Text style={styles.stockValue} weight="bold">
-              {product.min_stock}
+              {minStock}
             </Text>
           </View>
         </View>
@@ -359,6 +416,15 @@ function InfoTab({
         )}
       </Card>
 
+      {/* Variants */}
+      {!product.parent_id && (
+        <VariantsCard
+          product={product}
+          variants={variants}
+          onVariantsChanged={onVariantsChanged}
+        />
+      )}
+
       {/* Supplier Info */}
       {product.supplier_id && (
         <Card style={styles.card}>
@@ -405,6 +471,123 @@ function InfoTab({
   );
 }
 
+// Variants Card Component
+function VariantsCard({
+  product,
+  variants,
+  onVariantsChanged,
+}: {
+  product: Product;
+  variants: Product[];
+  onVariantsChanged: () => void;
+}) {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const [showForm, setShowForm] = useState(false);
+
+  // Sales of the last 30 days, per variant and in total
+  const [startDate, endDate] = useMemo(() => {
+    const end = new Date();
+    return [new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000), end];
+  }, []);
+  const { data: rollups = [] } = useVariantSalesRollup(
+    startDate,
+    endDate,
+    product.id,
+  );
+  const rollup = rollups[0];
+
+  const attributes = parseVariantAttributes(product);
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.variantsHeader}>
+        <View style={styles.cardHeader}>
+          <Layers size={20} color="#059669" />
+          <Text style={styles.cardTitle} weight="bold">
+            {t('variants.title')}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.addVariantButton}
+          onPress={() => setShowForm(true)}
+        >
+          <Plus size={16} color="#059669" />
+          <Text style={styles.addVariantText} weight="medium">
+            {t('variants.addVariant')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {variants.length === 0 ? (
+        <Text style={styles.variantsHint}>{t('variants.noVariantsHint')}</Text>
+      ) : (
+        <>
+          {variants.map((variant) => {
+            const sales = rollup?.variants.find(
+              (item) => item.product_id === variant.id,
+            );
+            return (
+              <TouchableOpacity
+                key={variant.id}
+                style={styles.variantRow}
+                onPress={() =>
+                  router.push(
+                    `/(drawer)/product-detail?id=${variant.id}` as any,
+                  )
+                }
+              >
+                <View style={styles.variantInfo}>
+                  <Text style={styles.variantLabel} weight="medium">
+                    {formatVariantLabel(
+                      parseVariantOptions(variant),
+                      attributes,
+                    )}
+                  </Text>
+                  <Text style={styles.variantMeta}>
+                    {formatPrice(variant.price)} •{' '}
+                    {t('variants.inStock', { quantity: variant.quantity })}
+                    {variant.barcode ? ` • ${variant.barcode}` : ''}
+                  </Text>
+                  <Text style={styles.variantMeta}>
+                    {t('variants.soldLast30Days', {
+                      quantity: sales?.quantity || 0,
+                      revenue: formatPrice(sales?.revenue || 0),
+                    })}
+                  </Text>
+                </View>
+                <ChevronRight size={18} color="#9CA3AF" />
+              </TouchableOpacity>
+            );
+          })}
+          <View style={styles.variantsTotal}>
+            <Text style={styles.variantsTotalLabel} weight="medium">
+              {t('variants.totalLast30Days')}
+            </Text>
+            <Text style={styles.variantsTotalValue} weight="bold">
+              {t('variants.totalSold', {
+                quantity: rollup?.quantity || 0,
+                revenue: formatPrice(rollup?.revenue || 0),
+                profit: formatPrice(rollup?.profit || 0),
+              })}
+            </Text>
+          </View>
+        </>
+      )}
+
+      <VariantFormModal
+        visible={showForm}
+        parent={product}
+        onClose={() => {
+          setShowForm(false);
+          onVariantsChanged();
+        }}
+      />
+    </Card>
+  );
+}
+
 // Movement Tab Component
 function MovementTab({ productId }: { productId: string }) {
   const router = useRouter();
@@ -715,6 +898,61 @@ function SalesTab({ productId }: { productId: string }) {
 }
 
 const styles = StyleSheet.create({
+  variantsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  addVariantButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+  },
+  addVariantText: {
+    fontSize: 13,
+    color: '#059669',
+  },
+  variantsHint: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 8,
+  },
+  variantInfo: {
+    flex: 1,
+  },
+  variantLabel: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  variantMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  variantsTotal: {
+    paddingTop: 10,
+  },
+  variantsTotalLabel: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  variantsTotalValue: {
+    fontSize: 14,
+    color: '#059669',
+    marginTop: 2,
+  },
   container: {
     flex: 1,
     backgroundColor: '#F9FAFB',
@@ -24,6 +24,8 @@ import {
   useBasicSuppliers,
   useProductMutations,
   useBulkPricing,
+  useTaxRates,
+  useProductVariants,
 } from '@/hooks/useQueries';
 import { useToast } from '@/context/ToastContext';
 import { useDatabase } from '@/context/DatabaseContext';
@@ -33,6 +35,7 @@ import {
   Camera,
   Image as ImageIcon,
   Scan,
+  Barcode,
   Package,
   X,
   ChevronDown,
@@ -41,6 +44,7 @@ import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
 import { documentDirectory } from 'expo-file-system/legacy';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
+import { TaxRateSelector } from '@/components/TaxRateSelector';
 
 /**
  * Product Form Page
@@ -67,6 +71,7 @@ export default function ProductForm() {
 
   const { data: categories = [] } = useCategories();
   const { data: suppliers = [] } = useBasicSuppliers();
+  const { data: taxRates = [] } = useTaxRates();
   const { data: editingProductBulkPricing = [] } = useBulkPricing(id || '');
   const { addProduct, updateProduct, updateProductWithBulkPricing } =
     useProductMutations();
@@ -81,6 +86,7 @@ export default function ProductForm() {
     min_stock: '10',
     supplier_id: '',
     imageUrl: '',
+    tax_rate_id: null as string | null,
   });
 
   const [numericValues, setNumericValues] = useState({
@@ -88,6 +94,12 @@ export default function ProductForm() {
     cost: 0,
   });
 
+  // A product with variants keeps its stock in the variants
+  const { data: variants = [] } = useProductVariants(
+    isEditMode && id ? id : '',
+  );
+  const hasVariants = variants.length > 0;
+
   const [bulkPricingTiers, setBulkPricingTiers] = useState<
     Array<{ min_quantity: number; bulk_price: number }>
   >([]);
@@ -114,6 +126,7 @@ export default function ProductForm() {
             min_stock: foundProduct.min_stock?.toString() || '10',
             supplier_id: foundProduct.supplier_id || '',
             imageUrl: foundProduct.imageUrl || '',
+            tax_rate_id: foundProduct.tax_rate_id || null,
           });
           setNumericValues({
             price: foundProduct.price,
@@ -149,6 +162,17 @@ export default function ProductForm() {
     showToast(t('messages.barcodeAdded', { barcode }), 'success');
   };
 
+  const handleGenerateBarcode = async () => {
+    if (!db) return;
+    try {
+      const barcode = await db.getNextInternalBarcode();
+      setFormData({ ...formData, barcode });
+    } catch (error) {
+      console.error('Error generating barcode:', error);
+      Alert.alert(t('common.error'), t('labels.failedToGenerate'));
+    }
+  };
+
   const pickImage = async () => {
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
@@ -255,6 +279,7 @@ export default function ProductForm() {
         min_stock: parseInt(formData.min_stock) || 10,
         supplier_id: formData.supplier_id || undefined,
         imageUrl: formData.imageUrl || undefined,
+        tax_rate_id: formData.tax_rate_id,
       };
 
       if (isEditMode && id) {
@@ -395,6 +420,15 @@ export default function ProductForm() {
               >
                 <Scan size={20} color="#3B82F6" />
               </TouchableOpacity>
+              {!formData.barcode && (
+                <TouchableOpacity
+                  style={styles.scanButton}
+                  onPress={handleGenerateBarcode}
+                  accessibilityLabel={t('labels.generateBarcode')}
+                >
+                  <Barcode size={20} color="#3B82F6" />
+                </TouchableOpacity>
+              )}
             </View>
           </View>
 
@@ -456,6 +490,18 @@ export default function ProductForm() {
               </Text>
             </View>
           )}
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('tax.taxRate')}</Text>
+            <TaxRateSelector
+              taxRates={taxRates}
+              value={formData.tax_rate_id}
+              onChange={(taxRateId) =>
+                setFormData({ ...formData, tax_rate_id: taxRateId })
+              }
+              forProduct
+            />
+          </View>
         </View>
 
         {/* Stock Information */}
@@ -464,31 +510,43 @@ export default function ProductForm() {
             {t('products.stockInfo')}
           </Text>
 
-          <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>{t('products.quantity')}</Text>
-            <TextInput
-              style={styles.input}
-              placeholder={t('products.quantity')}
-              value={formData.quantity}
-              onChangeText={(text) =>
-                setFormData({ ...formData, quantity: text })
-              }
-              keyboardType="numeric"
-            />
-          </View>
+          {hasVariants ? (
+            <Text style={styles.variantStockHint}>
+              {t('variants.stockTrackedPerVariant', {
+                count: variants.length,
+              })}
+            </Text>
+          ) : (
+            <>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('products.quantity')}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('products.quantity')}
+                  value={formData.quantity}
+                  onChangeText={(text) =>
+                    setFormData({ ...formData, quantity: text })
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
 
-          <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>{t('products.minStockLevel')}</Text>
-            <TextInput
-              style={styles.input}
-              placeholder={t('products.minStockLevel')}
-              value={formData.min_stock}
-              onChangeText={(text) =>
-                setFormData({ ...formData, min_stock: text })
-              }
-              keyboardType="numeric"
-            />
-          </View>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>
+                  {t('products.minStockLevel')}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('products.minStockLevel')}
+                  value={formData.min_stock}
+                  onChangeText={(text) =>
+                    setFormData({ ...formData, min_stock: text })
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
+            </>
+          )}
 
           <View style={styles.inputContainer}>
             <Text style={styles.inputLabel}>
@@ -692,6 +750,11 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 16,
   },
+  variantStockHint: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
   imageSection: {
     alignItems: 'center',
   },
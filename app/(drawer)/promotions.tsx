@@ -0,0 +1,1355 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { SearchablePickerModal } from '@/components/SearchablePickerModal';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import {
+  useCategories,
+  useProducts,
+  usePromotions,
+  usePromotionMutations,
+  usePromotionPerformance,
+} from '@/hooks/useQueries';
+import { Promotion, PromotionType } from '@/services/database';
+import { isPromotionActive } from '@/utils/promotionUtils';
+import {
+  BadgePercent,
+  ChevronDown,
+  Edit,
+  Plus,
+  Trash2,
+  X,
+} from 'lucide-react-native';
+
+const PROMOTION_TYPES: PromotionType[] = [
+  'buy_x_get_y',
+  'percent_off',
+  'bundle_price',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+type PerformanceRange = 30 | 90 | 180;
+
+interface PromotionFormData {
+  name: string;
+  type: PromotionType;
+  product_ids: string[];
+  category_id?: string;
+  buy_quantity: string;
+  get_quantity: string;
+  discount_percent: string;
+  bundle_price: string;
+  start_date: string;
+  end_date: string;
+  start_time: string;
+  end_time: string;
+  is_active: boolean;
+}
+
+const emptyFormData: PromotionFormData = {
+  name: '',
+  type: 'buy_x_get_y',
+  product_ids: [],
+  category_id: undefined,
+  buy_quantity: '2',
+  get_quantity: '1',
+  discount_percent: '',
+  bundle_price: '',
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+  is_active: true,
+};
+
+/**
+ * Promotions Page
+ * Manage promotions that the sale screen applies to the cart automatically
+ *
+ * Features:
+ * - Buy X get Y across products or a category (mix and match)
+ * - Percentage off products or a category
+ * - Bundle price for a set of products
+ * - Optional date range and daily time window (happy hour)
+ * - Performance of each promotion over the last 30, 90 or 180 days
+ */
+export default function Promotions() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const { data: promotions = [], isLoading } = usePromotions();
+  const { data: products = [] } = useProducts();
+  const { data: categories = [] } = useCategories();
+  const { addPromotion, updatePromotion, deletePromotion } =
+    usePromotionMutations();
+
+  const [activeTab, setActiveTab] = useState<'promotions' | 'performance'>(
+    'promotions',
+  );
+  const [performanceRange, setPerformanceRange] =
+    useState<PerformanceRange>(30);
+  const { startDate, endDate } = useMemo(() => {
+    const end = new Date();
+    const start = new Date();
+    start.setDate(end.getDate() - performanceRange);
+    return { startDate: start, endDate: end };
+  }, [performanceRange]);
+  const { data: performance, isLoading: performanceLoading } =
+    usePromotionPerformance(startDate, endDate);
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [showProductPicker, setShowProductPicker] = useState(false);
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(
+    null,
+  );
+  const [promotionFormData, setPromotionFormData] =
+    useState<PromotionFormData>(emptyFormData);
+
+  const productNames = useMemo(
+    () =>
+      Object.fromEntries(products.map((product) => [product.id, product.name])),
+    [products],
+  );
+  const categoryNames = useMemo(
+    () =>
+      Object.fromEntries(
+        categories.map((category) => [category.id, category.name]),
+      ),
+    [categories],
+  );
+
+  const resetPromotionForm = () => {
+    setPromotionFormData(emptyFormData);
+    setEditingPromotion(null);
+    setShowFormModal(false);
+  };
+
+  const handleAddNew = () => {
+    setPromotionFormData(emptyFormData);
+    setEditingPromotion(null);
+    setShowFormModal(true);
+  };
+
+  const handleEditPromotion = (promotion: Promotion) => {
+    setPromotionFormData({
+      name: promotion.name,
+      type: promotion.type,
+      product_ids: promotion.product_ids,
+      category_id: promotion.category_id || undefined,
+      buy_quantity: promotion.buy_quantity?.toString() || '',
+      get_quantity: promotion.get_quantity?.toString() || '',
+      discount_percent: promotion.discount_percent?.toString() || '',
+      bundle_price: promotion.bundle_price?.toString() || '',
+      start_date: promotion.start_date || '',
+      end_date: promotion.end_date || '',
+      start_time: promotion.start_time || '',
+      end_time: promotion.end_time || '',
+      is_active: promotion.is_active === 1,
+    });
+    setEditingPromotion(promotion);
+    setShowFormModal(true);
+  };
+
+  const getValidationError = (): string | null => {
+    const form = promotionFormData;
+    if (!form.name.trim()) {
+      return t('promotions.enterName');
+    }
+
+    switch (form.type) {
+      case 'buy_x_get_y': {
+        const buy = parseInt(form.buy_quantity, 10);
+        const get = parseInt(form.get_quantity, 10);
+        if (!(buy >= 1) || !(get >= 1)) {
+          return t('promotions.invalidQuantities');
+        }
+        break;
+      }
+      case 'percent_off': {
+        const percent = parseFloat(form.discount_percent);
+        if (!(percent > 0 && percent <= 100)) {
+          return t('promotions.invalidPercent');
+        }
+        break;
+      }
+      case 'bundle_price': {
+        if (form.product_ids.length < 2) {
+          return t('promotions.bundleNeedsProducts');
+        }
+        const price = parseFloat(form.bundle_price);
+        if (isNaN(price) || price < 0) {
+          return t('promotions.invalidBundlePrice');
+        }
+        break;
+      }
+    }
+
+    if (
+      form.type !== 'bundle_price' &&
+      form.product_ids.length === 0 &&
+      !form.category_id
+    ) {
+      return t('promotions.selectProductsOrCategory');
+    }
+    if (
+      (form.start_date && !DATE_PATTERN.test(form.start_date)) ||
+      (form.end_date && !DATE_PATTERN.test(form.end_date)) ||
+      (form.start_date && form.end_date && form.start_date > form.end_date)
+    ) {
+      return t('promotions.invalidDates');
+    }
+    if (
+      !form.start_time !== !form.end_time ||
+      (form.start_time && !TIME_PATTERN.test(form.start_time)) ||
+      (form.end_time && !TIME_PATTERN.test(form.end_time))
+    ) {
+      return t('promotions.invalidTimes');
+    }
+    return null;
+  };
+
+  const handlePromotionSubmit = async () => {
+    const validationError = getValidationError();
+    if (validationError) {
+      Alert.alert(t('common.error'), validationError);
+      return;
+    }
+
+    const form = promotionFormData;
+    const isBuyXGetY = form.type === 'buy_x_get_y';
+    const data = {
+      name: form.name.trim(),
+      type: form.type,
+      product_ids: form.product_ids,
+      // A bundle is always a set of products
+      category_id:
+        form.type === 'bundle_price' ? null : form.category_id || null,
+      buy_quantity: isBuyXGetY ? parseInt(form.buy_quantity, 10) : null,
+      get_quantity: isBuyXGetY ? parseInt(form.get_quantity, 10) : null,
+      discount_percent:
+        form.type === 'percent_off' ? parseFloat(form.discount_percent) : null,
+      bundle_price:
+        form.type === 'bundle_price' ? parseFloat(form.bundle_price) : null,
+      start_date: form.start_date || null,
+      end_date: form.end_date || null,
+      start_time: form.start_time || null,
+      end_time: form.end_time || null,
+      is_active: form.is_active ? 1 : 0,
+    };
+
+    try {
+      if (editingPromotion) {
+        await updatePromotion.mutateAsync({ id: editingPromotion.id, data });
+      } else {
+        await addPromotion.mutateAsync(data);
+      }
+
+      resetPromotionForm();
+      showToast(
+        editingPromotion
+          ? t('promotions.promotionUpdated')
+          : t('promotions.promotionAdded'),
+        'success',
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('promotions.failedToSave'));
+      console.error('Error saving promotion:', error);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion, value: boolean) => {
+    try {
+      await updatePromotion.mutateAsync({
+        id: promotion.id,
+        data: {
+          name: promotion.name,
+          type: promotion.type,
+          product_ids: promotion.product_ids,
+          category_id: promotion.category_id,
+          buy_quantity: promotion.buy_quantity,
+          get_quantity: promotion.get_quantity,
+          discount_percent: promotion.discount_percent,
+          bundle_price: promotion.bundle_price,
+          start_date: promotion.start_date,
+          end_date: promotion.end_date,
+          start_time: promotion.start_time,
+          end_time: promotion.end_time,
+          is_active: value ? 1 : 0,
+        },
+      });
+    } catch (error) {
+      Alert.alert(t('common.error'), t('promotions.failedToSave'));
+      console.error('Error updating promotion:', error);
+    }
+  };
+
+  const handleDeletePromotion = (promotion: Promotion) => {
+    Alert.alert(
+      t('promotions.deletePromotion'),
+      `${t('promotions.areYouSure')} "${promotion.name}"?`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePromotion.mutateAsync(promotion.id);
+              showToast(t('promotions.promotionDeleted'), 'success');
+            } catch (error) {
+              console.error('Error deleting promotion:', error);
+              Alert.alert(t('common.error'), t('promotions.failedToDelete'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleAddProduct = (productId?: string) => {
+    if (productId && !promotionFormData.product_ids.includes(productId)) {
+      setPromotionFormData({
+        ...promotionFormData,
+        product_ids: [...promotionFormData.product_ids, productId],
+      });
+    }
+    setShowProductPicker(false);
+  };
+
+  const handleRemoveProduct = (productId: string) => {
+    setPromotionFormData({
+      ...promotionFormData,
+      product_ids: promotionFormData.product_ids.filter(
+        (id) => id !== productId,
+      ),
+    });
+  };
+
+  const describeRule = (promotion: Promotion) => {
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        return t('promotions.buyXGetYRule', {
+          buy: promotion.buy_quantity || 0,
+          get: promotion.get_quantity || 0,
+        });
+      case 'percent_off':
+        return t('promotions.percentOffRule', {
+          percent: promotion.discount_percent || 0,
+        });
+      case 'bundle_price':
+        return t('promotions.bundlePriceRule', {
+          price: formatPrice(promotion.bundle_price || 0),
+        });
+    }
+  };
+
+  const describeCoverage = (promotion: Promotion) => {
+    const names = promotion.product_ids.map(
+      (id) => productNames[id] || t('promotions.unknownProduct'),
+    );
+    if (promotion.category_id) {
+      names.unshift(
+        categoryNames[promotion.category_id] || t('promotions.unknownCategory'),
+      );
+    }
+    return names.join(', ');
+  };
+
+  const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.start_date || promotion.end_date) {
+      parts.push(
+        `${promotion.start_date || '…'} – ${promotion.end_date || '…'}`,
+      );
+    }
+    if (promotion.start_time && promotion.end_time) {
+      parts.push(`${promotion.start_time}–${promotion.end_time}`);
+    }
+    return parts.join(' • ');
+  };
+
+  const renderPromotionList = () => (
+    <>
+      <View style={styles.listHeader}>
+        <Text style={styles.listTitle} weight="bold">
+          {t('promotions.title')}
+        </Text>
+        <Text style={styles.listCount}>{promotions.length}</Text>
+      </View>
+
+      {promotions.length === 0 ? (
+        <Card style={styles.emptyCard}>
+          <BadgePercent size={48} color="#D1D5DB" />
+          <Text style={styles.emptyText}>{t('promotions.noPromotions')}</Text>
+          <Text style={styles.emptySubtext}>
+            {t('promotions.addFirstPromotion')}
+          </Text>
+        </Card>
+      ) : (
+        promotions.map((promotion) => {
+          const schedule = describeSchedule(promotion);
+          const runningNow = isPromotionActive(promotion, new Date());
+
+          return (
+            <Card key={promotion.id} style={styles.promotionCard}>
+              <View style={styles.promotionContent}>
+                <View style={styles.promotionInfo}>
+                  <View style={styles.promotionTitleRow}>
+                    <Text style={styles.promotionName} weight="bold">
+                      {promotion.name}
+                    </Text>
+                    {runningNow && (
+                      <View style={styles.runningBadge}>
+                        <Text style={styles.runningBadgeText}>
+                          {t('promotions.runningNow')}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text style={styles.promotionRule}>
+                    {describeRule(promotion)}
+                  </Text>
+                  <Text style={styles.promotionMeta} numberOfLines={2}>
+                    {describeCoverage(promotion)}
+                  </Text>
+                  {schedule ? (
+                    <Text style={styles.promotionMeta}>{schedule}</Text>
+                  ) : null}
+                </View>
+
+                <View style={styles.promotionActions}>
+                  <Switch
+                    value={promotion.is_active === 1}
+                    onValueChange={(value) =>
+                      handleToggleActive(promotion, value)
+                    }
+                    trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                  />
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleEditPromotion(promotion)}
+                  >
+                    <Edit size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.deleteButton]}
+                    onPress={() => handleDeletePromotion(promotion)}
+                  >
+                    <Trash2 size={20} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </Card>
+          );
+        })
+      )}
+    </>
+  );
+
+  const renderPerformance = () => {
+    if (performanceLoading || !performance) {
+      return <LoadingSpinner />;
+    }
+
+    const penetration =
+      performance.totalSales > 0
+        ? (performance.promotedSales / performance.totalSales) * 100
+        : 0;
+
+    return (
+      <>
+        <View style={styles.rangeSelector}>
+          {([30, 90, 180] as const).map((range) => (
+            <TouchableOpacity
+              key={range}
+              style={[
+                styles.rangeButton,
+                performanceRange === range && styles.rangeButtonActive,
+              ]}
+              onPress={() => setPerformanceRange(range)}
+            >
+              <Text
+                style={[
+                  styles.rangeButtonText,
+                  performanceRange === range && styles.rangeButtonTextActive,
+                ]}
+              >
+                {range === 30
+                  ? t('analytics.last30Days')
+                  : range === 90
+                    ? t('analytics.last90Days')
+                    : t('analytics.last180Days')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.summaryGrid}>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('promotions.discountGiven')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#EF4444' }]}>
+              {formatPrice(performance.discountGiven)}
+            </Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('promotions.promotedSales')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#3B82F6' }]}>
+              {performance.promotedSales} / {performance.totalSales}
+            </Text>
+            <Text style={styles.summaryHint}>
+              {t('promotions.ofAllSales', {
+                percent: penetration.toFixed(1),
+              })}
+            </Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('promotions.avgPromotedSale')}
+            </Text>
+            <Text style={[styles.summaryValue, { color: '#10B981' }]}>
+              {formatPrice(performance.avgPromotedSale)}
+            </Text>
+          </Card>
+          <Card style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {t('promotions.avgOtherSale')}
+            </Text>
+            <Text style={styles.summaryValue}>
+              {formatPrice(performance.avgOtherSale)}
+            </Text>
+          </Card>
+        </View>
+
+        <Text style={styles.listTitle} weight="bold">
+          {t('promotions.byPromotion')}
+        </Text>
+        {performance.promotions.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <BadgePercent size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>
+              {t('promotions.noPerformanceData')}
+            </Text>
+          </Card>
+        ) : (
+          performance.promotions.map((row) => (
+            <Card key={row.promotion_id} style={styles.promotionCard}>
+              <Text style={styles.promotionName} weight="bold">
+                {row.name}
+              </Text>
+              <View style={styles.performanceRow}>
+                <Text style={styles.promotionMeta}>
+                  {t('promotions.salesCount', { count: row.sale_count })}
+                </Text>
+                <Text style={styles.performanceDiscount}>
+                  -{formatPrice(row.discount_given)}
+                </Text>
+              </View>
+              <View style={styles.performanceRow}>
+                <Text style={styles.promotionMeta}>
+                  {t('promotions.revenue')}
+                </Text>
+                <Text style={styles.performanceRevenue}>
+                  {formatPrice(row.revenue)}
+                </Text>
+              </View>
+            </Card>
+          ))
+        )}
+      </>
+    );
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  const coversCategory = promotionFormData.type !== 'bundle_price';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('promotions.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.tabBar}>
+        {(['promotions', 'performance'] as const).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.activeTab]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === tab && styles.activeTabText,
+              ]}
+            >
+              {tab === 'promotions'
+                ? t('promotions.title')
+                : t('promotions.performance')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {activeTab === 'promotions'
+          ? renderPromotionList()
+          : renderPerformance()}
+      </ScrollView>
+
+      {/* Floating Action Button */}
+      {activeTab === 'promotions' && (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={handleAddNew}
+          activeOpacity={0.8}
+        >
+          <Plus size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
+
+      {/* Promotion Form Modal */}
+      <Modal
+        visible={showFormModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={resetPromotionForm}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle} weight="bold">
+              {editingPromotion
+                ? t('promotions.editPromotion')
+                : t('promotions.addPromotion')}
+            </Text>
+            <TouchableOpacity
+              onPress={resetPromotionForm}
+              style={styles.closeButton}
+            >
+              <X size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formSection}>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('promotions.name')} *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('promotions.namePlaceholder')}
+                  value={promotionFormData.name}
+                  onChangeText={(text) =>
+                    setPromotionFormData({ ...promotionFormData, name: text })
+                  }
+                />
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('promotions.type')}</Text>
+                <View style={styles.chipRow}>
+                  {PROMOTION_TYPES.map((type) => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.chip,
+                        promotionFormData.type === type && styles.chipActive,
+                      ]}
+                      onPress={() =>
+                        setPromotionFormData({ ...promotionFormData, type })
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          promotionFormData.type === type &&
+                            styles.chipTextActive,
+                        ]}
+                      >
+                        {t(`promotions.types.${type}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              {promotionFormData.type === 'buy_x_get_y' && (
+                <View style={styles.inputRow}>
+                  <View style={[styles.inputContainer, styles.inputHalf]}>
+                    <Text style={styles.inputLabel}>
+                      {t('promotions.buyQuantity')} *
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="2"
+                      value={promotionFormData.buy_quantity}
+                      onChangeText={(text) =>
+                        setPromotionFormData({
+                          ...promotionFormData,
+                          buy_quantity: text,
+                        })
+                      }
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                  <View style={[styles.inputContainer, styles.inputHalf]}>
+                    <Text style={styles.inputLabel}>
+                      {t('promotions.getQuantity')} *
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="1"
+                      value={promotionFormData.get_quantity}
+                      onChangeText={(text) =>
+                        setPromotionFormData({
+                          ...promotionFormData,
+                          get_quantity: text,
+                        })
+                      }
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                </View>
+              )}
+
+              {promotionFormData.type === 'percent_off' && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>
+                    {t('promotions.discountPercent')} *
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="10"
+                    value={promotionFormData.discount_percent}
+                    onChangeText={(text) =>
+                      setPromotionFormData({
+                        ...promotionFormData,
+                        discount_percent: text,
+                      })
+                    }
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              )}
+
+              {promotionFormData.type === 'bundle_price' && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>
+                    {t('promotions.bundlePrice')} *
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="0"
+                    value={promotionFormData.bundle_price}
+                    onChangeText={(text) =>
+                      setPromotionFormData({
+                        ...promotionFormData,
+                        bundle_price: text,
+                      })
+                    }
+                    keyboardType="decimal-pad"
+                  />
+                  <Text style={styles.inputHint}>
+                    {t('promotions.bundlePriceHint')}
+                  </Text>
+                </View>
+              )}
+
+              {coversCategory && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.inputLabel}>
+                    {t('promotions.category')}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.pickerButton}
+                    onPress={() => setShowCategoryPicker(true)}
+                  >
+                    <Text style={styles.pickerButtonText}>
+                      {promotionFormData.category_id
+                        ? categoryNames[promotionFormData.category_id]
+                        : t('promotions.noCategory')}
+                    </Text>
+                    <ChevronDown size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>
+                  {t('promotions.products')}
+                </Text>
+                {promotionFormData.product_ids.map((productId) => (
+                  <View key={productId} style={styles.selectedProduct}>
+                    <Text style={styles.selectedProductName}>
+                      {productNames[productId] ||
+                        t('promotions.unknownProduct')}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => handleRemoveProduct(productId)}
+                    >
+                      <X size={18} color="#6B7280" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                <TouchableOpacity
+                  style={styles.addProductButton}
+                  onPress={() => setShowProductPicker(true)}
+                >
+                  <Plus size={18} color="#059669" />
+                  <Text style={styles.addProductText}>
+                    {t('promotions.addProduct')}
+                  </Text>
+                </TouchableOpacity>
+                <Text style={styles.inputHint}>
+                  {coversCategory
+                    ? t('promotions.coverageHint')
+                    : t('promotions.bundleProductsHint')}
+                </Text>
+              </View>
+
+              <View style={styles.inputRow}>
+                <View style={[styles.inputContainer, styles.inputHalf]}>
+                  <Text style={styles.inputLabel}>
+                    {t('promotions.startDate')}
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="YYYY-MM-DD"
+                    value={promotionFormData.start_date}
+                    onChangeText={(text) =>
+                      setPromotionFormData({
+                        ...promotionFormData,
+                        start_date: text.trim(),
+                      })
+                    }
+                  />
+                </View>
+                <View style={[styles.inputContainer, styles.inputHalf]}>
+                  <Text style={styles.inputLabel}>
+                    {t('promotions.endDate')}
+                  </Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="YYYY-MM-DD"
+                    value={promotionFormData.end_date}
+                    onChangeText={(text) =>
+                      setPromotionFormData({
+                        ...promotionFormData,
+                        end_date: text.trim(),
+                      })
+                    }
+                  />
+                </View>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <View style={styles.inputRow}>
+                  <View style={[styles.inputContainer, styles.inputHalf]}>
+                    <Text style={styles.inputLabel}>
+                      {t('promotions.startTime')}
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="17:00"
+                      value={promotionFormData.start_time}
+                      onChangeText={(text) =>
+                        setPromotionFormData({
+                          ...promotionFormData,
+                          start_time: text.trim(),
+                        })
+                      }
+                    />
+                  </View>
+                  <View style={[styles.inputContainer, styles.inputHalf]}>
+                    <Text style={styles.inputLabel}>
+                      {t('promotions.endTime')}
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="19:00"
+                      value={promotionFormData.end_time}
+                      onChangeText={(text) =>
+                        setPromotionFormData({
+                          ...promotionFormData,
+                          end_time: text.trim(),
+                        })
+                      }
+                    />
+                  </View>
+                </View>
+                <Text style={styles.inputHint}>
+                  {t('promotions.scheduleHint')}
+                </Text>
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.inputLabel}>{t('promotions.active')}</Text>
+                <Switch
+                  value={promotionFormData.is_active}
+                  onValueChange={(value) =>
+                    setPromotionFormData({
+                      ...promotionFormData,
+                      is_active: value,
+                    })
+                  }
+                  trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                />
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Button
+              title={t('common.cancel')}
+              onPress={resetPromotionForm}
+              variant="secondary"
+              style={styles.footerButton}
+            />
+            <Button
+              title={editingPromotion ? t('common.update') : t('common.add')}
+              onPress={handlePromotionSubmit}
+              style={styles.footerButton}
+            />
+          </View>
+        </SafeAreaView>
+
+        <SearchablePickerModal
+          visible={showProductPicker}
+          onClose={() => setShowProductPicker(false)}
+          title={t('promotions.addProduct')}
+          items={products
+            .filter(
+              (product) => !promotionFormData.product_ids.includes(product.id),
+            )
+            .map((product) => ({ id: product.id, name: product.name }))}
+          onSelect={handleAddProduct}
+          showAllOption={false}
+        />
+
+        <SearchablePickerModal
+          visible={showCategoryPicker}
+          onClose={() => setShowCategoryPicker(false)}
+          title={t('promotions.category')}
+          items={categories.map((category) => ({
+            id: category.id,
+            name: category.name,
+          }))}
+          selectedId={promotionFormData.category_id}
+          onSelect={(id) => {
+            setPromotionFormData({ ...promotionFormData, category_id: id });
+            setShowCategoryPicker(false);
+          }}
+          allOptionLabel={t('promotions.noCategory')}
+        />
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#059669',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  activeTabText: {
+    color: '#059669',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  listTitle: {
+    fontSize: 18,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  listCount: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  promotionCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  promotionContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  promotionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  promotionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  promotionName: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  runningBadge: {
+    backgroundColor: '#D1FAE5',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  runningBadgeText: {
+    fontSize: 11,
+    color: '#047857',
+    fontWeight: '600',
+  },
+  promotionRule: {
+    fontSize: 13,
+    color: '#059669',
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  promotionMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  promotionActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButton: {
+    backgroundColor: '#FEE2E2',
+  },
+  rangeSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  rangeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  rangeButtonActive: {
+    backgroundColor: '#059669',
+  },
+  rangeButtonText: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  rangeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 20,
+  },
+  summaryCard: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    padding: 16,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 6,
+  },
+  summaryValue: {
+    fontSize: 18,
+    color: '#111827',
+    fontWeight: '600',
+  },
+  summaryHint: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  performanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  performanceDiscount: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+  performanceRevenue: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#059669',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalTitle: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  formSection: {
+    gap: 20,
+    paddingBottom: 20,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  inputHint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#059669',
+    backgroundColor: '#ECFDF5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  pickerButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  pickerButtonText: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  selectedProduct: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  selectedProductName: {
+    fontSize: 14,
+    color: '#111827',
+    flex: 1,
+    marginRight: 8,
+  },
+  addProductButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#059669',
+  },
+  addProductText: {
+    fontSize: 14,
+    color: '#059669',
+    fontWeight: '500',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
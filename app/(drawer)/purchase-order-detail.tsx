@@ -0,0 +1,551 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { SupplierPaymentModal } from '@/components/SupplierPaymentModal';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import {
+  usePurchaseOrder,
+  usePurchaseOrderItems,
+  usePurchaseOrderMutations,
+} from '@/hooks/useQueries';
+import {
+  ArrowLeft,
+  ClipboardList,
+  Edit,
+  PackageCheck,
+  Send,
+  Trash2,
+  Wallet,
+  XCircle,
+} from 'lucide-react-native';
+import {
+  PURCHASE_ORDER_STATUS_COLORS,
+  getRemainingQuantity,
+} from '@/utils/purchaseOrderUtils';
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * Purchase Order Detail
+ * Lines ordered and received, with the actions allowed for the order status
+ */
+export default function PurchaseOrderDetail() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const purchaseOrderId = id || '';
+
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+
+  const { data: purchaseOrder, isLoading } = usePurchaseOrder(purchaseOrderId);
+  const { data: items = [] } = usePurchaseOrderItems(purchaseOrderId);
+  const { markPurchaseOrderSent, cancelPurchaseOrder, deletePurchaseOrder } =
+    usePurchaseOrderMutations();
+
+  const showError = (error: unknown) => {
+    Alert.alert(
+      t('common.error'),
+      error instanceof Error ? error.message : t('purchaseOrders.failedToSave'),
+    );
+  };
+
+  const handleSend = async () => {
+    try {
+      await markPurchaseOrderSent.mutateAsync(purchaseOrderId);
+      showToast(t('purchaseOrders.orderSent'), 'success');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleCancel = () => {
+    Alert.alert(
+      t('purchaseOrders.cancelOrder'),
+      t('purchaseOrders.cancelOrderConfirm'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('purchaseOrders.cancelOrder'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await cancelPurchaseOrder.mutateAsync(purchaseOrderId);
+              showToast(t('purchaseOrders.orderCancelled'), 'success');
+            } catch (error) {
+              showError(error);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      t('purchaseOrders.deleteOrder'),
+      `${t('purchaseOrders.deleteOrderConfirm')} ${t(
+        'common.actionCannotBeUndone',
+      )}.`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePurchaseOrder.mutateAsync(purchaseOrderId);
+              showToast(t('purchaseOrders.orderDeleted'), 'success');
+              router.back();
+            } catch (error) {
+              showError(error);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (!purchaseOrder) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorState}>
+          <ClipboardList size={64} color="#EF4444" />
+          <Text style={styles.errorTitle} weight="medium">
+            {t('purchaseOrders.orderNotFound')}
+          </Text>
+          <TouchableOpacity
+            style={styles.backButtonError}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.backButtonText} weight="medium">
+              {t('suppliers.goBack')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { status } = purchaseOrder;
+  const statusColor = PURCHASE_ORDER_STATUS_COLORS[status];
+  const canReceive = status === 'sent' || status === 'partially_received';
+  const outstanding = purchaseOrder.received_value - purchaseOrder.paid_amount;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1} weight="bold">
+          {purchaseOrder.po_number}
+        </Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Card style={styles.summaryCard}>
+          <View style={styles.summaryHeader}>
+            <Text style={styles.supplierName} weight="bold" numberOfLines={1}>
+              {purchaseOrder.supplier_name ||
+                t('purchaseOrders.unknownSupplier')}
+            </Text>
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: statusColor + '20' },
+              ]}
+            >
+              <Text
+                style={[styles.statusText, { color: statusColor }]}
+                weight="medium"
+              >
+                {t(`purchaseOrders.statuses.${status}`)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.metaText}>
+            {t('purchaseOrders.createdOn', {
+              date: formatDate(purchaseOrder.created_at),
+            })}
+          </Text>
+          {purchaseOrder.sent_at && (
+            <Text style={styles.metaText}>
+              {t('purchaseOrders.sentOn', {
+                date: formatDate(purchaseOrder.sent_at),
+              })}
+            </Text>
+          )}
+          {purchaseOrder.received_at && (
+            <Text style={styles.metaText}>
+              {t('purchaseOrders.receivedOn', {
+                date: formatDate(purchaseOrder.received_at),
+              })}
+            </Text>
+          )}
+          {purchaseOrder.note ? (
+            <Text style={styles.noteText}>{purchaseOrder.note}</Text>
+          ) : null}
+
+          <View style={styles.totalsRow}>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalLabel}>
+                {t('purchaseOrders.orderTotal')}
+              </Text>
+              <Text style={styles.totalValue} weight="bold">
+                {formatPrice(purchaseOrder.total_cost)}
+              </Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalLabel}>
+                {t('purchaseOrders.receivedValue')}
+              </Text>
+              <Text style={styles.totalValue} weight="bold">
+                {formatPrice(purchaseOrder.received_value)}
+              </Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={styles.totalLabel}>{t('purchaseOrders.paid')}</Text>
+              <Text style={styles.totalValue} weight="bold">
+                {formatPrice(purchaseOrder.paid_amount)}
+              </Text>
+            </View>
+          </View>
+        </Card>
+
+        <Card style={styles.itemsCard}>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('purchaseOrders.items')}
+          </Text>
+          {items.map((item) => {
+            const remaining = getRemainingQuantity(item);
+            return (
+              <View key={item.id} style={styles.itemRow}>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName} numberOfLines={1}>
+                    {item.product_name}
+                  </Text>
+                  <Text style={styles.metaText}>
+                    {t('purchaseOrders.orderedAt', {
+                      quantity: item.quantity_ordered,
+                      cost: formatPrice(item.unit_cost),
+                    })}
+                  </Text>
+                  {item.quantity_received > 0 && (
+                    <Text style={styles.receivedText}>
+                      {t('purchaseOrders.receivedQuantity', {
+                        quantity: item.quantity_received,
+                      })}
+                      {remaining > 0 && status !== 'cancelled'
+                        ? ` • ${t('purchaseOrders.remainingQuantity', {
+                            quantity: remaining,
+                          })}`
+                        : ''}
+                    </Text>
+                  )}
+                </View>
+                <Text style={styles.itemTotal} weight="medium">
+                  {formatPrice(item.quantity_ordered * item.unit_cost)}
+                </Text>
+              </View>
+            );
+          })}
+        </Card>
+
+        <View style={styles.actions}>
+          {status === 'draft' && (
+            <>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.primaryAction]}
+                onPress={handleSend}
+                disabled={markPurchaseOrderSent.isPending}
+              >
+                <Send size={18} color="#FFFFFF" />
+                <Text style={styles.primaryActionText} weight="medium">
+                  {t('purchaseOrders.markSent')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() =>
+                  router.push(
+                    `/(drawer)/purchase-order-form?id=${purchaseOrderId}` as any,
+                  )
+                }
+              >
+                <Edit size={18} color="#059669" />
+                <Text style={styles.actionText} weight="medium">
+                  {t('common.edit')}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {canReceive && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.primaryAction]}
+              onPress={() =>
+                router.push(
+                  `/(drawer)/purchase-order-receive?id=${purchaseOrderId}` as any,
+                )
+              }
+            >
+              <PackageCheck size={18} color="#FFFFFF" />
+              <Text style={styles.primaryActionText} weight="medium">
+                {t('purchaseOrders.receiveGoods')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {purchaseOrder.received_value > 0 && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setShowPaymentModal(true)}
+            >
+              <Wallet size={18} color="#059669" />
+              <Text style={styles.actionText} weight="medium">
+                {t('purchaseOrders.recordPayment')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {(status === 'draft' || status === 'sent') && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleCancel}
+            >
+              <XCircle size={18} color="#EF4444" />
+              <Text style={[styles.actionText, styles.dangerText]}>
+                {t('purchaseOrders.cancelOrder')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {(status === 'draft' || status === 'cancelled') && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleDelete}
+            >
+              <Trash2 size={18} color="#EF4444" />
+              <Text style={[styles.actionText, styles.dangerText]}>
+                {t('purchaseOrders.deleteOrder')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+
+      <SupplierPaymentModal
+        visible={showPaymentModal}
+        supplierId={purchaseOrder.supplier_id}
+        purchaseOrderId={purchaseOrder.id}
+        outstanding={outstanding}
+        onClose={() => setShowPaymentModal(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 8,
+  },
+  supplierName: {
+    flex: 1,
+    fontSize: 18,
+    color: '#111827',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 8,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  totalItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  totalValue: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  itemsCard: {
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  receivedText: {
+    fontSize: 13,
+    color: '#059669',
+    marginTop: 2,
+  },
+  itemTotal: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  actions: {
+    gap: 12,
+    marginBottom: 32,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  primaryAction: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  primaryActionText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  actionText: {
+    fontSize: 16,
+    color: '#059669',
+  },
+  dangerText: {
+    color: '#EF4444',
+  },
+  errorState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  errorTitle: {
+    fontSize: 20,
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  backButtonError: {
+    backgroundColor: '#059669',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
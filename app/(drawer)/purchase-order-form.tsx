@@ -0,0 +1,583 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { SearchablePickerModal } from '@/components/SearchablePickerModal';
+import { SimplePriceInput } from '@/components/PriceInput';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ArrowLeft, User, Plus, Trash2, FileText } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import {
+  useProducts,
+  useBasicSuppliers,
+  usePurchaseOrder,
+  usePurchaseOrderItems,
+  usePurchaseOrderMutations,
+} from '@/hooks/useQueries';
+
+interface FormLine {
+  product_id: string;
+  product_name: string;
+  quantity: string;
+  unitCost: string;
+  unitCostNumeric: number;
+}
+
+/**
+ * Create a draft purchase order, or edit one that has not been sent yet
+ */
+export default function PurchaseOrderForm() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+  const params = useLocalSearchParams<{ id?: string; supplierId?: string }>();
+  const purchaseOrderId = params.id || '';
+  const isEditing = !!purchaseOrderId;
+
+  const { data: products = [] } = useProducts();
+  const { data: suppliers = [] } = useBasicSuppliers();
+  const { data: purchaseOrder, isLoading: orderLoading } =
+    usePurchaseOrder(purchaseOrderId);
+  const { data: orderItems } = usePurchaseOrderItems(purchaseOrderId);
+  const { createPurchaseOrder, updatePurchaseOrder } =
+    usePurchaseOrderMutations();
+
+  const [supplierId, setSupplierId] = useState<string | undefined>(
+    params.supplierId,
+  );
+  const [lines, setLines] = useState<FormLine[]>([]);
+  const [note, setNote] = useState('');
+  const [initialized, setInitialized] = useState(!isEditing);
+  const [loading, setLoading] = useState(false);
+
+  const [showSupplierPicker, setShowSupplierPicker] = useState(false);
+  const [showProductPicker, setShowProductPicker] = useState(false);
+
+  // Fill the form once the order being edited has loaded
+  useEffect(() => {
+    if (initialized || !purchaseOrder || !orderItems) return;
+
+    setSupplierId(purchaseOrder.supplier_id);
+    setNote(purchaseOrder.note || '');
+    setLines(
+      orderItems.map((item) => ({
+        product_id: item.product_id,
+        product_name: item.product_name || '',
+        quantity: item.quantity_ordered.toString(),
+        unitCost: item.unit_cost.toString(),
+        unitCostNumeric: item.unit_cost,
+      })),
+    );
+    setInitialized(true);
+  }, [initialized, purchaseOrder, orderItems]);
+
+  const selectedSupplier = suppliers.find((s) => s.id === supplierId);
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * line.unitCostNumeric,
+    0,
+  );
+
+  const updateLine = (index: number, changes: Partial<FormLine>) => {
+    setLines((current) =>
+      current.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    );
+  };
+
+  const handleAddProduct = (productId?: string) => {
+    if (!productId) return;
+    if (lines.some((line) => line.product_id === productId)) {
+      Alert.alert(t('common.error'), t('purchaseOrders.productAlreadyAdded'));
+      return;
+    }
+
+    const product = products.find((p) => p.id === productId);
+    if (!product) return;
+
+    setLines((current) => [
+      ...current,
+      {
+        product_id: product.id,
+        product_name: product.name,
+        quantity: '1',
+        unitCost: product.cost ? product.cost.toString() : '',
+        unitCostNumeric: product.cost || 0,
+      },
+    ]);
+  };
+
+  const handleSubmit = async () => {
+    if (!supplierId) {
+      Alert.alert(t('common.error'), t('purchaseOrders.selectSupplier'));
+      return;
+    }
+
+    if (lines.length === 0) {
+      Alert.alert(t('common.error'), t('purchaseOrders.addAtLeastOneItem'));
+      return;
+    }
+
+    const items = lines.map((line) => ({
+      product_id: line.product_id,
+      quantity: parseInt(line.quantity),
+      unit_cost: line.unitCostNumeric,
+    }));
+    if (items.some((item) => isNaN(item.quantity) || item.quantity <= 0)) {
+      Alert.alert(t('common.error'), t('purchaseOrders.enterValidQuantity'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (isEditing) {
+        await updatePurchaseOrder.mutateAsync({
+          id: purchaseOrderId,
+          data: { note: note.trim() || undefined, items },
+        });
+        showToast(t('purchaseOrders.orderUpdated'), 'success');
+        router.back();
+      } else {
+        const { id, poNumber } = await createPurchaseOrder.mutateAsync({
+          supplier_id: supplierId,
+          note: note.trim() || undefined,
+          items,
+        });
+        showToast(
+          t('purchaseOrders.draftCreated', { number: poNumber }),
+          'success',
+        );
+        router.replace(`/(drawer)/purchase-order-detail?id=${id}` as any);
+      }
+    } catch (error) {
+      console.error('Error saving purchase order:', error);
+      Alert.alert(
+        t('common.error'),
+        error instanceof Error
+          ? error.message
+          : t('purchaseOrders.failedToSave'),
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (isEditing && (orderLoading || !initialized)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title} weight="bold" numberOfLines={1}>
+          {isEditing
+            ? purchaseOrder?.po_number || t('purchaseOrders.editOrder')
+            : t('purchaseOrders.newOrder')}
+        </Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('purchaseOrders.supplier')} *
+            </Text>
+            <TouchableOpacity
+              style={[styles.pickerButton, isEditing && styles.pickerDisabled]}
+              onPress={() => setShowSupplierPicker(true)}
+              disabled={isEditing}
+            >
+              <User size={20} color="#6B7280" style={styles.inputIcon} />
+              <Text
+                style={[
+                  styles.pickerButtonText,
+                  !selectedSupplier && styles.pickerButtonPlaceholder,
+                ]}
+              >
+                {selectedSupplier?.name || t('purchaseOrders.selectSupplier')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('purchaseOrders.items')} *
+            </Text>
+            {lines.map((line, index) => (
+              <View key={line.product_id} style={styles.lineCard}>
+                <View style={styles.lineHeader}>
+                  <Text
+                    style={styles.lineName}
+                    weight="medium"
+                    numberOfLines={1}
+                  >
+                    {line.product_name}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      setLines((current) =>
+                        current.filter((_, i) => i !== index),
+                      )
+                    }
+                  >
+                    <Trash2 size={18} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.lineInputs}>
+                  <View style={styles.quantityField}>
+                    <Text style={styles.lineLabel}>
+                      {t('purchaseOrders.quantity')}
+                    </Text>
+                    <TextInput
+                      style={styles.quantityInput}
+                      value={line.quantity}
+                      onChangeText={(value) =>
+                        updateLine(index, { quantity: value })
+                      }
+                      keyboardType="numeric"
+                      placeholder="0"
+                    />
+                  </View>
+                  <View style={styles.costField}>
+                    <Text style={styles.lineLabel}>
+                      {t('purchaseOrders.unitCost')}
+                    </Text>
+                    <SimplePriceInput
+                      value={line.unitCost}
+                      onValueChange={(value, numeric) =>
+                        updateLine(index, {
+                          unitCost: value,
+                          unitCostNumeric: numeric,
+                        })
+                      }
+                      placeholder="0"
+                    />
+                  </View>
+                </View>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addLineButton}
+              onPress={() => setShowProductPicker(true)}
+            >
+              <Plus size={18} color="#059669" />
+              <Text style={styles.addLineText} weight="medium">
+                {t('purchaseOrders.addProduct')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('purchaseOrders.note')}
+            </Text>
+            <View style={[styles.inputContainer, styles.textAreaContainer]}>
+              <FileText size={20} color="#6B7280" style={styles.inputIcon} />
+              <TextInput
+                style={[styles.textInput, styles.textArea]}
+                value={note}
+                onChangeText={setNote}
+                placeholder={t('purchaseOrders.notePlaceholder')}
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+          </View>
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>
+              {t('purchaseOrders.orderTotal')}
+            </Text>
+            <Text style={styles.totalValue} weight="bold">
+              {formatPrice(total)}
+            </Text>
+          </View>
+        </ScrollView>
+
+        <View style={styles.actionButtons}>
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => router.back()}
+            disabled={loading}
+          >
+            <Text style={styles.cancelButtonText} weight="medium">
+              {t('common.cancel')}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.saveButton, loading && styles.saveButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText} weight="medium">
+                {t('purchaseOrders.saveDraft')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+
+      <SearchablePickerModal
+        visible={showSupplierPicker}
+        onClose={() => setShowSupplierPicker(false)}
+        title={t('purchaseOrders.selectSupplier')}
+        items={suppliers.map((s) => ({
+          id: s.id,
+          name: s.name,
+        }))}
+        selectedId={supplierId}
+        onSelect={(id) => {
+          if (id) setSupplierId(id);
+          setShowSupplierPicker(false);
+        }}
+      />
+
+      <SearchablePickerModal
+        visible={showProductPicker}
+        onClose={() => setShowProductPicker(false)}
+        title={t('purchaseOrders.addProduct')}
+        items={products.map((p) => ({
+          id: p.id,
+          name: p.name,
+        }))}
+        onSelect={(id) => {
+          handleAddProduct(id);
+          setShowProductPicker(false);
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 8,
+  },
+  pickerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  pickerDisabled: {
+    backgroundColor: '#F3F4F6',
+  },
+  pickerButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+  },
+  pickerButtonPlaceholder: {
+    color: '#9CA3AF',
+  },
+  inputIcon: {
+    marginRight: 12,
+  },
+  lineCard: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 8,
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#111827',
+  },
+  lineInputs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  quantityField: {
+    width: 90,
+  },
+  costField: {
+    flex: 1,
+  },
+  lineLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  quantityInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  addLineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#059669',
+    borderRadius: 12,
+  },
+  addLineText: {
+    fontSize: 15,
+    color: '#059669',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  textAreaContainer: {
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+  },
+  textInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#111827',
+    paddingVertical: 14,
+  },
+  textArea: {
+    minHeight: 60,
+    paddingVertical: 0,
+    textAlignVertical: 'top',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#ECFDF5',
+    marginBottom: 32,
+  },
+  totalLabel: {
+    fontSize: 15,
+    color: '#065F46',
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#059669',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 2,
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#059669',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
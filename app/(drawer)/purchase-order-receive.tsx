@@ -0,0 +1,395 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { SimplePriceInput } from '@/components/PriceInput';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { ArrowLeft } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import {
+  usePurchaseOrder,
+  usePurchaseOrderItems,
+  usePurchaseOrderMutations,
+} from '@/hooks/useQueries';
+import { getRemainingQuantity } from '@/utils/purchaseOrderUtils';
+
+interface ReceiveLine {
+  quantity: string;
+  unitCost: string;
+  unitCostNumeric: number;
+}
+
+/**
+ * Receive goods against a sent purchase order.
+ * Quantities default to what is still on order and costs to the expected
+ * cost; both can be changed to match the delivery.
+ */
+export default function PurchaseOrderReceive() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const purchaseOrderId = id || '';
+
+  const { data: purchaseOrder, isLoading } = usePurchaseOrder(purchaseOrderId);
+  const { data: items } = usePurchaseOrderItems(purchaseOrderId);
+  const { receivePurchaseOrder } = usePurchaseOrderMutations();
+
+  const [lines, setLines] = useState<Record<string, ReceiveLine>>({});
+  const [initialized, setInitialized] = useState(false);
+
+  useEffect(() => {
+    if (initialized || !items) return;
+
+    const initial: Record<string, ReceiveLine> = {};
+    for (const item of items) {
+      initial[item.id] = {
+        quantity: getRemainingQuantity(item).toString(),
+        unitCost: item.unit_cost.toString(),
+        unitCostNumeric: item.unit_cost,
+      };
+    }
+    setLines(initial);
+    setInitialized(true);
+  }, [initialized, items]);
+
+  const openItems = (items || []).filter(
+    (item) => getRemainingQuantity(item) > 0,
+  );
+
+  const receiveTotal = openItems.reduce((sum, item) => {
+    const line = lines[item.id];
+    return line
+      ? sum + (parseInt(line.quantity) || 0) * line.unitCostNumeric
+      : sum;
+  }, 0);
+
+  const updateLine = (itemId: string, changes: Partial<ReceiveLine>) => {
+    setLines((current) => ({
+      ...current,
+      [itemId]: { ...current[itemId], ...changes },
+    }));
+  };
+
+  const handleReceive = async () => {
+    const receiveLines = openItems.map((item) => ({
+      item_id: item.id,
+      quantity: parseInt(lines[item.id]?.quantity || '0') || 0,
+      unit_cost: lines[item.id]?.unitCostNumeric || 0,
+    }));
+
+    const invalidLine = openItems.find((item, index) => {
+      const quantity = receiveLines[index].quantity;
+      return quantity < 0 || quantity > getRemainingQuantity(item);
+    });
+    if (invalidLine) {
+      Alert.alert(
+        t('common.error'),
+        t('purchaseOrders.receiveExceedsRemaining', {
+          product: invalidLine.product_name || '',
+          remaining: getRemainingQuantity(invalidLine),
+        }),
+      );
+      return;
+    }
+
+    if (!receiveLines.some((line) => line.quantity > 0)) {
+      Alert.alert(t('common.error'), t('purchaseOrders.enterReceiveQuantity'));
+      return;
+    }
+
+    try {
+      const status = await receivePurchaseOrder.mutateAsync({
+        id: purchaseOrderId,
+        lines: receiveLines,
+      });
+      showToast(
+        status === 'received'
+          ? t('purchaseOrders.fullyReceived')
+          : t('purchaseOrders.partiallyReceived'),
+        'success',
+      );
+      router.back();
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      Alert.alert(
+        t('common.error'),
+        error instanceof Error
+          ? error.message
+          : t('purchaseOrders.failedToReceive'),
+      );
+    }
+  };
+
+  if (isLoading || !initialized) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  const receiving = receivePurchaseOrder.isPending;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title} weight="bold" numberOfLines={1}>
+          {t('purchaseOrders.receiveGoods')}
+        </Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.content}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.subtitle}>
+            {purchaseOrder?.po_number} • {purchaseOrder?.supplier_name}
+          </Text>
+
+          {openItems.map((item) => {
+            const line = lines[item.id];
+            return (
+              <View key={item.id} style={styles.lineCard}>
+                <Text style={styles.lineName} weight="medium" numberOfLines={1}>
+                  {item.product_name}
+                </Text>
+                <Text style={styles.lineMeta}>
+                  {t('purchaseOrders.remainingOfOrdered', {
+                    remaining: getRemainingQuantity(item),
+                    ordered: item.quantity_ordered,
+                  })}
+                </Text>
+                <View style={styles.lineInputs}>
+                  <View style={styles.quantityField}>
+                    <Text style={styles.lineLabel}>
+                      {t('purchaseOrders.receiveQuantity')}
+                    </Text>
+                    <TextInput
+                      style={styles.quantityInput}
+                      value={line?.quantity}
+                      onChangeText={(value) =>
+                        updateLine(item.id, { quantity: value })
+                      }
+                      keyboardType="numeric"
+                      placeholder="0"
+                      editable={!receiving}
+                    />
+                  </View>
+                  <View style={styles.costField}>
+                    <Text style={styles.lineLabel}>
+                      {t('purchaseOrders.unitCost')}
+                    </Text>
+                    <SimplePriceInput
+                      value={line?.unitCost || ''}
+                      onValueChange={(value, numeric) =>
+                        updateLine(item.id, {
+                          unitCost: value,
+                          unitCostNumeric: numeric,
+                        })
+                      }
+                      placeholder="0"
+                      disabled={receiving}
+                    />
+                  </View>
+                </View>
+              </View>
+            );
+          })}
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>
+              {t('purchaseOrders.receiveTotal')}
+            </Text>
+            <Text style={styles.totalValue} weight="bold">
+              {formatPrice(receiveTotal)}
+            </Text>
+          </View>
+        </ScrollView>
+
+        <View style={styles.actionButtons}>
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => router.back()}
+            disabled={receiving}
+          >
+            <Text style={styles.cancelButtonText} weight="medium">
+              {t('common.cancel')}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.saveButton, receiving && styles.saveButtonDisabled]}
+            onPress={handleReceive}
+            disabled={receiving}
+          >
+            {receiving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText} weight="medium">
+                {t('purchaseOrders.confirmReceive')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  lineCard: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  lineName: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  lineMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  lineInputs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  quantityField: {
+    width: 90,
+  },
+  costField: {
+    flex: 1,
+  },
+  lineLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  quantityInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#ECFDF5',
+    marginTop: 8,
+    marginBottom: 32,
+  },
+  totalLabel: {
+    fontSize: 15,
+    color: '#065F46',
+  },
+  totalValue: {
+    fontSize: 18,
+    color: '#059669',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 2,
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#059669',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,712 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import {
+  usePurchaseOrders,
+  usePurchaseOrderSuggestions,
+  useSupplierPayables,
+  usePurchaseOrderMutations,
+} from '@/hooks/useQueries';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  PurchaseOrderSuggestion,
+  SupplierPayable,
+} from '@/services/database';
+import {
+  ClipboardList,
+  Lightbulb,
+  Plus,
+  Wallet,
+  ChevronRight,
+} from 'lucide-react-native';
+import { PURCHASE_ORDER_STATUS_COLORS } from '@/utils/purchaseOrderUtils';
+
+type TabType = 'orders' | 'suggestions' | 'payables';
+type StatusFilter = 'all' | PurchaseOrderStatus;
+
+const STATUS_FILTERS: StatusFilter[] = [
+  'all',
+  'draft',
+  'sent',
+  'partially_received',
+  'received',
+  'cancelled',
+];
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * Purchase Orders Page
+ * Orders placed with suppliers and what is still owed for received goods
+ *
+ * Features:
+ * - Filter orders by status
+ * - Draft orders suggested from low stock predictions
+ * - Outstanding balance per supplier
+ */
+export default function PurchaseOrders() {
+  const router = useRouter();
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+
+  const [activeTab, setActiveTab] = useState<TabType>('orders');
+
+  const tabs: { key: TabType; icon: typeof ClipboardList }[] = [
+    { key: 'orders', icon: ClipboardList },
+    { key: 'suggestions', icon: Lightbulb },
+    { key: 'payables', icon: Wallet },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('purchaseOrders.title')}
+        </Text>
+      </View>
+
+      <View style={styles.tabsContainer}>
+        {tabs.map(({ key, icon: Icon }) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.tab, activeTab === key && styles.tabActive]}
+            onPress={() => setActiveTab(key)}
+          >
+            <Icon size={18} color={activeTab === key ? '#059669' : '#6B7280'} />
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === key && styles.tabTextActive,
+              ]}
+              weight={activeTab === key ? 'medium' : 'regular'}
+            >
+              {t(`purchaseOrders.tabs.${key}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {activeTab === 'orders' ? (
+        <OrdersTab />
+      ) : activeTab === 'suggestions' ? (
+        <SuggestionsTab />
+      ) : (
+        <PayablesTab />
+      )}
+
+      {activeTab === 'orders' && (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={() => router.push('/(drawer)/purchase-order-form' as any)}
+          accessibilityLabel={t('purchaseOrders.newOrder')}
+        >
+          <Plus size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Orders Tab Component
+function OrdersTab() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const {
+    data: orders = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = usePurchaseOrders(statusFilter === 'all' ? undefined : statusFilter);
+
+  const renderOrder = ({ item }: { item: PurchaseOrder }) => {
+    const color = PURCHASE_ORDER_STATUS_COLORS[item.status];
+    return (
+      <TouchableOpacity
+        onPress={() =>
+          router.push(`/(drawer)/purchase-order-detail?id=${item.id}` as any)
+        }
+      >
+        <Card style={styles.orderCard}>
+          <View style={styles.orderHeader}>
+            <Text style={styles.orderNumber} weight="bold">
+              {item.po_number}
+            </Text>
+            <View
+              style={[styles.statusBadge, { backgroundColor: color + '20' }]}
+            >
+              <Text style={[styles.statusText, { color }]} weight="medium">
+                {t(`purchaseOrders.statuses.${item.status}`)}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.orderSupplier} numberOfLines={1}>
+            {item.supplier_name || t('purchaseOrders.unknownSupplier')}
+          </Text>
+          <View style={styles.orderFooter}>
+            <Text style={styles.orderMeta}>
+              {formatDate(item.created_at)} •{' '}
+              {t('purchaseOrders.itemCount', { count: item.item_count })}
+            </Text>
+            <Text style={styles.orderTotal} weight="bold">
+              {formatPrice(item.total_cost)}
+            </Text>
+          </View>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.tabContent}>
+      <View style={styles.filters}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {STATUS_FILTERS.map((status) => (
+            <TouchableOpacity
+              key={status}
+              style={[
+                styles.chip,
+                statusFilter === status && styles.chipSelected,
+              ]}
+              onPress={() => setStatusFilter(status)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  statusFilter === status && styles.chipTextSelected,
+                ]}
+              >
+                {status === 'all'
+                  ? t('purchaseOrders.allStatuses')
+                  : t(`purchaseOrders.statuses.${status}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <FlatList
+          data={orders}
+          keyExtractor={(item) => item.id}
+          renderItem={renderOrder}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={() => refetch()}
+              colors={['#059669']}
+              tintColor={'#059669'}
+            />
+          }
+          ListEmptyComponent={
+            <Card style={styles.emptyCard}>
+              <ClipboardList size={48} color="#D1D5DB" />
+              <Text style={styles.emptyText}>
+                {t('purchaseOrders.noOrders')}
+              </Text>
+              <Text style={styles.emptySubtext}>
+                {t('purchaseOrders.noOrdersHint')}
+              </Text>
+            </Card>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+// Suggestions Tab Component
+function SuggestionsTab() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { formatPrice } = useCurrencyFormatter();
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+
+  const {
+    data: suggestions = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = usePurchaseOrderSuggestions();
+  const { createPurchaseOrder } = usePurchaseOrderMutations();
+
+  const handleCreateDraft = async (suggestion: PurchaseOrderSuggestion) => {
+    try {
+      setCreatingFor(suggestion.supplier_id);
+      const { id, poNumber } = await createPurchaseOrder.mutateAsync({
+        supplier_id: suggestion.supplier_id,
+        items: suggestion.items.map((item) => ({
+          product_id: item.product_id,
+          quantity: item.suggested_quantity,
+          unit_cost: item.unit_cost,
+        })),
+      });
+      showToast(
+        t('purchaseOrders.draftCreated', { number: poNumber }),
+        'success',
+      );
+      router.push(`/(drawer)/purchase-order-detail?id=${id}` as any);
+    } catch (error) {
+      console.error('Error creating purchase order from suggestion:', error);
+      Alert.alert(
+        t('common.error'),
+        error instanceof Error
+          ? error.message
+          : t('purchaseOrders.failedToSave'),
+      );
+    } finally {
+      setCreatingFor(null);
+    }
+  };
+
+  const renderSuggestion = ({ item }: { item: PurchaseOrderSuggestion }) => {
+    const total = item.items.reduce(
+      (sum, line) => sum + line.suggested_quantity * line.unit_cost,
+      0,
+    );
+    const creating = creatingFor === item.supplier_id;
+
+    return (
+      <Card style={styles.orderCard}>
+        <View style={styles.orderHeader}>
+          <Text style={styles.orderNumber} weight="bold" numberOfLines={1}>
+            {item.supplier_name}
+          </Text>
+          <Text style={styles.orderTotal} weight="bold">
+            {formatPrice(total)}
+          </Text>
+        </View>
+        {item.items.map((line) => (
+          <View key={line.product_id} style={styles.suggestionLine}>
+            <View style={styles.suggestionInfo}>
+              <Text style={styles.suggestionName} numberOfLines={1}>
+                {line.product_name}
+              </Text>
+              <Text style={styles.orderMeta}>
+                {t('purchaseOrders.suggestionStock', {
+                  current: line.current_stock,
+                  min: line.min_stock,
+                  onOrder: line.on_order,
+                })}
+              </Text>
+            </View>
+            <Text style={styles.suggestionQuantity} weight="bold">
+              ×{line.suggested_quantity}
+            </Text>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={[styles.primaryButton, creating && styles.buttonDisabled]}
+          onPress={() => handleCreateDraft(item)}
+          disabled={creatingFor !== null}
+        >
+          {creating ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText} weight="medium">
+              {t('purchaseOrders.createDraft')}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <FlatList
+      data={suggestions}
+      keyExtractor={(item) => item.supplier_id}
+      renderItem={renderSuggestion}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        suggestions.length > 0 ? (
+          <Text style={styles.hintText}>
+            {t('purchaseOrders.suggestionsHint')}
+          </Text>
+        ) : null
+      }
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={() => refetch()}
+          colors={['#059669']}
+          tintColor={'#059669'}
+        />
+      }
+      ListEmptyComponent={
+        <Card style={styles.emptyCard}>
+          <Lightbulb size={48} color="#D1D5DB" />
+          <Text style={styles.emptyText}>
+            {t('purchaseOrders.noSuggestions')}
+          </Text>
+          <Text style={styles.emptySubtext}>
+            {t('purchaseOrders.noSuggestionsHint')}
+          </Text>
+        </Card>
+      }
+    />
+  );
+}
+
+// Payables Tab Component
+function PayablesTab() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const {
+    data: payables = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useSupplierPayables();
+
+  const totalBalance = payables.reduce(
+    (sum, payable) => sum + Math.max(0, payable.balance),
+    0,
+  );
+
+  const renderPayable = ({ item }: { item: SupplierPayable }) => (
+    <TouchableOpacity
+      onPress={() =>
+        router.push(`/(drawer)/supplier-detail?id=${item.supplier_id}` as any)
+      }
+    >
+      <Card style={styles.payableCard}>
+        <View style={styles.payableInfo}>
+          <Text style={styles.orderNumber} weight="bold" numberOfLines={1}>
+            {item.supplier_name}
+          </Text>
+          <Text style={styles.orderMeta}>
+            {t('purchaseOrders.receivedAndPaid', {
+              received: formatPrice(item.received_value),
+              paid: formatPrice(item.paid_amount),
+            })}
+          </Text>
+          {item.open_orders > 0 && (
+            <Text style={styles.orderMeta}>
+              {t('purchaseOrders.openOrders', { count: item.open_orders })}
+            </Text>
+          )}
+        </View>
+        <Text
+          style={[
+            styles.payableBalance,
+            item.balance <= 0 && styles.payableSettled,
+          ]}
+          weight="bold"
+        >
+          {formatPrice(item.balance)}
+        </Text>
+        <ChevronRight size={18} color="#9CA3AF" />
+      </Card>
+    </TouchableOpacity>
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <FlatList
+      data={payables}
+      keyExtractor={(item) => item.supplier_id}
+      renderItem={renderPayable}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        payables.length > 0 ? (
+          <Card style={styles.totalCard}>
+            <Text style={styles.totalLabel}>
+              {t('purchaseOrders.totalPayable')}
+            </Text>
+            <Text style={styles.totalValue} weight="bold">
+              {formatPrice(totalBalance)}
+            </Text>
+          </Card>
+        ) : null
+      }
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={() => refetch()}
+          colors={['#059669']}
+          tintColor={'#059669'}
+        />
+      }
+      ListEmptyComponent={
+        <Card style={styles.emptyCard}>
+          <Wallet size={48} color="#D1D5DB" />
+          <Text style={styles.emptyText}>{t('purchaseOrders.noPayables')}</Text>
+        </Card>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  tabsContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#059669',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  tabTextActive: {
+    color: '#059669',
+  },
+  tabContent: {
+    flex: 1,
+  },
+  filters: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    paddingVertical: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#059669',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  orderCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  orderNumber: {
+    fontSize: 16,
+    color: '#111827',
+    flexShrink: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+  },
+  orderSupplier: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  orderFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  orderMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  orderTotal: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  suggestionLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionName: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  suggestionQuantity: {
+    fontSize: 16,
+    color: '#059669',
+    marginLeft: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  payableCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    gap: 8,
+  },
+  payableInfo: {
+    flex: 1,
+  },
+  payableBalance: {
+    fontSize: 16,
+    color: '#D97706',
+  },
+  payableSettled: {
+    color: '#059669',
+  },
+  totalCard: {
+    padding: 16,
+    marginBottom: 16,
+    backgroundColor: '#FEF3C7',
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#92400E',
+  },
+  totalValue: {
+    fontSize: 24,
+    color: '#D97706',
+    marginTop: 4,
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#059669',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -5,34 +5,44 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
-  Modal,
-  ActivityIndicator,
   PixelRatio,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { Card } from '@/components/Card';
-import { useSaleItems, useSaleMutations } from '@/hooks/useQueries';
-import { useDatabase } from '@/context/DatabaseContext';
+import {
+  useSaleItems,
+  useSaleReturns,
+  useSalePromotions,
+  useSaleDebtBalance,
+  useDebtPayments,
+  useDebtPaymentMutations,
+  useCustomerLoyalty,
+  useCustomerDebtBalance,
+  useLoyaltySettings,
+} from '@/hooks/useQueries';
 import { useCurrencyFormatter } from '@/context/CurrencyContext';
 import {
   ArrowLeft,
   MoreVertical,
   FileText,
-  Trash2,
+  RotateCcw,
   Printer,
   ImageIcon,
+  XCircle,
 } from 'lucide-react-native';
 import { captureRef } from 'react-native-view-shot';
 import * as Sharing from 'expo-sharing';
 import { useToast } from '@/context/ToastContext';
 import { useTranslation } from '@/context/LocalizationContext';
 import { EnhancedPrintManager } from '@/components/EnhancedPrintManager';
-import {
-  PaymentMethodService,
-  type PaymentMethod,
-} from '@/services/paymentMethodService';
+import { PrintQueueStatus } from '@/components/PrintQueueStatus';
+import { DebtPaymentModal } from '@/components/DebtPaymentModal';
+import { SaleReturnModal } from '@/components/SaleReturnModal';
+import type { SaleReturn } from '@/services/database';
+import { buildTaxBreakdown } from '@/utils/taxUtils';
+import { useStaff } from '@/context/StaffContext';
 
 /**
  * Sale Detail Page
@@ -42,9 +52,9 @@ import {
 export default function SaleDetail() {
   const { showToast } = useToast();
   const { t } = useTranslation();
+  const { can } = useStaff();
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { db } = useDatabase();
 
   // Parse sale data from params
   const sale = params.sale ? JSON.parse(params.sale as string) : null;
@@ -55,29 +65,54 @@ export default function SaleDetail() {
   const [receiptData, setReceiptData] = useState<any>(null);
   const [capturing, setCapturing] = useState(false);
   const [showRecordPaymentModal, setShowRecordPaymentModal] = useState(false);
-  const [recordingPayment, setRecordingPayment] = useState(false);
-  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [showReturnModal, setShowReturnModal] = useState(false);
 
   const saleDetailRef = useRef(null);
   const { formatPrice } = useCurrencyFormatter();
-  const { deleteSale } = useSaleMutations();
 
   const { data: saleItems = [], isLoading: saleItemsLoading } = useSaleItems(
     sale?.id || 0,
   );
+  const { data: saleReturns = [] } = useSaleReturns(sale?.id || '');
+  const { data: salePromotions = [] } = useSalePromotions(sale?.id || '');
+  const { data: customerLoyalty } = useCustomerLoyalty(sale?.customer_id);
+  const { data: customerDebtBalance = 0 } = useCustomerDebtBalance(
+    sale?.customer_id || '',
+  );
+  const { data: loyaltySettings } = useLoyaltySettings();
 
-  // Load payment methods
-  React.useEffect(() => {
-    const loadPaymentMethods = async () => {
-      try {
-        const methods = await PaymentMethodService.getPaymentMethods();
-        setPaymentMethods(methods);
-      } catch (error) {
-        console.error('Error loading payment methods:', error);
-      }
-    };
-    loadPaymentMethods();
-  }, []);
+  const returnedQuantities: Record<string, number> = {};
+  for (const saleReturn of saleReturns) {
+    for (const item of saleReturn.items || []) {
+      returnedQuantities[item.sale_item_id] =
+        (returnedQuantities[item.sale_item_id] || 0) + item.quantity;
+    }
+  }
+  const totalRefunded = saleReturns.reduce(
+    (sum, saleReturn) => sum + saleReturn.refund_amount,
+    0,
+  );
+  const taxBreakdown = buildTaxBreakdown(
+    saleItems.map((item) => ({
+      tax_name: item.tax_name,
+      tax_rate: item.tax_rate || 0,
+      tax_inclusive: item.tax_inclusive || 0,
+      tax_amount: item.tax_amount || 0,
+      subtotal: item.subtotal,
+    })),
+  );
+  const hasReturnableItems = saleItems.some(
+    (item) => item.quantity - (returnedQuantities[item.id] || 0) > 0,
+  );
+
+  const isDebtSale = sale?.payment_method === 'Debt';
+  const { data: debtOutstanding = 0 } = useSaleDebtBalance(
+    isDebtSale ? sale.id : '',
+  );
+  const { data: debtPayments = [] } = useDebtPayments(
+    isDebtSale ? { saleId: sale.id } : undefined,
+  );
+  const { voidDebtPayment } = useDebtPaymentMutations();
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -93,6 +128,10 @@ export default function SaleDetail() {
     });
   };
 
+  const orderDiscountLabel = sale?.coupon_code
+    ? t('orderDiscount.couponLabel', { code: sale.coupon_code })
+    : sale?.order_discount_reason || t('orderDiscount.title');
+
   const prepareReceiptData = () => {
     if (!sale || !saleItems) return null;
 
@@ -104,16 +143,44 @@ export default function SaleDetail() {
       },
       quantity: item.quantity,
       discount: item.discount || 0,
-      subtotal: item.subtotal,
+      // Promotions, the order discount and points are listed as their own
+      // lines under the items
+      subtotal:
+        item.subtotal +
+        (item.promotion_discount || 0) +
+        (item.order_discount || 0) +
+        (item.loyalty_discount || 0),
     }));
 
     return {
       voucherId: sale.voucher_id,
       items: formattedItems,
       total: sale.total,
+      taxBreakdown,
+      promotions: salePromotions.map((promotion) => ({
+        name: promotion.promotion_name,
+        discount: promotion.discount,
+      })),
+      orderDiscount: sale.order_discount
+        ? { label: orderDiscountLabel, amount: sale.order_discount }
+        : undefined,
+      // Reprints show the customer's balance as it is now
+      loyalty:
+        customerLoyalty && loyaltySettings?.enabled
+          ? {
+              pointsRedeemed: sale.loyalty_points_redeemed || 0,
+              discount: sale.loyalty_discount || 0,
+              payment: sale.loyalty_payment || 0,
+              pointsEarned: sale.loyalty_points_earned || 0,
+              balance: customerLoyalty.balance,
+            }
+          : undefined,
       paymentMethod: sale.payment_method,
       note: sale.note || '',
       date: new Date(sale.created_at),
+      customer: sale.customer_name
+        ? { name: sale.customer_name, debtBalance: customerDebtBalance }
+        : undefined,
     };
   };
 
@@ -126,6 +193,32 @@ export default function SaleDetail() {
     }
   };
 
+  const handlePrintCreditReceipt = (saleReturn: SaleReturn) => {
+    if (!sale) return;
+
+    setReceiptData({
+      voucherId: saleReturn.return_number,
+      items: (saleReturn.items || []).map((item) => ({
+        product: {
+          id: item.product_id,
+          name: item.product_name || 'Unknown Product',
+          price: item.price,
+        },
+        quantity: item.quantity,
+        discount: 0,
+        subtotal: item.refund_amount,
+      })),
+      total: saleReturn.refund_amount,
+      paymentMethod: saleReturn.refund_method,
+      date: new Date(saleReturn.created_at),
+      creditNote: {
+        originalReceiptId: sale.voucher_id,
+        reason: saleReturn.reason,
+      },
+    });
+    setShowPrintManager(true);
+  };
+
   const captureSaleDetail = async () => {
     if (!saleDetailRef.current || !sale) return;
 
@@ -165,32 +258,9 @@ export default function SaleDetail() {
     }
   };
 
-  const handleDeleteSale = async () => {
-    if (!sale) return;
-
+  const handleReturnItems = () => {
     setShowActionsMenu(false);
-
-    Alert.alert(
-      t('sales.deleteSale'),
-      t('sales.deleteSaleConfirm', { saleId: sale.voucher_id }),
-      [
-        { text: t('common.cancel'), style: 'cancel' },
-        {
-          text: t('common.delete'),
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteSale.mutateAsync(sale.id);
-              showToast(t('sales.saleDeletedSuccessfully'), 'success');
-              router.back();
-            } catch (error) {
-              console.error('Error deleting sale:', error);
-              Alert.alert(t('common.error'), t('sales.failedToDeleteSale'));
-            }
-          },
-        },
-      ],
-    );
+    setShowReturnModal(true);
   };
 
   const handleRecordDebtPayment = () => {
@@ -198,21 +268,23 @@ export default function SaleDetail() {
     setShowRecordPaymentModal(true);
   };
 
-  const handlePaymentMethodSelection = async (paymentMethodName: string) => {
-    if (!sale || !db) return;
-
-    try {
-      setRecordingPayment(true);
-      await db.updateSalePaymentMethod(sale.id, paymentMethodName);
-      showToast(t('debt.paymentRecorded'), 'success');
-      setShowRecordPaymentModal(false);
-      router.back();
-    } catch (error) {
-      console.error('Error recording debt payment:', error);
-      Alert.alert(t('common.error'), t('common.error'));
-    } finally {
-      setRecordingPayment(false);
-    }
+  const handleVoidDebtPayment = (paymentId: string) => {
+    Alert.alert(t('debt.voidPayment'), t('debt.voidPaymentConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('debt.voidPayment'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await voidDebtPayment.mutateAsync({ paymentId });
+            showToast(t('debt.paymentVoided'), 'success');
+          } catch (error) {
+            console.error('Error voiding debt payment:', error);
+            Alert.alert(t('common.error'), t('debt.failedToVoidPayment'));
+          }
+        },
+      },
+    ]);
   };
 
   if (!sale) {
@@ -287,7 +359,7 @@ export default function SaleDetail() {
             </TouchableOpacity>
 
             {/* Record Debt Payment */}
-            {sale.payment_method === 'Debt' && (
+            {isDebtSale && debtOutstanding > 0 && sale.customer_id && (
               <>
                 <View style={styles.actionsMenuDivider} />
                 <TouchableOpacity
@@ -302,22 +374,28 @@ export default function SaleDetail() {
               </>
             )}
 
-            <View style={styles.actionsMenuDivider} />
-
-            {/* Delete */}
-            <TouchableOpacity
-              style={styles.actionsMenuItem}
-              onPress={handleDeleteSale}
-            >
-              <Trash2 size={18} color="#EF4444" />
-              <Text style={[styles.actionsMenuItemText, styles.deleteText]}>
-                {t('sales.deleteSale')}
-              </Text>
-            </TouchableOpacity>
+            {/* Return Items */}
+            {hasReturnableItems && can('sales.refund') && (
+              <>
+                <View style={styles.actionsMenuDivider} />
+                <TouchableOpacity
+                  style={styles.actionsMenuItem}
+                  onPress={handleReturnItems}
+                >
+                  <RotateCcw size={18} color="#EF4444" />
+                  <Text style={[styles.actionsMenuItemText, styles.deleteText]}>
+                    {t('returns.returnItems')}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
         )}
       </View>
 
+      {/* Reprints go through the print queue */}
+      <PrintQueueStatus />
+
       {/* Content */}
       <ScrollView style={styles.content}>
         <View
@@ -366,6 +444,12 @@ export default function SaleDetail() {
                 </TouchableOpacity>
               </View>
             )}
+            {sale.staff_name && (
+              <View style={styles.saleDetailRow}>
+                <Text style={styles.saleDetailLabel}>{t('staff.cashier')}</Text>
+                <Text style={styles.saleDetailValue}>{sale.staff_name}</Text>
+              </View>
+            )}
             <View style={styles.saleDetailRow}>
               <Text style={styles.saleDetailLabel}>
                 {t('sales.paymentMethod')}
@@ -446,7 +530,12 @@ export default function SaleDetail() {
                 </View>
                 <View style={styles.saleItemPricing}>
                   <Text style={styles.saleItemSubtotal}>
-                    {formatPrice(item.subtotal)}
+                    {formatPrice(
+                      item.subtotal +
+                        (item.promotion_discount || 0) +
+                        (item.order_discount || 0) +
+                        (item.loyalty_discount || 0),
+                    )}
                   </Text>
                   {!isCustomerVoucher && (
                     <Text style={styles.saleItemProfit}>
@@ -458,6 +547,54 @@ export default function SaleDetail() {
               </View>
             ))}
 
+            {salePromotions.map((promotion) => (
+              <View key={promotion.id} style={styles.saleItemRow}>
+                <Text style={styles.saleItemDetails}>
+                  {promotion.promotion_name}
+                </Text>
+                <Text style={styles.saleItemDiscount}>
+                  -{formatPrice(promotion.discount)}
+                </Text>
+              </View>
+            ))}
+
+            {!!sale.order_discount && (
+              <View style={styles.saleItemRow}>
+                <Text style={styles.saleItemDetails}>{orderDiscountLabel}</Text>
+                <Text style={styles.saleItemDiscount}>
+                  -{formatPrice(sale.order_discount)}
+                </Text>
+              </View>
+            )}
+
+            {!!sale.loyalty_discount && (
+              <View style={styles.saleItemRow}>
+                <Text style={styles.saleItemDetails}>
+                  {t('loyalty.pointsDiscount', {
+                    points: sale.loyalty_points_redeemed || 0,
+                  })}
+                </Text>
+                <Text style={styles.saleItemDiscount}>
+                  -{formatPrice(sale.loyalty_discount)}
+                </Text>
+              </View>
+            )}
+
+            {taxBreakdown.map((taxLine) => (
+              <View
+                key={`${taxLine.name}-${taxLine.rate}-${taxLine.inclusive}`}
+                style={styles.saleItemRow}
+              >
+                <Text style={styles.saleItemDetails}>
+                  {taxLine.name} ({taxLine.rate}%
+                  {taxLine.inclusive ? `, ${t('tax.included')}` : ''})
+                </Text>
+                <Text style={styles.saleItemSubtotal}>
+                  {formatPrice(taxLine.amount)}
+                </Text>
+              </View>
+            ))}
+
             <View style={styles.saleItemsTotal}>
               <Text style={styles.saleItemsTotalLabel}>
                 {t('sales.totalItems')} {saleItems.length}
@@ -466,7 +603,124 @@ export default function SaleDetail() {
                 {formatPrice(sale.total)}
               </Text>
             </View>
+
+            {!!sale.loyalty_payment && (
+              <View style={styles.saleItemRow}>
+                <Text style={styles.saleItemDetails}>
+                  {t('loyalty.paidWithPoints')} ({sale.loyalty_points_redeemed})
+                </Text>
+                <Text style={styles.saleItemDiscount}>
+                  -{formatPrice(sale.loyalty_payment)}
+                </Text>
+              </View>
+            )}
+            {!!sale.loyalty_points_earned && (
+              <View style={styles.saleItemRow}>
+                <Text style={styles.saleItemDetails}>
+                  {t('loyalty.pointsEarned')}
+                </Text>
+                <Text style={styles.saleItemSubtotal}>
+                  {sale.loyalty_points_earned}
+                </Text>
+              </View>
+            )}
           </Card>
+
+          {saleReturns.length > 0 && (
+            <Card style={styles.saleDetailCard}>
+              <Text style={styles.saleDetailTitle}>{t('returns.returns')}</Text>
+              {saleReturns.map((saleReturn) => (
+                <View key={saleReturn.id} style={styles.saleItemRow}>
+                  <View style={styles.saleItemInfo}>
+                    <Text style={styles.saleItemName}>
+                      #{saleReturn.return_number} • {saleReturn.refund_method}
+                    </Text>
+                    <Text style={styles.saleItemDetails}>
+                      {formatDate(saleReturn.created_at)}
+                      {saleReturn.reason ? ` • ${saleReturn.reason}` : ''}
+                    </Text>
+                    {(saleReturn.items || []).map((item) => (
+                      <Text key={item.id} style={styles.saleItemDetails}>
+                        {item.quantity} × {item.product_name}
+                        {item.restocked ? '' : ` (${t('returns.writtenOff')})`}
+                      </Text>
+                    ))}
+                  </View>
+                  <View style={styles.debtPaymentActions}>
+                    <Text
+                      style={[styles.saleItemSubtotal, styles.refundAmount]}
+                    >
+                      -{formatPrice(saleReturn.refund_amount)}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => handlePrintCreditReceipt(saleReturn)}
+                      accessibilityLabel={t('returns.printCreditReceipt')}
+                    >
+                      <Printer size={18} color="#0284C7" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+
+              <View style={styles.saleItemsTotal}>
+                <Text style={styles.saleItemsTotalLabel}>
+                  {t('returns.netTotal')}
+                </Text>
+                <Text style={styles.saleItemsTotalValue}>
+                  {formatPrice(sale.total - totalRefunded)}
+                </Text>
+              </View>
+            </Card>
+          )}
+
+          {isDebtSale && (
+            <Card style={styles.saleDetailCard}>
+              <Text style={styles.saleDetailTitle}>
+                {t('debt.debtPayments')}
+              </Text>
+              {debtPayments.length === 0 ? (
+                <Text style={styles.debtPaymentEmpty}>
+                  {t('debt.noPaymentsYet')}
+                </Text>
+              ) : (
+                debtPayments.map((payment) => (
+                  <View key={payment.id} style={styles.saleItemRow}>
+                    <View style={styles.saleItemInfo}>
+                      <Text style={styles.saleItemName}>
+                        {payment.payment_method}
+                      </Text>
+                      <Text style={styles.saleItemDetails}>
+                        {formatDate(payment.payment_date)}
+                        {payment.note ? ` • ${payment.note}` : ''}
+                      </Text>
+                    </View>
+                    <View style={styles.debtPaymentActions}>
+                      <Text style={styles.saleItemSubtotal}>
+                        {formatPrice(payment.amount)}
+                      </Text>
+                      <TouchableOpacity
+                        onPress={() => handleVoidDebtPayment(payment.id)}
+                        accessibilityLabel={t('debt.voidPayment')}
+                      >
+                        <XCircle size={18} color="#EF4444" />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))
+              )}
+
+              <View style={styles.saleItemsTotal}>
+                <Text style={styles.saleItemsTotalLabel}>
+                  {t('debt.outstandingDebt')}
+                </Text>
+                <Text
+                  style={[styles.saleItemsTotalValue, styles.debtOutstanding]}
+                >
+                  {formatPrice(debtOutstanding)}
+                </Text>
+              </View>
+            </Card>
+          )}
         </View>
       </ScrollView>
 
@@ -482,72 +736,27 @@ export default function SaleDetail() {
         />
       )}
 
-      {/* Record Debt Payment Modal */}
-      <Modal
-        visible={showRecordPaymentModal}
-        transparent={true}
-        animationType="fade"
-        onRequestClose={() => setShowRecordPaymentModal(false)}
-      >
-        <View style={styles.recordPaymentModalOverlay}>
-          <View style={styles.recordPaymentModalContainer}>
-            <View style={styles.recordPaymentModalHeader}>
-              <Text style={styles.recordPaymentModalTitle} weight="bold">
-                {t('debt.recordDebtPayment')}
-              </Text>
-              <TouchableOpacity
-                onPress={() => setShowRecordPaymentModal(false)}
-                disabled={recordingPayment}
-              >
-                <Text style={styles.closeText}>{t('common.cancel')}</Text>
-              </TouchableOpacity>
-            </View>
-
-            <Text style={styles.recordPaymentModalDescription}>
-              {t('sales.selectPaymentMethod')}
-            </Text>
+      {/* Sale Return Modal */}
+      <SaleReturnModal
+        visible={showReturnModal}
+        sale={sale}
+        saleItems={saleItems}
+        returnedQuantities={returnedQuantities}
+        debtOutstanding={debtOutstanding}
+        onClose={() => setShowReturnModal(false)}
+        onReturned={handlePrintCreditReceipt}
+      />
 
-            <View style={styles.paymentMethodOptionsContainer}>
-              {paymentMethods
-                .filter((method) => method.id !== 'debt')
-                .map((method) => (
-                  <TouchableOpacity
-                    key={method.id}
-                    style={styles.paymentMethodOption}
-                    onPress={() => handlePaymentMethodSelection(method.name)}
-                    disabled={recordingPayment}
-                  >
-                    <View
-                      style={[
-                        styles.paymentMethodOptionIcon,
-                        { backgroundColor: method.color + '20' },
-                      ]}
-                    >
-                      <Text style={styles.paymentMethodOptionIconText}>
-                        {method.name.charAt(0).toUpperCase()}
-                      </Text>
-                    </View>
-                    <Text
-                      style={styles.paymentMethodOptionText}
-                      weight="medium"
-                    >
-                      {method.name}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-            </View>
-
-            {recordingPayment && (
-              <View style={styles.recordingPaymentIndicator}>
-                <ActivityIndicator size="small" color="#F59E0B" />
-                <Text style={styles.recordingPaymentText}>
-                  {t('sales.recordingPayment')}
-                </Text>
-              </View>
-            )}
-          </View>
-        </View>
-      </Modal>
+      {/* Record Debt Payment Modal */}
+      {isDebtSale && sale.customer_id && (
+        <DebtPaymentModal
+          visible={showRecordPaymentModal}
+          customerId={sale.customer_id}
+          saleId={sale.id}
+          outstanding={debtOutstanding}
+          onClose={() => setShowRecordPaymentModal(false)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -714,77 +923,20 @@ const styles = StyleSheet.create({
     color: '#059669',
     fontWeight: '700',
   },
-  recordPaymentModalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 20,
-  },
-  recordPaymentModalContainer: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 16,
-    padding: 24,
-    width: '100%',
-    maxWidth: 400,
-  },
-  recordPaymentModalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  recordPaymentModalTitle: {
-    fontSize: 20,
-    color: '#111827',
-  },
-  closeText: {
-    fontSize: 16,
+  debtPaymentEmpty: {
+    fontSize: 14,
     color: '#6B7280',
+    paddingVertical: 8,
   },
-  recordPaymentModalDescription: {
-    fontSize: 16,
-    color: '#4B5563',
-    marginBottom: 20,
-  },
-  paymentMethodOptionsContainer: {
-    gap: 12,
-    marginBottom: 20,
-  },
-  paymentMethodOption: {
+  debtPaymentActions: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 12,
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#E5E7EB',
-    backgroundColor: '#F9FAFB',
   },
-  paymentMethodOptionIcon: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  paymentMethodOptionIconText: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#111827',
-  },
-  paymentMethodOptionText: {
-    fontSize: 16,
-    color: '#111827',
-  },
-  recordingPaymentIndicator: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 8,
+  refundAmount: {
+    color: '#EF4444',
   },
-  recordingPaymentText: {
-    fontSize: 14,
-    color: '#F59E0B',
+  debtOutstanding: {
+    color: '#D97706',
   },
 });
@@ -31,6 +31,13 @@ import {
   useSalesSummary,
   useSalesSummaryByDateRange,
   useAllSalesForExport,
+  useTaxRates,
+  usePromotions,
+  useHeldCarts,
+  useHeldCartMutations,
+  useAllowNegativeStock,
+  useCustomerLoyalty,
+  useLoyaltySettings,
 } from '@/hooks/useQueries';
 import { useDebounce } from '@/hooks/useDebounce';
 import {
@@ -38,7 +45,14 @@ import {
   useInfiniteSalesByDateRange,
 } from '@/hooks/useInfiniteQueries';
 import { useDatabase } from '@/context/DatabaseContext';
-import { Product, Category, Customer } from '@/services/database';
+import {
+  Product,
+  Category,
+  Customer,
+  HeldCart,
+  InsufficientPointsError,
+  InsufficientStockError,
+} from '@/services/database';
 import { CustomerSelector } from '@/components/CustomerSelector';
 import { useCurrencyFormatter } from '@/context/CurrencyContext';
 import {
@@ -59,6 +73,7 @@ import {
   Image as ImageIcon,
   Printer,
   List,
+  PauseCircle,
 } from 'lucide-react-native';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
 import DateTimePicker from '@react-native-community/datetimepicker';
@@ -70,6 +85,9 @@ import { captureRef } from 'react-native-view-shot';
 import { useToast } from '@/context/ToastContext';
 import { useTranslation } from '@/context/LocalizationContext';
 import { CompleteSaleModal } from '@/components/CompleteSaleModal';
+import { HeldCartsModal } from '@/components/HeldCartsModal';
+import { PrintQueueStatus } from '@/components/PrintQueueStatus';
+import { VariantPickerModal } from '@/components/VariantPickerModal';
 import { CashCalculatorModal } from '@/components/CashCalculatorModal';
 import { EnhancedPrintManager } from '@/components/EnhancedPrintManager';
 import { BulkPricingIndicator } from '@/components/BulkPricingIndicator';
@@ -77,6 +95,24 @@ import {
   calculateBulkPrice,
   calculateCartTotalWithBulkPricing,
 } from '@/utils/bulkPricingUtils';
+import {
+  buildTaxBreakdown,
+  calculateTax,
+  resolveProductTaxRate,
+} from '@/utils/taxUtils';
+import { applyPromotions } from '@/utils/promotionUtils';
+import {
+  CouponError,
+  OrderDiscount,
+  allocateOrderDiscount,
+  calculateOrderDiscount,
+} from '@/utils/discountUtils';
+import {
+  LoyaltyRedemption,
+  calculateEarnedPoints,
+  getMaxRedeemablePoints,
+  getRedemptionAmount,
+} from '@/utils/loyaltyUtils';
 import { SaleDateTimeSelector } from '@/components/SaleDateTimeSelector';
 import { convertISOToDBFormat } from '@/utils/dateUtils';
 import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
@@ -135,8 +171,9 @@ export default function Sale() {
     context: 'sales',
     onProductFound: async (product) => {
       await addToCart(product);
-      // Only close scanner if continuous scanning is disabled
-      if (!continuousScanning) {
+      // Only close scanner if continuous scanning is disabled, or to let
+      // the cashier pick a variant
+      if (!continuousScanning || product.variant_count) {
         setShowScanner(false);
       }
     },
@@ -150,6 +187,7 @@ export default function Sale() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [showProductDialog, setShowProductDialog] = useState(false);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
   const [showScanner, setShowScanner] = useState(false);
   const [continuousScanning, setContinuousScanning] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -164,6 +202,13 @@ export default function Sale() {
     useState<PaymentMethod | null>(null);
   const [saleDateTime, setSaleDateTime] = useState<Date>(new Date());
   const [showDateTimeSelector, setShowDateTimeSelector] = useState(false);
+  const [showHeldCarts, setShowHeldCarts] = useState(false);
+  const [heldNote, setHeldNote] = useState('');
+  const [orderDiscount, setOrderDiscount] = useState<OrderDiscount | null>(
+    null,
+  );
+  const [loyaltyRedemption, setLoyaltyRedemption] =
+    useState<LoyaltyRedemption | null>(null);
   const [showCalculator, setShowCalculator] = useState(false);
   const [calculatorData, setCalculatorData] = useState<{
     amountGiven: number;
@@ -199,8 +244,17 @@ export default function Sale() {
 
   const { data: categories = [], isLoading: categoriesLoading } =
     useCategoriesWithCounts();
+  // Full category rows carry tax_rate_id, the counts query does not
+  const { data: taxCategories = [] } = useCategories();
+  const { data: taxRates = [] } = useTaxRates();
+  const { data: promotions = [] } = usePromotions();
+  const { data: loyaltySettings } = useLoyaltySettings();
+  const { data: customerLoyalty } = useCustomerLoyalty(selectedCustomer?.id);
 
   const { addSale } = useSaleMutations();
+  const { data: allowNegativeStock = false } = useAllowNegativeStock();
+  const { data: heldCarts = [] } = useHeldCarts();
+  const { holdCart, resumeHeldCart } = useHeldCartMutations();
 
   // Load default payment method on mount
   useEffect(() => {
@@ -236,8 +290,24 @@ export default function Sale() {
   useEffect(() => {
     // Calculate total considering both bulk pricing and manual discounts
     const cartTotals = getCartTotals();
-    setTotal(cartTotals.bulkTotal);
-  }, [cart]);
+    setTotal(cartTotals.grandTotal);
+  }, [
+    cart,
+    taxCategories,
+    taxRates,
+    promotions,
+    orderDiscount,
+    loyaltyRedemption,
+    loyaltySettings,
+    customerLoyalty,
+    showDateTimeSelector,
+    saleDateTime,
+  ]);
+
+  // Points belong to the customer they were entered for
+  useEffect(() => {
+    setLoyaltyRedemption(null);
+  }, [selectedCustomer?.id]);
 
   // Helper function to get bulk price per unit for an item
   const getBulkPricePerUnit = (item: CartItem) => {
@@ -253,6 +323,10 @@ export default function Sale() {
     return bulkTotalPrice / item.quantity;
   };
 
+  // Out-of-stock products can only be sold when negative stock is allowed
+  const isBlockedByStock = (product: Product) =>
+    !allowNegativeStock && product.quantity <= 0;
+
   // Helper function to check if a product is in the cart
   const isProductInCart = (productId: string) => {
     return cart.some((item) => item.product.id === productId);
@@ -264,6 +338,11 @@ export default function Sale() {
     let finalTotal = 0;
     let totalBulkSavings = 0;
     let totalManualSavings = 0;
+    let totalPromotionSavings = 0;
+    let totalOrderSavings = 0;
+    let totalLoyaltySavings = 0;
+    let taxTotal = 0;
+    let exclusiveTax = 0;
 
     // Calculate bulk pricing first
     const cartForBulkPricing = cart.map((item) => ({
@@ -273,8 +352,61 @@ export default function Sale() {
     const bulkPricingTotals =
       calculateCartTotalWithBulkPricing(cartForBulkPricing);
 
+    // Promotions run on what each line costs after bulk and manual discounts,
+    // at the time the sale will be recorded
+    const promotionTotals = applyPromotions(
+      cart.map((item) => ({
+        productId: item.product.id,
+        categoryId: item.product.category_id,
+        unitPrice: item.subtotal / item.quantity,
+        quantity: item.quantity,
+      })),
+      promotions,
+      showDateTimeSelector ? saleDateTime : new Date(),
+    );
+
+    // The order discount comes off what is left after promotions and is
+    // shared between the lines before tax
+    const lineAmounts = cart.map(
+      (item) =>
+        item.subtotal - (promotionTotals.lineDiscounts[item.product.id] || 0),
+    );
+    const subtotalBeforeOrderDiscount = lineAmounts.reduce(
+      (sum, amount) => sum + amount,
+      0,
+    );
+    const orderDiscountAmount = calculateOrderDiscount(
+      subtotalBeforeOrderDiscount,
+      orderDiscount,
+    );
+    const orderDiscountShares = allocateOrderDiscount(
+      lineAmounts,
+      orderDiscountAmount,
+    );
+
+    // Points redeemed as a discount come off next, shared the same way
+    const loyaltyActive = !!selectedCustomer && !!loyaltySettings?.enabled;
+    const redemption = loyaltyActive ? loyaltyRedemption : null;
+    const redemptionMode = redemption?.mode || 'payment';
+    const linesAfterOrderDiscount = lineAmounts.map(
+      (amount, index) => amount - orderDiscountShares[index],
+    );
+    const subtotalBeforeLoyalty =
+      subtotalBeforeOrderDiscount - orderDiscountAmount;
+    const loyaltyDiscount =
+      redemption?.mode === 'discount'
+        ? Math.min(
+            getRedemptionAmount(redemption.points, loyaltySettings!),
+            subtotalBeforeLoyalty,
+          )
+        : 0;
+    const loyaltyShares = allocateOrderDiscount(
+      linesAfterOrderDiscount,
+      loyaltyDiscount,
+    );
+
     // Create item breakdown with separate discounts
-    const itemBreakdown = cart.map((item) => {
+    const itemBreakdown = cart.map((item, index) => {
       const itemOriginal = item.product.price * item.quantity;
 
       // Find bulk pricing for this item
@@ -290,23 +422,63 @@ export default function Sale() {
 
       // Step 2: Manual discount is already applied in item.subtotal
       // item.subtotal = afterBulkPrice - item.discount
-      const finalItemPrice = item.subtotal;
       const manualSavings = item.discount;
-
-      const totalItemSavings = bulkSavings + manualSavings;
+      const promotionSavings =
+        promotionTotals.lineDiscounts[item.product.id] || 0;
+      const orderSavings = orderDiscountShares[index];
+      const loyaltySavings = loyaltyShares[index];
+      const finalItemPrice =
+        item.subtotal - promotionSavings - orderSavings - loyaltySavings;
+
+      const totalItemSavings =
+        bulkSavings +
+        manualSavings +
+        promotionSavings +
+        orderSavings +
+        loyaltySavings;
+
+      // Step 3: Tax on the discounted line (product override, else category)
+      const taxRate = resolveProductTaxRate(
+        item.product,
+        taxCategories,
+        taxRates,
+      );
+      const taxInclusive = taxRate ? taxRate.is_inclusive === 1 : false;
+      const { tax } = calculateTax(
+        finalItemPrice,
+        taxRate?.rate || 0,
+        taxInclusive,
+      );
 
       originalTotal += itemOriginal;
       finalTotal += finalItemPrice;
       totalBulkSavings += bulkSavings;
       totalManualSavings += manualSavings;
+      totalPromotionSavings += promotionSavings;
+      totalOrderSavings += orderSavings;
+      totalLoyaltySavings += loyaltySavings;
+      taxTotal += tax;
+      if (!taxInclusive) {
+        exclusiveTax += tax;
+      }
 
       return {
         item: { ...item.product, quantity: item.quantity },
+        tax: {
+          tax_name: taxRate?.name,
+          tax_rate: taxRate?.rate || 0,
+          tax_inclusive: taxInclusive,
+          tax_amount: tax,
+          subtotal: finalItemPrice,
+        },
         pricing: {
           originalPrice: itemOriginal,
           bulkPrice: finalItemPrice,
           bulkSavings: bulkSavings,
           manualSavings: manualSavings,
+          promotionSavings: promotionSavings,
+          orderSavings: orderSavings,
+          loyaltySavings: loyaltySavings,
           totalSavings: totalItemSavings,
           discountPercentage:
             totalItemSavings > 0 ? (totalItemSavings / itemOriginal) * 100 : 0,
@@ -315,12 +487,56 @@ export default function Sale() {
       };
     });
 
+    const grandTotal = finalTotal + exclusiveTax; // Inclusive tax is already in the price
+
+    // Points redeemed as payment settle part of the total like a tender;
+    // points are earned on whatever is left to pay
+    const loyaltyPayment =
+      redemption?.mode === 'payment'
+        ? Math.min(
+            getRedemptionAmount(redemption.points, loyaltySettings!),
+            grandTotal,
+          )
+        : 0;
+    const amountDue = grandTotal - loyaltyPayment;
+
     return {
       originalTotal,
       bulkTotal: finalTotal,
-      totalSavings: totalBulkSavings + totalManualSavings,
+      totalSavings:
+        totalBulkSavings +
+        totalManualSavings +
+        totalPromotionSavings +
+        totalOrderSavings +
+        totalLoyaltySavings,
       bulkSavings: totalBulkSavings,
       manualSavings: totalManualSavings,
+      promotions: promotionTotals.applied,
+      subtotalBeforeOrderDiscount,
+      orderDiscount: orderDiscountAmount,
+      loyaltyDiscount: totalLoyaltySavings,
+      loyaltyPayment,
+      pointsRedeemed: redemption ? redemption.points : 0,
+      pointsEarned: loyaltyActive
+        ? calculateEarnedPoints(
+            amountDue,
+            loyaltySettings!,
+            customerLoyalty?.tier || 'bronze',
+          )
+        : 0,
+      maxRedeemablePoints: loyaltyActive
+        ? getMaxRedeemablePoints(
+            customerLoyalty?.balance || 0,
+            redemptionMode === 'discount' ? subtotalBeforeLoyalty : grandTotal,
+            loyaltySettings!,
+          )
+        : 0,
+      amountDue,
+      taxTotal,
+      grandTotal,
+      taxBreakdown: buildTaxBreakdown(
+        itemBreakdown.map((breakdown) => breakdown.tax),
+      ),
       itemBreakdown,
     };
   };
@@ -337,7 +553,13 @@ export default function Sale() {
   };
 
   const addToCart = async (product: Product) => {
-    if (product.quantity <= 0) {
+    // Products with variants are sold by picking one of their variants
+    if (product.variant_count) {
+      setVariantParent(product);
+      return;
+    }
+
+    if (isBlockedByStock(product)) {
       Alert.alert(t('common.error'), t('sales.outOfStock'));
       return;
     }
@@ -360,7 +582,7 @@ export default function Sale() {
     const existingItem = cart.find((item) => item.product.id === product.id);
 
     if (existingItem) {
-      if (existingItem.quantity >= product.quantity) {
+      if (!allowNegativeStock && existingItem.quantity >= product.quantity) {
         Alert.alert(t('common.error'), t('sales.notEnoughStock'));
         return;
       }
@@ -431,7 +653,7 @@ export default function Sale() {
       return;
     }
 
-    if (newQuantity > item.product.quantity) {
+    if (!allowNegativeStock && newQuantity > item.product.quantity) {
       Alert.alert(t('common.error'), t('sales.notEnoughStock'));
       return;
     }
@@ -563,6 +785,9 @@ export default function Sale() {
   const clearCart = async () => {
     setCart([]);
     setSelectedCustomer(null);
+    setHeldNote('');
+    setOrderDiscount(null);
+    setLoyaltyRedemption(null);
     // Reset payment method to default
     try {
       const defaultMethod =
@@ -584,6 +809,103 @@ export default function Sale() {
     // Don't reset timestamp here - let it be handled by the component logic
   };
 
+  const handleHoldCart = async (label: string, note: string) => {
+    if (cart.length === 0) return;
+
+    try {
+      await holdCart.mutateAsync({
+        label,
+        customer_id: selectedCustomer?.id,
+        note: note || undefined,
+        items: cart.map((item) => ({
+          product_id: item.product.id,
+          quantity: item.quantity,
+          discount: item.discount,
+        })),
+        total,
+      });
+      await clearCart();
+      setShowHeldCarts(false);
+      showToast(t('heldCarts.cartHeld'), 'success');
+    } catch (error) {
+      console.error('Error holding cart:', error);
+      showToast(t('heldCarts.failedToHold'), 'error');
+    }
+  };
+
+  const handleResumeHeldCart = async (heldCart: HeldCart) => {
+    if (cart.length > 0) {
+      Alert.alert(t('heldCarts.cartNotEmpty'), t('heldCarts.clearCartFirst'));
+      return;
+    }
+
+    try {
+      const { products, customer, missingProductIds } =
+        await resumeHeldCart.mutateAsync(heldCart.id);
+
+      // Prices and bulk tiers are re-read so the cart reflects current pricing
+      const resumedCart: CartItem[] = [];
+      heldCart.items.forEach((item) => {
+        const product = products.find((p) => p.id === item.product_id);
+        if (!product) return;
+
+        const { bulkTotal } = calculateCartTotalWithBulkPricing([
+          { ...product, quantity: item.quantity },
+        ]);
+        const discount = Math.min(item.discount, bulkTotal);
+        resumedCart.push({
+          product,
+          quantity: item.quantity,
+          discount,
+          subtotal: bulkTotal - discount,
+        });
+      });
+
+      setCart(resumedCart);
+      setSelectedCustomer(customer);
+      setHeldNote(heldCart.note || '');
+      setShowHeldCarts(false);
+
+      if (missingProductIds.length > 0) {
+        showToast(
+          t('heldCarts.missingProducts', { count: missingProductIds.length }),
+          'error',
+        );
+      } else {
+        showToast(t('heldCarts.cartResumed'), 'success');
+      }
+    } catch (error) {
+      console.error('Error resuming held cart:', error);
+      showToast(t('heldCarts.failedToResume'), 'error');
+    }
+  };
+
+  const couponErrorMessage = (error: CouponError) =>
+    t(`orderDiscount.couponErrors.${error.code}`);
+
+  // Resolves to an error message for the checkout modal, or null once applied
+  const handleApplyCoupon = async (code: string): Promise<string | null> => {
+    try {
+      const coupon = await db!.checkCoupon(
+        code,
+        getCartTotals().subtotalBeforeOrderDiscount,
+        showDateTimeSelector ? saleDateTime : new Date(),
+      );
+      setOrderDiscount({
+        type: coupon.discount_type,
+        value: coupon.discount_value,
+        coupon: { id: coupon.id, code: coupon.code },
+      });
+      return null;
+    } catch (error) {
+      if (error instanceof CouponError) {
+        return couponErrorMessage(error);
+      }
+      console.error('Error checking coupon:', error);
+      return t('orderDiscount.couponCheckFailed');
+    }
+  };
+
   const processSale = async (
     paymentMethod: string,
     note: string,
@@ -595,12 +917,32 @@ export default function Sale() {
       setLoading(true);
 
       const cartTotals = getCartTotals();
+      const coupon = cartTotals.orderDiscount > 0 && orderDiscount?.coupon;
+
+      // The cart or sale time may have changed since the coupon was applied
+      if (coupon) {
+        await db!.checkCoupon(
+          coupon.code,
+          cartTotals.subtotalBeforeOrderDiscount,
+          showDateTimeSelector ? saleDateTime : new Date(),
+        );
+      }
 
       const saleData = {
-        total: cartTotals.bulkTotal, // This is the final discounted total
+        total: cartTotals.grandTotal, // Final discounted total plus exclusive tax
         payment_method: paymentMethod,
         note: note || undefined,
         customer_id: selectedCustomer?.id || undefined,
+        order_discount: cartTotals.orderDiscount,
+        order_discount_reason:
+          cartTotals.orderDiscount > 0 && !coupon
+            ? orderDiscount?.reason
+            : undefined,
+        coupon_code: coupon ? coupon.code : undefined,
+        loyalty_points_earned: cartTotals.pointsEarned,
+        loyalty_points_redeemed: cartTotals.pointsRedeemed,
+        loyalty_discount: cartTotals.loyaltyDiscount,
+        loyalty_payment: cartTotals.loyaltyPayment,
         created_at: convertISOToDBFormat(
           showDateTimeSelector
             ? saleDateTime.toISOString()
@@ -625,8 +967,17 @@ export default function Sale() {
         const bulkSubtotal = bulkPricingResult.bulkTotal;
         const bulkUnitPrice = bulkSubtotal / item.quantity;
 
-        // Final subtotal after manual discount
-        const finalSubtotal = bulkSubtotal - item.discount;
+        // Final subtotal after manual discount, promotions and the
+        // line's shares of the order discount and points discount
+        const promotionDiscount = itemPricing?.pricing.promotionSavings || 0;
+        const orderDiscountShare = itemPricing?.pricing.orderSavings || 0;
+        const loyaltyDiscountShare = itemPricing?.pricing.loyaltySavings || 0;
+        const finalSubtotal =
+          bulkSubtotal -
+          item.discount -
+          promotionDiscount -
+          orderDiscountShare -
+          loyaltyDiscountShare;
 
         return {
           product_id: item.product.id,
@@ -637,10 +988,33 @@ export default function Sale() {
           cost: item.product.cost,
           discount: item.discount, // Manual discount amount
           subtotal: finalSubtotal, // Final subtotal after all discounts
+          tax_name: itemPricing?.tax.tax_name,
+          tax_rate: itemPricing?.tax.tax_rate || 0,
+          tax_amount: itemPricing?.tax.tax_amount || 0,
+          tax_inclusive: itemPricing?.tax.tax_inclusive ? 1 : 0,
+          promotion_discount: promotionDiscount,
+          order_discount: orderDiscountShare,
+          loyalty_discount: loyaltyDiscountShare,
         };
       });
-
-      const result = await addSale.mutateAsync({ saleData, saleItems });
+      const salePromotions = cartTotals.promotions.map((promotion) => ({
+        promotion_id: promotion.promotionId,
+        promotion_name: promotion.name,
+        discount: promotion.discount,
+      }));
+
+      const result = await addSale.mutateAsync({
+        saleData,
+        saleItems,
+        salePromotions,
+        couponRedemption: coupon
+          ? {
+              coupon_id: coupon.id,
+              code: coupon.code,
+              discount: cartTotals.orderDiscount,
+            }
+          : undefined,
+      });
 
       showToast(t('sales.saleCompleted'), 'success');
 
@@ -650,9 +1024,44 @@ export default function Sale() {
           voucherId: result.voucherId,
           items: cart,
           total,
+          promotions: salePromotions.map((promotion) => ({
+            name: promotion.promotion_name,
+            discount: promotion.discount,
+          })),
+          orderDiscount:
+            cartTotals.orderDiscount > 0
+              ? {
+                  label: coupon
+                    ? t('orderDiscount.couponLabel', { code: coupon.code })
+                    : orderDiscount?.reason || t('orderDiscount.title'),
+                  amount: cartTotals.orderDiscount,
+                }
+              : undefined,
+          loyalty:
+            selectedCustomer && loyaltySettings?.enabled
+              ? {
+                  pointsRedeemed: cartTotals.pointsRedeemed,
+                  discount: cartTotals.loyaltyDiscount,
+                  payment: cartTotals.loyaltyPayment,
+                  pointsEarned: cartTotals.pointsEarned,
+                  balance:
+                    (customerLoyalty?.balance || 0) -
+                    cartTotals.pointsRedeemed +
+                    cartTotals.pointsEarned,
+                }
+              : undefined,
+          taxBreakdown: cartTotals.taxBreakdown,
           paymentMethod,
           note,
           date: new Date(),
+          customer: selectedCustomer
+            ? {
+                name: selectedCustomer.name,
+                debtBalance: await db!.getCustomerDebtBalance(
+                  selectedCustomer.id,
+                ),
+              }
+            : undefined,
         };
 
         setReceiptData(printData);
@@ -668,7 +1077,23 @@ export default function Sale() {
       setSaleDateTime(new Date());
       setShowDateTimeSelector(false);
     } catch (error) {
-      Alert.alert(t('common.error'), t('common.error'));
+      // Stock merged from another device may have run out since the
+      // item was added to the cart
+      Alert.alert(
+        t('common.error'),
+        error instanceof InsufficientStockError
+          ? t('sales.stockChangedAtCheckout', {
+              name: error.productName,
+              quantity: error.available,
+            })
+          : error instanceof CouponError
+            ? couponErrorMessage(error)
+            : error instanceof InsufficientPointsError
+              ? t('loyalty.pointsChangedAtCheckout', {
+                  points: error.available,
+                })
+              : t('common.error'),
+      );
       console.error('Error processing sale:', error);
     } finally {
       setLoading(false);
@@ -720,6 +1145,8 @@ export default function Sale() {
     return <LoadingSpinner />;
   }
 
+  const checkoutTotals = getCartTotals();
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
@@ -738,6 +1165,19 @@ export default function Sale() {
           >
             <List size={20} color="#6B7280" />
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => setShowHeldCarts(true)}
+          >
+            <PauseCircle size={20} color="#6B7280" />
+            {heldCarts.length > 0 && (
+              <View style={styles.heldBadge}>
+                <Text style={styles.heldBadgeText} weight="bold">
+                  {heldCarts.length}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.scanButton}
             onPress={() => setShowScanner(true)}
@@ -747,6 +1187,8 @@ export default function Sale() {
         </View>
       </View>
 
+      <PrintQueueStatus />
+
       <View style={styles.content}>
         {/* Enhanced Shopping Cart */}
         <Card style={styles.cartCard}>
@@ -795,16 +1237,18 @@ export default function Sale() {
           {cart.length > 0 &&
             (() => {
               const cartTotals = getCartTotals();
-              return cartTotals.totalSavings > 0 ? (
+              return cartTotals.totalSavings > 0 || cartTotals.taxTotal > 0 ? (
                 <View style={styles.bulkPricingSummaryCompact}>
-                  <View style={styles.savingsRowCompact}>
-                    <Text style={styles.savingsLabelCompact} weight="medium">
-                      {t('sales.subtotal')}
-                    </Text>
-                    <Text style={styles.originalTotalCompact} weight="medium">
-                      {formatPrice(cartTotals.originalTotal)}
-                    </Text>
-                  </View>
+                  {cartTotals.totalSavings > 0 && (
+                    <View style={styles.savingsRowCompact}>
+                      <Text style={styles.savingsLabelCompact} weight="medium">
+                        {t('sales.subtotal')}
+                      </Text>
+                      <Text style={styles.originalTotalCompact} weight="medium">
+                        {formatPrice(cartTotals.originalTotal)}
+                      </Text>
+                    </View>
+                  )}
                   {cartTotals.bulkSavings > 0 && (
                     <View style={styles.savingsRowCompact}>
                       <Text style={styles.savingsLabelCompact} weight="medium">
@@ -825,6 +1269,60 @@ export default function Sale() {
                       </Text>
                     </View>
                   )}
+                  {cartTotals.promotions.map((promotion) => (
+                    <View
+                      key={promotion.promotionId}
+                      style={styles.savingsRowCompact}
+                    >
+                      <Text style={styles.savingsLabelCompact} weight="medium">
+                        {promotion.name}
+                      </Text>
+                      <Text style={styles.savingsAmountCompact} weight="medium">
+                        -{formatPrice(promotion.discount)}
+                      </Text>
+                    </View>
+                  ))}
+                  {cartTotals.orderDiscount > 0 && (
+                    <View style={styles.savingsRowCompact}>
+                      <Text style={styles.savingsLabelCompact} weight="medium">
+                        {orderDiscount?.coupon
+                          ? t('orderDiscount.couponLabel', {
+                              code: orderDiscount.coupon.code,
+                            })
+                          : t('orderDiscount.title')}
+                      </Text>
+                      <Text style={styles.savingsAmountCompact} weight="medium">
+                        -{formatPrice(cartTotals.orderDiscount)}
+                      </Text>
+                    </View>
+                  )}
+                  {cartTotals.loyaltyDiscount > 0 && (
+                    <View style={styles.savingsRowCompact}>
+                      <Text style={styles.savingsLabelCompact} weight="medium">
+                        {t('loyalty.pointsDiscount', {
+                          points: cartTotals.pointsRedeemed,
+                        })}
+                      </Text>
+                      <Text style={styles.savingsAmountCompact} weight="medium">
+                        -{formatPrice(cartTotals.loyaltyDiscount)}
+                      </Text>
+                    </View>
+                  )}
+                  {cartTotals.taxBreakdown.map((taxLine) => (
+                    <View
+                      key={`${taxLine.name}-${taxLine.rate}-${taxLine.inclusive}`}
+                      style={styles.savingsRowCompact}
+                    >
+                      <Text style={styles.savingsLabelCompact} weight="medium">
+                        {taxLine.name} ({taxLine.rate}%
+                        {taxLine.inclusive ? `, ${t('tax.included')}` : ''})
+                      </Text>
+                      <Text style={styles.taxAmountCompact} weight="medium">
+                        {taxLine.inclusive ? '' : '+'}
+                        {formatPrice(taxLine.amount)}
+                      </Text>
+                    </View>
+                  ))}
                 </View>
               ) : null;
             })()}
@@ -1131,12 +1629,13 @@ export default function Sale() {
                 <TouchableOpacity
                   style={[
                     styles.dialogProductItem,
-                    product.quantity <= 0 && styles.dialogProductItemDisabled,
+                    isBlockedByStock(product) &&
+                      styles.dialogProductItemDisabled,
                     isProductInCart(product.id) &&
                       styles.dialogProductItemAdded,
                   ]}
                   onPress={() => addToCart(product)}
-                  disabled={product.quantity <= 0}
+                  disabled={isBlockedByStock(product)}
                 >
                   {product.imageUrl && (
                     <Image
@@ -1155,7 +1654,7 @@ export default function Sale() {
                     <Text
                       style={[
                         styles.dialogProductName,
-                        product.quantity <= 0 &&
+                        isBlockedByStock(product) &&
                           styles.dialogProductNameDisabled,
                       ]}
                     >
@@ -1163,6 +1662,8 @@ export default function Sale() {
                     </Text>
                     <Text style={styles.dialogProductCategory}>
                       {product.category}
+                      {!!product.variant_count &&
+                        ` • ${t('variants.variantCount', { count: product.variant_count })}`}
                     </Text>
                     <Text
                       style={[
@@ -1191,17 +1692,18 @@ export default function Sale() {
                     <Text
                       style={[
                         styles.dialogProductPrice,
-                        product.quantity <= 0 &&
+                        isBlockedByStock(product) &&
                           styles.dialogProductPriceDisabled,
                       ]}
                     >
                       {formatPrice(product.price)}
                     </Text>
-                    {product.quantity > 0 && !isProductInCart(product.id) && (
-                      <View style={styles.addToCartIndicator}>
-                        <Plus size={16} color="#10B981" />
-                      </View>
-                    )}
+                    {!isBlockedByStock(product) &&
+                      !isProductInCart(product.id) && (
+                        <View style={styles.addToCartIndicator}>
+                          <Plus size={16} color="#10B981" />
+                        </View>
+                      )}
                     {isProductInCart(product.id) && (
                       <View style={styles.addedToCartIndicator}>
                         <Text style={styles.addedToCartText}>✓</Text>
@@ -1254,9 +1756,19 @@ export default function Sale() {
         />
       )}
 
+      <VariantPickerModal
+        visible={!!variantParent}
+        parent={variantParent}
+        onSelect={(variant) => {
+          setVariantParent(null);
+          addToCart(variant);
+        }}
+        onClose={() => setVariantParent(null)}
+      />
+
       <CashCalculatorModal
         visible={showCalculator}
-        subtotal={total}
+        subtotal={checkoutTotals.amountDue}
         onContinue={handleCalculatorContinue}
         onCancel={() => setShowCalculator(false)}
         initialAmountGiven={calculatorData?.amountGiven}
@@ -1273,6 +1785,41 @@ export default function Sale() {
         onRecalculate={
           selectedPaymentMethod?.id === 'cash' ? handleRecalculate : undefined
         }
+        initialNote={heldNote}
+        orderDiscount={orderDiscount}
+        orderDiscountAmount={checkoutTotals.orderDiscount}
+        onOrderDiscountChange={setOrderDiscount}
+        onApplyCoupon={handleApplyCoupon}
+        loyalty={
+          selectedCustomer && loyaltySettings?.enabled && customerLoyalty
+            ? {
+                balance: customerLoyalty.balance,
+                tier: customerLoyalty.tier,
+                maxPoints: checkoutTotals.maxRedeemablePoints,
+                redemptionAmount:
+                  checkoutTotals.loyaltyDiscount +
+                  checkoutTotals.loyaltyPayment,
+                pointsEarned: checkoutTotals.pointsEarned,
+                amountDue: checkoutTotals.amountDue,
+              }
+            : undefined
+        }
+        loyaltyRedemption={loyaltyRedemption}
+        onLoyaltyRedemptionChange={setLoyaltyRedemption}
+      />
+
+      <HeldCartsModal
+        visible={showHeldCarts}
+        canHold={cart.length > 0}
+        defaultLabel={
+          selectedCustomer?.name ||
+          t('heldCarts.defaultLabel', { number: heldCarts.length + 1 })
+        }
+        defaultNote={heldNote}
+        holding={holdCart.isPending || resumeHeldCart.isPending}
+        onClose={() => setShowHeldCarts(false)}
+        onHold={handleHoldCart}
+        onResume={handleResumeHeldCart}
       />
 
       {receiptData && (
@@ -1337,6 +1884,22 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  heldBadge: {
+    position: 'absolute',
+    top: -2,
+    right: -2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#F59E0B',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  heldBadgeText: {
+    fontSize: 10,
+    color: '#FFFFFF',
+  },
   scanButton: {
     backgroundColor: '#059669',
     width: 44,
@@ -1462,6 +2025,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#DC2626',
   },
+  taxAmountCompact: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
   cartTitleContainer: {
     flexDirection: 'row',
     alignItems: 'center',
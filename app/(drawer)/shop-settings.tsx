@@ -7,7 +7,7 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { Save, Store, Palette } from 'lucide-react-native';
+import { Save, Store, Palette, Printer } from 'lucide-react-native';
 import { useTranslation } from '@/context/LocalizationContext';
 import { useToast } from '@/context/ToastContext';
 import { MenuButton } from '@/components/MenuButton';
@@ -21,6 +21,28 @@ import { useShopSettings } from '@/context/ShopSettingsContext';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  CODE_PAGES,
+  CUT_COMMANDS,
+  CutCommand,
+  getPrinterProfile,
+  PAPER_WIDTHS,
+  PaperWidth,
+  PrinterCodePage,
+  PrinterProfile,
+  PrintRenderMode,
+} from '@/utils/printerProfiles';
+
+const PAPER_WIDTH_OPTIONS = Object.keys(PAPER_WIDTHS) as PaperWidth[];
+const CODE_PAGE_OPTIONS = Object.keys(CODE_PAGES) as PrinterCodePage[];
+const CUT_COMMAND_OPTIONS = Object.keys(CUT_COMMANDS) as CutCommand[];
+const RENDER_MODE_OPTIONS: PrintRenderMode[] = ['text', 'bitmap'];
+
+const RECEIPT_QR_MODES: ShopSettingsInput['receiptQrMode'][] = [
+  undefined,
+  'voucher',
+  'payment',
+];
 
 export default function ShopSettingsPage() {
   const router = useRouter();
@@ -44,6 +66,9 @@ export default function ShopSettingsPage() {
     thankYouMessage: '',
     receiptTemplate: 'classic', // Default fallback
     receiptFontSize: 'medium', // Default font size
+    receiptQrMode: undefined,
+    receiptQrValue: '',
+    printerProfile: getPrinterProfile(),
   });
 
   // Track if form has been initialized to prevent overwriting user changes
@@ -65,6 +90,9 @@ export default function ShopSettingsPage() {
         thankYouMessage: shopSettings.thankYouMessage || '',
         receiptTemplate: shopSettings.receiptTemplate,
         receiptFontSize: shopSettings.receiptFontSize || 'medium',
+        receiptQrMode: shopSettings.receiptQrMode,
+        receiptQrValue: shopSettings.receiptQrValue || '',
+        printerProfile: getPrinterProfile(shopSettings.printerProfile),
       });
       setFormInitialized(true);
     } else if (!shopSettings && !contextLoading && !formInitialized) {
@@ -78,6 +106,9 @@ export default function ShopSettingsPage() {
         thankYouMessage: '',
         receiptTemplate: 'classic',
         receiptFontSize: 'medium',
+        receiptQrMode: undefined,
+        receiptQrValue: '',
+        printerProfile: getPrinterProfile(),
       });
       setFormInitialized(true);
     }
@@ -97,6 +128,65 @@ export default function ShopSettingsPage() {
     }
   };
 
+  const handleQrModeChange = (mode: ShopSettingsInput['receiptQrMode']) => {
+    setFormData((prev) => ({ ...prev, receiptQrMode: mode }));
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors.receiptQrValue;
+      return newErrors;
+    });
+  };
+
+  const printerProfile = getPrinterProfile(formData.printerProfile);
+
+  const handlePrinterProfileChange = (changes: Partial<PrinterProfile>) => {
+    setFormData((prev) => ({
+      ...prev,
+      printerProfile: { ...getPrinterProfile(prev.printerProfile), ...changes },
+    }));
+    if (errors.charsPerLine) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.charsPerLine;
+        return newErrors;
+      });
+    }
+  };
+
+  // A new paper width starts from that width's usual characters per line
+  const handlePaperWidthChange = (paperWidth: PaperWidth) => {
+    handlePrinterProfileChange({
+      paperWidth,
+      charsPerLine: PAPER_WIDTHS[paperWidth].charsPerLine,
+    });
+  };
+
+  const renderOptionChips = <T extends string>(
+    options: T[],
+    selected: T,
+    onSelect: (option: T) => void,
+    labelKey: string,
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected === option && styles.chipActive]}
+          onPress={() => onSelect(option)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === option && styles.chipTextActive,
+            ]}
+          >
+            {t(`${labelKey}.${option}`)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   // Handle logo changes
   const handleLogoChange = (logoPath: string | null) => {
     setFormData((prev) => ({ ...prev, logoPath: logoPath || '' }));
@@ -304,6 +394,149 @@ export default function ShopSettingsPage() {
               {formData.thankYouMessage?.length}/200
             </Text>
           </View>
+
+          {/* Receipt QR Code */}
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('shopSettings.receiptQr')}
+            </Text>
+            <View style={styles.chipRow}>
+              {RECEIPT_QR_MODES.map((mode) => (
+                <TouchableOpacity
+                  key={mode || 'none'}
+                  style={[
+                    styles.chip,
+                    formData.receiptQrMode === mode && styles.chipActive,
+                  ]}
+                  onPress={() => handleQrModeChange(mode)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      formData.receiptQrMode === mode && styles.chipTextActive,
+                    ]}
+                  >
+                    {t(`shopSettings.receiptQrModes.${mode || 'none'}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {formData.receiptQrMode && (
+              <>
+                <TextInput
+                  style={[
+                    styles.textInput,
+                    styles.qrValueInput,
+                    errors.receiptQrValue && styles.textInputError,
+                  ]}
+                  value={formData.receiptQrValue}
+                  onChangeText={(value) =>
+                    handleFieldChange('receiptQrValue', value)
+                  }
+                  placeholder={
+                    formData.receiptQrMode === 'voucher'
+                      ? 'https://example.com/receipts/{voucherId}'
+                      : t('shopSettings.receiptQrPaymentPlaceholder')
+                  }
+                  placeholderTextColor="#9CA3AF"
+                  autoCapitalize="none"
+                  maxLength={300}
+                />
+                {errors.receiptQrValue && (
+                  <Text style={styles.errorText}>{errors.receiptQrValue}</Text>
+                )}
+                <Text style={styles.hintText}>
+                  {formData.receiptQrMode === 'voucher'
+                    ? t('shopSettings.receiptQrVoucherHint')
+                    : t('shopSettings.receiptQrPaymentHint')}
+                </Text>
+              </>
+            )}
+          </View>
+        </View>
+
+        {/* Thermal Printer Section */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Printer size={20} color="#059669" />
+            <Text style={styles.sectionTitle} weight="medium">
+              {t('shopSettings.thermalPrinter')}
+            </Text>
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('shopSettings.paperWidth')}
+            </Text>
+            {renderOptionChips(
+              PAPER_WIDTH_OPTIONS,
+              printerProfile.paperWidth,
+              handlePaperWidthChange,
+              'shopSettings.paperWidths',
+            )}
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('shopSettings.charsPerLine')}
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                errors.charsPerLine && styles.textInputError,
+              ]}
+              value={String(printerProfile.charsPerLine || '')}
+              onChangeText={(value) =>
+                handlePrinterProfileChange({
+                  charsPerLine: parseInt(value.replace(/[^0-9]/g, ''), 10) || 0,
+                })
+              }
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+            {errors.charsPerLine && (
+              <Text style={styles.errorText}>{errors.charsPerLine}</Text>
+            )}
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('shopSettings.codePage')}
+            </Text>
+            {renderOptionChips(
+              CODE_PAGE_OPTIONS,
+              printerProfile.codePage,
+              (codePage) => handlePrinterProfileChange({ codePage }),
+              'shopSettings.codePages',
+            )}
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('shopSettings.cutCommand')}
+            </Text>
+            {renderOptionChips(
+              CUT_COMMAND_OPTIONS,
+              printerProfile.cutCommand,
+              (cutCommand) => handlePrinterProfileChange({ cutCommand }),
+              'shopSettings.cutCommands',
+            )}
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel} weight="medium">
+              {t('shopSettings.renderMode')}
+            </Text>
+            {renderOptionChips(
+              RENDER_MODE_OPTIONS,
+              printerProfile.renderMode,
+              (renderMode) => handlePrinterProfileChange({ renderMode }),
+              'shopSettings.renderModes',
+            )}
+            <Text style={styles.hintText}>
+              {t('shopSettings.renderModeHint')}
+            </Text>
+          </View>
         </View>
 
         {/* Template Selection Section */}
@@ -466,6 +699,39 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    borderColor: '#059669',
+    backgroundColor: '#ECFDF5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#059669',
+    fontWeight: '600',
+  },
+  qrValueInput: {
+    marginTop: 12,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
   mobileButtonContainer: {
     paddingVertical: 16,
   },
@@ -0,0 +1,624 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { StaffSalesReport } from '@/components/StaffSalesReport';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useStaff } from '@/context/StaffContext';
+import { useStaffMembers, useStaffMutations } from '@/hooks/useQueries';
+import { useToast } from '@/context/ToastContext';
+import { Staff } from '@/services/database';
+import { STAFF_ROLES, StaffRole, isValidPin } from '@/utils/staffPermissions';
+import { Edit, Plus, UserCog, X } from 'lucide-react-native';
+
+type TabType = 'staff' | 'sales';
+
+const ROLE_COLORS: Record<StaffRole, string> = {
+  owner: '#7C3AED',
+  manager: '#2563EB',
+  cashier: '#059669',
+};
+
+/**
+ * Staff Management Page
+ * Manage staff accounts and see sales broken down by staff member
+ *
+ * Features:
+ * - Add and edit staff (name, role, PIN) via modal
+ * - Deactivate staff who should no longer sign in
+ * - The first account is always an owner; PIN login starts once it exists
+ * - Sales per staff member for a day, month or year
+ */
+export default function StaffManagement() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { currentStaff } = useStaff();
+
+  const { data: staffMembers = [], isLoading } = useStaffMembers(true);
+  const { addStaff, updateStaff } = useStaffMutations();
+
+  const [activeTab, setActiveTab] = useState<TabType>('staff');
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
+  const [staffFormData, setStaffFormData] = useState({
+    name: '',
+    role: 'cashier' as StaffRole,
+    pin: '',
+    is_active: true,
+  });
+
+  const isFirstAccount = staffMembers.length === 0;
+
+  const resetStaffForm = () => {
+    setStaffFormData({ name: '', role: 'cashier', pin: '', is_active: true });
+    setEditingStaff(null);
+    setShowFormModal(false);
+  };
+
+  const handleAddNew = () => {
+    setStaffFormData({
+      name: '',
+      role: isFirstAccount ? 'owner' : 'cashier',
+      pin: '',
+      is_active: true,
+    });
+    setEditingStaff(null);
+    setShowFormModal(true);
+  };
+
+  const handleEditStaff = (staff: Staff) => {
+    setStaffFormData({
+      name: staff.name,
+      role: staff.role,
+      pin: '',
+      is_active: staff.is_active,
+    });
+    setEditingStaff(staff);
+    setShowFormModal(true);
+  };
+
+  const handleStaffSubmit = async () => {
+    if (!staffFormData.name.trim()) {
+      Alert.alert(t('common.error'), t('staff.enterName'));
+      return;
+    }
+
+    // PIN is required for new staff, optional when editing
+    if (
+      (!editingStaff || staffFormData.pin) &&
+      !isValidPin(staffFormData.pin)
+    ) {
+      Alert.alert(t('common.error'), t('staff.invalidPin'));
+      return;
+    }
+
+    try {
+      if (editingStaff) {
+        await updateStaff.mutateAsync({
+          id: editingStaff.id,
+          data: {
+            name: staffFormData.name,
+            role: staffFormData.role,
+            is_active: staffFormData.is_active,
+            ...(staffFormData.pin ? { pin: staffFormData.pin } : {}),
+          },
+        });
+      } else {
+        await addStaff.mutateAsync({
+          name: staffFormData.name,
+          role: staffFormData.role,
+          pin: staffFormData.pin,
+        });
+      }
+
+      resetStaffForm();
+      showToast(
+        editingStaff ? t('staff.staffUpdated') : t('staff.staffAdded'),
+        'success',
+      );
+    } catch (error: any) {
+      console.error('Error saving staff:', error);
+      Alert.alert(
+        t('common.error'),
+        error.message?.includes('active owner')
+          ? t('staff.lastOwner')
+          : t('staff.failedToSaveStaff'),
+      );
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('staff.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Tabs */}
+      <View style={styles.tabsContainer}>
+        {(['staff', 'sales'] as TabType[]).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.tabActive]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === tab && styles.tabTextActive,
+              ]}
+              weight="medium"
+            >
+              {tab === 'staff' ? t('staff.staffTab') : t('staff.salesByStaff')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {activeTab === 'sales' ? (
+        <StaffSalesReport />
+      ) : (
+        <>
+          <ScrollView
+            style={styles.content}
+            showsVerticalScrollIndicator={false}
+          >
+            {isFirstAccount ? (
+              <Card style={styles.emptyCard}>
+                <UserCog size={48} color="#D1D5DB" />
+                <Text style={styles.emptyText}>{t('staff.noStaff')}</Text>
+                <Text style={styles.emptySubtext}>
+                  {t('staff.addFirstStaff')}
+                </Text>
+              </Card>
+            ) : (
+              staffMembers.map((staff) => (
+                <Card
+                  key={staff.id}
+                  style={
+                    staff.is_active
+                      ? styles.staffCard
+                      : { ...styles.staffCard, ...styles.staffCardInactive }
+                  }
+                >
+                  <View style={styles.staffContent}>
+                    <View style={styles.staffInfo}>
+                      <Text style={styles.staffName} weight="bold">
+                        {staff.name}
+                        {staff.id === currentStaff?.id
+                          ? ` (${t('staff.you')})`
+                          : ''}
+                      </Text>
+                      <View style={styles.staffMeta}>
+                        <View
+                          style={[
+                            styles.roleBadge,
+                            { backgroundColor: ROLE_COLORS[staff.role] },
+                          ]}
+                        >
+                          <Text style={styles.roleBadgeText} weight="medium">
+                            {t(`staff.roles.${staff.role}`)}
+                          </Text>
+                        </View>
+                        {!staff.is_active && (
+                          <Text style={styles.inactiveText}>
+                            {t('staff.inactive')}
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => handleEditStaff(staff)}
+                    >
+                      <Edit size={20} color="#6B7280" />
+                    </TouchableOpacity>
+                  </View>
+                </Card>
+              ))
+            )}
+          </ScrollView>
+
+          {/* Floating Action Button */}
+          <TouchableOpacity
+            style={styles.fab}
+            onPress={handleAddNew}
+            activeOpacity={0.8}
+          >
+            <Plus size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </>
+      )}
+
+      {/* Staff Form Modal */}
+      <Modal
+        visible={showFormModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={resetStaffForm}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle} weight="bold">
+              {editingStaff ? t('staff.editStaff') : t('staff.addStaff')}
+            </Text>
+            <TouchableOpacity
+              onPress={resetStaffForm}
+              style={styles.closeButton}
+            >
+              <X size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formSection}>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('staff.name')} *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('staff.namePlaceholder')}
+                  value={staffFormData.name}
+                  onChangeText={(text) =>
+                    setStaffFormData({ ...staffFormData, name: text })
+                  }
+                  autoFocus
+                />
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('staff.role')} *</Text>
+                <View style={styles.roleOptions}>
+                  {STAFF_ROLES.map((role) => {
+                    const isSelected = staffFormData.role === role;
+                    return (
+                      <TouchableOpacity
+                        key={role}
+                        style={[
+                          styles.roleOption,
+                          isSelected && {
+                            backgroundColor: ROLE_COLORS[role],
+                            borderColor: ROLE_COLORS[role],
+                          },
+                        ]}
+                        onPress={() =>
+                          setStaffFormData({ ...staffFormData, role })
+                        }
+                        disabled={isFirstAccount}
+                      >
+                        <Text
+                          style={[
+                            styles.roleOptionText,
+                            isSelected && styles.roleOptionTextSelected,
+                          ]}
+                          weight="medium"
+                        >
+                          {t(`staff.roles.${role}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Text style={styles.hintText}>
+                  {isFirstAccount
+                    ? t('staff.firstAccountOwner')
+                    : t(`staff.roleHints.${staffFormData.role}`)}
+                </Text>
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>
+                  {t('staff.pin')}
+                  {editingStaff ? '' : ' *'}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={
+                    editingStaff
+                      ? t('staff.pinKeepPlaceholder')
+                      : t('staff.pinPlaceholder')
+                  }
+                  value={staffFormData.pin}
+                  onChangeText={(text) =>
+                    setStaffFormData({
+                      ...staffFormData,
+                      pin: text.replace(/[^0-9]/g, ''),
+                    })
+                  }
+                  keyboardType="number-pad"
+                  secureTextEntry
+                  maxLength={6}
+                />
+              </View>
+
+              {editingStaff && (
+                <View style={styles.switchRow}>
+                  <View style={styles.switchInfo}>
+                    <Text style={styles.inputLabel}>{t('staff.active')}</Text>
+                    <Text style={styles.switchHint}>
+                      {t('staff.activeHint')}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={staffFormData.is_active}
+                    onValueChange={(value) =>
+                      setStaffFormData({ ...staffFormData, is_active: value })
+                    }
+                    trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                  />
+                </View>
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Button
+              title={t('common.cancel')}
+              onPress={resetStaffForm}
+              variant="secondary"
+              style={styles.footerButton}
+            />
+            <Button
+              title={editingStaff ? t('common.update') : t('common.add')}
+              onPress={handleStaffSubmit}
+              style={styles.footerButton}
+              disabled={addStaff.isPending || updateStaff.isPending}
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  tabsContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#059669',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  tabTextActive: {
+    color: '#059669',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  staffCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  staffCardInactive: {
+    opacity: 0.6,
+  },
+  staffContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  staffInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  staffName: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 6,
+  },
+  staffMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  roleBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+  inactiveText: {
+    fontSize: 12,
+    color: '#EF4444',
+  },
+  actionButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#059669',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalTitle: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  formSection: {
+    gap: 20,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  roleOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  roleOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  roleOptionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  roleOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
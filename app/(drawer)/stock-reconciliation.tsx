@@ -0,0 +1,292 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  Alert,
+  Switch,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Card } from '@/components/Card';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useStaff } from '@/context/StaffContext';
+import {
+  useAllowNegativeStock,
+  useAllowNegativeStockMutation,
+  useStockReconciliation,
+} from '@/hooks/useQueries';
+import { StockReconciliationItem } from '@/services/database';
+import { PackageCheck } from 'lucide-react-native';
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString.replace(' ', 'T'));
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Stock Reconciliation Page
+ * Products whose stock went below zero once the stock ledgers of every
+ * device were merged, e.g. the last unit sold on two devices while offline.
+ * Also holds the setting that blocks or allows negative stock at checkout.
+ */
+export default function StockReconciliation() {
+  const { t } = useTranslation();
+  const { openDrawer } = useDrawer();
+  const { showToast } = useToast();
+  const { can } = useStaff();
+  const router = useRouter();
+
+  const {
+    data: items = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useStockReconciliation();
+  const { data: allowNegativeStock = false } = useAllowNegativeStock();
+  const changeAllowNegativeStock = useAllowNegativeStockMutation();
+
+  const handleToggleNegativeStock = async (allow: boolean) => {
+    try {
+      await changeAllowNegativeStock.mutateAsync(allow);
+      showToast(t('stockReconciliation.settingSaved'), 'success');
+    } catch (error) {
+      console.error('Error changing negative stock setting:', error);
+      Alert.alert(t('common.error'), t('stockReconciliation.failedToSave'));
+    }
+  };
+
+  const renderItem = ({ item }: { item: StockReconciliationItem }) => (
+    <TouchableOpacity
+      onPress={() =>
+        router.push(`/(drawer)/product-detail?id=${item.product_id}` as any)
+      }
+    >
+      <Card style={styles.itemCard}>
+        <View style={styles.itemRow}>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemName} weight="medium" numberOfLines={1}>
+              {item.product_name}
+            </Text>
+            <Text style={styles.itemMeta}>
+              {t('stockReconciliation.oversoldSummary', {
+                quantity: item.oversold_quantity,
+                sales: item.oversold_sales,
+                devices: item.device_count,
+              })}
+            </Text>
+            {item.first_oversold_at && (
+              <Text style={styles.itemMeta}>
+                {t('stockReconciliation.firstOversold', {
+                  date: formatDate(item.first_oversold_at),
+                })}
+              </Text>
+            )}
+          </View>
+          <View style={styles.itemStock}>
+            <Text
+              style={[
+                styles.itemQuantity,
+                item.quantity < 0 && styles.negative,
+              ]}
+              weight="bold"
+            >
+              {item.quantity}
+            </Text>
+            <View
+              style={[
+                styles.badge,
+                item.quantity < 0 ? styles.badgeNegative : styles.badgeOversold,
+              ]}
+            >
+              <Text style={styles.badgeText} weight="medium">
+                {item.quantity < 0
+                  ? t('stockReconciliation.negativeStock')
+                  : t('stockReconciliation.oversold')}
+              </Text>
+            </View>
+          </View>
+        </View>
+      </Card>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('stockReconciliation.title')}
+        </Text>
+      </View>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => item.product_id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              colors={['#059669']}
+              tintColor={'#059669'}
+            />
+          }
+          ListHeaderComponent={
+            <Card style={styles.settingCard}>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel} weight="medium">
+                    {t('stockReconciliation.allowNegativeStock')}
+                  </Text>
+                  <Text style={styles.settingHint}>
+                    {allowNegativeStock
+                      ? t('stockReconciliation.allowNegativeStockOn')
+                      : t('stockReconciliation.allowNegativeStockOff')}
+                  </Text>
+                </View>
+                <Switch
+                  value={allowNegativeStock}
+                  onValueChange={handleToggleNegativeStock}
+                  disabled={
+                    !can('settings.manage') ||
+                    changeAllowNegativeStock.isPending
+                  }
+                />
+              </View>
+            </Card>
+          }
+          ListEmptyComponent={
+            <Card style={styles.emptyCard}>
+              <PackageCheck size={48} color="#D1D5DB" />
+              <Text style={styles.emptyText}>
+                {t('stockReconciliation.allClear')}
+              </Text>
+            </Card>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+  },
+  settingCard: {
+    padding: 16,
+    marginBottom: 16,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  settingInfo: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  settingHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  itemCard: {
+    padding: 12,
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  itemStock: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  itemQuantity: {
+    fontSize: 18,
+    color: '#111827',
+  },
+  negative: {
+    color: '#DC2626',
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeNegative: {
+    backgroundColor: '#DC2626',
+  },
+  badgeOversold: {
+    backgroundColor: '#D97706',
+  },
+  badgeText: {
+    fontSize: 11,
+    color: '#FFFFFF',
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
@@ -16,12 +16,15 @@ import {
   useSupplierAnalytics,
   useSupplierMutations,
   useInfiniteStockMovements,
+  useSupplierPayables,
+  useSupplierPayments,
 } from '@/hooks/useQueries';
 import { SupplierProduct } from '@/services/database';
 import { useCurrencyFormatter } from '@/context/CurrencyContext';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { useTranslation } from '@/context/LocalizationContext';
 import { Card } from '@/components/Card';
+import { SupplierPaymentModal } from '@/components/SupplierPaymentModal';
 import {
   ArrowLeft,
   MoreVertical,
@@ -35,6 +38,8 @@ import {
   MapPin,
   User,
   TrendingDown,
+  ClipboardList,
+  Wallet,
 } from 'lucide-react-native';
 
 type TabType = 'info' | 'products' | 'movements';
@@ -253,6 +258,11 @@ export default function SupplierDetail() {
 function InfoTab({ supplier, supplierId, formatPrice, t }: any) {
   const { data: analytics, isLoading: analyticsLoading } =
     useSupplierAnalytics(supplierId);
+  const { data: payables = [] } = useSupplierPayables(supplierId);
+  const { data: payments = [] } = useSupplierPayments(supplierId);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+
+  const payable = payables[0];
 
   return (
     <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -297,6 +307,88 @@ function InfoTab({ supplier, supplierId, formatPrice, t }: any) {
         </View>
       </Card>
 
+      {/* Payables */}
+      <Card style={styles.infoCard}>
+        <Text style={styles.sectionTitle} weight="bold">
+          {t('purchaseOrders.payables')}
+        </Text>
+
+        <View style={styles.statsGrid}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue} weight="bold">
+              {formatPrice(payable?.received_value || 0)}
+            </Text>
+            <Text style={styles.statLabel}>
+              {t('purchaseOrders.receivedValue')}
+            </Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue} weight="bold">
+              {formatPrice(payable?.paid_amount || 0)}
+            </Text>
+            <Text style={styles.statLabel}>{t('purchaseOrders.paid')}</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text
+              style={[
+                styles.statValue,
+                (payable?.balance || 0) > 0 && styles.balanceDue,
+              ]}
+              weight="bold"
+            >
+              {formatPrice(payable?.balance || 0)}
+            </Text>
+            <Text style={styles.statLabel}>
+              {t('purchaseOrders.outstanding')}
+            </Text>
+          </View>
+        </View>
+
+        {payments.slice(0, 3).map((payment) => (
+          <View key={payment.id} style={styles.topProductItem}>
+            <Text style={styles.topProductName} numberOfLines={1}>
+              {new Date(payment.created_at).toLocaleDateString()} •{' '}
+              {payment.po_number || payment.payment_method}
+            </Text>
+            <Text style={styles.topProductValue}>
+              {formatPrice(payment.amount)}
+            </Text>
+          </View>
+        ))}
+
+        <View style={styles.payableActions}>
+          <TouchableOpacity
+            style={styles.payableButton}
+            onPress={() => setShowPaymentModal(true)}
+          >
+            <Wallet size={18} color="#059669" />
+            <Text style={styles.payableButtonText} weight="medium">
+              {t('purchaseOrders.recordPayment')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.payableButton}
+            onPress={() =>
+              router.push(
+                `/(drawer)/purchase-order-form?supplierId=${supplierId}` as any,
+              )
+            }
+          >
+            <ClipboardList size={18} color="#059669" />
+            <Text style={styles.payableButtonText} weight="medium">
+              {t('purchaseOrders.newOrder')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </Card>
+
+      <SupplierPaymentModal
+        visible={showPaymentModal}
+        supplierId={supplierId}
+        outstanding={payable?.balance || 0}
+        onClose={() => setShowPaymentModal(false)}
+      />
+
       {/* Analytics */}
       {analyticsLoading ? (
         <View style={styles.loadingSection}>
@@ -752,6 +844,30 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     textAlign: 'center',
   },
+  balanceDue: {
+    color: '#D97706',
+  },
+  payableActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  payableButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#A7F3D0',
+    backgroundColor: '#ECFDF5',
+  },
+  payableButtonText: {
+    fontSize: 14,
+    color: '#059669',
+  },
   topProductsSection: {
     borderTopWidth: 1,
     borderTopColor: '#F3F4F6',
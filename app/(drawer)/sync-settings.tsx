@@ -0,0 +1,534 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQueryClient } from '@tanstack/react-query';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useSync } from '@/context/SyncContext';
+import { queryKeys, useSyncConflicts } from '@/hooks/useQueries';
+import { SyncService } from '@/services/syncService';
+import { SyncConflict } from '@/services/database';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react-native';
+
+const INTERVAL_OPTIONS = [1, 5, 15, 30];
+
+const RESOLUTION_COLORS: Record<SyncConflict['resolution'], string> = {
+  kept_local: '#2563EB',
+  took_remote: '#D97706',
+  merged: '#059669',
+  failed: '#DC2626',
+};
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Sync Settings Page
+ * Connects the device to a sync server and shows what is waiting to be sent
+ * and which changes were settled against another device's edits
+ */
+export default function SyncSettings() {
+  const { t } = useTranslation();
+  const { openDrawer } = useDrawer();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const {
+    settings,
+    status,
+    syncing,
+    lastError,
+    syncNow,
+    saveSettings,
+    refreshStatus,
+  } = useSync();
+  const { data: conflicts = [] } = useSyncConflicts();
+
+  const [serverUrl, setServerUrl] = useState('');
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    if (settings) setServerUrl(settings.serverUrl);
+  }, [settings]);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  if (!settings) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <ActivityIndicator style={styles.loading} color="#059669" />
+      </SafeAreaView>
+    );
+  }
+
+  const trimmedUrl = serverUrl.trim();
+  const urlChanged = trimmedUrl !== settings.serverUrl;
+
+  const handleSaveUrl = async () => {
+    if (trimmedUrl && !/^https?:\/\//i.test(trimmedUrl)) {
+      Alert.alert(t('common.error'), t('sync.invalidUrl'));
+      return;
+    }
+
+    await saveSettings({
+      ...settings,
+      serverUrl: trimmedUrl,
+      enabled: trimmedUrl ? settings.enabled : false,
+    });
+    showToast(t('sync.settingsSaved'), 'success');
+  };
+
+  const handleTestConnection = async () => {
+    if (!trimmedUrl) return;
+
+    setTesting(true);
+    const reachable = await SyncService.checkConnection(trimmedUrl);
+    setTesting(false);
+
+    showToast(
+      reachable ? t('sync.serverReachable') : t('sync.serverUnreachable'),
+      reachable ? 'success' : 'error',
+    );
+  };
+
+  const handleSyncNow = async () => {
+    const result = await syncNow();
+    queryClient.invalidateQueries({ queryKey: queryKeys.sync.all });
+
+    if (result) {
+      showToast(
+        t('sync.syncComplete', {
+          pushed: result.pushed,
+          pulled: result.pulled,
+        }),
+        'success',
+      );
+    }
+  };
+
+  const errorMessage = lastError === 'offline' ? t('sync.offline') : lastError;
+
+  const renderConflict = (conflict: SyncConflict) => (
+    <View key={conflict.id} style={styles.conflictRow}>
+      <View style={styles.conflictInfo}>
+        <Text style={styles.conflictTable} weight="medium">
+          {conflict.table_name}
+        </Text>
+        <Text style={styles.conflictMeta} numberOfLines={1}>
+          {conflict.message || conflict.row_id}
+        </Text>
+        <Text style={styles.conflictMeta}>
+          {formatDate(conflict.created_at)}
+        </Text>
+      </View>
+      <View
+        style={[
+          styles.resolutionBadge,
+          { backgroundColor: RESOLUTION_COLORS[conflict.resolution] },
+        ]}
+      >
+        <Text style={styles.resolutionText} weight="medium">
+          {t(`sync.resolutions.${conflict.resolution}`)}
+        </Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <View style={styles.headerContent}>
+          <Text style={styles.title} weight="medium">
+            {t('sync.title')}
+          </Text>
+          <Text style={styles.subtitle}>{t('sync.subtitle')}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('sync.server')}
+          </Text>
+          <Text style={styles.inputLabel}>{t('sync.serverUrl')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="http://192.168.1.10:4000"
+            value={serverUrl}
+            onChangeText={setServerUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <Text style={styles.hint}>{t('sync.serverUrlHint')}</Text>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, !trimmedUrl && styles.disabled]}
+              onPress={handleTestConnection}
+              disabled={!trimmedUrl || testing}
+            >
+              {testing ? (
+                <ActivityIndicator size="small" color="#059669" />
+              ) : (
+                <Text style={styles.secondaryButtonText} weight="medium">
+                  {t('sync.testConnection')}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, !urlChanged && styles.disabled]}
+              onPress={handleSaveUrl}
+              disabled={!urlChanged}
+            >
+              <Text style={styles.primaryButtonText} weight="medium">
+                {t('common.save')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchInfo}>
+              <Text style={styles.switchLabel} weight="medium">
+                {t('sync.automaticSync')}
+              </Text>
+              <Text style={styles.hint}>{t('sync.automaticSyncHint')}</Text>
+            </View>
+            <Switch
+              value={settings.enabled}
+              disabled={!settings.serverUrl}
+              onValueChange={(enabled) =>
+                saveSettings({ ...settings, enabled })
+              }
+            />
+          </View>
+
+          {settings.enabled && (
+            <>
+              <Text style={styles.inputLabel}>{t('sync.interval')}</Text>
+              <View style={styles.chipRow}>
+                {INTERVAL_OPTIONS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[
+                      styles.chip,
+                      settings.intervalMinutes === minutes && styles.chipActive,
+                    ]}
+                    onPress={() =>
+                      saveSettings({ ...settings, intervalMinutes: minutes })
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        settings.intervalMinutes === minutes &&
+                          styles.chipTextActive,
+                      ]}
+                    >
+                      {t('sync.everyMinutes', { minutes })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </Card>
+
+        <Card>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('sync.status')}
+          </Text>
+          <View style={styles.statusRow}>
+            <Text style={styles.statusLabel}>{t('sync.pendingChanges')}</Text>
+            <Text style={styles.statusValue} weight="medium">
+              {status?.pendingChanges ?? 0}
+            </Text>
+          </View>
+          <View style={styles.statusRow}>
+            <Text style={styles.statusLabel}>{t('sync.lastSynced')}</Text>
+            <Text style={styles.statusValue} weight="medium">
+              {status?.lastSyncedAt
+                ? formatDate(status.lastSyncedAt)
+                : t('sync.never')}
+            </Text>
+          </View>
+
+          {errorMessage && (
+            <View style={styles.errorBanner}>
+              <CloudOff size={16} color="#B45309" />
+              <Text style={styles.errorText}>{errorMessage}</Text>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.syncButton,
+              (!settings.serverUrl || syncing) && styles.disabled,
+            ]}
+            onPress={handleSyncNow}
+            disabled={!settings.serverUrl || syncing}
+          >
+            {syncing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <>
+                <RefreshCw size={18} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText} weight="medium">
+                  {t('sync.syncNow')}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </Card>
+
+        <Card>
+          <View style={styles.sectionHeader}>
+            <AlertTriangle size={18} color="#6B7280" />
+            <Text style={styles.sectionTitle} weight="medium">
+              {t('sync.conflicts')}
+            </Text>
+          </View>
+          <Text style={styles.hint}>{t('sync.conflictsHint')}</Text>
+          {conflicts.length === 0 ? (
+            <Text style={styles.emptyText}>{t('sync.noConflicts')}</Text>
+          ) : (
+            conflicts.map(renderConflict)
+          )}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#059669',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    color: '#059669',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#059669',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  statusLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  statusValue: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 12,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#B45309',
+  },
+  syncButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  conflictInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  conflictTable: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  conflictMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  resolutionBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  resolutionText: {
+    fontSize: 11,
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
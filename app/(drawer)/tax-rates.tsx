@@ -0,0 +1,488 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useTaxRates, useTaxRateMutations } from '@/hooks/useQueries';
+import { useToast } from '@/context/ToastContext';
+import { TaxRate } from '@/services/database';
+import { Edit, Trash2, Percent, Plus, X } from 'lucide-react-native';
+
+/**
+ * Tax Rates Page
+ * Manage the tax rates that can be assigned to categories and products
+ *
+ * Features:
+ * - View all tax rates
+ * - Add and edit rates via modal (name, percentage, inclusive or exclusive)
+ * - Delete rates that are not assigned to any category or product
+ */
+export default function TaxRates() {
+  const { openDrawer } = useDrawer();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+
+  const { data: taxRates = [], isLoading } = useTaxRates();
+  const { addTaxRate, updateTaxRate, deleteTaxRate } = useTaxRateMutations();
+
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingTaxRate, setEditingTaxRate] = useState<TaxRate | null>(null);
+  const [taxRateFormData, setTaxRateFormData] = useState({
+    name: '',
+    rate: '',
+    is_inclusive: false,
+  });
+
+  const resetTaxRateForm = () => {
+    setTaxRateFormData({ name: '', rate: '', is_inclusive: false });
+    setEditingTaxRate(null);
+    setShowFormModal(false);
+  };
+
+  const handleAddNew = () => {
+    setTaxRateFormData({ name: '', rate: '', is_inclusive: false });
+    setEditingTaxRate(null);
+    setShowFormModal(true);
+  };
+
+  const handleEditTaxRate = (taxRate: TaxRate) => {
+    setTaxRateFormData({
+      name: taxRate.name,
+      rate: taxRate.rate.toString(),
+      is_inclusive: taxRate.is_inclusive === 1,
+    });
+    setEditingTaxRate(taxRate);
+    setShowFormModal(true);
+  };
+
+  const handleTaxRateSubmit = async () => {
+    if (!taxRateFormData.name.trim()) {
+      Alert.alert(t('common.error'), t('tax.enterTaxName'));
+      return;
+    }
+
+    const rate = parseFloat(taxRateFormData.rate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      Alert.alert(t('common.error'), t('tax.invalidRate'));
+      return;
+    }
+
+    const data = {
+      name: taxRateFormData.name.trim(),
+      rate,
+      is_inclusive: taxRateFormData.is_inclusive ? 1 : 0,
+    };
+
+    try {
+      if (editingTaxRate) {
+        await updateTaxRate.mutateAsync({ id: editingTaxRate.id, data });
+      } else {
+        await addTaxRate.mutateAsync(data);
+      }
+
+      resetTaxRateForm();
+      showToast(
+        editingTaxRate ? t('tax.taxRateUpdated') : t('tax.taxRateAdded'),
+        'success',
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('tax.failedToSaveTaxRate'));
+      console.error('Error saving tax rate:', error);
+    }
+  };
+
+  const handleDeleteTaxRate = (taxRate: TaxRate) => {
+    Alert.alert(
+      t('tax.deleteTaxRate'),
+      `${t('tax.areYouSure')} "${taxRate.name}"?`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTaxRate.mutateAsync(taxRate.id);
+              showToast(t('tax.taxRateDeleted'), 'success');
+            } catch (error: any) {
+              console.error('Error deleting tax rate:', error);
+              Alert.alert(
+                t('common.error'),
+                error.message?.includes('assigned')
+                  ? t('tax.taxRateInUse')
+                  : t('tax.failedToSaveTaxRate'),
+                [{ text: t('common.close'), style: 'default' }],
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header with menu button */}
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+        <Text style={styles.title} weight="bold">
+          {t('tax.taxRates')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.listHeader}>
+          <Text style={styles.listTitle} weight="bold">
+            {t('tax.taxRates')}
+          </Text>
+          <Text style={styles.listCount}>{taxRates.length}</Text>
+        </View>
+
+        {taxRates.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Percent size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>{t('tax.noTaxRates')}</Text>
+            <Text style={styles.emptySubtext}>{t('tax.addFirstTaxRate')}</Text>
+          </Card>
+        ) : (
+          taxRates.map((taxRate) => (
+            <Card key={taxRate.id} style={styles.taxRateCard}>
+              <View style={styles.taxRateContent}>
+                <View style={styles.taxRateInfo}>
+                  <Text style={styles.taxRateName} weight="bold">
+                    {taxRate.name}
+                  </Text>
+                  <Text style={styles.taxRateMeta}>
+                    {taxRate.rate}% •{' '}
+                    {taxRate.is_inclusive === 1
+                      ? t('tax.inclusive')
+                      : t('tax.exclusive')}
+                  </Text>
+                </View>
+
+                <View style={styles.taxRateActions}>
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleEditTaxRate(taxRate)}
+                  >
+                    <Edit size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.deleteButton]}
+                    onPress={() => handleDeleteTaxRate(taxRate)}
+                  >
+                    <Trash2 size={20} color="#EF4444" />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Floating Action Button */}
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={handleAddNew}
+        activeOpacity={0.8}
+      >
+        <Plus size={28} color="#FFFFFF" />
+      </TouchableOpacity>
+
+      {/* Tax Rate Form Modal */}
+      <Modal
+        visible={showFormModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={resetTaxRateForm}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle} weight="bold">
+              {editingTaxRate ? t('tax.editTaxRate') : t('tax.addTaxRate')}
+            </Text>
+            <TouchableOpacity
+              onPress={resetTaxRateForm}
+              style={styles.closeButton}
+            >
+              <X size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.formSection}>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('tax.taxName')} *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('tax.taxNamePlaceholder')}
+                  value={taxRateFormData.name}
+                  onChangeText={(text) =>
+                    setTaxRateFormData({ ...taxRateFormData, name: text })
+                  }
+                  autoFocus
+                />
+              </View>
+
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{t('tax.ratePercent')} *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="5"
+                  value={taxRateFormData.rate}
+                  onChangeText={(text) =>
+                    setTaxRateFormData({ ...taxRateFormData, rate: text })
+                  }
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchInfo}>
+                  <Text style={styles.inputLabel}>
+                    {t('tax.pricesIncludeTax')}
+                  </Text>
+                  <Text style={styles.switchHint}>
+                    {taxRateFormData.is_inclusive
+                      ? t('tax.inclusiveHint')
+                      : t('tax.exclusiveHint')}
+                  </Text>
+                </View>
+                <Switch
+                  value={taxRateFormData.is_inclusive}
+                  onValueChange={(value) =>
+                    setTaxRateFormData({
+                      ...taxRateFormData,
+                      is_inclusive: value,
+                    })
+                  }
+                  trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                />
+              </View>
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Button
+              title={t('common.cancel')}
+              onPress={resetTaxRateForm}
+              variant="secondary"
+              style={styles.footerButton}
+            />
+            <Button
+              title={editingTaxRate ? t('common.update') : t('common.add')}
+              onPress={handleTaxRateSubmit}
+              style={styles.footerButton}
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  listTitle: {
+    fontSize: 18,
+    color: '#111827',
+  },
+  listCount: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  emptyCard: {
+    padding: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginTop: 16,
+    fontWeight: '500',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  taxRateCard: {
+    padding: 16,
+    marginBottom: 12,
+  },
+  taxRateContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  taxRateInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  taxRateName: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 4,
+  },
+  taxRateMeta: {
+    fontSize: 12,
+    color: '#059669',
+    fontWeight: '500',
+  },
+  taxRateActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButton: {
+    backgroundColor: '#FEE2E2',
+  },
+  fab: {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#059669',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalTitle: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  formSection: {
+    gap: 20,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
@@ -15,7 +15,11 @@ import { ToastProvider } from '@/context/ToastContext';
 import { LocalizationProvider } from '@/context/LocalizationContext';
 import { ShopSettingsProvider } from '@/context/ShopSettingsContext';
 import { CurrencyProvider } from '@/context/CurrencyContext';
+import { SyncProvider } from '@/context/SyncContext';
+import { BackupProvider } from '@/context/BackupContext';
+import { PrintQueueProvider } from '@/context/PrintQueueContext';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { ThermalTextRasterizer } from '@/components/ThermalTextRasterizer';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -94,41 +98,48 @@ export default function RootLayout() {
     <MigrationProvider>
       <DatabaseProvider>
         <QueryClientProvider client={queryClient}>
-          <LocalizationProvider>
-            <ShopSettingsProvider>
-              <CurrencyProvider>
-                <ToastProvider>
-                  <SafeAreaProvider>
-                    <Stack screenOptions={defaultScreenOptions}>
-                      <Stack.Screen name="index" />
-                      <Stack.Screen
-                        name="(drawer)"
-                        options={{
-                          headerShown: false,
-                        }}
-                      />
-                      {/* <Stack.Screen
-                        name="(tabs)"
-                        options={{
-                          headerShown: false,
-                        }}
-                      /> */}
-                      <Stack.Screen
-                        name="customer-detail"
-                        options={detailScreenOptions}
-                      />
-                      <Stack.Screen
-                        name="supplier-detail"
-                        options={detailScreenOptions}
-                      />
-                      <Stack.Screen name="+not-found" />
-                    </Stack>
-                    <StatusBar style="dark" />
-                  </SafeAreaProvider>
-                </ToastProvider>
-              </CurrencyProvider>
-            </ShopSettingsProvider>
-          </LocalizationProvider>
+          <SyncProvider>
+            <BackupProvider>
+              <LocalizationProvider>
+                <ShopSettingsProvider>
+                  <CurrencyProvider>
+                    <ToastProvider>
+                      <PrintQueueProvider>
+                        <SafeAreaProvider>
+                          <Stack screenOptions={defaultScreenOptions}>
+                            <Stack.Screen name="index" />
+                            <Stack.Screen
+                              name="(drawer)"
+                              options={{
+                                headerShown: false,
+                              }}
+                            />
+                            {/* <Stack.Screen
+                            name="(tabs)"
+                            options={{
+                              headerShown: false,
+                            }}
+                          /> */}
+                            <Stack.Screen
+                              name="customer-detail"
+                              options={detailScreenOptions}
+                            />
+                            <Stack.Screen
+                              name="supplier-detail"
+                              options={detailScreenOptions}
+                            />
+                            <Stack.Screen name="+not-found" />
+                          </Stack>
+                          <StatusBar style="dark" />
+                          <ThermalTextRasterizer />
+                        </SafeAreaProvider>
+                      </PrintQueueProvider>
+                    </ToastProvider>
+                  </CurrencyProvider>
+                </ShopSettingsProvider>
+              </LocalizationProvider>
+            </BackupProvider>
+          </SyncProvider>
         </QueryClientProvider>
       </DatabaseProvider>
     </MigrationProvider>
@@ -22,6 +22,8 @@ import {
   FileText,
   MoreVertical,
   Receipt,
+  BookOpen,
+  Award,
 } from 'lucide-react-native';
 import { Card } from '@/components/Card';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
@@ -29,17 +31,24 @@ import {
   useCustomer,
   useCustomerMutations,
   useInfiniteCustomerSales,
+  useCustomerDebtBalance,
+  useCustomerDebtStatement,
+  useCustomerLoyalty,
+  useLoyaltyLedger,
 } from '@/hooks/useQueries';
 import { useTranslation } from '@/context/LocalizationContext';
 import { useCurrencyFormatter } from '@/context/CurrencyContext';
 import { useToast } from '@/context/ToastContext';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useQuery } from '@tanstack/react-query';
-import { useDatabase } from '@/context/DatabaseContext';
-import { Sale } from '@/services/database';
+import { DebtPaymentModal } from '@/components/DebtPaymentModal';
+import {
+  Sale,
+  DebtStatementEntry,
+  LoyaltyPointsEntry,
+} from '@/services/database';
 
-type TabType = 'overview' | 'sales';
+type TabType = 'overview' | 'sales' | 'statement' | 'points';
 
 export default function CustomerDetail() {
   const router = useRouter();
@@ -47,23 +56,16 @@ export default function CustomerDetail() {
   const { t } = useTranslation();
   const { showToast } = useToast();
   const { deleteCustomer } = useCustomerMutations();
-  const { db } = useDatabase();
 
   const [showActionsMenu, setShowActionsMenu] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('overview');
+  const [showRecordPaymentModal, setShowRecordPaymentModal] = useState(false);
 
   const { data: customer, isLoading, error, refetch } = useCustomer(id!);
   const { formatPrice } = useCurrencyFormatter();
 
-  // Fetch customer debt balance
-  const { data: debtBalance = 0 } = useQuery({
-    queryKey: ['customerDebtBalance', id],
-    queryFn: async () => {
-      if (!db) return 0;
-      return await db.getCustomerDebtBalance(id!);
-    },
-    enabled: !!id && !!db,
-  });
+  // Fetch customer debt balance (debt sales minus recorded payments)
+  const { data: debtBalance = 0 } = useCustomerDebtBalance(id || '');
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -236,6 +238,44 @@ export default function CustomerDetail() {
             Sales History
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'statement' && styles.tabActive]}
+          onPress={() => setActiveTab('statement')}
+        >
+          <BookOpen
+            size={18}
+            color={activeTab === 'statement' ? '#059669' : '#6B7280'}
+          />
+          <Text
+            style={[
+              styles.tabText,
+              activeTab === 'statement' && styles.tabTextActive,
+            ]}
+            weight={activeTab === 'statement' ? 'medium' : 'regular'}
+          >
+            {t('debt.statement')}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'points' && styles.tabActive]}
+          onPress={() => setActiveTab('points')}
+        >
+          <Award
+            size={18}
+            color={activeTab === 'points' ? '#059669' : '#6B7280'}
+          />
+          <Text
+            style={[
+              styles.tabText,
+              activeTab === 'points' && styles.tabTextActive,
+            ]}
+            weight={activeTab === 'points' ? 'medium' : 'regular'}
+          >
+            {t('loyalty.points')}
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Tab Content */}
@@ -247,11 +287,23 @@ export default function CustomerDetail() {
           formatDate={formatDate}
           handleCall={handleCall}
           handleEmail={handleEmail}
+          onRecordPayment={() => setShowRecordPaymentModal(true)}
           t={t}
         />
-      ) : (
+      ) : activeTab === 'sales' ? (
         <SalesHistoryTab customerId={id!} />
+      ) : activeTab === 'statement' ? (
+        <DebtStatementTab customerId={id!} />
+      ) : (
+        <LoyaltyPointsTab customerId={id!} />
       )}
+
+      <DebtPaymentModal
+        visible={showRecordPaymentModal}
+        customerId={customer.id}
+        outstanding={debtBalance}
+        onClose={() => setShowRecordPaymentModal(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -264,6 +316,7 @@ function OverviewTab({
   formatDate,
   handleCall,
   handleEmail,
+  onRecordPayment,
   t,
 }: any) {
   return (
@@ -368,6 +421,14 @@ function OverviewTab({
           <Text style={styles.debtDescription}>
             This customer has outstanding debt from sales made on credit.
           </Text>
+          <TouchableOpacity
+            style={styles.debtPaymentButton}
+            onPress={onRecordPayment}
+          >
+            <Text style={styles.debtPaymentButtonText} weight="medium">
+              {t('debt.recordPayment')}
+            </Text>
+          </TouchableOpacity>
         </Card>
       )}
     </ScrollView>
@@ -473,6 +534,200 @@ function SalesHistoryTab({ customerId }: { customerId: string }) {
   );
 }
 
+// Debt Statement Tab Component
+function DebtStatementTab({ customerId }: { customerId: string }) {
+  const router = useRouter();
+  const { formatPrice } = useCurrencyFormatter();
+  const { t } = useTranslation();
+
+  const { data: entries = [], isLoading } =
+    useCustomerDebtStatement(customerId);
+
+  // Show the most recent activity first; balances are already running totals
+  const statement = [...entries].reverse();
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const renderEntry = ({ item }: { item: DebtStatementEntry }) => {
+    const isCharge = item.type === 'charge';
+    return (
+      <TouchableOpacity
+        style={styles.statementRow}
+        disabled={!isCharge}
+        onPress={() => {
+          if (!isCharge || !item.sale_id) return;
+          router.push({
+            pathname: '/(drawer)/sale-detail',
+            params: {
+              sale: JSON.stringify({
+                id: item.sale_id,
+                voucher_id: item.reference,
+                total: item.charge,
+                payment_method: 'Debt',
+                note: item.note,
+                customer_id: customerId,
+                created_at: item.date,
+              }),
+            },
+          });
+        }}
+      >
+        <View style={styles.saleCardLeft}>
+          <Text style={styles.statementReference} weight="medium">
+            {isCharge
+              ? `${t('debt.charge')} #${item.reference}`
+              : item.type === 'return'
+                ? `${t('returns.returnCredit')} #${item.reference}`
+                : `${t('debt.payment')} (${item.reference})`}
+          </Text>
+          <Text style={styles.saleDate}>{formatDate(item.date)}</Text>
+          {item.note ? (
+            <Text style={styles.statementNote}>{item.note}</Text>
+          ) : null}
+        </View>
+        <View style={styles.saleCardRight}>
+          <Text
+            style={isCharge ? styles.statementCharge : styles.statementPayment}
+            weight="bold"
+          >
+            {isCharge
+              ? `+${formatPrice(item.charge)}`
+              : `-${formatPrice(item.payment)}`}
+          </Text>
+          <Text style={styles.statementBalance}>
+            {t('debt.balance')}: {formatPrice(item.balance)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <View style={styles.salesHistoryContainer}>
+      <FlatList
+        data={statement}
+        renderItem={renderEntry}
+        keyExtractor={(item) => `${item.type}-${item.id}`}
+        contentContainerStyle={[
+          styles.salesList,
+          statement.length === 0 && styles.salesListEmpty,
+        ]}
+        ListEmptyComponent={
+          <View style={styles.emptySales}>
+            <BookOpen size={64} color="#D1D5DB" />
+            <Text style={styles.emptySalesTitle} weight="medium">
+              {t('debt.noDebtSales')}
+            </Text>
+          </View>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
+// Loyalty Points Tab Component
+function LoyaltyPointsTab({ customerId }: { customerId: string }) {
+  const { t } = useTranslation();
+
+  const { data: loyalty } = useCustomerLoyalty(customerId);
+  const { data: entries = [], isLoading } = useLoyaltyLedger(customerId);
+
+  // Most recent activity first
+  const ledger = [...entries].reverse();
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString.replace(' ', 'T')).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const renderEntry = ({ item }: { item: LoyaltyPointsEntry }) => (
+    <View style={styles.statementRow}>
+      <View style={styles.saleCardLeft}>
+        <Text style={styles.statementReference} weight="medium">
+          {item.type === 'earn' ? t('loyalty.earned') : t('loyalty.redeemed')}
+        </Text>
+        <Text style={styles.saleDate}>{formatDate(item.created_at)}</Text>
+        {item.expires_at ? (
+          <Text style={styles.statementNote}>
+            {t('loyalty.expiresOn', { date: formatDate(item.expires_at) })}
+          </Text>
+        ) : null}
+      </View>
+      <Text
+        style={
+          item.points > 0 ? styles.statementPayment : styles.statementCharge
+        }
+        weight="bold"
+      >
+        {item.points > 0 ? `+${item.points}` : item.points}
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <View style={styles.salesHistoryContainer}>
+      {loyalty && (
+        <Card style={styles.loyaltyCard}>
+          <View>
+            <Text style={styles.statementBalance} weight="medium">
+              {t('loyalty.balance')}
+            </Text>
+            <Text style={styles.loyaltyBalance} weight="bold">
+              {loyalty.balance}
+            </Text>
+          </View>
+          <View style={styles.saleCardRight}>
+            <Text style={styles.loyaltyTier} weight="medium">
+              {t(`loyalty.tiers.${loyalty.tier}`)}
+            </Text>
+            {loyalty.expired > 0 && (
+              <Text style={styles.statementBalance}>
+                {t('loyalty.expiredPoints', { points: loyalty.expired })}
+              </Text>
+            )}
+          </View>
+        </Card>
+      )}
+      <FlatList
+        data={ledger}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[
+          styles.salesList,
+          ledger.length === 0 && styles.salesListEmpty,
+        ]}
+        ListEmptyComponent={
+          <View style={styles.emptySales}>
+            <Award size={64} color="#D1D5DB" />
+            <Text style={styles.emptySalesTitle} weight="medium">
+              {t('loyalty.noActivity')}
+            </Text>
+          </View>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -673,6 +928,68 @@ const styles = StyleSheet.create({
     color: '#92400E',
     lineHeight: 18,
   },
+  debtPaymentButton: {
+    marginTop: 12,
+    backgroundColor: '#F59E0B',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  debtPaymentButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  statementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  statementReference: {
+    fontSize: 15,
+    color: '#111827',
+    marginBottom: 4,
+  },
+  statementNote: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  statementCharge: {
+    fontSize: 16,
+    color: '#D97706',
+    marginBottom: 4,
+  },
+  statementPayment: {
+    fontSize: 16,
+    color: '#059669',
+    marginBottom: 4,
+  },
+  statementBalance: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  loyaltyCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  loyaltyBalance: {
+    fontSize: 24,
+    color: '#059669',
+  },
+  loyaltyTier: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 4,
+  },
   tabsContainer: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { ShieldAlert } from 'lucide-react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Button } from '@/components/Button';
+import { MenuButton } from '@/components/MenuButton';
+import { useDrawer } from '@/context/DrawerContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useStaff } from '@/context/StaffContext';
+
+/**
+ * Covers a drawer screen the signed-in staff member's role cannot open
+ */
+export const AccessDenied: React.FC = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { openDrawer } = useDrawer();
+  const { currentStaff } = useStaff();
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <MenuButton onPress={openDrawer} />
+      </View>
+      <View style={styles.content}>
+        <ShieldAlert size={48} color="#F59E0B" />
+        <Text style={styles.title} weight="bold">
+          {t('staff.accessDenied')}
+        </Text>
+        <Text style={styles.message}>
+          {t('staff.accessDeniedMessage', {
+            role: currentStaff ? t(`staff.roles.${currentStaff.role}`) : '',
+          })}
+        </Text>
+        <Button
+          title={t('staff.goToDashboard')}
+          onPress={() => router.replace('/(drawer)/dashboard')}
+          style={styles.button}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#F9FAFB',
+    zIndex: 900,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    marginBottom: 64,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  button: {
+    minWidth: 200,
+  },
+});
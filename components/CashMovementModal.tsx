@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { PriceInput } from '@/components/PriceInput';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useShiftMutations } from '@/hooks/useQueries';
+import type { CashMovement } from '@/services/database';
+
+interface CashMovementModalProps {
+  visible: boolean;
+  type: CashMovement['type'];
+  onClose: () => void;
+}
+
+/**
+ * Modal for recording cash put into (pay-in) or taken out of (pay-out) the
+ * drawer during the open shift.
+ */
+export const CashMovementModal: React.FC<CashMovementModalProps> = ({
+  visible,
+  type,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { addCashMovement } = useShiftMutations();
+
+  const [amountText, setAmountText] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setAmountText('');
+      setAmount(0);
+      setReason('');
+    }
+  }, [visible]);
+
+  const isPayIn = type === 'pay_in';
+  const isAmountValid = amount > 0;
+  const recording = addCashMovement.isPending;
+
+  const handleRecord = async () => {
+    if (!isAmountValid) return;
+
+    try {
+      await addCashMovement.mutateAsync({
+        type,
+        amount,
+        reason: reason.trim() || undefined,
+      });
+      showToast(
+        isPayIn ? t('shifts.payInRecorded') : t('shifts.payOutRecorded'),
+        'success',
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error recording cash movement:', error);
+      Alert.alert(t('common.error'), t('shifts.failedToRecordMovement'));
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {isPayIn ? t('shifts.payIn') : t('shifts.payOut')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={recording}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.hint}>
+              {isPayIn ? t('shifts.payInHint') : t('shifts.payOutHint')}
+            </Text>
+
+            <PriceInput
+              label={t('common.amount')}
+              value={amountText}
+              onValueChange={(text: string, numericValue: number) => {
+                setAmountText(text);
+                setAmount(numericValue);
+              }}
+              showCurrencyHint={false}
+              editable={!recording}
+            />
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('shifts.reason')}
+            </Text>
+            <TextInput
+              style={styles.noteInput}
+              value={reason}
+              onChangeText={setReason}
+              placeholder={t('shifts.reasonPlaceholder')}
+              multiline
+              numberOfLines={2}
+              maxLength={200}
+              editable={!recording}
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.recordButton,
+              !isPayIn && styles.payOutButton,
+              (!isAmountValid || recording) && styles.recordButtonDisabled,
+            ]}
+            onPress={handleRecord}
+            disabled={!isAmountValid || recording}
+          >
+            {recording ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.recordButtonText} weight="medium">
+                {isPayIn ? t('shifts.recordPayIn') : t('shifts.recordPayOut')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  recordButton: {
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  payOutButton: {
+    backgroundColor: '#EF4444',
+  },
+  recordButtonDisabled: {
+    opacity: 0.5,
+  },
+  recordButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { PriceInput } from '@/components/PriceInput';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useShiftMutations } from '@/hooks/useQueries';
+import type { ShiftReport } from '@/services/database';
+
+interface CloseShiftModalProps {
+  visible: boolean;
+  shiftId: string;
+  expectedCash: number;
+  onClose: () => void;
+  onClosed: (report: ShiftReport) => void;
+}
+
+/**
+ * Modal for counting the drawer and closing the open shift. Shows the
+ * variance against expected cash before the shift is closed.
+ */
+export const CloseShiftModal: React.FC<CloseShiftModalProps> = ({
+  visible,
+  shiftId,
+  expectedCash,
+  onClose,
+  onClosed,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { closeShift } = useShiftMutations();
+
+  const [countedText, setCountedText] = useState('');
+  const [countedCash, setCountedCash] = useState(0);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setCountedText('');
+      setCountedCash(0);
+      setNote('');
+    }
+  }, [visible]);
+
+  const hasCount = countedText.trim().length > 0;
+  const variance = countedCash - expectedCash;
+  const closing = closeShift.isPending;
+
+  const handleClose = async () => {
+    if (!hasCount) return;
+
+    try {
+      const report = await closeShift.mutateAsync({
+        shiftId,
+        countedCash,
+        note: note.trim() || undefined,
+      });
+      onClosed(report);
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      Alert.alert(t('common.error'), t('shifts.failedToCloseShift'));
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {t('shifts.closeShift')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={closing}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.expectedRow}>
+              <Text style={styles.expectedLabel}>
+                {t('shifts.expectedCash')}
+              </Text>
+              <Text style={styles.expectedValue} weight="bold">
+                {formatPrice(expectedCash)}
+              </Text>
+            </View>
+
+            <PriceInput
+              label={t('shifts.countedCash')}
+              value={countedText}
+              onValueChange={(text: string, numericValue: number) => {
+                setCountedText(text);
+                setCountedCash(numericValue);
+              }}
+              showCurrencyHint={false}
+              editable={!closing}
+            />
+
+            {hasCount && (
+              <View style={styles.varianceRow}>
+                <Text style={styles.varianceLabel} weight="medium">
+                  {variance < 0 ? t('shifts.short') : t('shifts.over')}
+                </Text>
+                <Text
+                  style={[
+                    styles.varianceValue,
+                    variance < 0 ? styles.negative : styles.positive,
+                  ]}
+                  weight="bold"
+                >
+                  {formatPrice(Math.abs(variance))}
+                </Text>
+              </View>
+            )}
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('shifts.closingNote')}
+            </Text>
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t('shifts.closingNotePlaceholder')}
+              multiline
+              numberOfLines={2}
+              maxLength={200}
+              editable={!closing}
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.closeButton,
+              (!hasCount || closing) && styles.closeButtonDisabled,
+            ]}
+            onPress={handleClose}
+            disabled={!hasCount || closing}
+          >
+            {closing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.closeButtonText} weight="medium">
+                {t('shifts.closeShift')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  expectedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#ECFDF5',
+    marginBottom: 16,
+  },
+  expectedLabel: {
+    fontSize: 14,
+    color: '#065F46',
+  },
+  expectedValue: {
+    fontSize: 18,
+    color: '#059669',
+  },
+  varianceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  varianceLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  varianceValue: {
+    fontSize: 16,
+  },
+  negative: {
+    color: '#EF4444',
+  },
+  positive: {
+    color: '#059669',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  closeButton: {
+    backgroundColor: '#111827',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  closeButtonDisabled: {
+    opacity: 0.5,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
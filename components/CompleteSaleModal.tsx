@@ -20,6 +20,8 @@ import {
   ChevronDown,
   Check,
   Settings,
+  Tag,
+  Award,
 } from 'lucide-react-native';
 import { useTranslation } from '@/context/LocalizationContext';
 import { useCurrencyFormatter } from '@/context/CurrencyContext';
@@ -29,6 +31,8 @@ import {
 } from '@/services/paymentMethodService';
 import { PaymentMethodManagement } from '@/components/PaymentMethodManagement';
 import { type Customer } from '@/services/database';
+import type { OrderDiscount, OrderDiscountType } from '@/utils/discountUtils';
+import type { LoyaltyRedemption, LoyaltyTier } from '@/utils/loyaltyUtils';
 
 interface CompleteSaleModalProps {
   visible: boolean;
@@ -43,6 +47,23 @@ interface CompleteSaleModalProps {
   selectedCustomer?: Customer | null;
   loading: boolean;
   onRecalculate?: () => void; // For cash payments only
+  initialNote?: string; // Prefills the note, e.g. from a resumed held cart
+  // Whole-order discount; the section is hidden when no handler is given
+  orderDiscount?: OrderDiscount | null;
+  orderDiscountAmount?: number;
+  onOrderDiscountChange?: (discount: OrderDiscount | null) => void;
+  onApplyCoupon?: (code: string) => Promise<string | null>; // Resolves to an error message, or null once applied
+  // Points of the attached customer; the section is hidden without them
+  loyalty?: {
+    balance: number;
+    tier: LoyaltyTier;
+    maxPoints: number; // Most points the order can take in the current mode
+    redemptionAmount: number;
+    pointsEarned: number;
+    amountDue: number; // Total less points paid
+  };
+  loyaltyRedemption?: LoyaltyRedemption | null;
+  onLoyaltyRedemptionChange?: (redemption: LoyaltyRedemption | null) => void;
 }
 
 export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
@@ -54,6 +75,14 @@ export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
   selectedCustomer,
   loading,
   onRecalculate,
+  initialNote,
+  orderDiscount,
+  orderDiscountAmount = 0,
+  onOrderDiscountChange,
+  onApplyCoupon,
+  loyalty,
+  loyaltyRedemption,
+  onLoyaltyRedemptionChange,
 }) => {
   const { t } = useTranslation();
   const { formatPrice } = useCurrencyFormatter();
@@ -68,6 +97,39 @@ export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
   const [showManagementModal, setShowManagementModal] = useState(false);
   const [loadingMethods, setLoadingMethods] = useState(!providedPaymentMethod);
 
+  const [showDiscountForm, setShowDiscountForm] = useState(false);
+  const [discountType, setDiscountType] =
+    useState<OrderDiscountType>('percent');
+  const [discountValue, setDiscountValue] = useState('');
+  const [discountReason, setDiscountReason] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [pointsInput, setPointsInput] = useState('');
+
+  useEffect(() => {
+    if (visible && initialNote) {
+      setSaleNote(initialNote);
+    }
+  }, [visible, initialNote]);
+
+  // Reopening after recalculating keeps the discount already entered
+  useEffect(() => {
+    if (visible) {
+      const manualDiscount =
+        orderDiscount && !orderDiscount.coupon ? orderDiscount : null;
+      setShowDiscountForm(!!orderDiscount);
+      setDiscountType(manualDiscount?.type || 'percent');
+      setDiscountValue(manualDiscount ? String(manualDiscount.value) : '');
+      setDiscountReason(manualDiscount?.reason || '');
+      setCouponCode('');
+      setCouponError(null);
+      setPointsInput(
+        loyaltyRedemption?.points ? String(loyaltyRedemption.points) : '',
+      );
+    }
+  }, [visible]);
+
   // Load payment methods only if payment method is not provided (backward compatibility)
   useEffect(() => {
     if (!providedPaymentMethod) {
@@ -128,6 +190,57 @@ export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
     return iconMap[iconName] || CreditCard;
   };
 
+  const updateManualDiscount = (
+    type: OrderDiscountType,
+    value: string,
+    reason: string,
+  ) => {
+    setDiscountType(type);
+    setDiscountValue(value);
+    setDiscountReason(reason);
+
+    const amount = parseFloat(value);
+    onOrderDiscountChange?.(
+      amount > 0 ? { type, value: amount, reason: reason.trim() } : null,
+    );
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!onApplyCoupon || !couponCode.trim()) return;
+
+    setApplyingCoupon(true);
+    const error = await onApplyCoupon(couponCode);
+    setApplyingCoupon(false);
+    setCouponError(error);
+    if (!error) {
+      setCouponCode('');
+      setDiscountValue('');
+      setDiscountReason('');
+    }
+  };
+
+  const resetOrderDiscount = () => {
+    setShowDiscountForm(false);
+    setDiscountValue('');
+    setDiscountReason('');
+    setCouponCode('');
+    setCouponError(null);
+    onOrderDiscountChange?.(null);
+  };
+
+  const pointsMode = loyaltyRedemption?.mode || 'payment';
+
+  const updateRedemption = (text: string, mode: LoyaltyRedemption['mode']) => {
+    setPointsInput(text);
+    const points = parseInt(text, 10);
+    onLoyaltyRedemptionChange?.({ points: points > 0 ? points : 0, mode });
+  };
+
+  const resetRedemption = () => {
+    setPointsInput('');
+    onLoyaltyRedemptionChange?.(null);
+  };
+
   const handleConfirmSale = () => {
     if (!currentPaymentMethod) return;
 
@@ -137,6 +250,32 @@ export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
       return;
     }
 
+    // Manual order discounts need a reason; coupons carry their own code
+    if (orderDiscount && !orderDiscount.coupon) {
+      if (orderDiscount.type === 'percent' && orderDiscount.value > 100) {
+        Alert.alert(t('common.error'), t('orderDiscount.invalidPercent'));
+        return;
+      }
+      if (!orderDiscount.reason) {
+        Alert.alert(t('common.error'), t('orderDiscount.reasonRequired'));
+        return;
+      }
+    }
+
+    if (loyalty && loyaltyRedemption) {
+      if (loyaltyRedemption.points > loyalty.balance) {
+        Alert.alert(t('common.error'), t('loyalty.notEnoughPoints'));
+        return;
+      }
+      if (loyaltyRedemption.points > loyalty.maxPoints) {
+        Alert.alert(
+          t('common.error'),
+          t('loyalty.tooManyPoints', { max: loyalty.maxPoints }),
+        );
+        return;
+      }
+    }
+
     // Always use the old API signature: onConfirmSale(paymentMethod, note, shouldPrint)
     onConfirmSale(
       currentPaymentMethod.name,
@@ -149,6 +288,8 @@ export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
     if (!loading) {
       setSaleNote('');
       setShouldPrintReceipt(false);
+      resetOrderDiscount();
+      resetRedemption();
       if (!providedPaymentMethod) {
         // Reset to default payment method
         const defaultMethod = paymentMethods.find((method) => method.isDefault);
@@ -388,6 +529,277 @@ export const CompleteSaleModal: React.FC<CompleteSaleModalProps> = ({
             />
           )}
 
+          {/* Order Discount */}
+          {onOrderDiscountChange && (
+            <View style={styles.discountSection}>
+              {orderDiscount?.coupon ? (
+                <View style={styles.discountAppliedRow}>
+                  <Tag size={16} color="#059669" />
+                  <Text style={styles.discountAppliedText} weight="medium">
+                    {t('orderDiscount.couponLabel', {
+                      code: orderDiscount.coupon.code,
+                    })}
+                  </Text>
+                  <Text style={styles.discountAmount} weight="medium">
+                    -{formatPrice(orderDiscountAmount)}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={resetOrderDiscount}
+                    disabled={loading}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('orderDiscount.remove')}
+                  >
+                    <X size={16} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+              ) : !showDiscountForm ? (
+                <TouchableOpacity
+                  style={styles.addDiscountButton}
+                  onPress={() => setShowDiscountForm(true)}
+                  disabled={loading}
+                  accessible={true}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('orderDiscount.addDiscount')}
+                >
+                  <Tag size={16} color="#059669" />
+                  <Text style={styles.addDiscountText} weight="medium">
+                    {t('orderDiscount.addDiscount')}
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <View style={styles.sectionHeader}>
+                    <Text style={styles.sectionTitle} weight="medium">
+                      {t('orderDiscount.title')}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={resetOrderDiscount}
+                      disabled={loading}
+                      accessible={true}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('orderDiscount.remove')}
+                    >
+                      <X size={16} color="#6B7280" />
+                    </TouchableOpacity>
+                  </View>
+                  <View style={styles.discountRow}>
+                    <View style={styles.discountTypeToggle}>
+                      {(['percent', 'fixed'] as const).map((type) => (
+                        <TouchableOpacity
+                          key={type}
+                          style={[
+                            styles.discountTypeOption,
+                            discountType === type &&
+                              styles.discountTypeOptionActive,
+                          ]}
+                          onPress={() =>
+                            updateManualDiscount(
+                              type,
+                              discountValue,
+                              discountReason,
+                            )
+                          }
+                          disabled={loading}
+                        >
+                          <Text
+                            style={[
+                              styles.discountTypeText,
+                              discountType === type &&
+                                styles.discountTypeTextActive,
+                            ]}
+                            weight="medium"
+                          >
+                            {type === 'percent'
+                              ? '%'
+                              : t('orderDiscount.amount')}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <TextInput
+                      style={[styles.discountInput, styles.discountValueInput]}
+                      value={discountValue}
+                      onChangeText={(text) =>
+                        updateManualDiscount(discountType, text, discountReason)
+                      }
+                      placeholder="0"
+                      keyboardType="decimal-pad"
+                      editable={!loading}
+                      accessible={true}
+                      accessibilityLabel={t('orderDiscount.title')}
+                    />
+                    {orderDiscountAmount > 0 && (
+                      <Text style={styles.discountAmount} weight="medium">
+                        -{formatPrice(orderDiscountAmount)}
+                      </Text>
+                    )}
+                  </View>
+                  <TextInput
+                    style={styles.discountInput}
+                    value={discountReason}
+                    onChangeText={(text) =>
+                      updateManualDiscount(discountType, discountValue, text)
+                    }
+                    placeholder={t('orderDiscount.reasonPlaceholder')}
+                    maxLength={100}
+                    editable={!loading}
+                    accessible={true}
+                    accessibilityLabel={t('orderDiscount.reason')}
+                  />
+                  {onApplyCoupon && (
+                    <View style={styles.discountRow}>
+                      <TextInput
+                        style={[styles.discountInput, styles.couponInput]}
+                        value={couponCode}
+                        onChangeText={(text) => {
+                          setCouponCode(text);
+                          setCouponError(null);
+                        }}
+                        placeholder={t('orderDiscount.couponPlaceholder')}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        editable={!loading && !applyingCoupon}
+                        accessible={true}
+                        accessibilityLabel={t(
+                          'orderDiscount.couponPlaceholder',
+                        )}
+                      />
+                      <TouchableOpacity
+                        style={[
+                          styles.applyCouponButton,
+                          !couponCode.trim() && styles.confirmButtonDisabled,
+                        ]}
+                        onPress={handleApplyCoupon}
+                        disabled={
+                          loading || applyingCoupon || !couponCode.trim()
+                        }
+                        accessible={true}
+                        accessibilityRole="button"
+                        accessibilityLabel={t('orderDiscount.apply')}
+                      >
+                        {applyingCoupon ? (
+                          <ActivityIndicator size="small" color="#FFFFFF" />
+                        ) : (
+                          <Text style={styles.applyCouponText} weight="medium">
+                            {t('orderDiscount.apply')}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  {couponError && (
+                    <Text style={styles.couponError}>{couponError}</Text>
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Loyalty Points */}
+          {loyalty && onLoyaltyRedemptionChange && (
+            <View style={styles.discountSection}>
+              <View style={styles.sectionHeader}>
+                <View style={styles.loyaltyTitleRow}>
+                  <Award size={16} color="#059669" />
+                  <Text style={styles.sectionTitle} weight="medium">
+                    {t('loyalty.points')}
+                  </Text>
+                </View>
+                <Text style={styles.loyaltyBalance}>
+                  {t('loyalty.balanceWithTier', {
+                    points: loyalty.balance,
+                    tier: t(`loyalty.tiers.${loyalty.tier}`),
+                  })}
+                </Text>
+              </View>
+              {loyalty.balance > 0 && (
+                <View style={styles.discountRow}>
+                  <View style={styles.discountTypeToggle}>
+                    {(['payment', 'discount'] as const).map((mode) => (
+                      <TouchableOpacity
+                        key={mode}
+                        style={[
+                          styles.discountTypeOption,
+                          pointsMode === mode &&
+                            styles.discountTypeOptionActive,
+                        ]}
+                        onPress={() => updateRedemption(pointsInput, mode)}
+                        disabled={loading}
+                      >
+                        <Text
+                          style={[
+                            styles.discountTypeText,
+                            pointsMode === mode &&
+                              styles.discountTypeTextActive,
+                          ]}
+                          weight="medium"
+                        >
+                          {mode === 'payment'
+                            ? t('loyalty.asPayment')
+                            : t('loyalty.asDiscount')}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TextInput
+                    style={[styles.discountInput, styles.discountValueInput]}
+                    value={pointsInput}
+                    onChangeText={(text) => updateRedemption(text, pointsMode)}
+                    placeholder="0"
+                    keyboardType="number-pad"
+                    editable={!loading}
+                    accessible={true}
+                    accessibilityLabel={t('loyalty.pointsToRedeem')}
+                  />
+                  <TouchableOpacity
+                    style={styles.applyCouponButton}
+                    onPress={() =>
+                      updateRedemption(String(loyalty.maxPoints), pointsMode)
+                    }
+                    disabled={loading || loyalty.maxPoints === 0}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('loyalty.useMax')}
+                  >
+                    <Text style={styles.applyCouponText} weight="medium">
+                      {t('loyalty.useMax')}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {loyalty.redemptionAmount > 0 && (
+                <View style={styles.loyaltyRow}>
+                  <Text style={styles.loyaltyLabel}>
+                    {pointsMode === 'payment'
+                      ? t('loyalty.paidWithPoints')
+                      : t('loyalty.pointsDiscount', {
+                          points: loyaltyRedemption?.points || 0,
+                        })}
+                  </Text>
+                  <Text style={styles.discountAmount} weight="medium">
+                    -{formatPrice(loyalty.redemptionAmount)}
+                  </Text>
+                </View>
+              )}
+              {pointsMode === 'payment' && loyalty.redemptionAmount > 0 && (
+                <View style={styles.loyaltyRow}>
+                  <Text style={styles.loyaltyLabel} weight="medium">
+                    {t('loyalty.amountDue')}
+                  </Text>
+                  <Text style={styles.loyaltyLabel} weight="bold">
+                    {formatPrice(loyalty.amountDue)}
+                  </Text>
+                </View>
+              )}
+              {loyalty.pointsEarned > 0 && (
+                <Text style={styles.loyaltyBalance}>
+                  {t('loyalty.willEarn', { points: loyalty.pointsEarned })}
+                </Text>
+              )}
+            </View>
+          )}
+
           {/* Total Amount with Calculator Icon */}
           {/* <View
             style={styles.totalSection}
@@ -922,4 +1334,116 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: '#059669',
   },
+  // Order Discount Styles
+  discountSection: {
+    marginBottom: 8,
+    gap: 8,
+  },
+  addDiscountButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  addDiscountText: {
+    fontSize: 14,
+    color: '#059669',
+  },
+  discountAppliedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+  },
+  discountAppliedText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#047857',
+  },
+  discountAmount: {
+    fontSize: 14,
+    color: '#EF4444',
+  },
+  discountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  discountTypeToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  discountTypeOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  discountTypeOptionActive: {
+    backgroundColor: '#059669',
+  },
+  discountTypeText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  discountTypeTextActive: {
+    color: '#FFFFFF',
+  },
+  discountInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#111827',
+    backgroundColor: '#FFFFFF',
+  },
+  discountValueInput: {
+    flex: 1,
+  },
+  couponInput: {
+    flex: 1,
+  },
+  applyCouponButton: {
+    paddingVertical: 9,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#059669',
+    minWidth: 72,
+    alignItems: 'center',
+  },
+  applyCouponText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  couponError: {
+    fontSize: 12,
+    color: '#EF4444',
+  },
+
+  // Loyalty Styles
+  loyaltyTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  loyaltyBalance: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  loyaltyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  loyaltyLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
 });
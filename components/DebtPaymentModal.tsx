@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { PriceInput } from '@/components/PriceInput';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { useDebtPaymentMutations } from '@/hooks/useQueries';
+import {
+  PaymentMethodService,
+  type PaymentMethod,
+} from '@/services/paymentMethodService';
+
+interface DebtPaymentModalProps {
+  visible: boolean;
+  customerId: string;
+  saleId?: string; // When set, the payment is applied to this debt sale
+  outstanding: number;
+  onClose: () => void;
+  onRecorded?: () => void;
+}
+
+/**
+ * Modal for recording a full or partial payment against a customer's debt.
+ * Payments can be scoped to a single debt sale or to the customer's balance.
+ */
+export const DebtPaymentModal: React.FC<DebtPaymentModalProps> = ({
+  visible,
+  customerId,
+  saleId,
+  outstanding,
+  onClose,
+  onRecorded,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { showToast } = useToast();
+  const { recordDebtPayment } = useDebtPaymentMutations();
+
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [selectedMethod, setSelectedMethod] = useState<string>('');
+  const [amountText, setAmountText] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [note, setNote] = useState('');
+
+  // Load non-debt payment methods
+  useEffect(() => {
+    const loadPaymentMethods = async () => {
+      try {
+        const methods = await PaymentMethodService.getPaymentMethods();
+        const payable = methods.filter((method) => method.id !== 'debt');
+        setPaymentMethods(payable);
+        if (payable.length > 0) {
+          setSelectedMethod((current) => current || payable[0].name);
+        }
+      } catch (error) {
+        console.error('Error loading payment methods:', error);
+      }
+    };
+    loadPaymentMethods();
+  }, []);
+
+  // Default to settling the full outstanding amount whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      setAmountText(outstanding > 0 ? outstanding.toString() : '');
+      setAmount(outstanding);
+      setNote('');
+    }
+  }, [visible, outstanding]);
+
+  const isAmountValid = amount > 0 && amount - outstanding <= 0.001;
+  const remainingAfterPayment = Math.max(0, outstanding - amount);
+
+  const handleRecord = async () => {
+    if (!isAmountValid) {
+      Alert.alert(t('common.error'), t('debt.invalidPaymentAmount'));
+      return;
+    }
+
+    if (!selectedMethod) {
+      Alert.alert(t('common.error'), t('debt.selectPaymentMethod'));
+      return;
+    }
+
+    try {
+      await recordDebtPayment.mutateAsync({
+        customer_id: customerId,
+        sale_id: saleId,
+        amount,
+        payment_method: selectedMethod,
+        note: note.trim() || undefined,
+      });
+      showToast(t('debt.paymentRecorded'), 'success');
+      onRecorded?.();
+      onClose();
+    } catch (error) {
+      console.error('Error recording debt payment:', error);
+      Alert.alert(t('common.error'), t('debt.failedToRecordPayment'));
+    }
+  };
+
+  const recording = recordDebtPayment.isPending;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {t('debt.recordDebtPayment')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={recording}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.outstandingRow}>
+              <Text style={styles.outstandingLabel}>
+                {t('debt.outstandingDebt')}
+              </Text>
+              <Text style={styles.outstandingValue} weight="bold">
+                {formatPrice(outstanding)}
+              </Text>
+            </View>
+
+            <PriceInput
+              label={t('debt.paymentAmount')}
+              value={amountText}
+              onValueChange={(text: string, numericValue: number) => {
+                setAmountText(text);
+                setAmount(numericValue);
+              }}
+              error={
+                amountText.length > 0 && amount - outstanding > 0.001
+                  ? t('debt.amountExceedsOutstanding')
+                  : undefined
+              }
+              showCurrencyHint={false}
+              editable={!recording}
+            />
+
+            {isAmountValid && remainingAfterPayment > 0 && (
+              <Text style={styles.remainingText}>
+                {t('debt.remainingAfterPayment', {
+                  amount: formatPrice(remainingAfterPayment),
+                })}
+              </Text>
+            )}
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('debt.selectPaymentMethod')}
+            </Text>
+            <View style={styles.methodsContainer}>
+              {paymentMethods.map((method) => {
+                const isSelected = selectedMethod === method.name;
+                return (
+                  <TouchableOpacity
+                    key={method.id}
+                    style={[
+                      styles.methodChip,
+                      isSelected && {
+                        borderColor: method.color,
+                        backgroundColor: method.color + '20',
+                      },
+                    ]}
+                    onPress={() => setSelectedMethod(method.name)}
+                    disabled={recording}
+                  >
+                    <Text
+                      style={styles.methodChipText}
+                      weight={isSelected ? 'medium' : 'regular'}
+                    >
+                      {method.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('debt.paymentNote')}
+            </Text>
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t('debt.paymentNotePlaceholder')}
+              multiline
+              numberOfLines={2}
+              maxLength={200}
+              editable={!recording}
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.recordButton,
+              (!isAmountValid || recording) && styles.recordButtonDisabled,
+            ]}
+            onPress={handleRecord}
+            disabled={!isAmountValid || recording}
+          >
+            {recording ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.recordButtonText} weight="medium">
+                {t('debt.recordPayment')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  outstandingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#FEF3C7',
+    marginBottom: 16,
+  },
+  outstandingLabel: {
+    fontSize: 14,
+    color: '#92400E',
+  },
+  outstandingValue: {
+    fontSize: 18,
+    color: '#D97706',
+  },
+  remainingText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  methodsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  methodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  methodChipText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  recordButton: {
+    backgroundColor: '#F59E0B',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  recordButtonDisabled: {
+    opacity: 0.5,
+  },
+  recordButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
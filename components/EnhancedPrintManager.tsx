@@ -14,15 +14,20 @@ import { MyanmarText as Text } from '@/components/MyanmarText';
 import { X, Printer, Share, ExternalLink } from 'lucide-react-native';
 import { useTranslation } from '@/context/LocalizationContext';
 import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { usePrintQueue } from '@/context/PrintQueueContext';
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 import { ShopSettingsService } from '@/services/shopSettingsService';
 import {
   TemplateEngine,
   ReceiptData as TemplateReceiptData,
+  toReceiptTemplate,
 } from '@/services/templateEngine';
 import { ShopSettings } from '@/services/shopSettingsStorage';
 import { BluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import { useReceiptTemplates } from '@/hooks/useQueries';
+import type { TaxBreakdownLine } from '@/utils/taxUtils';
 
 interface CartItem {
   product: {
@@ -42,6 +47,24 @@ interface ReceiptData {
   paymentMethod: string;
   note?: string;
   date: Date;
+  taxBreakdown?: TaxBreakdownLine[];
+  promotions?: { name: string; discount: number }[];
+  orderDiscount?: { label: string; amount: number };
+  loyalty?: {
+    pointsRedeemed: number;
+    discount: number;
+    payment: number;
+    pointsEarned: number;
+    balance: number;
+  };
+  creditNote?: {
+    originalReceiptId: string;
+    reason?: string;
+  };
+  customer?: {
+    name: string;
+    debtBalance?: number;
+  };
 }
 
 interface EnhancedPrintManagerProps {
@@ -57,6 +80,9 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
 }) => {
   const { t } = useTranslation();
   const { formatPrice } = useCurrencyFormatter();
+  const { data: customTemplates } = useReceiptTemplates();
+  const { showToast } = useToast();
+  const { enqueue } = usePrintQueue();
   const [isPrinting, setIsPrinting] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [isBluetoothPrinting, setIsBluetoothPrinting] = useState(false);
@@ -148,10 +174,25 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
         paymentMethod: receiptData.paymentMethod,
         note: receiptData.note,
         date: receiptData.date,
+        taxBreakdown: receiptData.taxBreakdown,
+        promotions: receiptData.promotions,
+        orderDiscount: receiptData.orderDiscount,
+        loyalty: receiptData.loyalty,
+        creditNote: receiptData.creditNote,
+        customer: receiptData.customer,
       };
 
-      // Get selected template (default to classic if no shop settings)
+      // Get selected template (default to classic if no shop settings, or
+      // if the custom template it names has since been deleted)
       const templateId = shopSettings?.receiptTemplate || 'classic';
+      const customTemplate = customTemplates?.find(
+        (template) => template.id === templateId,
+      );
+      const template = customTemplate
+        ? toReceiptTemplate(customTemplate)
+        : templateEngine.getTemplate(templateId)
+          ? templateId
+          : 'classic';
 
       // Build template context with translations
       const translations = {
@@ -166,6 +207,16 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
         total: t('common.total'),
         saleNote: t('sales.saleNote'),
         generatedBy: t('printing.generatedBy'),
+        creditNote: t('returns.creditNote'),
+        originalReceipt: t('returns.originalReceipt'),
+        returnReason: t('returns.reason'),
+        refundTotal: t('returns.refundTotal'),
+        taxIncluded: t('tax.included'),
+        loyaltyPoints: t('loyalty.points'),
+        paidWithPoints: t('loyalty.paidWithPoints'),
+        amountDue: t('loyalty.amountDue'),
+        pointsEarned: t('loyalty.pointsEarned'),
+        pointsBalance: t('loyalty.pointsBalance'),
       };
 
       const context = templateEngine.buildTemplateContext(
@@ -175,10 +226,7 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
       );
 
       // Render receipt using template engine
-      const htmlContent = await templateEngine.renderReceipt(
-        templateId,
-        context,
-      );
+      const htmlContent = await templateEngine.renderReceipt(template, context);
       return htmlContent;
     } catch (error) {
       console.error('Failed to generate receipt with template engine:', error);
@@ -190,7 +238,19 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
 
   // Responsive receipt generation - adapts to any paper size
   const generateFallbackReceipt = () => {
-    const { voucherId, items, total, paymentMethod, note, date } = receiptData;
+    const {
+      voucherId,
+      items,
+      total,
+      paymentMethod,
+      note,
+      date,
+      creditNote,
+      taxBreakdown = [],
+      promotions = [],
+      orderDiscount,
+      loyalty,
+    } = receiptData;
 
     return `
       <!DOCTYPE html>
@@ -407,6 +467,19 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
               }
             </div>
             
+            ${
+              creditNote
+                ? `<div class="note-section" style="text-align: center;"><strong>${t(
+                    'returns.creditNote',
+                  )}</strong><div>${t('returns.originalReceipt')}: #${
+                    creditNote.originalReceiptId
+                  }</div>${
+                    creditNote.reason
+                      ? `<div>${t('returns.reason')}: ${creditNote.reason}</div>`
+                      : ''
+                  }</div>`
+                : ''
+            }
             <div class="receipt-info">
               <div><strong>${t(
                 'printing.receiptNumber',
@@ -450,10 +523,84 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
             </div>
             
             <div class="total-section">
+              ${promotions
+                .map(
+                  (promotion) => `
+              <div class="item-details discount-line">
+                <span>${promotion.name}</span>
+                <span>-${formatCurrency(promotion.discount)}</span>
+              </div>
+              `,
+                )
+                .join('')}
+              ${
+                orderDiscount && orderDiscount.amount > 0
+                  ? `
+              <div class="item-details discount-line">
+                <span>${orderDiscount.label}</span>
+                <span>-${formatCurrency(orderDiscount.amount)}</span>
+              </div>
+              `
+                  : ''
+              }
+              ${
+                loyalty && loyalty.discount > 0
+                  ? `
+              <div class="item-details discount-line">
+                <span>${t('loyalty.points')} (${loyalty.pointsRedeemed})</span>
+                <span>-${formatCurrency(loyalty.discount)}</span>
+              </div>
+              `
+                  : ''
+              }
+              ${taxBreakdown
+                .map(
+                  (taxLine) => `
+              <div class="item-details">
+                <span>${taxLine.name} (${taxLine.rate}%${
+                  taxLine.inclusive ? `, ${t('tax.included')}` : ''
+                })</span>
+                <span>${formatCurrency(taxLine.amount)}</span>
+              </div>
+              `,
+                )
+                .join('')}
               <div class="total-line">
-                <span>${t('common.total').toUpperCase()}</span>
+                <span>${
+                  creditNote
+                    ? t('returns.refundTotal')
+                    : t('common.total').toUpperCase()
+                }</span>
                 <span>${formatCurrency(total)}</span>
               </div>
+              ${
+                loyalty && loyalty.payment > 0
+                  ? `
+              <div class="item-details">
+                <span>${t('loyalty.paidWithPoints')} (${loyalty.pointsRedeemed})</span>
+                <span>-${formatCurrency(loyalty.payment)}</span>
+              </div>
+              <div class="item-details">
+                <span>${t('loyalty.amountDue')}</span>
+                <span>${formatCurrency(total - loyalty.payment)}</span>
+              </div>
+              `
+                  : ''
+              }
+              ${
+                loyalty
+                  ? `
+              <div class="item-details">
+                <span>${t('loyalty.pointsEarned')}</span>
+                <span>${loyalty.pointsEarned}</span>
+              </div>
+              <div class="item-details">
+                <span>${t('loyalty.pointsBalance')}</span>
+                <span>${loyalty.balance}</span>
+              </div>
+              `
+                  : ''
+              }
             </div>
             
             ${
@@ -579,50 +726,49 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
   const printDirectToBluetooth = async () => {
     setIsBluetoothPrinting(true);
     try {
-      // Check if connected to a printer
-      const isConnected = await BluetoothPrinterService.isConnected();
-      if (!isConnected) {
-        // Try to auto-connect to saved printer
-        const autoConnected = await BluetoothPrinterService.autoConnect();
-        if (!autoConnected) {
-          Alert.alert(
-            t('printing.printerNotConnected'),
-            t('printing.connectThermalPrinter'),
-            [
-              { text: t('common.cancel'), style: 'cancel' },
-              {
-                text: t('printing.openSettings'),
-                onPress: () => {
-                  onClose();
-                },
+      // A printer that is only switched off gets the receipt from the print
+      // queue once it is back; without any printer set up there is nowhere
+      // for it to go
+      if (!(await BluetoothPrinterService.hasPrinter())) {
+        Alert.alert(
+          t('printing.printerNotConnected'),
+          t('printing.connectThermalPrinter'),
+          [
+            { text: t('common.cancel'), style: 'cancel' },
+            {
+              text: t('printing.openSettings'),
+              onPress: () => {
+                onClose();
               },
-            ],
-          );
-          return;
-        }
+            },
+          ],
+        );
+        return;
       }
 
       // Convert receipt data for Bluetooth printing
       const bluetoothReceiptData = {
         saleId: receiptData.voucherId,
+        voucherId: receiptData.voucherId,
         items: receiptData.items,
         total: receiptData.total,
         paymentMethod: receiptData.paymentMethod,
         note: receiptData.note,
         date: receiptData.date,
+        taxBreakdown: receiptData.taxBreakdown,
+        promotions: receiptData.promotions,
+        orderDiscount: receiptData.orderDiscount,
+        loyalty: receiptData.loyalty,
+        creditNote: receiptData.creditNote,
+        customer: receiptData.customer,
       };
 
-      // Print directly to Bluetooth printer
-      await BluetoothPrinterService.printReceipt(
-        bluetoothReceiptData,
-        shopSettings,
-      );
-
-      Alert.alert(
-        t('printing.printSuccessful'),
-        t('printing.printSuccessfulMessage'),
-        [{ text: t('common.confirm'), onPress: onClose }],
+      enqueue(
+        { type: 'receipt', receipt: bluetoothReceiptData },
+        t('printQueue.titles.receipt', { id: receiptData.voucherId }),
       );
+      showToast(t('printQueue.queued'), 'success');
+      onClose();
     } catch (error) {
       console.error('Bluetooth print error:', error);
 
@@ -678,6 +824,24 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
                   )}
                 </View>
 
+                {/* Credit Note */}
+                {receiptData.creditNote && (
+                  <View style={styles.receiptCreditNote}>
+                    <Text style={styles.creditNoteTitle} weight="bold">
+                      {t('returns.creditNote')}
+                    </Text>
+                    <Text style={styles.receiptInfo}>
+                      {t('returns.originalReceipt')}: #
+                      {receiptData.creditNote.originalReceiptId}
+                    </Text>
+                    {receiptData.creditNote.reason ? (
+                      <Text style={styles.receiptInfo}>
+                        {t('returns.reason')}: {receiptData.creditNote.reason}
+                      </Text>
+                    ) : null}
+                  </View>
+                )}
+
                 {/* Receipt Details */}
                 <View style={styles.receiptDetails}>
                   <View style={styles.receiptRow}>
@@ -731,16 +895,115 @@ export const EnhancedPrintManager: React.FC<EnhancedPrintManagerProps> = ({
                   ))}
                 </View>
 
+                {/* Promotions */}
+                {receiptData.promotions?.map((promotion) => (
+                  <View key={promotion.name} style={styles.itemDetails}>
+                    <Text style={styles.itemQtyPrice}>{promotion.name}</Text>
+                    <Text style={styles.itemTotal}>
+                      -{formatCurrency(promotion.discount)}
+                    </Text>
+                  </View>
+                ))}
+
+                {/* Order discount */}
+                {receiptData.orderDiscount &&
+                  receiptData.orderDiscount.amount > 0 && (
+                    <View style={styles.itemDetails}>
+                      <Text style={styles.itemQtyPrice}>
+                        {receiptData.orderDiscount.label}
+                      </Text>
+                      <Text style={styles.itemTotal}>
+                        -{formatCurrency(receiptData.orderDiscount.amount)}
+                      </Text>
+                    </View>
+                  )}
+
+                {/* Points discount */}
+                {receiptData.loyalty && receiptData.loyalty.discount > 0 && (
+                  <View style={styles.itemDetails}>
+                    <Text style={styles.itemQtyPrice}>
+                      {t('loyalty.points')} (
+                      {receiptData.loyalty.pointsRedeemed})
+                    </Text>
+                    <Text style={styles.itemTotal}>
+                      -{formatCurrency(receiptData.loyalty.discount)}
+                    </Text>
+                  </View>
+                )}
+
+                {/* Tax */}
+                {receiptData.taxBreakdown?.map((taxLine) => (
+                  <View
+                    key={`${taxLine.name}-${taxLine.rate}-${taxLine.inclusive}`}
+                    style={styles.itemDetails}
+                  >
+                    <Text style={styles.itemQtyPrice}>
+                      {taxLine.name} ({taxLine.rate}%
+                      {taxLine.inclusive ? `, ${t('tax.included')}` : ''})
+                    </Text>
+                    <Text style={styles.itemTotal}>
+                      {formatCurrency(taxLine.amount)}
+                    </Text>
+                  </View>
+                ))}
+
                 {/* Total */}
                 <View style={styles.receiptTotal}>
                   <Text style={styles.totalLabel} weight="bold">
-                    {t('common.total').toUpperCase()}
+                    {receiptData.creditNote
+                      ? t('returns.refundTotal')
+                      : t('common.total').toUpperCase()}
                   </Text>
                   <Text style={styles.totalValue} weight="bold">
                     {formatCurrency(receiptData.total)}
                   </Text>
                 </View>
 
+                {/* Points paid and balance */}
+                {receiptData.loyalty && receiptData.loyalty.payment > 0 && (
+                  <>
+                    <View style={styles.itemDetails}>
+                      <Text style={styles.itemQtyPrice}>
+                        {t('loyalty.paidWithPoints')} (
+                        {receiptData.loyalty.pointsRedeemed})
+                      </Text>
+                      <Text style={styles.itemTotal}>
+                        -{formatCurrency(receiptData.loyalty.payment)}
+                      </Text>
+                    </View>
+                    <View style={styles.itemDetails}>
+                      <Text style={styles.itemQtyPrice}>
+                        {t('loyalty.amountDue')}
+                      </Text>
+                      <Text style={styles.itemTotal}>
+                        {formatCurrency(
+                          receiptData.total - receiptData.loyalty.payment,
+                        )}
+                      </Text>
+                    </View>
+                  </>
+                )}
+                {receiptData.loyalty && (
+                  <>
+                    <View style={styles.itemDetails}>
+                      <Text style={styles.itemQtyPrice}>
+                        {t('loyalty.pointsEarned')}
+                      </Text>
+                      <Text style={styles.itemTotal}>
+                        {receiptData.loyalty.pointsEarned}
+                      </Text>
+                    </View>
+                    <View style={styles.itemDetails}>
+                      <Text style={styles.itemQtyPrice}>
+                        {t('loyalty.pointsBalance')}
+                      </Text>
+                      <Text style={styles.itemTotal}>
+                        {receiptData.loyalty.balance}
+                      </Text>
+                    </View>
+                  </>
+                )}
+
                 {/* Note */}
                 {receiptData.note && (
                   <View style={styles.receiptNote}>
@@ -899,6 +1162,18 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 2,
   },
+  receiptCreditNote: {
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#111827',
+    borderRadius: 4,
+    padding: 8,
+    marginBottom: 12,
+  },
+  creditNoteTitle: {
+    fontSize: 14,
+    color: '#111827',
+  },
   receiptDetails: {
     marginBottom: 12,
     paddingBottom: 12,
@@ -9,12 +9,17 @@ import {
   Alert,
   RefreshControl,
   FlatList,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { Card } from '@/components/Card';
 import { LoadingSpinner } from '@/components/LoadingSpinner';
-import { useExpenseCategories, useExpenseMutations } from '@/hooks/useQueries';
+import {
+  useExpenseCategories,
+  useExpenseMutations,
+  useOpenShift,
+} from '@/hooks/useQueries';
 import {
   useInfiniteExpenses,
   useInfiniteExpensesByDateRange,
@@ -61,6 +66,7 @@ export default function Expenses({ triggerAdd }: ExpensesProps) {
   const [formAmount, setFormAmount] = useState('');
   const [formDescription, setFormDescription] = useState('');
   const [formDate, setFormDate] = useState(new Date());
+  const [formPaidFromDrawer, setFormPaidFromDrawer] = useState(false);
   const [showFormDatePicker, setShowFormDatePicker] = useState(false);
 
   // Category picker modal state
@@ -111,6 +117,7 @@ export default function Expenses({ triggerAdd }: ExpensesProps) {
     useExpenseCategories();
 
   const { addExpense, updateExpense, deleteExpense } = useExpenseMutations();
+  const { data: openShift } = useOpenShift();
 
   const onRefresh = () => {
     refetchExpenses();
@@ -145,6 +152,7 @@ export default function Expenses({ triggerAdd }: ExpensesProps) {
           amount: Number(formAmount),
           description: formDescription,
           date: formDate.toISOString(),
+          paidFromDrawer: !!openShift && formPaidFromDrawer,
         });
       }
 
@@ -198,6 +206,7 @@ export default function Expenses({ triggerAdd }: ExpensesProps) {
     setFormAmount('');
     setFormDescription('');
     setFormDate(new Date());
+    setFormPaidFromDrawer(false);
   };
 
   const handleDateRangeApply = (start: Date, end: Date) => {
@@ -436,6 +445,25 @@ export default function Expenses({ triggerAdd }: ExpensesProps) {
                 </TouchableOpacity>
               </View>
 
+              {/* Only new expenses can be taken from the open shift's drawer */}
+              {openShift && !editingExpense && (
+                <View style={[styles.formGroup, styles.switchRow]}>
+                  <View style={styles.switchLabel}>
+                    <Text style={styles.label} weight="medium">
+                      {t('expenses.paidFromDrawer')}
+                    </Text>
+                    <Text style={styles.switchHint}>
+                      {t('expenses.paidFromDrawerHint')}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={formPaidFromDrawer}
+                    onValueChange={setFormPaidFromDrawer}
+                    trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                  />
+                </View>
+              )}
+
               <View style={styles.formButtons}>
                 <Button
                   title={t('common.cancel')}
@@ -799,6 +827,20 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: -4,
+  },
   dateInput: {
     borderWidth: 1,
     borderColor: '#D1D5DB',
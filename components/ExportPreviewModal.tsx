@@ -22,6 +22,7 @@ import {
   Settings,
   Layers,
   BarChart3,
+  FileText,
 } from 'lucide-react-native';
 import { useTranslation } from '@/context/LocalizationContext';
 import { ExportPreview } from '@/services/dataExportService';
@@ -105,6 +106,12 @@ export const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({
       backgroundColor: '#F8FAFC',
       label: 'Expense Categories',
     },
+    receiptTemplates: {
+      icon: FileText,
+      color: '#DB2777',
+      backgroundColor: '#FDF2F8',
+      label: 'Receipt Templates',
+    },
   };
 
   const formatDate = (dateString: string) => {
@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { X, Play, Trash2, PauseCircle } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { useHeldCarts, useHeldCartMutations } from '@/hooks/useQueries';
+import type { HeldCart } from '@/services/database';
+
+interface HeldCartsModalProps {
+  visible: boolean;
+  canHold: boolean; // Current cart has items
+  defaultLabel: string;
+  defaultNote?: string;
+  holding: boolean;
+  onClose: () => void;
+  onHold: (label: string, note: string) => void;
+  onResume: (heldCart: HeldCart) => void;
+}
+
+/**
+ * Modal for parking the current cart under a label and for resuming or
+ * discarding carts that were held earlier.
+ */
+export const HeldCartsModal: React.FC<HeldCartsModalProps> = ({
+  visible,
+  canHold,
+  defaultLabel,
+  defaultNote,
+  holding,
+  onClose,
+  onHold,
+  onResume,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { showToast } = useToast();
+  const { data: heldCarts = [], isLoading } = useHeldCarts();
+  const { discardHeldCart } = useHeldCartMutations();
+
+  const [label, setLabel] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setLabel(defaultLabel);
+      setNote(defaultNote || '');
+    }
+  }, [visible, defaultLabel, defaultNote]);
+
+  const handleHold = () => {
+    if (!label.trim()) {
+      Alert.alert(t('common.error'), t('heldCarts.enterLabel'));
+      return;
+    }
+    onHold(label.trim(), note.trim());
+  };
+
+  const handleDiscard = (heldCart: HeldCart) => {
+    Alert.alert(
+      t('heldCarts.discardHeldCart'),
+      t('heldCarts.discardConfirm', { label: heldCart.label }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('heldCarts.discard'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await discardHeldCart.mutateAsync(heldCart.id);
+              showToast(t('heldCarts.cartDiscarded'), 'success');
+            } catch (error) {
+              console.error('Error discarding held cart:', error);
+              Alert.alert(t('common.error'), t('heldCarts.failedToDiscard'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const formatHeldAt = (dateString: string) =>
+    new Date(dateString.replace(' ', 'T')).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {t('heldCarts.heldCarts')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={holding}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {canHold && (
+              <View style={styles.holdSection}>
+                <Text style={styles.sectionLabel} weight="medium">
+                  {t('heldCarts.label')}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={label}
+                  onChangeText={setLabel}
+                  placeholder={t('heldCarts.labelPlaceholder')}
+                  maxLength={50}
+                  editable={!holding}
+                />
+                <Text style={styles.sectionLabel} weight="medium">
+                  {t('heldCarts.note')}
+                </Text>
+                <TextInput
+                  style={[styles.input, styles.noteInput]}
+                  value={note}
+                  onChangeText={setNote}
+                  placeholder={t('heldCarts.notePlaceholder')}
+                  multiline
+                  numberOfLines={2}
+                  maxLength={200}
+                  editable={!holding}
+                />
+                <TouchableOpacity
+                  style={[styles.holdButton, holding && styles.buttonDisabled]}
+                  onPress={handleHold}
+                  disabled={holding}
+                >
+                  {holding ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <>
+                      <PauseCircle size={18} color="#FFFFFF" />
+                      <Text style={styles.holdButtonText} weight="medium">
+                        {t('heldCarts.holdCurrentCart')}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {isLoading ? (
+              <ActivityIndicator size="small" color="#059669" />
+            ) : heldCarts.length === 0 ? (
+              <Text style={styles.emptyText}>{t('heldCarts.noHeldCarts')}</Text>
+            ) : (
+              heldCarts.map((heldCart) => (
+                <View key={heldCart.id} style={styles.heldCartRow}>
+                  <View style={styles.heldCartInfo}>
+                    <Text style={styles.heldCartLabel} weight="medium">
+                      {heldCart.label}
+                    </Text>
+                    <Text style={styles.heldCartMeta}>
+                      {t('heldCarts.itemCount', {
+                        count: heldCart.items.length,
+                      })}{' '}
+                      • {formatPrice(heldCart.total)} •{' '}
+                      {formatHeldAt(heldCart.created_at)}
+                    </Text>
+                    {heldCart.customer_name && (
+                      <Text style={styles.heldCartMeta}>
+                        {heldCart.customer_name}
+                      </Text>
+                    )}
+                    {heldCart.note && (
+                      <Text style={styles.heldCartNote} numberOfLines={2}>
+                        {heldCart.note}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.heldCartActions}>
+                    <TouchableOpacity
+                      style={styles.resumeButton}
+                      onPress={() => onResume(heldCart)}
+                      disabled={holding}
+                    >
+                      <Play size={18} color="#059669" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.discardButton}
+                      onPress={() => handleDiscard(heldCart)}
+                      disabled={holding}
+                    >
+                      <Trash2 size={18} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  holdSection: {
+    paddingBottom: 16,
+    marginBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  noteInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  holdButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  holdButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  heldCartRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  heldCartInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  heldCartLabel: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 2,
+  },
+  heldCartMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  heldCartNote: {
+    fontSize: 12,
+    color: '#374151',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  heldCartActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  resumeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  discardButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#FEE2E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { MIN_PASSPHRASE_LENGTH } from '@/utils/exportEncryption';
+
+interface PassphraseModalProps {
+  visible: boolean;
+  // 'set' asks for a new passphrase twice, 'enter' asks for an existing one
+  mode: 'set' | 'enter';
+  error?: string | null;
+  busy?: boolean;
+  onSubmit: (passphrase: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal for the shop passphrase that encrypts export files, either choosing
+ * one before an export or entering it to open an encrypted file.
+ */
+export const PassphraseModal: React.FC<PassphraseModalProps> = ({
+  visible,
+  mode,
+  error,
+  busy = false,
+  onSubmit,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setPassphrase('');
+      setConfirmation('');
+    }
+  }, [visible]);
+
+  const isSetting = mode === 'set';
+  const tooShort = isSetting && passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = isSetting && confirmation !== passphrase;
+  const canSubmit = passphrase.length > 0 && !tooShort && !mismatch && !busy;
+
+  let validationMessage: string | null = null;
+  if (isSetting && passphrase.length > 0 && tooShort) {
+    validationMessage = t('passphrase.tooShort', {
+      count: MIN_PASSPHRASE_LENGTH,
+    });
+  } else if (isSetting && confirmation.length > 0 && mismatch) {
+    validationMessage = t('passphrase.mismatch');
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {isSetting
+                ? t('passphrase.setTitle')
+                : t('passphrase.enterTitle')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={busy}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.hint}>
+            {isSetting ? t('passphrase.setHint') : t('passphrase.enterHint')}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder={t('passphrase.passphrase')}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          {isSetting && (
+            <TextInput
+              style={styles.input}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              placeholder={t('passphrase.confirm')}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+
+          {(validationMessage || error) && (
+            <Text style={styles.errorText}>{validationMessage || error}</Text>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              !canSubmit && styles.submitButtonDisabled,
+            ]}
+            onPress={() => onSubmit(passphrase)}
+            disabled={!canSubmit}
+          >
+            {busy ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.submitButtonText} weight="medium">
+                {isSetting ? t('passphrase.encrypt') : t('passphrase.unlock')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginBottom: 12,
+  },
+  submitButton: {
+    backgroundColor: '#8B5CF6',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
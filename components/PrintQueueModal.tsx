@@ -0,0 +1,251 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { X, RotateCcw, Trash2 } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { usePrintQueue } from '@/context/PrintQueueContext';
+import type { PrintJob, PrintJobStatus } from '@/utils/printQueue';
+
+interface PrintQueueModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<PrintJobStatus, string> = {
+  pending: '#D97706',
+  printing: '#0284C7',
+  failed: '#EF4444',
+  done: '#059669',
+  cancelled: '#6B7280',
+};
+
+/**
+ * Modal listing receipts, reports and labels sent to the Bluetooth printer,
+ * with cancel for jobs still waiting and retry for those that gave up.
+ */
+export const PrintQueueModal: React.FC<PrintQueueModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { jobs, cancelJob, retryJob, clearFinished } = usePrintQueue();
+
+  const hasFinished = jobs.some(
+    (job) => job.status === 'done' || job.status === 'cancelled',
+  );
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(undefined, {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const getStatusText = (job: PrintJob) =>
+    job.status === 'pending' && job.attempts > 0
+      ? t('printQueue.retryAt', { time: formatTime(job.nextAttemptAt) })
+      : t(`printQueue.status.${job.status}`);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {t('printQueue.title')}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {jobs.length === 0 ? (
+              <Text style={styles.emptyText}>{t('printQueue.noJobs')}</Text>
+            ) : (
+              [...jobs].reverse().map((job) => (
+                <View key={job.id} style={styles.jobRow}>
+                  <View style={styles.jobInfo}>
+                    <Text style={styles.jobTitle} weight="medium">
+                      {job.title}
+                    </Text>
+                    <Text style={styles.jobMeta}>
+                      {t(`printQueue.types.${job.payload.type}`)} •{' '}
+                      {formatTime(job.createdAt)}
+                    </Text>
+                    <View style={styles.statusRow}>
+                      {job.status === 'printing' && (
+                        <ActivityIndicator
+                          size="small"
+                          color={STATUS_COLORS.printing}
+                        />
+                      )}
+                      <Text
+                        style={[
+                          styles.statusText,
+                          { color: STATUS_COLORS[job.status] },
+                        ]}
+                        weight="medium"
+                      >
+                        {getStatusText(job)}
+                      </Text>
+                    </View>
+                    {job.lastError &&
+                      (job.status === 'pending' || job.status === 'failed') && (
+                        <Text style={styles.jobError} numberOfLines={2}>
+                          {job.lastError}
+                        </Text>
+                      )}
+                  </View>
+                  <View style={styles.jobActions}>
+                    {(job.status === 'failed' ||
+                      job.status === 'cancelled') && (
+                      <TouchableOpacity
+                        style={styles.retryButton}
+                        onPress={() => retryJob(job.id)}
+                        accessibilityLabel={t('printQueue.retry')}
+                      >
+                        <RotateCcw size={18} color="#059669" />
+                      </TouchableOpacity>
+                    )}
+                    {(job.status === 'pending' || job.status === 'failed') && (
+                      <TouchableOpacity
+                        style={styles.cancelButton}
+                        onPress={() => cancelJob(job.id)}
+                        accessibilityLabel={t('printQueue.cancel')}
+                      >
+                        <Trash2 size={18} color="#EF4444" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          {hasFinished && (
+            <TouchableOpacity
+              style={styles.clearButton}
+              onPress={clearFinished}
+            >
+              <Text style={styles.clearButtonText} weight="medium">
+                {t('printQueue.clearFinished')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  jobInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  jobTitle: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 2,
+  },
+  jobMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  statusText: {
+    fontSize: 13,
+  },
+  jobError: {
+    fontSize: 12,
+    color: '#374151',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  jobActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  retryButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#FEE2E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clearButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+});
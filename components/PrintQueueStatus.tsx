@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { AlertCircle, ChevronRight, Printer } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { usePrintQueue } from '@/context/PrintQueueContext';
+import { PrintQueueModal } from '@/components/PrintQueueModal';
+
+/**
+ * One-line banner for what the Bluetooth printer is doing, shown while jobs
+ * are printing, waiting or have failed. Tapping it opens the print queue.
+ */
+export const PrintQueueStatus: React.FC = () => {
+  const { t } = useTranslation();
+  const { jobs } = usePrintQueue();
+  const [showQueue, setShowQueue] = useState(false);
+
+  const printing = jobs.find((job) => job.status === 'printing');
+  const waiting = jobs.filter((job) => job.status === 'pending').length;
+  const failed = jobs.filter((job) => job.status === 'failed').length;
+
+  if (!printing && waiting === 0 && failed === 0) {
+    return showQueue ? (
+      <PrintQueueModal visible onClose={() => setShowQueue(false)} />
+    ) : null;
+  }
+
+  const message =
+    failed > 0
+      ? t('printQueue.failedCount', { count: failed })
+      : printing
+        ? t('printQueue.printingTitle', { title: printing.title })
+        : t('printQueue.waitingCount', { count: waiting });
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.banner, failed > 0 && styles.bannerFailed]}
+        onPress={() => setShowQueue(true)}
+      >
+        {failed > 0 ? (
+          <AlertCircle size={16} color="#B91C1C" />
+        ) : (
+          <Printer size={16} color="#0369A1" />
+        )}
+        <Text
+          style={[styles.bannerText, failed > 0 && styles.bannerTextFailed]}
+          weight="medium"
+          numberOfLines={1}
+        >
+          {message}
+        </Text>
+        <ChevronRight size={16} color={failed > 0 ? '#B91C1C' : '#0369A1'} />
+      </TouchableOpacity>
+
+      <PrintQueueModal
+        visible={showQueue}
+        onClose={() => setShowQueue(false)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#E0F2FE',
+    borderBottomWidth: 1,
+    borderBottomColor: '#BAE6FD',
+  },
+  bannerFailed: {
+    backgroundColor: '#FEE2E2',
+    borderBottomColor: '#FECACA',
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#0369A1',
+  },
+  bannerTextFailed: {
+    color: '#B91C1C',
+  },
+});
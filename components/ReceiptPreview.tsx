@@ -5,6 +5,8 @@ import { WebView } from 'react-native-webview';
 import { useTranslation } from '@/context/LocalizationContext';
 import { ShopSettingsService } from '@/services/shopSettingsService';
 import { ShopSettings } from '@/services/shopSettingsStorage';
+import { toReceiptTemplate } from '@/services/templateEngine';
+import { useReceiptTemplates } from '@/hooks/useQueries';
 
 interface ReceiptPreviewProps {
   shopSettings: ShopSettings | null;
@@ -23,6 +25,7 @@ export const ReceiptPreview: React.FC<ReceiptPreviewProps> = ({
   style,
 }) => {
   const { t } = useTranslation();
+  const { data: customTemplates } = useReceiptTemplates();
   const [previewHtml, setPreviewHtml] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -54,8 +57,11 @@ export const ReceiptPreview: React.FC<ReceiptPreviewProps> = ({
           lastUpdated: new Date().toISOString(),
         };
 
+        const customTemplate = customTemplates?.find(
+          (template) => template.id === templateId
+        );
         const html = await shopSettingsService.previewTemplate(
-          templateId,
+          customTemplate ? toReceiptTemplate(customTemplate) : templateId,
           previewSettings
         );
         setPreviewHtml(html);
@@ -68,7 +74,7 @@ export const ReceiptPreview: React.FC<ReceiptPreviewProps> = ({
     };
 
     generatePreview();
-  }, [shopSettings, templateId, shopSettingsService]);
+  }, [shopSettings, templateId, shopSettingsService, customTemplates]);
 
   if (loading) {
     return (
@@ -0,0 +1,478 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { WebView } from 'react-native-webview';
+import { AlertCircle, Trash2, X } from 'lucide-react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { Button } from '@/components/Button';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useReceiptTemplateMutations } from '@/hooks/useQueries';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { CustomReceiptTemplate } from '@/services/database';
+import { ShopSettingsService } from '@/services/shopSettingsService';
+import { ShopSettings } from '@/services/shopSettingsStorage';
+import {
+  RECEIPT_TEMPLATE_FIELDS,
+  RECEIPT_TEMPLATE_ITEM_FIELDS,
+  STARTER_TEMPLATE,
+  TEMPLATE_FORMATTERS,
+  validateTemplate,
+} from '@/utils/receiptTemplateLanguage';
+
+interface ReceiptTemplateEditorProps {
+  visible: boolean;
+  template?: CustomReceiptTemplate | null; // Editing; a new one when absent
+  shopSettingsService: ShopSettingsService;
+  shopSettings?: ShopSettings | null;
+  fontSize: 'small' | 'medium' | 'large' | 'extra-large';
+  onClose: () => void;
+  onSaved: (templateId: string) => void;
+  onDeleted: (templateId: string) => void;
+}
+
+const PREVIEW_DELAY = 600;
+
+const PLACEHOLDER_NAMES = [
+  ...Object.keys(RECEIPT_TEMPLATE_FIELDS),
+  ...Object.keys(RECEIPT_TEMPLATE_ITEM_FIELDS).map((name) => `item.${name}`),
+];
+
+export const ReceiptTemplateEditor: React.FC<ReceiptTemplateEditorProps> = ({
+  visible,
+  template,
+  shopSettingsService,
+  shopSettings,
+  fontSize,
+  onClose,
+  onSaved,
+  onDeleted,
+}) => {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { addReceiptTemplate, updateReceiptTemplate, deleteReceiptTemplate } =
+    useReceiptTemplateMutations();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [htmlTemplate, setHtmlTemplate] = useState('');
+  const [cssStyles, setCssStyles] = useState('');
+  const [previewHtml, setPreviewHtml] = useState('');
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const isEditing = !!template;
+  const isSaving =
+    addReceiptTemplate.isPending || updateReceiptTemplate.isPending;
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(template?.name || '');
+    setDescription(template?.description || '');
+    setHtmlTemplate(template?.html_template ?? STARTER_TEMPLATE.htmlTemplate);
+    setCssStyles(template?.css_styles ?? STARTER_TEMPLATE.cssStyles);
+    setPreviewHtml('');
+  }, [template, visible]);
+
+  const issues = useMemo(
+    () => validateTemplate(htmlTemplate, cssStyles),
+    [htmlTemplate, cssStyles],
+  );
+
+  // Redraw the preview once typing pauses
+  const previewHtmlTemplate = useDebouncedValue(htmlTemplate, PREVIEW_DELAY);
+  const previewCssStyles = useDebouncedValue(cssStyles, PREVIEW_DELAY);
+
+  useEffect(() => {
+    if (!visible) return;
+    if (validateTemplate(previewHtmlTemplate, previewCssStyles).length > 0) {
+      setPreviewHtml('');
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    shopSettingsService
+      .previewTemplate(
+        {
+          id: template?.id || 'draft',
+          name,
+          description,
+          htmlTemplate: previewHtmlTemplate,
+          cssStyles: previewCssStyles,
+          isCustom: true,
+        },
+        shopSettings || undefined,
+        fontSize,
+      )
+      .then((html) => {
+        if (!cancelled) setPreviewHtml(html);
+      })
+      .catch((error) => {
+        console.error('Failed to preview receipt template:', error);
+        if (!cancelled) setPreviewHtml('');
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // The name and description do not change what the preview shows
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    previewHtmlTemplate,
+    previewCssStyles,
+    visible,
+    shopSettingsService,
+    shopSettings,
+    fontSize,
+  ]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert(t('common.error'), t('receiptTemplates.nameRequired'));
+      return;
+    }
+    if (issues.length > 0) {
+      Alert.alert(t('common.error'), t('receiptTemplates.fixErrors'));
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      description: description.trim() || null,
+      html_template: htmlTemplate,
+      css_styles: cssStyles,
+    };
+
+    try {
+      if (template) {
+        await updateReceiptTemplate.mutateAsync({ id: template.id, data });
+        onSaved(template.id);
+      } else {
+        onSaved(await addReceiptTemplate.mutateAsync(data));
+      }
+      showToast(t('receiptTemplates.saved'), 'success');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save receipt template:', error);
+      Alert.alert(t('common.error'), t('receiptTemplates.failedToSave'));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!template) return;
+
+    Alert.alert(
+      t('receiptTemplates.deleteTemplate'),
+      t('receiptTemplates.confirmDelete', { name: template.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteReceiptTemplate.mutateAsync(template.id);
+              onDeleted(template.id);
+              showToast(t('receiptTemplates.deleted'), 'success');
+              onClose();
+            } catch (error) {
+              console.error('Failed to delete receipt template:', error);
+              Alert.alert(
+                t('common.error'),
+                t('receiptTemplates.failedToDelete'),
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.headerButton} onPress={onClose}>
+              <X size={24} color="#374151" />
+            </TouchableOpacity>
+            <Text style={styles.title} weight="medium">
+              {isEditing
+                ? t('receiptTemplates.editTemplate')
+                : t('receiptTemplates.newTemplate')}
+            </Text>
+            {isEditing ? (
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={handleDelete}
+              >
+                <Trash2 size={22} color="#DC2626" />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.headerButton} />
+            )}
+          </View>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label} weight="medium">
+              {t('receiptTemplates.name')}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('receiptTemplates.namePlaceholder')}
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.label} weight="medium">
+              {t('receiptTemplates.description')}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={t('receiptTemplates.descriptionPlaceholder')}
+              placeholderTextColor="#9CA3AF"
+            />
+
+            <Text style={styles.label} weight="medium">
+              {t('receiptTemplates.html')}
+            </Text>
+            <Text style={styles.hint}>{t('receiptTemplates.syntaxHelp')}</Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              value={htmlTemplate}
+              onChangeText={setHtmlTemplate}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              textAlignVertical="top"
+            />
+
+            <View style={styles.reference}>
+              <Text style={styles.referenceTitle} weight="medium">
+                {t('receiptTemplates.placeholders')}
+              </Text>
+              <Text style={styles.referenceText}>
+                {PLACEHOLDER_NAMES.join(', ')}
+              </Text>
+              <Text style={styles.referenceTitle} weight="medium">
+                {t('receiptTemplates.formatters')}
+              </Text>
+              <Text style={styles.referenceText}>
+                {TEMPLATE_FORMATTERS.join(', ')}
+              </Text>
+            </View>
+
+            <Text style={styles.label} weight="medium">
+              {t('receiptTemplates.css')}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              value={cssStyles}
+              onChangeText={setCssStyles}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              textAlignVertical="top"
+            />
+
+            {issues.length > 0 && (
+              <View style={styles.issues}>
+                {issues.map((issue, index) => (
+                  <View key={index} style={styles.issueRow}>
+                    <AlertCircle size={14} color="#DC2626" />
+                    <Text style={styles.issueText}>
+                      {t(`receiptTemplates.issues.${issue.code}`, {
+                        name: issue.name,
+                      })}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.label} weight="medium">
+              {t('receiptTemplates.preview')}
+            </Text>
+            <View style={styles.previewWrapper}>
+              {previewLoading && !previewHtml ? (
+                <ActivityIndicator size="small" color="#059669" />
+              ) : previewHtml ? (
+                <WebView
+                  source={{ html: previewHtml }}
+                  style={styles.previewWebView}
+                  javaScriptEnabled={false}
+                  domStorageEnabled={false}
+                  showsVerticalScrollIndicator={false}
+                />
+              ) : (
+                <Text style={styles.hint}>
+                  {t('receiptTemplates.previewUnavailable')}
+                </Text>
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Button
+              title={t('common.cancel')}
+              onPress={onClose}
+              variant="secondary"
+              style={styles.footerButton}
+              disabled={isSaving}
+            />
+            <Button
+              title={t('common.save')}
+              onPress={handleSave}
+              style={styles.footerButton}
+              disabled={isSaving || issues.length > 0}
+            />
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    padding: 8,
+    width: 40,
+  },
+  title: {
+    fontSize: 18,
+    color: '#111827',
+  },
+  form: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 20,
+  },
+  label: {
+    fontSize: 16,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 20,
+  },
+  codeInput: {
+    height: 240,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  reference: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  referenceTitle: {
+    fontSize: 13,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  referenceText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  issues: {
+    backgroundColor: '#FEF2F2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+    gap: 6,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#B91C1C',
+  },
+  previewWrapper: {
+    height: 420,
+    marginBottom: 24,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  previewWebView: {
+    width: '100%',
+    height: 420,
+  },
+  footer: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    gap: 12,
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
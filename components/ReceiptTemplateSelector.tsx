@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -9,12 +9,15 @@ import {
 } from 'react-native';
 import { MyanmarText as Text } from '@/components/MyanmarText';
 import { WebView } from 'react-native-webview';
-import { Check, Eye, Type } from 'lucide-react-native';
+import { Check, Eye, Pencil, Plus, Type } from 'lucide-react-native';
 import { useTranslation } from '@/context/LocalizationContext';
 import { useToast } from '@/context/ToastContext';
 import { ShopSettingsService } from '@/services/shopSettingsService';
-import { ReceiptTemplate } from '@/services/templateEngine';
+import { ReceiptTemplate, toReceiptTemplate } from '@/services/templateEngine';
 import { ShopSettings } from '@/services/shopSettingsStorage';
+import { CustomReceiptTemplate } from '@/services/database';
+import { useReceiptTemplates } from '@/hooks/useQueries';
+import { ReceiptTemplateEditor } from '@/components/ReceiptTemplateEditor';
 
 interface ReceiptTemplateSelectorProps {
   selectedTemplate: string;
@@ -43,6 +46,8 @@ export const ReceiptTemplateSelector: React.FC<
   const { t } = useTranslation();
   const { showToast } = useToast();
 
+  const { data: customTemplates, isLoading: customTemplatesLoading } =
+    useReceiptTemplates();
   const [templates, setTemplates] = useState<ReceiptTemplate[]>([]);
   const [loading, setLoading] = useState(true);
   const [previewHtml, setPreviewHtml] = useState<{ [key: string]: string }>({});
@@ -50,12 +55,24 @@ export const ReceiptTemplateSelector: React.FC<
     [key: string]: boolean;
   }>({});
   const [expandedPreview, setExpandedPreview] = useState<string | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingTemplate, setEditingTemplate] =
+    useState<CustomReceiptTemplate | null>(null);
+
+  const availableTemplates = useMemo(
+    () => [
+      ...shopSettingsService.getAvailableTemplates(),
+      ...(customTemplates || []).map(toReceiptTemplate),
+    ],
+    [shopSettingsService, customTemplates]
+  );
 
   // Load available templates
   useEffect(() => {
+    if (customTemplatesLoading) return;
+
     const loadTemplates = async () => {
       try {
-        const availableTemplates = shopSettingsService.getAvailableTemplates();
         setTemplates(availableTemplates);
 
         // Generate previews for all templates
@@ -71,7 +88,7 @@ export const ReceiptTemplateSelector: React.FC<
         for (const template of availableTemplates) {
           try {
             const html = await shopSettingsService.previewTemplate(
-              template.id,
+              template,
               shopSettings || undefined,
               selectedFontSize
             );
@@ -95,7 +112,14 @@ export const ReceiptTemplateSelector: React.FC<
     };
 
     loadTemplates();
-  }, [shopSettingsService, shopSettings, selectedFontSize, showToast]);
+  }, [
+    availableTemplates,
+    customTemplatesLoading,
+    shopSettingsService,
+    shopSettings,
+    selectedFontSize,
+    showToast,
+  ]);
 
   const handleTemplateSelect = (templateId: string) => {
     onTemplateChange(templateId);
@@ -105,15 +129,34 @@ export const ReceiptTemplateSelector: React.FC<
     setExpandedPreview(expandedPreview === templateId ? null : templateId);
   };
 
+  const openEditor = (templateId?: string) => {
+    setEditingTemplate(
+      customTemplates?.find((template) => template.id === templateId) || null
+    );
+    setEditorVisible(true);
+  };
+
+  const handleTemplateDeleted = (templateId: string) => {
+    if (selectedTemplate === templateId) {
+      onTemplateChange('classic');
+    }
+  };
+
+  const getTemplateName = (template: ReceiptTemplate) =>
+    template.isCustom
+      ? template.name
+      : t(`shopSettings.templates.${template.id}`) || template.name;
+
   // Regenerate preview when font size changes for expanded template
   const regeneratePreview = async (templateId: string) => {
-    if (!shopSettingsService) return;
+    const template = templates.find((t) => t.id === templateId);
+    if (!shopSettingsService || !template) return;
 
     setPreviewLoading((prev) => ({ ...prev, [templateId]: true }));
 
     try {
       const html = await shopSettingsService.previewTemplate(
-        templateId,
+        template,
         shopSettings || undefined,
         selectedFontSize
       );
@@ -141,6 +184,8 @@ export const ReceiptTemplateSelector: React.FC<
     );
   }
 
+  const currentTemplate = templates.find((t) => t.id === selectedTemplate);
+
   const fontSizeOptions = [
     { value: 'small', label: 'Small', description: 'Compact text' },
     { value: 'medium', label: 'Medium', description: 'Standard size' },
@@ -229,8 +274,7 @@ export const ReceiptTemplateSelector: React.FC<
               <View style={styles.templateInfo}>
                 <View style={styles.templateTitleRow}>
                   <Text style={styles.templateName} weight="medium">
-                    {t(`shopSettings.templates.${template.id}`) ||
-                      template.name}
+                    {getTemplateName(template)}
                   </Text>
                   {selectedTemplate === template.id && (
                     <View style={styles.selectedBadge}>
@@ -245,17 +289,30 @@ export const ReceiptTemplateSelector: React.FC<
             </TouchableOpacity>
 
             {/* Preview Toggle */}
-            <TouchableOpacity
-              style={styles.previewToggle}
-              onPress={() => togglePreview(template.id)}
-            >
-              <Eye size={16} color="#059669" />
-              <Text style={styles.previewToggleText} weight="medium">
-                {expandedPreview === template.id
-                  ? 'Hide Preview'
-                  : 'Show Preview'}
-              </Text>
-            </TouchableOpacity>
+            <View style={styles.templateActions}>
+              <TouchableOpacity
+                style={styles.previewToggle}
+                onPress={() => togglePreview(template.id)}
+              >
+                <Eye size={16} color="#059669" />
+                <Text style={styles.previewToggleText} weight="medium">
+                  {expandedPreview === template.id
+                    ? 'Hide Preview'
+                    : 'Show Preview'}
+                </Text>
+              </TouchableOpacity>
+              {template.isCustom && (
+                <TouchableOpacity
+                  style={[styles.previewToggle, styles.editButton]}
+                  onPress={() => openEditor(template.id)}
+                >
+                  <Pencil size={16} color="#059669" />
+                  <Text style={styles.previewToggleText} weight="medium">
+                    {t('common.edit')}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
 
             {/* Preview Section */}
             {expandedPreview === template.id && (
@@ -307,17 +364,36 @@ export const ReceiptTemplateSelector: React.FC<
             )}
           </View>
         ))}
+
+        <TouchableOpacity
+          style={styles.newTemplateButton}
+          onPress={() => openEditor()}
+        >
+          <Plus size={18} color="#059669" />
+          <Text style={styles.newTemplateButtonText} weight="medium">
+            {t('receiptTemplates.newTemplate')}
+          </Text>
+        </TouchableOpacity>
       </ScrollView>
 
       {/* Selected Template Info */}
       <View style={styles.selectedInfo}>
         <Text style={styles.selectedInfoText} weight="medium">
           Selected:{' '}
-          {t(`shopSettings.templates.${selectedTemplate}`) ||
-            templates.find((t) => t.id === selectedTemplate)?.name ||
-            'None'}
+          {currentTemplate ? getTemplateName(currentTemplate) : 'None'}
         </Text>
       </View>
+
+      <ReceiptTemplateEditor
+        visible={editorVisible}
+        template={editingTemplate}
+        shopSettingsService={shopSettingsService}
+        shopSettings={shopSettings}
+        fontSize={selectedFontSize}
+        onClose={() => setEditorVisible(false)}
+        onSaved={onTemplateChange}
+        onDeleted={handleTemplateDeleted}
+      />
     </View>
   );
 };
@@ -392,7 +468,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  templateActions: {
+    flexDirection: 'row',
+  },
   previewToggle: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
@@ -401,6 +481,27 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E5E7EB',
   },
+  editButton: {
+    borderLeftWidth: 1,
+    borderLeftColor: '#E5E7EB',
+  },
+  newTemplateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginBottom: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#059669',
+    backgroundColor: '#FFFFFF',
+  },
+  newTemplateButtonText: {
+    fontSize: 14,
+    color: '#059669',
+    marginLeft: 8,
+  },
   previewToggleText: {
     fontSize: 14,
     color: '#059669',
@@ -0,0 +1,500 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { X, Plus, Minus } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { useSaleReturnMutations } from '@/hooks/useQueries';
+import {
+  PaymentMethodService,
+  type PaymentMethod,
+} from '@/services/paymentMethodService';
+import type { SaleItem, SaleReturn } from '@/services/database';
+
+interface SaleReturnModalProps {
+  visible: boolean;
+  sale: {
+    id: string;
+    payment_method: string;
+    customer_id?: string;
+  };
+  saleItems: (SaleItem & { product_name: string })[];
+  returnedQuantities: Record<string, number>;
+  debtOutstanding: number; // Only relevant for debt sales
+  onClose: () => void;
+  onReturned?: (saleReturn: SaleReturn) => void;
+}
+
+interface ReturnLine {
+  quantity: number;
+  restock: boolean;
+}
+
+// Matches DatabaseService.createSaleReturn: exclusive tax is refunded too
+const getUnitRefund = (item: SaleItem) =>
+  (item.subtotal + (item.tax_inclusive ? 0 : item.tax_amount || 0)) /
+  item.quantity;
+
+/**
+ * Modal for returning some or all items of a sale.
+ * Each line can be restocked or written off, and the refund is recorded
+ * against a payment method ('Debt' credits the customer's outstanding debt).
+ */
+export const SaleReturnModal: React.FC<SaleReturnModalProps> = ({
+  visible,
+  sale,
+  saleItems,
+  returnedQuantities,
+  debtOutstanding,
+  onClose,
+  onReturned,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { showToast } = useToast();
+  const { createSaleReturn } = useSaleReturnMutations();
+
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [refundMethod, setRefundMethod] = useState('');
+  const [lines, setLines] = useState<Record<string, ReturnLine>>({});
+  const [reason, setReason] = useState('');
+
+  const isDebtSale = sale.payment_method === 'Debt' && !!sale.customer_id;
+
+  useEffect(() => {
+    const loadPaymentMethods = async () => {
+      try {
+        const methods = await PaymentMethodService.getPaymentMethods();
+        // Refunding to 'Debt' only makes sense for the customer's debt sale
+        setPaymentMethods(
+          methods.filter((method) => method.id !== 'debt' || isDebtSale),
+        );
+      } catch (error) {
+        console.error('Error loading payment methods:', error);
+      }
+    };
+    loadPaymentMethods();
+  }, [isDebtSale]);
+
+  // Reset the form whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      setLines({});
+      setReason('');
+      setRefundMethod(sale.payment_method);
+    }
+  }, [visible, sale.payment_method]);
+
+  const returnableItems = saleItems.filter(
+    (item) => item.quantity - (returnedQuantities[item.id] || 0) > 0,
+  );
+
+  const refundAmount = useMemo(
+    () =>
+      saleItems.reduce((sum, item) => {
+        const line = lines[item.id];
+        if (!line || line.quantity <= 0) return sum;
+        return sum + getUnitRefund(item) * line.quantity;
+      }, 0),
+    [saleItems, lines],
+  );
+
+  const exceedsDebt =
+    refundMethod === 'Debt' && refundAmount - debtOutstanding > 0.001;
+  const canSubmit = refundAmount > 0 && !!refundMethod && !exceedsDebt;
+
+  const updateLine = (itemId: string, changes: Partial<ReturnLine>) => {
+    setLines((current) => ({
+      ...current,
+      [itemId]: {
+        quantity: current[itemId]?.quantity || 0,
+        restock: current[itemId]?.restock ?? true,
+        ...changes,
+      },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      Alert.alert(t('common.error'), t('returns.selectItemsToReturn'));
+      return;
+    }
+
+    const items = Object.entries(lines)
+      .filter(([, line]) => line.quantity > 0)
+      .map(([saleItemId, line]) => ({
+        sale_item_id: saleItemId,
+        quantity: line.quantity,
+        restock: line.restock,
+      }));
+
+    try {
+      const result = await createSaleReturn.mutateAsync({
+        saleId: sale.id,
+        items,
+        refund_method: refundMethod,
+        reason: reason.trim() || undefined,
+      });
+
+      showToast(t('returns.returnRecorded'), 'success');
+      onReturned?.({
+        id: result.id,
+        sale_id: sale.id,
+        return_number: result.returnNumber,
+        refund_amount: result.refundAmount,
+        refund_method: refundMethod,
+        reason: reason.trim() || undefined,
+        created_at: new Date().toISOString(),
+        items: items.map((item) => {
+          const saleItem = saleItems.find((si) => si.id === item.sale_item_id)!;
+          return {
+            id: item.sale_item_id,
+            return_id: result.id,
+            sale_item_id: item.sale_item_id,
+            product_id: saleItem.product_id,
+            product_name: saleItem.product_name,
+            quantity: item.quantity,
+            price: saleItem.price,
+            refund_amount: getUnitRefund(saleItem) * item.quantity,
+            cost: saleItem.cost,
+            restocked: item.restock ? 1 : 0,
+          };
+        }),
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error recording sale return:', error);
+      Alert.alert(t('common.error'), t('returns.failedToRecordReturn'));
+    }
+  };
+
+  const submitting = createSaleReturn.isPending;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {t('returns.returnItems')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {returnableItems.length === 0 ? (
+              <Text style={styles.emptyText}>
+                {t('returns.nothingToReturn')}
+              </Text>
+            ) : (
+              returnableItems.map((item) => {
+                const available =
+                  item.quantity - (returnedQuantities[item.id] || 0);
+                const line = lines[item.id];
+                const quantity = line?.quantity || 0;
+
+                return (
+                  <View key={item.id} style={styles.itemRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemName} weight="medium">
+                        {item.product_name}
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        {t('returns.availableToReturn', {
+                          quantity: available,
+                        })}
+                      </Text>
+                      {quantity > 0 && (
+                        <View style={styles.restockRow}>
+                          <Text style={styles.itemMeta}>
+                            {t('returns.restock')}
+                          </Text>
+                          <Switch
+                            value={line?.restock ?? true}
+                            onValueChange={(value) =>
+                              updateLine(item.id, { restock: value })
+                            }
+                            trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+                            thumbColor="#FFFFFF"
+                            disabled={submitting}
+                          />
+                        </View>
+                      )}
+                    </View>
+                    <View style={styles.quantityControls}>
+                      <TouchableOpacity
+                        style={styles.quantityButton}
+                        onPress={() =>
+                          updateLine(item.id, {
+                            quantity: Math.max(0, quantity - 1),
+                          })
+                        }
+                        disabled={submitting || quantity === 0}
+                      >
+                        <Minus size={16} color="#6B7280" />
+                      </TouchableOpacity>
+                      <Text style={styles.quantity} weight="medium">
+                        {quantity}
+                      </Text>
+                      <TouchableOpacity
+                        style={styles.quantityButton}
+                        onPress={() =>
+                          updateLine(item.id, {
+                            quantity: Math.min(available, quantity + 1),
+                          })
+                        }
+                        disabled={submitting || quantity >= available}
+                      >
+                        <Plus size={16} color="#6B7280" />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })
+            )}
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('returns.refundMethod')}
+            </Text>
+            <View style={styles.methodsContainer}>
+              {paymentMethods.map((method) => {
+                const isSelected = refundMethod === method.name;
+                return (
+                  <TouchableOpacity
+                    key={method.id}
+                    style={[
+                      styles.methodChip,
+                      isSelected && {
+                        borderColor: method.color,
+                        backgroundColor: method.color + '20',
+                      },
+                    ]}
+                    onPress={() => setRefundMethod(method.name)}
+                    disabled={submitting}
+                  >
+                    <Text
+                      style={styles.methodChipText}
+                      weight={isSelected ? 'medium' : 'regular'}
+                    >
+                      {method.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {exceedsDebt && (
+              <Text style={styles.errorText}>
+                {t('returns.refundExceedsDebt', {
+                  amount: formatPrice(debtOutstanding),
+                })}
+              </Text>
+            )}
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('returns.reason')}
+            </Text>
+            <TextInput
+              style={styles.reasonInput}
+              value={reason}
+              onChangeText={setReason}
+              placeholder={t('returns.reasonPlaceholder')}
+              multiline
+              numberOfLines={2}
+              maxLength={200}
+              editable={!submitting}
+            />
+          </ScrollView>
+
+          <View style={styles.refundRow}>
+            <Text style={styles.refundLabel}>{t('returns.refundTotal')}</Text>
+            <Text style={styles.refundValue} weight="bold">
+              {formatPrice(refundAmount)}
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              (!canSubmit || submitting) && styles.submitButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={!canSubmit || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.submitButtonText} weight="medium">
+                {t('returns.confirmReturn')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  restockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  quantityButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantity: {
+    fontSize: 16,
+    color: '#111827',
+    marginHorizontal: 12,
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  methodsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  methodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  methodChipText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 8,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  refundRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  refundLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  refundValue: {
+    fontSize: 18,
+    color: '#EF4444',
+  },
+  submitButton: {
+    backgroundColor: '#EF4444',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
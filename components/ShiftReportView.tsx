@@ -0,0 +1,214 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import type { ShiftReport } from '@/services/database';
+import type { PaymentMethod } from '@/services/paymentMethodService';
+import { mergePaymentTotals } from '@/utils/shiftReportUtils';
+
+interface ShiftReportViewProps {
+  report: ShiftReport;
+  paymentMethods: PaymentMethod[];
+}
+
+/**
+ * X/Z report body: sales per payment method and the cash drawer
+ * reconciliation (expected vs counted cash).
+ */
+export const ShiftReportView: React.FC<ShiftReportViewProps> = ({
+  report,
+  paymentMethods,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const paymentRows = mergePaymentTotals(report.paymentTotals, paymentMethods);
+
+  const cashRows: { label: string; amount: number }[] = [
+    { label: t('shifts.openingFloat'), amount: report.shift.opening_float },
+    { label: t('shifts.cashSales'), amount: report.cashSales },
+    { label: t('shifts.debtCollected'), amount: report.debtCollected },
+    { label: t('shifts.payIns'), amount: report.payIns },
+    { label: t('shifts.payOuts'), amount: -report.payOuts },
+    { label: t('shifts.cashRefunds'), amount: -report.cashRefunds },
+    { label: t('shifts.drawerExpenses'), amount: -report.drawerExpenses },
+  ];
+
+  const formatSigned = (amount: number) =>
+    amount < 0 ? `-${formatPrice(Math.abs(amount))}` : formatPrice(amount);
+
+  return (
+    <View>
+      <Text style={styles.sectionTitle} weight="bold">
+        {t('shifts.salesByPaymentMethod')}
+      </Text>
+      {paymentRows.map((row) => (
+        <View key={row.name} style={styles.row}>
+          <View style={styles.rowLabel}>
+            {row.color && (
+              <View style={[styles.colorDot, { backgroundColor: row.color }]} />
+            )}
+            <Text style={styles.label}>
+              {row.name} ({row.count})
+            </Text>
+          </View>
+          <Text style={styles.value} weight="medium">
+            {formatPrice(row.total)}
+          </Text>
+        </View>
+      ))}
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={styles.label} weight="medium">
+          {t('shifts.totalSales')} ({report.saleCount})
+        </Text>
+        <Text style={styles.value} weight="bold">
+          {formatPrice(report.salesTotal)}
+        </Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>
+          {t('shifts.refunds')} ({report.refundCount})
+        </Text>
+        <Text style={[styles.value, styles.negative]} weight="medium">
+          -{formatPrice(report.refundsTotal)}
+        </Text>
+      </View>
+
+      <Text style={[styles.sectionTitle, styles.sectionSpacing]} weight="bold">
+        {t('shifts.cashDrawer')}
+      </Text>
+      {cashRows.map((row) => (
+        <View key={row.label} style={styles.row}>
+          <Text style={styles.label}>{row.label}</Text>
+          <Text
+            style={[styles.value, row.amount < 0 && styles.negative]}
+            weight="medium"
+          >
+            {formatSigned(row.amount)}
+          </Text>
+        </View>
+      ))}
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={styles.label} weight="bold">
+          {t('shifts.expectedCash')}
+        </Text>
+        <Text style={styles.value} weight="bold">
+          {formatPrice(report.expectedCash)}
+        </Text>
+      </View>
+      {report.countedCash !== null && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label} weight="medium">
+              {t('shifts.countedCash')}
+            </Text>
+            <Text style={styles.value} weight="bold">
+              {formatPrice(report.countedCash)}
+            </Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label} weight="medium">
+              {(report.variance || 0) < 0
+                ? t('shifts.short')
+                : t('shifts.over')}
+            </Text>
+            <Text
+              style={[
+                styles.value,
+                (report.variance || 0) < 0 ? styles.negative : styles.positive,
+              ]}
+              weight="bold"
+            >
+              {formatSigned(report.variance || 0)}
+            </Text>
+          </View>
+        </>
+      )}
+
+      {report.cashMovements.length > 0 && (
+        <>
+          <Text
+            style={[styles.sectionTitle, styles.sectionSpacing]}
+            weight="bold"
+          >
+            {t('shifts.cashMovements')}
+          </Text>
+          {report.cashMovements.map((movement) => (
+            <View key={movement.id} style={styles.row}>
+              <Text style={styles.label} numberOfLines={1}>
+                {movement.type === 'pay_in'
+                  ? t('shifts.payIn')
+                  : t('shifts.payOut')}
+                {movement.reason ? ` • ${movement.reason}` : ''}
+              </Text>
+              <Text
+                style={[
+                  styles.value,
+                  movement.type === 'pay_out' && styles.negative,
+                ]}
+                weight="medium"
+              >
+                {formatSigned(
+                  movement.type === 'pay_out'
+                    ? -movement.amount
+                    : movement.amount,
+                )}
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 8,
+  },
+  sectionSpacing: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  rowLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  colorDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    marginTop: 4,
+    paddingTop: 10,
+  },
+  label: {
+    fontSize: 14,
+    color: '#374151',
+    flexShrink: 1,
+  },
+  value: {
+    fontSize: 14,
+    color: '#111827',
+    marginLeft: 12,
+  },
+  negative: {
+    color: '#EF4444',
+  },
+  positive: {
+    color: '#059669',
+  },
+});
@@ -28,8 +28,26 @@ import {
   X,
   FolderTree,
   Tag,
+  Percent,
+  Receipt,
+  Wallet,
+  UserCog,
+  LogOut,
+  ScrollText,
+  ClipboardList,
+  Layers,
+  RefreshCw,
+  DatabaseBackup,
+  Scale,
+  FileSpreadsheet,
+  BadgePercent,
+  Ticket,
+  Award,
+  Barcode,
 } from 'lucide-react-native';
 import { useTranslation } from '@/context/LocalizationContext';
+import { useStaff } from '@/context/StaffContext';
+import { getRoutePermission } from '@/utils/staffPermissions';
 import { DrawerMenuItem, MenuItem } from './DrawerMenuItem';
 
 const DRAWER_WIDTH = 280;
@@ -56,6 +74,7 @@ interface SidebarProps {
  */
 export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
   const { t } = useTranslation();
+  const { currentStaff, staffEnabled, signOut, can } = useStaff();
 
   // Track active item position for auto-scroll
   const scrollViewRef = useRef<ScrollView>(null);
@@ -97,6 +116,12 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: History,
             route: '/(drawer)/sale-history',
           },
+          {
+            id: 'cash-drawer',
+            label: t('shifts.cashDrawer'),
+            icon: Wallet,
+            route: '/(drawer)/cash-drawer',
+          },
         ],
       },
       // Inventory group
@@ -116,6 +141,24 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: FolderTree,
             route: '/(drawer)/category-management',
           },
+          {
+            id: 'promotions',
+            label: t('promotions.title'),
+            icon: BadgePercent,
+            route: '/(drawer)/promotions',
+          },
+          {
+            id: 'coupons',
+            label: t('coupons.title'),
+            icon: Ticket,
+            route: '/(drawer)/coupons',
+          },
+          {
+            id: 'barcode-labels',
+            label: t('labels.title'),
+            icon: Barcode,
+            route: '/(drawer)/barcode-labels',
+          },
           {
             id: 'movement-history',
             label: t('stockMovement.history'),
@@ -128,6 +171,18 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: AlertTriangle,
             route: '/(drawer)/low-stock',
           },
+          {
+            id: 'stock-reconciliation',
+            label: t('stockReconciliation.title'),
+            icon: Scale,
+            route: '/(drawer)/stock-reconciliation',
+          },
+          {
+            id: 'purchase-orders',
+            label: t('purchaseOrders.title'),
+            icon: ClipboardList,
+            route: '/(drawer)/purchase-orders',
+          },
         ],
       },
       // Analytics & Reports group
@@ -147,6 +202,12 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: Users,
             route: '/(drawer)/customer-analytics',
           },
+          {
+            id: 'inventory-valuation',
+            label: t('inventoryValuation.title'),
+            icon: Layers,
+            route: '/(drawer)/inventory-valuation',
+          },
           // {
           //   id: 'ai-analytics',
           //   label: t('aiAnalytics.title'),
@@ -166,6 +227,12 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: Users,
             route: '/(drawer)/customer-management',
           },
+          {
+            id: 'loyalty',
+            label: t('loyalty.title'),
+            icon: Award,
+            route: '/(drawer)/loyalty',
+          },
           {
             id: 'suppliers',
             label: t('suppliers.title'),
@@ -191,6 +258,24 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: Tag,
             route: '/(drawer)/expense-category-management',
           },
+          {
+            id: 'tax-rates',
+            label: t('tax.taxRates'),
+            icon: Percent,
+            route: '/(drawer)/tax-rates',
+          },
+          {
+            id: 'tax-report',
+            label: t('tax.taxReport'),
+            icon: Receipt,
+            route: '/(drawer)/tax-report',
+          },
+          {
+            id: 'accounting-export',
+            label: t('accountingExport.title'),
+            icon: FileSpreadsheet,
+            route: '/(drawer)/accounting-export',
+          },
         ],
       },
       // Settings group
@@ -210,6 +295,18 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: ShieldCheck,
             route: '/(drawer)/license-management',
           },
+          {
+            id: 'staff-management',
+            label: t('staff.title'),
+            icon: UserCog,
+            route: '/(drawer)/staff-management',
+          },
+          {
+            id: 'audit-log',
+            label: t('auditLog.title'),
+            icon: ScrollText,
+            route: '/(drawer)/audit-log',
+          },
           {
             id: 'language-settings',
             label: t('languageSettings.title'),
@@ -228,12 +325,44 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             icon: FileDown,
             route: '/(drawer)/data-import',
           },
+          {
+            id: 'backups',
+            label: t('backups.title'),
+            icon: DatabaseBackup,
+            route: '/(drawer)/backups',
+          },
+          {
+            id: 'sync-settings',
+            label: t('sync.title'),
+            icon: RefreshCw,
+            route: '/(drawer)/sync-settings',
+          },
         ],
       },
     ],
     [t],
   );
 
+  // Hide screens the signed-in staff role cannot open
+  const visibleMenuGroups = useMemo(
+    () =>
+      menuGroups
+        .map((group) => ({
+          ...group,
+          items: group.items.filter((item) => {
+            const permission = getRoutePermission(item.route);
+            return !permission || can(permission);
+          }),
+        }))
+        .filter((group) => group.items.length > 0),
+    [menuGroups, can],
+  );
+
+  const handleSignOut = useCallback(() => {
+    onClose();
+    signOut();
+  }, [onClose, signOut]);
+
   // Memoize close handler to prevent recreation (Requirement 8.4)
   const handleClose = useCallback(() => {
     onClose();
@@ -267,7 +396,7 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
           let cumulativeY = 8;
           let found = false;
 
-          for (const group of menuGroups) {
+          for (const group of visibleMenuGroups) {
             if (group.label) {
               cumulativeY += 44;
             }
@@ -293,7 +422,7 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
         }
       });
     }
-  }, [isOpen, currentRoute, menuGroups]);
+  }, [isOpen, currentRoute, visibleMenuGroups]);
 
   return (
     <>
@@ -333,13 +462,36 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
             </TouchableOpacity>
           </View>
 
+          {/* Signed-in staff member */}
+          {staffEnabled && currentStaff && (
+            <View style={styles.staffBar}>
+              <View style={styles.staffInfo}>
+                <Text style={styles.staffName} numberOfLines={1}>
+                  {currentStaff.name}
+                </Text>
+                <Text style={styles.staffRole}>
+                  {t(`staff.roles.${currentStaff.role}`)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={handleSignOut}
+                style={styles.signOutButton}
+                accessibilityLabel={t('staff.signOut')}
+                accessibilityRole="button"
+              >
+                <LogOut size={16} color="#059669" />
+                <Text style={styles.signOutText}>{t('staff.signOut')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Menu Items */}
           <ScrollView
             ref={scrollViewRef}
             style={styles.menuContainer}
             showsVerticalScrollIndicator={false}
           >
-            {menuGroups.map((group, groupIndex) => (
+            {visibleMenuGroups.map((group, groupIndex) => (
               <View key={group.id}>
                 {/* Group label - only show if label exists */}
                 {group.label && (
@@ -357,7 +509,7 @@ export function Sidebar({ isOpen, onClose, currentRoute }: SidebarProps) {
                 ))}
 
                 {/* Spacing between groups - except for last group */}
-                {groupIndex < menuGroups.length - 1 && (
+                {groupIndex < visibleMenuGroups.length - 1 && (
                   <View style={styles.groupSeparator} />
                 )}
               </View>
@@ -418,6 +570,45 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     borderRadius: 8,
   },
+  staffBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#F9FAFB',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  staffInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  staffName: {
+    fontSize: 14,
+    fontFamily: 'NotoSansMyanmar-Bold',
+    fontWeight: '600',
+    color: '#111827',
+  },
+  staffRole: {
+    fontSize: 12,
+    fontFamily: 'NotoSansMyanmar-Regular',
+    color: '#6B7280',
+  },
+  signOutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+  },
+  signOutText: {
+    fontSize: 12,
+    fontFamily: 'NotoSansMyanmar-Regular',
+    color: '#059669',
+  },
   menuContainer: {
     flex: 1,
     paddingVertical: 8,
@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { SearchablePickerModal } from '@/components/SearchablePickerModal';
+import { X, ChevronDown, FileSpreadsheet } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import {
+  ColumnMapping,
+  SPREADSHEET_FIELDS,
+  SpreadsheetEntity,
+  SpreadsheetTable,
+  getUnmappedRequiredFields,
+  suggestColumnMapping,
+} from '@/utils/spreadsheetImport';
+
+interface SpreadsheetMappingModalProps {
+  visible: boolean;
+  table: SpreadsheetTable | null;
+  filename?: string;
+  onConfirm: (recordType: SpreadsheetEntity, mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ENTITIES: SpreadsheetEntity[] = ['products', 'customers', 'suppliers'];
+
+/**
+ * Column-mapping step of a spreadsheet import: pick what the sheet holds and
+ * which column fills each field. Columns are suggested from the headers.
+ */
+export const SpreadsheetMappingModal: React.FC<
+  SpreadsheetMappingModalProps
+> = ({ visible, table, filename, onConfirm, onCancel }) => {
+  const { t } = useTranslation();
+  const [recordType, setRecordType] = useState<SpreadsheetEntity>('products');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [pickingField, setPickingField] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible && table) {
+      setMapping(suggestColumnMapping(table.headers, recordType));
+    }
+  }, [visible, table, recordType]);
+
+  if (!table) return null;
+
+  const columnName = (index: number) =>
+    table.headers[index] ||
+    t('spreadsheetImport.column', { number: index + 1 });
+  const columnItems = table.headers.map((_, index) => ({
+    id: String(index),
+    name: columnName(index),
+  }));
+  const missingFields = getUnmappedRequiredFields(mapping, recordType);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.header}>
+          <View style={styles.headerContent}>
+            <FileSpreadsheet size={20} color="#059669" />
+            <Text style={styles.title} weight="medium">
+              {t('spreadsheetImport.title')}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.closeButton} onPress={onCancel}>
+            <X size={22} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.hint}>
+            {t('spreadsheetImport.rowsFound', {
+              count: table.rows.length,
+              filename: filename || '',
+            })}
+          </Text>
+
+          <Text style={styles.sectionLabel} weight="medium">
+            {t('spreadsheetImport.importAs')}
+          </Text>
+          <View style={styles.entityRow}>
+            {ENTITIES.map((entity) => (
+              <TouchableOpacity
+                key={entity}
+                style={[
+                  styles.entityButton,
+                  recordType === entity && styles.entityButtonActive,
+                ]}
+                onPress={() => setRecordType(entity)}
+              >
+                <Text
+                  style={[
+                    styles.entityButtonText,
+                    recordType === entity && styles.entityButtonTextActive,
+                  ]}
+                  weight="medium"
+                >
+                  {t(`spreadsheetImport.entities.${entity}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionLabel} weight="medium">
+            {t('spreadsheetImport.columns')}
+          </Text>
+          {SPREADSHEET_FIELDS[recordType].map((field) => {
+            const column = mapping[field.key];
+            const sample = column != null ? table.rows[0]?.[column] : undefined;
+
+            return (
+              <TouchableOpacity
+                key={field.key}
+                style={styles.fieldRow}
+                onPress={() => setPickingField(field.key)}
+              >
+                <View style={styles.fieldInfo}>
+                  <Text style={styles.fieldLabel} weight="medium">
+                    {t(`spreadsheetImport.fields.${field.key}`)}
+                    {field.required ? ' *' : ''}
+                  </Text>
+                  {!!sample && (
+                    <Text style={styles.fieldSample} numberOfLines={1}>
+                      {t('spreadsheetImport.example', { value: sample })}
+                    </Text>
+                  )}
+                </View>
+                <Text
+                  style={[
+                    styles.columnText,
+                    column == null && styles.columnTextUnmapped,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {column != null
+                    ? columnName(column)
+                    : t('spreadsheetImport.notMapped')}
+                </Text>
+                <ChevronDown size={16} color="#9CA3AF" />
+              </TouchableOpacity>
+            );
+          })}
+
+          {missingFields.length > 0 && (
+            <Text style={styles.errorText}>
+              {t('spreadsheetImport.requiredMissing', {
+                fields: missingFields
+                  .map((key) => t(`spreadsheetImport.fields.${key}`))
+                  .join(', '),
+              })}
+            </Text>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelButtonText} weight="medium">
+              {t('common.cancel')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.confirmButton,
+              missingFields.length > 0 && styles.confirmButtonDisabled,
+            ]}
+            onPress={() => onConfirm(recordType, mapping)}
+            disabled={missingFields.length > 0}
+          >
+            <Text style={styles.confirmButtonText} weight="medium">
+              {t('spreadsheetImport.preview')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <SearchablePickerModal
+          visible={pickingField !== null}
+          onClose={() => setPickingField(null)}
+          title={
+            pickingField ? t(`spreadsheetImport.fields.${pickingField}`) : ''
+          }
+          items={columnItems}
+          selectedId={
+            pickingField && mapping[pickingField] != null
+              ? String(mapping[pickingField])
+              : undefined
+          }
+          onSelect={(id) => {
+            if (!pickingField) return;
+            setMapping({
+              ...mapping,
+              [pickingField]: id !== undefined ? Number(id) : null,
+            });
+          }}
+          allOptionLabel={t('spreadsheetImport.notMapped')}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    color: '#111827',
+    marginLeft: 8,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  entityRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  entityButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+  },
+  entityButtonActive: {
+    backgroundColor: '#ECFDF5',
+    borderColor: '#059669',
+  },
+  entityButtonText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  entityButtonTextActive: {
+    color: '#059669',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 8,
+  },
+  fieldInfo: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  fieldSample: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  columnText: {
+    maxWidth: '45%',
+    fontSize: 14,
+    color: '#059669',
+  },
+  columnTextUnmapped: {
+    color: '#9CA3AF',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  confirmButton: {
+    flex: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#059669',
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
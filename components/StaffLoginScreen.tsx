@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { Delete, Lock, UserCircle } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useStaff } from '@/context/StaffContext';
+import { useStaffMembers } from '@/hooks/useQueries';
+
+const PIN_MAX_LENGTH = 6;
+const PIN_MIN_LENGTH = 4;
+const KEYPAD_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+];
+
+/**
+ * Full-screen lock shown while staff accounts exist and nobody is signed in.
+ * Pick a staff member, then enter their PIN on the keypad.
+ */
+export const StaffLoginScreen: React.FC = () => {
+  const { t } = useTranslation();
+  const { signIn } = useStaff();
+  const { data: staffMembers = [] } = useStaffMembers();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  // Preselect when there is only one account
+  useEffect(() => {
+    if (!selectedId && staffMembers.length === 1) {
+      setSelectedId(staffMembers[0].id);
+    }
+  }, [selectedId, staffMembers]);
+
+  const handleSelect = (staffId: string) => {
+    setSelectedId(staffId);
+    setPin('');
+    setError(false);
+  };
+
+  const handleDigit = (digit: string) => {
+    if (pin.length >= PIN_MAX_LENGTH) return;
+    setPin(pin + digit);
+    setError(false);
+  };
+
+  const handleBackspace = () => {
+    setPin(pin.slice(0, -1));
+    setError(false);
+  };
+
+  const handleUnlock = async () => {
+    if (!selectedId || pin.length < PIN_MIN_LENGTH) return;
+
+    setVerifying(true);
+    try {
+      const success = await signIn(selectedId, pin);
+      if (!success) {
+        setError(true);
+        setPin('');
+      }
+    } catch (err) {
+      console.error('Error signing in staff:', err);
+      setError(true);
+      setPin('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const canUnlock = !!selectedId && pin.length >= PIN_MIN_LENGTH && !verifying;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.lockIcon}>
+          <Lock size={28} color="#059669" />
+        </View>
+        <Text style={styles.title} weight="bold">
+          {t('staff.signIn')}
+        </Text>
+        <Text style={styles.subtitle}>{t('staff.signInHint')}</Text>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.staffList}
+        style={styles.staffScroll}
+      >
+        {staffMembers.map((staff) => {
+          const isSelected = staff.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={staff.id}
+              style={[styles.staffChip, isSelected && styles.staffChipSelected]}
+              onPress={() => handleSelect(staff.id)}
+            >
+              <UserCircle
+                size={20}
+                color={isSelected ? '#FFFFFF' : '#6B7280'}
+              />
+              <View>
+                <Text
+                  style={[
+                    styles.staffName,
+                    isSelected && styles.staffTextSelected,
+                  ]}
+                  weight="medium"
+                >
+                  {staff.name}
+                </Text>
+                <Text
+                  style={[
+                    styles.staffRole,
+                    isSelected && styles.staffTextSelected,
+                  ]}
+                >
+                  {t(`staff.roles.${staff.role}`)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.pinDots}>
+        {Array.from({ length: PIN_MAX_LENGTH }).map((_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.pinDot,
+              index < pin.length && styles.pinDotFilled,
+              error && styles.pinDotError,
+            ]}
+          />
+        ))}
+      </View>
+      <Text style={styles.errorText}>{error ? t('staff.wrongPin') : ' '}</Text>
+
+      <View style={styles.keypad}>
+        {KEYPAD_ROWS.map((row) => (
+          <View key={row.join('')} style={styles.keypadRow}>
+            {row.map((digit) => (
+              <TouchableOpacity
+                key={digit}
+                style={styles.key}
+                onPress={() => handleDigit(digit)}
+                disabled={!selectedId || verifying}
+              >
+                <Text style={styles.keyText} weight="medium">
+                  {digit}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+        <View style={styles.keypadRow}>
+          <TouchableOpacity
+            style={styles.key}
+            onPress={handleBackspace}
+            disabled={pin.length === 0 || verifying}
+          >
+            <Delete size={24} color="#374151" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.key}
+            onPress={() => handleDigit('0')}
+            disabled={!selectedId || verifying}
+          >
+            <Text style={styles.keyText} weight="medium">
+              0
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.key,
+              styles.unlockKey,
+              !canUnlock && styles.unlockKeyDisabled,
+            ]}
+            onPress={handleUnlock}
+            disabled={!canUnlock}
+          >
+            {verifying ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.unlockText} weight="medium">
+                {t('staff.unlock')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#F9FAFB',
+    zIndex: 2000,
+    alignItems: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginTop: 40,
+    marginBottom: 24,
+    paddingHorizontal: 24,
+  },
+  lockIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 24,
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  staffScroll: {
+    flexGrow: 0,
+    alignSelf: 'stretch',
+  },
+  staffList: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  staffChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  staffChipSelected: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  staffName: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  staffRole: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  staffTextSelected: {
+    color: '#FFFFFF',
+  },
+  pinDots: {
+    flexDirection: 'row',
+    gap: 14,
+    marginTop: 32,
+  },
+  pinDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+    borderColor: '#9CA3AF',
+  },
+  pinDotFilled: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  pinDotError: {
+    borderColor: '#EF4444',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 10,
+  },
+  keypad: {
+    marginTop: 16,
+    gap: 12,
+  },
+  keypadRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  key: {
+    width: 76,
+    height: 60,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 24,
+    color: '#111827',
+  },
+  unlockKey: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  unlockKeyDisabled: {
+    opacity: 0.5,
+  },
+  unlockText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+});
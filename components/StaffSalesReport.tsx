@@ -0,0 +1,262 @@
+import React, { useState, useMemo } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { useStaffSalesSummary } from '@/hooks/useQueries';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { ShoppingCart, DollarSign, Users } from 'lucide-react-native';
+import { DateFilter, DateFilterComponent } from './DateFilter';
+
+/**
+ * Sales count and revenue per staff member for the selected period.
+ * Sales made before staff accounts existed are grouped as unassigned.
+ */
+export const StaffSalesReport: React.FC = () => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const [dateFilter, setDateFilter] = useState<DateFilter>({
+    mode: 'month',
+    selectedDate: new Date(),
+    selectedMonth: new Date().getMonth(),
+    selectedYear: new Date().getFullYear(),
+    startDate: new Date(),
+    endDate: new Date(),
+  });
+
+  // Calculate start and end dates based on filter
+  const { startDate, endDate } = useMemo(() => {
+    const today = new Date();
+    let start: Date, end: Date;
+
+    switch (dateFilter.mode) {
+      case 'day':
+        start = new Date(dateFilter.selectedDate);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(dateFilter.selectedDate);
+        end.setHours(23, 59, 59, 999);
+        break;
+      case 'month':
+        start = new Date(dateFilter.selectedYear, dateFilter.selectedMonth, 1);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(
+          dateFilter.selectedYear,
+          dateFilter.selectedMonth + 1,
+          0,
+        );
+        end.setHours(23, 59, 59, 999);
+        break;
+      case 'year':
+        start = new Date(dateFilter.selectedYear, 0, 1);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(dateFilter.selectedYear, 11, 31);
+        end.setHours(23, 59, 59, 999);
+        break;
+      default:
+        start = today;
+        end = today;
+    }
+
+    return { startDate: start, endDate: end };
+  }, [
+    dateFilter.mode,
+    dateFilter.selectedDate,
+    dateFilter.selectedMonth,
+    dateFilter.selectedYear,
+  ]);
+
+  const {
+    data: staffSummary = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useStaffSalesSummary(startDate, endDate);
+
+  const totals = staffSummary.reduce(
+    (sum, row) => ({
+      count: sum.count + row.sale_count,
+      revenue: sum.revenue + row.total,
+    }),
+    { count: 0, revenue: 0 },
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={{ padding: 10 }}>
+        <DateFilterComponent
+          dateFilter={dateFilter}
+          onDateFilterChange={setDateFilter}
+        />
+      </View>
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            colors={['#059669']}
+            tintColor={'#059669'}
+          />
+        }
+      >
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryItem}>
+              <ShoppingCart size={20} color="#3B82F6" />
+              <Text style={styles.summaryLabel}>{t('staff.totalSales')}</Text>
+              <Text style={styles.summaryValue} weight="bold">
+                {totals.count}
+              </Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <DollarSign size={20} color="#10B981" />
+              <Text style={styles.summaryLabel}>{t('staff.totalRevenue')}</Text>
+              <Text style={styles.summaryValue} weight="bold">
+                {formatPrice(totals.revenue)}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.listCard}>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('staff.salesByStaff')}
+          </Text>
+
+          {isLoading ? (
+            <Text style={styles.emptyStateText}>{t('common.loading')}</Text>
+          ) : staffSummary.length > 0 ? (
+            staffSummary.map((row) => (
+              <View key={row.staff_id || 'unassigned'} style={styles.staffItem}>
+                <View style={styles.staffInfo}>
+                  <Text style={styles.staffName} weight="medium">
+                    {row.staff_name || t('staff.unassigned')}
+                  </Text>
+                  <Text style={styles.staffStats}>
+                    {t('staff.saleCount', { count: row.sale_count })}
+                  </Text>
+                </View>
+                <View style={styles.staffAmount}>
+                  <Text style={styles.revenue} weight="bold">
+                    {formatPrice(row.total)}
+                  </Text>
+                  {totals.revenue > 0 && (
+                    <Text style={styles.share}>
+                      {((row.total / totals.revenue) * 100).toFixed(1)}%
+                    </Text>
+                  )}
+                </View>
+              </View>
+            ))
+          ) : (
+            <View style={styles.emptyState}>
+              <Users size={48} color="#9CA3AF" />
+              <Text style={styles.emptyStateText}>
+                {t('staff.noSalesData')}
+              </Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flex: 1,
+    padding: 10,
+  },
+  summaryCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  summaryItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  summaryValue: {
+    fontSize: 16,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  listCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    color: '#111827',
+    marginBottom: 16,
+  },
+  staffItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  staffInfo: {
+    flex: 1,
+  },
+  staffName: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 2,
+  },
+  staffStats: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  staffAmount: {
+    alignItems: 'flex-end',
+  },
+  revenue: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  share: {
+    fontSize: 10,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
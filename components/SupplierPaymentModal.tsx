@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { PriceInput } from '@/components/PriceInput';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useToast } from '@/context/ToastContext';
+import { usePurchaseOrderMutations } from '@/hooks/useQueries';
+import {
+  PaymentMethodService,
+  type PaymentMethod,
+} from '@/services/paymentMethodService';
+
+interface SupplierPaymentModalProps {
+  visible: boolean;
+  supplierId: string;
+  purchaseOrderId?: string; // When set, the payment is recorded against this order
+  outstanding: number;
+  onClose: () => void;
+}
+
+/**
+ * Modal for recording a payment made to a supplier.
+ * Paying more than the outstanding balance is allowed for deposits.
+ */
+export const SupplierPaymentModal: React.FC<SupplierPaymentModalProps> = ({
+  visible,
+  supplierId,
+  purchaseOrderId,
+  outstanding,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { showToast } = useToast();
+  const { addSupplierPayment } = usePurchaseOrderMutations();
+
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [selectedMethod, setSelectedMethod] = useState<string>('');
+  const [amountText, setAmountText] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [note, setNote] = useState('');
+
+  // Load non-debt payment methods
+  useEffect(() => {
+    const loadPaymentMethods = async () => {
+      try {
+        const methods = await PaymentMethodService.getPaymentMethods();
+        const payable = methods.filter((method) => method.id !== 'debt');
+        setPaymentMethods(payable);
+        if (payable.length > 0) {
+          setSelectedMethod((current) => current || payable[0].name);
+        }
+      } catch (error) {
+        console.error('Error loading payment methods:', error);
+      }
+    };
+    loadPaymentMethods();
+  }, []);
+
+  // Default to the full outstanding amount whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      const defaultAmount = Math.max(0, outstanding);
+      setAmountText(defaultAmount > 0 ? defaultAmount.toString() : '');
+      setAmount(defaultAmount);
+      setNote('');
+    }
+  }, [visible, outstanding]);
+
+  const handleRecord = async () => {
+    if (!(amount > 0)) {
+      Alert.alert(t('common.error'), t('purchaseOrders.invalidPaymentAmount'));
+      return;
+    }
+
+    if (!selectedMethod) {
+      Alert.alert(t('common.error'), t('purchaseOrders.selectPaymentMethod'));
+      return;
+    }
+
+    try {
+      await addSupplierPayment.mutateAsync({
+        supplier_id: supplierId,
+        purchase_order_id: purchaseOrderId,
+        amount,
+        payment_method: selectedMethod,
+        note: note.trim() || undefined,
+      });
+      showToast(t('purchaseOrders.paymentRecorded'), 'success');
+      onClose();
+    } catch (error) {
+      console.error('Error recording supplier payment:', error);
+      Alert.alert(t('common.error'), t('purchaseOrders.failedToRecordPayment'));
+    }
+  };
+
+  const recording = addSupplierPayment.isPending;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {t('purchaseOrders.recordPayment')}
+            </Text>
+            <TouchableOpacity onPress={onClose} disabled={recording}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.outstandingRow}>
+              <Text style={styles.outstandingLabel}>
+                {t('purchaseOrders.outstanding')}
+              </Text>
+              <Text style={styles.outstandingValue} weight="bold">
+                {formatPrice(outstanding)}
+              </Text>
+            </View>
+
+            <PriceInput
+              label={t('purchaseOrders.paymentAmount')}
+              value={amountText}
+              onValueChange={(text: string, numericValue: number) => {
+                setAmountText(text);
+                setAmount(numericValue);
+              }}
+              showCurrencyHint={false}
+              editable={!recording}
+            />
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('purchaseOrders.selectPaymentMethod')}
+            </Text>
+            <View style={styles.methodsContainer}>
+              {paymentMethods.map((method) => {
+                const isSelected = selectedMethod === method.name;
+                return (
+                  <TouchableOpacity
+                    key={method.id}
+                    style={[
+                      styles.methodChip,
+                      isSelected && {
+                        borderColor: method.color,
+                        backgroundColor: method.color + '20',
+                      },
+                    ]}
+                    onPress={() => setSelectedMethod(method.name)}
+                    disabled={recording}
+                  >
+                    <Text
+                      style={styles.methodChipText}
+                      weight={isSelected ? 'medium' : 'regular'}
+                    >
+                      {method.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionLabel} weight="medium">
+              {t('purchaseOrders.note')}
+            </Text>
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t('purchaseOrders.paymentNotePlaceholder')}
+              multiline
+              numberOfLines={2}
+              maxLength={200}
+              editable={!recording}
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.recordButton,
+              (!(amount > 0) || recording) && styles.recordButtonDisabled,
+            ]}
+            onPress={handleRecord}
+            disabled={!(amount > 0) || recording}
+          >
+            {recording ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.recordButtonText} weight="medium">
+                {t('purchaseOrders.recordPayment')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  outstandingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#FEF3C7',
+    marginBottom: 16,
+  },
+  outstandingLabel: {
+    fontSize: 14,
+    color: '#92400E',
+  },
+  outstandingValue: {
+    fontSize: 18,
+    color: '#D97706',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  methodsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  methodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  methodChipText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  recordButton: {
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  recordButtonDisabled: {
+    opacity: 0.5,
+  },
+  recordButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
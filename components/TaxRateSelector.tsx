@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { useTranslation } from '@/context/LocalizationContext';
+import { TaxRate } from '@/services/database';
+import { TAX_EXEMPT } from '@/utils/taxUtils';
+
+interface TaxRateSelectorProps {
+  taxRates: TaxRate[];
+  value?: string | null;
+  onChange: (taxRateId: string | null) => void;
+  // Products inherit their category's rate by default and may opt out of tax
+  forProduct?: boolean;
+}
+
+/**
+ * Chip selector for assigning a tax rate to a category or product
+ */
+export const TaxRateSelector: React.FC<TaxRateSelectorProps> = ({
+  taxRates,
+  value,
+  onChange,
+  forProduct = false,
+}) => {
+  const { t } = useTranslation();
+
+  const options: { id: string | null; label: string }[] = [
+    {
+      id: null,
+      label: forProduct ? t('tax.useCategoryRate') : t('tax.noTax'),
+    },
+    ...(forProduct ? [{ id: TAX_EXEMPT, label: t('tax.taxExempt') }] : []),
+    ...taxRates.map((taxRate) => ({
+      id: taxRate.id,
+      label: `${taxRate.name} (${taxRate.rate}%)`,
+    })),
+  ];
+
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const selected = (value || null) === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id || 'none'}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onChange(option.id)}
+          >
+            <Text
+              style={[styles.chipText, selected && styles.chipTextSelected]}
+              weight={selected ? 'medium' : 'regular'}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    borderColor: '#059669',
+    backgroundColor: '#ECFDF5',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#059669',
+  },
+});
@@ -0,0 +1,281 @@
+import React, { useState, useMemo } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { useTaxSummary } from '@/hooks/useQueries';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useTranslation } from '@/context/LocalizationContext';
+import { Receipt, RotateCcw, Landmark } from 'lucide-react-native';
+import { DateFilter, DateFilterComponent } from './DateFilter';
+
+/**
+ * Tax collected per rate for the selected period, with tax on returned
+ * items netted out by return date.
+ */
+export const TaxReport: React.FC = () => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+
+  const [dateFilter, setDateFilter] = useState<DateFilter>({
+    mode: 'month',
+    selectedDate: new Date(),
+    selectedMonth: new Date().getMonth(),
+    selectedYear: new Date().getFullYear(),
+    startDate: new Date(),
+    endDate: new Date(),
+  });
+
+  // Calculate start and end dates based on filter
+  const { startDate, endDate } = useMemo(() => {
+    const today = new Date();
+    let start: Date, end: Date;
+
+    switch (dateFilter.mode) {
+      case 'day':
+        start = new Date(dateFilter.selectedDate);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(dateFilter.selectedDate);
+        end.setHours(23, 59, 59, 999);
+        break;
+      case 'month':
+        start = new Date(dateFilter.selectedYear, dateFilter.selectedMonth, 1);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(
+          dateFilter.selectedYear,
+          dateFilter.selectedMonth + 1,
+          0,
+        );
+        end.setHours(23, 59, 59, 999);
+        break;
+      case 'year':
+        start = new Date(dateFilter.selectedYear, 0, 1);
+        start.setHours(0, 0, 0, 0);
+        end = new Date(dateFilter.selectedYear, 11, 31);
+        end.setHours(23, 59, 59, 999);
+        break;
+      default:
+        start = today;
+        end = today;
+    }
+
+    return { startDate: start, endDate: end };
+  }, [
+    dateFilter.mode,
+    dateFilter.selectedDate,
+    dateFilter.selectedMonth,
+    dateFilter.selectedYear,
+  ]);
+
+  const {
+    data: taxSummary = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useTaxSummary(startDate, endDate);
+
+  const totals = taxSummary.reduce(
+    (sum, row) => ({
+      collected: sum.collected + row.tax_amount,
+      refunded: sum.refunded + row.refunded_tax,
+      net: sum.net + row.net_tax,
+    }),
+    { collected: 0, refunded: 0, net: 0 },
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={{ padding: 10 }}>
+        <DateFilterComponent
+          dateFilter={dateFilter}
+          onDateFilterChange={setDateFilter}
+        />
+      </View>
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            colors={['#059669']}
+            tintColor={'#059669'}
+          />
+        }
+      >
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryItem}>
+              <Receipt size={20} color="#3B82F6" />
+              <Text style={styles.summaryLabel}>{t('tax.taxCollected')}</Text>
+              <Text style={styles.summaryValue} weight="bold">
+                {formatPrice(totals.collected)}
+              </Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <RotateCcw size={20} color="#EF4444" />
+              <Text style={styles.summaryLabel}>{t('tax.taxRefunded')}</Text>
+              <Text style={styles.summaryValue} weight="bold">
+                {formatPrice(totals.refunded)}
+              </Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Landmark size={20} color="#10B981" />
+              <Text style={styles.summaryLabel}>{t('tax.netTax')}</Text>
+              <Text style={styles.summaryValue} weight="bold">
+                {formatPrice(totals.net)}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.listCard}>
+          <Text style={styles.sectionTitle} weight="medium">
+            {t('tax.byRate')}
+          </Text>
+
+          {isLoading ? (
+            <Text style={styles.emptyStateText}>{t('common.loading')}</Text>
+          ) : taxSummary.length > 0 ? (
+            taxSummary.map((row) => (
+              <View
+                key={`${row.tax_name}-${row.tax_rate}-${row.tax_inclusive}`}
+                style={styles.rateItem}
+              >
+                <View style={styles.rateInfo}>
+                  <Text style={styles.rateName} weight="medium">
+                    {row.tax_name || `${row.tax_rate}%`} ({row.tax_rate}%)
+                  </Text>
+                  <Text style={styles.rateStats}>
+                    {row.tax_inclusive
+                      ? t('tax.inclusive')
+                      : t('tax.exclusive')}{' '}
+                    • {t('tax.taxableAmount')}:{' '}
+                    {formatPrice(row.taxable_amount)}
+                  </Text>
+                  {row.refunded_tax > 0 && (
+                    <Text style={styles.rateRefund}>
+                      {t('tax.taxRefunded')}: -{formatPrice(row.refunded_tax)}
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.rateAmount}>
+                  <Text style={styles.netTax} weight="bold">
+                    {formatPrice(row.net_tax)}
+                  </Text>
+                  <Text style={styles.netTaxLabel}>{t('tax.netTax')}</Text>
+                </View>
+              </View>
+            ))
+          ) : (
+            <View style={styles.emptyState}>
+              <Receipt size={48} color="#9CA3AF" />
+              <Text style={styles.emptyStateText}>{t('tax.noTaxData')}</Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    flex: 1,
+    padding: 10,
+  },
+  summaryCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  summaryItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  summaryValue: {
+    fontSize: 16,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  listCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    color: '#111827',
+    marginBottom: 16,
+  },
+  rateItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rateInfo: {
+    flex: 1,
+  },
+  rateName: {
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 2,
+  },
+  rateStats: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  rateRefund: {
+    fontSize: 12,
+    color: '#EF4444',
+  },
+  rateAmount: {
+    alignItems: 'flex-end',
+  },
+  netTax: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  netTaxLabel: {
+    fontSize: 10,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayoutChangeEvent, PixelRatio, StyleSheet, View } from 'react-native';
+import { captureRef } from 'react-native-view-shot';
+import { Buffer } from 'buffer';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { BluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import type { PrintLine } from '@/utils/escposConverter';
+import { getPaperDots, type PrinterProfile } from '@/utils/printerProfiles';
+import { decodePng, MonochromeImage, toMonochrome } from '@/utils/rasterImage';
+
+interface RasterJob {
+  lines: PrintLine[];
+  profile: PrinterProfile;
+  resolve: (image: MonochromeImage) => void;
+  reject: (error: unknown) => void;
+}
+
+// Font size for a character cell; Latin glyphs are about 0.6em wide
+const CHAR_WIDTH_EM = 0.6;
+const LARGE_SCALE = 1.5;
+
+// Two or more spaces is the padding formatLine puts between two columns
+const COLUMN_GAP = /\s{2,}/;
+
+/**
+ * Off-screen view that draws thermal receipt text with the app's Myanmar
+ * font and hands the printer service a bitmap of it, for printers set to
+ * bitmap mode. Mounted once at the root of the app.
+ */
+export const ThermalTextRasterizer: React.FC = () => {
+  const viewRef = useRef<View>(null);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [job, setJob] = useState<RasterJob | null>(null);
+
+  useEffect(() => {
+    // One receipt is drawn at a time; later ones wait their turn
+    BluetoothPrinterService.setTextRasterizer((lines, profile) => {
+      const run = queueRef.current.then(
+        () =>
+          new Promise<MonochromeImage>((resolve, reject) =>
+            setJob({ lines, profile, resolve, reject }),
+          ),
+      );
+      queueRef.current = run.catch(() => undefined);
+      return run;
+    });
+    return () => BluetoothPrinterService.setTextRasterizer(null);
+  }, []);
+
+  if (!job) return null;
+
+  const pixelRatio = PixelRatio.get();
+  const dots = getPaperDots(job.profile);
+  const fontSize = dots / job.profile.charsPerLine / CHAR_WIDTH_EM / pixelRatio;
+
+  const handleLayout = async (event: LayoutChangeEvent) => {
+    const { height } = event.nativeEvent.layout;
+    try {
+      // Let the text draw before taking the picture
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      const base64 = await captureRef(viewRef, {
+        format: 'png',
+        result: 'base64',
+        width: dots / pixelRatio,
+        height,
+      });
+      job.resolve(toMonochrome(decodePng(Buffer.from(base64, 'base64'))));
+    } catch (error) {
+      job.reject(error);
+    } finally {
+      setJob(null);
+    }
+  };
+
+  return (
+    <View
+      ref={viewRef}
+      collapsable={false}
+      style={[styles.paper, { width: dots / pixelRatio }]}
+      onLayout={handleLayout}
+      pointerEvents="none"
+    >
+      {job.lines.map((line, index) => {
+        const size = line.large ? fontSize * LARGE_SCALE : fontSize;
+        const textStyle = {
+          fontSize: size,
+          lineHeight: size * 1.4,
+          textAlign: line.align,
+        };
+        const columns = line.text.trim().split(COLUMN_GAP);
+        const weight = line.bold ? 'bold' : 'regular';
+
+        return columns.length === 2 ? (
+          <View key={index} style={styles.columns}>
+            <Text style={[styles.text, textStyle]} weight={weight}>
+              {columns[0]}
+            </Text>
+            <Text style={[styles.text, textStyle]} weight={weight}>
+              {columns[1]}
+            </Text>
+          </View>
+        ) : (
+          <Text
+            key={index}
+            style={[styles.text, textStyle]}
+            weight={weight}
+            numberOfLines={1}
+            ellipsizeMode="clip"
+          >
+            {line.text || ' '}
+          </Text>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  paper: {
+    position: 'absolute',
+    left: -10000,
+    top: 0,
+    backgroundColor: '#FFFFFF',
+  },
+  columns: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  text: {
+    color: '#000000',
+  },
+});
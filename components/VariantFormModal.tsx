@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { MyanmarTextInput as TextInput } from '@/components/MyanmarTextInput';
+import { PriceInput } from '@/components/PriceInput';
+import { Trash2, X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useToast } from '@/context/ToastContext';
+import { useStaff } from '@/context/StaffContext';
+import { useProductVariantMutations } from '@/hooks/useQueries';
+import { Product } from '@/services/database';
+import {
+  VariantOptions,
+  parseVariantAttributes,
+  parseVariantOptions,
+} from '@/utils/productVariants';
+
+interface VariantFormModalProps {
+  visible: boolean;
+  parent: Product;
+  variant?: Product | null; // When set, the variant is edited instead of added
+  onClose: () => void;
+}
+
+/**
+ * Modal for adding or editing a product variant.
+ * The first variant of a product also names the options its variants are
+ * described by, e.g. "Size, Colour".
+ */
+export const VariantFormModal: React.FC<VariantFormModalProps> = ({
+  visible,
+  parent,
+  variant,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const { can } = useStaff();
+  const { addVariant, updateVariant, deleteVariant } =
+    useProductVariantMutations();
+
+  const storedAttributes = parseVariantAttributes(parent);
+  const [attributesText, setAttributesText] = useState('');
+  const [options, setOptions] = useState<VariantOptions>({});
+  const [barcode, setBarcode] = useState('');
+  const [price, setPrice] = useState({ text: '', value: 0 });
+  const [cost, setCost] = useState({ text: '', value: 0 });
+  const [quantity, setQuantity] = useState('');
+  const [minStock, setMinStock] = useState('');
+
+  // Start from the variant being edited, or from the parent's prices
+  useEffect(() => {
+    if (!visible) return;
+
+    const source = variant || parent;
+    setAttributesText('');
+    setOptions(variant ? parseVariantOptions(variant) : {});
+    setBarcode(variant?.barcode || '');
+    setPrice({
+      text: source.price ? source.price.toString() : '',
+      value: source.price,
+    });
+    setCost({
+      text: source.cost ? source.cost.toString() : '',
+      value: source.cost,
+    });
+    setQuantity(variant ? variant.quantity.toString() : '');
+    setMinStock(source.min_stock.toString());
+  }, [visible, variant, parent]);
+
+  const attributes =
+    storedAttributes.length > 0
+      ? storedAttributes
+      : attributesText
+          .split(',')
+          .map((attribute) => attribute.trim())
+          .filter(Boolean);
+
+  const saving =
+    addVariant.isPending || updateVariant.isPending || deleteVariant.isPending;
+
+  const handleSave = async () => {
+    if (attributes.length === 0) {
+      Alert.alert(t('common.error'), t('variants.optionNamesRequired'));
+      return;
+    }
+
+    if (attributes.some((attribute) => !options[attribute]?.trim())) {
+      Alert.alert(t('common.error'), t('variants.optionValuesRequired'));
+      return;
+    }
+
+    if (price.value <= 0) {
+      Alert.alert(t('common.error'), t('variants.priceRequired'));
+      return;
+    }
+
+    const variantOptions = Object.fromEntries(
+      attributes.map((attribute) => [attribute, options[attribute].trim()]),
+    );
+    const fields = {
+      options: variantOptions,
+      barcode: barcode.trim() || undefined,
+      price: price.value,
+      cost: cost.value,
+      quantity: parseInt(quantity) || 0,
+      min_stock: parseInt(minStock) || 0,
+    };
+
+    try {
+      if (variant) {
+        await updateVariant.mutateAsync({ id: variant.id, changes: fields });
+        showToast(t('variants.variantUpdated'), 'success');
+      } else {
+        await addVariant.mutateAsync({ parentId: parent.id, variant: fields });
+        showToast(t('variants.variantAdded'), 'success');
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error saving variant:', error);
+      Alert.alert(
+        t('common.error'),
+        error instanceof Error ? error.message : t('variants.failedToSave'),
+      );
+    }
+  };
+
+  const handleDelete = () => {
+    if (!variant) return;
+
+    Alert.alert(
+      t('variants.deleteVariant'),
+      t('variants.deleteConfirm', { name: variant.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteVariant.mutateAsync(variant.id);
+              showToast(t('variants.variantDeleted'), 'success');
+              onClose();
+            } catch (error) {
+              console.error('Error deleting variant:', error);
+              Alert.alert(t('common.error'), t('variants.failedToDelete'));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title} weight="bold">
+              {variant ? t('variants.editVariant') : t('variants.addVariant')}
+            </Text>
+            <View style={styles.headerActions}>
+              {variant && can('products.delete') && (
+                <TouchableOpacity onPress={handleDelete} disabled={saving}>
+                  <Trash2 size={20} color="#EF4444" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={onClose} disabled={saving}>
+                <X size={22} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {storedAttributes.length === 0 && (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>
+                  {t('variants.optionNames')} *
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('variants.optionNamesPlaceholder')}
+                  value={attributesText}
+                  onChangeText={setAttributesText}
+                  editable={!saving}
+                />
+              </View>
+            )}
+
+            {attributes.map((attribute) => (
+              <View key={attribute} style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{attribute} *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={attribute}
+                  value={options[attribute] || ''}
+                  onChangeText={(text) =>
+                    setOptions({ ...options, [attribute]: text })
+                  }
+                  editable={!saving}
+                />
+              </View>
+            ))}
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>
+                {t('products.barcode')} ({t('products.optional')})
+              </Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t('products.barcode')}
+                value={barcode}
+                onChangeText={setBarcode}
+                editable={!saving}
+              />
+            </View>
+
+            <PriceInput
+              label={`${t('products.price')} *`}
+              value={price.text}
+              onValueChange={(text: string, numericValue: number) =>
+                setPrice({ text, value: numericValue })
+              }
+              showCurrencyHint={false}
+              editable={!saving}
+            />
+
+            <PriceInput
+              label={t('products.cost')}
+              value={cost.text}
+              onValueChange={(text: string, numericValue: number) =>
+                setCost({ text, value: numericValue })
+              }
+              showCurrencyHint={false}
+              editable={!saving}
+            />
+
+            <View style={styles.row}>
+              <View style={[styles.inputContainer, styles.halfWidth]}>
+                <Text style={styles.inputLabel}>{t('products.quantity')}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0"
+                  value={quantity}
+                  onChangeText={setQuantity}
+                  keyboardType="numeric"
+                  editable={!saving}
+                />
+              </View>
+              <View style={[styles.inputContainer, styles.halfWidth]}>
+                <Text style={styles.inputLabel}>
+                  {t('products.minStockLevel')}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0"
+                  value={minStock}
+                  onChangeText={setMinStock}
+                  keyboardType="numeric"
+                  editable={!saving}
+                />
+              </View>
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText} weight="medium">
+                {variant ? t('common.update') : t('common.add')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfWidth: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
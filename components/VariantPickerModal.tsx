@@ -0,0 +1,196 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { MyanmarText as Text } from '@/components/MyanmarText';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '@/context/LocalizationContext';
+import { useCurrencyFormatter } from '@/context/CurrencyContext';
+import { useAllowNegativeStock, useProductVariants } from '@/hooks/useQueries';
+import { Product } from '@/services/database';
+import {
+  formatVariantLabel,
+  parseVariantAttributes,
+  parseVariantOptions,
+} from '@/utils/productVariants';
+
+interface VariantPickerModalProps {
+  visible: boolean;
+  parent: Product | null;
+  onSelect: (variant: Product) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal for choosing which variant of a product to sell.
+ * Variants that are out of stock are shown but cannot be picked unless
+ * negative stock is allowed.
+ */
+export const VariantPickerModal: React.FC<VariantPickerModalProps> = ({
+  visible,
+  parent,
+  onSelect,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { formatPrice } = useCurrencyFormatter();
+  const { data: variants = [], isLoading } = useProductVariants(
+    parent?.id || '',
+  );
+  const { data: allowNegativeStock = false } = useAllowNegativeStock();
+
+  const attributes = parent ? parseVariantAttributes(parent) : [];
+
+  const renderVariant = ({ item }: { item: Product }) => {
+    const outOfStock = item.quantity <= 0;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.variantRow,
+          outOfStock && !allowNegativeStock && styles.variantRowDisabled,
+        ]}
+        onPress={() => onSelect(item)}
+        disabled={outOfStock && !allowNegativeStock}
+      >
+        <View style={styles.variantInfo}>
+          <Text style={styles.variantLabel} weight="medium">
+            {formatVariantLabel(parseVariantOptions(item), attributes)}
+          </Text>
+          <Text
+            style={[styles.variantStock, outOfStock && styles.outOfStockText]}
+          >
+            {outOfStock
+              ? t('inventory.outOfStock')
+              : t('variants.inStock', { quantity: item.quantity })}
+          </Text>
+        </View>
+        <Text style={styles.variantPrice} weight="bold">
+          {formatPrice(item.price)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title} weight="bold">
+                {t('variants.chooseVariant')}
+              </Text>
+              {parent && (
+                <Text style={styles.subtitle} numberOfLines={1}>
+                  {parent.name}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#059669" />
+          ) : (
+            <FlatList
+              data={variants}
+              keyExtractor={(item) => item.id}
+              renderItem={renderVariant}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>{t('variants.noVariants')}</Text>
+              }
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    color: '#111827',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+    gap: 12,
+  },
+  variantRowDisabled: {
+    opacity: 0.5,
+  },
+  variantInfo: {
+    flex: 1,
+  },
+  variantLabel: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  variantStock: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  outOfStockText: {
+    color: '#EF4444',
+  },
+  variantPrice: {
+    fontSize: 16,
+    color: '#059669',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+});
@@ -342,6 +342,17 @@ export const EnhancedMovementHistory: React.FC<EnhancedMovementHistoryProps> =
                   </View>
                 )}
 
+                {item.staff_name && (
+                  <View style={styles.movementRow}>
+                    <Text style={styles.movementLabel}>
+                      {t('staff.recordedBy')}:
+                    </Text>
+                    <Text style={styles.movementReference}>
+                      {item.staff_name}
+                    </Text>
+                  </View>
+                )}
+
                 {item.reference_number && (
                   <View style={styles.movementRow}>
                     <Text style={styles.movementLabel}>
@@ -37,6 +37,7 @@ import {
   Grid3X3,
   List,
   TrendingDown,
+  Layers,
 } from 'lucide-react-native';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
 import { useToast } from '@/context/ToastContext';
@@ -296,6 +297,16 @@ export default function Products({
                   <Text style={styles.indicatorText}>Bulk</Text>
                 </View>
               )}
+              {!!product.variant_count && (
+                <View style={styles.indicator}>
+                  <Layers size={12} color="#059669" />
+                  <Text style={styles.indicatorText}>
+                    {t('variants.variantCount', {
+                      count: product.variant_count,
+                    })}
+                  </Text>
+                </View>
+              )}
               {isLowStock && (
                 <View style={[styles.indicator, styles.lowStockIndicator]}>
                   <Text style={styles.lowStockIndicatorText}>Low Stock</Text>
@@ -322,6 +333,7 @@ export default function Products({
         prev.barcode === next.barcode &&
         prev.imageUrl === next.imageUrl &&
         prev.has_bulk_pricing === next.has_bulk_pricing &&
+        prev.variant_count === next.variant_count &&
         prev.updated_at === next.updated_at
       );
     },
@@ -451,6 +463,14 @@ export default function Products({
                   <Text style={styles.tableIndicatorText}>Bulk</Text>
                 </View>
               )}
+              {!!product.variant_count && (
+                <View style={styles.tableIndicator}>
+                  <Layers size={10} color="#059669" />
+                  <Text style={styles.tableIndicatorText}>
+                    {product.variant_count}
+                  </Text>
+                </View>
+              )}
               {product.quantity <= product.min_stock && (
                 <View
                   style={[styles.tableIndicator, styles.tableLowStockIndicator]}
@@ -0,0 +1,222 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDatabase } from '@/context/DatabaseContext';
+import {
+  BackupInfo,
+  BackupService,
+  RestoreResult,
+} from '@/services/backupService';
+import {
+  BackupSettings,
+  BackupSettingsService,
+} from '@/services/backupSettingsService';
+import { BackupTrigger, getDueBackupTrigger } from '@/utils/backupSchedule';
+
+// How often the schedule is checked while the app is open
+const SCHEDULE_CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Backup context type definition
+ */
+interface BackupContextType {
+  settings: BackupSettings | null;
+  backups: BackupInfo[];
+  backingUp: boolean;
+  restoring: boolean;
+  lastError: string | null;
+  backupNow: () => Promise<BackupInfo | null>;
+  restoreBackup: (fileUri: string) => Promise<RestoreResult>;
+  deleteBackup: (fileUri: string) => Promise<void>;
+  saveSettings: (settings: BackupSettings) => Promise<void>;
+  refreshBackups: () => Promise<void>;
+}
+
+const BackupContext = createContext<BackupContextType | undefined>(undefined);
+
+interface BackupProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * BackupProvider component
+ * Takes the scheduled backups: once a day after closing time and after every
+ * so many sales. The schedule is checked every minute and whenever the app
+ * comes back to the foreground, so a missed backup is taken on the next run.
+ */
+export function BackupProvider({ children }: BackupProviderProps) {
+  const { db, isReady } = useDatabase();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [backingUp, setBackingUp] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const running = useRef(false);
+
+  useEffect(() => {
+    BackupSettingsService.getSettings().then(setSettings);
+  }, []);
+
+  const refreshBackups = useCallback(async () => {
+    if (!db || !isReady) return;
+    setBackups(await new BackupService(db).listBackups());
+  }, [db, isReady]);
+
+  const runBackup = useCallback(
+    async (trigger: BackupTrigger) => {
+      if (!db || !isReady || !settings || running.current) return null;
+
+      running.current = true;
+      setBackingUp(true);
+      try {
+        const backup = await new BackupService(db).createBackup(
+          trigger,
+          settings.keepCount,
+        );
+        setLastError(null);
+        return backup;
+      } catch (error) {
+        console.error('Backup failed:', error);
+        setLastError(error instanceof Error ? error.message : String(error));
+        return null;
+      } finally {
+        running.current = false;
+        setBackingUp(false);
+        await refreshBackups();
+      }
+    },
+    [db, isReady, settings, refreshBackups],
+  );
+
+  const backupNow = useCallback(() => runBackup('manual'), [runBackup]);
+
+  const checkSchedule = useCallback(async () => {
+    if (!db || !isReady || !settings || running.current) return;
+
+    try {
+      const { lastAt, lastDailyAt } = new BackupService(
+        db,
+      ).getLastBackupTimes();
+      const salesSinceLastBackup =
+        settings.everySales > 0
+          ? await db.getSalesCountSince(lastAt || new Date(0))
+          : 0;
+
+      const trigger = getDueBackupTrigger(
+        settings,
+        lastDailyAt,
+        salesSinceLastBackup,
+      );
+      if (trigger) {
+        await runBackup(trigger);
+      }
+    } catch (error) {
+      console.error('Error checking backup schedule:', error);
+    }
+  }, [db, isReady, settings, runBackup]);
+
+  const restoreBackup = useCallback(
+    async (fileUri: string) => {
+      if (!db || !isReady || !settings) {
+        throw new Error('Database not ready');
+      }
+      if (running.current) {
+        throw new Error('A backup is already in progress');
+      }
+
+      running.current = true;
+      setRestoring(true);
+      try {
+        const result = await new BackupService(db).restoreBackup(
+          fileUri,
+          settings.keepCount,
+        );
+        await queryClient.invalidateQueries();
+        return result;
+      } finally {
+        running.current = false;
+        setRestoring(false);
+        await refreshBackups();
+      }
+    },
+    [db, isReady, settings, queryClient, refreshBackups],
+  );
+
+  const deleteBackup = useCallback(
+    async (fileUri: string) => {
+      if (!db) return;
+      new BackupService(db).deleteBackup(fileUri);
+      await refreshBackups();
+    },
+    [db, refreshBackups],
+  );
+
+  const saveSettings = useCallback(async (next: BackupSettings) => {
+    await BackupSettingsService.saveSettings(next);
+    setSettings(next);
+  }, []);
+
+  // Check the schedule on an interval and when the app returns to the
+  // foreground
+  useEffect(() => {
+    if (!settings || (!settings.dailyAtClose && settings.everySales <= 0)) {
+      return;
+    }
+
+    checkSchedule();
+    const interval = setInterval(checkSchedule, SCHEDULE_CHECK_INTERVAL);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') checkSchedule();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [settings, checkSchedule]);
+
+  const backupContext: BackupContextType = {
+    settings,
+    backups,
+    backingUp,
+    restoring,
+    lastError,
+    backupNow,
+    restoreBackup,
+    deleteBackup,
+    saveSettings,
+    refreshBackups,
+  };
+
+  return (
+    <BackupContext.Provider value={backupContext}>
+      {children}
+    </BackupContext.Provider>
+  );
+}
+
+/**
+ * Custom hook for accessing local backups
+ * Must be used within a BackupProvider
+ */
+export function useBackup(): BackupContextType {
+  const context = useContext(BackupContext);
+
+  if (!context) {
+    throw new Error(
+      'useBackup must be used within a BackupProvider. ' +
+        'Wrap your component tree with <BackupProvider>.',
+    );
+  }
+
+  return context;
+}
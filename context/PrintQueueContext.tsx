@@ -0,0 +1,203 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import { useShopSettings } from '@/context/ShopSettingsContext';
+import { PrintQueueService } from '@/services/printQueueService';
+import {
+  createPrintJob,
+  getDueJob,
+  getNextAttemptAt,
+  PrintJob,
+  PrintJobPayload,
+  pruneFinishedJobs,
+  recordFailure,
+  requeueJob,
+} from '@/utils/printQueue';
+import { generateUUID } from '@/utils/uuid';
+
+/**
+ * Print queue context type definition
+ */
+interface PrintQueueContextType {
+  jobs: PrintJob[];
+  enqueue: (payload: PrintJobPayload, title: string) => PrintJob;
+  cancelJob: (jobId: string) => void;
+  retryJob: (jobId: string) => void;
+  clearFinished: () => void;
+}
+
+const PrintQueueContext = createContext<PrintQueueContextType | undefined>(
+  undefined,
+);
+
+interface PrintQueueProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * PrintQueueProvider component
+ * Runs the print worker: jobs print one at a time in the order they were
+ * queued, and a job the printer does not take is tried again with a growing
+ * wait until it prints or runs out of attempts. The queue is saved so jobs
+ * survive the app being closed.
+ */
+export function PrintQueueProvider({ children }: PrintQueueProviderProps) {
+  const { shopSettings } = useShopSettings();
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const jobsRef = useRef<PrintJob[]>([]);
+  const shopSettingsRef = useRef(shopSettings);
+  const running = useRef(false);
+
+  shopSettingsRef.current = shopSettings;
+
+  const updateJobs = useCallback(
+    (update: (current: PrintJob[]) => PrintJob[]) => {
+      jobsRef.current = update(jobsRef.current);
+      setJobs(jobsRef.current);
+      PrintQueueService.saveJobs(jobsRef.current);
+    },
+    [],
+  );
+
+  const updateJob = useCallback(
+    (jobId: string, update: (job: PrintJob) => PrintJob) =>
+      updateJobs((current) =>
+        current.map((job) => (job.id === jobId ? update(job) : job)),
+      ),
+    [updateJobs],
+  );
+
+  useEffect(() => {
+    PrintQueueService.getJobs().then((saved) => {
+      // Keep anything queued before the saved jobs finished loading
+      updateJobs((current) => [...saved, ...current]);
+      setLoaded(true);
+    });
+  }, [updateJobs]);
+
+  const processQueue = useCallback(async () => {
+    if (running.current) return;
+
+    running.current = true;
+    try {
+      let job = getDueJob(jobsRef.current, Date.now());
+      while (job) {
+        const jobId = job.id;
+        updateJob(jobId, (current) => ({ ...current, status: 'printing' }));
+        try {
+          await PrintQueueService.printJob(job, shopSettingsRef.current);
+          updateJob(jobId, (current) => ({
+            ...current,
+            status: 'done',
+            lastError: undefined,
+          }));
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          console.warn(`Print job ${jobId} did not print:`, message);
+          updateJob(jobId, (current) =>
+            // Cancelled while it was printing
+            current.status === 'printing'
+              ? recordFailure(current, message, Date.now())
+              : current,
+          );
+        }
+        updateJobs(pruneFinishedJobs);
+        job = getDueJob(jobsRef.current, Date.now());
+      }
+    } finally {
+      running.current = false;
+    }
+  }, [updateJob, updateJobs]);
+
+  // Wake up when the next waiting job is due, and when the app returns to
+  // the foreground, since the printer may have been switched on meanwhile
+  useEffect(() => {
+    if (!loaded) return;
+
+    const nextAttemptAt = getNextAttemptAt(jobs);
+    const timeout =
+      nextAttemptAt !== null
+        ? setTimeout(processQueue, Math.max(nextAttemptAt - Date.now(), 0))
+        : null;
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') processQueue();
+    });
+
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      subscription.remove();
+    };
+  }, [jobs, loaded, processQueue]);
+
+  const enqueue = useCallback(
+    (payload: PrintJobPayload, title: string) => {
+      const job = createPrintJob(generateUUID(), payload, title, Date.now());
+      updateJobs((current) => [...current, job]);
+      return job;
+    },
+    [updateJobs],
+  );
+
+  const cancelJob = useCallback(
+    (jobId: string) =>
+      updateJob(jobId, (job) =>
+        job.status === 'done' ? job : { ...job, status: 'cancelled' },
+      ),
+    [updateJob],
+  );
+
+  const retryJob = useCallback(
+    (jobId: string) => updateJob(jobId, (job) => requeueJob(job, Date.now())),
+    [updateJob],
+  );
+
+  const clearFinished = useCallback(
+    () =>
+      updateJobs((current) =>
+        current.filter(
+          (job) => job.status !== 'done' && job.status !== 'cancelled',
+        ),
+      ),
+    [updateJobs],
+  );
+
+  const printQueueContext: PrintQueueContextType = {
+    jobs,
+    enqueue,
+    cancelJob,
+    retryJob,
+    clearFinished,
+  };
+
+  return (
+    <PrintQueueContext.Provider value={printQueueContext}>
+      {children}
+    </PrintQueueContext.Provider>
+  );
+}
+
+/**
+ * Custom hook for accessing the print queue
+ * Must be used within a PrintQueueProvider
+ */
+export function usePrintQueue(): PrintQueueContextType {
+  const context = useContext(PrintQueueContext);
+
+  if (!context) {
+    throw new Error(
+      'usePrintQueue must be used within a PrintQueueProvider. ' +
+        'Wrap your component tree with <PrintQueueProvider>.',
+    );
+  }
+
+  return context;
+}
@@ -118,6 +118,7 @@ export const ShopSettingsProvider: React.FC<ShopSettingsProviderProps> = ({
           'customCurrencies',
           'receiptTemplate',
           'receiptFontSize',
+          'printerProfile',
         ];
         const updateKeys = Object.keys(updates);
         const isNonEssentialUpdate =
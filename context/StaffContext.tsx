@@ -0,0 +1,125 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from 'react';
+import { useDatabase } from '@/context/DatabaseContext';
+import { useStaffMembers } from '@/hooks/useQueries';
+import type { Staff } from '@/services/database';
+import { Permission, hasPermission } from '@/utils/staffPermissions';
+
+/**
+ * Staff context type definition
+ * Staff login is only required once at least one staff account exists
+ */
+interface StaffContextType {
+  currentStaff: Staff | null;
+  staffEnabled: boolean;
+  isLocked: boolean;
+  loading: boolean;
+  signIn: (staffId: string, pin: string) => Promise<boolean>;
+  signOut: () => void;
+  can: (permission: Permission) => boolean;
+}
+
+const StaffContext = createContext<StaffContextType | undefined>(undefined);
+
+interface StaffProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * StaffProvider component
+ * Holds the signed-in staff member and mirrors it onto the database service
+ * so sales and stock movements are attributed to them
+ */
+export function StaffProvider({ children }: StaffProviderProps) {
+  const { db } = useDatabase();
+  const { data: staffMembers = [], isLoading } = useStaffMembers();
+  const [currentStaff, setCurrentStaff] = useState<Staff | null>(null);
+
+  const staffEnabled = staffMembers.length > 0;
+
+  const applyStaff = useCallback(
+    (staff: Staff | null) => {
+      setCurrentStaff(staff);
+      db?.setActiveStaff(staff);
+    },
+    [db],
+  );
+
+  // Pick up role changes and sign out deactivated staff
+  useEffect(() => {
+    if (!currentStaff) return;
+
+    const latest = staffMembers.find((staff) => staff.id === currentStaff.id);
+    if (!latest) {
+      applyStaff(null);
+    } else if (
+      latest.role !== currentStaff.role ||
+      latest.name !== currentStaff.name
+    ) {
+      applyStaff(latest);
+    }
+  }, [staffMembers, currentStaff, applyStaff]);
+
+  const signIn = useCallback(
+    async (staffId: string, pin: string) => {
+      if (!db) return false;
+
+      const staff = await db.verifyStaffPin(staffId, pin);
+      if (!staff) return false;
+
+      applyStaff(staff);
+      return true;
+    },
+    [db, applyStaff],
+  );
+
+  const signOut = useCallback(() => applyStaff(null), [applyStaff]);
+
+  const can = useCallback(
+    (permission: Permission) => {
+      if (!staffEnabled) return true;
+      if (!currentStaff) return false;
+      return hasPermission(currentStaff.role, permission);
+    },
+    [staffEnabled, currentStaff],
+  );
+
+  const staffContext: StaffContextType = {
+    currentStaff,
+    staffEnabled,
+    isLocked: staffEnabled && !currentStaff,
+    loading: isLoading,
+    signIn,
+    signOut,
+    can,
+  };
+
+  return (
+    <StaffContext.Provider value={staffContext}>
+      {children}
+    </StaffContext.Provider>
+  );
+}
+
+/**
+ * Custom hook for accessing the signed-in staff member
+ * Must be used within a StaffProvider
+ */
+export function useStaff(): StaffContextType {
+  const context = useContext(StaffContext);
+
+  if (!context) {
+    throw new Error(
+      'useStaff must be used within a StaffProvider. ' +
+        'Wrap your component tree with <StaffProvider>.',
+    );
+  }
+
+  return context;
+}
@@ -0,0 +1,159 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDatabase } from '@/context/DatabaseContext';
+import type { SyncStatus } from '@/services/database';
+import {
+  SyncOfflineError,
+  SyncRunResult,
+  SyncService,
+} from '@/services/syncService';
+import {
+  SyncSettings,
+  SyncSettingsService,
+} from '@/services/syncSettingsService';
+
+/**
+ * Sync context type definition
+ * lastError is 'offline' when the server could not be reached
+ */
+interface SyncContextType {
+  settings: SyncSettings | null;
+  status: SyncStatus | null;
+  syncing: boolean;
+  lastError: string | null;
+  syncNow: () => Promise<SyncRunResult | null>;
+  saveSettings: (settings: SyncSettings) => Promise<void>;
+  refreshStatus: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * SyncProvider component
+ * Runs the sync worker on the configured interval and whenever the app comes
+ * back to the foreground. The app keeps working offline; changes wait in
+ * the outbox until the server is reachable again.
+ */
+export function SyncProvider({ children }: SyncProviderProps) {
+  const { db, isReady } = useDatabase();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<SyncSettings | null>(null);
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const running = useRef(false);
+
+  useEffect(() => {
+    SyncSettingsService.getSettings().then(setSettings);
+  }, []);
+
+  const refreshStatus = useCallback(async () => {
+    if (!db || !isReady) return;
+    setStatus(await db.getSyncStatus());
+  }, [db, isReady]);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  const syncNow = useCallback(async () => {
+    if (!db || !isReady || !settings?.serverUrl || running.current) {
+      return null;
+    }
+
+    running.current = true;
+    setSyncing(true);
+    try {
+      const result = await new SyncService(db, settings.serverUrl).sync();
+      setLastError(null);
+      if (result.pulled > 0) {
+        await queryClient.invalidateQueries();
+      }
+      return result;
+    } catch (error) {
+      if (!(error instanceof SyncOfflineError)) {
+        console.error('Sync failed:', error);
+      }
+      setLastError(
+        error instanceof SyncOfflineError
+          ? 'offline'
+          : error instanceof Error
+            ? error.message
+            : String(error),
+      );
+      return null;
+    } finally {
+      running.current = false;
+      setSyncing(false);
+      await refreshStatus();
+    }
+  }, [db, isReady, settings, queryClient, refreshStatus]);
+
+  const saveSettings = useCallback(async (next: SyncSettings) => {
+    await SyncSettingsService.saveSettings(next);
+    setSettings(next);
+  }, []);
+
+  // Sync on an interval and when the app returns to the foreground
+  useEffect(() => {
+    if (!settings?.enabled || !settings.serverUrl) return;
+
+    syncNow();
+    const interval = setInterval(
+      syncNow,
+      Math.max(settings.intervalMinutes, 1) * 60 * 1000,
+    );
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') syncNow();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [settings, syncNow]);
+
+  const syncContext: SyncContextType = {
+    settings,
+    status,
+    syncing,
+    lastError,
+    syncNow,
+    saveSettings,
+    refreshStatus,
+  };
+
+  return (
+    <SyncContext.Provider value={syncContext}>{children}</SyncContext.Provider>
+  );
+}
+
+/**
+ * Custom hook for accessing the sync worker
+ * Must be used within a SyncProvider
+ */
+export function useSync(): SyncContextType {
+  const context = useContext(SyncContext);
+
+  if (!context) {
+    throw new Error(
+      'useSync must be used within a SyncProvider. ' +
+        'Wrap your component tree with <SyncProvider>.',
+    );
+  }
+
+  return context;
+}
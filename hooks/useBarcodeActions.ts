@@ -71,8 +71,22 @@ export const useBarcodeActions = (options: BarcodeActionOptions) => {
   const handleSalesBarcode = useCallback(
     async (barcode: string, product: Product): Promise<BarcodeActionResult> => {
       try {
+        // A product with variants has no stock of its own; the caller lets
+        // the cashier pick which variant was sold
+        if (product.variant_count) {
+          if (onProductFound) {
+            onProductFound(product);
+          }
+
+          return {
+            success: true,
+            product,
+            action: 'choose_variant',
+          };
+        }
+
         // Check if product is in stock
-        if (product.quantity <= 0) {
+        if (product.quantity <= 0 && !db?.getAllowNegativeStock()) {
           triggerHapticFeedback('warning');
 
           Alert.alert(
@@ -122,7 +136,15 @@ export const useBarcodeActions = (options: BarcodeActionOptions) => {
         };
       }
     },
-    [onProductFound, onError, onSuccess, showToast, t, triggerHapticFeedback]
+    [
+      db,
+      onProductFound,
+      onError,
+      onSuccess,
+      showToast,
+      t,
+      triggerHapticFeedback
+    ]
   );
 
   /**
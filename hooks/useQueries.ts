@@ -17,7 +17,22 @@ import {
   Customer,
   StockMovement,
   BulkPricing,
+  DebtPayment,
+  TaxRate,
+  Promotion,
+  SalePromotion,
+  Coupon,
+  CouponRedemption,
+  CustomReceiptTemplate,
+  HeldCartItem,
+  CashMovement,
+  AuditLogFilters,
+  PurchaseOrderStatus,
+  CostingMethod,
 } from '@/services/database';
+import type { LoyaltySettings } from '@/utils/loyaltyUtils';
+import type { VariantOptions } from '@/utils/productVariants';
+import type { StaffRole } from '@/utils/staffPermissions';
 
 // Query keys factory for better organization
 export const queryKeys = {
@@ -29,6 +44,8 @@ export const queryKeys = {
       [...queryKeys.products.lists(), { filters }] as const,
     details: () => [...queryKeys.products.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.products.details(), id] as const,
+    variants: (parentId: string) =>
+      [...queryKeys.products.all, 'variants', parentId] as const,
   },
 
   // Categories
@@ -37,6 +54,30 @@ export const queryKeys = {
     lists: () => [...queryKeys.categories.all, 'list'] as const,
   },
 
+  // Tax rates
+  taxRates: {
+    all: ['taxRates'] as const,
+    lists: () => [...queryKeys.taxRates.all, 'list'] as const,
+  },
+
+  // Promotions
+  promotions: {
+    all: ['promotions'] as const,
+    lists: () => [...queryKeys.promotions.all, 'list'] as const,
+  },
+
+  // Coupons
+  coupons: {
+    all: ['coupons'] as const,
+    lists: () => [...queryKeys.coupons.all, 'list'] as const,
+  },
+
+  // Receipt templates written by the shop
+  receiptTemplates: {
+    all: ['receiptTemplates'] as const,
+    lists: () => [...queryKeys.receiptTemplates.all, 'list'] as const,
+  },
+
   // Suppliers
   suppliers: {
     all: ['suppliers'] as const,
@@ -90,6 +131,30 @@ export const queryKeys = {
       ] as const,
     segmentation: () =>
       [...queryKeys.customers.analytics(), 'segmentation'] as const,
+    debtBalance: (customerId: string) =>
+      [...queryKeys.customers.all, 'debtBalance', customerId] as const,
+    debtStatement: (customerId: string) =>
+      [...queryKeys.customers.all, 'debtStatement', customerId] as const,
+    loyalty: (customerId: string) =>
+      [...queryKeys.customers.all, 'loyalty', customerId] as const,
+    loyaltyLedger: (customerId: string) =>
+      [...queryKeys.customers.all, 'loyaltyLedger', customerId] as const,
+    loyaltyTotals: () => [...queryKeys.customers.all, 'loyaltyTotals'] as const,
+  },
+
+  // Loyalty
+  loyalty: {
+    all: ['loyalty'] as const,
+    settings: () => [...queryKeys.loyalty.all, 'settings'] as const,
+  },
+
+  // Debt Payments
+  debtPayments: {
+    all: ['debtPayments'] as const,
+    list: (filters?: { customerId?: string; saleId?: string }) =>
+      [...queryKeys.debtPayments.all, 'list', filters] as const,
+    saleBalance: (saleId: string) =>
+      [...queryKeys.debtPayments.all, 'saleBalance', saleId] as const,
   },
 
   // Stock Movements
@@ -137,6 +202,15 @@ export const queryKeys = {
   inventory: {
     all: ['inventory'] as const,
     lowStock: () => [...queryKeys.inventory.all, 'lowStock'] as const,
+    valuation: (categoryFilter?: string) =>
+      [
+        ...queryKeys.inventory.all,
+        'valuation',
+        categoryFilter || 'all',
+      ] as const,
+    reconciliation: () =>
+      [...queryKeys.inventory.all, 'reconciliation'] as const,
+    negativeStock: () => [...queryKeys.inventory.all, 'negativeStock'] as const,
   },
 
   // Sales
@@ -171,6 +245,38 @@ export const queryKeys = {
       ] as const,
     items: (saleId: string) =>
       [...queryKeys.sales.all, 'items', saleId] as const,
+    returns: (saleId: string) =>
+      [...queryKeys.sales.all, 'returns', saleId] as const,
+    promotions: (saleId: string) =>
+      [...queryKeys.sales.all, 'promotions', saleId] as const,
+    promotionPerformance: (startDate: Date, endDate: Date) =>
+      [
+        ...queryKeys.sales.all,
+        'promotionPerformance',
+        startDate.toISOString(),
+        endDate.toISOString(),
+      ] as const,
+    orderDiscountAnalytics: (startDate: Date, endDate: Date) =>
+      [
+        ...queryKeys.sales.all,
+        'orderDiscountAnalytics',
+        startDate.toISOString(),
+        endDate.toISOString(),
+      ] as const,
+    taxSummary: (startDate: Date, endDate: Date) =>
+      [
+        ...queryKeys.sales.all,
+        'taxSummary',
+        startDate.toISOString(),
+        endDate.toISOString(),
+      ] as const,
+    staffSummary: (startDate: Date, endDate: Date) =>
+      [
+        ...queryKeys.sales.all,
+        'staffSummary',
+        startDate.toISOString(),
+        endDate.toISOString(),
+      ] as const,
     summary: (searchQuery?: string, customerId?: string) =>
       [...queryKeys.sales.all, 'summary', searchQuery, customerId] as const,
     summaryByDateRange: (
@@ -207,9 +313,71 @@ export const queryKeys = {
       ] as const,
   },
 
+  // Held carts
+  heldCarts: {
+    all: ['heldCarts'] as const,
+    lists: () => [...queryKeys.heldCarts.all, 'list'] as const,
+  },
+
+  // Cash drawer shifts
+  shifts: {
+    all: ['shifts'] as const,
+    lists: () => [...queryKeys.shifts.all, 'list'] as const,
+    open: () => [...queryKeys.shifts.all, 'open'] as const,
+    report: (shiftId: string) =>
+      [...queryKeys.shifts.all, 'report', shiftId] as const,
+  },
+
+  // Staff
+  staff: {
+    all: ['staff'] as const,
+    list: (includeInactive: boolean) =>
+      [...queryKeys.staff.all, 'list', includeInactive] as const,
+  },
+
+  // Purchase orders and supplier payables
+  purchaseOrders: {
+    all: ['purchaseOrders'] as const,
+    lists: () => [...queryKeys.purchaseOrders.all, 'list'] as const,
+    list: (status?: PurchaseOrderStatus, supplierId?: string) =>
+      [...queryKeys.purchaseOrders.lists(), { status, supplierId }] as const,
+    detail: (id: string) =>
+      [...queryKeys.purchaseOrders.all, 'detail', id] as const,
+    items: (id: string) =>
+      [...queryKeys.purchaseOrders.all, 'items', id] as const,
+    suggestions: () =>
+      [...queryKeys.purchaseOrders.all, 'suggestions'] as const,
+    payables: (supplierId?: string) =>
+      [...queryKeys.purchaseOrders.all, 'payables', supplierId] as const,
+    payments: (supplierId: string) =>
+      [...queryKeys.purchaseOrders.all, 'payments', supplierId] as const,
+  },
+
+  // Audit log
+  auditLog: {
+    all: ['auditLog'] as const,
+    list: (filters: AuditLogFilters) =>
+      [...queryKeys.auditLog.all, 'list', filters] as const,
+    verification: () => [...queryKeys.auditLog.all, 'verification'] as const,
+  },
+
+  // Sync
+  sync: {
+    all: ['sync'] as const,
+    conflicts: () => [...queryKeys.sync.all, 'conflicts'] as const,
+  },
+
   // Analytics
   analytics: {
     all: ['analytics'] as const,
+    variantSales: (startDate: Date, endDate: Date, parentId?: string) =>
+      [
+        ...queryKeys.analytics.all,
+        'variantSales',
+        startDate.toISOString(),
+        endDate.toISOString(),
+        parentId,
+      ] as const,
     custom: (startDate: Date, endDate: Date) =>
       [
         ...queryKeys.analytics.all,
@@ -355,6 +523,99 @@ export const useCategoriesWithCounts = () => {
   });
 };
 
+// ============ TAX QUERIES ============
+export const useTaxRates = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.taxRates.lists(),
+    queryFn: () => db!.getTaxRates(),
+    enabled: isReady && !!db,
+    staleTime: 15 * 60 * 1000, // 15 minutes - tax rates rarely change
+    gcTime: 30 * 60 * 1000,
+  });
+};
+
+export const useTaxSummary = (startDate: Date, endDate: Date) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.sales.taxSummary(startDate, endDate),
+    queryFn: () => db!.getTaxSummaryByDateRange(startDate, endDate),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+// ============ PROMOTION QUERIES ============
+export const usePromotions = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.promotions.lists(),
+    queryFn: () => db!.getPromotions(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useSalePromotions = (saleId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery<SalePromotion[]>({
+    queryKey: queryKeys.sales.promotions(saleId),
+    queryFn: () => db!.getSalePromotions(saleId),
+    enabled: isReady && !!db && saleId.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes - sale promotions don't change
+  });
+};
+
+export const usePromotionPerformance = (startDate: Date, endDate: Date) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.sales.promotionPerformance(startDate, endDate),
+    queryFn: () => db!.getPromotionPerformance(startDate, endDate),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+// ============ COUPON QUERIES ============
+export const useCoupons = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.coupons.lists(),
+    queryFn: () => db!.getCoupons(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+// ============ RECEIPT TEMPLATE QUERIES ============
+export const useReceiptTemplates = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.receiptTemplates.lists(),
+    queryFn: () => db!.getReceiptTemplates(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useOrderDiscountAnalytics = (startDate: Date, endDate: Date) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.sales.orderDiscountAnalytics(startDate, endDate),
+    queryFn: () => db!.getOrderDiscountAnalytics(startDate, endDate),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
 // ============ SUPPLIER QUERIES ============
 export const useSuppliers = (
   searchQuery?: string,
@@ -517,6 +778,199 @@ export const useSaleItems = (saleId: string) => {
   });
 };
 
+export const useSaleReturns = (saleId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.sales.returns(saleId),
+    queryFn: () => db!.getSaleReturns(saleId),
+    enabled: isReady && !!db && saleId.length > 0,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+};
+
+export const useHeldCarts = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.heldCarts.lists(),
+    queryFn: () => db!.getHeldCarts(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes - only changes through mutations below
+  });
+};
+
+// Cash drawer shift hooks
+export const useOpenShift = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.shifts.open(),
+    queryFn: () => db!.getOpenShift(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes - only changes through shift mutations
+  });
+};
+
+export const useShifts = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.shifts.lists(),
+    queryFn: () => db!.getShifts(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useShiftReport = (shiftId?: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.shifts.report(shiftId || ''),
+    queryFn: () => db!.getShiftReport(shiftId!),
+    enabled: isReady && !!db && !!shiftId,
+    staleTime: 30 * 1000, // 30 seconds - X report should reflect recent sales
+  });
+};
+
+export const useStaffMembers = (includeInactive: boolean = false) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.staff.list(includeInactive),
+    queryFn: () => db!.getStaffMembers(includeInactive),
+    enabled: isReady && !!db,
+    staleTime: 10 * 60 * 1000, // 10 minutes - only changes through staff mutations
+  });
+};
+
+export const useStaffSalesSummary = (startDate: Date, endDate: Date) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.sales.staffSummary(startDate, endDate),
+    queryFn: () => db!.getStaffSalesSummaryByDateRange(startDate, endDate),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+// Purchase order hooks
+export const usePurchaseOrders = (
+  status?: PurchaseOrderStatus,
+  supplierId?: string,
+) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.list(status, supplierId),
+    queryFn: () => db!.getPurchaseOrders({ status, supplierId }),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+export const usePurchaseOrder = (id: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.detail(id),
+    queryFn: () => db!.getPurchaseOrderById(id),
+    enabled: isReady && !!db && !!id,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+export const usePurchaseOrderItems = (id: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.items(id),
+    queryFn: () => db!.getPurchaseOrderItems(id),
+    enabled: isReady && !!db && !!id,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+export const usePurchaseOrderSuggestions = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.suggestions(),
+    queryFn: () => db!.getPurchaseOrderSuggestions(),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes - depends on sales and stock
+  });
+};
+
+export const useSupplierPayables = (supplierId?: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.payables(supplierId),
+    queryFn: () => db!.getSupplierPayables(supplierId),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+export const useSupplierPayments = (supplierId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.payments(supplierId),
+    queryFn: () => db!.getSupplierPayments(supplierId),
+    enabled: isReady && !!db && !!supplierId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+// Audit log hooks
+export const useInfiniteAuditLog = (
+  filters: AuditLogFilters,
+  pageSize: number = 30,
+) => {
+  const { db, isReady } = useDatabase();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.auditLog.list(filters),
+    queryFn: ({ pageParam = 1 }) =>
+      db!.getAuditLog(filters, pageParam, pageSize),
+    enabled: isReady && !!db,
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, allPages, lastPageParam) => {
+      if (lastPage.length < pageSize) {
+        return undefined;
+      }
+      return lastPageParam + 1;
+    },
+    staleTime: 0, // Written by most mutations, so always refetch on open
+  });
+};
+
+export const useAuditLogVerification = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.auditLog.verification(),
+    queryFn: () => db!.verifyAuditLogChain(),
+    enabled: isReady && !!db,
+    staleTime: 0,
+  });
+};
+
+export const useSyncConflicts = (limit: number = 50) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.sync.conflicts(),
+    queryFn: () => db!.getSyncConflicts(limit),
+    enabled: isReady && !!db,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+};
+
 // Sales summary hooks for accurate totals
 export const useSalesSummary = (searchQuery?: string, customerId?: string) => {
   const { db, isReady } = useDatabase();
@@ -814,11 +1268,20 @@ export const useProductMutations = () => {
     },
   });
 
+  const assignInternalBarcodes = useMutation({
+    mutationFn: (productIds: string[]) =>
+      db!.assignInternalBarcodes(productIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+
   return {
     addProduct,
     updateProduct,
     deleteProduct,
     updateProductWithBulkPricing,
+    assignInternalBarcodes,
   };
 };
 
@@ -854,21 +1317,181 @@ export const useCategoryMutations = () => {
   return { addCategory, updateCategory, deleteCategory };
 };
 
-export const useSaleMutations = () => {
+export const useTaxRateMutations = () => {
   const queryClient = useQueryClient();
   const { db } = useDatabase();
 
-  const addSale = useMutation({
-    mutationFn: ({
-      saleData,
-      saleItems,
-    }: {
-      saleData: any;
-      saleItems: any[];
-    }) => db!.addSale(saleData, saleItems),
+  const addTaxRate = useMutation({
+    mutationFn: (
+      taxRateData: Omit<TaxRate, 'id' | 'created_at' | 'updated_at'>,
+    ) => db!.addTaxRate(taxRateData),
     onSuccess: () => {
-      // Invalidate all related queries including chart data
-      queryClient.invalidateQueries({ queryKey: queryKeys.sales.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.taxRates.all });
+    },
+  });
+
+  const updateTaxRate = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<TaxRate> }) =>
+      db!.updateTaxRate(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taxRates.all });
+    },
+  });
+
+  const deleteTaxRate = useMutation({
+    mutationFn: (id: string) => db!.deleteTaxRate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taxRates.all });
+    },
+  });
+
+  return { addTaxRate, updateTaxRate, deleteTaxRate };
+};
+
+export const usePromotionMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const addPromotion = useMutation({
+    mutationFn: (
+      promotionData: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>,
+    ) => db!.addPromotion(promotionData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.all });
+    },
+  });
+
+  const updatePromotion = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>;
+    }) => db!.updatePromotion(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.all });
+    },
+  });
+
+  const deletePromotion = useMutation({
+    mutationFn: (id: string) => db!.deletePromotion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.all });
+    },
+  });
+
+  return { addPromotion, updatePromotion, deletePromotion };
+};
+
+export const useCouponMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const addCoupon = useMutation({
+    mutationFn: (
+      couponData: Omit<
+        Coupon,
+        'id' | 'created_at' | 'updated_at' | 'use_count'
+      >,
+    ) => db!.addCoupon(couponData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.coupons.all });
+    },
+  });
+
+  const updateCoupon = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Omit<Coupon, 'id' | 'created_at' | 'updated_at' | 'use_count'>;
+    }) => db!.updateCoupon(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.coupons.all });
+    },
+  });
+
+  const deleteCoupon = useMutation({
+    mutationFn: (id: string) => db!.deleteCoupon(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.coupons.all });
+    },
+  });
+
+  return { addCoupon, updateCoupon, deleteCoupon };
+};
+
+export const useReceiptTemplateMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const addReceiptTemplate = useMutation({
+    mutationFn: (
+      templateData: Omit<
+        CustomReceiptTemplate,
+        'id' | 'created_at' | 'updated_at'
+      >,
+    ) => db!.addReceiptTemplate(templateData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.receiptTemplates.all,
+      });
+    },
+  });
+
+  const updateReceiptTemplate = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Omit<CustomReceiptTemplate, 'id' | 'created_at' | 'updated_at'>;
+    }) => db!.updateReceiptTemplate(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.receiptTemplates.all,
+      });
+    },
+  });
+
+  const deleteReceiptTemplate = useMutation({
+    mutationFn: (id: string) => db!.deleteReceiptTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.receiptTemplates.all,
+      });
+    },
+  });
+
+  return { addReceiptTemplate, updateReceiptTemplate, deleteReceiptTemplate };
+};
+
+export const useSaleMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const addSale = useMutation({
+    mutationFn: ({
+      saleData,
+      saleItems,
+      salePromotions,
+      couponRedemption,
+    }: {
+      saleData: any;
+      saleItems: any[];
+      salePromotions?: Omit<SalePromotion, 'id' | 'sale_id' | 'created_at'>[];
+      couponRedemption?: Omit<
+        CouponRedemption,
+        'id' | 'sale_id' | 'created_at'
+      >;
+    }) => db!.addSale(saleData, saleItems, salePromotions, couponRedemption),
+    onSuccess: () => {
+      // Invalidate all related queries including chart data
+      queryClient.invalidateQueries({ queryKey: queryKeys.sales.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.coupons.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
@@ -887,10 +1510,13 @@ export const useSaleMutations = () => {
     onSuccess: () => {
       // Invalidate all related queries including chart data
       queryClient.invalidateQueries({ queryKey: queryKeys.sales.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.debtPayments.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.coupons.all });
 
       // Force refresh chart data immediately
       queryClient.refetchQueries({
@@ -903,6 +1529,239 @@ export const useSaleMutations = () => {
   return { addSale, deleteSale };
 };
 
+export const useSaleReturnMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const createSaleReturn = useMutation({
+    mutationFn: ({
+      saleId,
+      items,
+      refund_method,
+      reason,
+    }: {
+      saleId: string;
+      items: { sale_item_id: string; quantity: number; restock: boolean }[];
+      refund_method: string;
+      reason?: string;
+    }) => db!.createSaleReturn(saleId, { items, refund_method, reason }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.sales.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.debtPayments.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.stockMovements.all,
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+
+  return { createSaleReturn };
+};
+
+export const useHeldCartMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const holdCart = useMutation({
+    mutationFn: (cart: {
+      label: string;
+      customer_id?: string;
+      note?: string;
+      items: HeldCartItem[];
+      total: number;
+    }) => db!.holdCart(cart),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.heldCarts.all });
+    },
+  });
+
+  const resumeHeldCart = useMutation({
+    mutationFn: (id: string) => db!.resumeHeldCart(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.heldCarts.all });
+    },
+  });
+
+  const discardHeldCart = useMutation({
+    mutationFn: (id: string) => db!.deleteHeldCart(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.heldCarts.all });
+    },
+  });
+
+  return { holdCart, resumeHeldCart, discardHeldCart };
+};
+
+export const useShiftMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const openShift = useMutation({
+    mutationFn: ({
+      openingFloat,
+      note,
+    }: {
+      openingFloat: number;
+      note?: string;
+    }) => db!.openShift(openingFloat, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
+    },
+  });
+
+  const addCashMovement = useMutation({
+    mutationFn: (movement: {
+      type: CashMovement['type'];
+      amount: number;
+      reason?: string;
+    }) => db!.addCashMovement(movement),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
+    },
+  });
+
+  const closeShift = useMutation({
+    mutationFn: ({
+      shiftId,
+      countedCash,
+      note,
+    }: {
+      shiftId: string;
+      countedCash: number;
+      note?: string;
+    }) => db!.closeShift(shiftId, countedCash, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
+    },
+  });
+
+  return { openShift, addCashMovement, closeShift };
+};
+
+export const useStaffMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const addStaff = useMutation({
+    mutationFn: (staff: { name: string; role: StaffRole; pin: string }) =>
+      db!.addStaff(staff),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.staff.all });
+    },
+  });
+
+  const updateStaff = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<{
+        name: string;
+        role: StaffRole;
+        pin: string;
+        is_active: boolean;
+      }>;
+    }) => db!.updateStaff(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.staff.all });
+    },
+  });
+
+  return { addStaff, updateStaff };
+};
+
+export const usePurchaseOrderMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const invalidatePurchaseOrders = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders.all });
+  };
+
+  const createPurchaseOrder = useMutation({
+    mutationFn: (purchaseOrder: {
+      supplier_id: string;
+      note?: string;
+      expected_date?: string;
+      items: { product_id: string; quantity: number; unit_cost: number }[];
+    }) => db!.createPurchaseOrder(purchaseOrder),
+    onSuccess: invalidatePurchaseOrders,
+  });
+
+  const updatePurchaseOrder = useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: {
+        note?: string;
+        expected_date?: string;
+        items: { product_id: string; quantity: number; unit_cost: number }[];
+      };
+    }) => db!.updatePurchaseOrder(id, data),
+    onSuccess: invalidatePurchaseOrders,
+  });
+
+  const markPurchaseOrderSent = useMutation({
+    mutationFn: (id: string) => db!.markPurchaseOrderSent(id),
+    onSuccess: invalidatePurchaseOrders,
+  });
+
+  const cancelPurchaseOrder = useMutation({
+    mutationFn: (id: string) => db!.cancelPurchaseOrder(id),
+    onSuccess: invalidatePurchaseOrders,
+  });
+
+  const deletePurchaseOrder = useMutation({
+    mutationFn: (id: string) => db!.deletePurchaseOrder(id),
+    onSuccess: invalidatePurchaseOrders,
+  });
+
+  const receivePurchaseOrder = useMutation({
+    mutationFn: ({
+      id,
+      lines,
+    }: {
+      id: string;
+      lines: { item_id: string; quantity: number; unit_cost: number }[];
+    }) => db!.receivePurchaseOrder(id, lines),
+    onSuccess: () => {
+      invalidatePurchaseOrders();
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockMovements.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all });
+    },
+  });
+
+  const addSupplierPayment = useMutation({
+    mutationFn: (payment: {
+      supplier_id: string;
+      purchase_order_id?: string | null;
+      amount: number;
+      payment_method: string;
+      note?: string;
+    }) => db!.addSupplierPayment(payment),
+    onSuccess: invalidatePurchaseOrders,
+  });
+
+  return {
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    markPurchaseOrderSent,
+    cancelPurchaseOrder,
+    deletePurchaseOrder,
+    receivePurchaseOrder,
+    addSupplierPayment,
+  };
+};
+
 export const useExpenseMutations = () => {
   const queryClient = useQueryClient();
   const { db } = useDatabase();
@@ -913,14 +1772,18 @@ export const useExpenseMutations = () => {
       amount,
       description,
       date,
+      paidFromDrawer,
     }: {
       category_id: string;
       amount: number;
       description: string;
       date: string;
-    }) => db!.addExpense(category_id, amount, description, date),
+      paidFromDrawer?: boolean;
+    }) =>
+      db!.addExpense(category_id, amount, description, date, paidFromDrawer),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.expenses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
 
       // Force refresh chart data immediately
@@ -947,6 +1810,7 @@ export const useExpenseMutations = () => {
     }) => db!.updateExpense(id, category_id, amount, description, date),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.expenses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
 
       // Force refresh chart data immediately
@@ -961,6 +1825,7 @@ export const useExpenseMutations = () => {
     mutationFn: (id: string) => db!.deleteExpense(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.expenses.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
 
       // Force refresh chart data immediately
@@ -1150,6 +2015,89 @@ export const useCustomerMutations = () => {
   };
 };
 
+// ============ DEBT PAYMENT QUERIES ============
+export const useCustomerDebtBalance = (customerId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.customers.debtBalance(customerId),
+    queryFn: () => db!.getCustomerDebtBalance(customerId),
+    enabled: isReady && !!db && customerId.length > 0,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+};
+
+export const useCustomerDebtStatement = (customerId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.customers.debtStatement(customerId),
+    queryFn: () => db!.getCustomerDebtStatement(customerId),
+    enabled: isReady && !!db && customerId.length > 0,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+};
+
+export const useSaleDebtBalance = (saleId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.debtPayments.saleBalance(saleId),
+    queryFn: () => db!.getSaleDebtBalance(saleId),
+    enabled: isReady && !!db && saleId.length > 0,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+};
+
+export const useDebtPayments = (filters?: {
+  customerId?: string;
+  saleId?: string;
+}) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.debtPayments.list(filters),
+    queryFn: () => db!.getDebtPayments(filters),
+    enabled: isReady && !!db,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+};
+
+export const useDebtPaymentMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const invalidateDebtQueries = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.debtPayments.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.shifts.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+  };
+
+  const recordDebtPayment = useMutation({
+    mutationFn: (
+      payment: Pick<
+        DebtPayment,
+        'customer_id' | 'sale_id' | 'amount' | 'payment_method' | 'note'
+      > & { payment_date?: string },
+    ) => db!.recordDebtPayment(payment),
+    onSuccess: invalidateDebtQueries,
+  });
+
+  const voidDebtPayment = useMutation({
+    mutationFn: ({
+      paymentId,
+      reason,
+    }: {
+      paymentId: string;
+      reason?: string;
+    }) => db!.voidDebtPayment(paymentId, reason),
+    onSuccess: invalidateDebtQueries,
+  });
+
+  return { recordDebtPayment, voidDebtPayment };
+};
+
 // ============ CUSTOMER ANALYTICS QUERIES ============
 export const useCustomerPurchasePatterns = (customerId: string) => {
   const { db, isReady } = useDatabase();
@@ -1199,6 +2147,64 @@ export const useCustomerAnalytics = (startDate: Date, endDate: Date) => {
   });
 };
 
+// ============ LOYALTY QUERIES ============
+export const useLoyaltySettings = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.loyalty.settings(),
+    queryFn: () => db!.getLoyaltySettings(),
+    enabled: isReady && !!db,
+    staleTime: 10 * 60 * 1000, // 10 minutes - only changed from settings
+  });
+};
+
+export const useLoyaltySettingsMutation = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  return useMutation({
+    mutationFn: (settings: LoyaltySettings) =>
+      db!.updateLoyaltySettings(settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loyalty.all });
+    },
+  });
+};
+
+export const useCustomerLoyalty = (customerId?: string | null) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.customers.loyalty(customerId || ''),
+    queryFn: () => db!.getCustomerLoyalty(customerId!),
+    enabled: isReady && !!db && !!customerId,
+    staleTime: 60 * 1000, // 1 minute - changes with every sale
+  });
+};
+
+export const useLoyaltyLedger = (customerId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.customers.loyaltyLedger(customerId),
+    queryFn: () => db!.getLoyaltyLedger(customerId),
+    enabled: isReady && !!db && customerId.length > 0,
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+export const useLoyaltyTotals = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.customers.loyaltyTotals(),
+    queryFn: () => db!.getLoyaltyTotals(),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
 // ============ STOCK MOVEMENT ANALYTICS QUERIES ============
 export const useStockMovementTrends = (startDate?: Date, endDate?: Date) => {
   const { db, isReady } = useDatabase();
@@ -1639,6 +2645,151 @@ export const useTotalInventoryValue = (categoryFilter?: string) => {
   });
 };
 
+// ============ INVENTORY COSTING HOOKS ============
+export const useInventoryValuation = (categoryFilter?: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.inventory.valuation(categoryFilter),
+    queryFn: () => db!.getInventoryValuation(categoryFilter),
+    enabled: isReady && !!db,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+export const useCostingMethodMutation = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  return useMutation({
+    mutationFn: (method: CostingMethod) => db!.changeCostingMethod(method),
+    onSuccess: () => {
+      // Switching method reprices products and revalues stock
+      queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: ['totalInventoryValue'] });
+    },
+  });
+};
+
+// ============ STOCK LEDGER HOOKS ============
+export const useStockReconciliation = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.inventory.reconciliation(),
+    queryFn: () => db!.getStockReconciliation(),
+    enabled: isReady && !!db,
+    staleTime: 60 * 1000, // 1 minute - changes whenever a sync merges sales
+  });
+};
+
+export const useAllowNegativeStock = () => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.inventory.negativeStock(),
+    queryFn: () => db!.getAllowNegativeStock(),
+    enabled: isReady && !!db,
+    staleTime: 10 * 60 * 1000, // 10 minutes - only changed from settings
+  });
+};
+
+export const useAllowNegativeStockMutation = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  return useMutation({
+    mutationFn: (allow: boolean) => db!.changeAllowNegativeStock(allow),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.inventory.negativeStock(),
+      });
+    },
+  });
+};
+
+// ============ PRODUCT VARIANT HOOKS ============
+export const useProductVariants = (parentId: string) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.products.variants(parentId),
+    queryFn: () => db!.getProductVariants(parentId),
+    enabled: isReady && !!db && !!parentId,
+    staleTime: 3 * 60 * 1000, // 3 minutes - stock changes with every sale
+  });
+};
+
+export const useVariantSalesRollup = (
+  startDate: Date,
+  endDate: Date,
+  parentId?: string,
+) => {
+  const { db, isReady } = useDatabase();
+
+  return useQuery({
+    queryKey: queryKeys.analytics.variantSales(startDate, endDate, parentId),
+    queryFn: () => db!.getVariantSalesRollup(startDate, endDate, parentId),
+    enabled: isReady && !!db,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useProductVariantMutations = () => {
+  const queryClient = useQueryClient();
+  const { db } = useDatabase();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.inventory.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+  };
+
+  const addVariant = useMutation({
+    mutationFn: ({
+      parentId,
+      variant,
+    }: {
+      parentId: string;
+      variant: {
+        options: VariantOptions;
+        barcode?: string;
+        price: number;
+        cost: number;
+        quantity: number;
+        min_stock: number;
+      };
+    }) => db!.addProductVariant(parentId, variant),
+    onSuccess: invalidate,
+  });
+
+  const updateVariant = useMutation({
+    mutationFn: ({
+      id,
+      changes,
+    }: {
+      id: string;
+      changes: {
+        options?: VariantOptions;
+        barcode?: string;
+        price?: number;
+        cost?: number;
+        quantity?: number;
+        min_stock?: number;
+      };
+    }) => db!.updateProductVariant(id, changes),
+    onSuccess: invalidate,
+  });
+
+  const deleteVariant = useMutation({
+    mutationFn: (id: string) => db!.deleteProduct(id),
+    onSuccess: invalidate,
+  });
+
+  return { addVariant, updateVariant, deleteVariant };
+};
+
 // ============ UTILITY HOOKS ============
 export const useInvalidateQueries = () => {
   const queryClient = useQueryClient();
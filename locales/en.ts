@@ -238,6 +238,8 @@ export const en = {
     saleNote: 'Sale Note',
     addNote: 'Add Note (Optional)',
     recordingPayment: 'Recording payment...',
+    stockChangedAtCheckout:
+      'Not enough stock for {{name}}. Only {{quantity}} left after syncing with other devices.',
   },
   printing: {
     title: 'Print Receipt',
@@ -728,6 +730,8 @@ export const en = {
     categoryNameRequired: 'Category name is required',
     description: 'Description',
     descriptionPlaceholder: 'Optional description',
+    paidFromDrawer: 'Paid from cash drawer',
+    paidFromDrawerHint: 'Deducts this expense from the open shift',
   },
   reports: {
     title: 'Reports',
@@ -1191,6 +1195,44 @@ export const en = {
       gallery: 'Choose from Gallery',
       cancel: 'Cancel',
     },
+    receiptQr: 'Receipt QR code',
+    receiptQrModes: {
+      none: 'None',
+      voucher: 'Voucher link',
+      payment: 'Payment QR',
+    },
+    receiptQrPaymentPlaceholder: 'Paste your payment QR content',
+    receiptQrVoucherHint:
+      '{voucherId} is replaced with the receipt number when printing',
+    receiptQrPaymentHint:
+      'Printed on every sale receipt so customers can scan to pay',
+    thermalPrinter: 'Thermal Printer',
+    paperWidth: 'Paper width',
+    paperWidths: {
+      '58mm': '58 mm',
+      '80mm': '80 mm',
+    },
+    charsPerLine: 'Characters per line',
+    codePage: 'Code page',
+    codePages: {
+      pc437: 'PC437 (USA)',
+      pc858: 'PC858 (Euro)',
+      wpc1252: 'Windows-1252',
+    },
+    cutCommand: 'Paper cut',
+    cutCommands: {
+      full: 'Full cut',
+      partial: 'Partial cut',
+      feed_partial: 'Feed and partial cut',
+      none: 'No cutter',
+    },
+    renderMode: 'Print mode',
+    renderModes: {
+      text: 'Text',
+      bitmap: 'Bitmap',
+    },
+    renderModeHint:
+      'Bitmap prints receipts as images so Myanmar text comes out correctly. Text is faster but only prints Latin characters.',
   },
   languageSettings: {
     title: 'Language Settings',
@@ -1257,6 +1299,12 @@ export const en = {
     sharingNotAvailable: 'Sharing not available on this device',
     itemsProcessed: 'items processed',
     pleaseWait: 'Please wait while we prepare your export...',
+    encryptExport: 'Encrypt with passphrase',
+    encryptExportDesc:
+      'Protect customer phone numbers, debts and sales history in the file. The passphrase is needed to import it.',
+    exportChanges: 'Export Changes Only',
+    exportChangesDesc:
+      'Records added, changed or deleted since the export of {{date}}. Import it together with that export.',
   },
   dataImport: {
     title: 'Data Import',
@@ -1355,6 +1403,35 @@ export const en = {
     useImportDataDesc: 'Replace existing records with imported data',
     keepExistingDesc: 'Keep existing records, skip conflicting imports',
     skipConflictsDesc: 'Skip these conflicts and continue with import',
+    corruptedFile: 'File is damaged',
+    corruptedFileDesc:
+      'The passphrase is correct, but this encrypted file is damaged or has been changed. Export a new copy and try again.',
+    importSpreadsheet: 'Import from Spreadsheet',
+    importSpreadsheetDesc:
+      'Add products, customers or suppliers from a CSV or Excel file',
+    importChain: 'Import Export with Changes',
+    importChainDesc:
+      'Select a full export and the change exports taken after it',
+    confirmChainImport:
+      'The full export and {{count}} change export(s) will be applied in order.',
+    chainImportComplete:
+      'Imported {{imported}}, updated {{updated}}, deleted {{deleted}} records',
+    chainInvalid: 'Files cannot be imported together',
+    chainReadFailed: 'One of the selected files is not an export file.',
+    chainErrors: {
+      not_linked:
+        'A selected file is not a full or change export from this version of the app.',
+      no_full_export:
+        'Select the full export the change exports were taken from.',
+      several_full_exports: 'Select only one full export.',
+      different_chains:
+        'Some change exports were taken after a different full export.',
+      duplicate_link: 'Change export {{number}} was selected twice.',
+      missing_link:
+        'Change export {{number}} is missing. Select every change export up to the latest one.',
+      corrupted_link:
+        'Export {{number}} is damaged or has been changed. Nothing was imported.',
+    },
   },
   about: {
     title: 'About',
@@ -1844,6 +1921,872 @@ export const en = {
     noDebtSales: 'No debt sales found',
     customersWithDebt: 'Customers with Debt',
     unpaid: 'Unpaid',
+    paymentAmount: 'Payment Amount',
+    invalidPaymentAmount:
+      'Enter an amount greater than zero and no more than the outstanding debt',
+    amountExceedsOutstanding: 'Amount exceeds the outstanding debt',
+    remainingAfterPayment: 'Remaining after this payment: {{amount}}',
+    paymentNote: 'Note (Optional)',
+    paymentNotePlaceholder: 'e.g. Paid half, rest next week',
+    failedToRecordPayment: 'Failed to record payment',
+    debtPayments: 'Debt Payments',
+    noPaymentsYet: 'No payments recorded yet',
+    voidPayment: 'Void Payment',
+    voidPaymentConfirm:
+      'Void this payment? The amount will be added back to the outstanding debt.',
+    paymentVoided: 'Payment voided',
+    failedToVoidPayment: 'Failed to void payment',
+    statement: 'Statement',
+    charge: 'Debt Sale',
+    payment: 'Payment',
+    balance: 'Balance',
+  },
+  returns: {
+    returns: 'Returns',
+    returnItems: 'Return Items',
+    returnCredit: 'Return',
+    creditNote: 'CREDIT NOTE',
+    originalReceipt: 'Original Receipt',
+    reason: 'Reason',
+    reasonPlaceholder: 'Why are these items being returned?',
+    refundTotal: 'REFUND',
+    refundMethod: 'Refund Method',
+    restock: 'Return to stock',
+    writtenOff: 'written off',
+    availableToReturn: '{{quantity}} available to return',
+    nothingToReturn: 'All items in this sale have already been returned',
+    selectItemsToReturn: 'Select at least one item to return',
+    returnRecorded: 'Return recorded successfully',
+    failedToRecordReturn: 'Failed to record return',
+    refundExceedsDebt:
+      'Refund exceeds the outstanding debt of {{amount}}. Choose another refund method.',
+    confirmReturn: 'Confirm Return',
+    printCreditReceipt: 'Print Credit Receipt',
+    netTotal: 'Net Total',
+  },
+  tax: {
+    taxRates: 'Tax Rates',
+    taxRate: 'Tax Rate',
+    taxReport: 'Tax Report',
+    addTaxRate: 'Add Tax Rate',
+    editTaxRate: 'Edit Tax Rate',
+    deleteTaxRate: 'Delete Tax Rate',
+    taxName: 'Tax Name',
+    taxNamePlaceholder: 'e.g. Commercial Tax',
+    ratePercent: 'Rate (%)',
+    pricesIncludeTax: 'Prices include tax',
+    inclusiveHint: 'Tax is already included in the selling price',
+    exclusiveHint: 'Tax is added on top of the selling price',
+    inclusive: 'Inclusive',
+    exclusive: 'Exclusive',
+    included: 'included',
+    noTax: 'No tax',
+    useCategoryRate: 'Use category rate',
+    taxExempt: 'Tax exempt',
+    noTaxRates: 'No tax rates yet',
+    addFirstTaxRate: 'Add a tax rate and assign it to categories or products',
+    enterTaxName: 'Please enter a tax name',
+    invalidRate: 'Tax rate must be between 0 and 100',
+    taxRateAdded: 'Tax rate added',
+    taxRateUpdated: 'Tax rate updated',
+    taxRateDeleted: 'Tax rate deleted',
+    failedToSaveTaxRate: 'Failed to save tax rate',
+    taxRateInUse:
+      'This tax rate is assigned to categories or products. Unassign it first.',
+    areYouSure: 'Are you sure you want to delete',
+    taxCollected: 'Tax Collected',
+    taxRefunded: 'Tax Refunded',
+    netTax: 'Net Tax',
+    taxableAmount: 'Taxable',
+    byRate: 'By Tax Rate',
+    noTaxData: 'No tax collected in this period',
+  },
+  heldCarts: {
+    heldCarts: 'Held Carts',
+    holdCurrentCart: 'Hold Current Cart',
+    label: 'Label',
+    labelPlaceholder: 'e.g. Table 3 or customer name',
+    note: 'Note',
+    notePlaceholder: 'Optional note for this cart',
+    enterLabel: 'Please enter a label for this cart',
+    defaultLabel: 'Cart {{number}}',
+    noHeldCarts: 'No held carts',
+    itemCount: '{{count}} items',
+    cartHeld: 'Cart held',
+    cartResumed: 'Cart resumed',
+    cartDiscarded: 'Held cart discarded',
+    discard: 'Discard',
+    discardHeldCart: 'Discard Held Cart',
+    discardConfirm: 'Discard held cart "{{label}}"? This cannot be undone.',
+    cartNotEmpty: 'Cart Not Empty',
+    clearCartFirst:
+      'Complete, hold or clear the current cart before resuming another one.',
+    missingProducts:
+      '{{count}} product(s) from this cart no longer exist and were skipped',
+    failedToHold: 'Failed to hold cart',
+    failedToResume: 'Failed to resume cart',
+    failedToDiscard: 'Failed to discard held cart',
+  },
+  shifts: {
+    cashDrawer: 'Cash Drawer',
+    openShift: 'Open Shift',
+    openShiftHint:
+      'Count the cash in the drawer and enter it as the opening float. Sales made while the shift is open are added to its report.',
+    openingFloat: 'Opening Float',
+    openingNote: 'Opening Note',
+    openingNotePlaceholder: 'Optional note, e.g. who opened the drawer',
+    enterOpeningFloat: 'Please enter the opening float',
+    shiftOpened: 'Shift opened',
+    failedToOpenShift: 'Failed to open shift',
+    shiftOpen: 'Shift Open',
+    openedAt: 'Opened',
+    closeShift: 'Close Shift',
+    closingNote: 'Closing Note',
+    closingNotePlaceholder: 'Optional note, e.g. reason for a difference',
+    shiftClosed: 'Shift closed',
+    failedToCloseShift: 'Failed to close shift',
+    payIn: 'Pay In',
+    payOut: 'Pay Out',
+    payInHint: 'Cash added to the drawer, e.g. extra change',
+    payOutHint: 'Cash taken out of the drawer, e.g. a bank deposit',
+    recordPayIn: 'Record Pay In',
+    recordPayOut: 'Record Pay Out',
+    payInRecorded: 'Pay-in recorded',
+    payOutRecorded: 'Pay-out recorded',
+    failedToRecordMovement: 'Failed to record cash movement',
+    reason: 'Reason',
+    reasonPlaceholder: 'Optional reason',
+    xReport: 'X Report',
+    zReport: 'Z Report',
+    printXReport: 'Print X Report',
+    printZReport: 'Print Z Report',
+    reportPrinted: 'Report sent to printer',
+    failedToPrintReport: 'Failed to print report',
+    salesByPaymentMethod: 'Sales by Payment Method',
+    totalSales: 'Total Sales',
+    refunds: 'Refunds',
+    cashSales: 'Cash Sales',
+    debtCollected: 'Debt Collected',
+    payIns: 'Pay-ins',
+    payOuts: 'Pay-outs',
+    cashRefunds: 'Cash Refunds',
+    drawerExpenses: 'Expenses Paid',
+    cashMovements: 'Pay-ins & Pay-outs',
+    expectedCash: 'Expected Cash',
+    countedCash: 'Counted Cash',
+    short: 'Short',
+    over: 'Over',
+    pastShifts: 'Past Shifts',
+    noPastShifts: 'No closed shifts yet',
+  },
+  staff: {
+    title: 'Staff',
+    staffTab: 'Staff Accounts',
+    salesByStaff: 'Sales by Staff',
+    addStaff: 'Add Staff',
+    editStaff: 'Edit Staff',
+    name: 'Name',
+    namePlaceholder: 'e.g., Aung Aung',
+    role: 'Role',
+    pin: 'PIN',
+    pinPlaceholder: '4 to 6 digits',
+    pinKeepPlaceholder: 'Leave blank to keep the current PIN',
+    active: 'Active',
+    activeHint: 'Inactive staff cannot sign in',
+    inactive: 'Inactive',
+    you: 'you',
+    roles: {
+      owner: 'Owner',
+      manager: 'Manager',
+      cashier: 'Cashier',
+    },
+    roleHints: {
+      owner:
+        'Full access, including staff, settings, data import and deleting records',
+      manager: 'Products, stock, expenses, reports, refunds and data export',
+      cashier: 'Selling, the cash drawer, customers and sales history',
+    },
+    noStaff: 'No staff accounts yet',
+    addFirstStaff:
+      'Anyone using this device has full access. Add an owner account to require PIN sign-in.',
+    firstAccountOwner:
+      'The first account is the owner. PIN sign-in starts once it is saved.',
+    enterName: 'Please enter a name',
+    invalidPin: 'PIN must be 4 to 6 digits',
+    lastOwner: 'At least one active owner is required',
+    staffAdded: 'Staff added',
+    staffUpdated: 'Staff updated',
+    failedToSaveStaff: 'Failed to save staff',
+    signIn: 'Staff Sign In',
+    signInHint: 'Choose your name and enter your PIN',
+    unlock: 'Unlock',
+    wrongPin: 'Wrong PIN, try again',
+    signOut: 'Sign out',
+    accessDenied: 'Access Denied',
+    accessDeniedMessage: 'Your role ({{role}}) cannot open this screen.',
+    goToDashboard: 'Go to Dashboard',
+    cashier: 'Cashier',
+    recordedBy: 'Recorded by',
+    totalSales: 'Total Sales',
+    totalRevenue: 'Total Revenue',
+    saleCount: '{{count}} sales',
+    unassigned: 'No staff signed in',
+    noSalesData: 'No sales in this period',
+  },
+  auditLog: {
+    title: 'Audit Log',
+    export: 'Export audit log',
+    allRecords: 'All records',
+    allStaff: 'All staff',
+    noEntries: 'No audit entries',
+    noEntriesHint:
+      'Changes to products, sales, stock and bulk pricing appear here',
+    noEntriesToExport: 'There are no audit entries to export for these filters',
+    exportFailed: 'Failed to export audit log',
+    sharingNotAvailable: 'Sharing is not available on this device',
+    chainValid: 'Log verified: {{count}} entries, no edits or deletions found',
+    chainBroken: 'Log has been tampered with at entry #{{seq}}',
+    entities: {
+      product: 'Product',
+      sale: 'Sale',
+      stock_movement: 'Stock movement',
+      bulk_pricing: 'Bulk pricing',
+      import: 'Data import',
+      backup: 'Backup',
+      promotion: 'Promotion',
+      coupon: 'Coupon',
+      receipt_template: 'Receipt template',
+    },
+    actions: {
+      create: 'Created',
+      update: 'Updated',
+      delete: 'Deleted',
+      import: 'Imported',
+      restore: 'Restored',
+    },
+    periods: {
+      all: 'All time',
+      today: 'Today',
+      week: 'Last 7 days',
+      month: 'Last 30 days',
+    },
+  },
+  purchaseOrders: {
+    title: 'Purchase Orders',
+    newOrder: 'New Purchase Order',
+    editOrder: 'Edit Purchase Order',
+    supplier: 'Supplier',
+    selectSupplier: 'Select a supplier',
+    unknownSupplier: 'Unknown supplier',
+    items: 'Items',
+    addProduct: 'Add Product',
+    productAlreadyAdded: 'This product is already on the order',
+    quantity: 'Quantity',
+    unitCost: 'Unit Cost',
+    note: 'Note',
+    notePlaceholder: 'Delivery instructions or reference',
+    orderTotal: 'Order Total',
+    saveDraft: 'Save Draft',
+    addAtLeastOneItem: 'Add at least one product to the order',
+    enterValidQuantity: 'Enter a whole number quantity above zero',
+    draftCreated: 'Draft {{number}} created',
+    orderUpdated: 'Purchase order updated',
+    failedToSave: 'Failed to save purchase order',
+    allStatuses: 'All',
+    itemCount: '{{count}} items',
+    noOrders: 'No purchase orders',
+    noOrdersHint: 'Create an order or start from a reorder suggestion',
+    orderNotFound: 'Purchase order not found',
+    createdOn: 'Created {{date}}',
+    sentOn: 'Sent {{date}}',
+    receivedOn: 'Received {{date}}',
+    receivedValue: 'Received',
+    paid: 'Paid',
+    outstanding: 'Outstanding',
+    orderedAt: '{{quantity}} × {{cost}}',
+    receivedQuantity: '{{quantity}} received',
+    remainingQuantity: '{{quantity}} still to come',
+    markSent: 'Mark as Sent',
+    orderSent: 'Purchase order marked as sent',
+    cancelOrder: 'Cancel Order',
+    cancelOrderConfirm:
+      'Cancel this purchase order? Nothing has been received against it.',
+    orderCancelled: 'Purchase order cancelled',
+    deleteOrder: 'Delete Order',
+    deleteOrderConfirm: 'Delete this purchase order?',
+    orderDeleted: 'Purchase order deleted',
+    receiveGoods: 'Receive Goods',
+    receiveQuantity: 'Receiving',
+    remainingOfOrdered: '{{remaining}} of {{ordered}} still on order',
+    receiveTotal: 'Value Received',
+    confirmReceive: 'Receive into Stock',
+    enterReceiveQuantity: 'Enter a quantity for at least one item',
+    receiveExceedsRemaining:
+      'Only {{remaining}} of {{product}} is still on order',
+    fullyReceived: 'All goods received',
+    partiallyReceived: 'Goods received, the rest is still on order',
+    failedToReceive: 'Failed to receive goods',
+    payables: 'Payables',
+    totalPayable: 'Total owed to suppliers',
+    receivedAndPaid: 'Received {{received}} • Paid {{paid}}',
+    openOrders: '{{count}} open orders',
+    noPayables: 'Nothing owed to suppliers',
+    recordPayment: 'Record Payment',
+    paymentAmount: 'Payment Amount',
+    selectPaymentMethod: 'Payment Method',
+    paymentNotePlaceholder: 'Cheque or transfer reference',
+    invalidPaymentAmount: 'Enter a payment amount above zero',
+    paymentRecorded: 'Supplier payment recorded',
+    failedToRecordPayment: 'Failed to record payment',
+    suggestionsHint:
+      'Based on low stock predictions, less anything already on order.',
+    suggestionStock: 'Stock {{current}} • Min {{min}} • On order {{onOrder}}',
+    createDraft: 'Create Draft Order',
+    noSuggestions: 'No reorder suggestions',
+    noSuggestionsHint: 'Low stock products with a supplier will appear here',
+    tabs: {
+      orders: 'Orders',
+      suggestions: 'Suggestions',
+      payables: 'Payables',
+    },
+    statuses: {
+      draft: 'Draft',
+      sent: 'Sent',
+      partially_received: 'Partially Received',
+      received: 'Received',
+      cancelled: 'Cancelled',
+    },
+  },
+  inventoryValuation: {
+    title: 'Inventory Valuation',
+    totalValue: 'Stock Value',
+    unitsInStock: '{{quantity}} units across {{products}} products',
+    quantityAtCost: '{{quantity}} × {{cost}}',
+    noStock: 'No products in stock',
+    changeMethod: 'Change Costing Method',
+    changeMethodConfirm:
+      'Switch to {{method}}? Product costs will be recalculated from the stock on hand and used for future sales.',
+    methodChanged: 'Costing method updated',
+    failedToChangeMethod: 'Failed to change costing method',
+    methods: {
+      weighted_average: 'Weighted Average',
+      fifo: 'FIFO',
+    },
+    methodHints: {
+      weighted_average:
+        'Each stock-in updates the product cost to the average cost of all units on hand.',
+      fifo: 'Sales use the cost of the oldest units first; stock is valued at the cost of the units left.',
+    },
+  },
+  variants: {
+    title: 'Variants',
+    addVariant: 'Add Variant',
+    editVariant: 'Edit Variant',
+    deleteVariant: 'Delete Variant',
+    deleteConfirm: 'Delete "{{name}}"?',
+    chooseVariant: 'Choose Variant',
+    noVariants: 'This product has no variants yet',
+    noVariantsHint:
+      'Add variants such as sizes or colours, each with its own barcode, price and stock',
+    variantCount: '{{count}} variants',
+    inStock: '{{quantity}} in stock',
+    optionNames: 'Option names',
+    optionNamesPlaceholder: 'e.g. Size, Colour',
+    optionNamesRequired: 'Enter at least one option name',
+    optionValuesRequired: 'Enter a value for every option',
+    priceRequired: 'Enter a price greater than zero',
+    stockTrackedPerVariant:
+      'Stock is tracked on the {{count}} variants of this product',
+    soldLast30Days: 'Sold {{quantity}} • {{revenue}} in the last 30 days',
+    totalLast30Days: 'All variants, last 30 days',
+    totalSold: '{{quantity}} sold • {{revenue}} revenue • {{profit}} profit',
+    variantAdded: 'Variant added',
+    variantUpdated: 'Variant updated',
+    variantDeleted: 'Variant deleted',
+    failedToSave: 'Failed to save variant',
+    failedToDelete: 'Failed to delete variant',
+  },
+  sync: {
+    title: 'Sync',
+    subtitle: 'Share data between devices through a sync server',
+    server: 'Sync Server',
+    serverUrl: 'Server URL',
+    serverUrlHint:
+      'Run "npm run sync-server" on a computer on the same network and enter its address',
+    invalidUrl: 'Enter a URL starting with http:// or https://',
+    settingsSaved: 'Sync settings saved',
+    testConnection: 'Test Connection',
+    serverReachable: 'Sync server is reachable',
+    serverUnreachable: 'Could not reach the sync server',
+    automaticSync: 'Sync automatically',
+    automaticSyncHint:
+      'Sync on a schedule and when the app is opened. Sales keep working offline.',
+    interval: 'Sync every',
+    everyMinutes: '{{minutes}} min',
+    status: 'Status',
+    pendingChanges: 'Changes waiting to sync',
+    lastSynced: 'Last synced',
+    never: 'Never',
+    offline: 'Offline. Changes will be sent when the server is reachable.',
+    syncNow: 'Sync Now',
+    syncComplete: 'Sync complete: {{pushed}} sent, {{pulled}} received',
+    conflicts: 'Recent Conflicts',
+    conflictsHint:
+      'Rows changed on more than one device, and how each was settled',
+    noConflicts: 'No conflicts',
+    resolutions: {
+      kept_local: 'Kept this device',
+      took_remote: 'Took other device',
+      merged: 'Merged',
+      failed: 'Failed',
+    },
+  },
+  stockReconciliation: {
+    title: 'Stock Reconciliation',
+    settingSaved: 'Negative stock setting saved',
+    failedToSave: 'Failed to save negative stock setting',
+    oversoldSummary:
+      'Oversold by {{quantity}} across {{sales}} sales from {{devices}} devices',
+    firstOversold: 'First went below zero on {{date}}',
+    negativeStock: 'Negative',
+    oversold: 'Oversold',
+    allowNegativeStock: 'Allow negative stock',
+    allowNegativeStockOn:
+      'Products can be sold when stock is zero; stock may go below zero',
+    allowNegativeStockOff:
+      'Checkout is blocked when a product does not have enough stock',
+    allClear: 'No product has been oversold after merging devices',
+  },
+  backups: {
+    title: 'Backups',
+    subtitle: 'Automatic copies of your data kept on this device',
+    schedule: 'Automatic backups',
+    dailyAtClose: 'Daily at closing time',
+    dailyAtCloseHint:
+      'If the app is closed at closing time, the backup is taken the next time it opens',
+    closeTime: 'Closing time (HH:MM)',
+    invalidCloseTime: 'Enter the closing time as HH:MM, e.g. 21:00',
+    everySales: 'Also back up after every',
+    salesCount: '{{count}} sales',
+    off: 'Off',
+    keep: 'Keep',
+    keepCount: 'Last {{count}}',
+    keepHint: 'Older backups are deleted automatically',
+    settingsSaved: 'Backup settings saved',
+    backupNow: 'Back Up Now',
+    backupCreated: 'Backup created with {{count}} records',
+    lastBackupFailed: 'Last backup failed: {{error}}',
+    savedBackups: 'Saved backups',
+    restoreHint:
+      'Restoring replaces all current data with the backup. Records added since the backup was taken are removed.',
+    noBackups: 'No backups yet',
+    recordSummary:
+      '{{products}} products • {{sales}} sales • {{customers}} customers',
+    checksumFailed: 'Damaged: does not match its checksum',
+    restore: 'Restore',
+    restoreTitle: 'Restore Backup',
+    restoreMessage:
+      'Replace all current data with the backup from {{date}}? A safety backup of your current data is taken first.',
+    restoring: 'Restoring backup...',
+    restoreComplete: 'Backup restored: {{count}} records',
+    restoreFailed: 'Restore failed. No data was changed.',
+    deleteTitle: 'Delete Backup',
+    deleteMessage: 'Delete the backup from {{date}}?',
+    triggers: {
+      daily: 'Daily',
+      sales: 'After sales',
+      manual: 'Manual',
+      pre_restore: 'Before restore',
+    },
+  },
+  passphrase: {
+    setTitle: 'Set Export Passphrase',
+    setHint:
+      'Anyone opening this file will need the passphrase. It cannot be recovered if it is forgotten.',
+    enterTitle: 'Encrypted File',
+    enterHint:
+      'This file is encrypted. Enter the passphrase used when it was exported.',
+    passphrase: 'Passphrase',
+    confirm: 'Confirm passphrase',
+    encrypt: 'Encrypt and Export',
+    unlock: 'Open File',
+    tooShort: 'Passphrase must be at least {{count}} characters',
+    mismatch: 'Passphrases do not match',
+    wrongPassphrase: 'Wrong passphrase. Please try again.',
+  },
+  spreadsheetImport: {
+    title: 'Map Spreadsheet Columns',
+    rowsFound: '{{count}} rows found in {{filename}}',
+    importAs: 'Import as',
+    columns: 'Columns',
+    column: 'Column {{number}}',
+    example: 'e.g. {{value}}',
+    notMapped: 'Not in file',
+    requiredMissing: 'Choose a column for: {{fields}}',
+    preview: 'Preview Import',
+    emptyFile: 'The file has no header row or no data rows.',
+    readFailed: 'The file could not be read. Use a CSV or Excel (.xlsx) file.',
+    confirmNew: '{{count}} new {{type}} will be added.',
+    importComplete:
+      'Spreadsheet import complete: {{imported}} added, {{updated}} updated, {{skipped}} skipped',
+    entities: {
+      products: 'Products',
+      customers: 'Customers',
+      suppliers: 'Suppliers',
+    },
+    fields: {
+      name: 'Name',
+      barcode: 'Barcode',
+      category: 'Category',
+      price: 'Price',
+      cost: 'Cost',
+      quantity: 'Quantity',
+      min_stock: 'Minimum Stock',
+      supplier: 'Supplier',
+      contact_name: 'Contact Name',
+      phone: 'Phone',
+      email: 'Email',
+      address: 'Address',
+    },
+  },
+  accountingExport: {
+    title: 'Accountant Reports',
+    rawNumbers: 'Plain Numbers',
+    rawNumbersDesc:
+      'Write amounts without thousand separators, with a dot for decimals',
+    currencyNote: 'Amounts are in {{code}} and files are saved as CSV.',
+    exported: 'Exported {{count}} rows',
+    exportFailed: 'The report could not be exported. Please try again.',
+    notReady: 'Reports are not ready yet',
+    reports: {
+      sales: {
+        title: 'Sales',
+        description: 'One row per sale with payment, tax and total',
+      },
+      sale_lines: {
+        title: 'Sale Items',
+        description: 'One row per item sold with price, discount, tax and cost',
+      },
+      expenses: {
+        title: 'Expenses',
+        description: 'Expenses with their category and description',
+      },
+      stock_movements: {
+        title: 'Stock Movements',
+        description: 'Stock in and stock out with cost, supplier and reference',
+      },
+      debt_aging: {
+        title: 'Debt Aging',
+        description: 'Unpaid customer debt at the end of the period, by age',
+      },
+      profit_loss: {
+        title: 'Profit & Loss',
+        description:
+          'Revenue, cost of goods, expenses by category and net profit',
+      },
+    },
+  },
+  promotions: {
+    title: 'Promotions',
+    performance: 'Performance',
+    addPromotion: 'Add Promotion',
+    editPromotion: 'Edit Promotion',
+    deletePromotion: 'Delete Promotion',
+    areYouSure: 'Are you sure you want to delete',
+    noPromotions: 'No promotions yet',
+    addFirstPromotion:
+      'Tap + to add a promotion the sale screen applies automatically',
+    promotionAdded: 'Promotion added',
+    promotionUpdated: 'Promotion updated',
+    promotionDeleted: 'Promotion deleted',
+    failedToSave: 'Failed to save promotion',
+    failedToDelete: 'Failed to delete promotion',
+    runningNow: 'Running now',
+    name: 'Promotion Name',
+    namePlaceholder: 'e.g., Happy Hour Drinks',
+    type: 'Type',
+    types: {
+      buy_x_get_y: 'Buy X Get Y',
+      percent_off: 'Percent Off',
+      bundle_price: 'Bundle Price',
+    },
+    buyQuantity: 'Buy',
+    getQuantity: 'Get Free',
+    discountPercent: 'Discount (%)',
+    bundlePrice: 'Bundle Price',
+    bundlePriceHint: 'Price for one of each product in the bundle',
+    category: 'Category',
+    noCategory: 'No category',
+    products: 'Products',
+    addProduct: 'Add Product',
+    coverageHint:
+      'Applies to the products listed and to everything in the category',
+    bundleProductsHint: 'Add at least two products',
+    startDate: 'Start Date',
+    endDate: 'End Date',
+    startTime: 'Start Time',
+    endTime: 'End Time',
+    scheduleHint:
+      'Leave empty to run every day. A time window such as 17:00–19:00 makes a happy hour.',
+    active: 'Active',
+    buyXGetYRule: 'Buy {{buy}} get {{get}} free',
+    percentOffRule: '{{percent}}% off',
+    bundlePriceRule: 'Bundle for {{price}}',
+    unknownProduct: 'Deleted product',
+    unknownCategory: 'Deleted category',
+    enterName: 'Please enter a promotion name',
+    invalidQuantities: 'Buy and get quantities must be at least 1',
+    invalidPercent: 'Discount must be more than 0 and at most 100 percent',
+    invalidBundlePrice: 'Please enter a valid bundle price',
+    bundleNeedsProducts: 'A bundle needs at least two products',
+    selectProductsOrCategory: 'Select a category or at least one product',
+    invalidDates:
+      'Dates must be YYYY-MM-DD, with the end date not before the start date',
+    invalidTimes: 'Enter both start and end times as HH:MM',
+    discountGiven: 'Discount Given',
+    promotedSales: 'Sales with Promotions',
+    ofAllSales: '{{percent}}% of all sales',
+    avgPromotedSale: 'Avg. Sale with Promotion',
+    avgOtherSale: 'Avg. Sale without Promotion',
+    byPromotion: 'By Promotion',
+    noPerformanceData: 'No promotions were used in this period',
+    salesCount: '{{count}} sales',
+    revenue: 'Sales value',
+  },
+  orderDiscount: {
+    title: 'Order Discount',
+    addDiscount: 'Add order discount or coupon',
+    remove: 'Remove order discount',
+    amount: 'Amount',
+    reason: 'Reason',
+    reasonPlaceholder: 'Reason for the discount (required)',
+    reasonRequired: 'Please enter a reason for the order discount',
+    invalidPercent: 'An order discount cannot be more than 100 percent',
+    couponPlaceholder: 'Coupon code',
+    apply: 'Apply',
+    couponLabel: 'Coupon {{code}}',
+    couponCheckFailed: 'Could not check the coupon. Please try again.',
+    couponErrors: {
+      not_found: 'No coupon with this code',
+      inactive: 'This coupon is switched off',
+      expired: 'This coupon has expired',
+      used_up: 'This coupon has already been used up',
+      below_minimum: 'The order is below the minimum spend for this coupon',
+    },
+  },
+  coupons: {
+    title: 'Coupons',
+    analytics: 'Analytics',
+    addCoupon: 'Add Coupon',
+    editCoupon: 'Edit Coupon',
+    deleteCoupon: 'Delete Coupon',
+    areYouSure: 'Are you sure you want to delete',
+    noCoupons: 'No coupons yet',
+    addFirstCoupon: 'Tap + to add a coupon code cashiers can enter at checkout',
+    couponAdded: 'Coupon added',
+    couponUpdated: 'Coupon updated',
+    couponDeleted: 'Coupon deleted',
+    failedToSave: 'Failed to save coupon',
+    failedToDelete: 'Failed to delete coupon',
+    code: 'Code',
+    codePlaceholder: 'e.g., WELCOME10',
+    description: 'Description',
+    descriptionPlaceholder: 'e.g., New customer welcome offer',
+    discountType: 'Discount Type',
+    types: {
+      percent: 'Percent Off',
+      fixed: 'Amount Off',
+    },
+    discountPercent: 'Discount (%)',
+    discountAmount: 'Discount Amount',
+    minSpend: 'Minimum Spend',
+    expiresOn: 'Expires On',
+    expiryHint:
+      'The coupon still works on this day. Leave empty for no expiry.',
+    singleUse: 'Single use',
+    maxUses: 'Maximum Uses',
+    unlimited: 'Unlimited',
+    maxUsesHint: 'Leave empty to allow unlimited uses',
+    active: 'Active',
+    percentOffRule: '{{percent}}% off the order',
+    amountOffRule: '{{amount}} off the order',
+    minSpendRule: 'Min. spend {{amount}}',
+    expiresRule: 'Expires {{date}}',
+    usesOfMax: 'Used {{count}} of {{max}}',
+    uses: 'Used {{count}} times',
+    status: {
+      expired: 'Expired',
+      used_up: 'Used up',
+    },
+    enterCode: 'Please enter a coupon code',
+    codeExists: 'A coupon with this code already exists',
+    invalidPercent: 'Discount must be more than 0 and at most 100 percent',
+    invalidAmount: 'Please enter a valid discount amount',
+    invalidMinSpend: 'Please enter a valid minimum spend',
+    invalidExpiry: 'Expiry date must be YYYY-MM-DD',
+    invalidMaxUses: 'Maximum uses must be at least 1',
+    couponDiscounts: 'Coupon Discounts',
+    manualDiscounts: 'Manual Order Discounts',
+    discountedSales: 'Sales with Order Discounts',
+    ofAllSales: '{{percent}}% of all sales',
+    salesCount: '{{count}} sales',
+    byCoupon: 'By Coupon',
+    noAnalyticsData: 'No coupons were used in this period',
+    revenue: 'Sales value',
+  },
+  loyalty: {
+    title: 'Loyalty Program',
+    points: 'Points',
+    balance: 'Points balance',
+    balanceWithTier: '{{points}} points • {{tier}}',
+    tiers: {
+      bronze: 'Bronze',
+      silver: 'Silver',
+      gold: 'Gold',
+    },
+    tierRules: {
+      bronze: 'New, occasional and lapsed customers',
+      silver: 'Medium-value customers',
+      gold: 'High-value customers',
+    },
+    asPayment: 'Pay',
+    asDiscount: 'Discount',
+    pointsToRedeem: 'Points to redeem',
+    useMax: 'Max',
+    paidWithPoints: 'Paid with points',
+    pointsDiscount: 'Points discount ({{points}} pts)',
+    amountDue: 'Amount due',
+    willEarn: 'Earns {{points}} points',
+    notEnoughPoints: 'The customer does not have that many points',
+    tooManyPoints: 'At most {{max}} points can be used on this sale',
+    pointsChangedAtCheckout:
+      'The customer only has {{points}} points now. Please adjust the points and try again.',
+    pointsEarned: 'Points earned',
+    pointsBalance: 'Points balance',
+    earned: 'Earned',
+    redeemed: 'Redeemed',
+    expiresOn: 'Expires {{date}}',
+    expiredPoints: '{{points}} points expired',
+    noActivity: 'No points activity yet',
+    members: 'Members',
+    pointsIssued: 'Points issued',
+    pointsRedeemed: 'Points redeemed',
+    enabled: 'Points program',
+    enabledHint: 'Customers attached to a sale earn and can spend points',
+    earnRate: 'Points per currency unit',
+    pointValue: 'Value of one point',
+    rateExample:
+      '1 point for every {{spend}} spent, worth {{value}} when redeemed',
+    expiryDays: 'Points expire after (days)',
+    expiryHint: 'Leave empty or 0 to keep points forever',
+    tiersTitle: 'Tiers',
+    tiersHint:
+      'Tiers follow the customer segments in customer analytics. Each tier earns points at its own multiplier.',
+    customerCount: '{{count}} customers',
+    multiplier: 'Multiplier',
+    invalidEarnRate: 'Enter an earn rate greater than 0',
+    invalidPointValue: 'Enter a point value greater than 0',
+    invalidExpiry: 'Enter the number of days points last',
+    invalidMultiplier: 'Tier multipliers must be greater than 0',
+    settingsSaved: 'Loyalty settings saved',
+    failedToSave: 'Failed to save loyalty settings',
+  },
+  labels: {
+    title: 'Barcode Labels',
+    products: 'Products',
+    selectHint: 'Add products or a whole category to print labels for.',
+    addProduct: 'Add Product',
+    addCategory: 'Add Category',
+    clearSelection: 'Clear selection',
+    noBarcode: 'No barcode',
+    noProductsInCategory: 'This category has no products',
+    noProductsSelected: 'Add at least one product to print labels',
+    missingBarcodes:
+      '{{count}} selected products have no barcode. Generate in-store barcodes so their labels can be scanned.',
+    generateBarcodes: 'Generate Barcodes',
+    generateBarcode: 'Generate barcode',
+    barcodesGenerated: '{{count}} barcodes generated',
+    failedToGenerate: 'Failed to generate barcodes',
+    design: 'Label Design',
+    layout: 'Sheet layout',
+    layouts: {
+      a4_3x8: 'A4 • 24 labels (3 × 8)',
+      a4_4x10: 'A4 • 40 labels (4 × 10)',
+      a4_2x7: 'A4 • 14 shelf labels (2 × 7)',
+    },
+    show: {
+      name: 'Product name',
+      price: 'Price',
+      barcode: 'Barcode',
+      shopName: 'Shop name',
+    },
+    skipLabels: 'Start at label',
+    skipHint:
+      'Number of labels already used on the first sheet, so a part-used sheet can be printed on.',
+    labelCount: '{{count}} labels',
+    printSheet: 'Print Label Sheet (PDF)',
+    printThermal: 'Print on Thermal Printer',
+    failedToPrint: 'Failed to print labels',
+  },
+  receiptTemplates: {
+    newTemplate: 'New Template',
+    editTemplate: 'Edit Template',
+    deleteTemplate: 'Delete Template',
+    name: 'Template name',
+    namePlaceholder: 'e.g. Shop receipt with logo',
+    description: 'Description',
+    descriptionPlaceholder: 'Optional',
+    html: 'Layout (HTML)',
+    syntaxHelp:
+      'Use {{shopName}} for a value, {{total | currency}} to format it, {{#each items}}…{{/each}} to repeat each item and {{#if note}}…{{else}}…{{/if}} to show a part only when a value is set.',
+    placeholders: 'Placeholders',
+    formatters: 'Formatters',
+    css: 'Styles (CSS)',
+    preview: 'Live preview',
+    previewUnavailable: 'Fix the errors above to see a preview',
+    nameRequired: 'Template name is required',
+    fixErrors: 'Fix the errors in the template before saving',
+    saved: 'Receipt template saved',
+    deleted: 'Receipt template deleted',
+    confirmDelete:
+      'Delete "{{name}}"? Receipts will use the Classic template if this one is selected.',
+    failedToSave: 'Failed to save receipt template',
+    failedToDelete: 'Failed to delete receipt template',
+    issues: {
+      unknown_placeholder: 'Unknown placeholder: {{name}}',
+      unknown_formatter: 'Unknown formatter: {{name}}',
+      not_a_list: '{{name}} is not a list and cannot be used with #each',
+      unexpected_tag: 'Unexpected tag: {{name}}',
+      unclosed_block: 'Block is never closed: {{name}}',
+      script: 'Scripts are not allowed: {{name}}',
+    },
+  },
+  printQueue: {
+    title: 'Print Queue',
+    noJobs: 'Nothing has been sent to the printer',
+    queued: 'Sent to printer',
+    retry: 'Retry',
+    cancel: 'Cancel',
+    clearFinished: 'Clear Finished',
+    retryAt: 'Waiting for printer, retrying at {{time}}',
+    printingTitle: 'Printing {{title}}…',
+    waitingCount: '{{count}} print job(s) waiting for the printer',
+    failedCount: '{{count}} print job(s) failed. Tap to retry',
+    status: {
+      pending: 'Waiting',
+      printing: 'Printing',
+      failed: 'Failed',
+      done: 'Printed',
+      cancelled: 'Cancelled',
+    },
+    types: {
+      receipt: 'Receipt',
+      shift_report: 'Shift report',
+      labels: 'Labels',
+    },
+    titles: {
+      receipt: 'Receipt #{{id}}',
+    },
   },
 };
 
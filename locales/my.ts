@@ -247,6 +247,8 @@ export const my: TranslationKeys = {
     saleNote: 'ရောင်းချမှုမှတ်စု',
     addNote: 'မှတ်စုထည့်မည် (ရွေးချယ်ခွင့်)',
     recordingPayment: 'ငွေပေးချေမှုမှတ်တမ်းတင်နေသည်...',
+    stockChangedAtCheckout:
+      '{{name}} အတွက် လက်ကျန်မလုံလောက်ပါ။ အခြားစက်များနှင့် ချိန်ကိုက်ပြီးနောက် {{quantity}} သာကျန်ပါသည်။',
   },
   printing: {
     title: 'ဘောက်ချာပုံနှိပ်မည်',
@@ -745,6 +747,8 @@ export const my: TranslationKeys = {
     categoryNameRequired: 'အမျိုးအစားအမည်လိုအပ်ပါသည်',
     description: 'ဖော်ပြချက်',
     descriptionPlaceholder: 'ရွေးချယ်ခွင့်ရှိသော ဖော်ပြချက်',
+    paidFromDrawer: 'ငွေအံဆွဲမှ ပေးချေသည်',
+    paidFromDrawerHint: 'ဤအသုံးစရိတ်ကို ဖွင့်ထားသော အလှည့်မှ နုတ်ပါမည်',
   },
   reports: {
     title: 'အစီရင်ခံစာများ',
@@ -1246,6 +1250,44 @@ export const my: TranslationKeys = {
       gallery: 'ပုံစုမှရွေးချယ်မည်',
       cancel: 'ပယ်ဖျက်မည်',
     },
+    receiptQr: 'ဘောင်ချာ QR ကုဒ်',
+    receiptQrModes: {
+      none: 'မရှိ',
+      voucher: 'ဘောင်ချာလင့်ခ်',
+      payment: 'ငွေပေးချေမှု QR',
+    },
+    receiptQrPaymentPlaceholder: 'ငွေပေးချေမှု QR အကြောင်းအရာကို ထည့်ပါ',
+    receiptQrVoucherHint:
+      'ပုံနှိပ်သည့်အခါ {voucherId} ကို ဘောင်ချာနံပါတ်ဖြင့် အစားထိုးပါမည်',
+    receiptQrPaymentHint:
+      'ဖောက်သည်များ စကင်ဖတ်၍ ငွေပေးချေနိုင်ရန် အရောင်းဘောင်ချာတိုင်းတွင် ပုံနှိပ်ပါမည်',
+    thermalPrinter: 'သာမယ်ပရင်တာ',
+    paperWidth: 'စက္ကူအကျယ်',
+    paperWidths: {
+      '58mm': '58 mm',
+      '80mm': '80 mm',
+    },
+    charsPerLine: 'တစ်ကြောင်းလျှင် စာလုံးအရေအတွက်',
+    codePage: 'ကုဒ်စာမျက်နှာ',
+    codePages: {
+      pc437: 'PC437 (USA)',
+      pc858: 'PC858 (Euro)',
+      wpc1252: 'Windows-1252',
+    },
+    cutCommand: 'စက္ကူဖြတ်ခြင်း',
+    cutCommands: {
+      full: 'အပြည့်ဖြတ်',
+      partial: 'တစ်စိတ်တစ်ပိုင်းဖြတ်',
+      feed_partial: 'ရှေ့တိုးပြီး တစ်စိတ်တစ်ပိုင်းဖြတ်',
+      none: 'ဖြတ်စက်မရှိ',
+    },
+    renderMode: 'ပုံနှိပ်မုဒ်',
+    renderModes: {
+      text: 'စာသား',
+      bitmap: 'ပုံ',
+    },
+    renderModeHint:
+      'ပုံမုဒ်သည် မြန်မာစာ မှန်ကန်စွာ ထွက်စေရန် ဘောင်ချာကို ပုံအဖြစ် ပုံနှိပ်ပါသည်။ စာသားမုဒ်သည် ပိုမြန်သော်လည်း လက်တင်စာလုံးများသာ ပုံနှိပ်နိုင်ပါသည်။',
   },
   languageSettings: {
     title: 'ဘာသာစကားဆက်တင်များ',
@@ -1319,6 +1361,12 @@ export const my: TranslationKeys = {
     sharingNotAvailable: 'ဒီစက်ပေါ်တွင် မျှဝေခြင်းမရရှိနိုင်ပါ',
     itemsProcessed: 'အချက်အလက်များ လုပ်ဆောင်ပြီး',
     pleaseWait: 'သင့်တင်ပို့မှုကို ပြင်ဆင်နေစဉ် ကျေးဇူးပြု၍ စောင့်ပါ...',
+    encryptExport: 'စကားဝှက်ဖြင့် ကုဒ်ဝှက်ရန်',
+    encryptExportDesc:
+      'ဖိုင်ထဲရှိ ဖောက်သည်ဖုန်းနံပါတ်များ၊ အကြွေးများနှင့် အရောင်းမှတ်တမ်းကို ကာကွယ်ပါ။ ထည့်သွင်းရန် စကားဝှက် လိုအပ်ပါသည်။',
+    exportChanges: 'ပြောင်းလဲမှုများသာ ထုတ်ယူရန်',
+    exportChangesDesc:
+      '{{date}} ထုတ်ယူမှုနောက်ပိုင်း ထည့်သွင်း၊ ပြင်ဆင် သို့မဟုတ် ဖျက်ထားသော မှတ်တမ်းများ။ ထိုထုတ်ယူမှုနှင့်အတူ ထည့်သွင်းပါ။',
   },
   dataImport: {
     title: 'အချက်အလက်ထည့်သွင်းမှု',
@@ -1429,6 +1477,36 @@ export const my: TranslationKeys = {
       'ရှိပြီးသားမှတ်တမ်းများကို ထည့်သွင်းအချက်အလက်ဖြင့် အစားထိုးမည်',
     keepExistingDesc:
       'ရှိပြီးသားမှတ်တမ်းများကို ထိန်းသိမ်းပြီး ပဋိပက္ခရှိသောထည့်သွင်းမှုများကို ကျော်မည်',
+    corruptedFile: 'ဖိုင် ပျက်စီးနေသည်',
+    corruptedFileDesc:
+      'စကားဝှက် မှန်ကန်သော်လည်း ဤကုဒ်ဝှက်ဖိုင်သည် ပျက်စီးနေသည် သို့မဟုတ် ပြောင်းလဲခံထားရသည်။ မိတ္တူအသစ် ထုတ်ယူပြီး ထပ်စမ်းကြည့်ပါ။',
+    importSpreadsheet: 'စာရင်းဇယားမှ ထည့်သွင်းရန်',
+    importSpreadsheetDesc:
+      'CSV သို့မဟုတ် Excel ဖိုင်မှ ကုန်ပစ္စည်း၊ ဖောက်သည် သို့မဟုတ် ပေးသွင်းသူများကို ထည့်ပါ',
+    importChain: 'ပြောင်းလဲမှုများနှင့်အတူ ထည့်သွင်းရန်',
+    importChainDesc:
+      'အပြည့်အစုံ ထုတ်ယူမှုနှင့် ၎င်းနောက်ပိုင်း ပြောင်းလဲမှု ထုတ်ယူမှုများကို ရွေးပါ',
+    confirmChainImport:
+      'အပြည့်အစုံ ထုတ်ယူမှုနှင့် ပြောင်းလဲမှု ထုတ်ယူမှု {{count}} ခုကို အစဉ်လိုက် ထည့်သွင်းပါမည်။',
+    chainImportComplete:
+      'မှတ်တမ်း {{imported}} ခု ထည့်သွင်း၊ {{updated}} ခု ပြင်ဆင်၊ {{deleted}} ခု ဖျက်ပြီးပါပြီ',
+    chainInvalid: 'ဖိုင်များကို အတူတကွ ထည့်သွင်း၍ မရပါ',
+    chainReadFailed: 'ရွေးထားသော ဖိုင်တစ်ခုသည် ထုတ်ယူမှုဖိုင် မဟုတ်ပါ။',
+    chainErrors: {
+      not_linked:
+        'ရွေးထားသော ဖိုင်တစ်ခုသည် ဤအက်ပ်ဗားရှင်း၏ အပြည့်အစုံ သို့မဟုတ် ပြောင်းလဲမှု ထုတ်ယူမှု မဟုတ်ပါ။',
+      no_full_export:
+        'ပြောင်းလဲမှု ထုတ်ယူမှုများ စတင်ခဲ့သော အပြည့်အစုံ ထုတ်ယူမှုကို ရွေးပါ။',
+      several_full_exports: 'အပြည့်အစုံ ထုတ်ယူမှု တစ်ခုတည်းကိုသာ ရွေးပါ။',
+      different_chains:
+        'ပြောင်းလဲမှု ထုတ်ယူမှုအချို့သည် အခြား အပြည့်အစုံ ထုတ်ယူမှုနောက်ပိုင်း ယူထားခြင်း ဖြစ်သည်။',
+      duplicate_link:
+        'ပြောင်းလဲမှု ထုတ်ယူမှု {{number}} ကို နှစ်ကြိမ် ရွေးထားသည်။',
+      missing_link:
+        'ပြောင်းလဲမှု ထုတ်ယူမှု {{number}} ပျောက်နေသည်။ နောက်ဆုံးအထိ ပြောင်းလဲမှု ထုတ်ယူမှုအားလုံးကို ရွေးပါ။',
+      corrupted_link:
+        'ထုတ်ယူမှု {{number}} ပျက်စီးနေသည် သို့မဟုတ် ပြောင်းလဲခံထားရသည်။ မည်သည့်အရာမျှ မထည့်သွင်းရသေးပါ။',
+    },
   },
   about: {
     title: 'အကြောင်း',
@@ -1937,5 +2015,889 @@ export const my: TranslationKeys = {
     noDebtSales: 'အကြွေးရောင်းချမှုများမတွေ့ပါ',
     customersWithDebt: 'အကြွေးရှိသောဖောက်သည်များ',
     unpaid: 'မပေးရသေး',
+    paymentAmount: 'ပေးချေသည့်ပမာဏ',
+    invalidPaymentAmount:
+      'သုညထက်ကြီးပြီး ကျန်ရှိအကြွေးထက် မပိုသော ပမာဏကို ထည့်ပါ',
+    amountExceedsOutstanding: 'ပမာဏသည် ကျန်ရှိအကြွေးထက် ပိုနေသည်',
+    remainingAfterPayment: 'ဤငွေပေးချေပြီးနောက် ကျန်ရှိမည်: {{amount}}',
+    paymentNote: 'မှတ်ချက် (ရွေးချယ်နိုင်သည်)',
+    paymentNotePlaceholder: 'ဥပမာ - တစ်ဝက်ပေးပြီး ကျန်ငွေ နောက်အပတ်',
+    failedToRecordPayment: 'ငွေပေးချေမှုမှတ်တမ်းတင်ရန်မအောင်မြင်ပါ',
+    debtPayments: 'အကြွေးပေးချေမှုများ',
+    noPaymentsYet: 'ငွေပေးချေမှုမှတ်တမ်းမရှိသေးပါ',
+    voidPayment: 'ငွေပေးချေမှုပယ်ဖျက်မည်',
+    voidPaymentConfirm:
+      'ဤငွေပေးချေမှုကို ပယ်ဖျက်မှာလား? ပမာဏကို ကျန်ရှိအကြွေးထဲသို့ ပြန်ထည့်ပါမည်။',
+    paymentVoided: 'ငွေပေးချေမှုပယ်ဖျက်ပြီးပါပြီ',
+    failedToVoidPayment: 'ငွေပေးချေမှုပယ်ဖျက်ရန်မအောင်မြင်ပါ',
+    statement: 'စာရင်းရှင်းတမ်း',
+    charge: 'အကြွေးရောင်းချမှု',
+    payment: 'ငွေပေးချေမှု',
+    balance: 'လက်ကျန်',
+  },
+  returns: {
+    returns: 'ပြန်အပ်ခြင်းများ',
+    returnItems: 'ပစ္စည်း ပြန်အပ်ရန်',
+    returnCredit: 'ပြန်အပ်',
+    creditNote: 'ငွေပြန်အမ်း ပြေစာ',
+    originalReceipt: 'မူလ ပြေစာ',
+    reason: 'အကြောင်းရင်း',
+    reasonPlaceholder: 'ဤပစ္စည်းများကို ဘာကြောင့် ပြန်အပ်သနည်း?',
+    refundTotal: 'ပြန်အမ်းငွေ',
+    refundMethod: 'ငွေပြန်အမ်းနည်း',
+    restock: 'စတော့သို့ ပြန်ထည့်ရန်',
+    writtenOff: 'ပျက်စီးစာရင်းသွင်း',
+    availableToReturn: '{{quantity}} ခု ပြန်အပ်နိုင်သည်',
+    nothingToReturn: 'ဤအရောင်းရှိ ပစ္စည်းအားလုံး ပြန်အပ်ပြီးပါပြီ',
+    selectItemsToReturn: 'ပြန်အပ်ရန် ပစ္စည်းအနည်းဆုံး တစ်ခု ရွေးပါ',
+    returnRecorded: 'ပြန်အပ်ခြင်း မှတ်တမ်းတင်ပြီးပါပြီ',
+    failedToRecordReturn: 'ပြန်အပ်ခြင်း မှတ်တမ်းတင်၍ မရပါ',
+    refundExceedsDebt:
+      'ပြန်အမ်းငွေသည် ကျန်ရှိအကြွေး {{amount}} ထက် များနေသည်။ အခြား ငွေပြန်အမ်းနည်း ရွေးပါ။',
+    confirmReturn: 'ပြန်အပ်ခြင်း အတည်ပြုရန်',
+    printCreditReceipt: 'ငွေပြန်အမ်း ပြေစာ ပုံနှိပ်ရန်',
+    netTotal: 'အသားတင် စုစုပေါင်း',
+  },
+  tax: {
+    taxRates: 'အခွန်နှုန်းများ',
+    taxRate: 'အခွန်နှုန်း',
+    taxReport: 'အခွန်အစီရင်ခံစာ',
+    addTaxRate: 'အခွန်နှုန်း ထည့်ရန်',
+    editTaxRate: 'အခွန်နှုန်း ပြင်ဆင်ရန်',
+    deleteTaxRate: 'အခွန်နှုန်း ဖျက်ရန်',
+    taxName: 'အခွန်အမည်',
+    taxNamePlaceholder: 'ဥပမာ - ကုန်သွယ်လုပ်ငန်းခွန်',
+    ratePercent: 'နှုန်း (%)',
+    pricesIncludeTax: 'ရောင်းဈေးတွင် အခွန်ပါဝင်သည်',
+    inclusiveHint: 'ရောင်းဈေးတွင် အခွန် ပါဝင်ပြီးဖြစ်သည်',
+    exclusiveHint: 'ရောင်းဈေးအပေါ် အခွန် ထပ်ပေါင်းမည်',
+    inclusive: 'အခွန်ပါဝင်',
+    exclusive: 'အခွန်ထပ်ပေါင်း',
+    included: 'ပါဝင်ပြီး',
+    noTax: 'အခွန်မရှိ',
+    useCategoryRate: 'အမျိုးအစား၏ နှုန်းကို သုံးမည်',
+    taxExempt: 'အခွန်ကင်းလွတ်',
+    noTaxRates: 'အခွန်နှုန်း မရှိသေးပါ',
+    addFirstTaxRate:
+      'အခွန်နှုန်းထည့်ပြီး အမျိုးအစား သို့မဟုတ် ကုန်ပစ္စည်းများတွင် သတ်မှတ်ပါ',
+    enterTaxName: 'အခွန်အမည် ထည့်ပါ',
+    invalidRate: 'အခွန်နှုန်းသည် 0 မှ 100 အတွင်း ဖြစ်ရမည်',
+    taxRateAdded: 'အခွန်နှုန်း ထည့်ပြီးပါပြီ',
+    taxRateUpdated: 'အခွန်နှုန်း ပြင်ဆင်ပြီးပါပြီ',
+    taxRateDeleted: 'အခွန်နှုန်း ဖျက်ပြီးပါပြီ',
+    failedToSaveTaxRate: 'အခွန်နှုန်း သိမ်းဆည်း၍ မရပါ',
+    taxRateInUse:
+      'ဤအခွန်နှုန်းကို အမျိုးအစား သို့မဟုတ် ကုန်ပစ္စည်းများတွင် သတ်မှတ်ထားသည်။ ဦးစွာ ဖြုတ်ပါ။',
+    areYouSure: 'ဖျက်ရန် သေချာပါသလား',
+    taxCollected: 'ကောက်ခံသည့်အခွန်',
+    taxRefunded: 'ပြန်အမ်းသည့်အခွန်',
+    netTax: 'အသားတင်အခွန်',
+    taxableAmount: 'အခွန်ကောက်ခံနိုင်သည့်ပမာဏ',
+    byRate: 'အခွန်နှုန်းအလိုက်',
+    noTaxData: 'ဤကာလတွင် ကောက်ခံသည့်အခွန် မရှိပါ',
+  },
+  heldCarts: {
+    heldCarts: 'ခဏရပ်ထားသော ဈေးခြင်းများ',
+    holdCurrentCart: 'လက်ရှိဈေးခြင်းကို ခဏရပ်ထားမည်',
+    label: 'အမည်',
+    labelPlaceholder: 'ဥပမာ - စားပွဲ ၃ သို့မဟုတ် ဖောက်သည်အမည်',
+    note: 'မှတ်ချက်',
+    notePlaceholder: 'ဤဈေးခြင်းအတွက် မှတ်ချက် (ရွေးချယ်နိုင်သည်)',
+    enterLabel: 'ဤဈေးခြင်းအတွက် အမည်ထည့်ပါ',
+    defaultLabel: 'ဈေးခြင်း {{number}}',
+    noHeldCarts: 'ခဏရပ်ထားသော ဈေးခြင်းမရှိပါ',
+    itemCount: 'ပစ္စည်း {{count}} ခု',
+    cartHeld: 'ဈေးခြင်းကို ခဏရပ်ထားပြီးပါပြီ',
+    cartResumed: 'ဈေးခြင်းကို ပြန်ဖွင့်ပြီးပါပြီ',
+    cartDiscarded: 'ခဏရပ်ထားသော ဈေးခြင်းကို ဖျက်ပြီးပါပြီ',
+    discard: 'ဖျက်မည်',
+    discardHeldCart: 'ခဏရပ်ထားသော ဈေးခြင်းကို ဖျက်မည်',
+    discardConfirm: '"{{label}}" ဈေးခြင်းကို ဖျက်မှာသေချာပါသလား? ပြန်ယူ၍မရပါ။',
+    cartNotEmpty: 'ဈေးခြင်းထဲတွင် ပစ္စည်းရှိနေသည်',
+    clearCartFirst:
+      'အခြားဈေးခြင်းကို ပြန်မဖွင့်မီ လက်ရှိဈေးခြင်းကို ရောင်းချခြင်း၊ ခဏရပ်ခြင်း သို့မဟုတ် ရှင်းလင်းခြင်း ပြုလုပ်ပါ။',
+    missingProducts:
+      'ဤဈေးခြင်းမှ ပစ္စည်း {{count}} ခု မရှိတော့သဖြင့် ကျော်သွားပါသည်',
+    failedToHold: 'ဈေးခြင်းကို ခဏရပ်ထား၍ မရပါ',
+    failedToResume: 'ဈေးခြင်းကို ပြန်ဖွင့်၍ မရပါ',
+    failedToDiscard: 'ခဏရပ်ထားသော ဈေးခြင်းကို ဖျက်၍ မရပါ',
+  },
+  shifts: {
+    cashDrawer: 'ငွေအံဆွဲ',
+    openShift: 'အလှည့်ဖွင့်မည်',
+    openShiftHint:
+      'အံဆွဲထဲရှိ ငွေသားကို ရေတွက်ပြီး စတင်ငွေအဖြစ် ထည့်ပါ။ အလှည့်ဖွင့်ထားစဉ် ရောင်းချမှုများကို ၎င်း၏ အစီရင်ခံစာတွင် ထည့်သွင်းပါမည်။',
+    openingFloat: 'စတင်ငွေ',
+    openingNote: 'ဖွင့်ချိန် မှတ်ချက်',
+    openingNotePlaceholder: 'မှတ်ချက် (ရွေးချယ်နိုင်သည်)၊ ဥပမာ - အံဆွဲဖွင့်သူ',
+    enterOpeningFloat: 'စတင်ငွေ ထည့်ပါ',
+    shiftOpened: 'အလှည့် ဖွင့်ပြီးပါပြီ',
+    failedToOpenShift: 'အလှည့် ဖွင့်၍ မရပါ',
+    shiftOpen: 'အလှည့် ဖွင့်ထားသည်',
+    openedAt: 'ဖွင့်ချိန်',
+    closeShift: 'အလှည့်ပိတ်မည်',
+    closingNote: 'ပိတ်ချိန် မှတ်ချက်',
+    closingNotePlaceholder:
+      'မှတ်ချက် (ရွေးချယ်နိုင်သည်)၊ ဥပမာ - ကွာခြားရသည့် အကြောင်းရင်း',
+    shiftClosed: 'အလှည့် ပိတ်ပြီးပါပြီ',
+    failedToCloseShift: 'အလှည့် ပိတ်၍ မရပါ',
+    payIn: 'ငွေသွင်း',
+    payOut: 'ငွေထုတ်',
+    payInHint: 'အံဆွဲထဲသို့ ထည့်သောငွေ၊ ဥပမာ - အကြွေ ထပ်ထည့်ခြင်း',
+    payOutHint: 'အံဆွဲထဲမှ ထုတ်သောငွေ၊ ဥပမာ - ဘဏ်သို့ အပ်ငွေ',
+    recordPayIn: 'ငွေသွင်း မှတ်တမ်းတင်မည်',
+    recordPayOut: 'ငွေထုတ် မှတ်တမ်းတင်မည်',
+    payInRecorded: 'ငွေသွင်း မှတ်တမ်းတင်ပြီးပါပြီ',
+    payOutRecorded: 'ငွေထုတ် မှတ်တမ်းတင်ပြီးပါပြီ',
+    failedToRecordMovement: 'ငွေအဝင်အထွက် မှတ်တမ်းတင်၍ မရပါ',
+    reason: 'အကြောင်းရင်း',
+    reasonPlaceholder: 'အကြောင်းရင်း (ရွေးချယ်နိုင်သည်)',
+    xReport: 'X အစီရင်ခံစာ',
+    zReport: 'Z အစီရင်ခံစာ',
+    printXReport: 'X အစီရင်ခံစာ ပရင့်ထုတ်မည်',
+    printZReport: 'Z အစီရင်ခံစာ ပရင့်ထုတ်မည်',
+    reportPrinted: 'အစီရင်ခံစာကို ပရင်တာသို့ ပို့ပြီးပါပြီ',
+    failedToPrintReport: 'အစီရင်ခံစာ ပရင့်ထုတ်၍ မရပါ',
+    salesByPaymentMethod: 'ငွေပေးချေမှုနည်းလမ်းအလိုက် ရောင်းချမှု',
+    totalSales: 'စုစုပေါင်း ရောင်းချမှု',
+    refunds: 'ငွေပြန်အမ်းမှု',
+    cashSales: 'ငွေသား ရောင်းချမှု',
+    debtCollected: 'ကောက်ခံရသော အကြွေး',
+    payIns: 'ငွေသွင်းများ',
+    payOuts: 'ငွေထုတ်များ',
+    cashRefunds: 'ငွေသား ပြန်အမ်းမှု',
+    drawerExpenses: 'ပေးချေသော အသုံးစရိတ်',
+    cashMovements: 'ငွေသွင်း နှင့် ငွေထုတ်',
+    expectedCash: 'ရှိသင့်သော ငွေသား',
+    countedCash: 'ရေတွက်ရသော ငွေသား',
+    short: 'လိုငွေ',
+    over: 'ပိုငွေ',
+    pastShifts: 'ယခင် အလှည့်များ',
+    noPastShifts: 'ပိတ်ထားသော အလှည့် မရှိသေးပါ',
+  },
+  staff: {
+    title: 'ဝန်ထမ်း',
+    staffTab: 'ဝန်ထမ်းအကောင့်များ',
+    salesByStaff: 'ဝန်ထမ်းအလိုက် အရောင်း',
+    addStaff: 'ဝန်ထမ်းထည့်ရန်',
+    editStaff: 'ဝန်ထမ်းပြင်ရန်',
+    name: 'အမည်',
+    namePlaceholder: 'ဥပမာ - အောင်အောင်',
+    role: 'ရာထူး',
+    pin: 'PIN',
+    pinPlaceholder: 'ဂဏန်း ၄ လုံးမှ ၆ လုံး',
+    pinKeepPlaceholder: 'လက်ရှိ PIN ကို ဆက်သုံးရန် ကွက်လပ်ထားပါ',
+    active: 'အသုံးပြုနေသည်',
+    activeHint: 'အသုံးမပြုတော့သော ဝန်ထမ်းများ ဝင်ရောက်၍ မရပါ',
+    inactive: 'အသုံးမပြုတော့ပါ',
+    you: 'သင်',
+    roles: {
+      owner: 'ပိုင်ရှင်',
+      manager: 'မန်နေဂျာ',
+      cashier: 'ငွေကိုင်',
+    },
+    roleHints: {
+      owner:
+        'ဝန်ထမ်း၊ ဆက်တင်၊ ဒေတာတင်သွင်းခြင်းနှင့် မှတ်တမ်းဖျက်ခြင်း အပါအဝင် အားလုံးကို အသုံးပြုနိုင်သည်',
+      manager:
+        'ကုန်ပစ္စည်း၊ စတော့၊ အသုံးစရိတ်၊ အစီရင်ခံစာ၊ ငွေပြန်အမ်းခြင်းနှင့် ဒေတာထုတ်ယူခြင်း',
+      cashier: 'ရောင်းချခြင်း၊ ငွေအံဆွဲ၊ ဖောက်သည်များနှင့် အရောင်းမှတ်တမ်း',
+    },
+    noStaff: 'ဝန်ထမ်းအကောင့် မရှိသေးပါ',
+    addFirstStaff:
+      'ဤစက်ကို အသုံးပြုသူတိုင်း အားလုံးကို အသုံးပြုနိုင်သည်။ PIN ဖြင့် ဝင်ရောက်စေရန် ပိုင်ရှင်အကောင့် ထည့်ပါ။',
+    firstAccountOwner:
+      'ပထမအကောင့်သည် ပိုင်ရှင်ဖြစ်သည်။ သိမ်းပြီးသည်နှင့် PIN ဖြင့် ဝင်ရောက်ရပါမည်။',
+    enterName: 'အမည် ထည့်ပါ',
+    invalidPin: 'PIN သည် ဂဏန်း ၄ လုံးမှ ၆ လုံး ဖြစ်ရမည်',
+    lastOwner: 'အသုံးပြုနေသော ပိုင်ရှင် အနည်းဆုံး တစ်ဦး လိုအပ်သည်',
+    staffAdded: 'ဝန်ထမ်း ထည့်ပြီးပါပြီ',
+    staffUpdated: 'ဝန်ထမ်း ပြင်ပြီးပါပြီ',
+    failedToSaveStaff: 'ဝန်ထမ်း သိမ်းဆည်း၍ မရပါ',
+    signIn: 'ဝန်ထမ်း ဝင်ရောက်ရန်',
+    signInHint: 'သင့်အမည်ကို ရွေးပြီး PIN ထည့်ပါ',
+    unlock: 'ဖွင့်ရန်',
+    wrongPin: 'PIN မှားနေသည်၊ ထပ်ကြိုးစားပါ',
+    signOut: 'ထွက်ရန်',
+    accessDenied: 'ဝင်ရောက်ခွင့် မရှိပါ',
+    accessDeniedMessage:
+      'သင့်ရာထူး ({{role}}) ဖြင့် ဤစာမျက်နှာကို ဖွင့်၍ မရပါ။',
+    goToDashboard: 'ဒက်ရှ်ဘုတ်သို့ သွားရန်',
+    cashier: 'ငွေကိုင်',
+    recordedBy: 'မှတ်တမ်းတင်သူ',
+    totalSales: 'စုစုပေါင်း အရောင်း',
+    totalRevenue: 'စုစုပေါင်း ဝင်ငွေ',
+    saleCount: 'အရောင်း {{count}} ခု',
+    unassigned: 'ဝန်ထမ်း ဝင်ရောက်မထားပါ',
+    noSalesData: 'ဤကာလတွင် အရောင်း မရှိပါ',
+  },
+  auditLog: {
+    title: 'စစ်ဆေးမှတ်တမ်း',
+    export: 'စစ်ဆေးမှတ်တမ်း ထုတ်ယူရန်',
+    allRecords: 'မှတ်တမ်းအားလုံး',
+    allStaff: 'ဝန်ထမ်းအားလုံး',
+    noEntries: 'စစ်ဆေးမှတ်တမ်း မရှိပါ',
+    noEntriesHint:
+      'ကုန်ပစ္စည်း၊ အရောင်း၊ စတော့နှင့် အများဝယ်စျေးနှုန်း ပြောင်းလဲမှုများ ဤနေရာတွင် ပေါ်လာပါမည်',
+    noEntriesToExport: 'ဤစစ်ထုတ်မှုအတွက် ထုတ်ယူရန် စစ်ဆေးမှတ်တမ်း မရှိပါ',
+    exportFailed: 'စစ်ဆေးမှတ်တမ်း ထုတ်ယူ၍ မရပါ',
+    sharingNotAvailable: 'ဤစက်တွင် မျှဝေခြင်း မရနိုင်ပါ',
+    chainValid:
+      'မှတ်တမ်း စစ်ဆေးပြီး - {{count}} ခု၊ ပြင်ဆင်ခြင်း သို့မဟုတ် ဖျက်ခြင်း မတွေ့ပါ',
+    chainBroken: 'မှတ်တမ်း #{{seq}} တွင် ပြင်ဆင်ထားမှု တွေ့ရှိသည်',
+    entities: {
+      product: 'ကုန်ပစ္စည်း',
+      sale: 'အရောင်း',
+      stock_movement: 'စတော့ရွေ့လျားမှု',
+      bulk_pricing: 'အများဝယ်စျေးနှုန်း',
+      import: 'ဒေတာတင်သွင်းမှု',
+      backup: 'အရန်ကူးယူမှု',
+      promotion: 'ပရိုမိုးရှင်း',
+      coupon: 'ကူပွန်',
+      receipt_template: 'ဘောက်ချာပုံစံ',
+    },
+    actions: {
+      create: 'ထည့်သွင်းသည်',
+      update: 'ပြင်ဆင်သည်',
+      delete: 'ဖျက်သည်',
+      import: 'တင်သွင်းသည်',
+      restore: 'ပြန်လည်ရယူသည်',
+    },
+    periods: {
+      all: 'အချိန်အားလုံး',
+      today: 'ယနေ့',
+      week: 'နောက်ဆုံး ၇ ရက်',
+      month: 'နောက်ဆုံး ၃၀ ရက်',
+    },
+  },
+  purchaseOrders: {
+    title: 'ဝယ်ယူမှာယူစာများ',
+    newOrder: 'ဝယ်ယူမှာယူစာ အသစ်',
+    editOrder: 'ဝယ်ယူမှာယူစာ ပြင်ဆင်ရန်',
+    supplier: 'ပေးသွင်းသူ',
+    selectSupplier: 'ပေးသွင်းသူ ရွေးပါ',
+    unknownSupplier: 'မသိသော ပေးသွင်းသူ',
+    items: 'ပစ္စည်းများ',
+    addProduct: 'ပစ္စည်း ထည့်ရန်',
+    productAlreadyAdded: 'ဤပစ္စည်းကို မှာယူစာတွင် ထည့်ပြီးဖြစ်သည်',
+    quantity: 'အရေအတွက်',
+    unitCost: 'တစ်ခုချင်း ကုန်ကျစရိတ်',
+    note: 'မှတ်ချက်',
+    notePlaceholder: 'ပို့ဆောင်ရေး ညွှန်ကြားချက် သို့မဟုတ် ရည်ညွှန်းချက်',
+    orderTotal: 'မှာယူမှု စုစုပေါင်း',
+    saveDraft: 'မူကြမ်း သိမ်းရန်',
+    addAtLeastOneItem: 'မှာယူစာတွင် ပစ္စည်းအနည်းဆုံး တစ်ခု ထည့်ပါ',
+    enterValidQuantity: 'သုညထက်ကြီးသော ကိန်းပြည့် အရေအတွက် ထည့်ပါ',
+    draftCreated: 'မူကြမ်း {{number}} ဖန်တီးပြီးပါပြီ',
+    orderUpdated: 'ဝယ်ယူမှာယူစာ ပြင်ဆင်ပြီးပါပြီ',
+    failedToSave: 'ဝယ်ယူမှာယူစာ သိမ်းဆည်း၍ မရပါ',
+    allStatuses: 'အားလုံး',
+    itemCount: 'ပစ္စည်း {{count}} မျိုး',
+    noOrders: 'ဝယ်ယူမှာယူစာ မရှိပါ',
+    noOrdersHint: 'မှာယူစာ ဖန်တီးပါ သို့မဟုတ် ပြန်မှာရန် အကြံပြုချက်မှ စတင်ပါ',
+    orderNotFound: 'ဝယ်ယူမှာယူစာ မတွေ့ပါ',
+    createdOn: '{{date}} တွင် ဖန်တီးခဲ့သည်',
+    sentOn: '{{date}} တွင် ပို့ခဲ့သည်',
+    receivedOn: '{{date}} တွင် လက်ခံခဲ့သည်',
+    receivedValue: 'လက်ခံပြီး',
+    paid: 'ပေးချေပြီး',
+    outstanding: 'ပေးရန်ကျန်',
+    orderedAt: '{{quantity}} × {{cost}}',
+    receivedQuantity: '{{quantity}} လက်ခံပြီး',
+    remainingQuantity: '{{quantity}} ရောက်ရန်ကျန်',
+    markSent: 'ပို့ပြီးအဖြစ် မှတ်ရန်',
+    orderSent: 'ဝယ်ယူမှာယူစာကို ပို့ပြီးအဖြစ် မှတ်ပြီးပါပြီ',
+    cancelOrder: 'မှာယူမှု ပယ်ဖျက်ရန်',
+    cancelOrderConfirm: 'ဤဝယ်ယူမှာယူစာကို ပယ်ဖျက်မလား? ပစ္စည်း မလက်ခံရသေးပါ။',
+    orderCancelled: 'ဝယ်ယူမှာယူစာ ပယ်ဖျက်ပြီးပါပြီ',
+    deleteOrder: 'မှာယူစာ ဖျက်ရန်',
+    deleteOrderConfirm: 'ဤဝယ်ယူမှာယူစာကို ဖျက်မလား?',
+    orderDeleted: 'ဝယ်ယူမှာယူစာ ဖျက်ပြီးပါပြီ',
+    receiveGoods: 'ပစ္စည်း လက်ခံရန်',
+    receiveQuantity: 'လက်ခံမည်',
+    remainingOfOrdered: '{{ordered}} အနက် {{remaining}} ရောက်ရန်ကျန်',
+    receiveTotal: 'လက်ခံသည့် တန်ဖိုး',
+    confirmReceive: 'စတော့ထဲ လက်ခံရန်',
+    enterReceiveQuantity: 'ပစ္စည်းအနည်းဆုံး တစ်ခုအတွက် အရေအတွက် ထည့်ပါ',
+    receiveExceedsRemaining: '{{product}} {{remaining}} ခုသာ ရောက်ရန်ကျန်ပါသည်',
+    fullyReceived: 'ပစ္စည်းအားလုံး လက်ခံပြီးပါပြီ',
+    partiallyReceived: 'ပစ္စည်း လက်ခံပြီး၊ ကျန်ရှိသည်များ ရောက်ရန်ကျန်ပါသည်',
+    failedToReceive: 'ပစ္စည်း လက်ခံ၍ မရပါ',
+    payables: 'ပေးရန်ရှိငွေ',
+    totalPayable: 'ပေးသွင်းသူများထံ ပေးရန်ရှိငွေ စုစုပေါင်း',
+    receivedAndPaid: 'လက်ခံ {{received}} • ပေးချေ {{paid}}',
+    openOrders: 'ဖွင့်ထားသော မှာယူစာ {{count}} ခု',
+    noPayables: 'ပေးသွင်းသူများထံ ပေးရန် မရှိပါ',
+    recordPayment: 'ငွေပေးချေမှု မှတ်တမ်းတင်ရန်',
+    paymentAmount: 'ပေးချေမည့် ပမာဏ',
+    selectPaymentMethod: 'ငွေပေးချေမှုနည်းလမ်း',
+    paymentNotePlaceholder: 'ချက်လက်မှတ် သို့မဟုတ် ငွေလွှဲ ရည်ညွှန်းချက်',
+    invalidPaymentAmount: 'သုညထက်ကြီးသော ပမာဏ ထည့်ပါ',
+    paymentRecorded: 'ပေးသွင်းသူ ငွေပေးချေမှု မှတ်တမ်းတင်ပြီးပါပြီ',
+    failedToRecordPayment: 'ငွေပေးချေမှု မှတ်တမ်းတင်၍ မရပါ',
+    suggestionsHint:
+      'စတော့နည်းမည့် ခန့်မှန်းချက်များအပေါ် အခြေခံပြီး မှာထားပြီးသည်များကို နုတ်ထားသည်။',
+    suggestionStock:
+      'စတော့ {{current}} • အနည်းဆုံး {{min}} • မှာထားဆဲ {{onOrder}}',
+    createDraft: 'မူကြမ်း မှာယူစာ ဖန်တီးရန်',
+    noSuggestions: 'ပြန်မှာရန် အကြံပြုချက် မရှိပါ',
+    noSuggestionsHint:
+      'ပေးသွင်းသူရှိသော စတော့နည်းပစ္စည်းများ ဤနေရာတွင် ပေါ်လာမည်',
+    tabs: {
+      orders: 'မှာယူစာများ',
+      suggestions: 'အကြံပြုချက်များ',
+      payables: 'ပေးရန်ရှိငွေ',
+    },
+    statuses: {
+      draft: 'မူကြမ်း',
+      sent: 'ပို့ပြီး',
+      partially_received: 'တစ်စိတ်တစ်ပိုင်း လက်ခံပြီး',
+      received: 'လက်ခံပြီး',
+      cancelled: 'ပယ်ဖျက်ပြီး',
+    },
+  },
+  inventoryValuation: {
+    title: 'ကုန်လက်ကျန်တန်ဖိုး',
+    totalValue: 'ကုန်လက်ကျန်တန်ဖိုး',
+    unitsInStock: 'ကုန်ပစ္စည်း {{products}} မျိုးတွင် {{quantity}} ခု',
+    quantityAtCost: '{{quantity}} × {{cost}}',
+    noStock: 'လက်ကျန်ရှိသော ကုန်ပစ္စည်းမရှိပါ',
+    changeMethod: 'ကုန်ကျစရိတ်တွက်နည်း ပြောင်းရန်',
+    changeMethodConfirm:
+      '{{method}} သို့ ပြောင်းမလား? ကုန်ပစ္စည်းကုန်ကျစရိတ်များကို လက်ကျန်မှ ပြန်တွက်ပြီး နောက်ရောင်းချမှုများတွင် အသုံးပြုပါမည်။',
+    methodChanged: 'ကုန်ကျစရိတ်တွက်နည်း ပြောင်းပြီးပါပြီ',
+    failedToChangeMethod: 'ကုန်ကျစရိတ်တွက်နည်း ပြောင်း၍မရပါ',
+    methods: {
+      weighted_average: 'ပျမ်းမျှကုန်ကျစရိတ်',
+      fifo: 'FIFO (အရင်ဝင်အရင်ထွက်)',
+    },
+    methodHints: {
+      weighted_average:
+        'ပစ္စည်းအဝင်တိုင်း ကုန်ပစ္စည်းကုန်ကျစရိတ်ကို လက်ကျန်အားလုံး၏ ပျမ်းမျှကုန်ကျစရိတ်သို့ ပြောင်းပါမည်။',
+      fifo: 'ရောင်းချမှုများသည် အစောဆုံးဝင်ထားသော ပစ္စည်းများ၏ ကုန်ကျစရိတ်ကို ဦးစွာသုံးပါမည်။ လက်ကျန်ကို ကျန်ရှိသော ပစ္စည်းများ၏ ကုန်ကျစရိတ်ဖြင့် တန်ဖိုးဖြတ်ပါမည်။',
+    },
+  },
+  variants: {
+    title: 'အမျိုးအစားခွဲများ',
+    addVariant: 'အမျိုးအစားခွဲ ထည့်ရန်',
+    editVariant: 'အမျိုးအစားခွဲ ပြင်ရန်',
+    deleteVariant: 'အမျိုးအစားခွဲ ဖျက်ရန်',
+    deleteConfirm: '"{{name}}" ကို ဖျက်မည်လား?',
+    chooseVariant: 'အမျိုးအစားခွဲ ရွေးပါ',
+    noVariants: 'ဤကုန်ပစ္စည်းတွင် အမျိုးအစားခွဲ မရှိသေးပါ',
+    noVariantsHint:
+      'အရွယ်အစား သို့မဟုတ် အရောင်ကဲ့သို့ အမျိုးအစားခွဲများကို ဘားကုဒ်၊ ဈေးနှုန်းနှင့် လက်ကျန် သီးခြားစီဖြင့် ထည့်ပါ',
+    variantCount: 'အမျိုးအစားခွဲ {{count}} ခု',
+    inStock: 'လက်ကျန် {{quantity}}',
+    optionNames: 'ရွေးချယ်မှု အမည်များ',
+    optionNamesPlaceholder: 'ဥပမာ - အရွယ်အစား, အရောင်',
+    optionNamesRequired: 'ရွေးချယ်မှု အမည် အနည်းဆုံးတစ်ခု ထည့်ပါ',
+    optionValuesRequired: 'ရွေးချယ်မှုတိုင်းအတွက် တန်ဖိုး ထည့်ပါ',
+    priceRequired: 'သုညထက်ကြီးသော ဈေးနှုန်း ထည့်ပါ',
+    stockTrackedPerVariant:
+      'လက်ကျန်ကို ဤကုန်ပစ္စည်း၏ အမျိုးအစားခွဲ {{count}} ခုတွင် မှတ်သားထားသည်',
+    soldLast30Days:
+      'နောက်ဆုံး ရက် ၃၀ တွင် {{quantity}} ခု • {{revenue}} ရောင်းရသည်',
+    totalLast30Days: 'အမျိုးအစားခွဲ အားလုံး၊ နောက်ဆုံး ရက် ၃၀',
+    totalSold:
+      '{{quantity}} ခု ရောင်းရ • ဝင်ငွေ {{revenue}} • အမြတ် {{profit}}',
+    variantAdded: 'အမျိုးအစားခွဲ ထည့်ပြီးပါပြီ',
+    variantUpdated: 'အမျိုးအစားခွဲ ပြင်ပြီးပါပြီ',
+    variantDeleted: 'အမျိုးအစားခွဲ ဖျက်ပြီးပါပြီ',
+    failedToSave: 'အမျိုးအစားခွဲ သိမ်းဆည်း၍ မရပါ',
+    failedToDelete: 'အမျိုးအစားခွဲ ဖျက်၍ မရပါ',
+  },
+  sync: {
+    title: 'ဒေတာထပ်တူပြုခြင်း',
+    subtitle: 'ထပ်တူပြုဆာဗာမှတစ်ဆင့် စက်များအကြား ဒေတာမျှဝေပါ',
+    server: 'ထပ်တူပြုဆာဗာ',
+    serverUrl: 'ဆာဗာ URL',
+    serverUrlHint:
+      'ကွန်ရက်တစ်ခုတည်းရှိ ကွန်ပျူတာတွင် "npm run sync-server" ကို run ပြီး ၎င်း၏လိပ်စာကို ထည့်ပါ',
+    invalidUrl: 'http:// သို့မဟုတ် https:// ဖြင့်စသော URL ကို ထည့်ပါ',
+    settingsSaved: 'ထပ်တူပြုဆက်တင်များ သိမ်းဆည်းပြီးပါပြီ',
+    testConnection: 'ချိတ်ဆက်မှု စမ်းသပ်ရန်',
+    serverReachable: 'ထပ်တူပြုဆာဗာနှင့် ချိတ်ဆက်နိုင်ပါသည်',
+    serverUnreachable: 'ထပ်တူပြုဆာဗာနှင့် ချိတ်ဆက်၍မရပါ',
+    automaticSync: 'အလိုအလျောက် ထပ်တူပြုရန်',
+    automaticSyncHint:
+      'အချိန်ဇယားအတိုင်းနှင့် အက်ပ်ဖွင့်သည့်အခါ ထပ်တူပြုပါမည်။ အော့ဖ်လိုင်းတွင်လည်း ရောင်းချနိုင်ပါသည်။',
+    interval: 'ထပ်တူပြုမည့်ကြာချိန်',
+    everyMinutes: '{{minutes}} မိနစ်',
+    status: 'အခြေအနေ',
+    pendingChanges: 'ထပ်တူပြုရန် စောင့်နေသော ပြောင်းလဲမှုများ',
+    lastSynced: 'နောက်ဆုံး ထပ်တူပြုချိန်',
+    never: 'မရှိသေးပါ',
+    offline:
+      'အော့ဖ်လိုင်း ဖြစ်နေပါသည်။ ဆာဗာနှင့် ချိတ်ဆက်နိုင်သည့်အခါ ပြောင်းလဲမှုများကို ပို့ပါမည်။',
+    syncNow: 'ယခု ထပ်တူပြုရန်',
+    syncComplete:
+      'ထပ်တူပြုပြီးပါပြီ: {{pushed}} ခု ပို့ပြီး၊ {{pulled}} ခု ရရှိ',
+    conflicts: 'မကြာသေးမီက ပဋိပက္ခများ',
+    conflictsHint:
+      'စက်တစ်ခုထက်ပိုသော စက်များတွင် ပြောင်းလဲခဲ့သော အချက်အလက်များနှင့် ဖြေရှင်းပုံ',
+    noConflicts: 'ပဋိပက္ခ မရှိပါ',
+    resolutions: {
+      kept_local: 'ဤစက်၏ဒေတာ ထားရှိ',
+      took_remote: 'အခြားစက်၏ဒေတာ ယူ',
+      merged: 'ပေါင်းစည်းပြီး',
+      failed: 'မအောင်မြင်',
+    },
+  },
+  stockReconciliation: {
+    title: 'လက်ကျန်ညှိနှိုင်းခြင်း',
+    settingSaved: 'အနုတ်လက်ကျန် ဆက်တင်ကို သိမ်းပြီးပါပြီ',
+    failedToSave: 'အနုတ်လက်ကျန် ဆက်တင်ကို သိမ်း၍မရပါ',
+    oversoldSummary:
+      'စက် {{devices}} လုံးမှ အရောင်း {{sales}} ခုတွင် {{quantity}} ခု ပိုရောင်းထားသည်',
+    firstOversold: '{{date}} တွင် သုညအောက် စတင်ရောက်ခဲ့သည်',
+    negativeStock: 'အနုတ်',
+    oversold: 'ပိုရောင်းထား',
+    allowNegativeStock: 'အနုတ်လက်ကျန် ခွင့်ပြုရန်',
+    allowNegativeStockOn:
+      'လက်ကျန်သုညဖြစ်နေလည်း ရောင်းနိုင်သည်၊ လက်ကျန် သုညအောက် ရောက်နိုင်သည်',
+    allowNegativeStockOff: 'လက်ကျန်မလုံလောက်ပါက ငွေရှင်းခြင်းကို ပိတ်ထားသည်',
+    allClear: 'စက်များ ပေါင်းစည်းပြီးနောက် ပိုရောင်းထားသော ကုန်ပစ္စည်း မရှိပါ',
+  },
+  backups: {
+    title: 'အရန်ကူးယူမှုများ',
+    subtitle: 'ဤစက်တွင် သိမ်းထားသော သင့်ဒေတာ၏ အလိုအလျောက် မိတ္တူများ',
+    schedule: 'အလိုအလျောက် အရန်ကူးယူခြင်း',
+    dailyAtClose: 'နေ့စဉ် ဆိုင်ပိတ်ချိန်တွင်',
+    dailyAtCloseHint:
+      'ဆိုင်ပိတ်ချိန်တွင် အက်ပ်ပိတ်ထားပါက နောက်တစ်ကြိမ် ဖွင့်သည့်အခါ အရန်ကူးယူပါမည်',
+    closeTime: 'ဆိုင်ပိတ်ချိန် (HH:MM)',
+    invalidCloseTime: 'ဆိုင်ပိတ်ချိန်ကို HH:MM ပုံစံဖြင့် ထည့်ပါ၊ ဥပမာ 21:00',
+    everySales: 'အရောင်း အကြိမ်တိုင်းပြီးနောက်လည်း အရန်ကူးရန်',
+    salesCount: 'အရောင်း {{count}} ခု',
+    off: 'ပိတ်',
+    keep: 'သိမ်းထားရန်',
+    keepCount: 'နောက်ဆုံး {{count}} ခု',
+    keepHint: 'အဟောင်းများကို အလိုအလျောက် ဖျက်ပါမည်',
+    settingsSaved: 'အရန်ကူးယူမှု ဆက်တင်များကို သိမ်းပြီးပါပြီ',
+    backupNow: 'ယခု အရန်ကူးရန်',
+    backupCreated: 'မှတ်တမ်း {{count}} ခုဖြင့် အရန်ကူးပြီးပါပြီ',
+    lastBackupFailed: 'နောက်ဆုံး အရန်ကူးယူမှု မအောင်မြင်ပါ: {{error}}',
+    savedBackups: 'သိမ်းထားသော အရန်ကူးယူမှုများ',
+    restoreHint:
+      'ပြန်လည်ရယူခြင်းသည် လက်ရှိဒေတာအားလုံးကို အရန်ဖြင့် အစားထိုးပါသည်။ အရန်ကူးပြီးနောက် ထည့်ထားသော မှတ်တမ်းများ ဖယ်ရှားခံရပါမည်။',
+    noBackups: 'အရန်ကူးယူမှု မရှိသေးပါ',
+    recordSummary:
+      'ကုန်ပစ္စည်း {{products}} • အရောင်း {{sales}} • ဖောက်သည် {{customers}}',
+    checksumFailed: 'ပျက်စီးနေသည်: checksum နှင့် မကိုက်ညီပါ',
+    restore: 'ပြန်လည်ရယူရန်',
+    restoreTitle: 'အရန်ကူးယူမှု ပြန်လည်ရယူခြင်း',
+    restoreMessage:
+      'လက်ရှိဒေတာအားလုံးကို {{date}} မှ အရန်ကူးယူမှုဖြင့် အစားထိုးမလား? လက်ရှိဒေတာကို ဦးစွာ အရန်ကူးထားပါမည်။',
+    restoring: 'အရန်ကူးယူမှု ပြန်လည်ရယူနေသည်...',
+    restoreComplete: 'ပြန်လည်ရယူပြီးပါပြီ: မှတ်တမ်း {{count}} ခု',
+    restoreFailed: 'ပြန်လည်ရယူခြင်း မအောင်မြင်ပါ။ ဒေတာ မပြောင်းလဲပါ။',
+    deleteTitle: 'အရန်ကူးယူမှု ဖျက်ရန်',
+    deleteMessage: '{{date}} မှ အရန်ကူးယူမှုကို ဖျက်မလား?',
+    triggers: {
+      daily: 'နေ့စဉ်',
+      sales: 'အရောင်းများပြီးနောက်',
+      manual: 'ကိုယ်တိုင်',
+      pre_restore: 'ပြန်လည်ရယူခြင်းမတိုင်မီ',
+    },
+  },
+  passphrase: {
+    setTitle: 'ထုတ်ယူမှု စကားဝှက် သတ်မှတ်ရန်',
+    setHint:
+      'ဤဖိုင်ကို ဖွင့်သူတိုင်း စကားဝှက် လိုအပ်ပါမည်။ မေ့သွားပါက ပြန်ယူ၍ မရပါ။',
+    enterTitle: 'ကုဒ်ဝှက်ထားသော ဖိုင်',
+    enterHint:
+      'ဤဖိုင်ကို ကုဒ်ဝှက်ထားသည်။ ထုတ်ယူစဉ်က အသုံးပြုခဲ့သော စကားဝှက်ကို ထည့်ပါ။',
+    passphrase: 'စကားဝှက်',
+    confirm: 'စကားဝှက် အတည်ပြုရန်',
+    encrypt: 'ကုဒ်ဝှက်ပြီး ထုတ်ယူရန်',
+    unlock: 'ဖိုင်ဖွင့်ရန်',
+    tooShort: 'စကားဝှက်သည် အနည်းဆုံး စာလုံး {{count}} လုံး ရှိရမည်',
+    mismatch: 'စကားဝှက်များ မကိုက်ညီပါ',
+    wrongPassphrase: 'စကားဝှက် မှားနေသည်။ ထပ်စမ်းကြည့်ပါ။',
+  },
+  spreadsheetImport: {
+    title: 'စာရင်းဇယား ကော်လံများ ချိတ်ဆက်ရန်',
+    rowsFound: '{{filename}} တွင် အတန်း {{count}} ခု တွေ့ရှိသည်',
+    importAs: 'ထည့်သွင်းမည့် အမျိုးအစား',
+    columns: 'ကော်လံများ',
+    column: 'ကော်လံ {{number}}',
+    example: 'ဥပမာ {{value}}',
+    notMapped: 'ဖိုင်တွင် မပါ',
+    requiredMissing: 'ဤအကွက်များအတွက် ကော်လံ ရွေးပါ: {{fields}}',
+    preview: 'ထည့်သွင်းမှု အစမ်းကြည့်ရန်',
+    emptyFile: 'ဖိုင်တွင် ခေါင်းစီးအတန်း သို့မဟုတ် ဒေတာအတန်း မရှိပါ။',
+    readFailed:
+      'ဖိုင်ကို ဖတ်၍မရပါ။ CSV သို့မဟုတ် Excel (.xlsx) ဖိုင်ကို အသုံးပြုပါ။',
+    confirmNew: '{{type}} အသစ် {{count}} ခု ထည့်ပါမည်။',
+    importComplete:
+      'စာရင်းဇယား ထည့်သွင်းမှု ပြီးပါပြီ: {{imported}} ခု ထည့်၊ {{updated}} ခု ပြင်ဆင်၊ {{skipped}} ခု ကျော်',
+    entities: {
+      products: 'ကုန်ပစ္စည်းများ',
+      customers: 'ဖောက်သည်များ',
+      suppliers: 'ပေးသွင်းသူများ',
+    },
+    fields: {
+      name: 'အမည်',
+      barcode: 'ဘားကုဒ်',
+      category: 'အမျိုးအစား',
+      price: 'ရောင်းဈေး',
+      cost: 'ကုန်ကျစရိတ်',
+      quantity: 'အရေအတွက်',
+      min_stock: 'အနည်းဆုံး လက်ကျန်',
+      supplier: 'ပေးသွင်းသူ',
+      contact_name: 'ဆက်သွယ်ရမည့်သူ',
+      phone: 'ဖုန်း',
+      email: 'အီးမေးလ်',
+      address: 'လိပ်စာ',
+    },
+  },
+  accountingExport: {
+    title: 'စာရင်းကိုင် အစီရင်ခံစာများ',
+    rawNumbers: 'ရိုးရိုး ကိန်းဂဏန်းများ',
+    rawNumbersDesc:
+      'ငွေပမာဏများကို ထောင်ဂဏန်းခြားသင်္ကေတမပါဘဲ ဒသမအတွက် အစက်ဖြင့် ရေးမည်',
+    currencyNote:
+      'ငွေပမာဏများသည် {{code}} ဖြစ်ပြီး ဖိုင်များကို CSV အဖြစ် သိမ်းပါသည်။',
+    exported: 'အတန်း {{count}} ခု ထုတ်ယူပြီးပါပြီ',
+    exportFailed: 'အစီရင်ခံစာကို ထုတ်ယူ၍မရပါ။ ထပ်မံကြိုးစားပါ။',
+    notReady: 'အစီရင်ခံစာများ အဆင်သင့်မဖြစ်သေးပါ',
+    reports: {
+      sales: {
+        title: 'အရောင်းများ',
+        description:
+          'အရောင်းတစ်ခုလျှင် တစ်တန်း၊ ငွေပေးချေမှု၊ အခွန်နှင့် စုစုပေါင်း',
+      },
+      sale_lines: {
+        title: 'ရောင်းချသော ပစ္စည်းများ',
+        description:
+          'ရောင်းသည့် ပစ္စည်းတစ်ခုလျှင် တစ်တန်း၊ ဈေးနှုန်း၊ လျှော့ဈေး၊ အခွန်နှင့် ကုန်ကျစရိတ်',
+      },
+      expenses: {
+        title: 'အသုံးစရိတ်များ',
+        description: 'အမျိုးအစားနှင့် ဖော်ပြချက်ပါသော အသုံးစရိတ်များ',
+      },
+      stock_movements: {
+        title: 'စတော့ အဝင်အထွက်များ',
+        description:
+          'ကုန်ကျစရိတ်၊ ပေးသွင်းသူနှင့် ရည်ညွှန်းချက်ပါသော စတော့အဝင်နှင့် အထွက်',
+      },
+      debt_aging: {
+        title: 'အကြွေး သက်တမ်း',
+        description: 'ကာလအဆုံးတွင် မပေးရသေးသော ဖောက်သည်အကြွေး၊ ကြာချိန်အလိုက်',
+      },
+      profit_loss: {
+        title: 'အရှုံးအမြတ်',
+        description:
+          'ဝင်ငွေ၊ ကုန်ပစ္စည်းကုန်ကျစရိတ်၊ အမျိုးအစားအလိုက် အသုံးစရိတ်နှင့် အသားတင်အမြတ်',
+      },
+    },
+  },
+  promotions: {
+    title: 'ပရိုမိုးရှင်းများ',
+    performance: 'စွမ်းဆောင်ရည်',
+    addPromotion: 'ပရိုမိုးရှင်း ထည့်ရန်',
+    editPromotion: 'ပရိုမိုးရှင်း ပြင်ဆင်ရန်',
+    deletePromotion: 'ပရိုမိုးရှင်း ဖျက်ရန်',
+    areYouSure: 'ဖျက်ရန် သေချာပါသလား',
+    noPromotions: 'ပရိုမိုးရှင်း မရှိသေးပါ',
+    addFirstPromotion:
+      'အရောင်းစာမျက်နှာတွင် အလိုအလျောက် သုံးမည့် ပရိုမိုးရှင်း ထည့်ရန် + ကို နှိပ်ပါ',
+    promotionAdded: 'ပရိုမိုးရှင်း ထည့်ပြီးပါပြီ',
+    promotionUpdated: 'ပရိုမိုးရှင်း ပြင်ဆင်ပြီးပါပြီ',
+    promotionDeleted: 'ပရိုမိုးရှင်း ဖျက်ပြီးပါပြီ',
+    failedToSave: 'ပရိုမိုးရှင်း သိမ်းဆည်း၍ မရပါ',
+    failedToDelete: 'ပရိုမိုးရှင်း ဖျက်၍ မရပါ',
+    runningNow: 'ယခု အသုံးပြုနေသည်',
+    name: 'ပရိုမိုးရှင်း အမည်',
+    namePlaceholder: 'ဥပမာ - Happy Hour အချိုရည်',
+    type: 'အမျိုးအစား',
+    types: {
+      buy_x_get_y: 'X ခု ဝယ် Y ခု အခမဲ့',
+      percent_off: 'ရာခိုင်နှုန်း လျှော့စျေး',
+      bundle_price: 'အတွဲလိုက် စျေးနှုန်း',
+    },
+    buyQuantity: 'ဝယ်ရမည့် အရေအတွက်',
+    getQuantity: 'အခမဲ့ရမည့် အရေအတွက်',
+    discountPercent: 'လျှော့စျေး (%)',
+    bundlePrice: 'အတွဲလိုက် စျေးနှုန်း',
+    bundlePriceHint: 'အတွဲထဲရှိ ကုန်ပစ္စည်းတစ်မျိုးစီ တစ်ခုစီအတွက် စျေးနှုန်း',
+    category: 'အမျိုးအစား',
+    noCategory: 'အမျိုးအစား မရွေးပါ',
+    products: 'ကုန်ပစ္စည်းများ',
+    addProduct: 'ကုန်ပစ္စည်း ထည့်ရန်',
+    coverageHint:
+      'ဖော်ပြထားသော ကုန်ပစ္စည်းများနှင့် အမျိုးအစားထဲရှိ ကုန်ပစ္စည်းအားလုံးအတွက် သက်ရောက်သည်',
+    bundleProductsHint: 'ကုန်ပစ္စည်း အနည်းဆုံး နှစ်မျိုး ထည့်ပါ',
+    startDate: 'စတင်ရက်',
+    endDate: 'ပြီးဆုံးရက်',
+    startTime: 'စတင်ချိန်',
+    endTime: 'ပြီးဆုံးချိန်',
+    scheduleHint:
+      'နေ့တိုင်း အသုံးပြုရန် ကွက်လပ်ထားပါ။ 17:00–19:00 ကဲ့သို့ အချိန်သတ်မှတ်ပါက Happy Hour ဖြစ်သည်။',
+    active: 'အသုံးပြုနေသည်',
+    buyXGetYRule: '{{buy}} ခု ဝယ်လျှင် {{get}} ခု အခမဲ့',
+    percentOffRule: '{{percent}}% လျှော့',
+    bundlePriceRule: 'အတွဲလိုက် {{price}}',
+    unknownProduct: 'ဖျက်ထားသော ကုန်ပစ္စည်း',
+    unknownCategory: 'ဖျက်ထားသော အမျိုးအစား',
+    enterName: 'ပရိုမိုးရှင်း အမည် ထည့်ပါ',
+    invalidQuantities: 'ဝယ်ရမည့်နှင့် အခမဲ့ရမည့် အရေအတွက် အနည်းဆုံး ၁ ဖြစ်ရမည်',
+    invalidPercent: 'လျှော့စျေးသည် ၀ ထက်ကြီး၍ ၁၀၀ ထက် မကျော်ရပါ',
+    invalidBundlePrice: 'မှန်ကန်သော အတွဲလိုက် စျေးနှုန်း ထည့်ပါ',
+    bundleNeedsProducts:
+      'အတွဲတစ်ခုတွင် ကုန်ပစ္စည်း အနည်းဆုံး နှစ်မျိုး လိုအပ်သည်',
+    selectProductsOrCategory:
+      'အမျိုးအစား သို့မဟုတ် ကုန်ပစ္စည်း အနည်းဆုံး တစ်ခု ရွေးပါ',
+    invalidDates:
+      'ရက်စွဲများကို YYYY-MM-DD ဖြင့် ထည့်ပြီး ပြီးဆုံးရက်သည် စတင်ရက်မတိုင်မီ မဖြစ်ရပါ',
+    invalidTimes:
+      'စတင်ချိန်နှင့် ပြီးဆုံးချိန် နှစ်ခုလုံးကို HH:MM ဖြင့် ထည့်ပါ',
+    discountGiven: 'ပေးခဲ့သော လျှော့စျေး',
+    promotedSales: 'ပရိုမိုးရှင်းပါ အရောင်းများ',
+    ofAllSales: 'အရောင်းအားလုံး၏ {{percent}}%',
+    avgPromotedSale: 'ပရိုမိုးရှင်းပါ ပျမ်းမျှ အရောင်း',
+    avgOtherSale: 'ပရိုမိုးရှင်းမပါ ပျမ်းမျှ အရောင်း',
+    byPromotion: 'ပရိုမိုးရှင်းအလိုက်',
+    noPerformanceData: 'ဤကာလအတွင်း ပရိုမိုးရှင်း အသုံးမပြုခဲ့ပါ',
+    salesCount: 'အရောင်း {{count}} ခု',
+    revenue: 'အရောင်းတန်ဖိုး',
+  },
+  orderDiscount: {
+    title: 'အော်ဒါလျှော့စျေး',
+    addDiscount: 'အော်ဒါလျှော့စျေး သို့မဟုတ် ကူပွန် ထည့်ရန်',
+    remove: 'အော်ဒါလျှော့စျေး ဖယ်ရှားရန်',
+    amount: 'ပမာဏ',
+    reason: 'အကြောင်းပြချက်',
+    reasonPlaceholder: 'လျှော့စျေးအတွက် အကြောင်းပြချက် (လိုအပ်သည်)',
+    reasonRequired: 'အော်ဒါလျှော့စျေးအတွက် အကြောင်းပြချက် ထည့်ပါ',
+    invalidPercent: 'အော်ဒါလျှော့စျေးသည် ၁၀၀ ရာခိုင်နှုန်းထက် မများရပါ',
+    couponPlaceholder: 'ကူပွန်ကုဒ်',
+    apply: 'အသုံးပြုရန်',
+    couponLabel: 'ကူပွန် {{code}}',
+    couponCheckFailed: 'ကူပွန်ကို စစ်ဆေး၍မရပါ။ ထပ်မံကြိုးစားပါ။',
+    couponErrors: {
+      not_found: 'ဤကုဒ်ဖြင့် ကူပွန်မရှိပါ',
+      inactive: 'ဤကူပွန်ကို ပိတ်ထားသည်',
+      expired: 'ဤကူပွန် သက်တမ်းကုန်သွားပြီ',
+      used_up: 'ဤကူပွန်ကို အသုံးပြုပြီးဖြစ်သည်',
+      below_minimum: 'အော်ဒါသည် ဤကူပွန်အတွက် အနည်းဆုံးဝယ်ယူမှုပမာဏ မပြည့်ပါ',
+    },
+  },
+  coupons: {
+    title: 'ကူပွန်များ',
+    analytics: 'ခွဲခြမ်းစိတ်ဖြာချက်',
+    addCoupon: 'ကူပွန်ထည့်ရန်',
+    editCoupon: 'ကူပွန်ပြင်ဆင်ရန်',
+    deleteCoupon: 'ကူပွန်ဖျက်ရန်',
+    areYouSure: 'ဖျက်ရန် သေချာပါသလား',
+    noCoupons: 'ကူပွန်များ မရှိသေးပါ',
+    addFirstCoupon:
+      'ငွေရှင်းစဉ် ငွေကိုင်များထည့်နိုင်သော ကူပွန်ကုဒ်ထည့်ရန် + ကိုနှိပ်ပါ',
+    couponAdded: 'ကူပွန်ထည့်ပြီးပါပြီ',
+    couponUpdated: 'ကူပွန်ပြင်ဆင်ပြီးပါပြီ',
+    couponDeleted: 'ကူပွန်ဖျက်ပြီးပါပြီ',
+    failedToSave: 'ကူပွန်သိမ်းဆည်းရန် မအောင်မြင်ပါ',
+    failedToDelete: 'ကူပွန်ဖျက်ရန် မအောင်မြင်ပါ',
+    code: 'ကုဒ်',
+    codePlaceholder: 'ဥပမာ WELCOME10',
+    description: 'ဖော်ပြချက်',
+    descriptionPlaceholder: 'ဥပမာ ဖောက်သည်သစ် ကြိုဆိုရေးအစီအစဉ်',
+    discountType: 'လျှော့စျေးအမျိုးအစား',
+    types: {
+      percent: 'ရာခိုင်နှုန်းလျှော့',
+      fixed: 'ပမာဏလျှော့',
+    },
+    discountPercent: 'လျှော့စျေး (%)',
+    discountAmount: 'လျှော့စျေးပမာဏ',
+    minSpend: 'အနည်းဆုံးဝယ်ယူမှု',
+    expiresOn: 'သက်တမ်းကုန်ရက်',
+    expiryHint:
+      'ဤနေ့တွင် ကူပွန်ကို အသုံးပြုနိုင်သေးသည်။ သက်တမ်းမကုန်စေရန် ဗလာထားပါ။',
+    singleUse: 'တစ်ကြိမ်သာသုံးရန်',
+    maxUses: 'အများဆုံးအသုံးပြုနိုင်မှု',
+    unlimited: 'အကန့်အသတ်မရှိ',
+    maxUsesHint: 'အကန့်အသတ်မရှိ အသုံးပြုနိုင်ရန် ဗလာထားပါ',
+    active: 'အသက်ဝင်',
+    percentOffRule: 'အော်ဒါမှ {{percent}}% လျှော့',
+    amountOffRule: 'အော်ဒါမှ {{amount}} လျှော့',
+    minSpendRule: 'အနည်းဆုံး {{amount}}',
+    expiresRule: '{{date}} တွင် သက်တမ်းကုန်',
+    usesOfMax: '{{max}} ကြိမ်အနက် {{count}} ကြိမ် အသုံးပြုပြီး',
+    uses: '{{count}} ကြိမ် အသုံးပြုပြီး',
+    status: {
+      expired: 'သက်တမ်းကုန်',
+      used_up: 'သုံးပြီး',
+    },
+    enterCode: 'ကူပွန်ကုဒ် ထည့်ပါ',
+    codeExists: 'ဤကုဒ်ဖြင့် ကူပွန်ရှိပြီးဖြစ်သည်',
+    invalidPercent: 'လျှော့စျေးသည် 0 ထက်များပြီး 100 ရာခိုင်နှုန်းထက် မများရပါ',
+    invalidAmount: 'မှန်ကန်သော လျှော့စျေးပမာဏ ထည့်ပါ',
+    invalidMinSpend: 'မှန်ကန်သော အနည်းဆုံးဝယ်ယူမှု ထည့်ပါ',
+    invalidExpiry: 'သက်တမ်းကုန်ရက်သည် YYYY-MM-DD ဖြစ်ရမည်',
+    invalidMaxUses: 'အများဆုံးအသုံးပြုနိုင်မှုသည် အနည်းဆုံး 1 ဖြစ်ရမည်',
+    couponDiscounts: 'ကူပွန်လျှော့စျေးများ',
+    manualDiscounts: 'ကိုယ်တိုင်ထည့်သော အော်ဒါလျှော့စျေးများ',
+    discountedSales: 'အော်ဒါလျှော့စျေးပါသော အရောင်းများ',
+    ofAllSales: 'အရောင်းအားလုံး၏ {{percent}}%',
+    salesCount: 'အရောင်း {{count}} ခု',
+    byCoupon: 'ကူပွန်အလိုက်',
+    noAnalyticsData: 'ဤကာလအတွင်း ကူပွန်အသုံးမပြုခဲ့ပါ',
+    revenue: 'အရောင်းတန်ဖိုး',
+  },
+  loyalty: {
+    title: 'သစ္စာရှိဖောက်သည် အစီအစဉ်',
+    points: 'အမှတ်များ',
+    balance: 'အမှတ်လက်ကျန်',
+    balanceWithTier: 'အမှတ် {{points}} • {{tier}}',
+    tiers: {
+      bronze: 'ကြေးအဆင့်',
+      silver: 'ငွေအဆင့်',
+      gold: 'ရွှေအဆင့်',
+    },
+    tierRules: {
+      bronze: 'ဖောက်သည်သစ်၊ ရံဖန်ရံခါနှင့် ကြာမြင့်စွာ မဝယ်သော ဖောက်သည်များ',
+      silver: 'အလယ်အလတ်တန်ဖိုး ဖောက်သည်များ',
+      gold: 'တန်ဖိုးမြင့် ဖောက်သည်များ',
+    },
+    asPayment: 'ငွေပေးချေ',
+    asDiscount: 'လျှော့စျေး',
+    pointsToRedeem: 'သုံးမည့်အမှတ်',
+    useMax: 'အများဆုံး',
+    paidWithPoints: 'အမှတ်ဖြင့် ပေးချေ',
+    pointsDiscount: 'အမှတ်လျှော့စျေး (အမှတ် {{points}})',
+    amountDue: 'ပေးရန်ကျန်ငွေ',
+    willEarn: 'အမှတ် {{points}} ရရှိမည်',
+    notEnoughPoints: 'ဖောက်သည်တွင် အမှတ်အလုံအလောက် မရှိပါ',
+    tooManyPoints: 'ဤအရောင်းတွင် အမှတ် {{max}} အထိသာ သုံးနိုင်သည်',
+    pointsChangedAtCheckout:
+      'ဖောက်သည်တွင် ယခု အမှတ် {{points}} သာ ရှိသည်။ အမှတ်ကို ပြင်ပြီး ထပ်ကြိုးစားပါ။',
+    pointsEarned: 'ရရှိသောအမှတ်',
+    pointsBalance: 'အမှတ်လက်ကျန်',
+    earned: 'ရရှိ',
+    redeemed: 'သုံးစွဲ',
+    expiresOn: '{{date}} တွင် သက်တမ်းကုန်',
+    expiredPoints: 'အမှတ် {{points}} သက်တမ်းကုန်ပြီ',
+    noActivity: 'အမှတ်မှတ်တမ်း မရှိသေးပါ',
+    members: 'အဖွဲ့ဝင်များ',
+    pointsIssued: 'ပေးထားသောအမှတ်',
+    pointsRedeemed: 'သုံးစွဲပြီးအမှတ်',
+    enabled: 'အမှတ်အစီအစဉ်',
+    enabledHint: 'အရောင်းတွင် ရွေးထားသော ဖောက်သည်များ အမှတ်ရပြီး သုံးနိုင်သည်',
+    earnRate: 'ငွေတစ်ယူနစ်လျှင် အမှတ်',
+    pointValue: 'အမှတ်တစ်မှတ်၏ တန်ဖိုး',
+    rateExample:
+      '{{spend}} သုံးတိုင်း အမှတ် ၁ မှတ်၊ သုံးလျှင် {{value}} တန်ဖိုး',
+    expiryDays: 'အမှတ်သက်တမ်း (ရက်)',
+    expiryHint: 'အမှတ်ကို အမြဲထားရန် ဗလာ သို့မဟုတ် 0 ထားပါ',
+    tiersTitle: 'အဆင့်များ',
+    tiersHint:
+      'အဆင့်များသည် ဖောက်သည်ခွဲခြမ်းစိတ်ဖြာမှုမှ အုပ်စုများအတိုင်း ဖြစ်သည်။ အဆင့်တစ်ခုစီသည် ကိုယ်ပိုင်မြှောက်ကိန်းဖြင့် အမှတ်ရသည်။',
+    customerCount: 'ဖောက်သည် {{count}} ဦး',
+    multiplier: 'မြှောက်ကိန်း',
+    invalidEarnRate: 'အမှတ်ရနှုန်းကို 0 ထက်ကြီးအောင် ထည့်ပါ',
+    invalidPointValue: 'အမှတ်တန်ဖိုးကို 0 ထက်ကြီးအောင် ထည့်ပါ',
+    invalidExpiry: 'အမှတ်သက်တမ်း ရက်အရေအတွက် ထည့်ပါ',
+    invalidMultiplier: 'အဆင့်မြှောက်ကိန်းများ 0 ထက်ကြီးရမည်',
+    settingsSaved: 'သစ္စာရှိဖောက်သည် ဆက်တင်များ သိမ်းပြီးပါပြီ',
+    failedToSave: 'သစ္စာရှိဖောက်သည် ဆက်တင်များ သိမ်း၍မရပါ',
+  },
+  labels: {
+    title: 'ဘားကုဒ် တံဆိပ်များ',
+    products: 'ကုန်ပစ္စည်းများ',
+    selectHint:
+      'တံဆိပ်ထုတ်ရန် ကုန်ပစ္စည်းများ သို့မဟုတ် အမျိုးအစားတစ်ခုလုံးကို ထည့်ပါ။',
+    addProduct: 'ကုန်ပစ္စည်း ထည့်ရန်',
+    addCategory: 'အမျိုးအစား ထည့်ရန်',
+    clearSelection: 'ရွေးချယ်မှု ရှင်းရန်',
+    noBarcode: 'ဘားကုဒ် မရှိပါ',
+    noProductsInCategory: 'ဤအမျိုးအစားတွင် ကုန်ပစ္စည်း မရှိပါ',
+    noProductsSelected: 'တံဆိပ်ထုတ်ရန် ကုန်ပစ္စည်း အနည်းဆုံး တစ်ခု ထည့်ပါ',
+    missingBarcodes:
+      'ရွေးထားသော ကုန်ပစ္စည်း {{count}} ခုတွင် ဘားကုဒ် မရှိပါ။ စကင်ဖတ်နိုင်ရန် ဆိုင်တွင်းဘားကုဒ် ထုတ်ပါ။',
+    generateBarcodes: 'ဘားကုဒ်များ ထုတ်ရန်',
+    generateBarcode: 'ဘားကုဒ် ထုတ်ရန်',
+    barcodesGenerated: 'ဘားကုဒ် {{count}} ခု ထုတ်ပြီးပါပြီ',
+    failedToGenerate: 'ဘားကုဒ် ထုတ်၍ မရပါ',
+    design: 'တံဆိပ် ဒီဇိုင်း',
+    layout: 'စာရွက် အပြင်အဆင်',
+    layouts: {
+      a4_3x8: 'A4 • တံဆိပ် ၂၄ ခု (3 × 8)',
+      a4_4x10: 'A4 • တံဆိပ် ၄၀ ခု (4 × 10)',
+      a4_2x7: 'A4 • စင်တံဆိပ် ၁၄ ခု (2 × 7)',
+    },
+    show: {
+      name: 'ကုန်ပစ္စည်းအမည်',
+      price: 'ဈေးနှုန်း',
+      barcode: 'ဘားကုဒ်',
+      shopName: 'ဆိုင်အမည်',
+    },
+    skipLabels: 'စတင်မည့် တံဆိပ်',
+    skipHint:
+      'ပထမစာရွက်တွင် သုံးပြီးသား တံဆိပ်အရေအတွက်၊ တစ်စိတ်တစ်ပိုင်း သုံးထားသော စာရွက်ပေါ်တွင် ထုတ်နိုင်ရန်။',
+    labelCount: 'တံဆိပ် {{count}} ခု',
+    printSheet: 'တံဆိပ်စာရွက် ထုတ်ရန် (PDF)',
+    printThermal: 'Thermal ပရင်တာဖြင့် ထုတ်ရန်',
+    failedToPrint: 'တံဆိပ် ထုတ်၍ မရပါ',
+  },
+  receiptTemplates: {
+    newTemplate: 'ပုံစံအသစ်',
+    editTemplate: 'ပုံစံ ပြင်ဆင်ရန်',
+    deleteTemplate: 'ပုံစံ ဖျက်ရန်',
+    name: 'ပုံစံအမည်',
+    namePlaceholder: 'ဥပမာ - လိုဂိုပါ ဆိုင်ဘောက်ချာ',
+    description: 'ဖော်ပြချက်',
+    descriptionPlaceholder: 'မဖြစ်မနေ မလိုပါ',
+    html: 'အပြင်အဆင် (HTML)',
+    syntaxHelp:
+      'တန်ဖိုးတစ်ခုအတွက် {{shopName}}၊ ပုံစံချရန် {{total | currency}}၊ ပစ္စည်းတစ်ခုစီအတွက် ထပ်ပြရန် {{#each items}}…{{/each}} နှင့် တန်ဖိုးရှိမှသာ ပြရန် {{#if note}}…{{else}}…{{/if}} ကို သုံးပါ။',
+    placeholders: 'နေရာယူစာလုံးများ',
+    formatters: 'ပုံစံချစနစ်များ',
+    css: 'စတိုင် (CSS)',
+    preview: 'တိုက်ရိုက် အစမ်းကြည့်ရှုမှု',
+    previewUnavailable: 'အစမ်းကြည့်ရန် အထက်ပါ အမှားများကို ပြင်ပါ',
+    nameRequired: 'ပုံစံအမည် လိုအပ်ပါသည်',
+    fixErrors: 'မသိမ်းမီ ပုံစံထဲရှိ အမှားများကို ပြင်ပါ',
+    saved: 'ဘောက်ချာပုံစံ သိမ်းပြီးပါပြီ',
+    deleted: 'ဘောက်ချာပုံစံ ဖျက်ပြီးပါပြီ',
+    confirmDelete:
+      '"{{name}}" ကို ဖျက်မလား? ဤပုံစံကို ရွေးထားပါက ဘောက်ချာများသည် Classic ပုံစံကို သုံးပါမည်။',
+    failedToSave: 'ဘောက်ချာပုံစံ သိမ်း၍ မရပါ',
+    failedToDelete: 'ဘောက်ချာပုံစံ ဖျက်၍ မရပါ',
+    issues: {
+      unknown_placeholder: 'မသိသော နေရာယူစာလုံး - {{name}}',
+      unknown_formatter: 'မသိသော ပုံစံချစနစ် - {{name}}',
+      not_a_list: '{{name}} သည် စာရင်းမဟုတ်သဖြင့် #each နှင့် သုံး၍မရပါ',
+      unexpected_tag: 'မမျှော်လင့်သော တက်ဂ် - {{name}}',
+      unclosed_block: 'ပိတ်မထားသော အပိုင်း - {{name}}',
+      script: 'Script များ ခွင့်မပြုပါ - {{name}}',
+    },
+  },
+  printQueue: {
+    title: 'ပုံနှိပ်စာရင်း',
+    noJobs: 'ပုံနှိပ်စက်သို့ ဘာမှ မပို့ရသေးပါ',
+    queued: 'ပုံနှိပ်စက်သို့ ပို့ပြီးပါပြီ',
+    retry: 'ထပ်စမ်းရန်',
+    cancel: 'ပယ်ဖျက်ရန်',
+    clearFinished: 'ပြီးသွားသည်များ ရှင်းရန်',
+    retryAt: 'ပုံနှိပ်စက်ကို စောင့်နေသည်၊ {{time}} တွင် ထပ်စမ်းမည်',
+    printingTitle: '{{title}} ကို ပုံနှိပ်နေသည်…',
+    waitingCount: 'ပုံနှိပ်စက်ကို စောင့်နေသော အလုပ် {{count}} ခု',
+    failedCount: 'ပုံနှိပ်၍ မရသော အလုပ် {{count}} ခု။ ထပ်စမ်းရန် နှိပ်ပါ',
+    status: {
+      pending: 'စောင့်နေသည်',
+      printing: 'ပုံနှိပ်နေသည်',
+      failed: 'မအောင်မြင်ပါ',
+      done: 'ပုံနှိပ်ပြီး',
+      cancelled: 'ပယ်ဖျက်ပြီး',
+    },
+    types: {
+      receipt: 'ဘောက်ချာ',
+      shift_report: 'အလှည့်အစီရင်ခံစာ',
+      labels: 'တံဆိပ်များ',
+    },
+    titles: {
+      receipt: 'ဘောက်ချာ #{{id}}',
+    },
   },
 } as const;
@@ -0,0 +1,233 @@
+#!/usr/bin/env node
+
+/**
+ * Reference sync server for testing multi-device sync on one machine.
+ *
+ *   npm run sync-server                       # in memory, port 4000
+ *   npm run sync-server -- --port 4100 --data ./sync-data.json
+ *
+ * Point each device (or simulator) at http://<this machine's address>:4000
+ * under Settings > Sync. The server keeps a change log and the winning
+ * version of every row, settling conflicts with the same rules as
+ * utils/syncRules.ts.
+ *
+ * Endpoints:
+ *   POST /sync/push  { device_id, changes }  -> { accepted, rejected }
+ *   GET  /sync/pull?since=&device_id=&limit= -> { changes, cursor, has_more }
+ *   GET  /health
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+// Keep in step with the keep_first tables in utils/syncRules.ts
+const KEEP_FIRST_TABLES = [
+  'coupon_redemptions',
+  'loyalty_points',
+  'sale_returns',
+  'sale_return_items',
+  'supplier_payments',
+  'stock_ledger',
+];
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const MAX_PULL_LIMIT = 1000;
+
+const getArg = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const port = Number(getArg('port') || process.env.PORT || 4000);
+const dataFile = getArg('data') || process.env.SYNC_DATA_FILE;
+
+// The change log, oldest first, and the latest change of every row
+let log = [];
+let rows = new Map();
+let lastSeq = 0;
+
+const rowKey = (change) => `${change.table_name}:${change.row_id}`;
+
+const loadData = () => {
+  if (!dataFile || !fs.existsSync(dataFile)) return;
+
+  const stored = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+  log = stored.log || [];
+  lastSeq = stored.lastSeq || 0;
+  rows = new Map(log.map((change) => [rowKey(change), change]));
+  console.log(`Loaded ${log.length} changes from ${dataFile}`);
+};
+
+const saveData = () => {
+  if (!dataFile) return;
+
+  // Superseded changes are never served again, so only the latest is kept
+  log = log.filter((change) => rows.get(rowKey(change)) === change);
+  fs.writeFileSync(
+    path.resolve(dataFile),
+    JSON.stringify({ lastSeq, log }),
+    'utf8',
+  );
+};
+
+// Same comparison as resolveSyncConflict in utils/syncRules.ts
+const resolveConflict = (tableName, current, incoming) => {
+  if (KEEP_FIRST_TABLES.includes(tableName)) {
+    return incoming.operation === 'delete' ? 'incoming' : 'current';
+  }
+
+  if (incoming.updated_at !== current.updated_at) {
+    return incoming.updated_at > current.updated_at ? 'incoming' : 'current';
+  }
+  if (incoming.version !== current.version) {
+    return incoming.version > current.version ? 'incoming' : 'current';
+  }
+  return (incoming.device_id || '') > (current.device_id || '')
+    ? 'incoming'
+    : 'current';
+};
+
+const isValidChange = (change) =>
+  change &&
+  typeof change.table_name === 'string' &&
+  typeof change.row_id === 'string' &&
+  (change.operation === 'upsert' || change.operation === 'delete') &&
+  typeof change.version === 'number' &&
+  typeof change.updated_at === 'string';
+
+const handlePush = (body) => {
+  const deviceId = body.device_id;
+  if (typeof deviceId !== 'string' || !Array.isArray(body.changes)) {
+    return [400, { error: 'device_id and changes are required' }];
+  }
+
+  let accepted = 0;
+  const rejected = [];
+
+  for (const change of body.changes) {
+    if (!isValidChange(change)) {
+      return [400, { error: 'Malformed change', change }];
+    }
+
+    const incoming = {
+      table_name: change.table_name,
+      row_id: change.row_id,
+      operation: change.operation,
+      version: change.version,
+      updated_at: change.updated_at,
+      device_id: deviceId,
+      data: change.operation === 'upsert' ? change.data || {} : null,
+    };
+    const current = rows.get(rowKey(incoming));
+
+    // A resend of a change the server already holds
+    if (
+      current &&
+      current.device_id === deviceId &&
+      current.version === incoming.version &&
+      current.updated_at === incoming.updated_at
+    ) {
+      accepted++;
+      continue;
+    }
+
+    if (
+      current &&
+      resolveConflict(incoming.table_name, current, incoming) === 'current'
+    ) {
+      rejected.push(current);
+      continue;
+    }
+
+    lastSeq++;
+    const entry = { ...incoming, seq: lastSeq };
+    log.push(entry);
+    rows.set(rowKey(entry), entry);
+    accepted++;
+  }
+
+  saveData();
+  console.log(
+    `push from ${deviceId}: ${accepted} accepted, ${rejected.length} rejected`,
+  );
+  return [200, { accepted, rejected }];
+};
+
+const handlePull = (query) => {
+  const since = Number(query.get('since') || 0);
+  const deviceId = query.get('device_id') || '';
+  const limit = Math.min(
+    Number(query.get('limit') || 200) || 200,
+    MAX_PULL_LIMIT,
+  );
+
+  // Skip changes a later change to the same row has replaced
+  const pending = log.filter(
+    (change) => change.seq > since && rows.get(rowKey(change)) === change,
+  );
+  const page = pending.slice(0, limit);
+  const cursor = page.length > 0 ? page[page.length - 1].seq : lastSeq;
+
+  return [
+    200,
+    {
+      changes: page.filter((change) => change.device_id !== deviceId),
+      cursor: Math.max(cursor, since),
+      has_more: pending.length > page.length,
+    },
+  ];
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  let status = 404;
+  let payload = { error: 'Not found' };
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/health') {
+      [status, payload] = [200, { ok: true, seq: lastSeq }];
+    } else if (req.method === 'POST' && url.pathname === '/sync/push') {
+      [status, payload] = handlePush(await readBody(req));
+    } else if (req.method === 'GET' && url.pathname === '/sync/pull') {
+      [status, payload] = handlePull(url.searchParams);
+    }
+  } catch (error) {
+    console.error('Request failed:', error);
+    [status, payload] = [400, { error: error.message }];
+  }
+
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+});
+
+loadData();
+server.listen(port, () => {
+  console.log(`Sync server listening on http://0.0.0.0:${port}`);
+  if (!dataFile) {
+    console.log('Changes are kept in memory; pass --data <file> to keep them');
+  }
+});
@@ -208,6 +208,71 @@ describe('TemplateEngine', () => {
       expect(html).toContain('-200 MMK');
     });
 
+    it('should render a credit note for returns', async () => {
+      const context = templateEngine.buildTemplateContext(mockShopSettings, {
+        ...mockReceiptData,
+        saleId: '12345-R1',
+        creditNote: { originalReceiptId: '12345', reason: 'Damaged' },
+      });
+      const html = await templateEngine.renderReceipt('classic', context);
+
+      expect(html).toContain('CREDIT NOTE');
+      expect(html).toContain('Original Receipt: #12345');
+      expect(html).toContain('Reason: Damaged');
+      expect(html).toContain('REFUND');
+      expect(html).not.toContain('{{creditNoteBanner}}');
+    });
+
+    it('should not render a credit note for regular sales', async () => {
+      const context = templateEngine.buildTemplateContext(
+        mockShopSettings,
+        mockReceiptData
+      );
+      const html = await templateEngine.renderReceipt('classic', context);
+
+      expect(html).not.toContain('CREDIT NOTE');
+      expect(html).toContain('TOTAL');
+    });
+
+    it('should render tax lines per rate', async () => {
+      const context = templateEngine.buildTemplateContext(mockShopSettings, {
+        ...mockReceiptData,
+        taxBreakdown: [
+          {
+            name: 'Commercial Tax',
+            rate: 5,
+            inclusive: false,
+            taxable: 2000,
+            amount: 100
+          }
+        ]
+      });
+      const html = await templateEngine.renderReceipt('classic', context);
+
+      expect(html).toContain('Commercial Tax (5%)');
+      expect(html).toContain('100 MMK');
+      expect(html).not.toContain('{{taxLines}}');
+    });
+
+    it('should print points paid and the points balance under the total', async () => {
+      const context = templateEngine.buildTemplateContext(mockShopSettings, {
+        ...mockReceiptData,
+        loyalty: {
+          pointsRedeemed: 50,
+          discount: 0,
+          payment: 500,
+          pointsEarned: 12,
+          balance: 140
+        }
+      });
+      const html = await templateEngine.renderReceipt('classic', context);
+
+      expect(html).toContain('Paid with points (50)');
+      expect(html).toContain('Points balance');
+      expect(html).toContain('140');
+      expect(html).not.toContain('{{loyaltyLines}}');
+    });
+
     it('should throw error for non-existent template', async () => {
       const context = templateEngine.buildTemplateContext(
         mockShopSettings,
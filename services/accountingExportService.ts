@@ -0,0 +1,343 @@
+import * as FileSystem from 'expo-file-system';
+import { documentDirectory } from 'expo-file-system/legacy';
+import { DatabaseService } from './database';
+import { DataExportService } from './dataExportService';
+import { CurrencySettings } from './currencyManager';
+import { formatDateForDatabase } from '../utils/dateUtils';
+import { CsvCell, formatCsvAmount, toCsv } from '../utils/accountingCsv';
+
+export type AccountingReport =
+  | 'sales'
+  | 'sale_lines'
+  | 'expenses'
+  | 'stock_movements'
+  | 'debt_aging'
+  | 'profit_loss';
+
+export const ACCOUNTING_REPORTS: AccountingReport[] = [
+  'sales',
+  'sale_lines',
+  'expenses',
+  'stock_movements',
+  'debt_aging',
+  'profit_loss',
+];
+
+export interface AccountingExportOptions {
+  startDate: Date;
+  endDate: Date;
+  currency: CurrencySettings;
+  rawNumbers: boolean; // Plain numbers instead of the shop's separators
+}
+
+export interface AccountingExportResult {
+  fileUri: string;
+  filename: string;
+  rowCount: number; // Data rows, without the header
+}
+
+// Lets Excel open the file as UTF-8 so Myanmar text is kept
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Service for the CSV reports handed to accountants. Each report covers a
+ * date range and writes one CSV file that can be shared from the device.
+ * Amounts are rounded to the currency's decimals and never carry a symbol;
+ * the currency code is in the column header instead.
+ */
+export class AccountingExportService {
+  private db: DatabaseService;
+  private exportService: DataExportService;
+
+  constructor(database: DatabaseService) {
+    this.db = database;
+    this.exportService = new DataExportService(database);
+  }
+
+  async exportReport(
+    report: AccountingReport,
+    options: AccountingExportOptions,
+  ): Promise<AccountingExportResult> {
+    const rows = await this.buildReport(report, options);
+    const filename = `${report}_${this.toDateString(
+      options.startDate,
+    )}_${this.toDateString(options.endDate)}.csv`;
+    const fileUri = documentDirectory + filename;
+
+    const file = new FileSystem.File(fileUri);
+    await file.write(UTF8_BOM + toCsv(rows));
+
+    return { fileUri, filename, rowCount: rows.length - 1 };
+  }
+
+  async shareReport(fileUri: string, title: string): Promise<void> {
+    await this.exportService.shareExportFile(fileUri, title, 'text/csv');
+  }
+
+  // Header row first, then one row per record
+  async buildReport(
+    report: AccountingReport,
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    switch (report) {
+      case 'sales':
+        return this.buildSales(options);
+      case 'sale_lines':
+        return this.buildSaleLines(options);
+      case 'expenses':
+        return this.buildExpenses(options);
+      case 'stock_movements':
+        return this.buildStockMovements(options);
+      case 'debt_aging':
+        return this.buildDebtAging(options);
+      case 'profit_loss':
+        return this.buildProfitLoss(options);
+    }
+  }
+
+  private async buildSales(
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    const sales = await this.db.getAllSalesForExport(
+      undefined,
+      undefined,
+      options.startDate,
+      options.endDate,
+    );
+    const amount = this.amountFormatter(options);
+    const code = options.currency.code;
+
+    return [
+      [
+        'Date',
+        'Voucher No',
+        'Sale ID',
+        'Customer',
+        'Payment Method',
+        `Tax (${code})`,
+        `Total (${code})`,
+        'Note',
+      ],
+      // Oldest first, as in a sales journal
+      ...[...sales]
+        .reverse()
+        .map((sale) => [
+          sale.created_at,
+          sale.voucher_id,
+          sale.id,
+          sale.customer_name,
+          sale.payment_method,
+          amount(sale.tax_total || 0),
+          amount(sale.total),
+          sale.note,
+        ]),
+    ];
+  }
+
+  private async buildSaleLines(
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    const lines = await this.db.getSaleLinesByDateRange(
+      options.startDate,
+      options.endDate,
+    );
+    const amount = this.amountFormatter(options);
+    const code = options.currency.code;
+
+    return [
+      [
+        'Date',
+        'Voucher No',
+        'Sale ID',
+        'Customer',
+        'Payment Method',
+        'Product',
+        'Barcode',
+        'Quantity',
+        `Unit Price (${code})`,
+        `Discount (${code})`,
+        `Subtotal (${code})`,
+        'Tax Name',
+        'Tax Rate (%)',
+        `Tax (${code})`,
+        'Tax Inclusive',
+        `Unit Cost (${code})`,
+      ],
+      ...lines.map((line) => [
+        line.sale_created_at,
+        line.voucher_id,
+        line.sale_id,
+        line.customer_name,
+        line.payment_method,
+        line.product_name,
+        line.barcode,
+        line.quantity,
+        amount(line.price),
+        amount(line.discount || 0),
+        amount(line.subtotal),
+        line.tax_name,
+        line.tax_rate ?? null,
+        amount(line.tax_amount || 0),
+        line.tax_name ? (line.tax_inclusive ? 'Yes' : 'No') : null,
+        amount(line.cost),
+      ]),
+    ];
+  }
+
+  private async buildExpenses(
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    const expenses = await this.db.getExpensesForExport(
+      options.startDate,
+      options.endDate,
+    );
+    const amount = this.amountFormatter(options);
+
+    return [
+      ['Date', 'Category', 'Description', `Amount (${options.currency.code})`],
+      ...expenses.map((expense) => [
+        expense.date,
+        expense.category_name,
+        expense.description,
+        amount(expense.amount),
+      ]),
+    ];
+  }
+
+  private async buildStockMovements(
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    const movements = await this.db.getStockMovementsByDateRange(
+      options.startDate,
+      options.endDate,
+    );
+    const amount = this.amountFormatter(options);
+    const code = options.currency.code;
+
+    return [
+      [
+        'Date',
+        'Product',
+        'Type',
+        'Quantity',
+        `Unit Cost (${code})`,
+        `Total Cost (${code})`,
+        'Supplier',
+        'Reference No',
+        'Reason',
+        'Staff',
+      ],
+      ...movements.map((movement) => [
+        movement.created_at,
+        movement.product_name,
+        movement.type === 'stock_in' ? 'Stock In' : 'Stock Out',
+        movement.quantity,
+        movement.unit_cost != null ? amount(movement.unit_cost) : null,
+        movement.unit_cost != null
+          ? amount(movement.unit_cost * movement.quantity)
+          : null,
+        movement.supplier_name,
+        movement.reference_number,
+        movement.reason,
+        movement.staff_name,
+      ]),
+    ];
+  }
+
+  private async buildDebtAging(
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    const aging = await this.db.getDebtAging(options.endDate);
+    const amount = this.amountFormatter(options);
+    const code = options.currency.code;
+    const totals = aging.reduce(
+      (sum, row) => ({
+        current: sum.current + row.current,
+        days_31_60: sum.days_31_60 + row.days_31_60,
+        days_61_90: sum.days_61_90 + row.days_61_90,
+        over_90: sum.over_90 + row.over_90,
+        total: sum.total + row.total,
+      }),
+      { current: 0, days_31_60: 0, days_61_90: 0, over_90: 0, total: 0 },
+    );
+
+    const rows: CsvCell[][] = [
+      [
+        'Customer',
+        `0-30 Days (${code})`,
+        `31-60 Days (${code})`,
+        `61-90 Days (${code})`,
+        `Over 90 Days (${code})`,
+        `Total (${code})`,
+      ],
+      ...aging.map((row) => [
+        row.customer_name,
+        amount(row.current),
+        amount(row.days_31_60),
+        amount(row.days_61_90),
+        amount(row.over_90),
+        amount(row.total),
+      ]),
+    ];
+    if (aging.length > 0) {
+      rows.push([
+        'Total',
+        amount(totals.current),
+        amount(totals.days_31_60),
+        amount(totals.days_61_90),
+        amount(totals.over_90),
+        amount(totals.total),
+      ]);
+    }
+    return rows;
+  }
+
+  /**
+   * Revenue and cost of goods are net of returns. Expenses come from the
+   * same rows as the expenses report so the two files agree.
+   */
+  private async buildProfitLoss(
+    options: AccountingExportOptions,
+  ): Promise<CsvCell[][]> {
+    const analytics = await this.db.getCustomAnalytics(
+      options.startDate,
+      options.endDate,
+    );
+    const expenses = await this.db.getExpensesForExport(
+      options.startDate,
+      options.endDate,
+    );
+    const amount = this.amountFormatter(options);
+
+    const byCategory = new Map<string, number>();
+    for (const expense of expenses) {
+      byCategory.set(
+        expense.category_name,
+        (byCategory.get(expense.category_name) || 0) + expense.amount,
+      );
+    }
+    const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
+    const grossProfit = analytics.totalRevenue - analytics.totalCost;
+
+    return [
+      ['Line Item', `Amount (${options.currency.code})`],
+      ['Revenue', amount(analytics.totalRevenue)],
+      ['Cost of Goods Sold', amount(analytics.totalCost)],
+      ['Gross Profit', amount(grossProfit)],
+      ...[...byCategory.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([category, total]) => [`Expense: ${category}`, amount(total)]),
+      ['Total Expenses', amount(totalExpenses)],
+      ['Net Profit', amount(grossProfit - totalExpenses)],
+    ];
+  }
+
+  private amountFormatter(options: AccountingExportOptions) {
+    return (value: number) =>
+      formatCsvAmount(value, options.currency, options.rawNumbers);
+  }
+
+  private toDateString(date: Date): string {
+    return formatDateForDatabase(date).slice(0, 10);
+  }
+}
@@ -0,0 +1,223 @@
+import * as FileSystem from 'expo-file-system';
+import { documentDirectory } from 'expo-file-system/legacy';
+import { DatabaseService } from './database';
+import { DataExportService, ExportData } from './dataExportService';
+import { DataImportService, ImportResult } from './dataImportService';
+import { BackupTrigger } from '../utils/backupSchedule';
+
+export interface BackupInfo {
+  fileUri: string;
+  filename: string;
+  trigger: BackupTrigger;
+  createdAt: string; // ISO timestamp
+  recordCount: number;
+  recordCounts: Record<string, number>;
+  fileSize: number;
+  verified: boolean; // Matches its integrity checksum
+}
+
+export interface RestoreResult {
+  result: ImportResult;
+  safetyBackup: BackupInfo;
+}
+
+export class BackupVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupVerificationError';
+  }
+}
+
+const BACKUP_FILENAME = /^backup_.+_(daily|sales|manual|pre_restore)\.json$/;
+
+/**
+ * Service for local backups. Each backup is a full data export kept in the
+ * app's backups folder, checked against its integrity checksum when written
+ * and again before it is restored.
+ */
+export class BackupService {
+  private static readonly BACKUP_DIRECTORY = 'backups/';
+  private db: DatabaseService;
+  private exportService: DataExportService;
+
+  constructor(database: DatabaseService) {
+    this.db = database;
+    this.exportService = new DataExportService(database);
+  }
+
+  private getDirectory(): FileSystem.Directory {
+    const directory = new FileSystem.Directory(
+      documentDirectory + BackupService.BACKUP_DIRECTORY,
+    );
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    return directory;
+  }
+
+  /**
+   * Export all data into a new backup file, then delete the oldest backups
+   * beyond keepCount. A backup that fails its checksum is deleted.
+   */
+  async createBackup(
+    trigger: BackupTrigger,
+    keepCount: number,
+  ): Promise<BackupInfo> {
+    const exportResult = await this.exportService.exportAllData(undefined, {
+      includeTables: true,
+    });
+    if (!exportResult.success || !exportResult.fileUri) {
+      throw new Error(exportResult.error || 'Backup export failed');
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupFile = new FileSystem.File(
+      this.getDirectory(),
+      `backup_${stamp}_${trigger}.json`,
+    );
+    new FileSystem.File(exportResult.fileUri).move(backupFile);
+
+    const backup = await this.readBackupInfo(backupFile);
+    if (!backup.verified) {
+      backupFile.delete();
+      throw new BackupVerificationError(
+        'Backup file does not match its checksum',
+      );
+    }
+
+    this.applyRetention(keepCount);
+    return backup;
+  }
+
+  /**
+   * All backups, newest first
+   */
+  async listBackups(): Promise<BackupInfo[]> {
+    const files = this.getBackupFiles();
+    return Promise.all(files.map((file) => this.readBackupInfo(file)));
+  }
+
+  /**
+   * Restore a backup in place of the current data after checking its
+   * checksum. A safety backup of the current data is taken first so the
+   * restore can itself be undone.
+   */
+  async restoreBackup(
+    fileUri: string,
+    keepCount: number,
+  ): Promise<RestoreResult> {
+    const backup = await this.readBackupInfo(new FileSystem.File(fileUri));
+    if (!backup.verified) {
+      throw new BackupVerificationError(
+        'Backup file does not match its checksum',
+      );
+    }
+
+    // Keep one more so the safety backup does not rotate out the backup
+    // being restored
+    const safetyBackup = await this.createBackup('pre_restore', keepCount + 1);
+    const result = await new DataImportService(this.db).restoreBackup(fileUri);
+
+    try {
+      await this.db.addAuditLogEntry({
+        entity_type: 'backup',
+        entity_label: backup.filename,
+        action: 'restore',
+        after: {
+          backupCreatedAt: backup.createdAt,
+          recordCount: backup.recordCount,
+          safetyBackup: safetyBackup.filename,
+        },
+      });
+    } catch (auditError) {
+      console.error('Error recording restore in audit log:', auditError);
+    }
+
+    return { result, safetyBackup };
+  }
+
+  /**
+   * When the newest backup and the newest daily backup were taken, read from
+   * the file names so the schedule can be checked without opening them
+   */
+  getLastBackupTimes(): { lastAt: Date | null; lastDailyAt: Date | null } {
+    const files = this.getBackupFiles();
+    const lastDaily = files.find((file) => file.name.endsWith('_daily.json'));
+    return {
+      lastAt: files[0] ? this.getCreatedAtFromName(files[0].name) : null,
+      lastDailyAt: lastDaily ? this.getCreatedAtFromName(lastDaily.name) : null,
+    };
+  }
+
+  deleteBackup(fileUri: string): void {
+    const file = new FileSystem.File(fileUri);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+
+  // Backup files in the backups folder, newest first. Names start with an
+  // ISO timestamp, so they sort by age.
+  private getBackupFiles(): FileSystem.File[] {
+    return this.getDirectory()
+      .list()
+      .filter(
+        (entry): entry is FileSystem.File =>
+          entry instanceof FileSystem.File && BACKUP_FILENAME.test(entry.name),
+      )
+      .sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  // backup_2024-01-31T21-00-00-000Z_daily.json -> 2024-01-31T21:00:00.000Z
+  private getCreatedAtFromName(filename: string): Date | null {
+    const match =
+      /^backup_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/.exec(
+        filename,
+      );
+    if (!match) return null;
+    const [, date, hours, minutes, seconds, millis] = match;
+    return new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+  }
+
+  private applyRetention(keepCount: number): void {
+    const expired = this.getBackupFiles().slice(Math.max(keepCount, 1));
+    for (const file of expired) {
+      try {
+        file.delete();
+      } catch (error) {
+        console.warn(`Error deleting old backup ${file.name}:`, error);
+      }
+    }
+  }
+
+  private async readBackupInfo(file: FileSystem.File): Promise<BackupInfo> {
+    const trigger = (BACKUP_FILENAME.exec(file.name)?.[1] ||
+      'manual') as BackupTrigger;
+
+    try {
+      const data = JSON.parse(await file.text()) as ExportData;
+      return {
+        fileUri: file.uri,
+        filename: file.name,
+        trigger,
+        createdAt: data.exportDate,
+        recordCount: data.metadata?.recordCount || 0,
+        recordCounts: data.integrity?.recordCounts || {},
+        fileSize: file.size,
+        verified: this.exportService.verifyChecksum(data),
+      };
+    } catch (error) {
+      console.warn(`Error reading backup ${file.name}:`, error);
+      return {
+        fileUri: file.uri,
+        filename: file.name,
+        trigger,
+        createdAt: new Date(file.modificationTime || 0).toISOString(),
+        recordCount: 0,
+        recordCounts: {},
+        fileSize: file.size,
+        verified: false,
+      };
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BackupSchedule } from '../utils/backupSchedule';
+
+export interface BackupSettings extends BackupSchedule {
+  keepCount: number;
+}
+
+/**
+ * Service for persisting the automatic backup schedule and retention
+ */
+export class BackupSettingsService {
+  private static readonly SETTINGS_KEY = 'backup_settings';
+  private static readonly DEFAULT_SETTINGS: BackupSettings = {
+    dailyAtClose: true,
+    closeTime: '21:00',
+    everySales: 0,
+    keepCount: 7,
+  };
+
+  /**
+   * Get the backup settings, filling in defaults for anything not saved
+   */
+  static async getSettings(): Promise<BackupSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(this.SETTINGS_KEY);
+      if (stored) {
+        return { ...this.DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Error reading backup settings:', error);
+    }
+
+    return this.DEFAULT_SETTINGS;
+  }
+
+  /**
+   * Save the backup settings
+   */
+  static async saveSettings(settings: BackupSettings): Promise<void> {
+    await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+  }
+}
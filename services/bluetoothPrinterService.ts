@@ -1,7 +1,18 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Buffer } from 'buffer';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
 import { Platform } from 'react-native';
-import { ESCPOSConverter, ReceiptData } from '@/utils/escposConverter';
+import {
+  ESCPOSConverter,
+  LabelPrintData,
+  LabelPrintOptions,
+  PrintLine,
+  ReceiptData,
+  ShiftReportPrintData,
+} from '@/utils/escposConverter';
 import { ShopSettings } from '@/services/shopSettingsStorage';
+import { getPrinterProfile, PrinterProfile } from '@/utils/printerProfiles';
+import { decodePng, MonochromeImage, toMonochrome } from '@/utils/rasterImage';
 
 // Import Bluetooth Classic (will be available after development build)
 let BluetoothClassic: any;
@@ -19,9 +30,26 @@ export interface BluetoothDevice {
   isConnected: boolean;
 }
 
+/**
+ * Draws lines of receipt text into a black and white image as wide as the
+ * paper. Rendering text needs a mounted view, so a component registers one.
+ */
+export type TextRasterizer = (
+  lines: PrintLine[],
+  profile: PrinterProfile
+) => Promise<MonochromeImage>;
+
 export class BluetoothPrinterService {
   private static readonly STORAGE_KEY = 'saved_thermal_printer';
   private static connectedDevice: any = null;
+  private static readonly LOGO_WIDTH = 256; // Dots, two thirds of 58mm paper
+  private static logoCache: { path: string; image: MonochromeImage } | null =
+    null;
+  private static textRasterizer: TextRasterizer | null = null;
+
+  static setTextRasterizer(rasterizer: TextRasterizer | null): void {
+    this.textRasterizer = rasterizer;
+  }
 
   /**
    * Check if Bluetooth is available and enabled
@@ -210,14 +238,19 @@ export class BluetoothPrinterService {
         throw new Error('Printer not connected');
       }
 
+      const logo = shopSettings?.logoPath
+        ? await this.loadLogo(shopSettings.logoPath)
+        : null;
+
       // Convert receipt data to ESC/POS commands
       const escposCommands = ESCPOSConverter.convertReceipt(
         receiptData,
-        shopSettings
+        shopSettings,
+        logo
       );
 
       // Send commands to printer
-      await this.connectedDevice.write(escposCommands);
+      await this.write(escposCommands, shopSettings);
 
       return true;
     } catch (error) {
@@ -228,6 +261,150 @@ export class BluetoothPrinterService {
     }
   }
 
+  /**
+   * Print an X/Z shift report to connected thermal printer
+   */
+  static async printShiftReport(
+    report: ShiftReportPrintData,
+    shopSettings: ShopSettings | null
+  ): Promise<boolean> {
+    if (!this.connectedDevice) {
+      throw new Error('No printer connected');
+    }
+
+    try {
+      const connected = await this.isConnected();
+      if (!connected) {
+        throw new Error('Printer not connected');
+      }
+
+      const escposCommands = ESCPOSConverter.convertShiftReport(
+        report,
+        shopSettings
+      );
+
+      await this.write(escposCommands, shopSettings);
+
+      return true;
+    } catch (error) {
+      console.error('Error printing shift report:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error(`Failed to print shift report: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Print price/shelf labels with barcodes to connected thermal printer
+   */
+  static async printLabels(
+    labels: LabelPrintData[],
+    options: LabelPrintOptions,
+    shopSettings: ShopSettings | null
+  ): Promise<boolean> {
+    if (!this.connectedDevice) {
+      throw new Error('No printer connected');
+    }
+
+    try {
+      const connected = await this.isConnected();
+      if (!connected) {
+        throw new Error('Printer not connected');
+      }
+
+      const escposCommands = ESCPOSConverter.convertLabels(
+        labels,
+        options,
+        shopSettings
+      );
+
+      await this.write(escposCommands, shopSettings);
+
+      return true;
+    } catch (error) {
+      console.error('Error printing labels:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error(`Failed to print labels: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Send commands as raw bytes so image and QR data are not re-encoded
+   */
+  private static async write(
+    commands: string,
+    shopSettings: ShopSettings | null
+  ): Promise<void> {
+    const profile = getPrinterProfile(shopSettings?.printerProfile);
+    const output = await this.renderForProfile(commands, profile);
+    await this.connectedDevice.write(
+      Buffer.from(ESCPOSConverter.toBytes(output, profile.codePage))
+    );
+  }
+
+  /**
+   * In bitmap mode, replace the text with images of it. Without a
+   * rasterizer mounted the text is printed as it is.
+   */
+  private static async renderForProfile(
+    commands: string,
+    profile: PrinterProfile
+  ): Promise<string> {
+    if (profile.renderMode !== 'bitmap') {
+      return commands;
+    }
+    if (!this.textRasterizer) {
+      console.warn('No text rasterizer mounted, printing receipt as text');
+      return commands;
+    }
+
+    let output = '';
+    for (const segment of ESCPOSConverter.toPrintSegments(commands)) {
+      if (segment.type === 'raw') {
+        output += segment.commands;
+      } else {
+        const image = await this.textRasterizer(segment.lines, profile);
+        output += ESCPOSConverter.rasterImage(image);
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Shop logo scaled to receipt width and thresholded to black and white.
+   * A logo that cannot be read is left off rather than failing the print.
+   */
+  private static async loadLogo(
+    logoPath: string
+  ): Promise<MonochromeImage | null> {
+    if (this.logoCache?.path === logoPath) {
+      return this.logoCache.image;
+    }
+
+    try {
+      const context = ImageManipulator.manipulate(logoPath);
+      context.resize({ width: this.LOGO_WIDTH });
+      const rendered = await context.renderAsync();
+      const result = await rendered.saveAsync({
+        format: SaveFormat.PNG,
+        base64: true,
+      });
+      if (!result.base64) {
+        return null;
+      }
+
+      const image = toMonochrome(
+        decodePng(Buffer.from(result.base64, 'base64'))
+      );
+      this.logoCache = { path: logoPath, image };
+      return image;
+    } catch (error) {
+      console.warn('Failed to load logo for printing:', error);
+      return null;
+    }
+  }
+
   /**
    * Get saved printer from storage
    */
@@ -263,6 +440,16 @@ export class BluetoothPrinterService {
     }
   }
 
+  /**
+   * Whether there is a printer to send jobs to, connected now or saved for
+   * the print queue to reconnect to
+   */
+  static async hasPrinter(): Promise<boolean> {
+    return (
+      (await this.isConnected()) || (await this.getSavedPrinter()) !== null
+    );
+  }
+
   /**
    * Auto-connect to saved printer if available
    */
@@ -0,0 +1,33 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CostingMethod } from './database';
+
+/**
+ * Service for persisting the inventory costing method
+ */
+export class CostingSettingsService {
+  private static readonly COSTING_METHOD_KEY = 'costing_method';
+  private static readonly DEFAULT_METHOD: CostingMethod = 'weighted_average';
+
+  /**
+   * Get the selected costing method, defaulting to weighted average
+   */
+  static async getCostingMethod(): Promise<CostingMethod> {
+    try {
+      const method = await AsyncStorage.getItem(this.COSTING_METHOD_KEY);
+      if (method === 'weighted_average' || method === 'fifo') {
+        return method;
+      }
+    } catch (error) {
+      console.error('Error reading costing method:', error);
+    }
+
+    return this.DEFAULT_METHOD;
+  }
+
+  /**
+   * Save the selected costing method
+   */
+  static async setCostingMethod(method: CostingMethod): Promise<void> {
+    await AsyncStorage.setItem(this.COSTING_METHOD_KEY, method);
+  }
+}
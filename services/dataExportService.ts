@@ -4,7 +4,13 @@ import * as Sharing from 'expo-sharing';
 import * as DocumentPicker from 'expo-document-picker';
 import { DatabaseService } from './database';
 
-import { isValidUUID } from '../utils/uuid';
+import { generateUUID, isValidUUID } from '../utils/uuid';
+import { encryptExport } from '../utils/exportEncryption';
+import {
+  ExportManifest,
+  INCREMENTAL_EXPORT_TABLES,
+  createExportManifest
+} from '../utils/exportChain';
 
 // Export interfaces
 export interface ExportResult {
@@ -15,6 +21,7 @@ export interface ExportResult {
   error?: string;
   metadata: ExportMetadata;
   emptyExport?: boolean;
+  manifest?: ExportManifest; // Keep to take the next incremental export
 }
 
 export interface ExportProgress {
@@ -48,6 +55,7 @@ export interface ExportPreview {
     expenseCategories: number;
     stockMovements: number;
     bulkPricing: number;
+    receiptTemplates: number;
   };
   estimatedFileSize: string;
   exportDate: string;
@@ -69,6 +77,7 @@ export interface ExportData {
     expenseCategories: any[];
     stockMovements: any[];
     bulkPricing: any[];
+    receiptTemplates: any[];
   };
   relationships: {
     productCategories: Record<string, string>;
@@ -80,6 +89,15 @@ export interface ExportData {
     recordCounts: Record<string, number>;
     validationRules: string[];
   };
+  manifest?: ExportManifest; // Missing in files from older versions
+  deletions?: Record<string, string[]>; // Incremental exports: deleted ids
+  tables?: Record<string, any[]>; // Full backups: every table, row for row
+}
+
+export interface ExportAllOptions {
+  // Add every table row for row, so the file can replace the current data
+  // when restored as a backup
+  includeTables?: boolean;
 }
 
 export class DataExportService {
@@ -206,6 +224,8 @@ export class DataExportService {
             typeof item.min_quantity === 'number' &&
             typeof item.bulk_price === 'number'
           );
+        case 'receiptTemplates':
+          return !!(item.name && item.html_template);
         case 'categories':
           return !!item.name;
         case 'suppliers':
@@ -265,11 +285,15 @@ export class DataExportService {
         }
       }
 
-      // Sanitize string fields
+      // Sanitize string fields; template markup keeps its line breaks
+      const controlCharacters =
+        dataTypeName === 'receiptTemplates'
+          ? /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g
+          : /[\x00-\x1F\x7F]/g;
       Object.keys(sanitized).forEach((key) => {
         if (typeof sanitized[key] === 'string') {
           // Remove null bytes and control characters
-          sanitized[key] = sanitized[key].replace(/[\x00-\x1F\x7F]/g, '');
+          sanitized[key] = sanitized[key].replace(controlCharacters, '');
         }
       });
 
@@ -325,7 +349,11 @@ export class DataExportService {
   }
 
   // Handle empty data exports with proper user notification
-  private async handleEmptyExport(): Promise<ExportResult> {
+  private async handleEmptyExport(
+    manifest: ExportManifest,
+    passphrase?: string,
+    tables?: Record<string, any[]>
+  ): Promise<ExportResult> {
     try {
       console.log('Handling empty export for all data');
 
@@ -353,6 +381,8 @@ export class DataExportService {
           recordCounts: this.createEmptyRecordCounts(),
           validationRules: this.getValidationRulesForAllData(),
         },
+        manifest,
+        tables,
       };
 
       // Generate empty export file
@@ -361,15 +391,19 @@ export class DataExportService {
       }_empty.json`;
       const fileResult = await this.generateExportFile(
         emptyExportData,
-        filename
+        filename,
+        passphrase
       );
 
-      return this.createExportResult(
-        true,
-        0,
-        fileResult.fileUri,
-        fileResult.filename
-      );
+      return {
+        ...this.createExportResult(
+          true,
+          0,
+          fileResult.fileUri,
+          fileResult.filename
+        ),
+        manifest,
+      };
     } catch (error) {
       console.error('Error handling empty export:', error);
       return this.createExportResult(
@@ -397,6 +431,7 @@ export class DataExportService {
       expenseCategories: [],
       stockMovements: [],
       bulkPricing: [],
+      receiptTemplates: [],
     };
   }
 
@@ -413,6 +448,7 @@ export class DataExportService {
       expenseCategories: 0,
       stockMovements: 0,
       bulkPricing: 0,
+      receiptTemplates: 0,
     };
   }
 
@@ -471,25 +507,17 @@ export class DataExportService {
         expenses,
         expenseCategories,
         stockMovements,
+        receiptTemplates,
       ] = await Promise.all([
         this.db.getProducts(),
         this.db.getCategories(),
         this.db.getSuppliers(),
-        this.db.getSalesByDateRangeTimezoneAware(
-          new Date('2020-01-01'),
-          new Date(),
-          -390,
-          10000
-        ),
+        this.db.getAllSalesForExport(),
         this.db.getCustomers(),
-        this.db.getExpensesByDateRangeTimezoneAware(
-          new Date('2020-01-01'),
-          new Date(),
-          -390, // timezone offset
-          10000
-        ),
+        this.db.getExpensesForExport(),
         this.db.getExpenseCategories(),
-        this.db.getStockMovements({}, 1, 10000),
+        this.db.getStockMovementsByDateRange(),
+        this.db.getReceiptTemplates(),
       ]);
 
       // Count sale items by fetching items for each sale
@@ -521,6 +549,7 @@ export class DataExportService {
         expenseCategories: expenseCategories.length,
         stockMovements: stockMovements.length,
         bulkPricing: bulkPricingCount,
+        receiptTemplates: receiptTemplates.length,
       };
 
       const totalRecords = Object.values(dataCounts).reduce(
@@ -551,6 +580,7 @@ export class DataExportService {
           expenseCategories: 0,
           stockMovements: 0,
           bulkPricing: 0,
+          receiptTemplates: 0,
         },
         estimatedFileSize: '0 KB',
         exportDate: new Date().toISOString(),
@@ -572,6 +602,7 @@ export class DataExportService {
       expenseCategories: 80, // Simple expense category records
       stockMovements: 200, // Stock movement records
       bulkPricing: 120, // Bulk pricing tier records
+      receiptTemplates: 3000, // Template markup and styles
     };
 
     // Calculate estimated size in bytes
@@ -607,12 +638,23 @@ export class DataExportService {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + units[i];
   }
 
-  // Export all data
-  async exportAllData(): Promise<ExportResult> {
+  // Export all data, encrypted with the passphrase when one is given
+  async exportAllData(
+    passphrase?: string,
+    options: ExportAllOptions = {}
+  ): Promise<ExportResult> {
     try {
       console.log('DataExportService: Starting exportAllData');
       this.updateProgress('Preparing export...', 0, 4);
 
+      // Read before any data, so a change made during the export is also
+      // in the next increment
+      const manifest = createExportManifest(
+        generateUUID(),
+        new Date().toISOString(),
+        null
+      );
+
       // Fetch all data types
       console.log(
         'DataExportService: Fetching products, categories, suppliers'
@@ -629,14 +671,7 @@ export class DataExportService {
         suppliers.length
       );
 
-      const startDate = new Date('2020-01-01');
-      const endDate = new Date();
-      const sales = await this.db.getSalesByDateRangeTimezoneAware(
-        startDate,
-        endDate,
-        -390, // timezone offset
-        10000
-      );
+      const sales = await this.db.getAllSalesForExport();
 
       this.updateProgress('Fetching data...', 1, 4);
 
@@ -647,14 +682,14 @@ export class DataExportService {
         })
       );
 
-      const expenses = await this.db.getExpensesByDateRange(
-        startDate,
-        endDate,
-        10000
-      );
+      const expenses = await this.db.getExpensesForExport();
       const expenseCategories = await this.db.getExpenseCategories();
       const customers = await this.db.getCustomers();
-      const stockMovements = await this.db.getStockMovements({}, 1, 10000);
+      const stockMovements = await this.db.getStockMovementsByDateRange();
+      const receiptTemplates = await this.db.getReceiptTemplates();
+      const tables = options.includeTables
+        ? await this.db.getBackupTables()
+        : undefined;
 
       // Get bulk pricing - flatten the structure for proper export/import compatibility
       const bulkPricingData = [];
@@ -689,14 +724,18 @@ export class DataExportService {
         expenseCategories,
         stockMovements,
         bulkPricing: bulkPricingData,
+        receiptTemplates,
       };
 
       const validatedData = this.validateAllData(allData);
       const totalRecordCount = this.calculateTotalRecordCount(validatedData);
 
       // Check if export is empty
-      if (this.isEmptyExport(validatedData)) {
-        return await this.handleEmptyExport();
+      if (
+        this.isEmptyExport(validatedData) &&
+        (!tables || this.isEmptyExport(tables))
+      ) {
+        return await this.handleEmptyExport(manifest, passphrase, tables);
       }
 
       const exportData: ExportData = {
@@ -729,9 +768,12 @@ export class DataExportService {
             expenseCategories: validatedData.expenseCategories.length,
             stockMovements: validatedData.stockMovements.length,
             bulkPricing: validatedData.bulkPricing.length,
+            receiptTemplates: validatedData.receiptTemplates.length,
           },
           validationRules: this.getValidationRulesForAllData(),
         },
+        manifest,
+        tables,
       };
 
       this.updateProgress('Generating file...', 3, 4);
@@ -740,7 +782,11 @@ export class DataExportService {
       const filename = `all_data_export_${
         new Date().toISOString().split('T')[0]
       }.json`;
-      const fileResult = await this.generateExportFile(exportData, filename);
+      const fileResult = await this.generateExportFile(
+        exportData,
+        filename,
+        passphrase
+      );
       console.log('DataExportService: File generated:', fileResult);
 
       this.updateProgress('Export complete', 4, 4);
@@ -757,6 +803,7 @@ export class DataExportService {
       // Update metadata with actual file size
       finalResult.metadata.fileSize = exportData.metadata.fileSize;
       finalResult.metadata.checksum = exportData.integrity.checksum;
+      finalResult.manifest = manifest;
 
       return finalResult;
     } catch (error) {
@@ -771,10 +818,152 @@ export class DataExportService {
     }
   }
 
-  // Generate export file and return file info
+  /**
+   * Export only the records written or deleted since the base export was
+   * read. The manifest links the file to its base, so on import it is only
+   * applied after the full export and every increment before it.
+   */
+  async exportIncrementalData(
+    base: ExportManifest,
+    passphrase?: string
+  ): Promise<ExportResult> {
+    try {
+      console.log('DataExportService: Starting exportIncrementalData');
+      this.updateProgress('Preparing export...', 0, 4);
+
+      const manifest = createExportManifest(
+        generateUUID(),
+        new Date().toISOString(),
+        base
+      );
+
+      const changedData: Record<string, any[]> = {};
+      const deletions: Record<string, string[]> = {};
+      for (const [dataType, table] of Object.entries(
+        INCREMENTAL_EXPORT_TABLES
+      )) {
+        const { rows, deletedIds } = await this.db.getRowsChangedSince(
+          table,
+          manifest.since!
+        );
+        changedData[dataType] = rows;
+        if (deletedIds.length > 0) {
+          deletions[dataType] = deletedIds;
+        }
+      }
+
+      this.updateProgress('Fetching data...', 1, 4);
+
+      // Sales carry their items as in a full export, so a sale whose items
+      // alone changed is exported too
+      const saleIds = new Set<string>([
+        ...changedData.sales.map((sale) => sale.id),
+        ...changedData.saleItems.map((item) => item.sale_id),
+      ]);
+      const salesWithItems = [];
+      for (const saleId of saleIds) {
+        const sale =
+          changedData.sales.find((changed) => changed.id === saleId) ||
+          (await this.db.getSaleById(saleId));
+        if (!sale) continue; // Deleted since; listed in deletions
+
+        const items = await this.db.getSaleItems(saleId);
+        salesWithItems.push({ ...sale, items });
+      }
+
+      this.updateProgress('Processing data...', 2, 4);
+
+      const validatedData = this.validateAllData({
+        ...changedData,
+        products: changedData.products.map((product) => {
+          const { created_at, updated_at, imageUrl, ...productWithoutImage } =
+            product;
+          return productWithoutImage;
+        }),
+        sales: salesWithItems,
+        saleItems: salesWithItems.flatMap((sale) => sale.items || []),
+      });
+      const changedRecordCount =
+        this.calculateTotalRecordCount(validatedData);
+      const deletedRecordCount = Object.values(deletions).reduce(
+        (sum, ids) => sum + ids.length,
+        0
+      );
+      const recordCounts: Record<string, number> = {};
+      for (const [dataType, records] of Object.entries(validatedData)) {
+        recordCounts[dataType] = (records as any[]).length;
+      }
+
+      const exportDate = new Date().toISOString();
+      const exportData: ExportData = {
+        version: '2.0',
+        exportDate,
+        dataType: 'all',
+        metadata: {
+          exportDate,
+          dataType: 'all',
+          version: '2.0',
+          recordCount: changedRecordCount,
+          fileSize: 0, // Will be calculated after file creation
+          emptyExport: changedRecordCount + deletedRecordCount === 0,
+        },
+        data: validatedData,
+        relationships: this.buildRelationshipMappings(
+          validatedData.products,
+          validatedData.categories,
+          validatedData.suppliers
+        ),
+        integrity: {
+          checksum: '',
+          recordCounts,
+          validationRules: this.getValidationRulesForAllData(),
+        },
+        manifest,
+        deletions,
+      };
+
+      this.updateProgress('Generating file...', 3, 4);
+
+      const filename = `incremental_export_${
+        exportDate.split('T')[0]
+      }_${manifest.sequence}.json`;
+      const fileResult = await this.generateExportFile(
+        exportData,
+        filename,
+        passphrase
+      );
+
+      this.updateProgress('Export complete', 4, 4);
+
+      const result = this.createExportResult(
+        true,
+        changedRecordCount + deletedRecordCount,
+        fileResult.fileUri,
+        fileResult.filename
+      );
+      result.metadata.fileSize = exportData.metadata.fileSize;
+      result.metadata.checksum = exportData.integrity.checksum;
+      result.manifest = manifest;
+
+      return result;
+    } catch (error) {
+      console.error('Incremental export error:', error);
+      return this.createExportResult(
+        false,
+        0,
+        undefined,
+        undefined,
+        error instanceof Error ? error.message : 'Unknown export error'
+      );
+    }
+  }
+
+  // Generate export file and return file info. With a passphrase the file
+  // holds an encrypted envelope instead of the plain export JSON.
   async generateExportFile(
     data: ExportData,
-    filename: string
+    filename: string,
+    passphrase?: string
   ): Promise<{ fileUri: string; filename: string }> {
     console.log('DataExportService: Starting generateExportFile');
 
@@ -804,7 +993,12 @@ export class DataExportService {
 
     // Write the updated data to file
     console.log('DataExportService: Writing file to disk');
-    const finalJsonString = JSON.stringify(data, null, 2);
+    let finalJsonString = JSON.stringify(data, null, 2);
+    if (passphrase) {
+      console.log('DataExportService: Encrypting export');
+      const encrypted = await encryptExport(finalJsonString, passphrase);
+      finalJsonString = JSON.stringify(encrypted, null, 2);
+    }
     const exportFile = new FileSystem.File(fileUri);
     await exportFile.write(finalJsonString);
     console.log('DataExportService: File written successfully');
@@ -846,6 +1040,7 @@ export class DataExportService {
         expenseCategories: [],
         stockMovements: [],
         bulkPricing: [],
+        receiptTemplates: [],
       };
     }
 
@@ -869,7 +1064,11 @@ export class DataExportService {
   }
 
   // Share export file
-  async shareExportFile(fileUri: string, title: string): Promise<void> {
+  async shareExportFile(
+    fileUri: string,
+    title: string,
+    mimeType: string = 'application/json'
+  ): Promise<void> {
     try {
       console.log('DataExportService: Starting shareExportFile');
 
@@ -892,7 +1091,7 @@ export class DataExportService {
       // Attempt to share the file with timeout
       console.log('DataExportService: Attempting to share file');
       const sharePromise = Sharing.shareAsync(fileUri, {
-        mimeType: 'application/json',
+        mimeType,
         dialogTitle: title,
       });
 
@@ -923,6 +1122,24 @@ export class DataExportService {
     return Math.abs(hash).toString(16);
   }
 
+  // Check an export file against its integrity checksum. The checksum was
+  // taken before the checksum and file size were filled in.
+  verifyChecksum(data: ExportData): boolean {
+    if (!data?.integrity?.checksum || !data.metadata) {
+      return false;
+    }
+
+    const unsigned = {
+      ...data,
+      metadata: { ...data.metadata, fileSize: 0 },
+      integrity: { ...data.integrity, checksum: '' },
+    };
+    return (
+      this.generateChecksum(JSON.stringify(unsigned, null, 2)) ===
+      data.integrity.checksum
+    );
+  }
+
   // Build relationship mappings for UUID-based foreign keys
   private buildRelationshipMappings(
     products: any[] = [],
@@ -9,7 +9,28 @@ import {
 } from './validationService';
 import { ErrorHandlingService, ErrorResolution } from './errorHandlingService';
 import { PerformanceOptimizationService } from './performanceOptimizationService';
+import { DataExportService } from './dataExportService';
 import { isValidUUID } from '../utils/uuid';
+import { findMatchingRecord } from '../utils/recordMatching';
+import {
+  ExportChainError,
+  ExportManifest,
+  INCREMENTAL_EXPORT_TABLES,
+  orderExportChain,
+} from '../utils/exportChain';
+import {
+  SPREADSHEET_FIELDS,
+  SpreadsheetEntity,
+  SpreadsheetTable,
+  parseSpreadsheet,
+} from '../utils/spreadsheetImport';
+import {
+  CorruptedExportError,
+  PassphraseRequiredError,
+  WrongPassphraseError,
+  decryptExport,
+  isEncryptedExport,
+} from '../utils/exportEncryption';
 
 // Import interfaces - simplified for "all data" import only
 export interface ImportOptions {
@@ -22,6 +43,7 @@ export interface ImportResult {
   imported: number;
   updated: number;
   skipped: number;
+  deleted?: number; // Records removed by incremental exports
   errors: ImportError[];
   conflicts: DataConflict[];
   duration: number;
@@ -85,6 +107,15 @@ export interface ConflictResolution {
   applyToAll?: boolean;
 }
 
+export interface SpreadsheetImportPreview {
+  recordType: SpreadsheetEntity;
+  records: any[]; // Valid rows, new or matching an existing record
+  totalRows: number;
+  newCount: number;
+  conflicts: DataConflict[]; // Existing matches and rows that failed validation
+  conflictSummary: ConflictSummary;
+}
+
 export interface ImportError {
   index: number;
   record: any;
@@ -93,6 +124,21 @@ export interface ImportError {
   code: string;
 }
 
+// Incremental export deletions, children before the records they point to.
+// Sale items are removed with their sale.
+const DELETION_ORDER = [
+  'receiptTemplates',
+  'stockMovements',
+  'bulkPricing',
+  'expenses',
+  'sales',
+  'products',
+  'customers',
+  'suppliers',
+  'expenseCategories',
+  'categories',
+];
+
 export class DataImportService {
   private db: DatabaseService;
   private validationService: ValidationService;
@@ -100,6 +146,10 @@ export class DataImportService {
   private performanceOptimizer: PerformanceOptimizationService;
   private progressCallback?: (progress: ImportProgress) => void;
   private currentCheckpointId?: string;
+  private passphrase?: string;
+  // Decrypted files by URI, since validation, preview and import each read
+  // them. Kept only for the passphrase they were opened with.
+  private decryptedFiles = new Map<string, string>();
 
   constructor(database: DatabaseService) {
     this.db = database;
@@ -113,6 +163,44 @@ export class DataImportService {
     this.progressCallback = callback;
   }
 
+  // Passphrase used to open encrypted export files
+  setPassphrase(passphrase: string | undefined): void {
+    this.passphrase = passphrase;
+    this.decryptedFiles.clear();
+  }
+
+  /**
+   * Read an import file as export JSON text, decrypting it first when it is
+   * an encrypted export. Throws PassphraseRequiredError when no passphrase
+   * has been set for an encrypted file.
+   */
+  async readImportFile(fileUri: string): Promise<string> {
+    const fileContent = await readAsStringAsync(fileUri);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fileContent);
+    } catch {
+      // Not JSON at all; format validation reports it
+      return fileContent;
+    }
+    if (!isEncryptedExport(parsed)) {
+      return fileContent;
+    }
+
+    if (!this.passphrase) {
+      throw new PassphraseRequiredError();
+    }
+    const decrypted = this.decryptedFiles.get(fileUri);
+    if (decrypted !== undefined) {
+      return decrypted;
+    }
+
+    const content = await decryptExport(parsed, this.passphrase);
+    this.decryptedFiles.set(fileUri, content);
+    return content;
+  }
+
   private updateProgress(stage: string, current: number, total: number): void {
     if (this.progressCallback) {
       const percentage = total > 0 ? (current / total) * 100 : 0;
@@ -128,7 +216,7 @@ export class DataImportService {
   // Validate import file
   async validateImportFile(fileUri: string): Promise<ValidationResult> {
     try {
-      const fileContent = await readAsStringAsync(fileUri);
+      const fileContent = await this.readImportFile(fileUri);
 
       // First validate file format
       const formatValidation =
@@ -178,7 +266,7 @@ export class DataImportService {
               error instanceof Error
                 ? error.message
                 : 'Unknown file validation error',
-            code: 'FILE_READ_ERROR',
+            code: this.getFileErrorCode(error),
             severity: 'error' as const,
           },
         ],
@@ -187,6 +275,13 @@ export class DataImportService {
     }
   }
 
+  private getFileErrorCode(error: unknown): string {
+    if (error instanceof PassphraseRequiredError) return 'PASSPHRASE_REQUIRED';
+    if (error instanceof WrongPassphraseError) return 'WRONG_PASSPHRASE';
+    if (error instanceof CorruptedExportError) return 'CORRUPTED_FILE';
+    return 'FILE_READ_ERROR';
+  }
+
   // Simplified validation for "all data" import only
   validateDataTypeAvailability(importData: any): {
     isValid: boolean;
@@ -427,6 +522,8 @@ export class DataImportService {
             record.min_quantity !== undefined &&
             record.bulk_price !== undefined
           );
+        case 'receiptTemplates':
+          return !!(record.name && record.html_template);
         case 'categories':
           return !!record.name;
         case 'suppliers':
@@ -494,6 +591,12 @@ export class DataImportService {
             typeof record.bulk_price === 'number' &&
             !isNaN(record.bulk_price)
           );
+        case 'receiptTemplates':
+          return (
+            typeof record.name === 'string' &&
+            typeof record.html_template === 'string' &&
+            (record.css_styles == null || typeof record.css_styles === 'string')
+          );
         default:
           return true; // For unknown types, assume valid
       }
@@ -506,7 +609,7 @@ export class DataImportService {
   // Preview import data
   async previewImportData(fileUri: string): Promise<ImportPreview> {
     try {
-      const fileContent = await readAsStringAsync(fileUri);
+      const fileContent = await this.readImportFile(fileUri);
       const importData = JSON.parse(fileContent);
 
       const dataType = importData.dataType || 'unknown';
@@ -581,7 +684,7 @@ export class DataImportService {
       }
 
       // Find matching existing record using universal matching strategy
-      const matchResult = this.findMatchingRecord(
+      const matchResult = findMatchingRecord(
         record,
         existingRecords,
         recordType,
@@ -611,84 +714,6 @@ export class DataImportService {
     }
   }
 
-  // Universal record matching - tries UUID first, then name-based fallback
-  private findMatchingRecord(
-    record: any,
-    existingRecords: any[],
-    recordType: string,
-  ): { matchedRecord: any | null; matchedBy: 'uuid' | 'name' | 'other' } {
-    // Strategy 1: UUID matching (primary method)
-    if (record.id && isValidUUID(record.id)) {
-      for (const existingRecord of existingRecords) {
-        if (
-          existingRecord.id &&
-          isValidUUID(existingRecord.id) &&
-          record.id === existingRecord.id
-        ) {
-          return { matchedRecord: existingRecord, matchedBy: 'uuid' };
-        }
-      }
-    }
-
-    // Strategy 2: Name-based matching (fallback method)
-    if (this.supportsNameMatching(recordType)) {
-      for (const existingRecord of existingRecords) {
-        if (this.matchByName(record, existingRecord, recordType)) {
-          return { matchedRecord: existingRecord, matchedBy: 'name' };
-        }
-      }
-    }
-
-    return { matchedRecord: null, matchedBy: 'other' };
-  }
-
-  // Check if a data type supports name-based matching
-  private supportsNameMatching(recordType: string): boolean {
-    const nameMatchingSupported = [
-      'products',
-      'customers',
-      'categories',
-      'suppliers',
-      'expenseCategories',
-    ];
-    return nameMatchingSupported.includes(recordType);
-  }
-
-  // Name-based matching logic for different record types
-  private matchByName(record: any, existing: any, recordType: string): boolean {
-    try {
-      switch (recordType) {
-        case 'products':
-          // Match by name or barcode
-          return (
-            (record.name && existing.name && record.name === existing.name) ||
-            (record.barcode &&
-              existing.barcode &&
-              record.barcode === existing.barcode)
-          );
-
-        case 'customers':
-          // Match by name or phone
-          return (
-            (record.name && existing.name && record.name === existing.name) ||
-            (record.phone && existing.phone && record.phone === existing.phone)
-          );
-
-        case 'categories':
-        case 'suppliers':
-        case 'expenseCategories':
-          // Match by name only
-          return record.name && existing.name && record.name === existing.name;
-
-        default:
-          return false;
-      }
-    } catch (error) {
-      console.warn(`Error in name matching for ${recordType}:`, error);
-      return false;
-    }
-  }
-
   // Generate appropriate conflict message based on match type
   private generateConflictMessage(
     record: any,
@@ -846,6 +871,7 @@ export class DataImportService {
       existingSales,
       existingExpenses,
       existingStockMovements,
+      existingReceiptTemplates,
     ] = await Promise.all([
       this.db.getProducts(),
       this.db.getCustomers(),
@@ -854,6 +880,7 @@ export class DataImportService {
       this.db.getSalesPaginated(1, 10000),
       this.db.getExpenses(10000),
       this.db.getStockMovements({}, 1, 10000),
+      this.db.getReceiptTemplates(),
     ]);
 
     // Get bulk pricing data
@@ -874,6 +901,7 @@ export class DataImportService {
       expenses: existingExpenses,
       stockMovements: existingStockMovements,
       bulkPricing: existingBulkPricing,
+      receiptTemplates: existingReceiptTemplates,
     };
   }
 
@@ -1051,6 +1079,46 @@ export class DataImportService {
     options: ImportOptions,
   ): Promise<ImportResult> {
     const startTime = Date.now();
+
+    try {
+      this.updateProgress('Reading import file...', 0, 1);
+
+      const fileContent = await this.readImportFile(fileUri);
+      return await this.importExportData(JSON.parse(fileContent), options);
+    } catch (error) {
+      return {
+        success: false,
+        imported: 0,
+        updated: 0,
+        skipped: 0,
+        errors: [
+          {
+            index: -1,
+            record: null,
+            message:
+              error instanceof Error ? error.message : 'Unknown import error',
+            code: 'IMPORT_FAILED',
+          },
+        ],
+        conflicts: [],
+        duration: Date.now() - startTime,
+        dataType: 'all',
+        availableDataTypes: [],
+        processedDataTypes: [],
+        detailedCounts: {},
+        validationMessage: `Import failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      };
+    }
+  }
+
+  // Import the parsed contents of an export file
+  private async importExportData(
+    importData: any,
+    options: ImportOptions,
+  ): Promise<ImportResult> {
+    const startTime = Date.now();
     let totalImported = 0;
     let totalUpdated = 0;
     let totalSkipped = 0;
@@ -1058,11 +1126,6 @@ export class DataImportService {
     const allConflicts: DataConflict[] = [];
 
     try {
-      this.updateProgress('Reading import file...', 0, 1);
-
-      const fileContent = await readAsStringAsync(fileUri);
-      const importData = JSON.parse(fileContent);
-
       // Validate import file for all data
       const dataTypeValidation = this.validateDataTypeAvailability(importData);
       if (!dataTypeValidation.isValid) {
@@ -1121,7 +1184,7 @@ export class DataImportService {
         };
       }
 
-      // Import in order: categories, suppliers, products, customers, sales, expenses, bulkPricing, stockMovements
+      // Import in order: categories, suppliers, products, customers, sales, expenses, bulkPricing, stockMovements, receiptTemplates
       const importOrder = [
         'categories',
         'suppliers',
@@ -1131,6 +1194,7 @@ export class DataImportService {
         'expenses',
         'bulkPricing',
         'stockMovements',
+        'receiptTemplates',
       ];
 
       let currentStage = 0;
@@ -1183,6 +1247,26 @@ export class DataImportService {
         }
       });
 
+      // The records themselves are audited by the database methods; this
+      // entry ties them to a single import. A logging failure must not
+      // report an import that already went through as failed.
+      try {
+        await this.db.addAuditLogEntry({
+          entity_type: 'import',
+          action: 'import',
+          after: {
+            imported: totalImported,
+            updated: totalUpdated,
+            skipped: totalSkipped,
+            errors: allErrors.length,
+            dataTypes: processedDataTypes,
+            conflictResolution: options.conflictResolution,
+          },
+        });
+      } catch (auditError) {
+        console.error('Error recording import in audit log:', auditError);
+      }
+
       // Calculate actual processed counts for each data type
       const actualProcessedCounts: Record<
         string,
@@ -1240,6 +1324,442 @@ export class DataImportService {
     }
   }
 
+  /**
+   * Restore a backup file in place of the current data, in a single
+   * transaction. Every table is emptied and refilled from the backup, so
+   * records added since it was taken are removed and stock matches the
+   * backed-up ledger. Backups from older versions hold no table rows; their
+   * records are imported over the current ones instead, and product
+   * quantities are set back to the backed-up levels.
+   */
+  async restoreBackup(fileUri: string): Promise<ImportResult> {
+    const startTime = Date.now();
+    const backup = JSON.parse(await this.readImportFile(fileUri));
+
+    if (!backup.tables) {
+      return this.db.runAtomically(async () => {
+        const result = await this.importExportData(backup, {
+          batchSize: 100,
+          conflictResolution: 'update',
+        });
+        if (!result.success || result.errors.length > 0) {
+          throw new Error(
+            result.errors[0]?.message || result.validationMessage,
+          );
+        }
+
+        await this.restoreProductQuantities(backup.data?.products || []);
+        return result;
+      });
+    }
+
+    this.updateProgress('Restoring backup...', 0, 1);
+    await this.db.replaceBackupTables(backup.tables);
+    this.updateProgress('Restore complete', 1, 1);
+
+    const detailedCounts: Record<string, number> = {};
+    for (const [table, rows] of Object.entries(backup.tables)) {
+      if (Array.isArray(rows) && rows.length > 0) {
+        detailedCounts[table] = rows.length;
+      }
+    }
+    const restored = Object.values(detailedCounts).reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+
+    return {
+      success: true,
+      imported: restored,
+      updated: 0,
+      skipped: 0,
+      errors: [],
+      conflicts: [],
+      duration: Date.now() - startTime,
+      dataType: 'all',
+      availableDataTypes: Object.keys(detailedCounts),
+      processedDataTypes: Object.keys(detailedCounts),
+      detailedCounts,
+      validationMessage: `Backup restored. ${restored} records replaced the current data.`,
+    };
+  }
+
+  /**
+   * Read the files of an export chain and put them in the order they are
+   * applied, full export first. Throws ExportChainError when a file is
+   * missing from the chain, belongs to another one or fails its checksum.
+   */
+  async readExportChain(
+    fileUris: string[],
+  ): Promise<{ data: any; manifest: ExportManifest }[]> {
+    const links: { data: any; manifest?: ExportManifest }[] = [];
+    for (const fileUri of fileUris) {
+      const data = JSON.parse(await this.readImportFile(fileUri));
+      links.push({ data, manifest: data?.manifest });
+    }
+
+    const chain = orderExportChain(links);
+    const exportService = new DataExportService(this.db);
+    for (const link of chain) {
+      if (!exportService.verifyChecksum(link.data)) {
+        throw new ExportChainError(
+          `Export ${link.manifest!.sequence} in the chain is damaged`,
+          'corrupted_link',
+          link.manifest!.sequence,
+        );
+      }
+    }
+
+    return chain.map((link) => ({ data: link.data, manifest: link.manifest! }));
+  }
+
+  /**
+   * Import a full export and the incremental exports taken after it, in
+   * chain order and in a single transaction. Files may be given in any
+   * order; the chain is checked before anything is written.
+   */
+  async importExportChain(fileUris: string[]): Promise<ImportResult> {
+    const startTime = Date.now();
+    const chain = await this.readExportChain(fileUris);
+
+    return this.db.runAtomically(async () => {
+      const total: ImportResult = {
+        success: true,
+        imported: 0,
+        updated: 0,
+        skipped: 0,
+        errors: [],
+        conflicts: [],
+        duration: 0,
+        dataType: 'all',
+        availableDataTypes: [],
+        processedDataTypes: [],
+        detailedCounts: {},
+        validationMessage: '',
+      };
+      let deleted = 0;
+      // Latest version of each product, for the stock levels at the end
+      const products = new Map<string, any>();
+
+      for (const [index, link] of chain.entries()) {
+        this.updateProgress('Importing export chain...', index, chain.length);
+        const data = link.data.data || {};
+        const deletions: Record<string, string[]> = link.data.deletions || {};
+
+        const hasRecords = Object.values(data).some(
+          (records) => Array.isArray(records) && records.length > 0,
+        );
+        if (hasRecords) {
+          const result = await this.importExportData(link.data, {
+            batchSize: 100,
+            conflictResolution: 'update',
+          });
+          if (!result.success || result.errors.length > 0) {
+            throw new Error(
+              result.errors[0]?.message || result.validationMessage,
+            );
+          }
+
+          total.imported += result.imported;
+          total.updated += result.updated;
+          total.skipped += result.skipped;
+          for (const dataType of result.processedDataTypes) {
+            if (!total.processedDataTypes.includes(dataType)) {
+              total.processedDataTypes.push(dataType);
+            }
+          }
+          for (const [dataType, count] of Object.entries(
+            result.detailedCounts,
+          )) {
+            total.detailedCounts[dataType] =
+              (total.detailedCounts[dataType] || 0) + count;
+          }
+        }
+
+        for (const product of data.products || []) {
+          products.set(product.id, product);
+        }
+        deleted += await this.applyDeletions(deletions);
+        for (const productId of deletions.products || []) {
+          products.delete(productId);
+        }
+      }
+
+      await this.restoreProductQuantities([...products.values()]);
+
+      total.deleted = deleted;
+      total.availableDataTypes = total.processedDataTypes;
+      total.duration = Date.now() - startTime;
+      total.validationMessage = `Imported ${chain.length} linked exports. ${total.imported} records imported, ${total.updated} updated, ${deleted} deleted, ${total.skipped} skipped.`;
+      return total;
+    });
+  }
+
+  // Remove the records an incremental export lists as deleted. Records this
+  // device never had are passed over.
+  private async applyDeletions(
+    deletions: Record<string, string[]>,
+  ): Promise<number> {
+    let deleted = 0;
+
+    for (const dataType of DELETION_ORDER) {
+      const table = INCREMENTAL_EXPORT_TABLES[dataType];
+      for (const id of deletions[dataType] || []) {
+        if (!(await this.db.rowExists(table, id))) continue;
+
+        switch (dataType) {
+          case 'receiptTemplates':
+            await this.db.deleteReceiptTemplate(id);
+            break;
+          case 'stockMovements':
+            await this.db.deleteStockMovement(id);
+            break;
+          case 'bulkPricing':
+            await this.db.deleteBulkPricing(id);
+            break;
+          case 'expenses':
+            await this.db.deleteExpense(id);
+            break;
+          case 'sales':
+            await this.db.deleteSale(id);
+            break;
+          case 'products':
+            await this.db.deleteProduct(id);
+            break;
+          case 'customers':
+            await this.db.deleteCustomer(id);
+            break;
+          case 'suppliers':
+            await this.db.deleteSupplier(id);
+            break;
+          case 'expenseCategories':
+            await this.db.deleteExpenseCategory(id);
+            break;
+          case 'categories':
+            await this.db.deleteCategory(id);
+            break;
+        }
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  // Replaying sales and stock movements moves stock, so product quantities
+  // are set back to the exported levels
+  private async restoreProductQuantities(products: any[]): Promise<void> {
+    const parentIds = new Set(
+      products.map((product) => product.parent_id).filter(Boolean),
+    );
+
+    for (const product of products) {
+      // Parents show the combined stock of their variants
+      if (
+        product.variant_count ||
+        parentIds.has(product.id) ||
+        typeof product.quantity !== 'number'
+      ) {
+        continue;
+      }
+      await this.db.updateProduct(product.id, {
+        quantity: product.quantity,
+      });
+    }
+  }
+
+  // Read the first sheet of a CSV or Excel file
+  async readSpreadsheetFile(
+    fileUri: string,
+    filename: string,
+  ): Promise<SpreadsheetTable> {
+    const file = new FileSystem.File(fileUri);
+    if (/\.(csv|txt)$/i.test(filename)) {
+      return parseSpreadsheet(await file.text(), 'string');
+    }
+    return parseSpreadsheet(await file.base64(), 'base64');
+  }
+
+  /**
+   * Dry run of a spreadsheet import. Each row is checked with
+   * ValidationService and matched against existing records: products by
+   * barcode (or name when a row has no barcode), customers and suppliers by
+   * name. Nothing is written.
+   */
+  async previewSpreadsheetImport(
+    recordType: SpreadsheetEntity,
+    rows: Record<string, any>[],
+  ): Promise<SpreadsheetImportPreview> {
+    const existingRecords: any[] =
+      recordType === 'products'
+        ? await this.db.getProducts()
+        : recordType === 'customers'
+          ? await this.db.getCustomers()
+          : await this.db.getSuppliers();
+
+    const records: any[] = [];
+    const conflicts: DataConflict[] = [];
+    const seenKeys = new Map<string, number>();
+    let newCount = 0;
+
+    rows.forEach((record, index) => {
+      const rowNumber = index + 2; // Row 1 holds the headers
+      const addInvalidRow = (message: string) =>
+        conflicts.push({
+          type: 'validation_failed',
+          record,
+          message: `Row ${rowNumber}: ${message}`,
+          index,
+          recordType,
+          matchedBy: 'other',
+        });
+
+      const validation = this.validateSpreadsheetRow(recordType, record);
+      if (!validation.isValid) {
+        addInvalidRow(validation.errors.map((e) => e.message).join(', '));
+        return;
+      }
+
+      // The same product or contact twice in one file
+      const key =
+        recordType === 'products' && record.barcode
+          ? `barcode:${record.barcode}`
+          : `name:${record.name}`;
+      const firstRow = seenKeys.get(key);
+      if (firstRow !== undefined) {
+        addInvalidRow(`same ${key.split(':')[0]} as row ${firstRow}`);
+        return;
+      }
+      seenKeys.set(key, rowNumber);
+
+      const match =
+        recordType === 'products' && record.barcode
+          ? existingRecords.find((p) => p.barcode === record.barcode) || null
+          : findMatchingRecord(record, existingRecords, recordType)
+              .matchedRecord;
+
+      records.push(record);
+      if (!match) {
+        newCount++;
+        return;
+      }
+
+      // Fields left out of the sheet keep their current values
+      for (const field of SPREADSHEET_FIELDS[recordType]) {
+        record[field.key] ??= match[field.key];
+      }
+      if (recordType === 'products' && !record.supplier) {
+        record.supplier_id = match.supplier_id;
+      }
+      conflicts.push({
+        type: 'duplicate',
+        record,
+        existingRecord: match,
+        message: `Row ${rowNumber}: ${this.generateConflictMessage(
+          record,
+          { matchedRecord: match, matchedBy: 'name' },
+          recordType,
+        )}`,
+        index,
+        recordType,
+        matchedBy: 'name',
+      });
+    });
+
+    const statistics = {
+      total: conflicts.length,
+      duplicate: conflicts.filter((c) => c.type === 'duplicate').length,
+      reference_missing: 0,
+      validation_failed: conflicts.filter((c) => c.type === 'validation_failed')
+        .length,
+    };
+
+    return {
+      recordType,
+      records,
+      totalRows: rows.length,
+      newCount,
+      conflicts,
+      conflictSummary: {
+        totalConflicts: conflicts.length,
+        conflictsByType: { [recordType]: conflicts },
+        conflictStatistics: { [recordType]: statistics },
+        hasConflicts: conflicts.length > 0,
+      },
+    };
+  }
+
+  /**
+   * Import the valid rows of a spreadsheet preview. Rows matching an
+   * existing record are updated or skipped following the conflict
+   * resolution; category and supplier names are resolved or created.
+   */
+  async importSpreadsheetRecords(
+    preview: SpreadsheetImportPreview,
+    options: ImportOptions,
+  ): Promise<ImportResult> {
+    const startTime = Date.now();
+    const { recordType, records } = preview;
+    const duplicates = preview.conflicts.filter((c) => c.type === 'duplicate');
+
+    this.updateProgress(`Importing ${recordType}...`, 0, records.length);
+    const result = await this.processDataType(
+      recordType,
+      records,
+      options,
+      duplicates,
+    );
+
+    const skippedInvalid = preview.totalRows - records.length;
+    const errors = [
+      ...preview.conflicts
+        .filter((c) => c.type === 'validation_failed')
+        .map((c) => ({
+          index: c.index,
+          record: c.record,
+          message: c.message,
+          code: 'VALIDATION_FAILED',
+        })),
+      ...result.errors,
+    ];
+
+    return {
+      success: true,
+      imported: result.imported,
+      updated: result.updated,
+      skipped: result.skipped + skippedInvalid,
+      errors,
+      conflicts: result.conflicts,
+      duration: Date.now() - startTime,
+      dataType: 'all',
+      availableDataTypes: [recordType],
+      processedDataTypes: [recordType],
+      detailedCounts: { [recordType]: preview.totalRows },
+      actualProcessedCounts: {
+        [recordType]: {
+          imported: result.imported,
+          updated: result.updated,
+          skipped: result.skipped + skippedInvalid,
+        },
+      },
+      validationMessage: `${records.length} of ${preview.totalRows} rows are valid`,
+    };
+  }
+
+  private validateSpreadsheetRow(
+    recordType: SpreadsheetEntity,
+    record: any,
+  ): ValidationResult {
+    switch (recordType) {
+      case 'products':
+        return this.validationService.validateProductData(record);
+      case 'customers':
+        return this.validationService.validateCustomerData(record);
+      case 'suppliers':
+        return this.validationService.validateSupplierData(record);
+    }
+  }
+
   // Simplified record processing with consistent error handling
   private async processDataType(
     dataType: string,
@@ -1526,6 +2046,19 @@ export class DataImportService {
         });
         break;
 
+      case 'receiptTemplates':
+        const templateData: any = {
+          name: record.name,
+          description: record.description || null,
+          html_template: record.html_template,
+          css_styles: record.css_styles || '',
+        };
+        if (record.id && isValidUUID(record.id)) {
+          templateData.id = record.id;
+        }
+        await this.db.addReceiptTemplate(templateData);
+        break;
+
       default:
         console.warn(`Unsupported data type for adding: ${dataType}`);
     }
@@ -1588,6 +2121,15 @@ export class DataImportService {
         });
         break;
 
+      case 'receiptTemplates':
+        await this.db.updateReceiptTemplate(existingRecord.id, {
+          name: newRecord.name,
+          description: newRecord.description || null,
+          html_template: newRecord.html_template,
+          css_styles: newRecord.css_styles || '',
+        });
+        break;
+
       default:
         // For other data types, we typically don't update existing records
         console.warn(`Update not supported for data type: ${dataType}`);
@@ -1885,7 +2427,7 @@ export class DataImportService {
     canProceed: boolean;
   }> {
     try {
-      const fileContent = await readAsStringAsync(fileUri);
+      const fileContent = await this.readImportFile(fileUri);
       const importData = JSON.parse(fileContent);
 
       const validation = this.validateDataTypeAvailability(importData);
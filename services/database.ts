@@ -6,7 +6,12 @@ import {
 import { generateUUID } from '../utils/uuid';
 import { UUIDMigrationService, MigrationReport } from './uuidMigrationService';
 import { MigrationStatusService } from './migrationStatusService';
+import { CostingSettingsService } from './costingSettingsService';
+import { StockSettingsService } from './stockSettingsService';
+import { LoyaltySettingsService } from './loyaltySettingsService';
+import { SyncSettingsService } from './syncSettingsService';
 import {
+  formatDateForDatabase,
   formatTimestampForDatabase,
   getStartOfDayForDB,
   getEndOfDayForDB,
@@ -18,6 +23,41 @@ import {
   getTimezoneAwareCurrentYearRangeForDB,
   getTimezoneAwareMonthRangeForDB,
 } from '@/utils/dateUtils';
+import * as Crypto from 'expo-crypto';
+import {
+  Permission,
+  StaffRole,
+  hasPermission,
+  isValidPin,
+} from '@/utils/staffPermissions';
+import {
+  VariantOptions,
+  buildVariantName,
+  formatVariantLabel,
+  parseVariantAttributes,
+  parseVariantOptions,
+} from '@/utils/productVariants';
+import { findMatchingRecord, MATCH_COLUMNS } from '@/utils/recordMatching';
+import { SYNC_TABLES, resolveSyncConflict } from '@/utils/syncRules';
+import {
+  CouponError,
+  getCouponError,
+  normalizeCouponCode,
+} from '@/utils/discountUtils';
+import { validateTemplate } from '@/utils/receiptTemplateLanguage';
+import {
+  CustomerSegment,
+  LoyaltySettings,
+  LoyaltyTier,
+  calculatePointsBalance,
+  getLoyaltyTier,
+  getPointsExpiry,
+} from '@/utils/loyaltyUtils';
+import { getDebtAgingBucket } from '@/utils/accountingCsv';
+import {
+  INTERNAL_BARCODE_PREFIX,
+  getNextInternalBarcode,
+} from '@/utils/barcodeUtils';
 
 export interface Product {
   id: string;
@@ -34,10 +74,32 @@ export interface Product {
   imageUrl?: string; // Optional image URL property
   bulk_pricing?: BulkPricing[]; // For joined queries
   has_bulk_pricing?: boolean; // Simple boolean flag for performance
+  tax_rate_id?: string | null; // Overrides the category tax rate; 'exempt' disables tax
+  parent_id?: string | null; // Set on variants; a parent with variants holds no stock itself
+  variant_attributes?: string | null; // Parent: JSON array of option names, e.g. ["Size","Colour"]
+  variant_options?: string | null; // Variant: JSON object of option values, e.g. {"Size":"M"}
+  variant_count?: number; // For joined queries
   created_at: string;
   updated_at: string;
 }
 
+// Sales of one parent product, in total and per variant
+export interface VariantSalesRollup {
+  parent_id: string;
+  parent_name: string;
+  quantity: number;
+  revenue: number;
+  profit: number;
+  variants: {
+    product_id: string;
+    name: string;
+    variant_options?: string | null;
+    quantity: number;
+    revenue: number;
+    profit: number;
+  }[];
+}
+
 // Pagination interfaces
 export interface PaginatedResult<T> {
   data: T[];
@@ -61,6 +123,17 @@ export interface Sale {
   note?: string; // Optional note field
   customer_id?: string; // Optional customer relationship
   customer_name?: string; // For joined queries
+  tax_total?: number; // Sum of sale_items.tax_amount
+  shift_id?: string | null; // Cash drawer shift open when the sale was made
+  staff_id?: string | null; // Staff member signed in when the sale was made
+  staff_name?: string; // For joined queries
+  order_discount?: number; // Whole-order discount, already shared across the items
+  order_discount_reason?: string | null;
+  coupon_code?: string | null; // Snapshot of the coupon used for the order discount
+  loyalty_points_earned?: number;
+  loyalty_points_redeemed?: number;
+  loyalty_discount?: number; // Points taken as a discount, shared across the items
+  loyalty_payment?: number; // Points taken as payment; the rest is paid by payment_method
   created_at: string;
 }
 
@@ -73,6 +146,13 @@ export interface SaleItem {
   cost: number;
   discount: number; // Discount amount
   subtotal: number; // (price * quantity) - discount
+  tax_name?: string; // Snapshot of the tax rate name at sale time
+  tax_rate?: number; // Percentage, e.g. 5 for 5%
+  tax_amount?: number;
+  tax_inclusive?: number; // 1 = tax included in subtotal, 0 = added on top
+  promotion_discount?: number; // This line's share of promotion savings
+  order_discount?: number; // This line's share of the order discount
+  loyalty_discount?: number; // This line's share of points taken as a discount
 }
 
 export interface Supplier {
@@ -89,9 +169,30 @@ export interface Category {
   id: string;
   name: string;
   description?: string;
+  tax_rate_id?: string | null;
   created_at: string;
 }
 
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number; // Percentage, e.g. 5 for 5%
+  is_inclusive: number; // 1 = prices already include tax, 0 = tax added on top
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxSummary {
+  tax_name: string;
+  tax_rate: number;
+  tax_inclusive: number;
+  taxable_amount: number;
+  tax_amount: number;
+  refunded_tax: number; // Tax on items returned within the range
+  net_tax: number;
+  item_count: number;
+}
+
 export interface ExpenseCategory {
   id: string;
   name: string;
@@ -111,6 +212,7 @@ export interface Expense {
   amount: number;
   description: string;
   date: string;
+  shift_id?: string | null; // Set when the expense was paid from the cash drawer
   created_at: string;
   updated_at: string;
 }
@@ -132,6 +234,217 @@ export interface CustomerWithDebt extends Customer {
   paid_amount: number;
 }
 
+export interface DebtPayment {
+  id: string;
+  customer_id: string;
+  customer_name?: string; // For joined queries
+  sale_id?: string; // Optional: payments can be applied to a specific debt sale
+  voucher_id?: string; // For joined queries
+  amount: number;
+  payment_method: string;
+  note?: string;
+  payment_date: string;
+  voided: number; // 0 = active, 1 = voided
+  voided_at?: string;
+  void_reason?: string;
+  shift_id?: string | null;
+  created_at: string;
+}
+
+export interface DebtStatementEntry {
+  id: string;
+  type: 'charge' | 'payment' | 'return';
+  date: string;
+  reference: string; // Voucher ID for charges, payment method for payments, return number for returns
+  sale_id?: string;
+  note?: string;
+  charge: number;
+  payment: number;
+  balance: number; // Running balance after this entry
+}
+
+export interface SaleReturn {
+  id: string;
+  sale_id: string;
+  return_number: string; // Voucher ID of the sale with an -R<n> suffix
+  voucher_id?: string; // For joined queries
+  refund_amount: number;
+  refund_method: string; // 'Debt' credits the customer's outstanding debt
+  reason?: string;
+  shift_id?: string | null;
+  created_at: string;
+  items?: SaleReturnItem[];
+}
+
+export interface SaleReturnItem {
+  id: string;
+  return_id: string;
+  sale_item_id: string;
+  product_id: string;
+  product_name?: string; // For joined queries
+  quantity: number;
+  price: number; // Unit price of the original sale item
+  refund_amount: number;
+  cost: number;
+  restocked: number; // 1 = returned to stock, 0 = written off (e.g. damaged)
+}
+
+export interface HeldCartItem {
+  product_id: string;
+  quantity: number;
+  discount: number; // Manual discount; bulk pricing is recalculated on resume
+}
+
+export interface HeldCart {
+  id: string;
+  label: string;
+  customer_id?: string;
+  customer_name?: string; // For joined queries
+  note?: string;
+  items: HeldCartItem[];
+  total: number; // Cart total when held, for display only
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Shift {
+  id: string;
+  status: 'open' | 'closed';
+  opening_float: number;
+  opening_note?: string;
+  expected_cash?: number | null; // Snapshot taken when the shift is closed
+  counted_cash?: number | null;
+  closing_note?: string;
+  opened_at: string;
+  closed_at?: string | null;
+}
+
+export interface CashMovement {
+  id: string;
+  shift_id: string;
+  type: 'pay_in' | 'pay_out';
+  amount: number;
+  reason?: string;
+  created_at: string;
+}
+
+// Payment method name used for the part of a sale paid with loyalty points
+export const LOYALTY_PAYMENT_METHOD = 'Loyalty Points';
+
+export interface ShiftPaymentTotal {
+  payment_method: string;
+  sale_count: number;
+  total: number;
+}
+
+export interface ShiftReport {
+  shift: Shift;
+  paymentTotals: ShiftPaymentTotal[];
+  saleCount: number;
+  salesTotal: number;
+  cashSales: number;
+  debtCollected: number; // Cash debt payments taken into the drawer
+  refundCount: number;
+  refundsTotal: number;
+  cashRefunds: number;
+  payIns: number;
+  payOuts: number;
+  drawerExpenses: number;
+  expectedCash: number;
+  countedCash: number | null;
+  variance: number | null; // Counted minus expected, null while the shift is open
+  cashMovements: CashMovement[];
+}
+
+export interface Staff {
+  id: string;
+  name: string;
+  role: StaffRole;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StaffSalesSummary {
+  staff_id: string | null; // Null for sales made without a signed-in staff member
+  staff_name: string | null;
+  sale_count: number;
+  total: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'import' | 'restore';
+
+export interface AuditLogEntry {
+  id: string;
+  seq: number; // Gapless position in the hash chain
+  entity_type: string; // 'product', 'sale', 'stock_movement', 'bulk_pricing', 'promotion', 'coupon', 'receipt_template', 'import', 'backup'
+  entity_id: string | null;
+  entity_label: string | null; // Product name or voucher at the time of the change
+  action: AuditAction;
+  before_data: string | null; // JSON snapshot of the changed fields
+  after_data: string | null;
+  staff_id: string | null;
+  staff_name?: string; // For joined queries
+  created_at: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditLogFilters {
+  entityType?: string;
+  action?: AuditAction;
+  staffId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAtSeq: number | null; // First entry that was edited, removed or reordered
+}
+
+export type SyncOperation = 'upsert' | 'delete';
+
+// One row change exchanged with the sync server
+export interface SyncChange {
+  table_name: string;
+  row_id: string;
+  operation: SyncOperation;
+  version: number; // Bumped on every local change to the row
+  updated_at: string; // ISO timestamp in UTC
+  device_id?: string; // Stamped by the server on pulled changes
+  data?: Record<string, any> | null; // Full row for upserts; null for tombstones
+}
+
+// A pending change read from the outbox, with the outbox position it covers
+export interface SyncOutboxChange extends SyncChange {
+  seq: number;
+}
+
+export interface SyncApplyResult {
+  applied: number;
+  skipped: number;
+  conflicts: number;
+}
+
+export interface SyncConflict {
+  id: string;
+  table_name: string;
+  row_id: string;
+  resolution: 'kept_local' | 'took_remote' | 'merged' | 'failed';
+  local_data: string | null; // JSON snapshot of the row before resolving
+  remote_data: string | null;
+  message: string | null;
+  created_at: string;
+}
+
+export interface SyncStatus {
+  pendingChanges: number;
+  conflicts: number;
+  lastSyncedAt: string | null;
+}
+
 export interface StockMovement {
   id: string;
   product_id: string;
@@ -143,9 +456,144 @@ export interface StockMovement {
   supplier_name?: string; // For joined queries
   reference_number?: string;
   unit_cost?: number;
+  staff_id?: string | null; // Staff member who recorded the movement
+  staff_name?: string; // For joined queries
+  created_at: string;
+}
+
+export type CostingMethod = 'weighted_average' | 'fifo';
+
+// Units received at one cost; sales and stock-outs consume the oldest first
+export interface InventoryCostLayer {
+  id: string;
+  product_id: string;
+  movement_id?: string | null; // Stock movement that created the layer
+  quantity: number;
+  remaining_quantity: number;
+  unit_cost: number;
+  created_at: string;
+}
+
+export interface InventoryValuationItem {
+  product_id: string;
+  product_name: string;
+  category_name?: string;
+  quantity: number;
+  unit_cost: number; // Average cost of the units on hand
+  value: number;
+}
+
+export interface InventoryValuation {
+  method: CostingMethod;
+  totalValue: number;
+  totalQuantity: number;
+  items: InventoryValuationItem[];
+}
+
+export type StockLedgerSource =
+  | 'opening'
+  | 'adjustment'
+  | 'sale'
+  | 'sale_void'
+  | 'return'
+  | 'stock_in'
+  | 'stock_out'
+  | 'movement_void'
+  | 'purchase_receipt';
+
+// One change to a product's stock. Entries are only ever appended, so the
+// entries written on every device add up to the merged stock level.
+export interface StockLedgerEntry {
+  id: string;
+  product_id: string;
+  delta: number;
+  source_type: StockLedgerSource;
+  source_id?: string | null; // Sale, return, movement or purchase order
+  device_id?: string | null;
+  staff_id?: string | null;
+  created_at: string;
+}
+
+// A product whose stock went below zero once every device's entries merged
+export interface StockReconciliationItem {
+  product_id: string;
+  product_name: string;
+  quantity: number; // Current stock; negative when more was sold than held
+  lowest_balance: number;
+  oversold_quantity: number; // Units sold with no stock to cover them
+  oversold_sales: number; // Sales that took the balance below zero
+  device_count: number; // Devices that sold the product
+  first_oversold_at: string | null;
+}
+
+export type PurchaseOrderStatus =
+  'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  supplier_name?: string; // For joined queries
+  status: PurchaseOrderStatus;
+  note?: string | null;
+  expected_date?: string | null;
+  total_cost: number; // Ordered quantity at expected unit cost
+  received_value: number; // Actual cost of the goods received so far
+  paid_amount: number;
+  item_count: number;
+  created_at: string;
+  updated_at: string;
+  sent_at?: string | null;
+  received_at?: string | null;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  product_name?: string; // For joined queries
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number; // Expected cost per unit
+  received_cost: number; // Actual cost of the units received so far
+}
+
+export interface SupplierPayment {
+  id: string;
+  supplier_id: string;
+  purchase_order_id?: string | null;
+  po_number?: string | null; // For joined queries
+  amount: number;
+  payment_method: string;
+  note?: string | null;
   created_at: string;
 }
 
+// Amount owed to a supplier = value of goods received minus payments
+export interface SupplierPayable {
+  supplier_id: string;
+  supplier_name: string;
+  received_value: number;
+  paid_amount: number;
+  balance: number;
+  open_orders: number;
+}
+
+export interface PurchaseOrderSuggestion {
+  supplier_id: string;
+  supplier_name: string;
+  items: {
+    product_id: string;
+    product_name: string;
+    current_stock: number;
+    min_stock: number;
+    avg_daily_sales: number;
+    on_order: number; // Still outstanding on open purchase orders
+    suggested_quantity: number;
+    unit_cost: number;
+  }[];
+}
+
 export interface BulkPricing {
   id: string;
   product_id: string;
@@ -154,6 +602,103 @@ export interface BulkPricing {
   created_at: string;
 }
 
+export type PromotionType = 'buy_x_get_y' | 'percent_off' | 'bundle_price';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  product_ids: string[]; // Stored as a JSON array
+  category_id?: string | null; // buy_x_get_y and percent_off may cover a category
+  buy_quantity?: number | null; // buy_x_get_y
+  get_quantity?: number | null; // buy_x_get_y
+  discount_percent?: number | null; // percent_off
+  bundle_price?: number | null; // bundle_price, for one of each product
+  start_date?: string | null; // Local YYYY-MM-DD, inclusive
+  end_date?: string | null;
+  start_time?: string | null; // HH:MM daily window, e.g. a happy hour
+  end_time?: string | null;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SalePromotion {
+  id: string;
+  sale_id: string;
+  promotion_id: string;
+  promotion_name: string; // Snapshot of the name at sale time
+  discount: number;
+  created_at: string;
+}
+
+export interface PromotionPerformance {
+  promotion_id: string;
+  name: string;
+  sale_count: number;
+  discount_given: number;
+  revenue: number; // Totals of the sales the promotion was applied to
+}
+
+export interface Coupon {
+  id: string;
+  code: string; // Stored upper case
+  description?: string | null;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  min_spend?: number | null; // Order subtotal needed before the coupon applies
+  expires_on?: string | null; // Local YYYY-MM-DD, the last day it can be used
+  max_uses?: number | null; // 1 for single use, null for unlimited
+  is_active: number;
+  use_count?: number; // For joined queries
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomReceiptTemplate {
+  id: string;
+  name: string;
+  description?: string | null;
+  html_template: string; // In the receipt template placeholder language
+  css_styles: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CouponRedemption {
+  id: string;
+  coupon_id: string;
+  sale_id: string;
+  code: string;
+  discount: number;
+  created_at: string;
+}
+
+export interface CouponPerformance {
+  coupon_id: string;
+  code: string;
+  use_count: number;
+  discount_given: number;
+  revenue: number;
+}
+
+export interface LoyaltyPointsEntry {
+  id: string;
+  customer_id: string;
+  sale_id?: string | null;
+  type: 'earn' | 'redeem';
+  points: number; // Negative when redeemed
+  expires_at?: string | null; // Earn entries only
+  created_at: string;
+}
+
+export interface CustomerLoyalty {
+  balance: number;
+  expired: number;
+  tier: LoyaltyTier;
+  segment: CustomerSegment;
+}
+
 // Enhanced supplier management interfaces
 export interface SupplierWithStats {
   id: string;
@@ -177,6 +722,27 @@ export interface SupplierProduct {
   total_received: number;
 }
 
+// One sale item with its sale's header fields, for line-level exports
+export interface SaleLineExportRow extends SaleItem {
+  sale_created_at: string;
+  voucher_id?: string | null;
+  payment_method: string;
+  customer_name?: string | null;
+  product_name: string;
+  barcode?: string | null;
+}
+
+// Outstanding debt per customer, split by how long the sales have been owed
+export interface DebtAgingRow {
+  customer_id: string;
+  customer_name: string;
+  current: number; // 0-30 days
+  days_31_60: number;
+  days_61_90: number;
+  over_90: number;
+  total: number;
+}
+
 // Voucher ID system interfaces and error class
 export interface VoucherIDComponents {
   date: string; // YYYY-MM-DD format
@@ -204,13 +770,85 @@ export const VOUCHER_ERROR_CODES = {
   FOREIGN_KEY_VIOLATION: 'VOUCHER_FK_VIOLATION',
 };
 
+// Thrown at checkout when negative stock is blocked and an item is short
+export class InsufficientStockError extends Error {
+  constructor(
+    message: string,
+    public productName: string,
+    public available: number,
+  ) {
+    super(message);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+// Thrown at checkout when the customer no longer has the points being spent,
+// e.g. after they were spent on another device
+export class InsufficientPointsError extends Error {
+  constructor(
+    message: string,
+    public available: number,
+  ) {
+    super(message);
+    this.name = 'InsufficientPointsError';
+  }
+}
+
 // ShopSettings moved to shopSettingsStorage.ts (using AsyncStorage instead of SQLite)
 
+/**
+ * Tables a full backup holds, parents before children. The sync_* tables
+ * track this device's sync progress and are not backed up. Nor is the audit
+ * log: a restore is appended to it rather than rolling it back, so its hash
+ * chain keeps every entry written before the restore.
+ */
+export const BACKUP_TABLES = [
+  'tax_rates',
+  'categories',
+  'suppliers',
+  'expense_categories',
+  'customers',
+  'staff',
+  'products',
+  'bulk_pricing',
+  'promotions',
+  'coupons',
+  'receipt_templates',
+  'shifts',
+  'cash_movements',
+  'sales',
+  'sale_items',
+  'sale_promotions',
+  'coupon_redemptions',
+  'loyalty_points',
+  'sale_returns',
+  'sale_return_items',
+  'debt_payments',
+  'held_carts',
+  'expenses',
+  'stock_movements',
+  'stock_ledger',
+  'inventory_cost_layers',
+  'purchase_orders',
+  'purchase_order_items',
+  'supplier_payments',
+];
+
 export class DatabaseService {
   private db: SQLite.SQLiteDatabase;
   private bulkPricingCache = new Map<string, BulkPricing[]>();
   private cacheExpiry = new Map<string, number>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private activeStaff: Pick<Staff, 'id' | 'role'> | null = null;
+  private auditWriteQueue: Promise<void> = Promise.resolve();
+  private readonly AUDIT_GENESIS_HASH = '0'.repeat(64);
+  private costingMethod: CostingMethod = 'weighted_average';
+  private allowNegativeStock = false;
+  private deviceId: string | null = null;
+  // Products that hold stock themselves: everything except parents whose
+  // stock lives in their variants. Expects the products table aliased as p.
+  private readonly STOCKED_PRODUCT_SQL =
+    'NOT EXISTS (SELECT 1 FROM products v WHERE v.parent_id = p.id)';
 
   constructor(database: SQLite.SQLiteDatabase) {
     this.db = database;
@@ -327,43 +965,362 @@ export class DatabaseService {
         FOREIGN KEY (product_id) REFERENCES products (id)
       );
 
-      -- shop_settings table removed (now using AsyncStorage)
-      
-      CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
-      CREATE INDEX IF NOT EXISTS idx_expenses_category_id ON expenses(category_id);
-      CREATE INDEX IF NOT EXISTS idx_sales_created_at ON sales(created_at);
-      CREATE INDEX IF NOT EXISTS idx_sale_items_sale_id ON sale_items(sale_id);
-      CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
-      CREATE INDEX IF NOT EXISTS idx_stock_movements_supplier_id ON stock_movements(supplier_id);
-      CREATE INDEX IF NOT EXISTS idx_bulk_pricing_product_id ON bulk_pricing(product_id);
-      
-      -- Performance indexes for product search and pagination
-      CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
-      CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);
-      CREATE INDEX IF NOT EXISTS idx_products_category_updated ON products(category_id, updated_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_products_updated_name ON products(updated_at DESC, name ASC);
-      CREATE INDEX IF NOT EXISTS idx_bulk_pricing_product_exists ON bulk_pricing(product_id);
-    `);
+      CREATE TABLE IF NOT EXISTS debt_payments (
+        id TEXT PRIMARY KEY,
+        customer_id TEXT NOT NULL,
+        sale_id TEXT,
+        amount REAL NOT NULL,
+        payment_method TEXT NOT NULL,
+        note TEXT,
+        payment_date DATETIME NOT NULL,
+        voided INTEGER NOT NULL DEFAULT 0,
+        voided_at DATETIME,
+        void_reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (customer_id) REFERENCES customers (id),
+        FOREIGN KEY (sale_id) REFERENCES sales (id)
+      );
 
-    // Add description column to categories if it doesn't exist
-    await this.migrateDatabase();
-  }
+      CREATE TABLE IF NOT EXISTS sale_returns (
+        id TEXT PRIMARY KEY,
+        sale_id TEXT NOT NULL,
+        return_number TEXT NOT NULL,
+        refund_amount REAL NOT NULL,
+        refund_method TEXT NOT NULL,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (sale_id) REFERENCES sales (id)
+      );
 
-  // Voucher ID utility methods
+      CREATE TABLE IF NOT EXISTS held_carts (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        customer_id TEXT,
+        note TEXT,
+        items TEXT NOT NULL, /* JSON array of HeldCartItem */
+        total REAL NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (customer_id) REFERENCES customers (id)
+      );
 
-  /**
-   * Format a voucher ID from date and sequential number
-   * @param date The date for the voucher ID
-   * @param sequential The sequential number (1-999)
-   * @returns Formatted voucher ID in YYYY-MM-DD-NNN format
-   */
-  private formatVoucherID(date: Date, sequential: number): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const seq = String(sequential).padStart(3, '0');
-    return `${year}-${month}-${day}-${seq}`;
-  }
+      CREATE TABLE IF NOT EXISTS shifts (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+        opening_float REAL NOT NULL DEFAULT 0,
+        opening_note TEXT,
+        expected_cash REAL,
+        counted_cash REAL,
+        closing_note TEXT,
+        opened_at DATETIME NOT NULL,
+        closed_at DATETIME
+      );
+
+      CREATE TABLE IF NOT EXISTS cash_movements (
+        id TEXT PRIMARY KEY,
+        shift_id TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('pay_in', 'pay_out')),
+        amount REAL NOT NULL,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (shift_id) REFERENCES shifts (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS staff (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('owner', 'manager', 'cashier')),
+        pin_hash TEXT NOT NULL,
+        pin_salt TEXT NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        id TEXT PRIMARY KEY,
+        po_number TEXT NOT NULL UNIQUE,
+        supplier_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+        note TEXT,
+        expected_date TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        sent_at DATETIME,
+        received_at DATETIME,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS purchase_order_items (
+        id TEXT PRIMARY KEY,
+        purchase_order_id TEXT NOT NULL,
+        product_id TEXT NOT NULL,
+        quantity_ordered INTEGER NOT NULL,
+        quantity_received INTEGER NOT NULL DEFAULT 0,
+        unit_cost REAL NOT NULL DEFAULT 0,
+        received_cost REAL NOT NULL DEFAULT 0,
+        FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders (id),
+        FOREIGN KEY (product_id) REFERENCES products (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS supplier_payments (
+        id TEXT PRIMARY KEY,
+        supplier_id TEXT NOT NULL,
+        purchase_order_id TEXT,
+        amount REAL NOT NULL,
+        payment_method TEXT NOT NULL DEFAULT 'Cash',
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers (id),
+        FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        movement_id TEXT,
+        quantity INTEGER NOT NULL,
+        remaining_quantity INTEGER NOT NULL,
+        unit_cost REAL NOT NULL,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (product_id) REFERENCES products (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        seq INTEGER NOT NULL UNIQUE,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT,
+        entity_label TEXT,
+        action TEXT NOT NULL,
+        before_data TEXT,
+        after_data TEXT,
+        staff_id TEXT,
+        created_at DATETIME NOT NULL,
+        prev_hash TEXT NOT NULL,
+        hash TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tax_rates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        rate REAL NOT NULL,
+        is_inclusive INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS promotions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('buy_x_get_y', 'percent_off', 'bundle_price')),
+        product_ids TEXT NOT NULL DEFAULT '[]', /* JSON array of product ids */
+        category_id TEXT,
+        buy_quantity INTEGER,
+        get_quantity INTEGER,
+        discount_percent REAL,
+        bundle_price REAL,
+        start_date TEXT,
+        end_date TEXT,
+        start_time TEXT,
+        end_time TEXT,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (category_id) REFERENCES categories (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sale_promotions (
+        id TEXT PRIMARY KEY,
+        sale_id TEXT NOT NULL,
+        promotion_id TEXT NOT NULL,
+        promotion_name TEXT NOT NULL,
+        discount REAL NOT NULL,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (sale_id) REFERENCES sales (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS coupons (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL,
+        description TEXT,
+        discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+        discount_value REAL NOT NULL,
+        min_spend REAL,
+        expires_on TEXT,
+        max_uses INTEGER,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS receipt_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        html_template TEXT NOT NULL,
+        css_styles TEXT NOT NULL DEFAULT '',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS coupon_redemptions (
+        id TEXT PRIMARY KEY,
+        coupon_id TEXT NOT NULL,
+        sale_id TEXT NOT NULL,
+        code TEXT NOT NULL,
+        discount REAL NOT NULL,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (sale_id) REFERENCES sales (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS loyalty_points (
+        id TEXT PRIMARY KEY,
+        customer_id TEXT NOT NULL,
+        sale_id TEXT,
+        type TEXT NOT NULL,
+        points INTEGER NOT NULL,
+        expires_at DATETIME,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (customer_id) REFERENCES customers (id),
+        FOREIGN KEY (sale_id) REFERENCES sales (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sale_return_items (
+        id TEXT PRIMARY KEY,
+        return_id TEXT NOT NULL,
+        sale_item_id TEXT NOT NULL,
+        product_id TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        price REAL NOT NULL,
+        refund_amount REAL NOT NULL,
+        cost REAL NOT NULL,
+        restocked INTEGER NOT NULL DEFAULT 1,
+        FOREIGN KEY (return_id) REFERENCES sale_returns (id),
+        FOREIGN KEY (sale_item_id) REFERENCES sale_items (id),
+        FOREIGN KEY (product_id) REFERENCES products (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS stock_ledger (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        delta REAL NOT NULL,
+        source_type TEXT NOT NULL,
+        source_id TEXT,
+        device_id TEXT,
+        staff_id TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (product_id) REFERENCES products (id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_outbox (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        table_name TEXT NOT NULL,
+        row_id TEXT NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('upsert', 'delete')),
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_row_versions (
+        table_name TEXT NOT NULL,
+        row_id TEXT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        updated_at TEXT NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        device_id TEXT,
+        changed_at TEXT,
+        PRIMARY KEY (table_name, row_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_id_map (
+        table_name TEXT NOT NULL,
+        remote_id TEXT NOT NULL,
+        local_id TEXT NOT NULL,
+        PRIMARY KEY (table_name, remote_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_conflicts (
+        id TEXT PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        row_id TEXT NOT NULL,
+        resolution TEXT NOT NULL,
+        local_data TEXT,
+        remote_data TEXT,
+        message TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_state (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+
+      -- shop_settings table removed (now using AsyncStorage)
+      
+      CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+      CREATE INDEX IF NOT EXISTS idx_expenses_category_id ON expenses(category_id);
+      CREATE INDEX IF NOT EXISTS idx_sales_created_at ON sales(created_at);
+      CREATE INDEX IF NOT EXISTS idx_sale_items_sale_id ON sale_items(sale_id);
+      CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+      CREATE INDEX IF NOT EXISTS idx_stock_movements_supplier_id ON stock_movements(supplier_id);
+      CREATE INDEX IF NOT EXISTS idx_bulk_pricing_product_id ON bulk_pricing(product_id);
+      CREATE INDEX IF NOT EXISTS idx_debt_payments_customer_id ON debt_payments(customer_id);
+      CREATE INDEX IF NOT EXISTS idx_debt_payments_sale_id ON debt_payments(sale_id);
+      CREATE INDEX IF NOT EXISTS idx_sale_returns_sale_id ON sale_returns(sale_id);
+      CREATE INDEX IF NOT EXISTS idx_sale_returns_created_at ON sale_returns(created_at);
+      CREATE INDEX IF NOT EXISTS idx_sale_return_items_return_id ON sale_return_items(return_id);
+      CREATE INDEX IF NOT EXISTS idx_sale_promotions_sale_id ON sale_promotions(sale_id);
+      CREATE INDEX IF NOT EXISTS idx_sale_promotions_promotion_id ON sale_promotions(promotion_id);
+      CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(code);
+      CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_id ON coupon_redemptions(coupon_id);
+      CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_sale_id ON coupon_redemptions(sale_id);
+      CREATE INDEX IF NOT EXISTS idx_loyalty_points_customer_id ON loyalty_points(customer_id);
+      CREATE INDEX IF NOT EXISTS idx_loyalty_points_sale_id ON loyalty_points(sale_id);
+      CREATE INDEX IF NOT EXISTS idx_shifts_status ON shifts(status);
+      CREATE INDEX IF NOT EXISTS idx_cash_movements_shift_id ON cash_movements(shift_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+      CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+      CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+      CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order_id ON purchase_order_items(purchase_order_id);
+      CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier_id ON supplier_payments(supplier_id);
+      CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_product_id ON inventory_cost_layers(product_id, remaining_quantity);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+      CREATE INDEX IF NOT EXISTS idx_stock_ledger_product ON stock_ledger(product_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_sync_outbox_row ON sync_outbox(table_name, row_id);
+      CREATE INDEX IF NOT EXISTS idx_sync_conflicts_created_at ON sync_conflicts(created_at);
+      -- Natural keys synced rows are matched on (categories and expense
+      -- category names are UNIQUE, product name and barcode are below)
+      CREATE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(name);
+      CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(name);
+      CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers(phone);
+      
+      -- Performance indexes for product search and pagination
+      CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
+      CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);
+      CREATE INDEX IF NOT EXISTS idx_products_category_updated ON products(category_id, updated_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_products_updated_name ON products(updated_at DESC, name ASC);
+      CREATE INDEX IF NOT EXISTS idx_bulk_pricing_product_exists ON bulk_pricing(product_id);
+    `);
+
+    // Add description column to categories if it doesn't exist
+    await this.migrateDatabase();
+  }
+
+  // Voucher ID utility methods
+
+  /**
+   * Format a voucher ID from date and sequential number
+   * @param date The date for the voucher ID
+   * @param sequential The sequential number (1-999)
+   * @returns Formatted voucher ID in YYYY-MM-DD-NNN format
+   */
+  private formatVoucherID(date: Date, sequential: number): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const seq = String(sequential).padStart(3, '0');
+    return `${year}-${month}-${day}-${seq}`;
+  }
 
   /**
    * Parse a voucher ID into its components
@@ -669,12 +1626,211 @@ export class DatabaseService {
       // Voucher ID migration
       await this.migrateToVoucherIDs();
 
+      // Tax columns (after the table rebuilds above so they are not dropped)
+      await this.migrateToTaxSupport();
+
+      // Cash drawer shift links
+      await this.migrateToShiftSupport();
+
+      // Staff attribution on sales and stock movements
+      await this.migrateToStaffSupport();
+
+      // Product variants
+      await this.migrateToVariantSupport();
+
+      // Local change times for incremental exports
+      await this.migrateToChangeTracking();
+
+      // Promotion savings on sale lines
+      await this.migrateToPromotionSupport();
+
+      // Whole-order discounts and coupons
+      await this.migrateToOrderDiscountSupport();
+
+      // Loyalty points earned and spent on sales
+      await this.migrateToLoyaltySupport();
+
       // shop_settings table migration removed (now using AsyncStorage)
     } catch (error) {
       console.log('Migration completed or column already exists:', error);
     }
   }
 
+  async migrateToTaxSupport() {
+    const taxColumns = [
+      ['categories', 'tax_rate_id', 'TEXT'],
+      ['products', 'tax_rate_id', 'TEXT'],
+      ['sales', 'tax_total', 'REAL DEFAULT 0'],
+      ['sale_items', 'tax_name', 'TEXT'],
+      ['sale_items', 'tax_rate', 'REAL DEFAULT 0'],
+      ['sale_items', 'tax_amount', 'REAL DEFAULT 0'],
+      ['sale_items', 'tax_inclusive', 'INTEGER DEFAULT 0'],
+    ];
+
+    for (const [table, column, definition] of taxColumns) {
+      const tableInfo = await this.db.getAllAsync(
+        `PRAGMA table_info(${table})`,
+      );
+      const hasColumn = tableInfo.some((info: any) => info.name === column);
+
+      if (!hasColumn) {
+        await this.db.execAsync(
+          `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+        );
+        console.log(`Added ${column} column to ${table} table`);
+      }
+    }
+  }
+
+  async migrateToShiftSupport() {
+    const shiftTables = ['sales', 'sale_returns', 'debt_payments', 'expenses'];
+
+    for (const table of shiftTables) {
+      const tableInfo = await this.db.getAllAsync(
+        `PRAGMA table_info(${table})`,
+      );
+      const hasColumn = tableInfo.some((info: any) => info.name === 'shift_id');
+
+      if (!hasColumn) {
+        await this.db.execAsync(
+          `ALTER TABLE ${table} ADD COLUMN shift_id TEXT`,
+        );
+        console.log(`Added shift_id column to ${table} table`);
+      }
+    }
+
+    await this.db.execAsync(
+      'CREATE INDEX IF NOT EXISTS idx_sales_shift_id ON sales(shift_id)',
+    );
+  }
+
+  async migrateToStaffSupport() {
+    const staffTables = ['sales', 'stock_movements'];
+
+    for (const table of staffTables) {
+      const tableInfo = await this.db.getAllAsync(
+        `PRAGMA table_info(${table})`,
+      );
+      const hasColumn = tableInfo.some((info: any) => info.name === 'staff_id');
+
+      if (!hasColumn) {
+        await this.db.execAsync(
+          `ALTER TABLE ${table} ADD COLUMN staff_id TEXT`,
+        );
+        console.log(`Added staff_id column to ${table} table`);
+      }
+    }
+
+    await this.db.execAsync(
+      'CREATE INDEX IF NOT EXISTS idx_sales_staff_id ON sales(staff_id)',
+    );
+  }
+
+  async migrateToVariantSupport() {
+    const variantColumns = [
+      'parent_id',
+      'variant_attributes',
+      'variant_options',
+    ];
+
+    const tableInfo = await this.db.getAllAsync('PRAGMA table_info(products)');
+    for (const column of variantColumns) {
+      const hasColumn = tableInfo.some((info: any) => info.name === column);
+
+      if (!hasColumn) {
+        await this.db.execAsync(
+          `ALTER TABLE products ADD COLUMN ${column} TEXT`,
+        );
+        console.log(`Added ${column} column to products table`);
+      }
+    }
+
+    await this.db.execAsync(
+      'CREATE INDEX IF NOT EXISTS idx_products_parent_id ON products(parent_id)',
+    );
+  }
+
+  async migrateToChangeTracking() {
+    const tableInfo = await this.db.getAllAsync(
+      'PRAGMA table_info(sync_row_versions)',
+    );
+    const hasColumn = tableInfo.some((info: any) => info.name === 'changed_at');
+
+    if (!hasColumn) {
+      await this.db.execAsync(
+        'ALTER TABLE sync_row_versions ADD COLUMN changed_at TEXT',
+      );
+      console.log('Added changed_at column to sync_row_versions table');
+    }
+
+    await this.db.execAsync(
+      'CREATE INDEX IF NOT EXISTS idx_sync_row_versions_changed_at ON sync_row_versions(table_name, changed_at)',
+    );
+  }
+
+  async migrateToPromotionSupport() {
+    const tableInfo = await this.db.getAllAsync(
+      'PRAGMA table_info(sale_items)',
+    );
+    const hasColumn = tableInfo.some(
+      (info: any) => info.name === 'promotion_discount',
+    );
+
+    if (!hasColumn) {
+      await this.db.execAsync(
+        'ALTER TABLE sale_items ADD COLUMN promotion_discount REAL DEFAULT 0',
+      );
+      console.log('Added promotion_discount column to sale_items table');
+    }
+  }
+
+  async migrateToOrderDiscountSupport() {
+    const discountColumns = [
+      ['sales', 'order_discount', 'REAL DEFAULT 0'],
+      ['sales', 'order_discount_reason', 'TEXT'],
+      ['sales', 'coupon_code', 'TEXT'],
+      ['sale_items', 'order_discount', 'REAL DEFAULT 0'],
+    ];
+
+    for (const [table, column, definition] of discountColumns) {
+      const tableInfo = await this.db.getAllAsync(
+        `PRAGMA table_info(${table})`,
+      );
+      const hasColumn = tableInfo.some((info: any) => info.name === column);
+
+      if (!hasColumn) {
+        await this.db.execAsync(
+          `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+        );
+        console.log(`Added ${column} column to ${table} table`);
+      }
+    }
+  }
+
+  async migrateToLoyaltySupport() {
+    const loyaltyColumns = [
+      ['sales', 'loyalty_points_earned', 'INTEGER DEFAULT 0'],
+      ['sales', 'loyalty_points_redeemed', 'INTEGER DEFAULT 0'],
+      ['sales', 'loyalty_discount', 'REAL DEFAULT 0'],
+      ['sales', 'loyalty_payment', 'REAL DEFAULT 0'],
+      ['sale_items', 'loyalty_discount', 'REAL DEFAULT 0'],
+    ];
+
+    for (const [table, column, definition] of loyaltyColumns) {
+      const tableInfo = await this.db.getAllAsync(
+        `PRAGMA table_info(${table})`,
+      );
+      const hasColumn = tableInfo.some((info: any) => info.name === column);
+
+      if (!hasColumn) {
+        await this.db.execAsync(
+          `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+        );
+        console.log(`Added ${column} column to ${table} table`);
+      }
+    }
+  }
+
   async migrateToEnhancedFeatures() {
     await this.db.execAsync('BEGIN TRANSACTION');
 
@@ -1603,24 +2759,21 @@ export class DatabaseService {
     } = params;
     const offset = (page - 1) * limit;
 
-    let whereClause = '';
+    // Variants are listed under their parent, not on their own
+    let whereClause = 'WHERE p.parent_id IS NULL';
     let queryParams: any[] = [];
 
-    // Build WHERE clause for search
+    // Build WHERE clause for search; a variant barcode finds its parent
     if (searchQuery && searchQuery.trim()) {
-      whereClause = 'WHERE (p.name LIKE ? OR p.barcode = ?)';
+      whereClause +=
+        ' AND (p.name LIKE ? OR p.barcode = ? OR EXISTS (SELECT 1 FROM products v WHERE v.parent_id = p.id AND v.barcode = ?))';
       const searchPattern = `%${searchQuery.trim()}%`;
-      queryParams.push(searchPattern, searchQuery.trim());
+      queryParams.push(searchPattern, searchQuery.trim(), searchQuery.trim());
     }
 
     // Add category filter
     if (categoryId && categoryId !== 'All') {
-      const categoryCondition = 'p.category_id = ?';
-      if (whereClause) {
-        whereClause += ` AND ${categoryCondition}`;
-      } else {
-        whereClause = `WHERE ${categoryCondition}`;
-      }
+      whereClause += ' AND p.category_id = ?';
       queryParams.push(categoryId);
     }
 
@@ -1638,11 +2791,18 @@ export class DatabaseService {
     // Query with one extra item to check if there are more pages
     const query = `
       SELECT p.*, c.name as category, s.name as supplier_name,
-             CASE WHEN bp.product_id IS NOT NULL THEN 1 ELSE 0 END as has_bulk_pricing
+             CASE WHEN bp.product_id IS NOT NULL THEN 1 ELSE 0 END as has_bulk_pricing,
+             COALESCE(v.variant_count, 0) as variant_count,
+             v.variant_quantity, v.variant_min_stock
       FROM products p 
       LEFT JOIN categories c ON p.category_id = c.id 
       LEFT JOIN suppliers s ON p.supplier_id = s.id
       LEFT JOIN (SELECT DISTINCT product_id FROM bulk_pricing) bp ON p.id = bp.product_id
+      LEFT JOIN (
+        SELECT parent_id, COUNT(*) as variant_count,
+               SUM(quantity) as variant_quantity, SUM(min_stock) as variant_min_stock
+        FROM products WHERE parent_id IS NOT NULL GROUP BY parent_id
+      ) v ON v.parent_id = p.id
       ${whereClause}
       ${orderByClause}
       LIMIT ? OFFSET ?
@@ -1653,7 +2813,17 @@ export class DatabaseService {
       limit + 1,
       offset,
     ]);
-    const products = result as Product[];
+    // Parents show the combined stock of their variants
+    const products = (result as any[]).map(
+      ({ variant_quantity, variant_min_stock, ...product }) =>
+        (product.variant_count > 0
+          ? {
+              ...product,
+              quantity: variant_quantity,
+              min_stock: variant_min_stock,
+            }
+          : product) as Product,
+    );
 
     // Check if there are more pages
     const hasMore = products.length > limit;
@@ -1677,12 +2847,12 @@ export class DatabaseService {
     const result = await this.db.getAllAsync(
       `
       SELECT p.id, p.name, p.barcode, p.price, p.cost, p.quantity, p.min_stock,
-             c.name as category,
+             p.category_id, p.tax_rate_id, c.name as category,
              CASE WHEN bp.product_id IS NOT NULL THEN 1 ELSE 0 END as has_bulk_pricing
       FROM products p 
       LEFT JOIN categories c ON p.category_id = c.id
       LEFT JOIN (SELECT DISTINCT product_id FROM bulk_pricing) bp ON p.id = bp.product_id
-      WHERE p.name LIKE ? OR p.barcode = ?
+      WHERE (p.name LIKE ? OR p.barcode = ?) AND ${this.STOCKED_PRODUCT_SQL}
       ORDER BY 
         CASE WHEN p.barcode = ? THEN 0 ELSE 1 END,
         p.name ASC
@@ -1701,7 +2871,8 @@ export class DatabaseService {
     const result = await this.db.getFirstAsync(
       `
       SELECT p.*, c.name as category, s.name as supplier_name,
-             CASE WHEN bp.product_id IS NOT NULL THEN 1 ELSE 0 END as has_bulk_pricing
+             CASE WHEN bp.product_id IS NOT NULL THEN 1 ELSE 0 END as has_bulk_pricing,
+             (SELECT COUNT(*) FROM products v WHERE v.parent_id = p.id) as variant_count
       FROM products p 
       LEFT JOIN categories c ON p.category_id = c.id 
       LEFT JOIN suppliers s ON p.supplier_id = s.id
@@ -1734,7 +2905,7 @@ export class DatabaseService {
           c.name,
           COUNT(p.id) as product_count
         FROM categories c
-        LEFT JOIN products p ON c.id = p.category_id
+        LEFT JOIN products p ON c.id = p.category_id AND p.parent_id IS NULL
         GROUP BY c.id, c.name
         ORDER BY c.name
       `;
@@ -1790,6 +2961,36 @@ export class DatabaseService {
     return result as Product | null;
   }
 
+  // Next free in-store EAN-13 for a product without a manufacturer barcode
+  async getNextInternalBarcode(): Promise<string> {
+    const rows = (await this.db.getAllAsync(
+      'SELECT barcode FROM products WHERE barcode LIKE ? AND length(barcode) = 13',
+      [`${INTERNAL_BARCODE_PREFIX}%`],
+    )) as { barcode: string }[];
+    return getNextInternalBarcode(rows.map((row) => row.barcode));
+  }
+
+  /**
+   * Give each of the products that has no barcode the next internal one.
+   * Returns how many were assigned.
+   */
+  async assignInternalBarcodes(productIds: string[]): Promise<number> {
+    let assigned = 0;
+    for (const id of productIds) {
+      const product = (await this.db.getFirstAsync(
+        'SELECT barcode FROM products WHERE id = ?',
+        [id],
+      )) as { barcode: string | null } | null;
+      if (!product || product.barcode) continue;
+
+      await this.updateProduct(id, {
+        barcode: await this.getNextInternalBarcode(),
+      });
+      assigned++;
+    }
+    return assigned;
+  }
+
   async addProduct(
     product:
       | Omit<Product, 'created_at' | 'updated_at'>
@@ -1797,7 +2998,7 @@ export class DatabaseService {
   ): Promise<string> {
     const id = (product as any).id || generateUUID();
     await this.db.runAsync(
-      'INSERT INTO products (id, name, barcode, category_id, price, cost, quantity, min_stock, supplier_id, imageUrl) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO products (id, name, barcode, category_id, price, cost, quantity, min_stock, supplier_id, imageUrl, tax_rate_id, parent_id, variant_options) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
       [
         id,
         product.name,
@@ -1809,8 +3010,14 @@ export class DatabaseService {
         product.min_stock,
         product.supplier_id || null, // Handle optional supplier_id
         product.imageUrl || null,
+        product.tax_rate_id || null,
+        product.parent_id || null,
+        product.variant_options || null,
       ],
     );
+    // Opening stock becomes the product's first cost layer and ledger entry
+    await this.syncCostLayers(id);
+    await this.syncStockLedger(id);
     return id;
   }
 
@@ -1826,6 +3033,8 @@ export class DatabaseService {
       'min_stock',
       'supplier_id',
       'imageUrl',
+      'tax_rate_id',
+      'variant_options',
     ];
     const updateData: { [key: string]: any } = {};
 
@@ -1851,14 +3060,90 @@ export class DatabaseService {
       value === undefined ? null : value,
     );
 
+    const current = (await this.db.getFirstAsync(
+      'SELECT * FROM products WHERE id = ?',
+      [id],
+    )) as Record<string, any> | null;
+
     await this.db.runAsync(
       `UPDATE products SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
       [...values, id],
     );
-  }
+
+    // Only the fields whose value actually changed go into the audit entry
+    const changedFields = Object.keys(updateData).filter(
+      (key) => current && (current[key] ?? null) !== (updateData[key] ?? null),
+    );
+
+    // A cost typed in by hand revalues the units on hand; a corrected
+    // quantity adds or consumes layers to match
+    if (changedFields.includes('cost')) {
+      await this.db.runAsync(
+        'UPDATE inventory_cost_layers SET unit_cost = ? WHERE product_id = ? AND remaining_quantity > 0',
+        [updateData.cost, id],
+      );
+    }
+    if (changedFields.includes('quantity')) {
+      await this.syncCostLayers(id);
+      await this.syncStockLedger(id);
+    }
+    if (current && changedFields.length > 0) {
+      await this.addAuditLogEntry({
+        entity_type: 'product',
+        entity_id: id,
+        entity_label: updateData.name ?? current.name,
+        action: 'update',
+        before: Object.fromEntries(
+          changedFields.map((key) => [key, current[key] ?? null]),
+        ),
+        after: Object.fromEntries(
+          changedFields.map((key) => [key, updateData[key] ?? null]),
+        ),
+      });
+    }
+    // Variants follow their parent's name, category, supplier and tax rate
+    if (
+      current &&
+      !current.parent_id &&
+      changedFields.some((key) =>
+        ['name', 'category_id', 'supplier_id', 'tax_rate_id'].includes(key),
+      )
+    ) {
+      await this.syncVariantsWithParent(id);
+    }
+  }
 
   async deleteProduct(id: string): Promise<void> {
+    this.assertPermission('products.delete');
+
+    const variants = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM products WHERE parent_id = ?',
+      [id],
+    )) as { count: number } | null;
+    if (variants && variants.count > 0) {
+      throw new Error('Delete the variants of this product first');
+    }
+
+    const product = (await this.db.getFirstAsync(
+      'SELECT name, barcode, price, cost, quantity FROM products WHERE id = ?',
+      [id],
+    )) as Record<string, any> | null;
+
+    await this.db.runAsync(
+      'DELETE FROM inventory_cost_layers WHERE product_id = ?',
+      [id],
+    );
     await this.db.runAsync('DELETE FROM products WHERE id = ?', [id]);
+
+    if (product) {
+      await this.addAuditLogEntry({
+        entity_type: 'product',
+        entity_id: id,
+        entity_label: product.name,
+        action: 'delete',
+        before: product,
+      });
+    }
   }
 
   async getProductById(id: string): Promise<Product | null> {
@@ -1871,11 +3156,260 @@ export class DatabaseService {
 
   async getLowStockProducts(): Promise<Product[]> {
     const result = await this.db.getAllAsync(
-      'SELECT p.*, c.name as category, s.name as supplier_name FROM products p LEFT JOIN categories c ON p.category_id = c.id LEFT JOIN suppliers s ON p.supplier_id = s.id WHERE p.quantity <= p.min_stock ORDER BY p.quantity ASC',
+      `SELECT p.*, c.name as category, s.name as supplier_name FROM products p LEFT JOIN categories c ON p.category_id = c.id LEFT JOIN suppliers s ON p.supplier_id = s.id WHERE p.quantity <= p.min_stock AND ${this.STOCKED_PRODUCT_SQL} ORDER BY p.quantity ASC`,
     );
     return result as Product[];
   }
 
+  // Product Variant Methods
+  // A variant is a product row of its own, so sales, stock movements, cost
+  // layers and purchase orders treat it like any other product
+
+  async getProductVariants(parentId: string): Promise<Product[]> {
+    const result = await this.db.getAllAsync(
+      'SELECT p.*, c.name as category, s.name as supplier_name FROM products p LEFT JOIN categories c ON p.category_id = c.id LEFT JOIN suppliers s ON p.supplier_id = s.id WHERE p.parent_id = ? ORDER BY p.created_at, p.name',
+      [parentId],
+    );
+    return (result || []) as Product[];
+  }
+
+  async addProductVariant(
+    parentId: string,
+    variant: {
+      options: VariantOptions;
+      barcode?: string;
+      price: number;
+      cost: number;
+      quantity: number;
+      min_stock: number;
+    },
+  ): Promise<string> {
+    const parent = (await this.db.getFirstAsync(
+      'SELECT * FROM products WHERE id = ?',
+      [parentId],
+    )) as Product | null;
+    if (!parent) {
+      throw new Error('Product not found');
+    }
+    if (parent.parent_id) {
+      throw new Error('A variant cannot have variants of its own');
+    }
+
+    const siblings = await this.getProductVariants(parentId);
+    if (siblings.length === 0 && parent.quantity > 0) {
+      throw new Error('Clear the stock of this product before adding variants');
+    }
+
+    // The first variant decides which options the product is described by
+    const storedAttributes = parseVariantAttributes(parent);
+    const attributes =
+      storedAttributes.length > 0
+        ? storedAttributes
+        : Object.keys(variant.options)
+            .map((attribute) => attribute.trim())
+            .filter(Boolean);
+    const options = this.validateVariantOptions(
+      attributes,
+      variant.options,
+      siblings,
+    );
+
+    if (storedAttributes.length === 0) {
+      await this.db.runAsync(
+        'UPDATE products SET variant_attributes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [JSON.stringify(attributes), parentId],
+      );
+    }
+
+    return this.addProduct({
+      name: buildVariantName(parent.name, options, attributes),
+      barcode: variant.barcode,
+      category_id: parent.category_id,
+      price: variant.price,
+      cost: variant.cost,
+      quantity: variant.quantity,
+      min_stock: variant.min_stock,
+      supplier_id: parent.supplier_id,
+      imageUrl: parent.imageUrl,
+      tax_rate_id: parent.tax_rate_id,
+      parent_id: parentId,
+      variant_options: JSON.stringify(options),
+    });
+  }
+
+  async updateProductVariant(
+    id: string,
+    changes: {
+      options?: VariantOptions;
+      barcode?: string;
+      price?: number;
+      cost?: number;
+      quantity?: number;
+      min_stock?: number;
+    },
+  ): Promise<void> {
+    const variant = (await this.db.getFirstAsync(
+      'SELECT * FROM products WHERE id = ?',
+      [id],
+    )) as Product | null;
+    if (!variant?.parent_id) {
+      throw new Error('Variant not found');
+    }
+
+    const { options, ...fields } = changes;
+    const update: Partial<Product> = { ...fields };
+
+    if (options) {
+      const parent = (await this.db.getFirstAsync(
+        'SELECT * FROM products WHERE id = ?',
+        [variant.parent_id],
+      )) as Product | null;
+      if (!parent) {
+        throw new Error('Product not found');
+      }
+
+      const attributes = parseVariantAttributes(parent);
+      const siblings = (await this.getProductVariants(parent.id)).filter(
+        (sibling) => sibling.id !== id,
+      );
+      const validated = this.validateVariantOptions(
+        attributes,
+        options,
+        siblings,
+      );
+      update.name = buildVariantName(parent.name, validated, attributes);
+      update.variant_options = JSON.stringify(validated);
+    }
+
+    await this.updateProduct(id, update);
+  }
+
+  private validateVariantOptions(
+    attributes: string[],
+    options: VariantOptions,
+    siblings: Product[],
+  ): VariantOptions {
+    if (attributes.length === 0) {
+      throw new Error('Name at least one variant option');
+    }
+
+    const validated: VariantOptions = {};
+    for (const attribute of attributes) {
+      const value = options[attribute]?.trim();
+      if (!value) {
+        throw new Error(`Enter a value for ${attribute}`);
+      }
+      validated[attribute] = value;
+    }
+
+    const label = formatVariantLabel(validated, attributes).toLowerCase();
+    const duplicate = siblings.some(
+      (sibling) =>
+        formatVariantLabel(
+          parseVariantOptions(sibling),
+          attributes,
+        ).toLowerCase() === label,
+    );
+    if (duplicate) {
+      throw new Error('A variant with these options already exists');
+    }
+
+    return validated;
+  }
+
+  private async syncVariantsWithParent(parentId: string): Promise<void> {
+    const parent = (await this.db.getFirstAsync(
+      'SELECT * FROM products WHERE id = ?',
+      [parentId],
+    )) as Product | null;
+    if (!parent) return;
+
+    const attributes = parseVariantAttributes(parent);
+    const variants = await this.getProductVariants(parentId);
+    for (const variant of variants) {
+      await this.db.runAsync(
+        'UPDATE products SET name = ?, category_id = ?, supplier_id = ?, tax_rate_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [
+          buildVariantName(
+            parent.name,
+            parseVariantOptions(variant),
+            attributes,
+          ),
+          parent.category_id,
+          parent.supplier_id || null,
+          parent.tax_rate_id || null,
+          variant.id,
+        ],
+      );
+    }
+  }
+
+  // Units, revenue and profit per variant, rolled up to each parent product
+  async getVariantSalesRollup(
+    startDate: Date,
+    endDate: Date,
+    parentId?: string,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<VariantSalesRollup[]> {
+    const startRange = getTimezoneAwareDateRangeForDB(
+      startDate,
+      timezoneOffsetMinutes,
+    );
+    const endRange = getTimezoneAwareDateRangeForDB(
+      endDate,
+      timezoneOffsetMinutes,
+    );
+
+    const params: any[] = [startRange.start, endRange.end];
+    let parentFilter = '';
+    if (parentId) {
+      parentFilter = 'AND v.parent_id = ?';
+      params.push(parentId);
+    }
+
+    const rows = ((await this.db.getAllAsync(
+      `SELECT 
+        v.parent_id,
+        parent.name as parent_name,
+        v.id as product_id,
+        v.name,
+        v.variant_options,
+        SUM(si.quantity) as quantity,
+        SUM(si.subtotal) as revenue,
+        SUM(si.subtotal - si.quantity * si.cost) as profit
+       FROM sale_items si
+       JOIN sales s ON si.sale_id = s.id
+       JOIN products v ON si.product_id = v.id
+       JOIN products parent ON v.parent_id = parent.id
+       WHERE s.created_at >= ? AND s.created_at <= ? ${parentFilter}
+       GROUP BY v.id
+       ORDER BY revenue DESC`,
+      params,
+    )) || []) as (VariantSalesRollup['variants'][number] & {
+      parent_id: string;
+      parent_name: string;
+    })[];
+
+    const rollups = new Map<string, VariantSalesRollup>();
+    for (const { parent_id, parent_name, ...variant } of rows) {
+      const rollup = rollups.get(parent_id) || {
+        parent_id,
+        parent_name,
+        quantity: 0,
+        revenue: 0,
+        profit: 0,
+        variants: [],
+      };
+      rollup.quantity += variant.quantity || 0;
+      rollup.revenue += variant.revenue || 0;
+      rollup.profit += variant.profit || 0;
+      rollup.variants.push(variant);
+      rollups.set(parent_id, rollup);
+    }
+
+    return Array.from(rollups.values()).sort((a, b) => b.revenue - a.revenue);
+  }
+
   async getCategories(): Promise<Category[]> {
     const result = await this.db.getAllAsync(
       'SELECT * FROM categories ORDER BY name',
@@ -1891,8 +3425,13 @@ export class DatabaseService {
     const id = (category as any).id || generateUUID();
     try {
       await this.db.runAsync(
-        'INSERT INTO categories (id, name, description) VALUES (?, ?, ?)',
-        [id, category.name, category.description || ''],
+        'INSERT INTO categories (id, name, description, tax_rate_id) VALUES (?, ?, ?, ?)',
+        [
+          id,
+          category.name,
+          category.description || '',
+          category.tax_rate_id || null,
+        ],
       );
       return id;
     } catch (error) {
@@ -1946,6 +3485,76 @@ export class DatabaseService {
     await this.db.runAsync('DELETE FROM categories WHERE id = ?', [id]);
   }
 
+  async getTaxRates(): Promise<TaxRate[]> {
+    const result = await this.db.getAllAsync(
+      'SELECT * FROM tax_rates ORDER BY name',
+    );
+    return result as TaxRate[];
+  }
+
+  async addTaxRate(
+    taxRate: Omit<TaxRate, 'id' | 'created_at' | 'updated_at'>,
+  ): Promise<string> {
+    if (!(taxRate.rate >= 0 && taxRate.rate <= 100)) {
+      throw new Error('Tax rate must be between 0 and 100');
+    }
+
+    const id = generateUUID();
+    await this.db.runAsync(
+      'INSERT INTO tax_rates (id, name, rate, is_inclusive) VALUES (?, ?, ?, ?)',
+      [id, taxRate.name, taxRate.rate, taxRate.is_inclusive ? 1 : 0],
+    );
+    return id;
+  }
+
+  async updateTaxRate(
+    id: string,
+    taxRate: Partial<Omit<TaxRate, 'id' | 'created_at' | 'updated_at'>>,
+  ): Promise<void> {
+    if (
+      taxRate.rate !== undefined &&
+      !(taxRate.rate >= 0 && taxRate.rate <= 100)
+    ) {
+      throw new Error('Tax rate must be between 0 and 100');
+    }
+
+    const updateData: { [key: string]: any } = {};
+    if (taxRate.name !== undefined) updateData.name = taxRate.name;
+    if (taxRate.rate !== undefined) updateData.rate = taxRate.rate;
+    if (taxRate.is_inclusive !== undefined) {
+      updateData.is_inclusive = taxRate.is_inclusive ? 1 : 0;
+    }
+
+    const fields = Object.keys(updateData)
+      .map((key) => `${key} = ?`)
+      .join(', ');
+
+    // Past sales keep the rate they were sold with (sale_items snapshot)
+    await this.db.runAsync(
+      `UPDATE tax_rates SET ${
+        fields ? `${fields}, ` : ''
+      }updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...Object.values(updateData), id],
+    );
+  }
+
+  async deleteTaxRate(id: string): Promise<void> {
+    const usage = (await this.db.getFirstAsync(
+      `SELECT
+        (SELECT COUNT(*) FROM categories WHERE tax_rate_id = ?) +
+        (SELECT COUNT(*) FROM products WHERE tax_rate_id = ?) as count`,
+      [id, id],
+    )) as { count: number } | null;
+
+    if (usage && usage.count > 0) {
+      throw new Error(
+        'Cannot delete tax rate that is assigned to categories or products',
+      );
+    }
+
+    await this.db.runAsync('DELETE FROM tax_rates WHERE id = ?', [id]);
+  }
+
   async getSuppliers(): Promise<Supplier[]> {
     const result = await this.db.getAllAsync(
       'SELECT * FROM suppliers ORDER BY name',
@@ -2046,6 +3655,15 @@ export class DatabaseService {
       );
     }
 
+    const ordersCount = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM purchase_orders WHERE supplier_id = ?',
+      [id],
+    )) as { count: number } | null;
+
+    if (ordersCount && ordersCount.count > 0) {
+      throw new Error('Cannot delete supplier with purchase orders.');
+    }
+
     await this.db.runAsync('DELETE FROM suppliers WHERE id = ?', [id]);
   }
 
@@ -2125,6 +3743,8 @@ export class DatabaseService {
       voucher_id?: string; // Optional voucher_id for import
     },
     items: Omit<SaleItem, 'id' | 'sale_id'>[],
+    promotions: Omit<SalePromotion, 'id' | 'sale_id' | 'created_at'>[] = [],
+    couponRedemption?: Omit<CouponRedemption, 'id' | 'sale_id' | 'created_at'>,
   ): Promise<{ id: string; voucherId: string }> {
     const maxRetries = 3;
     let attempt = 0;
@@ -2140,8 +3760,31 @@ export class DatabaseService {
         // Use provided voucher_id if available (for imports), otherwise generate new one
         const voucherId = sale.voucher_id || (await this.generateVoucherID());
 
+        // Checked again here so two checkouts cannot both use up a coupon
+        if (couponRedemption && !sale.voucher_id) {
+          await this.assertCouponRedeemable(couponRedemption.coupon_id);
+        }
+        const pointsRedeemed = sale.customer_id
+          ? sale.loyalty_points_redeemed || 0
+          : 0;
+        if (pointsRedeemed > 0 && !sale.voucher_id) {
+          await this.assertPointsAvailable(
+            sale.customer_id!,
+            pointsRedeemed,
+            createdAt,
+          );
+        }
+
+        // Imported sales are historical and never belong to the current shift
+        const shiftId =
+          sale.shift_id !== undefined
+            ? sale.shift_id
+            : sale.voucher_id
+              ? null
+              : await this.getOpenShiftId();
+
         await this.db.runAsync(
-          'INSERT INTO sales (id, voucher_id, total, payment_method, note, customer_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          'INSERT INTO sales (id, voucher_id, total, payment_method, note, customer_id, tax_total, shift_id, staff_id, order_discount, order_discount_reason, coupon_code, loyalty_points_earned, loyalty_points_redeemed, loyalty_discount, loyalty_payment, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
           [
             saleId,
             voucherId,
@@ -2149,29 +3792,98 @@ export class DatabaseService {
             sale.payment_method,
             sale.note || null,
             sale.customer_id || null,
+            items.reduce((sum, item) => sum + (item.tax_amount || 0), 0),
+            shiftId || null,
+            sale.voucher_id ? null : this.activeStaff?.id || null,
+            sale.order_discount || 0,
+            sale.order_discount_reason || null,
+            sale.coupon_code || null,
+            sale.customer_id ? sale.loyalty_points_earned || 0 : 0,
+            pointsRedeemed,
+            sale.loyalty_discount || 0,
+            sale.loyalty_payment || 0,
             createdAt,
           ],
         );
 
         for (const item of items) {
           const itemId = generateUUID();
+          // Imported sales already happened, so they are never refused
+          if (!sale.voucher_id) {
+            await this.assertStockAvailable(item.product_id, item.quantity);
+          }
+          // Imported sales keep the cost they were recorded with
+          const layerCost = await this.consumeCostLayers(
+            item.product_id,
+            item.quantity,
+          );
+          const cost =
+            sale.voucher_id || layerCost === null ? item.cost : layerCost;
           await this.db.runAsync(
-            'INSERT INTO sale_items (id, sale_id, product_id, quantity, price, cost, discount, subtotal) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            'INSERT INTO sale_items (id, sale_id, product_id, quantity, price, cost, discount, subtotal, tax_name, tax_rate, tax_amount, tax_inclusive, promotion_discount, order_discount, loyalty_discount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
             [
               itemId,
               saleId,
               item.product_id,
               item.quantity,
               item.price,
-              item.cost,
+              cost,
               item.discount || 0,
               item.subtotal,
+              item.tax_name || null,
+              item.tax_rate || 0,
+              item.tax_amount || 0,
+              item.tax_inclusive ? 1 : 0,
+              item.promotion_discount || 0,
+              item.order_discount || 0,
+              item.loyalty_discount || 0,
+            ],
+          );
+
+          await this.recordStockChange(
+            item.product_id,
+            -item.quantity,
+            'sale',
+            saleId,
+            createdAt,
+          );
+        }
+
+        for (const promotion of promotions) {
+          await this.db.runAsync(
+            'INSERT INTO sale_promotions (id, sale_id, promotion_id, promotion_name, discount, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+            [
+              generateUUID(),
+              saleId,
+              promotion.promotion_id,
+              promotion.promotion_name,
+              promotion.discount,
+              createdAt,
             ],
           );
+        }
 
+        if (couponRedemption) {
           await this.db.runAsync(
-            'UPDATE products SET quantity = quantity - ? WHERE id = ?',
-            [item.quantity, item.product_id],
+            'INSERT INTO coupon_redemptions (id, coupon_id, sale_id, code, discount, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+            [
+              generateUUID(),
+              couponRedemption.coupon_id,
+              saleId,
+              couponRedemption.code,
+              couponRedemption.discount,
+              createdAt,
+            ],
+          );
+        }
+
+        if (sale.customer_id) {
+          await this.recordSalePoints(
+            sale.customer_id,
+            saleId,
+            sale.loyalty_points_earned || 0,
+            pointsRedeemed,
+            createdAt,
           );
         }
 
@@ -2304,6 +4016,14 @@ export class DatabaseService {
     return result as Sale[];
   }
 
+  async getSalesCountSince(since: Date): Promise<number> {
+    const result = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM sales WHERE created_at > ?',
+      [formatTimestampForDatabase(since)],
+    )) as { count: number } | null;
+    return result?.count || 0;
+  }
+
   // TIMEZONE-AWARE METHODS
   // These methods account for timezone offset where sales created at local time
   // are stored with UTC offset in the database
@@ -2452,9 +4172,10 @@ export class DatabaseService {
 
     // Get paginated sales
     const sales = await this.db.getAllAsync(
-      `SELECT s.*, c.name as customer_name 
+      `SELECT s.*, c.name as customer_name, st.name as staff_name 
        FROM sales s 
        LEFT JOIN customers c ON s.customer_id = c.id 
+       LEFT JOIN staff st ON s.staff_id = st.id 
        WHERE ${whereClause}
        ORDER BY s.created_at DESC LIMIT ? OFFSET ?`,
       [...params, pageSize, offset],
@@ -2467,6 +4188,107 @@ export class DatabaseService {
     };
   }
 
+  async getHeldCarts(): Promise<HeldCart[]> {
+    const result = (await this.db.getAllAsync(
+      `SELECT hc.*, c.name as customer_name
+       FROM held_carts hc
+       LEFT JOIN customers c ON hc.customer_id = c.id
+       ORDER BY hc.created_at DESC`,
+    )) as (Omit<HeldCart, 'items'> & { items: string })[];
+
+    return result.map((row) => ({
+      ...row,
+      items: JSON.parse(row.items || '[]') as HeldCartItem[],
+    }));
+  }
+
+  async holdCart(cart: {
+    label: string;
+    customer_id?: string;
+    note?: string;
+    items: HeldCartItem[];
+    total: number;
+  }): Promise<string> {
+    if (cart.items.length === 0) {
+      throw new Error('Cannot hold an empty cart');
+    }
+
+    const id = generateUUID();
+    const timestamp = formatTimestampForDatabase();
+    await this.db.runAsync(
+      `INSERT INTO held_carts (id, label, customer_id, note, items, total, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        cart.label,
+        cart.customer_id || null,
+        cart.note || null,
+        JSON.stringify(
+          cart.items.map(({ product_id, quantity, discount }) => ({
+            product_id,
+            quantity,
+            discount,
+          })),
+        ),
+        cart.total,
+        timestamp,
+        timestamp,
+      ],
+    );
+    return id;
+  }
+
+  /**
+   * Load a held cart with its current products and remove it from the held
+   * list. Products deleted since the cart was held are reported as missing.
+   */
+  async resumeHeldCart(id: string): Promise<{
+    heldCart: HeldCart;
+    products: Product[];
+    customer: Customer | null;
+    missingProductIds: string[];
+  }> {
+    const row = (await this.db.getFirstAsync(
+      'SELECT * FROM held_carts WHERE id = ?',
+      [id],
+    )) as (Omit<HeldCart, 'items'> & { items: string }) | null;
+
+    if (!row) {
+      throw new Error('Held cart not found');
+    }
+
+    const heldCart: HeldCart = {
+      ...row,
+      items: JSON.parse(row.items || '[]') as HeldCartItem[],
+    };
+
+    const products: Product[] = [];
+    const missingProductIds: string[] = [];
+    for (const item of heldCart.items) {
+      const product = await this.getProductById(item.product_id);
+      if (product) {
+        products.push({
+          ...product,
+          bulk_pricing: await this.getBulkPricingForProduct(product.id),
+        });
+      } else {
+        missingProductIds.push(item.product_id);
+      }
+    }
+
+    const customer = heldCart.customer_id
+      ? await this.getCustomerById(heldCart.customer_id)
+      : null;
+
+    await this.db.runAsync('DELETE FROM held_carts WHERE id = ?', [id]);
+
+    return { heldCart, products, customer, missingProductIds };
+  }
+
+  async deleteHeldCart(id: string): Promise<void> {
+    await this.db.runAsync('DELETE FROM held_carts WHERE id = ?', [id]);
+  }
+
   async getSaleItems(
     saleId: string,
   ): Promise<(SaleItem & { product_name: string })[]> {
@@ -2510,29 +4332,99 @@ export class DatabaseService {
   }
 
   async deleteSale(saleId: string): Promise<void> {
+    this.assertPermission('sales.delete');
+
     // Start a transaction to ensure data integrity
     await this.db.execAsync('BEGIN TRANSACTION');
 
     try {
+      const sale = (await this.db.getFirstAsync(
+        'SELECT voucher_id, total, payment_method, customer_id, created_at FROM sales WHERE id = ?',
+        [saleId],
+      )) as Record<string, any> | null;
+
       // Get sale items to restore product quantities
       const saleItems = await this.getSaleItems(saleId);
 
+      // Items already restocked by a return are back in stock
+      const restocked = (await this.db.getAllAsync(
+        `SELECT sri.sale_item_id, SUM(sri.quantity) as quantity
+         FROM sale_return_items sri
+         JOIN sale_returns sr ON sri.return_id = sr.id
+         WHERE sr.sale_id = ? AND sri.restocked = 1
+         GROUP BY sri.sale_item_id`,
+        [saleId],
+      )) as { sale_item_id: string; quantity: number }[];
+      const restockedBySaleItem = new Map(
+        restocked.map((row) => [row.sale_item_id, row.quantity]),
+      );
+
       // Restore product quantities
       for (const item of saleItems) {
-        await this.db.runAsync(
-          'UPDATE products SET quantity = quantity + ? WHERE id = ?',
-          [item.quantity, item.product_id],
+        const quantity =
+          item.quantity - (restockedBySaleItem.get(item.id) || 0);
+        if (quantity <= 0) continue;
+        await this.addCostLayer(item.product_id, quantity, item.cost);
+        await this.recordStockChange(
+          item.product_id,
+          quantity,
+          'sale_void',
+          saleId,
         );
       }
 
+      // Returns reference the sale items, so remove them first
+      await this.db.runAsync(
+        'DELETE FROM sale_return_items WHERE return_id IN (SELECT id FROM sale_returns WHERE sale_id = ?)',
+        [saleId],
+      );
+      await this.db.runAsync('DELETE FROM sale_returns WHERE sale_id = ?', [
+        saleId,
+      ]);
+
       // Delete sale items first (due to foreign key constraint)
       await this.db.runAsync('DELETE FROM sale_items WHERE sale_id = ?', [
         saleId,
       ]);
+      await this.db.runAsync('DELETE FROM sale_promotions WHERE sale_id = ?', [
+        saleId,
+      ]);
+      // A voided sale gives its coupon use back
+      await this.db.runAsync(
+        'DELETE FROM coupon_redemptions WHERE sale_id = ?',
+        [saleId],
+      );
+      // and takes back the points it earned and the points spent on it
+      await this.db.runAsync('DELETE FROM loyalty_points WHERE sale_id = ?', [
+        saleId,
+      ]);
+
+      // Payments recorded against this sale no longer have a charge to settle
+      await this.db.runAsync('DELETE FROM debt_payments WHERE sale_id = ?', [
+        saleId,
+      ]);
 
       // Delete the sale
       await this.db.runAsync('DELETE FROM sales WHERE id = ?', [saleId]);
 
+      if (sale) {
+        await this.addAuditLogEntry({
+          entity_type: 'sale',
+          entity_id: saleId,
+          entity_label: sale.voucher_id,
+          action: 'delete',
+          before: {
+            ...sale,
+            items: saleItems.map((item) => ({
+              product_id: item.product_id,
+              quantity: item.quantity,
+              price: item.price,
+              subtotal: item.subtotal,
+            })),
+          },
+        });
+      }
+
       // Commit the transaction
       await this.db.execAsync('COMMIT');
     } catch (error) {
@@ -2542,19 +4434,365 @@ export class DatabaseService {
     }
   }
 
-  // Get sales summary (count and total) without pagination
-  async getSalesSummary(
-    searchQuery?: string,
-    customerId?: string,
-  ): Promise<{ count: number; total: number }> {
-    let query = `
-      SELECT 
-        COUNT(*) as count,
-        COALESCE(SUM(total), 0) as total
-      FROM sales 
-      WHERE 1=1
-    `;
-    const params: any[] = [];
+  // Sale Returns
+  // Returns keep the original sale intact and record the refunded lines
+  // separately; restocked lines post a stock_in movement.
+
+  async getSaleReturns(saleId: string): Promise<SaleReturn[]> {
+    const returns = (await this.db.getAllAsync(
+      `SELECT sr.*, s.voucher_id
+       FROM sale_returns sr
+       JOIN sales s ON sr.sale_id = s.id
+       WHERE sr.sale_id = ?
+       ORDER BY sr.created_at ASC`,
+      [saleId],
+    )) as SaleReturn[];
+
+    if (returns.length === 0) {
+      return [];
+    }
+
+    const items = (await this.db.getAllAsync(
+      `SELECT sri.*, COALESCE(p.name, "[Deleted Product]") as product_name
+       FROM sale_return_items sri
+       JOIN sale_returns sr ON sri.return_id = sr.id
+       LEFT JOIN products p ON sri.product_id = p.id
+       WHERE sr.sale_id = ?`,
+      [saleId],
+    )) as SaleReturnItem[];
+
+    return returns.map((saleReturn) => ({
+      ...saleReturn,
+      items: items.filter((item) => item.return_id === saleReturn.id),
+    }));
+  }
+
+  // Quantity already returned per sale item, keyed by sale item id
+  async getReturnedQuantities(saleId: string): Promise<Record<string, number>> {
+    const result = (await this.db.getAllAsync(
+      `SELECT sri.sale_item_id, SUM(sri.quantity) as quantity
+       FROM sale_return_items sri
+       JOIN sale_returns sr ON sri.return_id = sr.id
+       WHERE sr.sale_id = ?
+       GROUP BY sri.sale_item_id`,
+      [saleId],
+    )) as { sale_item_id: string; quantity: number }[];
+
+    const quantities: Record<string, number> = {};
+    for (const row of result) {
+      quantities[row.sale_item_id] = row.quantity;
+    }
+    return quantities;
+  }
+
+  async createSaleReturn(
+    saleId: string,
+    saleReturn: {
+      items: { sale_item_id: string; quantity: number; restock: boolean }[];
+      refund_method: string;
+      reason?: string;
+      created_at?: string;
+    },
+  ): Promise<{ id: string; returnNumber: string; refundAmount: number }> {
+    this.assertPermission('sales.refund');
+
+    const returnItems = saleReturn.items.filter((item) => item.quantity > 0);
+    if (returnItems.length === 0) {
+      throw new Error('Select at least one item to return');
+    }
+
+    const sale = await this.getSaleById(saleId);
+    if (!sale) {
+      throw new Error('Sale not found');
+    }
+
+    const saleItems = await this.getSaleItems(saleId);
+    const returnedQuantities = await this.getReturnedQuantities(saleId);
+
+    const lines = returnItems.map((returnItem) => {
+      const saleItem = saleItems.find(
+        (item) => item.id === returnItem.sale_item_id,
+      );
+      if (!saleItem) {
+        throw new Error('Sale item not found');
+      }
+
+      const available =
+        saleItem.quantity - (returnedQuantities[saleItem.id] || 0);
+      if (returnItem.quantity > available) {
+        throw new Error('Return quantity exceeds quantity available to return');
+      }
+
+      // Refund what was paid for the line pro rata so item discounts are
+      // honoured and tax charged on top of the subtotal is given back too
+      const linePaid =
+        saleItem.subtotal +
+        (saleItem.tax_inclusive ? 0 : saleItem.tax_amount || 0);
+      const refundAmount = (linePaid / saleItem.quantity) * returnItem.quantity;
+
+      return { saleItem, returnItem, refundAmount };
+    });
+
+    const refundAmount = lines.reduce(
+      (sum, line) => sum + line.refundAmount,
+      0,
+    );
+
+    // A refund to 'Debt' reduces what the customer still owes on this sale
+    if (saleReturn.refund_method === 'Debt') {
+      const outstanding = await this.getSaleDebtBalance(saleId);
+      if (refundAmount - outstanding > 0.001) {
+        throw new Error('Refund exceeds outstanding debt for this sale');
+      }
+    }
+
+    const existing = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM sale_returns WHERE sale_id = ?',
+      [saleId],
+    )) as { count: number } | null;
+    const returnNumber = `${sale.voucher_id || saleId}-R${
+      (existing?.count || 0) + 1
+    }`;
+
+    const id = generateUUID();
+    const createdAt = formatTimestampForDatabase(saleReturn.created_at);
+    const shiftId = await this.getOpenShiftId();
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      await this.db.runAsync(
+        `INSERT INTO sale_returns
+         (id, sale_id, return_number, refund_amount, refund_method, reason, shift_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          saleId,
+          returnNumber,
+          refundAmount,
+          saleReturn.refund_method,
+          saleReturn.reason || null,
+          shiftId,
+          createdAt,
+        ],
+      );
+
+      for (const { saleItem, returnItem, refundAmount: lineRefund } of lines) {
+        await this.db.runAsync(
+          `INSERT INTO sale_return_items
+           (id, return_id, sale_item_id, product_id, quantity, price, refund_amount, cost, restocked)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            generateUUID(),
+            id,
+            saleItem.id,
+            saleItem.product_id,
+            returnItem.quantity,
+            saleItem.price,
+            lineRefund,
+            saleItem.cost,
+            returnItem.restock ? 1 : 0,
+          ],
+        );
+
+        if (returnItem.restock) {
+          const movementId = generateUUID();
+          await this.db.runAsync(
+            `INSERT INTO stock_movements
+             (id, product_id, type, quantity, reason, reference_number, unit_cost, staff_id, created_at)
+             VALUES (?, ?, 'stock_in', ?, ?, ?, ?, ?, ?)`,
+            [
+              movementId,
+              saleItem.product_id,
+              returnItem.quantity,
+              'Sale return',
+              returnNumber,
+              saleItem.cost,
+              this.activeStaff?.id || null,
+              createdAt,
+            ],
+          );
+          await this.addCostLayer(
+            saleItem.product_id,
+            returnItem.quantity,
+            saleItem.cost,
+            movementId,
+          );
+          await this.recordStockChange(
+            saleItem.product_id,
+            returnItem.quantity,
+            'return',
+            id,
+            createdAt,
+          );
+        }
+      }
+
+      if (sale.customer_id) {
+        await this.db.runAsync(
+          'UPDATE customers SET total_spent = MAX(0, total_spent - ?), updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [refundAmount, sale.customer_id],
+        );
+      }
+
+      await this.db.execAsync('COMMIT');
+      return { id, returnNumber, refundAmount };
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Refund totals for returns made within a date range. Restocked cost is
+   * valued the same way as sold cost so it can be taken back out of COGS.
+   */
+  private async getReturnTotalsByDateRange(
+    startDateStr: string,
+    endDateStr: string,
+    customerId?: string,
+  ): Promise<{
+    refundTotal: number;
+    returnedItems: number;
+    restockedCost: number;
+  }> {
+    let refundQuery = `SELECT COALESCE(SUM(sr.refund_amount), 0) as refund_total
+       FROM sale_returns sr
+       JOIN sales s ON sr.sale_id = s.id
+       WHERE sr.created_at >= ? AND sr.created_at <= ?`;
+    let itemQuery = `SELECT
+        COALESCE(SUM(sri.quantity), 0) as returned_items,
+        COALESCE(SUM(CASE WHEN sri.restocked = 1
+          THEN sri.quantity * sri.cost ELSE 0 END), 0) as restocked_cost
+       FROM sale_return_items sri
+       JOIN sale_returns sr ON sri.return_id = sr.id
+       JOIN sales s ON sr.sale_id = s.id
+       LEFT JOIN products p ON sri.product_id = p.id
+       WHERE sr.created_at >= ? AND sr.created_at <= ?`;
+    const params: any[] = [startDateStr, endDateStr];
+
+    if (customerId) {
+      refundQuery += ' AND s.customer_id = ?';
+      itemQuery += ' AND s.customer_id = ?';
+      params.push(customerId);
+    }
+
+    const refundResult = (await this.db.getFirstAsync(refundQuery, params)) as {
+      refund_total: number;
+    } | null;
+    const itemResult = (await this.db.getFirstAsync(itemQuery, params)) as {
+      returned_items: number;
+      restocked_cost: number;
+    } | null;
+
+    return {
+      refundTotal: refundResult?.refund_total || 0,
+      returnedItems: itemResult?.returned_items || 0,
+      restockedCost: itemResult?.restocked_cost || 0,
+    };
+  }
+
+  /**
+   * Tax collected per rate for sales within a date range. Tax on items
+   * returned within the range is netted out pro rata, by return date.
+   */
+  async getTaxSummaryByDateRange(
+    startDate: Date,
+    endDate: Date,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<TaxSummary[]> {
+    const startRange = getTimezoneAwareDateRangeForDB(
+      startDate,
+      timezoneOffsetMinutes,
+    );
+    const endRange = getTimezoneAwareDateRangeForDB(
+      endDate,
+      timezoneOffsetMinutes,
+    );
+
+    const collected = (await this.db.getAllAsync(
+      `SELECT
+        COALESCE(si.tax_name, '') as tax_name,
+        si.tax_rate,
+        si.tax_inclusive,
+        SUM(CASE WHEN si.tax_inclusive = 1
+          THEN si.subtotal - si.tax_amount ELSE si.subtotal END) as taxable_amount,
+        SUM(si.tax_amount) as tax_amount,
+        SUM(si.quantity) as item_count
+       FROM sale_items si
+       JOIN sales s ON si.sale_id = s.id
+       WHERE s.created_at >= ? AND s.created_at <= ? AND si.tax_amount > 0
+       GROUP BY COALESCE(si.tax_name, ''), si.tax_rate, si.tax_inclusive`,
+      [startRange.start, endRange.end],
+    )) as Omit<TaxSummary, 'refunded_tax' | 'net_tax'>[];
+
+    const refunded = (await this.db.getAllAsync(
+      `SELECT
+        COALESCE(si.tax_name, '') as tax_name,
+        si.tax_rate,
+        si.tax_inclusive,
+        SUM(si.tax_amount * sri.quantity / si.quantity) as refunded_tax
+       FROM sale_return_items sri
+       JOIN sale_returns sr ON sri.return_id = sr.id
+       JOIN sale_items si ON sri.sale_item_id = si.id
+       WHERE sr.created_at >= ? AND sr.created_at <= ? AND si.tax_amount > 0
+       GROUP BY COALESCE(si.tax_name, ''), si.tax_rate, si.tax_inclusive`,
+      [startRange.start, endRange.end],
+    )) as {
+      tax_name: string;
+      tax_rate: number;
+      tax_inclusive: number;
+      refunded_tax: number;
+    }[];
+
+    const key = (row: {
+      tax_name: string;
+      tax_rate: number;
+      tax_inclusive: number;
+    }) => `${row.tax_name}|${row.tax_rate}|${row.tax_inclusive}`;
+    const summaries = new Map<string, TaxSummary>();
+
+    collected.forEach((row) => {
+      summaries.set(key(row), { ...row, refunded_tax: 0, net_tax: 0 });
+    });
+
+    refunded.forEach((row) => {
+      const existing = summaries.get(key(row));
+      if (existing) {
+        existing.refunded_tax = row.refunded_tax;
+      } else {
+        // Returns in range for sales made before the range
+        summaries.set(key(row), {
+          ...row,
+          net_tax: 0,
+          taxable_amount: 0,
+          tax_amount: 0,
+          item_count: 0,
+        });
+      }
+    });
+
+    return Array.from(summaries.values())
+      .map((summary) => ({
+        ...summary,
+        net_tax: summary.tax_amount - summary.refunded_tax,
+      }))
+      .sort((a, b) => b.net_tax - a.net_tax);
+  }
+
+  // Get sales summary (count and total) without pagination
+  async getSalesSummary(
+    searchQuery?: string,
+    customerId?: string,
+  ): Promise<{ count: number; total: number }> {
+    let query = `
+      SELECT 
+        COUNT(*) as count,
+        COALESCE(SUM(total), 0) as total
+      FROM sales 
+      WHERE 1=1
+    `;
+    const params: any[] = [];
 
     if (customerId) {
       query += ` AND customer_id = ?`;
@@ -2627,7 +4865,17 @@ export class DatabaseService {
       total: number;
     }>(query, params);
 
-    return result || { count: 0, total: 0 };
+    // Refunds are netted out on the day they were given
+    const { refundTotal } = await this.getReturnTotalsByDateRange(
+      startRange.start,
+      endRange.end,
+      customerId,
+    );
+
+    return {
+      count: result?.count || 0,
+      total: (result?.total || 0) - refundTotal,
+    };
   }
 
   // Get all sales for export (without pagination)
@@ -2722,7 +4970,7 @@ export class DatabaseService {
     // Calculate cost and profit
     const costResult = (await this.db.getFirstAsync(
       `SELECT 
-        SUM(si.quantity * COALESCE(p.cost, si.cost)) as total_cost,
+        SUM(si.quantity * si.cost) as total_cost,
         SUM(si.quantity) as total_items
        FROM sale_items si 
        LEFT JOIN products p ON si.product_id = p.id 
@@ -2731,8 +4979,12 @@ export class DatabaseService {
       [startDateStr, endDateStr],
     )) as { total_cost: number; total_items: number };
 
-    const totalRevenue = salesResult.total_revenue || 0;
-    const totalCost = costResult.total_cost || 0;
+    const returns = await this.getReturnTotalsByDateRange(
+      startDateStr,
+      endDateStr,
+    );
+    const totalRevenue = (salesResult.total_revenue || 0) - returns.refundTotal;
+    const totalCost = (costResult.total_cost || 0) - returns.restockedCost;
     const totalProfit = totalRevenue - totalCost;
     const profitMargin =
       totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
@@ -2744,8 +4996,8 @@ export class DatabaseService {
         p.imageUrl,
         SUM(si.quantity) as quantity, 
         SUM(si.subtotal) as revenue,
-        SUM(si.quantity * p.cost) as cost,
-        (SUM(si.subtotal) - SUM(si.quantity * p.cost)) as profit
+        SUM(si.quantity * si.cost) as cost,
+        (SUM(si.subtotal) - SUM(si.quantity * si.cost)) as profit
        FROM sale_items si 
        JOIN products p ON si.product_id = p.id 
        JOIN sales s ON si.sale_id = s.id 
@@ -2810,8 +5062,11 @@ export class DatabaseService {
       totalCost,
       totalProfit,
       profitMargin,
-      avgSaleValue: salesResult.avg_sale || 0,
-      totalItemsSold: costResult.total_items || 0,
+      avgSaleValue:
+        salesResult.total_sales > 0
+          ? totalRevenue / salesResult.total_sales
+          : 0,
+      totalItemsSold: (costResult.total_items || 0) - returns.returnedItems,
       topProducts,
       revenueGrowth,
     };
@@ -2855,7 +5110,7 @@ export class DatabaseService {
     // Calculate cost and profit
     const costResult = (await this.db.getFirstAsync(
       `SELECT 
-        SUM(si.quantity * COALESCE(p.cost, si.cost)) as total_cost,
+        SUM(si.quantity * si.cost) as total_cost,
         SUM(si.quantity) as total_items
        FROM sale_items si 
        LEFT JOIN products p ON si.product_id = p.id 
@@ -2864,8 +5119,12 @@ export class DatabaseService {
       [startDateStr, endDateStr],
     )) as { total_cost: number; total_items: number };
 
-    const totalRevenue = salesResult.total_revenue || 0;
-    const totalCost = costResult.total_cost || 0;
+    const returns = await this.getReturnTotalsByDateRange(
+      startDateStr,
+      endDateStr,
+    );
+    const totalRevenue = (salesResult.total_revenue || 0) - returns.refundTotal;
+    const totalCost = (costResult.total_cost || 0) - returns.restockedCost;
     const totalProfit = totalRevenue - totalCost;
     const profitMargin =
       totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
@@ -2877,8 +5136,8 @@ export class DatabaseService {
         p.imageUrl,
         SUM(si.quantity) as quantity, 
         SUM(si.subtotal) as revenue,
-        SUM(si.quantity * COALESCE(p.cost, 0)) as cost,
-        (SUM(si.subtotal) - SUM(si.quantity * COALESCE(p.cost, 0))) as profit
+        SUM(si.quantity * si.cost) as cost,
+        (SUM(si.subtotal) - SUM(si.quantity * si.cost)) as profit
        FROM sale_items si 
        JOIN products p ON si.product_id = p.id 
        JOIN sales s ON si.sale_id = s.id 
@@ -2957,8 +5216,11 @@ export class DatabaseService {
       totalBalance,
       netProfit,
       profitMargin,
-      avgSaleValue: salesResult.avg_sale || 0,
-      totalItemsSold: costResult.total_items || 0,
+      avgSaleValue:
+        salesResult.total_sales > 0
+          ? totalRevenue / salesResult.total_sales
+          : 0,
+      totalItemsSold: (costResult.total_items || 0) - returns.returnedItems,
       topProducts,
       revenueGrowth,
     };
@@ -3003,7 +5265,7 @@ export class DatabaseService {
     // Calculate cost and profit
     const costResult = (await this.db.getFirstAsync(
       `SELECT 
-        SUM(si.quantity * COALESCE(p.cost, si.cost)) as total_cost,
+        SUM(si.quantity * si.cost) as total_cost,
         SUM(si.quantity) as total_items
        FROM sale_items si 
        LEFT JOIN products p ON si.product_id = p.id 
@@ -3013,29 +5275,57 @@ export class DatabaseService {
     )) as { total_cost: number; total_items: number };
     console.log('sale and co', salesResult, costResult);
 
-    const totalRevenue = salesResult.total_revenue || 0;
-    const totalCost = costResult.total_cost || 0;
+    const returns = await this.getReturnTotalsByDateRange(
+      startDateStr,
+      endDateStr,
+    );
+    const totalRevenue = (salesResult.total_revenue || 0) - returns.refundTotal;
+    const totalCost = (costResult.total_cost || 0) - returns.restockedCost;
     const totalProfit = totalRevenue - totalCost;
     const profitMargin =
       totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
 
     // Get top products with profit calculations
+    // Returned quantities and refunds are taken off each product's totals
     const topProductsResult = (await this.db.getAllAsync(
       `SELECT 
-        COALESCE(p.name, "[Deleted Product]") as name, 
-        p.imageUrl,
-        SUM(si.quantity) as quantity, 
-        SUM(si.subtotal) as revenue,
-        SUM(si.quantity * COALESCE(p.cost, si.cost)) as cost,
-        (SUM(si.subtotal) - SUM(si.quantity * COALESCE(p.cost, si.cost))) as profit
-       FROM sale_items si 
-       LEFT JOIN products p ON si.product_id = p.id 
-       JOIN sales s ON si.sale_id = s.id 
-       WHERE s.created_at >= ? AND s.created_at <= ?
-       GROUP BY COALESCE(p.id, si.product_id) 
+        sold.name,
+        sold.imageUrl,
+        sold.quantity - COALESCE(ret.quantity, 0) as quantity,
+        sold.revenue - COALESCE(ret.refund, 0) as revenue,
+        sold.cost - COALESCE(ret.restocked_cost, 0) as cost,
+        (sold.revenue - COALESCE(ret.refund, 0)) -
+          (sold.cost - COALESCE(ret.restocked_cost, 0)) as profit
+       FROM (
+        SELECT 
+          si.product_id,
+          COALESCE(p.name, "[Deleted Product]") as name, 
+          p.imageUrl,
+          SUM(si.quantity) as quantity, 
+          SUM(si.subtotal) as revenue,
+          SUM(si.quantity * si.cost) as cost
+         FROM sale_items si 
+         LEFT JOIN products p ON si.product_id = p.id 
+         JOIN sales s ON si.sale_id = s.id 
+         WHERE s.created_at >= ? AND s.created_at <= ?
+         GROUP BY COALESCE(p.id, si.product_id)
+       ) sold
+       LEFT JOIN (
+        SELECT 
+          sri.product_id,
+          SUM(sri.quantity) as quantity,
+          SUM(sri.refund_amount) as refund,
+          SUM(CASE WHEN sri.restocked = 1
+            THEN sri.quantity * sri.cost ELSE 0 END) as restocked_cost
+         FROM sale_return_items sri
+         JOIN sale_returns sr ON sri.return_id = sr.id
+         LEFT JOIN products p ON sri.product_id = p.id
+         WHERE sr.created_at >= ? AND sr.created_at <= ?
+         GROUP BY sri.product_id
+       ) ret ON ret.product_id = sold.product_id
        ORDER BY revenue DESC 
        LIMIT 5`,
-      [startDateStr, endDateStr],
+      [startDateStr, endDateStr, startDateStr, endDateStr],
     )) as {
       name: string;
       quantity: number;
@@ -3057,8 +5347,11 @@ export class DatabaseService {
       totalCost,
       totalProfit,
       profitMargin,
-      avgSaleValue: salesResult.avg_sale || 0,
-      totalItemsSold: costResult.total_items || 0,
+      avgSaleValue:
+        salesResult.total_sales > 0
+          ? totalRevenue / salesResult.total_sales
+          : 0,
+      totalItemsSold: (costResult.total_items || 0) - returns.returnedItems,
       topProducts,
     };
   }
@@ -3208,13 +5501,22 @@ export class DatabaseService {
     amount: number,
     description: string,
     date: string,
+    paidFromDrawer = false,
   ): Promise<string> {
+    let shiftId: string | null = null;
+    if (paidFromDrawer) {
+      shiftId = await this.getOpenShiftId();
+      if (!shiftId) {
+        throw new Error('No open shift to pay the expense from');
+      }
+    }
+
     const id = generateUUID();
     await this.db.runAsync(
       `INSERT INTO expenses 
-     (id, category_id, amount, description, date, updated_at) 
-     VALUES (?, ?, ?, ?, ?, datetime('now'))`,
-      [id, category_id, amount, description, date],
+     (id, category_id, amount, description, date, shift_id, updated_at) 
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
+      [id, category_id, amount, description, date, shiftId],
     );
     return id;
   }
@@ -3409,8 +5711,8 @@ export class DatabaseService {
       `SELECT 
         ${groupBy} as date,
         SUM(s.total) as revenue,
-        SUM(si.quantity * COALESCE(p.cost, si.cost)) as total_cost,
-        (SUM(s.total) - SUM(si.quantity * COALESCE(p.cost, si.cost))) as profit
+        SUM(si.quantity * si.cost) as total_cost,
+        (SUM(s.total) - SUM(si.quantity * si.cost)) as profit
        FROM sales s
        JOIN sale_items si ON s.id = si.sale_id
        LEFT JOIN products p ON si.product_id = p.id
@@ -3505,6 +5807,154 @@ export class DatabaseService {
     };
   }
 
+  // Accounting Export Methods
+
+  // Sale items with their sale's date, voucher and customer, oldest first
+  async getSaleLinesByDateRange(
+    startDate: Date,
+    endDate: Date,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<SaleLineExportRow[]> {
+    const startRange = getTimezoneAwareDateRangeForDB(
+      startDate,
+      timezoneOffsetMinutes,
+    );
+    const endRange = getTimezoneAwareDateRangeForDB(
+      endDate,
+      timezoneOffsetMinutes,
+    );
+
+    return await this.db.getAllAsync<SaleLineExportRow>(
+      `SELECT si.*,
+        s.created_at as sale_created_at,
+        s.voucher_id,
+        s.payment_method,
+        c.name as customer_name,
+        COALESCE(p.name, '[Deleted Product]') as product_name,
+        p.barcode
+       FROM sale_items si
+       JOIN sales s ON si.sale_id = s.id
+       LEFT JOIN products p ON si.product_id = p.id
+       LEFT JOIN customers c ON s.customer_id = c.id
+       WHERE s.created_at >= ? AND s.created_at <= ?
+       ORDER BY s.created_at ASC, si.id ASC`,
+      [startRange.start, endRange.end],
+    );
+  }
+
+  /**
+   * All expenses, or those dated within the range, oldest first. Expense
+   * dates are local YYYY-MM-DD strings, so the range is compared on local
+   * dates.
+   */
+  async getExpensesForExport(
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<(Expense & { category_name: string })[]> {
+    let where = '';
+    const params: any[] = [];
+    if (startDate && endDate) {
+      where = 'WHERE e.date >= ? AND e.date <= ?';
+      params.push(
+        formatDateForDatabase(startDate).slice(0, 10),
+        formatDateForDatabase(endDate).slice(0, 10),
+      );
+    }
+
+    return (await this.db.getAllAsync(
+      `SELECT e.*, ec.name as category_name
+       FROM expenses e
+       JOIN expense_categories ec ON e.category_id = ec.id
+       ${where}
+       ORDER BY e.date ASC, e.created_at ASC`,
+      params,
+    )) as (Expense & { category_name: string })[];
+  }
+
+  // All stock movements, or those in the range, without pagination, oldest
+  // first
+  async getStockMovementsByDateRange(
+    startDate?: Date,
+    endDate?: Date,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<StockMovement[]> {
+    let where = '';
+    const params: any[] = [];
+    if (startDate && endDate) {
+      where = 'WHERE sm.created_at >= ? AND sm.created_at <= ?';
+      params.push(
+        getTimezoneAwareDateRangeForDB(startDate, timezoneOffsetMinutes).start,
+        getTimezoneAwareDateRangeForDB(endDate, timezoneOffsetMinutes).end,
+      );
+    }
+
+    return (await this.db.getAllAsync(
+      `SELECT sm.*,
+        COALESCE(p.name, '[Deleted Product]') as product_name,
+        s.name as supplier_name,
+        st.name as staff_name
+       FROM stock_movements sm
+       LEFT JOIN products p ON sm.product_id = p.id
+       LEFT JOIN suppliers s ON sm.supplier_id = s.id
+       LEFT JOIN staff st ON sm.staff_id = st.id
+       ${where}
+       ORDER BY sm.created_at ASC`,
+      params,
+    )) as StockMovement[];
+  }
+
+  /**
+   * Outstanding debt per customer on the given day, aged from each debt
+   * sale's date. Only sales made up to that day are counted; balances
+   * reflect every payment recorded so far.
+   */
+  async getDebtAging(asOf: Date): Promise<DebtAgingRow[]> {
+    const allocations = await this.getDebtSaleAllocations();
+    const outstandingIds = [...allocations.entries()]
+      .filter(([, allocation]) => allocation.outstanding > 0)
+      .map(([saleId]) => saleId);
+    if (outstandingIds.length === 0) return [];
+
+    const asOfEnd = new Date(asOf);
+    asOfEnd.setHours(23, 59, 59, 999);
+
+    const sales = (await this.db.getAllAsync(
+      `SELECT s.id, s.created_at, c.name as customer_name
+       FROM sales s
+       LEFT JOIN customers c ON s.customer_id = c.id
+       WHERE s.id IN (${outstandingIds.map(() => '?').join(',')})
+         AND s.created_at <= ?`,
+      [...outstandingIds, formatDateForDatabase(asOfEnd)],
+    )) as { id: string; created_at: string; customer_name: string | null }[];
+
+    const rows = new Map<string, DebtAgingRow>();
+    for (const sale of sales) {
+      const allocation = allocations.get(sale.id)!;
+      const saleDate = new Date(sale.created_at.replace(' ', 'T'));
+      const days = Math.floor(
+        (asOfEnd.getTime() - saleDate.getTime()) / (24 * 60 * 60 * 1000),
+      );
+
+      let row = rows.get(allocation.customer_id);
+      if (!row) {
+        row = {
+          customer_id: allocation.customer_id,
+          customer_name: sale.customer_name || '[Deleted Customer]',
+          current: 0,
+          days_31_60: 0,
+          days_61_90: 0,
+          over_90: 0,
+          total: 0,
+        };
+        rows.set(allocation.customer_id, row);
+      }
+      row[getDebtAgingBucket(days)] += allocation.outstanding;
+      row.total += allocation.outstanding;
+    }
+
+    return [...rows.values()].sort((a, b) => b.total - a.total);
+  }
+
   // Bulk Pricing Methods
   private clearBulkPricingCache(productId: string) {
     this.bulkPricingCache.delete(productId);
@@ -3597,6 +6047,18 @@ export class DatabaseService {
     // Clear cache for this product
     this.clearBulkPricingCache(bulkPricing.product_id);
 
+    await this.addAuditLogEntry({
+      entity_type: 'bulk_pricing',
+      entity_id: id,
+      entity_label: await this.getProductAuditLabel(bulkPricing.product_id),
+      action: 'create',
+      after: {
+        product_id: bulkPricing.product_id,
+        min_quantity: bulkPricing.min_quantity,
+        bulk_price: bulkPricing.bulk_price,
+      },
+    });
+
     return id;
   }
 
@@ -3635,6 +6097,11 @@ export class DatabaseService {
     const fields = filteredKeys.map((key) => `${key} = ?`).join(', ');
     const values = filteredKeys.map((key) => (bulkPricing as any)[key]);
 
+    const currentTier = (await this.db.getFirstAsync(
+      'SELECT * FROM bulk_pricing WHERE id = ?',
+      [id],
+    )) as Record<string, any> | null;
+
     await this.db.runAsync(`UPDATE bulk_pricing SET ${fields} WHERE id = ?`, [
       ...values,
       id,
@@ -3649,20 +6116,43 @@ export class DatabaseService {
     if (existingTier) {
       this.clearBulkPricingCache(existingTier.product_id);
     }
+
+    if (currentTier) {
+      await this.addAuditLogEntry({
+        entity_type: 'bulk_pricing',
+        entity_id: id,
+        entity_label: await this.getProductAuditLabel(currentTier.product_id),
+        action: 'update',
+        before: Object.fromEntries(
+          filteredKeys.map((key) => [key, currentTier[key] ?? null]),
+        ),
+        after: Object.fromEntries(
+          filteredKeys.map((key) => [key, (bulkPricing as any)[key] ?? null]),
+        ),
+      });
+    }
   }
 
   async deleteBulkPricing(id: string): Promise<void> {
-    // Get product_id before deletion for cache clearing
+    // Get the tier before deletion for cache clearing and the audit log
     const existingTier = (await this.db.getFirstAsync(
-      'SELECT product_id FROM bulk_pricing WHERE id = ?',
+      'SELECT product_id, min_quantity, bulk_price FROM bulk_pricing WHERE id = ?',
       [id],
-    )) as { product_id: string } | null;
+    )) as Omit<BulkPricing, 'id' | 'created_at'> | null;
 
     await this.db.runAsync('DELETE FROM bulk_pricing WHERE id = ?', [id]);
 
     // Clear cache for the affected product
     if (existingTier) {
       this.clearBulkPricingCache(existingTier.product_id);
+
+      await this.addAuditLogEntry({
+        entity_type: 'bulk_pricing',
+        entity_id: id,
+        entity_label: await this.getProductAuditLabel(existingTier.product_id),
+        action: 'delete',
+        before: existingTier,
+      });
     }
   }
 
@@ -3799,236 +6289,3365 @@ export class DatabaseService {
     };
   }
 
-  // Stock Movement Methods
-  async addStockMovement(
-    movement: Omit<
-      StockMovement,
-      'id' | 'created_at' | 'product_name' | 'supplier_name'
-    >,
-  ): Promise<string> {
-    // Start transaction for atomic operation
-    await this.db.execAsync('BEGIN TRANSACTION');
+  // Promotion Methods
+  // Rules are evaluated in the cart (see utils/promotionUtils); each sale
+  // keeps what every promotion saved in sale_promotions.
 
-    try {
-      // Add the stock movement record
-      const id = generateUUID();
-      await this.db.runAsync(
-        `INSERT INTO stock_movements 
-         (id, product_id, type, quantity, reason, supplier_id, reference_number, unit_cost) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          id,
-          movement.product_id,
-          movement.type,
-          movement.quantity,
-          movement.reason || null,
-          movement.supplier_id || null,
-          movement.reference_number || null,
-          movement.unit_cost || null,
-        ],
-      );
+  private parsePromotion(
+    row: Omit<Promotion, 'product_ids'> & { product_ids: string },
+  ): Promotion {
+    return { ...row, product_ids: JSON.parse(row.product_ids || '[]') };
+  }
+
+  private validatePromotion(
+    promotion: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>,
+  ): void {
+    if (!promotion.name.trim()) {
+      throw new Error('Promotion name is required');
+    }
+
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        if (!(promotion.buy_quantity! >= 1 && promotion.get_quantity! >= 1)) {
+          throw new Error('Buy and get quantities must be at least 1');
+        }
+        break;
+      case 'percent_off': {
+        const percent = promotion.discount_percent || 0;
+        if (percent <= 0 || percent > 100) {
+          throw new Error('Discount must be between 0 and 100 percent');
+        }
+        break;
+      }
+      case 'bundle_price':
+        if (new Set(promotion.product_ids).size < 2) {
+          throw new Error('A bundle needs at least two products');
+        }
+        if (!(promotion.bundle_price! >= 0)) {
+          throw new Error('Bundle price cannot be negative');
+        }
+        break;
+      default:
+        throw new Error(`Unknown promotion type ${promotion.type}`);
+    }
+
+    if (
+      promotion.type !== 'bundle_price' &&
+      promotion.product_ids.length === 0 &&
+      !promotion.category_id
+    ) {
+      throw new Error('Promotion must cover at least one product or category');
+    }
+    if (!promotion.start_time !== !promotion.end_time) {
+      throw new Error('Promotion time window needs both a start and end time');
+    }
+    if (
+      promotion.start_date &&
+      promotion.end_date &&
+      promotion.start_date > promotion.end_date
+    ) {
+      throw new Error('Promotion end date is before its start date');
+    }
+  }
+
+  // Column values in table order, with product ids as JSON
+  private promotionValues(
+    promotion: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>,
+  ) {
+    return [
+      promotion.name.trim(),
+      promotion.type,
+      JSON.stringify(promotion.product_ids),
+      promotion.category_id || null,
+      promotion.buy_quantity ?? null,
+      promotion.get_quantity ?? null,
+      promotion.discount_percent ?? null,
+      promotion.bundle_price ?? null,
+      promotion.start_date || null,
+      promotion.end_date || null,
+      promotion.start_time || null,
+      promotion.end_time || null,
+      promotion.is_active ? 1 : 0,
+    ];
+  }
+
+  async getPromotions(): Promise<Promotion[]> {
+    const rows = (await this.db.getAllAsync(
+      'SELECT * FROM promotions ORDER BY name',
+    )) as (Omit<Promotion, 'product_ids'> & { product_ids: string })[];
+    return rows.map((row) => this.parsePromotion(row));
+  }
+
+  async addPromotion(
+    promotion: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>,
+  ): Promise<string> {
+    this.validatePromotion(promotion);
+
+    const id = generateUUID();
+    const timestamp = formatTimestampForDatabase();
+    await this.db.runAsync(
+      `INSERT INTO promotions (id, name, type, product_ids, category_id, buy_quantity, get_quantity, discount_percent, bundle_price, start_date, end_date, start_time, end_time, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, ...this.promotionValues(promotion), timestamp, timestamp],
+    );
+
+    await this.addAuditLogEntry({
+      entity_type: 'promotion',
+      entity_id: id,
+      entity_label: promotion.name.trim(),
+      action: 'create',
+      after: promotion,
+    });
+
+    return id;
+  }
+
+  async updatePromotion(
+    id: string,
+    promotion: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>,
+  ): Promise<void> {
+    this.validatePromotion(promotion);
+
+    const current = (await this.getPromotions()).find(
+      (existing) => existing.id === id,
+    );
+    if (!current) {
+      throw new Error('Promotion not found');
+    }
+
+    await this.db.runAsync(
+      `UPDATE promotions SET name = ?, type = ?, product_ids = ?, category_id = ?, buy_quantity = ?, get_quantity = ?, discount_percent = ?, bundle_price = ?, start_date = ?, end_date = ?, start_time = ?, end_time = ?, is_active = ?, updated_at = ?
+       WHERE id = ?`,
+      [...this.promotionValues(promotion), formatTimestampForDatabase(), id],
+    );
+
+    const changedKeys = (
+      Object.keys(promotion) as (keyof typeof promotion)[]
+    ).filter(
+      (key) =>
+        JSON.stringify(current[key] ?? null) !==
+        JSON.stringify(promotion[key] ?? null),
+    );
+    if (changedKeys.length > 0) {
+      await this.addAuditLogEntry({
+        entity_type: 'promotion',
+        entity_id: id,
+        entity_label: promotion.name.trim(),
+        action: 'update',
+        before: Object.fromEntries(
+          changedKeys.map((key) => [key, current[key] ?? null]),
+        ),
+        after: Object.fromEntries(
+          changedKeys.map((key) => [key, promotion[key] ?? null]),
+        ),
+      });
+    }
+  }
+
+  // Past sales keep the promotion name they were sold with
+  async deletePromotion(id: string): Promise<void> {
+    const current = (await this.getPromotions()).find(
+      (existing) => existing.id === id,
+    );
+
+    await this.db.runAsync('DELETE FROM promotions WHERE id = ?', [id]);
+
+    if (current) {
+      await this.addAuditLogEntry({
+        entity_type: 'promotion',
+        entity_id: id,
+        entity_label: current.name,
+        action: 'delete',
+        before: current,
+      });
+    }
+  }
+
+  async getSalePromotions(saleId: string): Promise<SalePromotion[]> {
+    return (await this.db.getAllAsync(
+      'SELECT * FROM sale_promotions WHERE sale_id = ? ORDER BY discount DESC',
+      [saleId],
+    )) as SalePromotion[];
+  }
+
+  /**
+   * How promotions did over a date range: how many sales each one was
+   * applied to, what it gave away and the value of those sales, next to the
+   * average sale with and without a promotion.
+   */
+  async getPromotionPerformance(
+    startDate: Date,
+    endDate: Date,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<{
+    totalSales: number;
+    promotedSales: number;
+    discountGiven: number;
+    avgPromotedSale: number;
+    avgOtherSale: number;
+    promotions: PromotionPerformance[];
+  }> {
+    const startRange = getTimezoneAwareDateRangeForDB(
+      startDate,
+      timezoneOffsetMinutes,
+    );
+    const endRange = getTimezoneAwareDateRangeForDB(
+      endDate,
+      timezoneOffsetMinutes,
+    );
+    const range = [startRange.start, endRange.end];
+
+    const summary = (await this.db.getFirstAsync(
+      `SELECT
+        COUNT(*) as totalSales,
+        SUM(CASE WHEN sp.sale_id IS NOT NULL THEN 1 ELSE 0 END) as promotedSales,
+        AVG(CASE WHEN sp.sale_id IS NOT NULL THEN s.total END) as avgPromotedSale,
+        AVG(CASE WHEN sp.sale_id IS NULL THEN s.total END) as avgOtherSale
+       FROM sales s
+       LEFT JOIN (SELECT DISTINCT sale_id FROM sale_promotions) sp ON sp.sale_id = s.id
+       WHERE s.created_at >= ? AND s.created_at <= ?`,
+      range,
+    )) as {
+      totalSales: number;
+      promotedSales: number | null;
+      avgPromotedSale: number | null;
+      avgOtherSale: number | null;
+    } | null;
+
+    // Current name where the promotion still exists
+    const promotions = (await this.db.getAllAsync(
+      `SELECT
+        sp.promotion_id,
+        COALESCE(p.name, MAX(sp.promotion_name)) as name,
+        COUNT(DISTINCT sp.sale_id) as sale_count,
+        SUM(sp.discount) as discount_given,
+        SUM(s.total) as revenue
+       FROM sale_promotions sp
+       JOIN sales s ON sp.sale_id = s.id
+       LEFT JOIN promotions p ON sp.promotion_id = p.id
+       WHERE s.created_at >= ? AND s.created_at <= ?
+       GROUP BY sp.promotion_id
+       ORDER BY discount_given DESC`,
+      range,
+    )) as PromotionPerformance[];
+
+    return {
+      totalSales: summary?.totalSales || 0,
+      promotedSales: summary?.promotedSales || 0,
+      discountGiven: promotions.reduce(
+        (sum, promotion) => sum + promotion.discount_given,
+        0,
+      ),
+      avgPromotedSale: summary?.avgPromotedSale || 0,
+      avgOtherSale: summary?.avgOtherSale || 0,
+      promotions,
+    };
+  }
+
+  // Coupon Methods
+  // Uses are counted from coupon_redemptions rather than kept on the coupon,
+  // so redemptions synced from other devices count too.
+
+  private validateCoupon(
+    coupon: Omit<Coupon, 'id' | 'created_at' | 'updated_at' | 'use_count'>,
+  ): void {
+    if (!normalizeCouponCode(coupon.code)) {
+      throw new Error('Coupon code is required');
+    }
+    if (!(coupon.discount_value > 0)) {
+      throw new Error('Coupon discount must be more than 0');
+    }
+    if (coupon.discount_type === 'percent' && coupon.discount_value > 100) {
+      throw new Error('Coupon discount cannot be more than 100 percent');
+    }
+    if (coupon.max_uses != null && coupon.max_uses < 1) {
+      throw new Error('Coupon must allow at least one use');
+    }
+  }
+
+  private async assertCouponCodeAvailable(code: string, exceptId?: string) {
+    const existing = await this.getCouponByCode(code);
+    if (existing && existing.id !== exceptId) {
+      throw new Error('A coupon with this code already exists');
+    }
+  }
+
+  // Column values in table order, with the code normalized
+  private couponValues(
+    coupon: Omit<Coupon, 'id' | 'created_at' | 'updated_at' | 'use_count'>,
+  ) {
+    return [
+      normalizeCouponCode(coupon.code),
+      coupon.description?.trim() || null,
+      coupon.discount_type,
+      coupon.discount_value,
+      coupon.min_spend || null,
+      coupon.expires_on || null,
+      coupon.max_uses ?? null,
+      coupon.is_active ? 1 : 0,
+    ];
+  }
+
+  async getCoupons(): Promise<Coupon[]> {
+    return (await this.db.getAllAsync(
+      `SELECT c.*, (SELECT COUNT(*) FROM coupon_redemptions r WHERE r.coupon_id = c.id) as use_count
+       FROM coupons c
+       ORDER BY c.code`,
+    )) as Coupon[];
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | null> {
+    return (await this.db.getFirstAsync(
+      `SELECT c.*, (SELECT COUNT(*) FROM coupon_redemptions r WHERE r.coupon_id = c.id) as use_count
+       FROM coupons c
+       WHERE c.code = ?`,
+      [normalizeCouponCode(code)],
+    )) as Coupon | null;
+  }
+
+  async addCoupon(
+    coupon: Omit<Coupon, 'id' | 'created_at' | 'updated_at' | 'use_count'>,
+  ): Promise<string> {
+    this.validateCoupon(coupon);
+    await this.assertCouponCodeAvailable(coupon.code);
+
+    const id = generateUUID();
+    const timestamp = formatTimestampForDatabase();
+    await this.db.runAsync(
+      `INSERT INTO coupons (id, code, description, discount_type, discount_value, min_spend, expires_on, max_uses, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, ...this.couponValues(coupon), timestamp, timestamp],
+    );
+
+    await this.addAuditLogEntry({
+      entity_type: 'coupon',
+      entity_id: id,
+      entity_label: normalizeCouponCode(coupon.code),
+      action: 'create',
+      after: coupon,
+    });
+
+    return id;
+  }
+
+  async updateCoupon(
+    id: string,
+    coupon: Omit<Coupon, 'id' | 'created_at' | 'updated_at' | 'use_count'>,
+  ): Promise<void> {
+    this.validateCoupon(coupon);
+    await this.assertCouponCodeAvailable(coupon.code, id);
+
+    const current = (await this.db.getFirstAsync(
+      'SELECT * FROM coupons WHERE id = ?',
+      [id],
+    )) as Coupon | null;
+    if (!current) {
+      throw new Error('Coupon not found');
+    }
+
+    await this.db.runAsync(
+      `UPDATE coupons SET code = ?, description = ?, discount_type = ?, discount_value = ?, min_spend = ?, expires_on = ?, max_uses = ?, is_active = ?, updated_at = ?
+       WHERE id = ?`,
+      [...this.couponValues(coupon), formatTimestampForDatabase(), id],
+    );
+
+    const changedKeys = (Object.keys(coupon) as (keyof typeof coupon)[]).filter(
+      (key) =>
+        JSON.stringify(current[key] ?? null) !==
+        JSON.stringify(coupon[key] ?? null),
+    );
+    if (changedKeys.length > 0) {
+      await this.addAuditLogEntry({
+        entity_type: 'coupon',
+        entity_id: id,
+        entity_label: normalizeCouponCode(coupon.code),
+        action: 'update',
+        before: Object.fromEntries(
+          changedKeys.map((key) => [key, current[key] ?? null]),
+        ),
+        after: Object.fromEntries(
+          changedKeys.map((key) => [key, coupon[key] ?? null]),
+        ),
+      });
+    }
+  }
+
+  // Past sales keep the code they were sold with
+  async deleteCoupon(id: string): Promise<void> {
+    const current = (await this.db.getFirstAsync(
+      'SELECT * FROM coupons WHERE id = ?',
+      [id],
+    )) as Coupon | null;
+
+    await this.db.runAsync('DELETE FROM coupons WHERE id = ?', [id]);
+
+    if (current) {
+      await this.addAuditLogEntry({
+        entity_type: 'coupon',
+        entity_id: id,
+        entity_label: current.code,
+        action: 'delete',
+        before: current,
+      });
+    }
+  }
+
+  /**
+   * Look up a coupon entered at checkout. Throws CouponError when the code
+   * is unknown or the coupon cannot be used on this order.
+   */
+  async checkCoupon(code: string, subtotal: number, at: Date): Promise<Coupon> {
+    const coupon = await this.getCouponByCode(code);
+    if (!coupon) {
+      throw new CouponError(`Coupon ${code} was not found`, 'not_found');
+    }
+
+    const errorCode = getCouponError(coupon, subtotal, at);
+    if (errorCode) {
+      throw new CouponError(
+        `Coupon ${coupon.code} cannot be used: ${errorCode}`,
+        errorCode,
+      );
+    }
+    return coupon;
+  }
+
+  private async assertCouponRedeemable(couponId: string): Promise<void> {
+    const coupon = (await this.db.getFirstAsync(
+      `SELECT c.*, (SELECT COUNT(*) FROM coupon_redemptions r WHERE r.coupon_id = c.id) as use_count
+       FROM coupons c
+       WHERE c.id = ?`,
+      [couponId],
+    )) as Coupon | null;
+
+    if (!coupon) {
+      throw new CouponError('Coupon was deleted', 'not_found');
+    }
+    if (!coupon.is_active) {
+      throw new CouponError(`Coupon ${coupon.code} is inactive`, 'inactive');
+    }
+    if (coupon.max_uses != null && (coupon.use_count || 0) >= coupon.max_uses) {
+      throw new CouponError(`Coupon ${coupon.code} is used up`, 'used_up');
+    }
+  }
+
+  async getCouponRedemptions(saleId: string): Promise<CouponRedemption[]> {
+    return (await this.db.getAllAsync(
+      'SELECT * FROM coupon_redemptions WHERE sale_id = ?',
+      [saleId],
+    )) as CouponRedemption[];
+  }
+
+  // Receipt Template Methods
+  // Templates shop owners write themselves; the built-in ones live in code.
+
+  private validateReceiptTemplate(
+    template: Omit<CustomReceiptTemplate, 'id' | 'created_at' | 'updated_at'>,
+  ): void {
+    if (!template.name?.trim()) {
+      throw new Error('Template name is required');
+    }
+    const issues = validateTemplate(
+      template.html_template,
+      template.css_styles,
+    );
+    if (issues.length > 0) {
+      throw new Error(
+        `Template has errors: ${issues
+          .map((issue) => `${issue.code} ${issue.name}`)
+          .join(', ')}`,
+      );
+    }
+  }
+
+  async getReceiptTemplates(): Promise<CustomReceiptTemplate[]> {
+    return (await this.db.getAllAsync(
+      'SELECT * FROM receipt_templates ORDER BY name',
+    )) as CustomReceiptTemplate[];
+  }
+
+  async addReceiptTemplate(
+    template:
+      | Omit<CustomReceiptTemplate, 'created_at' | 'updated_at'>
+      | Omit<CustomReceiptTemplate, 'id' | 'created_at' | 'updated_at'>,
+  ): Promise<string> {
+    this.validateReceiptTemplate(template);
+
+    const id = (template as any).id || generateUUID();
+    const timestamp = formatTimestampForDatabase();
+    await this.db.runAsync(
+      `INSERT INTO receipt_templates (id, name, description, html_template, css_styles, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        template.name.trim(),
+        template.description?.trim() || null,
+        template.html_template,
+        template.css_styles || '',
+        timestamp,
+        timestamp,
+      ],
+    );
+
+    await this.addAuditLogEntry({
+      entity_type: 'receipt_template',
+      entity_id: id,
+      entity_label: template.name.trim(),
+      action: 'create',
+    });
+
+    return id;
+  }
+
+  async updateReceiptTemplate(
+    id: string,
+    template: Omit<CustomReceiptTemplate, 'id' | 'created_at' | 'updated_at'>,
+  ): Promise<void> {
+    this.validateReceiptTemplate(template);
+
+    const current = await this.db.getFirstAsync(
+      'SELECT id FROM receipt_templates WHERE id = ?',
+      [id],
+    );
+    if (!current) {
+      throw new Error('Receipt template not found');
+    }
+
+    await this.db.runAsync(
+      `UPDATE receipt_templates SET name = ?, description = ?, html_template = ?, css_styles = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        template.name.trim(),
+        template.description?.trim() || null,
+        template.html_template,
+        template.css_styles || '',
+        formatTimestampForDatabase(),
+        id,
+      ],
+    );
+
+    // The markup itself is too long to be useful in the log
+    await this.addAuditLogEntry({
+      entity_type: 'receipt_template',
+      entity_id: id,
+      entity_label: template.name.trim(),
+      action: 'update',
+    });
+  }
+
+  async deleteReceiptTemplate(id: string): Promise<void> {
+    const current = (await this.db.getFirstAsync(
+      'SELECT name FROM receipt_templates WHERE id = ?',
+      [id],
+    )) as { name: string } | null;
+
+    await this.db.runAsync('DELETE FROM receipt_templates WHERE id = ?', [id]);
+
+    if (current) {
+      await this.addAuditLogEntry({
+        entity_type: 'receipt_template',
+        entity_id: id,
+        entity_label: current.name,
+        action: 'delete',
+      });
+    }
+  }
+
+  /**
+   * Whole-order discounts over a date range: manual discounts and coupon
+   * redemptions, with each coupon's uses, what it gave away and the value
+   * of the sales it was used on.
+   */
+  async getOrderDiscountAnalytics(
+    startDate: Date,
+    endDate: Date,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<{
+    totalSales: number;
+    manualDiscountCount: number;
+    manualDiscountTotal: number;
+    couponUseCount: number;
+    couponDiscountTotal: number;
+    coupons: CouponPerformance[];
+  }> {
+    const startRange = getTimezoneAwareDateRangeForDB(
+      startDate,
+      timezoneOffsetMinutes,
+    );
+    const endRange = getTimezoneAwareDateRangeForDB(
+      endDate,
+      timezoneOffsetMinutes,
+    );
+    const range = [startRange.start, endRange.end];
+
+    const summary = (await this.db.getFirstAsync(
+      `SELECT
+        COUNT(*) as totalSales,
+        SUM(CASE WHEN s.order_discount > 0 AND s.coupon_code IS NULL THEN 1 ELSE 0 END) as manualDiscountCount,
+        SUM(CASE WHEN s.coupon_code IS NULL THEN s.order_discount ELSE 0 END) as manualDiscountTotal
+       FROM sales s
+       WHERE s.created_at >= ? AND s.created_at <= ?`,
+      range,
+    )) as {
+      totalSales: number;
+      manualDiscountCount: number | null;
+      manualDiscountTotal: number | null;
+    } | null;
+
+    // Current code where the coupon still exists
+    const coupons = (await this.db.getAllAsync(
+      `SELECT
+        r.coupon_id,
+        COALESCE(c.code, MAX(r.code)) as code,
+        COUNT(*) as use_count,
+        SUM(r.discount) as discount_given,
+        SUM(s.total) as revenue
+       FROM coupon_redemptions r
+       JOIN sales s ON r.sale_id = s.id
+       LEFT JOIN coupons c ON r.coupon_id = c.id
+       WHERE s.created_at >= ? AND s.created_at <= ?
+       GROUP BY r.coupon_id
+       ORDER BY discount_given DESC`,
+      range,
+    )) as CouponPerformance[];
+
+    return {
+      totalSales: summary?.totalSales || 0,
+      manualDiscountCount: summary?.manualDiscountCount || 0,
+      manualDiscountTotal: summary?.manualDiscountTotal || 0,
+      couponUseCount: coupons.reduce(
+        (sum, coupon) => sum + coupon.use_count,
+        0,
+      ),
+      couponDiscountTotal: coupons.reduce(
+        (sum, coupon) => sum + coupon.discount_given,
+        0,
+      ),
+      coupons,
+    };
+  }
+
+  // Loyalty Methods
+  async getLoyaltySettings(): Promise<LoyaltySettings> {
+    return LoyaltySettingsService.getSettings();
+  }
+
+  async updateLoyaltySettings(settings: LoyaltySettings): Promise<void> {
+    this.assertPermission('settings.manage');
+    await LoyaltySettingsService.setSettings(settings);
+  }
+
+  async getLoyaltyLedger(customerId: string): Promise<LoyaltyPointsEntry[]> {
+    return (await this.db.getAllAsync(
+      'SELECT * FROM loyalty_points WHERE customer_id = ? ORDER BY created_at ASC, rowid ASC',
+      [customerId],
+    )) as LoyaltyPointsEntry[];
+  }
+
+  // Tiers are derived from the same segments as customer analytics
+  async getCustomerLoyalty(customerId: string): Promise<CustomerLoyalty> {
+    const [ledger, segment] = await Promise.all([
+      this.getLoyaltyLedger(customerId),
+      this.getCustomerSegment(customerId),
+    ]);
+    const { balance, expired } = calculatePointsBalance(ledger, new Date());
+
+    return { balance, expired, tier: getLoyaltyTier(segment), segment };
+  }
+
+  async getLoyaltyTotals(): Promise<{
+    members: number;
+    pointsEarned: number;
+    pointsRedeemed: number;
+  }> {
+    const result = (await this.db.getFirstAsync(
+      `SELECT
+        COUNT(DISTINCT customer_id) as members,
+        COALESCE(SUM(CASE WHEN points > 0 THEN points ELSE 0 END), 0) as pointsEarned,
+        COALESCE(SUM(CASE WHEN points < 0 THEN -points ELSE 0 END), 0) as pointsRedeemed
+       FROM loyalty_points`,
+    )) as {
+      members: number;
+      pointsEarned: number;
+      pointsRedeemed: number;
+    } | null;
+
+    return {
+      members: result?.members || 0,
+      pointsEarned: result?.pointsEarned || 0,
+      pointsRedeemed: result?.pointsRedeemed || 0,
+    };
+  }
+
+  private async assertPointsAvailable(
+    customerId: string,
+    points: number,
+    at: string,
+  ): Promise<void> {
+    const { balance } = calculatePointsBalance(
+      await this.getLoyaltyLedger(customerId),
+      new Date(at.replace(' ', 'T')),
+    );
+    if (points > balance) {
+      throw new InsufficientPointsError(
+        `Customer has ${balance} points, ${points} requested`,
+        balance,
+      );
+    }
+  }
+
+  // Call inside the sale's transaction. Spending is written first so it
+  // uses up older points rather than the ones this sale earns.
+  private async recordSalePoints(
+    customerId: string,
+    saleId: string,
+    earned: number,
+    redeemed: number,
+    createdAt: string,
+  ): Promise<void> {
+    if (redeemed > 0) {
+      await this.db.runAsync(
+        'INSERT INTO loyalty_points (id, customer_id, sale_id, type, points, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [
+          generateUUID(),
+          customerId,
+          saleId,
+          'redeem',
+          -redeemed,
+          null,
+          createdAt,
+        ],
+      );
+    }
+    if (earned > 0) {
+      const settings = await LoyaltySettingsService.getSettings();
+      await this.db.runAsync(
+        'INSERT INTO loyalty_points (id, customer_id, sale_id, type, points, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [
+          generateUUID(),
+          customerId,
+          saleId,
+          'earn',
+          earned,
+          getPointsExpiry(new Date(createdAt.replace(' ', 'T')), settings),
+          createdAt,
+        ],
+      );
+    }
+  }
+
+  // Stock Movement Methods
+  async addStockMovement(
+    movement: Omit<
+      StockMovement,
+      'id' | 'created_at' | 'product_name' | 'supplier_name'
+    >,
+  ): Promise<string> {
+    // Start transaction for atomic operation
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      // Add the stock movement record
+      const id = generateUUID();
+      await this.db.runAsync(
+        `INSERT INTO stock_movements 
+         (id, product_id, type, quantity, reason, supplier_id, reference_number, unit_cost, staff_id) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          movement.product_id,
+          movement.type,
+          movement.quantity,
+          movement.reason || null,
+          movement.supplier_id || null,
+          movement.reference_number || null,
+          movement.unit_cost || null,
+          this.activeStaff?.id || null,
+        ],
+      );
 
       // Update product quantity based on movement type
       if (movement.type === 'stock_in') {
+        await this.addCostLayer(
+          movement.product_id,
+          movement.quantity,
+          movement.unit_cost || null,
+          id,
+        );
+        await this.recordStockChange(
+          movement.product_id,
+          movement.quantity,
+          'stock_in',
+          id,
+        );
+      } else if (movement.type === 'stock_out') {
+        await this.consumeCostLayers(movement.product_id, movement.quantity);
+        await this.recordStockChange(
+          movement.product_id,
+          await this.getStockOutDelta(movement.product_id, movement.quantity),
+          'stock_out',
+          id,
+        );
+      }
+
+      await this.addAuditLogEntry({
+        entity_type: 'stock_movement',
+        entity_id: id,
+        entity_label: await this.getProductAuditLabel(movement.product_id),
+        action: 'create',
+        after: {
+          product_id: movement.product_id,
+          type: movement.type,
+          quantity: movement.quantity,
+          reason: movement.reason || null,
+          supplier_id: movement.supplier_id || null,
+          reference_number: movement.reference_number || null,
+          unit_cost: movement.unit_cost || null,
+        },
+      });
+
+      await this.db.execAsync('COMMIT');
+      return id;
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async getStockMovements(
+    filters?: {
+      productId?: string;
+      type?: 'stock_in' | 'stock_out';
+      startDate?: Date;
+      endDate?: Date;
+      supplierId?: string;
+    },
+    page: number = 1,
+    pageSize: number = 50,
+  ): Promise<StockMovement[]> {
+    const offset = (page - 1) * pageSize;
+    let query = `
+      SELECT sm.*, 
+             COALESCE(p.name, '[Deleted Product]') as product_name,
+             s.name as supplier_name,
+             st.name as staff_name
+      FROM stock_movements sm
+      LEFT JOIN products p ON sm.product_id = p.id
+      LEFT JOIN suppliers s ON sm.supplier_id = s.id
+      LEFT JOIN staff st ON sm.staff_id = st.id
+    `;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters?.productId) {
+      conditions.push('sm.product_id = ?');
+      params.push(filters.productId);
+    }
+
+    if (filters?.type) {
+      conditions.push('sm.type = ?');
+      params.push(filters.type);
+    }
+
+    if (filters?.startDate) {
+      conditions.push('sm.created_at >= ?');
+      params.push(filters.startDate.toISOString());
+    }
+
+    if (filters?.endDate) {
+      conditions.push('sm.created_at <= ?');
+      params.push(filters.endDate.toISOString());
+    }
+
+    if (filters?.supplierId) {
+      conditions.push('sm.supplier_id = ?');
+      params.push(filters.supplierId);
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    query += ' ORDER BY sm.created_at DESC LIMIT ? OFFSET ?';
+    params.push(pageSize, offset);
+
+    const result = await this.db.getAllAsync(query, params);
+    return result as StockMovement[];
+  }
+
+  async getStockMovementsByProduct(
+    productId: string,
+    page: number = 1,
+    pageSize: number = 20,
+  ): Promise<StockMovement[]> {
+    return this.getStockMovements({ productId }, page, pageSize);
+  }
+
+  async updateProductQuantityWithMovement(
+    productId: string,
+    movementType: 'stock_in' | 'stock_out',
+    quantity: number,
+    reason?: string,
+    supplierId?: string,
+    referenceNumber?: string,
+    unitCost?: number,
+  ): Promise<string> {
+    return this.addStockMovement({
+      product_id: productId,
+      type: movementType,
+      quantity,
+      reason,
+      supplier_id: supplierId,
+      reference_number: referenceNumber,
+      unit_cost: unitCost,
+    });
+  }
+
+  async getStockMovementSummary(
+    productId?: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<{
+    totalStockIn: number;
+    totalStockOut: number;
+    netMovement: number;
+    movementCount: number;
+  }> {
+    let query = `
+      SELECT 
+        SUM(CASE WHEN type = 'stock_in' THEN quantity ELSE 0 END) as total_stock_in,
+        SUM(CASE WHEN type = 'stock_out' THEN quantity ELSE 0 END) as total_stock_out,
+        COUNT(*) as movement_count
+      FROM stock_movements
+    `;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (productId) {
+      conditions.push('product_id = ?');
+      params.push(productId);
+    }
+
+    if (startDate) {
+      conditions.push('created_at >= ?');
+      params.push(startDate.toISOString());
+    }
+
+    if (endDate) {
+      conditions.push('created_at <= ?');
+      params.push(endDate.toISOString());
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    const result = (await this.db.getFirstAsync(query, params)) as {
+      total_stock_in: number;
+      total_stock_out: number;
+      movement_count: number;
+    };
+
+    const totalStockIn = result.total_stock_in || 0;
+    const totalStockOut = result.total_stock_out || 0;
+
+    return {
+      totalStockIn,
+      totalStockOut,
+      netMovement: totalStockIn - totalStockOut,
+      movementCount: result.movement_count || 0,
+    };
+  }
+
+  async deleteStockMovement(movementId: string): Promise<void> {
+    // Start transaction for atomic operation
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      // Get the movement details before deleting
+      const movement = (await this.db.getFirstAsync(
+        'SELECT * FROM stock_movements WHERE id = ?',
+        [movementId],
+      )) as StockMovement | null;
+
+      if (!movement) {
+        throw new Error('Stock movement not found');
+      }
+
+      // Reverse the product quantity change
+      if (movement.type === 'stock_in') {
+        // If it was stock in, subtract the quantity
+        await this.recordStockChange(
+          movement.product_id,
+          await this.getStockOutDelta(movement.product_id, movement.quantity),
+          'movement_void',
+          movement.id,
+        );
+      } else if (movement.type === 'stock_out') {
+        // If it was stock out, add the quantity back
+        await this.recordStockChange(
+          movement.product_id,
+          movement.quantity,
+          'movement_void',
+          movement.id,
+        );
+      }
+
+      // Drop what is left of the reversed delivery's cost layer, then
+      // consume or top up layers to match the corrected quantity
+      if (movement.type === 'stock_in') {
+        await this.db.runAsync(
+          'UPDATE inventory_cost_layers SET remaining_quantity = 0 WHERE movement_id = ?',
+          [movementId],
+        );
+      }
+      await this.syncCostLayers(movement.product_id);
+
+      // Delete the movement record
+      await this.db.runAsync('DELETE FROM stock_movements WHERE id = ?', [
+        movementId,
+      ]);
+
+      await this.addAuditLogEntry({
+        entity_type: 'stock_movement',
+        entity_id: movementId,
+        entity_label: await this.getProductAuditLabel(movement.product_id),
+        action: 'delete',
+        before: {
+          product_id: movement.product_id,
+          type: movement.type,
+          quantity: movement.quantity,
+          reason: movement.reason || null,
+          supplier_id: movement.supplier_id || null,
+          reference_number: movement.reference_number || null,
+          unit_cost: movement.unit_cost || null,
+          created_at: movement.created_at,
+        },
+      });
+
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Inventory Costing Methods
+  // Every unit in stock sits in a cost layer created by the stock-in that
+  // brought it in, and stock leaving consumes the oldest layers first. Under
+  // weighted average products.cost is the moving average of what was
+  // received; under FIFO it is the cost of the oldest units left and sales
+  // are costed from the layers they consume.
+
+  setCostingMethod(method: CostingMethod): void {
+    this.costingMethod = method;
+  }
+
+  getCostingMethod(): CostingMethod {
+    return this.costingMethod;
+  }
+
+  async changeCostingMethod(method: CostingMethod): Promise<void> {
+    this.assertPermission('settings.manage');
+    if (method === this.costingMethod) return;
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      // Start each product off at the cost of the units it has on hand
+      const costs = (await this.db.getAllAsync(
+        `SELECT product_id,
+           SUM(remaining_quantity * unit_cost) / SUM(remaining_quantity) as average_cost,
+           (SELECT l2.unit_cost FROM inventory_cost_layers l2
+            WHERE l2.product_id = l.product_id AND l2.remaining_quantity > 0
+            ORDER BY l2.created_at, l2.rowid LIMIT 1) as oldest_cost
+         FROM inventory_cost_layers l
+         WHERE remaining_quantity > 0
+         GROUP BY product_id`,
+      )) as {
+        product_id: string;
+        average_cost: number;
+        oldest_cost: number;
+      }[];
+
+      for (const row of costs) {
+        await this.db.runAsync(
+          'UPDATE products SET cost = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [
+            method === 'fifo'
+              ? row.oldest_cost
+              : Math.round(row.average_cost * 100) / 100,
+            row.product_id,
+          ],
+        );
+      }
+
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+
+    await CostingSettingsService.setCostingMethod(method);
+    this.costingMethod = method;
+  }
+
+  /**
+   * Record units arriving at a cost. Call before the product quantity is
+   * increased so the moving average is taken over the stock already on hand.
+   * Without a unit cost the layer takes the product's current cost.
+   */
+  private async addCostLayer(
+    productId: string,
+    quantity: number,
+    unitCost: number | null,
+    movementId: string | null = null,
+  ): Promise<void> {
+    if (quantity <= 0) return;
+
+    const product = (await this.db.getFirstAsync(
+      'SELECT cost, quantity FROM products WHERE id = ?',
+      [productId],
+    )) as { cost: number; quantity: number } | null;
+    if (!product || typeof product.cost !== 'number') return;
+
+    const layerCost = unitCost ?? product.cost;
+    await this.db.runAsync(
+      `INSERT INTO inventory_cost_layers
+       (id, product_id, movement_id, quantity, remaining_quantity, unit_cost, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        generateUUID(),
+        productId,
+        movementId,
+        quantity,
+        quantity,
+        layerCost,
+        formatTimestampForDatabase(),
+      ],
+    );
+
+    if (this.costingMethod === 'fifo') {
+      await this.refreshFifoCost(productId);
+      return;
+    }
+    if (unitCost === null) return;
+
+    const onHand = Math.max(product.quantity || 0, 0);
+    const averageCost =
+      Math.round(
+        ((onHand * product.cost + quantity * layerCost) / (onHand + quantity)) *
+          100,
+      ) / 100;
+    if (averageCost !== product.cost) {
+      await this.db.runAsync(
+        'UPDATE products SET cost = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [averageCost, productId],
+      );
+    }
+  }
+
+  /**
+   * Take units out of the oldest layers and return their unit cost: the
+   * average of the consumed layers under FIFO, the product cost under
+   * weighted average. Returns null when the product does not exist.
+   */
+  private async consumeCostLayers(
+    productId: string,
+    quantity: number,
+  ): Promise<number | null> {
+    const product = (await this.db.getFirstAsync(
+      'SELECT cost FROM products WHERE id = ?',
+      [productId],
+    )) as { cost: number } | null;
+    if (!product || typeof product.cost !== 'number') return null;
+
+    const layers = ((await this.db.getAllAsync(
+      `SELECT id, remaining_quantity, unit_cost FROM inventory_cost_layers
+       WHERE product_id = ? AND remaining_quantity > 0
+       ORDER BY created_at, rowid`,
+      [productId],
+    )) || []) as {
+      id: string;
+      remaining_quantity: number;
+      unit_cost: number;
+    }[];
+
+    let remaining = quantity;
+    let consumedCost = 0;
+    for (const layer of layers) {
+      if (remaining <= 0) break;
+      const taken = Math.min(layer.remaining_quantity, remaining);
+      await this.db.runAsync(
+        'UPDATE inventory_cost_layers SET remaining_quantity = remaining_quantity - ? WHERE id = ?',
+        [taken, layer.id],
+      );
+      consumedCost += taken * layer.unit_cost;
+      remaining -= taken;
+    }
+
+    if (this.costingMethod !== 'fifo' || quantity <= 0) {
+      return product.cost;
+    }
+
+    // Units sold beyond what was ever received are costed at the product cost
+    consumedCost += remaining * product.cost;
+    await this.refreshFifoCost(productId);
+    return Math.round((consumedCost / quantity) * 100) / 100;
+  }
+
+  // Under FIFO the product cost is the cost of the next unit to leave
+  private async refreshFifoCost(productId: string): Promise<void> {
+    const oldest = (await this.db.getFirstAsync(
+      `SELECT unit_cost FROM inventory_cost_layers
+       WHERE product_id = ? AND remaining_quantity > 0
+       ORDER BY created_at, rowid LIMIT 1`,
+      [productId],
+    )) as { unit_cost: number } | null;
+    if (!oldest || typeof oldest.unit_cost !== 'number') return;
+
+    await this.db.runAsync(
+      'UPDATE products SET cost = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND cost != ?',
+      [oldest.unit_cost, productId, oldest.unit_cost],
+    );
+  }
+
+  /**
+   * Add or consume layers so they hold exactly the product's quantity on
+   * hand. Covers quantities set directly rather than through a movement.
+   */
+  private async syncCostLayers(productId: string): Promise<void> {
+    const row = (await this.db.getFirstAsync(
+      `SELECT p.quantity,
+         COALESCE((SELECT SUM(remaining_quantity) FROM inventory_cost_layers WHERE product_id = p.id), 0) as layered
+       FROM products p WHERE p.id = ?`,
+      [productId],
+    )) as { quantity: number; layered: number } | null;
+    if (!row || typeof row.quantity !== 'number') return;
+
+    const difference = Math.max(row.quantity, 0) - row.layered;
+    if (difference > 0) {
+      await this.addCostLayer(productId, difference, null);
+    } else if (difference < 0) {
+      await this.consumeCostLayers(productId, -difference);
+    } else if (this.costingMethod === 'fifo') {
+      await this.refreshFifoCost(productId);
+    }
+  }
+
+  /**
+   * Bring every product's layers in line with its quantity. The first run
+   * turns existing stock into opening layers at the current product cost.
+   */
+  async reconcileCostLayers(): Promise<void> {
+    const products = (await this.db.getAllAsync(
+      `SELECT p.id FROM products p
+       LEFT JOIN (
+         SELECT product_id, SUM(remaining_quantity) as layered
+         FROM inventory_cost_layers GROUP BY product_id
+       ) l ON l.product_id = p.id
+       WHERE MAX(p.quantity, 0) != COALESCE(l.layered, 0)`,
+    )) as { id: string }[];
+    if (products.length === 0) return;
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      for (const product of products) {
+        await this.syncCostLayers(product.id);
+      }
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Stock value of product p under the selected costing method
+  private getStockValueSql(): string {
+    return this.costingMethod === 'fifo'
+      ? `COALESCE((SELECT SUM(l.remaining_quantity * l.unit_cost) FROM inventory_cost_layers l WHERE l.product_id = p.id), 0)`
+      : 'p.cost * p.quantity';
+  }
+
+  async getInventoryValuation(
+    categoryFilter?: string,
+  ): Promise<InventoryValuation> {
+    const stockValue = this.getStockValueSql();
+    const params: any[] = [];
+    let query = `
+      SELECT p.id as product_id, p.name as product_name, c.name as category_name,
+        p.quantity, ${stockValue} as value
+      FROM products p
+      LEFT JOIN categories c ON p.category_id = c.id
+      WHERE p.quantity > 0
+    `;
+
+    if (categoryFilter && categoryFilter !== 'All') {
+      query += ' AND p.category_id = ?';
+      params.push(categoryFilter);
+    }
+
+    query += ' ORDER BY value DESC, p.name';
+
+    const rows = (await this.db.getAllAsync(query, params)) as {
+      product_id: string;
+      product_name: string;
+      category_name: string | null;
+      quantity: number;
+      value: number | null;
+    }[];
+
+    const items = rows.map((row) => ({
+      product_id: row.product_id,
+      product_name: row.product_name,
+      category_name: row.category_name || undefined,
+      quantity: row.quantity,
+      unit_cost: Math.round(((row.value || 0) / row.quantity) * 100) / 100,
+      value: row.value || 0,
+    }));
+
+    return {
+      method: this.costingMethod,
+      totalValue: items.reduce((sum, item) => sum + item.value, 0),
+      totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+      items,
+    };
+  }
+
+  // Purchase Order Methods
+  // Orders move draft -> sent -> partially_received -> received, or to
+  // cancelled before anything arrives. Receiving posts stock_in movements
+  // referenced by the PO number; what is received is owed to the supplier
+  // until covered by supplier payments.
+
+  private async generatePurchaseOrderNumber(): Promise<string> {
+    const now = new Date();
+    const datePart = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(
+      2,
+      '0',
+    )}${String(now.getDate()).padStart(2, '0')}`;
+    const prefix = `PO-${datePart}-`;
+
+    const last = (await this.db.getFirstAsync(
+      'SELECT po_number FROM purchase_orders WHERE po_number LIKE ? ORDER BY po_number DESC LIMIT 1',
+      [`${prefix}%`],
+    )) as { po_number: string } | null;
+    const sequential = last
+      ? parseInt(last.po_number.slice(prefix.length), 10) + 1
+      : 1;
+
+    return `${prefix}${String(sequential).padStart(3, '0')}`;
+  }
+
+  private validatePurchaseOrderItems(
+    items: { product_id: string; quantity: number; unit_cost: number }[],
+  ): void {
+    if (items.length === 0) {
+      throw new Error('Add at least one product to the purchase order');
+    }
+    for (const item of items) {
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new Error('Order quantity must be a whole number above zero');
+      }
+      if (item.unit_cost < 0) {
+        throw new Error('Unit cost cannot be negative');
+      }
+    }
+  }
+
+  async getPurchaseOrders(filters?: {
+    status?: PurchaseOrderStatus;
+    supplierId?: string;
+  }): Promise<PurchaseOrder[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters?.status) {
+      conditions.push('po.status = ?');
+      params.push(filters.status);
+    }
+    if (filters?.supplierId) {
+      conditions.push('po.supplier_id = ?');
+      params.push(filters.supplierId);
+    }
+
+    const result = await this.db.getAllAsync(
+      `SELECT po.*, s.name as supplier_name,
+         COALESCE((SELECT COUNT(*) FROM purchase_order_items
+                   WHERE purchase_order_id = po.id), 0) as item_count,
+         COALESCE((SELECT SUM(quantity_ordered * unit_cost) FROM purchase_order_items
+                   WHERE purchase_order_id = po.id), 0) as total_cost,
+         COALESCE((SELECT SUM(received_cost) FROM purchase_order_items
+                   WHERE purchase_order_id = po.id), 0) as received_value,
+         COALESCE((SELECT SUM(amount) FROM supplier_payments
+                   WHERE purchase_order_id = po.id), 0) as paid_amount
+       FROM purchase_orders po
+       LEFT JOIN suppliers s ON po.supplier_id = s.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY po.created_at DESC`,
+      params,
+    );
+    return result as PurchaseOrder[];
+  }
+
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrder | null> {
+    const result = (await this.db.getFirstAsync(
+      `SELECT po.*, s.name as supplier_name,
+         COALESCE((SELECT COUNT(*) FROM purchase_order_items
+                   WHERE purchase_order_id = po.id), 0) as item_count,
+         COALESCE((SELECT SUM(quantity_ordered * unit_cost) FROM purchase_order_items
+                   WHERE purchase_order_id = po.id), 0) as total_cost,
+         COALESCE((SELECT SUM(received_cost) FROM purchase_order_items
+                   WHERE purchase_order_id = po.id), 0) as received_value,
+         COALESCE((SELECT SUM(amount) FROM supplier_payments
+                   WHERE purchase_order_id = po.id), 0) as paid_amount
+       FROM purchase_orders po
+       LEFT JOIN suppliers s ON po.supplier_id = s.id
+       WHERE po.id = ?`,
+      [id],
+    )) as PurchaseOrder | null;
+    return result;
+  }
+
+  async getPurchaseOrderItems(
+    purchaseOrderId: string,
+  ): Promise<PurchaseOrderItem[]> {
+    const result = await this.db.getAllAsync(
+      `SELECT poi.*, COALESCE(p.name, '[Deleted Product]') as product_name
+       FROM purchase_order_items poi
+       LEFT JOIN products p ON poi.product_id = p.id
+       WHERE poi.purchase_order_id = ?
+       ORDER BY product_name`,
+      [purchaseOrderId],
+    );
+    return result as PurchaseOrderItem[];
+  }
+
+  async createPurchaseOrder(purchaseOrder: {
+    supplier_id: string;
+    note?: string;
+    expected_date?: string;
+    items: { product_id: string; quantity: number; unit_cost: number }[];
+  }): Promise<{ id: string; poNumber: string }> {
+    this.validatePurchaseOrderItems(purchaseOrder.items);
+
+    const id = generateUUID();
+    const poNumber = await this.generatePurchaseOrderNumber();
+    const createdAt = formatTimestampForDatabase();
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      await this.db.runAsync(
+        `INSERT INTO purchase_orders
+         (id, po_number, supplier_id, status, note, expected_date, created_at, updated_at)
+         VALUES (?, ?, ?, 'draft', ?, ?, ?, ?)`,
+        [
+          id,
+          poNumber,
+          purchaseOrder.supplier_id,
+          purchaseOrder.note || null,
+          purchaseOrder.expected_date || null,
+          createdAt,
+          createdAt,
+        ],
+      );
+
+      for (const item of purchaseOrder.items) {
         await this.db.runAsync(
-          'UPDATE products SET quantity = quantity + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [movement.quantity, movement.product_id],
+          `INSERT INTO purchase_order_items
+           (id, purchase_order_id, product_id, quantity_ordered, unit_cost)
+           VALUES (?, ?, ?, ?, ?)`,
+          [generateUUID(), id, item.product_id, item.quantity, item.unit_cost],
         );
-      } else if (movement.type === 'stock_out') {
+      }
+
+      await this.db.execAsync('COMMIT');
+      return { id, poNumber };
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the note, expected date and lines of a draft order
+   */
+  async updatePurchaseOrder(
+    id: string,
+    purchaseOrder: {
+      note?: string;
+      expected_date?: string;
+      items: { product_id: string; quantity: number; unit_cost: number }[];
+    },
+  ): Promise<void> {
+    const existing = await this.getPurchaseOrderById(id);
+    if (!existing) {
+      throw new Error('Purchase order not found');
+    }
+    if (existing.status !== 'draft') {
+      throw new Error('Only draft purchase orders can be edited');
+    }
+    this.validatePurchaseOrderItems(purchaseOrder.items);
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      await this.db.runAsync(
+        'UPDATE purchase_orders SET note = ?, expected_date = ?, updated_at = ? WHERE id = ?',
+        [
+          purchaseOrder.note || null,
+          purchaseOrder.expected_date || null,
+          formatTimestampForDatabase(),
+          id,
+        ],
+      );
+      await this.db.runAsync(
+        'DELETE FROM purchase_order_items WHERE purchase_order_id = ?',
+        [id],
+      );
+      for (const item of purchaseOrder.items) {
+        await this.db.runAsync(
+          `INSERT INTO purchase_order_items
+           (id, purchase_order_id, product_id, quantity_ordered, unit_cost)
+           VALUES (?, ?, ?, ?, ?)`,
+          [generateUUID(), id, item.product_id, item.quantity, item.unit_cost],
+        );
+      }
+
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async markPurchaseOrderSent(id: string): Promise<void> {
+    const existing = await this.getPurchaseOrderById(id);
+    if (!existing) {
+      throw new Error('Purchase order not found');
+    }
+    if (existing.status !== 'draft') {
+      throw new Error('Only draft purchase orders can be sent');
+    }
+
+    const now = formatTimestampForDatabase();
+    await this.db.runAsync(
+      "UPDATE purchase_orders SET status = 'sent', sent_at = ?, updated_at = ? WHERE id = ?",
+      [now, now, id],
+    );
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<void> {
+    const existing = await this.getPurchaseOrderById(id);
+    if (!existing) {
+      throw new Error('Purchase order not found');
+    }
+    // Received goods stay on the order so the payable is not lost
+    if (existing.status !== 'draft' && existing.status !== 'sent') {
+      throw new Error(
+        'Purchase orders with received goods cannot be cancelled',
+      );
+    }
+
+    await this.db.runAsync(
+      "UPDATE purchase_orders SET status = 'cancelled', updated_at = ? WHERE id = ?",
+      [formatTimestampForDatabase(), id],
+    );
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    const existing = await this.getPurchaseOrderById(id);
+    if (!existing) {
+      throw new Error('Purchase order not found');
+    }
+    if (existing.status !== 'draft' && existing.status !== 'cancelled') {
+      throw new Error('Only draft or cancelled purchase orders can be deleted');
+    }
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      await this.db.runAsync(
+        'DELETE FROM purchase_order_items WHERE purchase_order_id = ?',
+        [id],
+      );
+      await this.db.runAsync('DELETE FROM purchase_orders WHERE id = ?', [id]);
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Receive goods against a sent order. Each line posts a stock_in movement
+   * with the PO number as reference and the actual unit cost, which may
+   * differ from the expected cost on the order.
+   */
+  async receivePurchaseOrder(
+    id: string,
+    lines: { item_id: string; quantity: number; unit_cost: number }[],
+  ): Promise<PurchaseOrderStatus> {
+    const purchaseOrder = await this.getPurchaseOrderById(id);
+    if (!purchaseOrder) {
+      throw new Error('Purchase order not found');
+    }
+    if (
+      purchaseOrder.status !== 'sent' &&
+      purchaseOrder.status !== 'partially_received'
+    ) {
+      throw new Error('Only sent purchase orders can be received');
+    }
+
+    const receiveLines = lines.filter((line) => line.quantity > 0);
+    if (receiveLines.length === 0) {
+      throw new Error('Enter a quantity for at least one item');
+    }
+
+    const items = await this.getPurchaseOrderItems(id);
+    const receipts = receiveLines.map((line) => {
+      const item = items.find((poItem) => poItem.id === line.item_id);
+      if (!item) {
+        throw new Error('Purchase order item not found');
+      }
+      if (!Number.isInteger(line.quantity)) {
+        throw new Error('Received quantity must be a whole number');
+      }
+      if (line.quantity > item.quantity_ordered - item.quantity_received) {
+        throw new Error('Received quantity exceeds quantity still on order');
+      }
+      if (line.unit_cost < 0) {
+        throw new Error('Unit cost cannot be negative');
+      }
+      return { item, line };
+    });
+
+    const receivedAt = formatTimestampForDatabase();
+
+    await this.db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      for (const { item, line } of receipts) {
+        const movementId = generateUUID();
         await this.db.runAsync(
-          'UPDATE products SET quantity = CASE WHEN quantity >= ? THEN quantity - ? ELSE 0 END, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [movement.quantity, movement.quantity, movement.product_id],
+          `INSERT INTO stock_movements
+           (id, product_id, type, quantity, reason, supplier_id, reference_number, unit_cost, staff_id, created_at)
+           VALUES (?, ?, 'stock_in', ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            movementId,
+            item.product_id,
+            line.quantity,
+            'Purchase order received',
+            purchaseOrder.supplier_id,
+            purchaseOrder.po_number,
+            line.unit_cost,
+            this.activeStaff?.id || null,
+            receivedAt,
+          ],
+        );
+        await this.addCostLayer(
+          item.product_id,
+          line.quantity,
+          line.unit_cost,
+          movementId,
+        );
+        await this.recordStockChange(
+          item.product_id,
+          line.quantity,
+          'purchase_receipt',
+          movementId,
+          receivedAt,
+        );
+        await this.db.runAsync(
+          `UPDATE purchase_order_items
+           SET quantity_received = quantity_received + ?, received_cost = received_cost + ?
+           WHERE id = ?`,
+          [line.quantity, line.quantity * line.unit_cost, item.id],
+        );
+
+        await this.addAuditLogEntry({
+          entity_type: 'stock_movement',
+          entity_id: movementId,
+          entity_label: item.product_name || null,
+          action: 'create',
+          after: {
+            product_id: item.product_id,
+            type: 'stock_in',
+            quantity: line.quantity,
+            supplier_id: purchaseOrder.supplier_id,
+            reference_number: purchaseOrder.po_number,
+            unit_cost: line.unit_cost,
+          },
+        });
+      }
+
+      const receivedByItem = new Map(
+        receipts.map(({ item, line }) => [item.id, line.quantity]),
+      );
+      const fullyReceived = items.every(
+        (item) =>
+          item.quantity_received + (receivedByItem.get(item.id) || 0) >=
+          item.quantity_ordered,
+      );
+      const status: PurchaseOrderStatus = fullyReceived
+        ? 'received'
+        : 'partially_received';
+
+      await this.db.runAsync(
+        'UPDATE purchase_orders SET status = ?, received_at = ?, updated_at = ? WHERE id = ?',
+        [status, fullyReceived ? receivedAt : null, receivedAt, id],
+      );
+
+      await this.db.execAsync('COMMIT');
+      return status;
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async addSupplierPayment(payment: {
+    supplier_id: string;
+    purchase_order_id?: string | null;
+    amount: number;
+    payment_method: string;
+    note?: string;
+  }): Promise<string> {
+    if (!(payment.amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    const id = generateUUID();
+    await this.db.runAsync(
+      `INSERT INTO supplier_payments
+       (id, supplier_id, purchase_order_id, amount, payment_method, note, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        payment.supplier_id,
+        payment.purchase_order_id || null,
+        payment.amount,
+        payment.payment_method,
+        payment.note || null,
+        formatTimestampForDatabase(),
+      ],
+    );
+    return id;
+  }
+
+  async getSupplierPayments(supplierId: string): Promise<SupplierPayment[]> {
+    const result = await this.db.getAllAsync(
+      `SELECT sp.*, po.po_number
+       FROM supplier_payments sp
+       LEFT JOIN purchase_orders po ON sp.purchase_order_id = po.id
+       WHERE sp.supplier_id = ?
+       ORDER BY sp.created_at DESC`,
+      [supplierId],
+    );
+    return result as SupplierPayment[];
+  }
+
+  async getSupplierPayables(supplierId?: string): Promise<SupplierPayable[]> {
+    const result = (await this.db.getAllAsync(
+      `SELECT s.id as supplier_id, s.name as supplier_name,
+         COALESCE((SELECT SUM(poi.received_cost) FROM purchase_order_items poi
+                   JOIN purchase_orders po ON poi.purchase_order_id = po.id
+                   WHERE po.supplier_id = s.id), 0) as received_value,
+         COALESCE((SELECT SUM(amount) FROM supplier_payments
+                   WHERE supplier_id = s.id), 0) as paid_amount,
+         (SELECT COUNT(*) FROM purchase_orders
+          WHERE supplier_id = s.id AND status IN ('sent', 'partially_received')) as open_orders
+       FROM suppliers s
+       ${supplierId ? 'WHERE s.id = ?' : ''}
+       ORDER BY s.name`,
+      supplierId ? [supplierId] : [],
+    )) as Omit<SupplierPayable, 'balance'>[];
+
+    return result
+      .map((row) => ({
+        ...row,
+        balance: row.received_value - row.paid_amount,
+      }))
+      .filter(
+        (row) =>
+          supplierId ||
+          row.received_value > 0 ||
+          row.paid_amount > 0 ||
+          row.open_orders > 0,
+      );
+  }
+
+  /**
+   * Turn low stock predictions into draft order lines grouped by supplier.
+   * Orders enough to cover 30 days of sales (at least back up to twice the
+   * minimum stock), less anything still outstanding on open orders.
+   * Products without a supplier are left out.
+   */
+  async getPurchaseOrderSuggestions(): Promise<PurchaseOrderSuggestion[]> {
+    const prediction = await this.predictLowStockItems();
+    const lowStockItems = [
+      ...prediction.criticalItems,
+      ...prediction.warningItems,
+    ];
+    if (lowStockItems.length === 0) return [];
+
+    const placeholders = lowStockItems.map(() => '?').join(', ');
+    const products = (await this.db.getAllAsync(
+      `SELECT p.id, p.cost, p.supplier_id, s.name as supplier_name,
+         COALESCE((SELECT SUM(poi.quantity_ordered - poi.quantity_received)
+                   FROM purchase_order_items poi
+                   JOIN purchase_orders po ON poi.purchase_order_id = po.id
+                   WHERE poi.product_id = p.id
+                     AND po.status IN ('draft', 'sent', 'partially_received')), 0) as on_order
+       FROM products p
+       JOIN suppliers s ON p.supplier_id = s.id
+       WHERE p.id IN (${placeholders})`,
+      lowStockItems.map((item) => item.productId),
+    )) as {
+      id: string;
+      cost: number;
+      supplier_id: string;
+      supplier_name: string;
+      on_order: number;
+    }[];
+    const productsById = new Map(products.map((p) => [p.id, p]));
+
+    const suggestions = new Map<string, PurchaseOrderSuggestion>();
+    for (const item of lowStockItems) {
+      const product = productsById.get(item.productId);
+      if (!product) continue;
+
+      const target = Math.max(
+        Math.ceil(item.avgDailySales * 30),
+        item.minStock * 2,
+      );
+      const suggestedQuantity = target - item.currentStock - product.on_order;
+      if (suggestedQuantity <= 0) continue;
+
+      if (!suggestions.has(product.supplier_id)) {
+        suggestions.set(product.supplier_id, {
+          supplier_id: product.supplier_id,
+          supplier_name: product.supplier_name,
+          items: [],
+        });
+      }
+      suggestions.get(product.supplier_id)!.items.push({
+        product_id: item.productId,
+        product_name: item.productName,
+        current_stock: item.currentStock,
+        min_stock: item.minStock,
+        avg_daily_sales: item.avgDailySales,
+        on_order: product.on_order,
+        suggested_quantity: suggestedQuantity,
+        unit_cost: product.cost || 0,
+      });
+    }
+
+    return Array.from(suggestions.values());
+  }
+
+  // Customer Management Methods
+  async getCustomers(
+    searchQuery?: string,
+    page: number = 1,
+    pageSize: number = 50,
+  ): Promise<Customer[]> {
+    const offset = (page - 1) * pageSize;
+    let query = 'SELECT * FROM customers';
+    let params: any[] = [];
+
+    if (searchQuery) {
+      query += ' WHERE name LIKE ? OR phone LIKE ? OR email LIKE ?';
+      const searchPattern = `%${searchQuery}%`;
+      params = [searchPattern, searchPattern, searchPattern];
+    }
+
+    query += ' ORDER BY name ASC LIMIT ? OFFSET ?';
+    params.push(pageSize, offset);
+
+    const result = await this.db.getAllAsync(query, params);
+    return result as Customer[];
+  }
+
+  async getCustomerById(id: string): Promise<Customer | null> {
+    const result = await this.db.getFirstAsync(
+      'SELECT * FROM customers WHERE id = ?',
+      [id],
+    );
+    return result as Customer | null;
+  }
+
+  async addCustomer(
+    customer:
+      | Omit<
+          Customer,
+          'total_spent' | 'visit_count' | 'created_at' | 'updated_at'
+        >
+      | Omit<
+          Customer,
+          'id' | 'total_spent' | 'visit_count' | 'created_at' | 'updated_at'
+        >,
+  ): Promise<string> {
+    const id = (customer as any).id || generateUUID();
+    await this.db.runAsync(
+      'INSERT INTO customers (id, name, phone, email, address) VALUES (?, ?, ?, ?, ?)',
+      [
+        id,
+        customer.name,
+        customer.phone || null,
+        customer.email || null,
+        customer.address || null,
+      ],
+    );
+    return id;
+  }
+
+  async updateCustomer(id: string, customer: Partial<Customer>): Promise<void> {
+    const filteredKeys = Object.keys(customer).filter(
+      (key) => key !== 'id' && key !== 'created_at',
+    );
+
+    // If no fields to update, just update the timestamp
+    if (filteredKeys.length === 0) {
+      await this.db.runAsync(
+        `UPDATE customers SET updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [id],
+      );
+      return;
+    }
+
+    const fields = filteredKeys.map((key) => `${key} = ?`).join(', ');
+    const values = filteredKeys.map((key) => (customer as any)[key]);
+
+    await this.db.runAsync(
+      `UPDATE customers SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...values, id],
+    );
+  }
+
+  async deleteCustomer(id: string): Promise<void> {
+    // Check if customer has any sales
+    const salesCount = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM sales WHERE customer_id = ?',
+      [id],
+    )) as { count: number };
+
+    if (salesCount.count > 0) {
+      throw new Error('Cannot delete customer with existing sales records');
+    }
+
+    await this.db.runAsync('DELETE FROM customers WHERE id = ?', [id]);
+  }
+
+  async getCustomerPurchaseHistory(
+    customerId: string,
+    page: number = 1,
+    pageSize: number = 20,
+  ): Promise<Sale[]> {
+    const offset = (page - 1) * pageSize;
+    const result = await this.db.getAllAsync(
+      'SELECT * FROM sales WHERE customer_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+      [customerId, pageSize, offset],
+    );
+    return result as Sale[];
+  }
+
+  async updateCustomerStatistics(
+    customerId: string,
+    saleAmount: number,
+  ): Promise<void> {
+    await this.db.runAsync(
+      `UPDATE customers 
+       SET total_spent = total_spent + ?, 
+           visit_count = visit_count + 1,
+           updated_at = CURRENT_TIMESTAMP 
+       WHERE id = ?`,
+      [saleAmount, customerId],
+    );
+  }
+
+  async getCustomerStatistics(customerId: string): Promise<{
+    totalSpent: number;
+    visitCount: number;
+    averageOrderValue: number;
+    lastVisit: string | null;
+  }> {
+    const customer = await this.getCustomerById(customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const lastSale = (await this.db.getFirstAsync(
+      'SELECT created_at FROM sales WHERE customer_id = ? ORDER BY created_at DESC LIMIT 1',
+      [customerId],
+    )) as { created_at: string } | null;
+
+    const averageOrderValue =
+      customer.visit_count > 0
+        ? customer.total_spent / customer.visit_count
+        : 0;
+
+    return {
+      totalSpent: customer.total_spent,
+      visitCount: customer.visit_count,
+      averageOrderValue,
+      lastVisit: lastSale?.created_at || null,
+    };
+  }
+
+  // Debt Management Methods
+  // Debt balance = debt sales minus active (non-voided) debt payments
+
+  /**
+   * Allocate active debt payments to debt sales.
+   * Sale-scoped payments settle their own sale first; customer-scoped payments
+   * (and any overpayment on a sale) settle the oldest outstanding sales first.
+   */
+  private async getDebtSaleAllocations(customerId?: string): Promise<
+    Map<
+      string,
+      {
+        customer_id: string;
+        total: number;
+        paid: number;
+        outstanding: number;
+      }
+    >
+  > {
+    // Points paid and returns refunded to 'Debt' reduce the amount charged
+    const saleParams: any[] = [];
+    let saleQuery = `SELECT s.id, s.customer_id,
+        s.total - COALESCE(s.loyalty_payment, 0) -
+        COALESCE((SELECT SUM(refund_amount) FROM sale_returns
+          WHERE sale_id = s.id AND refund_method = 'Debt'), 0) as total
+       FROM sales s
+       WHERE s.payment_method = 'Debt' AND s.customer_id IS NOT NULL`;
+    if (customerId) {
+      saleQuery += ' AND s.customer_id = ?';
+      saleParams.push(customerId);
+    }
+    saleQuery += ' ORDER BY s.created_at ASC';
+
+    const paymentParams: any[] = [];
+    let paymentQuery = `SELECT customer_id, sale_id, amount FROM debt_payments
+       WHERE voided = 0`;
+    if (customerId) {
+      paymentQuery += ' AND customer_id = ?';
+      paymentParams.push(customerId);
+    }
+    paymentQuery += ' ORDER BY payment_date ASC';
+
+    const debtSales = (await this.db.getAllAsync(saleQuery, saleParams)) as {
+      id: string;
+      customer_id: string;
+      total: number;
+    }[];
+    const payments = (await this.db.getAllAsync(
+      paymentQuery,
+      paymentParams,
+    )) as { customer_id: string; sale_id: string | null; amount: number }[];
+
+    const allocations = new Map<
+      string,
+      { customer_id: string; total: number; paid: number; outstanding: number }
+    >();
+    for (const sale of debtSales) {
+      allocations.set(sale.id, {
+        customer_id: sale.customer_id,
+        total: sale.total,
+        paid: 0,
+        outstanding: sale.total,
+      });
+    }
+
+    // Unallocated credit per customer, applied FIFO after sale-scoped payments
+    const customerCredit = new Map<string, number>();
+
+    for (const payment of payments) {
+      let remaining = payment.amount;
+      const target = payment.sale_id
+        ? allocations.get(payment.sale_id)
+        : undefined;
+
+      if (target) {
+        const applied = Math.min(remaining, target.outstanding);
+        target.paid += applied;
+        target.outstanding -= applied;
+        remaining -= applied;
+      }
+
+      if (remaining > 0) {
+        customerCredit.set(
+          payment.customer_id,
+          (customerCredit.get(payment.customer_id) || 0) + remaining,
         );
       }
+    }
+
+    // Map iteration follows insertion order, which is oldest sale first
+    for (const allocation of allocations.values()) {
+      const credit = customerCredit.get(allocation.customer_id) || 0;
+      if (credit <= 0 || allocation.outstanding <= 0) continue;
+
+      const applied = Math.min(credit, allocation.outstanding);
+      allocation.paid += applied;
+      allocation.outstanding -= applied;
+      customerCredit.set(allocation.customer_id, credit - applied);
+    }
+
+    return allocations;
+  }
+
+  async getCustomerDebtBalance(customerId: string): Promise<number> {
+    const result = (await this.db.getFirstAsync(
+      `SELECT
+        COALESCE((SELECT SUM(total - COALESCE(loyalty_payment, 0)) FROM sales
+                  WHERE customer_id = ? AND payment_method = 'Debt'), 0) -
+        COALESCE((SELECT SUM(sr.refund_amount) FROM sale_returns sr
+                  JOIN sales s ON sr.sale_id = s.id
+                  WHERE s.customer_id = ? AND sr.refund_method = 'Debt'), 0) -
+        COALESCE((SELECT SUM(amount) FROM debt_payments
+                  WHERE customer_id = ? AND voided = 0), 0) as debt_balance`,
+      [customerId, customerId, customerId],
+    )) as { debt_balance: number } | null;
+
+    return Math.max(0, result?.debt_balance || 0);
+  }
+
+  async getSaleDebtBalance(saleId: string): Promise<number> {
+    const sale = await this.getSaleById(saleId);
+    if (!sale || sale.payment_method !== 'Debt' || !sale.customer_id) {
+      return 0;
+    }
+
+    const allocations = await this.getDebtSaleAllocations(sale.customer_id);
+    return allocations.get(saleId)?.outstanding || 0;
+  }
+
+  async getCustomersWithDebt(): Promise<
+    Array<
+      Customer & {
+        debt_balance: number;
+        paid_amount: number;
+      }
+    >
+  > {
+    const result = await this.db.getAllAsync(
+      `SELECT * FROM (
+        SELECT
+          c.*,
+          COALESCE(debt.total, 0) - COALESCE(credits.total, 0) -
+            COALESCE(payments.total, 0) as debt_balance,
+          COALESCE(paid.total, 0) + COALESCE(payments.total, 0) as paid_amount
+        FROM customers c
+        LEFT JOIN (
+          SELECT customer_id, SUM(total - COALESCE(loyalty_payment, 0)) as total
+          FROM sales WHERE payment_method = 'Debt' GROUP BY customer_id
+        ) debt ON c.id = debt.customer_id
+        LEFT JOIN (
+          SELECT customer_id, SUM(total - COALESCE(loyalty_payment, 0)) as total
+          FROM sales WHERE payment_method != 'Debt' GROUP BY customer_id
+        ) paid ON c.id = paid.customer_id
+        LEFT JOIN (
+          SELECT s.customer_id, SUM(sr.refund_amount) as total
+          FROM sale_returns sr JOIN sales s ON sr.sale_id = s.id
+          WHERE sr.refund_method = 'Debt' GROUP BY s.customer_id
+        ) credits ON c.id = credits.customer_id
+        LEFT JOIN (
+          SELECT customer_id, SUM(amount) as total FROM debt_payments
+          WHERE voided = 0 GROUP BY customer_id
+        ) payments ON c.id = payments.customer_id
+      )
+      WHERE debt_balance > 0
+      ORDER BY debt_balance DESC`,
+    );
+
+    return result as Array<
+      Customer & {
+        debt_balance: number;
+        paid_amount: number;
+      }
+    >;
+  }
+
+  async getCurrentMonthDebtMetrics(): Promise<{
+    count: number;
+    total: number;
+  }> {
+    const now = new Date();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const endOfMonth = new Date(
+      now.getFullYear(),
+      now.getMonth() + 1,
+      0,
+      23,
+      59,
+      59,
+      999,
+    );
+
+    const monthDebtSales = (await this.db.getAllAsync(
+      `SELECT id FROM sales
+       WHERE payment_method = 'Debt'
+       AND created_at BETWEEN ? AND ?`,
+      [startOfMonth.toISOString(), endOfMonth.toISOString()],
+    )) as { id: string }[];
+
+    if (monthDebtSales.length === 0) {
+      return { count: 0, total: 0 };
+    }
+
+    const allocations = await this.getDebtSaleAllocations();
+    let count = 0;
+    let total = 0;
+
+    for (const sale of monthDebtSales) {
+      const outstanding = allocations.get(sale.id)?.outstanding || 0;
+      if (outstanding > 0) {
+        count++;
+        total += outstanding;
+      }
+    }
+
+    return { count, total };
+  }
+
+  async recordDebtPayment(
+    payment: Omit<
+      DebtPayment,
+      | 'id'
+      | 'created_at'
+      | 'payment_date'
+      | 'voided'
+      | 'voided_at'
+      | 'void_reason'
+      | 'customer_name'
+      | 'voucher_id'
+    > & { payment_date?: string },
+  ): Promise<string> {
+    if (!(payment.amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    const customer = await this.getCustomerById(payment.customer_id);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    // Allow a small tolerance for floating point rounding
+    const outstanding = payment.sale_id
+      ? await this.getSaleDebtBalance(payment.sale_id)
+      : await this.getCustomerDebtBalance(payment.customer_id);
+
+    if (payment.amount - outstanding > 0.001) {
+      throw new Error('Payment amount exceeds outstanding debt');
+    }
+
+    const id = generateUUID();
+    const shiftId = await this.getOpenShiftId();
+    await this.db.runAsync(
+      `INSERT INTO debt_payments
+       (id, customer_id, sale_id, amount, payment_method, note, shift_id, payment_date)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        payment.customer_id,
+        payment.sale_id || null,
+        payment.amount,
+        payment.payment_method,
+        payment.note || null,
+        shiftId,
+        formatTimestampForDatabase(payment.payment_date),
+      ],
+    );
+
+    return id;
+  }
+
+  async getDebtPayments(filters?: {
+    customerId?: string;
+    saleId?: string;
+    includeVoided?: boolean;
+  }): Promise<DebtPayment[]> {
+    let query = `
+      SELECT dp.*, c.name as customer_name, s.voucher_id
+      FROM debt_payments dp
+      LEFT JOIN customers c ON dp.customer_id = c.id
+      LEFT JOIN sales s ON dp.sale_id = s.id
+    `;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters?.customerId) {
+      conditions.push('dp.customer_id = ?');
+      params.push(filters.customerId);
+    }
+
+    if (filters?.saleId) {
+      conditions.push('dp.sale_id = ?');
+      params.push(filters.saleId);
+    }
+
+    if (!filters?.includeVoided) {
+      conditions.push('dp.voided = 0');
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    query += ' ORDER BY dp.payment_date DESC';
+
+    const result = await this.db.getAllAsync(query, params);
+    return result as DebtPayment[];
+  }
+
+  async voidDebtPayment(paymentId: string, reason?: string): Promise<void> {
+    const payment = (await this.db.getFirstAsync(
+      'SELECT * FROM debt_payments WHERE id = ?',
+      [paymentId],
+    )) as DebtPayment | null;
+
+    if (!payment) {
+      throw new Error('Debt payment not found');
+    }
+
+    if (payment.voided) {
+      throw new Error('Debt payment is already voided');
+    }
+
+    await this.db.runAsync(
+      `UPDATE debt_payments
+       SET voided = 1, voided_at = ?, void_reason = ?
+       WHERE id = ?`,
+      [formatTimestampForDatabase(), reason || null, paymentId],
+    );
+  }
+
+  /**
+   * Build a customer's debt statement: debt sales as charges, active debt
+   * payments and returns credited to debt as credits, oldest first, with a
+   * running balance.
+   */
+  async getCustomerDebtStatement(
+    customerId: string,
+  ): Promise<DebtStatementEntry[]> {
+    const charges = (await this.db.getAllAsync(
+      `SELECT id, voucher_id, total - COALESCE(loyalty_payment, 0) as total,
+        note, created_at FROM sales
+       WHERE customer_id = ? AND payment_method = 'Debt'`,
+      [customerId],
+    )) as {
+      id: string;
+      voucher_id: string;
+      total: number;
+      note?: string;
+      created_at: string;
+    }[];
+
+    const payments = await this.getDebtPayments({ customerId });
+
+    const credits = (await this.db.getAllAsync(
+      `SELECT sr.id, sr.sale_id, sr.return_number, sr.refund_amount,
+        sr.reason, sr.created_at
+       FROM sale_returns sr
+       JOIN sales s ON sr.sale_id = s.id
+       WHERE s.customer_id = ? AND sr.refund_method = 'Debt'`,
+      [customerId],
+    )) as {
+      id: string;
+      sale_id: string;
+      return_number: string;
+      refund_amount: number;
+      reason?: string;
+      created_at: string;
+    }[];
+
+    const entries: Omit<DebtStatementEntry, 'balance'>[] = [
+      ...charges.map((sale) => ({
+        id: sale.id,
+        type: 'charge' as const,
+        date: sale.created_at,
+        reference: sale.voucher_id,
+        sale_id: sale.id,
+        note: sale.note,
+        charge: sale.total,
+        payment: 0,
+      })),
+      ...payments.map((payment) => ({
+        id: payment.id,
+        type: 'payment' as const,
+        date: payment.payment_date,
+        reference: payment.payment_method,
+        sale_id: payment.sale_id,
+        note: payment.note,
+        charge: 0,
+        payment: payment.amount,
+      })),
+      ...credits.map((credit) => ({
+        id: credit.id,
+        type: 'return' as const,
+        date: credit.created_at,
+        reference: credit.return_number,
+        sale_id: credit.sale_id,
+        note: credit.reason,
+        charge: 0,
+        payment: credit.refund_amount,
+      })),
+    ];
+
+    // Charges sort before payments made at the same moment
+    entries.sort((a, b) => {
+      if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+      return a.type === b.type ? 0 : a.type === 'charge' ? -1 : 1;
+    });
+
+    let balance = 0;
+    return entries.map((entry) => {
+      balance += entry.charge - entry.payment;
+      return { ...entry, balance };
+    });
+  }
+
+  async updateSalePaymentMethod(
+    saleId: string,
+    newPaymentMethod: string,
+  ): Promise<void> {
+    const sale = (await this.db.getFirstAsync(
+      'SELECT voucher_id, payment_method FROM sales WHERE id = ?',
+      [saleId],
+    )) as { voucher_id: string; payment_method: string } | null;
+
+    await this.db.runAsync('UPDATE sales SET payment_method = ? WHERE id = ?', [
+      newPaymentMethod,
+      saleId,
+    ]);
+
+    if (sale && sale.payment_method !== newPaymentMethod) {
+      await this.addAuditLogEntry({
+        entity_type: 'sale',
+        entity_id: saleId,
+        entity_label: sale.voucher_id,
+        action: 'update',
+        before: { payment_method: sale.payment_method },
+        after: { payment_method: newPaymentMethod },
+      });
+    }
+  }
+
+  // Cash Drawer Shift Methods
+  // Sales, returns, debt payments and drawer expenses recorded while a shift
+  // is open are stamped with its id. Only the 'Cash' method moves the drawer.
+
+  private async getOpenShiftId(): Promise<string | null> {
+    const row = (await this.db.getFirstAsync(
+      "SELECT id FROM shifts WHERE status = 'open' ORDER BY opened_at DESC LIMIT 1",
+    )) as { id: string } | null;
+    return row?.id || null;
+  }
+
+  async getOpenShift(): Promise<Shift | null> {
+    const result = await this.db.getFirstAsync(
+      "SELECT * FROM shifts WHERE status = 'open' ORDER BY opened_at DESC LIMIT 1",
+    );
+    return (result as Shift | null) || null;
+  }
+
+  async getShiftById(id: string): Promise<Shift | null> {
+    const result = await this.db.getFirstAsync(
+      'SELECT * FROM shifts WHERE id = ?',
+      [id],
+    );
+    return (result as Shift | null) || null;
+  }
+
+  async getShifts(limit: number = 30): Promise<Shift[]> {
+    const result = await this.db.getAllAsync(
+      'SELECT * FROM shifts ORDER BY opened_at DESC LIMIT ?',
+      [limit],
+    );
+    return result as Shift[];
+  }
+
+  async openShift(openingFloat: number, note?: string): Promise<string> {
+    if (!(openingFloat >= 0)) {
+      throw new Error('Opening float cannot be negative');
+    }
+
+    if (await this.getOpenShiftId()) {
+      throw new Error('A shift is already open');
+    }
+
+    const id = generateUUID();
+    await this.db.runAsync(
+      `INSERT INTO shifts (id, status, opening_float, opening_note, opened_at)
+       VALUES (?, 'open', ?, ?, ?)`,
+      [id, openingFloat, note || null, formatTimestampForDatabase()],
+    );
+    return id;
+  }
+
+  async addCashMovement(movement: {
+    type: CashMovement['type'];
+    amount: number;
+    reason?: string;
+  }): Promise<string> {
+    if (!(movement.amount > 0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+
+    const shiftId = await this.getOpenShiftId();
+    if (!shiftId) {
+      throw new Error('No open shift');
+    }
+
+    const id = generateUUID();
+    await this.db.runAsync(
+      `INSERT INTO cash_movements (id, shift_id, type, amount, reason, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        shiftId,
+        movement.type,
+        movement.amount,
+        movement.reason || null,
+        formatTimestampForDatabase(),
+      ],
+    );
+    return id;
+  }
+
+  async getCashMovements(shiftId: string): Promise<CashMovement[]> {
+    const result = await this.db.getAllAsync(
+      'SELECT * FROM cash_movements WHERE shift_id = ? ORDER BY created_at ASC',
+      [shiftId],
+    );
+    return result as CashMovement[];
+  }
+
+  /**
+   * X report for an open shift, Z report for a closed one. Expected cash is
+   * the opening float plus cash taken in, minus cash paid out of the drawer.
+   */
+  async getShiftReport(shiftId: string): Promise<ShiftReport> {
+    const shift = await this.getShiftById(shiftId);
+    if (!shift) {
+      throw new Error('Shift not found');
+    }
+
+    // Points paid on a sale are counted per payment method in the same
+    // query, then shown as their own tender
+    const methodTotals = (await this.db.getAllAsync(
+      `SELECT payment_method, COUNT(*) as sale_count,
+         COALESCE(SUM(total - COALESCE(loyalty_payment, 0)), 0) as total,
+         SUM(CASE WHEN loyalty_payment > 0 THEN 1 ELSE 0 END) as points_sale_count,
+         COALESCE(SUM(loyalty_payment), 0) as points_total
+       FROM sales
+       WHERE shift_id = ?
+       GROUP BY payment_method
+       ORDER BY total DESC`,
+      [shiftId],
+    )) as (ShiftPaymentTotal & {
+      points_sale_count?: number;
+      points_total?: number;
+    })[];
+    const paymentTotals: ShiftPaymentTotal[] = methodTotals.map(
+      ({ payment_method, sale_count, total }) => ({
+        payment_method,
+        sale_count,
+        total,
+      }),
+    );
+    const saleCount = paymentTotals.reduce(
+      (sum, row) => sum + row.sale_count,
+      0,
+    );
+
+    const pointsSaleCount = methodTotals.reduce(
+      (sum, row) => sum + (row.points_sale_count || 0),
+      0,
+    );
+    if (pointsSaleCount > 0) {
+      paymentTotals.push({
+        payment_method: LOYALTY_PAYMENT_METHOD,
+        sale_count: pointsSaleCount,
+        total: methodTotals.reduce(
+          (sum, row) => sum + (row.points_total || 0),
+          0,
+        ),
+      });
+    }
+
+    const debtResult = (await this.db.getFirstAsync(
+      `SELECT COALESCE(SUM(amount), 0) as total
+       FROM debt_payments
+       WHERE shift_id = ? AND voided = 0 AND payment_method = 'Cash'`,
+      [shiftId],
+    )) as { total: number } | null;
+
+    const refundResult = (await this.db.getFirstAsync(
+      `SELECT COUNT(*) as refund_count,
+         COALESCE(SUM(refund_amount), 0) as refunds_total,
+         COALESCE(SUM(CASE WHEN refund_method = 'Cash' THEN refund_amount ELSE 0 END), 0) as cash_refunds
+       FROM sale_returns
+       WHERE shift_id = ?`,
+      [shiftId],
+    )) as {
+      refund_count: number;
+      refunds_total: number;
+      cash_refunds: number;
+    } | null;
+
+    const expenseResult = (await this.db.getFirstAsync(
+      'SELECT COALESCE(SUM(amount), 0) as total FROM expenses WHERE shift_id = ?',
+      [shiftId],
+    )) as { total: number } | null;
+
+    const cashMovements = await this.getCashMovements(shiftId);
+
+    const sumMovements = (type: CashMovement['type']) =>
+      cashMovements
+        .filter((movement) => movement.type === type)
+        .reduce((sum, movement) => sum + movement.amount, 0);
+
+    const cashSales =
+      paymentTotals.find((row) => row.payment_method === 'Cash')?.total || 0;
+    const debtCollected = debtResult?.total || 0;
+    const cashRefunds = refundResult?.cash_refunds || 0;
+    const drawerExpenses = expenseResult?.total || 0;
+    const payIns = sumMovements('pay_in');
+    const payOuts = sumMovements('pay_out');
+
+    const expectedCash =
+      shift.opening_float +
+      cashSales +
+      debtCollected +
+      payIns -
+      payOuts -
+      cashRefunds -
+      drawerExpenses;
+
+    const countedCash =
+      shift.status === 'closed' ? (shift.counted_cash ?? null) : null;
+
+    return {
+      shift,
+      paymentTotals,
+      saleCount,
+      salesTotal: paymentTotals.reduce((sum, row) => sum + row.total, 0),
+      cashSales,
+      debtCollected,
+      refundCount: refundResult?.refund_count || 0,
+      refundsTotal: refundResult?.refunds_total || 0,
+      cashRefunds,
+      payIns,
+      payOuts,
+      drawerExpenses,
+      expectedCash,
+      countedCash,
+      variance: countedCash === null ? null : countedCash - expectedCash,
+      cashMovements,
+    };
+  }
+
+  async closeShift(
+    shiftId: string,
+    countedCash: number,
+    note?: string,
+  ): Promise<ShiftReport> {
+    if (!(countedCash >= 0)) {
+      throw new Error('Counted cash cannot be negative');
+    }
+
+    const report = await this.getShiftReport(shiftId);
+    if (report.shift.status === 'closed') {
+      throw new Error('Shift is already closed');
+    }
+
+    await this.db.runAsync(
+      `UPDATE shifts
+       SET status = 'closed', expected_cash = ?, counted_cash = ?, closing_note = ?, closed_at = ?
+       WHERE id = ?`,
+      [
+        report.expectedCash,
+        countedCash,
+        note || null,
+        formatTimestampForDatabase(),
+        shiftId,
+      ],
+    );
+
+    return this.getShiftReport(shiftId);
+  }
+
+  // Staff Methods
+  // The signed-in staff member is held in memory for the session. Sales and
+  // stock movements are stamped with their id, and destructive methods check
+  // their role. With no staff member set every action is allowed.
+
+  setActiveStaff(staff: Pick<Staff, 'id' | 'role'> | null): void {
+    this.activeStaff = staff ? { id: staff.id, role: staff.role } : null;
+  }
+
+  getActiveStaff(): Pick<Staff, 'id' | 'role'> | null {
+    return this.activeStaff;
+  }
+
+  assertPermission(permission: Permission): void {
+    if (this.activeStaff && !hasPermission(this.activeStaff.role, permission)) {
+      throw new Error('Permission denied');
+    }
+  }
+
+  private async hashPin(pin: string, salt: string): Promise<string> {
+    return Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      `${salt}:${pin}`,
+    );
+  }
+
+  private mapStaff(row: any): Staff {
+    return {
+      id: row.id,
+      name: row.name,
+      role: row.role,
+      is_active: !!row.is_active,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  async getStaffMembers(includeInactive: boolean = false): Promise<Staff[]> {
+    const result = await this.db.getAllAsync(
+      `SELECT id, name, role, is_active, created_at, updated_at
+       FROM staff
+       ${includeInactive ? '' : 'WHERE is_active = 1'}
+       ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'manager' THEN 1 ELSE 2 END, name`,
+    );
+    return result.map((row) => this.mapStaff(row));
+  }
+
+  async hasStaffAccounts(): Promise<boolean> {
+    const result = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM staff WHERE is_active = 1',
+    )) as { count: number } | null;
+    return (result?.count || 0) > 0;
+  }
+
+  private async countActiveOwners(excludeId?: string): Promise<number> {
+    const result = (await this.db.getFirstAsync(
+      "SELECT COUNT(*) as count FROM staff WHERE role = 'owner' AND is_active = 1 AND id != ?",
+      [excludeId || ''],
+    )) as { count: number } | null;
+    return result?.count || 0;
+  }
+
+  async addStaff(staff: {
+    name: string;
+    role: StaffRole;
+    pin: string;
+  }): Promise<string> {
+    this.assertPermission('staff.manage');
+
+    if (!staff.name.trim()) {
+      throw new Error('Staff name is required');
+    }
+    if (!isValidPin(staff.pin)) {
+      throw new Error('PIN must be 4 to 6 digits');
+    }
+    // The first account must be able to manage everyone else
+    if (staff.role !== 'owner' && !(await this.hasStaffAccounts())) {
+      throw new Error('The first staff account must be an owner');
+    }
+
+    const id = generateUUID();
+    const salt = generateUUID();
+    await this.db.runAsync(
+      `INSERT INTO staff (id, name, role, pin_hash, pin_salt, is_active)
+       VALUES (?, ?, ?, ?, ?, 1)`,
+      [
+        id,
+        staff.name.trim(),
+        staff.role,
+        await this.hashPin(staff.pin, salt),
+        salt,
+      ],
+    );
+    return id;
+  }
+
+  async updateStaff(
+    id: string,
+    staff: Partial<{
+      name: string;
+      role: StaffRole;
+      pin: string;
+      is_active: boolean;
+    }>,
+  ): Promise<void> {
+    this.assertPermission('staff.manage');
+
+    const current = (await this.db.getFirstAsync(
+      'SELECT id, name, role, is_active, created_at, updated_at FROM staff WHERE id = ?',
+      [id],
+    )) as any;
+    if (!current) {
+      throw new Error('Staff member not found');
+    }
+
+    const losesOwner =
+      current.role === 'owner' &&
+      !!current.is_active &&
+      ((staff.role !== undefined && staff.role !== 'owner') ||
+        staff.is_active === false);
+    if (losesOwner && (await this.countActiveOwners(id)) === 0) {
+      throw new Error('At least one active owner is required');
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (staff.name !== undefined) {
+      if (!staff.name.trim()) {
+        throw new Error('Staff name is required');
+      }
+      updates.push('name = ?');
+      values.push(staff.name.trim());
+    }
+    if (staff.role !== undefined) {
+      updates.push('role = ?');
+      values.push(staff.role);
+    }
+    if (staff.is_active !== undefined) {
+      updates.push('is_active = ?');
+      values.push(staff.is_active ? 1 : 0);
+    }
+    if (staff.pin !== undefined) {
+      if (!isValidPin(staff.pin)) {
+        throw new Error('PIN must be 4 to 6 digits');
+      }
+      const salt = generateUUID();
+      updates.push('pin_hash = ?', 'pin_salt = ?');
+      values.push(await this.hashPin(staff.pin, salt), salt);
+    }
+
+    if (updates.length === 0) return;
+
+    await this.db.runAsync(
+      `UPDATE staff SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...values, id],
+    );
+  }
+
+  /**
+   * Check a PIN for an active staff member. Returns the staff member on a
+   * match, null otherwise.
+   */
+  async verifyStaffPin(staffId: string, pin: string): Promise<Staff | null> {
+    const row = (await this.db.getFirstAsync(
+      'SELECT * FROM staff WHERE id = ? AND is_active = 1',
+      [staffId],
+    )) as any;
+    if (!row) return null;
+
+    const pinHash = await this.hashPin(pin, row.pin_salt);
+    return pinHash === row.pin_hash ? this.mapStaff(row) : null;
+  }
+
+  async getStaffSalesSummaryByDateRange(
+    startDate: Date,
+    endDate: Date,
+    timezoneOffsetMinutes: number = -390,
+  ): Promise<StaffSalesSummary[]> {
+    const startRange = getTimezoneAwareDateRangeForDB(
+      startDate,
+      timezoneOffsetMinutes,
+    );
+    const endRange = getTimezoneAwareDateRangeForDB(
+      endDate,
+      timezoneOffsetMinutes,
+    );
+
+    const result = await this.db.getAllAsync(
+      `SELECT s.staff_id, st.name as staff_name,
+         COUNT(*) as sale_count, COALESCE(SUM(s.total), 0) as total
+       FROM sales s
+       LEFT JOIN staff st ON s.staff_id = st.id
+       WHERE s.created_at >= ? AND s.created_at <= ?
+       GROUP BY s.staff_id
+       ORDER BY total DESC`,
+      [startRange.start, endRange.end],
+    );
+    return result as StaffSalesSummary[];
+  }
+
+  // Audit Log Methods
+  // Each entry hashes its own fields together with the previous entry's hash,
+  // so editing or deleting a row breaks the chain from that row on. Entries
+  // are written inside the caller's transaction where there is one.
+
+  private async computeAuditHash(
+    entry: Omit<AuditLogEntry, 'hash' | 'staff_name'>,
+  ): Promise<string> {
+    return Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      JSON.stringify([
+        entry.prev_hash,
+        entry.seq,
+        entry.id,
+        entry.entity_type,
+        entry.entity_id,
+        entry.entity_label,
+        entry.action,
+        entry.before_data,
+        entry.after_data,
+        entry.staff_id,
+        entry.created_at,
+      ]),
+    );
+  }
+
+  async addAuditLogEntry(entry: {
+    entity_type: string;
+    entity_id?: string | null;
+    entity_label?: string | null;
+    action: AuditAction;
+    before?: Record<string, any> | null;
+    after?: Record<string, any> | null;
+  }): Promise<void> {
+    // Queue writes so two changes never chain onto the same previous entry
+    const write = this.auditWriteQueue.then(async () => {
+      const last = (await this.db.getFirstAsync(
+        'SELECT seq, hash FROM audit_log ORDER BY seq DESC LIMIT 1',
+      )) as { seq: number; hash: string } | null;
+
+      const record: Omit<AuditLogEntry, 'hash' | 'staff_name'> = {
+        id: generateUUID(),
+        seq: (last?.seq || 0) + 1,
+        entity_type: entry.entity_type,
+        entity_id: entry.entity_id ?? null,
+        entity_label: entry.entity_label ?? null,
+        action: entry.action,
+        before_data: entry.before ? JSON.stringify(entry.before) : null,
+        after_data: entry.after ? JSON.stringify(entry.after) : null,
+        staff_id: this.activeStaff?.id || null,
+        created_at: formatTimestampForDatabase(),
+        prev_hash: last?.hash || this.AUDIT_GENESIS_HASH,
+      };
+      const hash = await this.computeAuditHash(record);
+
+      await this.db.runAsync(
+        `INSERT INTO audit_log
+         (id, seq, entity_type, entity_id, entity_label, action, before_data, after_data, staff_id, created_at, prev_hash, hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.id,
+          record.seq,
+          record.entity_type,
+          record.entity_id,
+          record.entity_label,
+          record.action,
+          record.before_data,
+          record.after_data,
+          record.staff_id,
+          record.created_at,
+          record.prev_hash,
+          hash,
+        ],
+      );
+    });
+
+    // A failed write must not block the entries queued behind it
+    this.auditWriteQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async getProductAuditLabel(
+    productId: string,
+  ): Promise<string | null> {
+    const product = (await this.db.getFirstAsync(
+      'SELECT name FROM products WHERE id = ?',
+      [productId],
+    )) as { name: string } | null;
+    return product?.name || null;
+  }
+
+  async getAuditLog(
+    filters: AuditLogFilters = {},
+    page: number = 1,
+    pageSize: number = 50,
+  ): Promise<AuditLogEntry[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.entityType) {
+      conditions.push('a.entity_type = ?');
+      params.push(filters.entityType);
+    }
+    if (filters.action) {
+      conditions.push('a.action = ?');
+      params.push(filters.action);
+    }
+    if (filters.staffId) {
+      conditions.push('a.staff_id = ?');
+      params.push(filters.staffId);
+    }
+    if (filters.startDate) {
+      conditions.push('a.created_at >= ?');
+      params.push(getTimezoneAwareDateRangeForDB(filters.startDate).start);
+    }
+    if (filters.endDate) {
+      conditions.push('a.created_at <= ?');
+      params.push(getTimezoneAwareDateRangeForDB(filters.endDate).end);
+    }
+
+    const result = await this.db.getAllAsync(
+      `SELECT a.*, st.name as staff_name
+       FROM audit_log a
+       LEFT JOIN staff st ON a.staff_id = st.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY a.seq DESC
+       LIMIT ? OFFSET ?`,
+      [...params, pageSize, (page - 1) * pageSize],
+    );
+    return result as AuditLogEntry[];
+  }
+
+  /**
+   * Walk the whole log in order and recompute every hash. Reports the first
+   * entry whose content, link to the previous entry or position does not match.
+   */
+  async verifyAuditLogChain(): Promise<AuditChainVerification> {
+    const batchSize = 500;
+    let expectedSeq = 1;
+    let previousHash = this.AUDIT_GENESIS_HASH;
+    let checked = 0;
+
+    while (true) {
+      const batch = (await this.db.getAllAsync(
+        `SELECT id, seq, entity_type, entity_id, entity_label, action, before_data,
+                after_data, staff_id, created_at, prev_hash, hash
+         FROM audit_log
+         WHERE seq >= ?
+         ORDER BY seq ASC
+         LIMIT ?`,
+        [expectedSeq, batchSize],
+      )) as AuditLogEntry[];
+
+      for (const entry of batch) {
+        const { hash, ...fields } = entry;
+        const valid =
+          entry.seq === expectedSeq &&
+          entry.prev_hash === previousHash &&
+          (await this.computeAuditHash(fields)) === hash;
+
+        if (!valid) {
+          return { valid: false, checked, brokenAtSeq: expectedSeq };
+        }
+
+        previousHash = hash;
+        expectedSeq++;
+        checked++;
+      }
+
+      if (batch.length < batchSize) break;
+    }
+
+    return { valid: true, checked, brokenAtSeq: null };
+  }
+
+  // Incremental Export Methods
+
+  /**
+   * Rows of a synced table written or deleted on this device from the given
+   * ISO time on. Changes pulled by sync count from when they arrived. Rows
+   * untouched since change tracking began are only in full exports.
+   */
+  async getRowsChangedSince(
+    table: string,
+    since: string,
+  ): Promise<{ rows: Record<string, any>[]; deletedIds: string[] }> {
+    if (!SYNC_TABLES[table]) {
+      throw new Error(`Changes are not tracked for ${table}`);
+    }
+
+    const rows = (await this.db.getAllAsync(
+      `SELECT t.* FROM ${table} t
+       JOIN sync_row_versions v ON v.table_name = ? AND v.row_id = t.id
+       WHERE v.changed_at >= ? AND v.deleted = 0`,
+      [table, since],
+    )) as Record<string, any>[];
+    const deleted = (await this.db.getAllAsync(
+      `SELECT row_id FROM sync_row_versions
+       WHERE table_name = ? AND changed_at >= ? AND deleted = 1`,
+      [table, since],
+    )) as { row_id: string }[];
+
+    return { rows, deletedIds: deleted.map((row) => row.row_id) };
+  }
 
-      await this.db.execAsync('COMMIT');
-      return id;
-    } catch (error) {
-      await this.db.execAsync('ROLLBACK');
-      throw error;
+  async rowExists(table: string, id: string): Promise<boolean> {
+    if (!SYNC_TABLES[table]) {
+      throw new Error(`Unknown table ${table}`);
     }
+
+    return !!(await this.db.getFirstAsync(
+      `SELECT 1 FROM ${table} WHERE id = ? LIMIT 1`,
+      [id],
+    ));
   }
 
-  async getStockMovements(
-    filters?: {
-      productId?: string;
-      type?: 'stock_in' | 'stock_out';
-      startDate?: Date;
-      endDate?: Date;
-      supplierId?: string;
-    },
-    page: number = 1,
-    pageSize: number = 50,
-  ): Promise<StockMovement[]> {
-    const offset = (page - 1) * pageSize;
-    let query = `
-      SELECT sm.*, 
-             COALESCE(p.name, '[Deleted Product]') as product_name,
-             s.name as supplier_name
-      FROM stock_movements sm
-      LEFT JOIN products p ON sm.product_id = p.id
-      LEFT JOIN suppliers s ON sm.supplier_id = s.id
-    `;
+  // Restore Methods
 
-    const conditions: string[] = [];
-    const params: any[] = [];
+  /**
+   * Run work inside one transaction. Methods called from work that open
+   * their own transaction get a savepoint instead, so everything work
+   * writes is kept or undone together.
+   */
+  async runAtomically<T>(work: () => Promise<T>): Promise<T> {
+    const connection = this.db;
+    let depth = 0;
+
+    const execNested = async (source: string) => {
+      switch (source) {
+        case 'BEGIN TRANSACTION':
+          depth++;
+          return connection.execAsync(`SAVEPOINT nested_${depth}`);
+        case 'COMMIT':
+          return connection.execAsync(`RELEASE nested_${depth--}`);
+        case 'ROLLBACK':
+          return connection.execAsync(
+            `ROLLBACK TO nested_${depth}; RELEASE nested_${depth--}`,
+          );
+        default:
+          return connection.execAsync(source);
+      }
+    };
 
-    if (filters?.productId) {
-      conditions.push('sm.product_id = ?');
-      params.push(filters.productId);
-    }
+    await connection.execAsync('BEGIN TRANSACTION');
+    this.db = new Proxy(connection, {
+      get: (target, property) => {
+        if (property === 'execAsync') return execNested;
+        const value = Reflect.get(target, property);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
 
-    if (filters?.type) {
-      conditions.push('sm.type = ?');
-      params.push(filters.type);
+    try {
+      const result = await work();
+      await connection.execAsync('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.execAsync('ROLLBACK');
+      throw error;
+    } finally {
+      this.db = connection;
+      // Cached rows may have been rolled back
+      this.clearAllCaches();
     }
+  }
 
-    if (filters?.startDate) {
-      conditions.push('sm.created_at >= ?');
-      params.push(filters.startDate.toISOString());
+  /**
+   * Every row of every table a full backup holds, by table
+   */
+  async getBackupTables(): Promise<Record<string, Record<string, any>[]>> {
+    const tables: Record<string, Record<string, any>[]> = {};
+    for (const table of BACKUP_TABLES) {
+      tables[table] = (await this.db.getAllAsync(
+        `SELECT * FROM ${table}`,
+      )) as Record<string, any>[];
     }
+    return tables;
+  }
 
-    if (filters?.endDate) {
-      conditions.push('sm.created_at <= ?');
-      params.push(filters.endDate.toISOString());
-    }
+  /**
+   * Replace the contents of every backed-up table with the rows of a full
+   * backup, in one transaction. A table the backup has no rows for is left
+   * empty, and columns added since the backup was taken get their defaults.
+   * The sync triggers record every row, so other devices follow the
+   * restore.
+   */
+  async replaceBackupTables(
+    tables: Record<string, Record<string, any>[]>,
+  ): Promise<void> {
+    await this.db.execAsync('BEGIN TRANSACTION');
 
-    if (filters?.supplierId) {
-      conditions.push('sm.supplier_id = ?');
-      params.push(filters.supplierId);
-    }
+    try {
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await this.db.runAsync(`DELETE FROM ${table}`);
+      }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
+      for (const table of BACKUP_TABLES) {
+        const columns = await this.getTableColumns(table);
+        for (const row of tables[table] || []) {
+          const present = columns.filter((column) => column in row);
+          await this.db.runAsync(
+            `INSERT INTO ${table} (${present.join(', ')})
+             VALUES (${present.map(() => '?').join(', ')})`,
+            present.map((column) => row[column]),
+          );
+        }
+      }
+
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    } finally {
+      this.clearAllCaches();
     }
+  }
 
-    query += ' ORDER BY sm.created_at DESC LIMIT ? OFFSET ?';
-    params.push(pageSize, offset);
+  // Stock Ledger Methods
+  // Every stock change is appended to stock_ledger as well as applied to
+  // products.quantity. Ledger entries sync between devices and are never
+  // edited, so after a merge each device recomputes quantity as their sum.
 
-    const result = await this.db.getAllAsync(query, params);
-    return result as StockMovement[];
+  setAllowNegativeStock(allow: boolean): void {
+    this.allowNegativeStock = allow;
   }
 
-  async getStockMovementsByProduct(
-    productId: string,
-    page: number = 1,
-    pageSize: number = 20,
-  ): Promise<StockMovement[]> {
-    return this.getStockMovements({ productId }, page, pageSize);
+  getAllowNegativeStock(): boolean {
+    return this.allowNegativeStock;
   }
 
-  async updateProductQuantityWithMovement(
-    productId: string,
-    movementType: 'stock_in' | 'stock_out',
-    quantity: number,
-    reason?: string,
-    supplierId?: string,
-    referenceNumber?: string,
-    unitCost?: number,
-  ): Promise<string> {
-    return this.addStockMovement({
-      product_id: productId,
-      type: movementType,
-      quantity,
-      reason,
-      supplier_id: supplierId,
-      reference_number: referenceNumber,
-      unit_cost: unitCost,
-    });
+  async changeAllowNegativeStock(allow: boolean): Promise<void> {
+    this.assertPermission('settings.manage');
+    await StockSettingsService.setAllowNegativeStock(allow);
+    this.allowNegativeStock = allow;
   }
 
-  async getStockMovementSummary(
-    productId?: string,
-    startDate?: Date,
-    endDate?: Date,
-  ): Promise<{
-    totalStockIn: number;
-    totalStockOut: number;
-    netMovement: number;
-    movementCount: number;
-  }> {
-    let query = `
-      SELECT 
-        SUM(CASE WHEN type = 'stock_in' THEN quantity ELSE 0 END) as total_stock_in,
-        SUM(CASE WHEN type = 'stock_out' THEN quantity ELSE 0 END) as total_stock_out,
-        COUNT(*) as movement_count
-      FROM stock_movements
-    `;
+  setDeviceId(deviceId: string): void {
+    this.deviceId = deviceId;
+  }
 
-    const conditions: string[] = [];
-    const params: any[] = [];
+  /**
+   * Append a stock change to the ledger and apply it to the product.
+   * Call inside the caller's transaction.
+   */
+  private async recordStockChange(
+    productId: string,
+    delta: number,
+    sourceType: StockLedgerSource,
+    sourceId: string | null,
+    createdAt: string = formatTimestampForDatabase(),
+  ): Promise<void> {
+    if (delta === 0) return;
 
-    if (productId) {
-      conditions.push('product_id = ?');
-      params.push(productId);
-    }
+    await this.db.runAsync(
+      'INSERT INTO stock_ledger (id, product_id, delta, source_type, source_id, device_id, staff_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        generateUUID(),
+        productId,
+        delta,
+        sourceType,
+        sourceId,
+        this.deviceId,
+        this.activeStaff?.id || null,
+        createdAt,
+      ],
+    );
+    await this.db.runAsync(
+      'UPDATE products SET quantity = quantity + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [delta, productId],
+    );
+  }
 
-    if (startDate) {
-      conditions.push('created_at >= ?');
-      params.push(startDate.toISOString());
-    }
+  /**
+   * Refuse to sell more than is on hand unless negative stock is allowed.
+   * Checked inside the sale's transaction, so stock merged from another
+   * device since the cart was filled is taken into account.
+   */
+  private async assertStockAvailable(
+    productId: string,
+    quantity: number,
+  ): Promise<void> {
+    if (this.allowNegativeStock) return;
 
-    if (endDate) {
-      conditions.push('created_at <= ?');
-      params.push(endDate.toISOString());
+    const product = (await this.db.getFirstAsync(
+      'SELECT name, quantity FROM products WHERE id = ?',
+      [productId],
+    )) as { name: string; quantity: number } | null;
+    if (product && product.quantity < quantity) {
+      throw new InsufficientStockError(
+        `Not enough stock for ${product.name}`,
+        product.name,
+        product.quantity,
+      );
     }
+  }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
+  // Stock-outs never take a product below zero; they stop at what is on hand
+  private async getStockOutDelta(
+    productId: string,
+    quantity: number,
+  ): Promise<number> {
+    const product = (await this.db.getFirstAsync(
+      'SELECT quantity FROM products WHERE id = ?',
+      [productId],
+    )) as { quantity: number } | null;
+    const onHand = product?.quantity ?? 0;
+    return onHand >= quantity ? -quantity : -onHand;
+  }
 
-    const result = (await this.db.getFirstAsync(query, params)) as {
-      total_stock_in: number;
-      total_stock_out: number;
-      movement_count: number;
-    };
+  /**
+   * Record a quantity typed in by hand (new product, edited quantity) as the
+   * difference from what the ledger already accounts for.
+   */
+  private async syncStockLedger(productId: string): Promise<void> {
+    const row = (await this.db.getFirstAsync(
+      `SELECT p.quantity,
+         (SELECT COUNT(*) FROM stock_ledger WHERE product_id = p.id) as entries,
+         COALESCE((SELECT SUM(delta) FROM stock_ledger WHERE product_id = p.id), 0) as ledgered
+       FROM products p WHERE p.id = ?`,
+      [productId],
+    )) as { quantity: number; entries: number; ledgered: number } | null;
+    if (!row || typeof row.quantity !== 'number') return;
 
-    const totalStockIn = result.total_stock_in || 0;
-    const totalStockOut = result.total_stock_out || 0;
+    const difference = row.quantity - row.ledgered;
+    if (difference === 0) return;
 
-    return {
-      totalStockIn,
-      totalStockOut,
-      netMovement: totalStockIn - totalStockOut,
-      movementCount: result.movement_count || 0,
-    };
+    await this.db.runAsync(
+      'INSERT INTO stock_ledger (id, product_id, delta, source_type, source_id, device_id, staff_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        generateUUID(),
+        productId,
+        difference,
+        row.entries > 0 ? 'adjustment' : 'opening',
+        null,
+        this.deviceId,
+        this.activeStaff?.id || null,
+        formatTimestampForDatabase(),
+      ],
+    );
   }
 
-  async deleteStockMovement(movementId: string): Promise<void> {
-    // Start transaction for atomic operation
+  /**
+   * Bring the ledger in line with every product's quantity. The first run
+   * records existing stock as opening entries.
+   */
+  async reconcileStockLedger(): Promise<void> {
+    const products = (await this.db.getAllAsync(
+      `SELECT p.id FROM products p
+       LEFT JOIN (
+         SELECT product_id, SUM(delta) as ledgered
+         FROM stock_ledger GROUP BY product_id
+       ) l ON l.product_id = p.id
+       WHERE p.quantity != COALESCE(l.ledgered, 0)`,
+    )) as { id: string }[];
+    if (products.length === 0) return;
+
     await this.db.execAsync('BEGIN TRANSACTION');
 
     try {
-      // Get the movement details before deleting
-      const movement = (await this.db.getFirstAsync(
-        'SELECT * FROM stock_movements WHERE id = ?',
-        [movementId],
-      )) as StockMovement | null;
-
-      if (!movement) {
-        throw new Error('Stock movement not found');
-      }
-
-      // Reverse the product quantity change
-      if (movement.type === 'stock_in') {
-        // If it was stock in, subtract the quantity
-        await this.db.runAsync(
-          'UPDATE products SET quantity = CASE WHEN quantity >= ? THEN quantity - ? ELSE 0 END, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [movement.quantity, movement.quantity, movement.product_id],
-        );
-      } else if (movement.type === 'stock_out') {
-        // If it was stock out, add the quantity back
-        await this.db.runAsync(
-          'UPDATE products SET quantity = quantity + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-          [movement.quantity, movement.product_id],
-        );
+      for (const product of products) {
+        await this.syncStockLedger(product.id);
       }
-
-      // Delete the movement record
-      await this.db.runAsync('DELETE FROM stock_movements WHERE id = ?', [
-        movementId,
-      ]);
-
       await this.db.execAsync('COMMIT');
     } catch (error) {
       await this.db.execAsync('ROLLBACK');
@@ -4036,230 +9655,519 @@ export class DatabaseService {
     }
   }
 
-  // Customer Management Methods
-  async getCustomers(
-    searchQuery?: string,
-    page: number = 1,
-    pageSize: number = 50,
-  ): Promise<Customer[]> {
-    const offset = (page - 1) * pageSize;
-    let query = 'SELECT * FROM customers';
-    let params: any[] = [];
-
-    if (searchQuery) {
-      query += ' WHERE name LIKE ? OR phone LIKE ? OR email LIKE ?';
-      const searchPattern = `%${searchQuery}%`;
-      params = [searchPattern, searchPattern, searchPattern];
-    }
+  // Set a product's quantity to the sum of its ledger entries
+  private async recomputeStockFromLedger(productId: string): Promise<void> {
+    await this.db.runAsync(
+      `UPDATE products
+       SET quantity = COALESCE((SELECT SUM(delta) FROM stock_ledger WHERE product_id = ?), 0)
+       WHERE id = ?`,
+      [productId, productId],
+    );
+  }
 
-    query += ' ORDER BY name ASC LIMIT ? OFFSET ?';
-    params.push(pageSize, offset);
+  /**
+   * Products whose running stock went below zero once every device's ledger
+   * entries were merged, e.g. the last unit sold on two devices at once.
+   */
+  async getStockReconciliation(): Promise<StockReconciliationItem[]> {
+    const result = (await this.db.getAllAsync(
+      `WITH running AS (
+         SELECT product_id, source_type, device_id, created_at,
+                SUM(delta) OVER (
+                  PARTITION BY product_id ORDER BY created_at, id
+                  ROWS UNBOUNDED PRECEDING
+                ) as balance
+         FROM stock_ledger
+       )
+       SELECT p.id as product_id,
+              p.name as product_name,
+              p.quantity,
+              MIN(r.balance) as lowest_balance,
+              SUM(CASE WHEN r.source_type = 'sale' AND r.balance < 0 THEN 1 ELSE 0 END) as oversold_sales,
+              COUNT(DISTINCT CASE WHEN r.source_type = 'sale' THEN r.device_id END) as device_count,
+              MIN(CASE WHEN r.balance < 0 THEN r.created_at END) as first_oversold_at
+       FROM running r
+       JOIN products p ON p.id = r.product_id
+       GROUP BY p.id
+       HAVING MIN(r.balance) < 0 OR p.quantity < 0
+       ORDER BY p.quantity ASC, lowest_balance ASC`,
+    )) as Omit<StockReconciliationItem, 'oversold_quantity'>[];
 
-    const result = await this.db.getAllAsync(query, params);
-    return result as Customer[];
+    return result.map((item) => ({
+      ...item,
+      oversold_quantity: Math.max(-item.lowest_balance, 0),
+    }));
   }
 
-  async getCustomerById(id: string): Promise<Customer | null> {
-    const result = await this.db.getFirstAsync(
-      'SELECT * FROM customers WHERE id = ?',
-      [id],
+  // Sync Methods
+  // Triggers on every synced table bump the row's version and append it to
+  // the outbox. Changes pulled from the server are applied with the
+  // applying_remote flag set so the triggers skip them.
+
+  // Rows that existed before sync was first enabled get this timestamp, so
+  // any real edit made on another device wins over them
+  private readonly SYNC_SNAPSHOT_TIMESTAMP = '1970-01-01T00:00:00.000Z';
+  private tableColumnsCache = new Map<string, string[]>();
+
+  async installSyncTriggers(): Promise<void> {
+    const now = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+    const guard =
+      "NOT EXISTS (SELECT 1 FROM sync_state WHERE key = 'applying_remote')";
+
+    const statements = Object.keys(SYNC_TABLES).flatMap((table) =>
+      (
+        [
+          ['insert', 'INSERT', 'NEW', 'upsert'],
+          ['update', 'UPDATE', 'NEW', 'upsert'],
+          ['delete', 'DELETE', 'OLD', 'delete'],
+        ] as const
+      ).flatMap(([suffix, event, row, operation]) => [
+        `DROP TRIGGER IF EXISTS sync_${table}_${suffix};`,
+        `CREATE TRIGGER sync_${table}_${suffix} AFTER ${event} ON ${table}
+         WHEN ${guard}
+         BEGIN
+           INSERT INTO sync_row_versions (table_name, row_id, version, updated_at, deleted, device_id, changed_at)
+           VALUES ('${table}', ${row}.id, 1, ${now}, ${operation === 'delete' ? 1 : 0}, NULL, ${now})
+           ON CONFLICT (table_name, row_id) DO UPDATE SET
+             version = version + 1,
+             updated_at = excluded.updated_at,
+             deleted = excluded.deleted,
+             device_id = NULL,
+             changed_at = excluded.changed_at;
+           INSERT INTO sync_outbox (table_name, row_id, operation, created_at)
+           VALUES ('${table}', ${row}.id, '${operation}', ${now});
+         END;`,
+      ]),
     );
-    return result as Customer | null;
+
+    await this.db.execAsync(statements.join('\n'));
   }
 
-  async addCustomer(
-    customer:
-      | Omit<
-          Customer,
-          'total_spent' | 'visit_count' | 'created_at' | 'updated_at'
-        >
-      | Omit<
-          Customer,
-          'id' | 'total_spent' | 'visit_count' | 'created_at' | 'updated_at'
-        >,
-  ): Promise<string> {
-    const id = (customer as any).id || generateUUID();
+  async getSyncState(key: string): Promise<string | null> {
+    const row = (await this.db.getFirstAsync(
+      'SELECT value FROM sync_state WHERE key = ?',
+      [key],
+    )) as { value: string | null } | null;
+    return row?.value ?? null;
+  }
+
+  async setSyncState(key: string, value: string): Promise<void> {
     await this.db.runAsync(
-      'INSERT INTO customers (id, name, phone, email, address) VALUES (?, ?, ?, ?, ?)',
-      [
-        id,
-        customer.name,
-        customer.phone || null,
-        customer.email || null,
-        customer.address || null,
-      ],
+      `INSERT INTO sync_state (key, value) VALUES (?, ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value`,
+      [key, value],
     );
-    return id;
   }
 
-  async updateCustomer(id: string, customer: Partial<Customer>): Promise<void> {
-    const filteredKeys = Object.keys(customer).filter(
-      (key) => key !== 'id' && key !== 'created_at',
-    );
+  /**
+   * Queue every row written before sync was enabled. Runs once; later
+   * changes reach the outbox through the triggers.
+   */
+  async queueAllRowsForSync(): Promise<void> {
+    if (await this.getSyncState('snapshot_queued')) return;
 
-    // If no fields to update, just update the timestamp
-    if (filteredKeys.length === 0) {
-      await this.db.runAsync(
-        `UPDATE customers SET updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-        [id],
-      );
-      return;
-    }
+    const createdAt = new Date().toISOString();
+    await this.db.execAsync('BEGIN TRANSACTION');
 
-    const fields = filteredKeys.map((key) => `${key} = ?`).join(', ');
-    const values = filteredKeys.map((key) => (customer as any)[key]);
+    try {
+      for (const table of Object.keys(SYNC_TABLES)) {
+        await this.db.runAsync(
+          `INSERT OR IGNORE INTO sync_row_versions (table_name, row_id, version, updated_at, deleted, device_id)
+           SELECT ?, id, 1, ?, 0, NULL FROM ${table}`,
+          [table, this.SYNC_SNAPSHOT_TIMESTAMP],
+        );
+        await this.db.runAsync(
+          `INSERT INTO sync_outbox (table_name, row_id, operation, created_at)
+           SELECT ?, t.id, 'upsert', ? FROM ${table} t
+           WHERE NOT EXISTS (
+             SELECT 1 FROM sync_outbox o WHERE o.table_name = ? AND o.row_id = t.id
+           )`,
+          [table, createdAt, table],
+        );
+      }
+      await this.setSyncState('snapshot_queued', createdAt);
 
-    await this.db.runAsync(
-      `UPDATE customers SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-      [...values, id],
-    );
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
   }
 
-  async deleteCustomer(id: string): Promise<void> {
-    // Check if customer has any sales
-    const salesCount = (await this.db.getFirstAsync(
-      'SELECT COUNT(*) as count FROM sales WHERE customer_id = ?',
-      [id],
-    )) as { count: number };
+  /**
+   * Read the oldest pending changes, one per row with its latest state.
+   * Acknowledging up to the highest seq returned clears exactly these rows.
+   */
+  async getPendingSyncChanges(limit: number = 200): Promise<{
+    changes: SyncOutboxChange[];
+    upToSeq: number;
+  }> {
+    const pending = (await this.db.getAllAsync(
+      `SELECT o.table_name, o.row_id, MAX(o.seq) as seq,
+              v.version, v.updated_at, v.deleted
+       FROM sync_outbox o
+       LEFT JOIN sync_row_versions v
+         ON v.table_name = o.table_name AND v.row_id = o.row_id
+       GROUP BY o.table_name, o.row_id
+       ORDER BY seq ASC
+       LIMIT ?`,
+      [limit],
+    )) as {
+      table_name: string;
+      row_id: string;
+      seq: number;
+      version: number | null;
+      updated_at: string | null;
+      deleted: number | null;
+    }[];
 
-    if (salesCount.count > 0) {
-      throw new Error('Cannot delete customer with existing sales records');
+    const changes: SyncOutboxChange[] = [];
+    for (const entry of pending) {
+      const data = entry.deleted
+        ? null
+        : ((await this.db.getFirstAsync(
+            `SELECT * FROM ${entry.table_name} WHERE id = ?`,
+            [entry.row_id],
+          )) as Record<string, any> | null);
+
+      changes.push({
+        seq: entry.seq,
+        table_name: entry.table_name,
+        row_id: entry.row_id,
+        operation: data ? 'upsert' : 'delete',
+        version: entry.version || 1,
+        updated_at: entry.updated_at || new Date().toISOString(),
+        data,
+      });
     }
 
-    await this.db.runAsync('DELETE FROM customers WHERE id = ?', [id]);
+    return {
+      changes,
+      upToSeq: pending.length > 0 ? pending[pending.length - 1].seq : 0,
+    };
   }
 
-  async getCustomerPurchaseHistory(
-    customerId: string,
-    page: number = 1,
-    pageSize: number = 20,
-  ): Promise<Sale[]> {
-    const offset = (page - 1) * pageSize;
-    const result = await this.db.getAllAsync(
-      'SELECT * FROM sales WHERE customer_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
-      [customerId, pageSize, offset],
-    );
-    return result as Sale[];
+  async acknowledgeSyncChanges(upToSeq: number): Promise<void> {
+    await this.db.runAsync('DELETE FROM sync_outbox WHERE seq <= ?', [upToSeq]);
   }
 
-  async updateCustomerStatistics(
-    customerId: string,
-    saleAmount: number,
+  private async getTableColumns(table: string): Promise<string[]> {
+    const cached = this.tableColumnsCache.get(table);
+    if (cached) return cached;
+
+    const columns = (
+      (await this.db.getAllAsync(`PRAGMA table_info(${table})`)) as {
+        name: string;
+      }[]
+    ).map((column) => column.name);
+    this.tableColumnsCache.set(table, columns);
+    return columns;
+  }
+
+  private async getLocalSyncId(
+    table: string,
+    remoteId: string,
+  ): Promise<string> {
+    const mapped = (await this.db.getFirstAsync(
+      'SELECT local_id FROM sync_id_map WHERE table_name = ? AND remote_id = ?',
+      [table, remoteId],
+    )) as { local_id: string } | null;
+    return mapped?.local_id || remoteId;
+  }
+
+  private async logSyncConflict(
+    change: SyncChange,
+    rowId: string,
+    resolution: SyncConflict['resolution'],
+    localData: Record<string, any> | null,
+    message: string | null = null,
   ): Promise<void> {
     await this.db.runAsync(
-      `UPDATE customers 
-       SET total_spent = total_spent + ?, 
-           visit_count = visit_count + 1,
-           updated_at = CURRENT_TIMESTAMP 
-       WHERE id = ?`,
-      [saleAmount, customerId],
+      `INSERT INTO sync_conflicts (id, table_name, row_id, resolution, local_data, remote_data, message, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        generateUUID(),
+        change.table_name,
+        rowId,
+        resolution,
+        localData ? JSON.stringify(localData) : null,
+        change.data ? JSON.stringify(change.data) : null,
+        message,
+        formatTimestampForDatabase(),
+      ],
     );
   }
 
-  async getCustomerStatistics(customerId: string): Promise<{
-    totalSpent: number;
-    visitCount: number;
-    averageOrderValue: number;
-    lastVisit: string | null;
-  }> {
-    const customer = await this.getCustomerById(customerId);
-    if (!customer) {
-      throw new Error('Customer not found');
-    }
+  /**
+   * Apply changes received from the server. Each change is settled against
+   * the local version of its row with the table's conflict rule; a row that
+   * was created on both sides under different ids is merged on its natural
+   * key (see findMatchingRecord) instead of being duplicated.
+   */
+  async applyRemoteSyncChanges(
+    changes: SyncChange[],
+    deviceId: string,
+  ): Promise<SyncApplyResult> {
+    const tableOrder = Object.keys(SYNC_TABLES);
+    // Parents are written before their children and deleted after them
+    const ordered = changes
+      .filter(
+        (change) =>
+          change.device_id !== deviceId && SYNC_TABLES[change.table_name],
+      )
+      .sort((a, b) => {
+        const byTable =
+          tableOrder.indexOf(a.table_name) - tableOrder.indexOf(b.table_name);
+        if (a.operation === 'delete' && b.operation === 'delete') {
+          return -byTable;
+        }
+        if (a.operation !== b.operation) {
+          return a.operation === 'delete' ? 1 : -1;
+        }
+        return byTable;
+      });
 
-    const lastSale = (await this.db.getFirstAsync(
-      'SELECT created_at FROM sales WHERE customer_id = ? ORDER BY created_at DESC LIMIT 1',
-      [customerId],
-    )) as { created_at: string } | null;
+    const result: SyncApplyResult = {
+      applied: 0,
+      skipped: changes.length - ordered.length,
+      conflicts: 0,
+    };
+    if (ordered.length === 0) return result;
 
-    const averageOrderValue =
-      customer.visit_count > 0
-        ? customer.total_spent / customer.visit_count
-        : 0;
+    const touchedTables = new Set<string>();
+    const restockedProducts = new Set<string>();
+    await this.db.execAsync('BEGIN TRANSACTION');
 
-    return {
-      totalSpent: customer.total_spent,
-      visitCount: customer.visit_count,
-      averageOrderValue,
-      lastVisit: lastSale?.created_at || null,
-    };
-  }
+    try {
+      await this.setSyncState('applying_remote', '1');
 
-  // Debt Management Methods
-  async getCustomerDebtBalance(customerId: string): Promise<number> {
-    const result = (await this.db.getFirstAsync(
-      `SELECT COALESCE(SUM(total), 0) as debt_balance
-       FROM sales
-       WHERE customer_id = ? AND payment_method = 'Debt'`,
-      [customerId],
-    )) as { debt_balance: number };
+      for (const change of ordered) {
+        const table = change.table_name;
+        const config = SYNC_TABLES[table];
+        let rowId = await this.getLocalSyncId(table, change.row_id);
 
-    return result.debt_balance;
-  }
+        try {
+          let local = (await this.db.getFirstAsync(
+            `SELECT * FROM ${table} WHERE id = ?`,
+            [rowId],
+          )) as Record<string, any> | null;
+          let merged = false;
+
+          // A new row may be one this device already has under another id
+          if (!local && change.operation === 'upsert' && config.matchAs) {
+            const keys = (MATCH_COLUMNS[config.matchAs] || []).filter(
+              (column) => change.data?.[column],
+            );
+            const candidates = keys.length
+              ? ((await this.db.getAllAsync(
+                  `SELECT * FROM ${table} WHERE ${keys
+                    .map((column) => `${column} = ?`)
+                    .join(' OR ')}`,
+                  keys.map((column) => change.data![column]),
+                )) as Record<string, any>[])
+              : [];
+            const { matchedRecord } = findMatchingRecord(
+              change.data,
+              candidates,
+              config.matchAs,
+            );
+            if (matchedRecord) {
+              rowId = matchedRecord.id;
+              local = matchedRecord;
+              merged = true;
+              await this.db.runAsync(
+                `INSERT OR REPLACE INTO sync_id_map (table_name, remote_id, local_id)
+                 VALUES (?, ?, ?)`,
+                [table, change.row_id, rowId],
+              );
+            }
+          }
 
-  async getCustomersWithDebt(): Promise<
-    Array<
-      Customer & {
-        debt_balance: number;
-        paid_amount: number;
+          const localVersion = (await this.db.getFirstAsync(
+            `SELECT version, updated_at, deleted, device_id
+             FROM sync_row_versions WHERE table_name = ? AND row_id = ?`,
+            [table, rowId],
+          )) as {
+            version: number;
+            updated_at: string;
+            deleted: number;
+            device_id: string | null;
+          } | null;
+          const hasPending = !!(await this.db.getFirstAsync(
+            'SELECT 1 FROM sync_outbox WHERE table_name = ? AND row_id = ? LIMIT 1',
+            [table, rowId],
+          ));
+
+          const winner = localVersion
+            ? resolveSyncConflict(
+                config.rule,
+                {
+                  operation: localVersion.deleted ? 'delete' : 'upsert',
+                  version: localVersion.version,
+                  updated_at: localVersion.updated_at,
+                  device_id: localVersion.device_id || deviceId,
+                },
+                change,
+              )
+            : 'incoming';
+
+          if (merged || hasPending) {
+            await this.logSyncConflict(
+              change,
+              rowId,
+              merged
+                ? 'merged'
+                : winner === 'incoming'
+                  ? 'took_remote'
+                  : 'kept_local',
+              local,
+            );
+            result.conflicts++;
+          }
+
+          if (winner === 'current') {
+            result.skipped++;
+            continue;
+          }
+
+          if (change.operation === 'delete') {
+            await this.db.runAsync(`DELETE FROM ${table} WHERE id = ?`, [
+              rowId,
+            ]);
+          } else {
+            const columns = await this.getTableColumns(table);
+            const values: Record<string, any> = { ...change.data, id: rowId };
+            for (const [column, target] of Object.entries(
+              config.references || {},
+            )) {
+              if (values[column]) {
+                values[column] = await this.getLocalSyncId(
+                  target,
+                  values[column],
+                );
+              }
+            }
+
+            const writable = columns.filter(
+              (column) => column in values && !config.derived?.includes(column),
+            );
+            const updates = writable.filter((column) => column !== 'id');
+            await this.db.runAsync(
+              `INSERT INTO ${table} (${writable.join(', ')})
+               VALUES (${writable.map(() => '?').join(', ')})
+               ON CONFLICT (id) DO ${
+                 updates.length > 0
+                   ? `UPDATE SET ${updates
+                       .map((column) => `${column} = excluded.${column}`)
+                       .join(', ')}`
+                   : 'NOTHING'
+               }`,
+              writable.map((column) => values[column] ?? null),
+            );
+          }
+
+          await this.db.runAsync(
+            `INSERT INTO sync_row_versions (table_name, row_id, version, updated_at, deleted, device_id, changed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (table_name, row_id) DO UPDATE SET
+               version = excluded.version,
+               updated_at = excluded.updated_at,
+               deleted = excluded.deleted,
+               device_id = excluded.device_id,
+               changed_at = excluded.changed_at`,
+            [
+              table,
+              rowId,
+              change.version,
+              change.updated_at,
+              change.operation === 'delete' ? 1 : 0,
+              change.device_id || null,
+              // When this device got the change, not when it was made
+              new Date().toISOString(),
+            ],
+          );
+          // The local edits lost, so they must not be pushed afterwards
+          await this.db.runAsync(
+            'DELETE FROM sync_outbox WHERE table_name = ? AND row_id = ?',
+            [table, rowId],
+          );
+
+          if (table === 'products' && change.operation === 'upsert') {
+            restockedProducts.add(rowId);
+          } else if (table === 'stock_ledger' && change.data?.product_id) {
+            restockedProducts.add(
+              await this.getLocalSyncId('products', change.data.product_id),
+            );
+          }
+          touchedTables.add(table);
+          result.applied++;
+        } catch (error) {
+          // One bad row (e.g. a name taken by another row) must not hold
+          // back the rest of the batch
+          console.warn(`Failed to apply sync change to ${table}:`, error);
+          await this.logSyncConflict(
+            change,
+            rowId,
+            'failed',
+            null,
+            error instanceof Error ? error.message : String(error),
+          );
+          result.conflicts++;
+        }
       }
-    >
-  > {
-    const result = await this.db.getAllAsync(
-      `SELECT
-        c.*,
-        COALESCE(SUM(CASE WHEN s.payment_method = 'Debt' THEN s.total ELSE 0 END), 0) as debt_balance,
-        COALESCE(SUM(CASE WHEN s.payment_method != 'Debt' THEN s.total ELSE 0 END), 0) as paid_amount
-       FROM customers c
-       LEFT JOIN sales s ON c.id = s.customer_id
-       GROUP BY c.id
-       HAVING debt_balance > 0
-       ORDER BY debt_balance DESC`,
-    );
 
-    return result as Array<
-      Customer & {
-        debt_balance: number;
-        paid_amount: number;
+      // Stock is the sum of every device's ledger entries
+      for (const productId of restockedProducts) {
+        await this.recomputeStockFromLedger(productId);
       }
-    >;
+
+      await this.db.runAsync(
+        "DELETE FROM sync_state WHERE key = 'applying_remote'",
+      );
+      await this.db.execAsync('COMMIT');
+    } catch (error) {
+      await this.db.execAsync('ROLLBACK');
+      throw error;
+    }
+
+    if (touchedTables.has('bulk_pricing')) {
+      this.bulkPricingCache.clear();
+      this.cacheExpiry.clear();
+    }
+    if (restockedProducts.size > 0) {
+      await this.reconcileCostLayers();
+    }
+
+    return result;
   }
 
-  async getCurrentMonthDebtMetrics(): Promise<{
-    count: number;
-    total: number;
-  }> {
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endOfMonth = new Date(
-      now.getFullYear(),
-      now.getMonth() + 1,
-      0,
-      23,
-      59,
-      59,
-      999,
-    );
+  async getSyncStatus(): Promise<SyncStatus> {
+    const pending = (await this.db.getFirstAsync(
+      `SELECT COUNT(*) as count FROM (
+         SELECT 1 FROM sync_outbox GROUP BY table_name, row_id
+       )`,
+    )) as { count: number } | null;
+    const conflicts = (await this.db.getFirstAsync(
+      'SELECT COUNT(*) as count FROM sync_conflicts',
+    )) as { count: number } | null;
 
-    const result = (await this.db.getFirstAsync(
-      `SELECT COUNT(*) as count, COALESCE(SUM(total), 0) as total
-       FROM sales
-       WHERE payment_method = 'Debt'
-       AND created_at BETWEEN ? AND ?`,
-      [startOfMonth.toISOString(), endOfMonth.toISOString()],
-    )) as { count: number; total: number };
+    return {
+      pendingChanges: pending?.count || 0,
+      conflicts: conflicts?.count || 0,
+      lastSyncedAt: await this.getSyncState('last_synced_at'),
+    };
+  }
 
-    return result || { count: 0, total: 0 };
+  async getSyncConflicts(limit: number = 50): Promise<SyncConflict[]> {
+    const result = await this.db.getAllAsync(
+      'SELECT * FROM sync_conflicts ORDER BY created_at DESC LIMIT ?',
+      [limit],
+    );
+    return result as SyncConflict[];
   }
 
-  async updateSalePaymentMethod(
-    saleId: string,
-    newPaymentMethod: string,
-  ): Promise<void> {
-    await this.db.runAsync('UPDATE sales SET payment_method = ? WHERE id = ?', [
-      newPaymentMethod,
-      saleId,
-    ]);
+  async clearSyncConflicts(): Promise<void> {
+    await this.db.runAsync('DELETE FROM sync_conflicts');
   }
 
   // Customer Analytics Methods
@@ -4453,9 +10361,17 @@ export class DatabaseService {
     };
   }
 
+  // Customers who have not bought for about a month are at risk
+  private async getCustomerSegment(
+    customerId: string,
+  ): Promise<CustomerSegment> {
+    const ltv = await this.calculateCustomerLifetimeValue(customerId);
+    return ltv.riskScore > 60 ? 'at_risk' : ltv.customerSegment;
+  }
+
   async getCustomerSegmentation(): Promise<{
     segments: {
-      segment: 'high_value' | 'medium_value' | 'low_value' | 'new' | 'at_risk';
+      segment: CustomerSegment;
       count: number;
       totalValue: number;
       averageOrderValue: number;
@@ -4472,12 +10388,7 @@ export class DatabaseService {
     };
 
     for (const customer of customers) {
-      const ltv = await this.calculateCustomerLifetimeValue(customer.id);
-
-      let segment = ltv.customerSegment;
-      if (ltv.riskScore > 60) {
-        segment = 'at_risk';
-      }
+      const segment = await this.getCustomerSegment(customer.id);
 
       segments[segment].count++;
       segments[segment].totalValue += customer.total_spent;
@@ -4485,12 +10396,7 @@ export class DatabaseService {
     }
 
     const result = Object.entries(segments).map(([segment, data]) => ({
-      segment: segment as
-        | 'high_value'
-        | 'medium_value'
-        | 'low_value'
-        | 'new'
-        | 'at_risk',
+      segment: segment as CustomerSegment,
       count: data.count,
       totalValue: data.totalValue,
       averageOrderValue: data.orders > 0 ? data.totalValue / data.orders : 0,
@@ -5493,6 +11399,8 @@ export class DatabaseService {
     deletedStockMovements: number;
     deletedExpenses: number;
   }> {
+    this.assertPermission('data.cleanup');
+
     const optimizer = new DatabaseOptimizer(this.db);
     return optimizer.cleanupOldData(options);
   }
@@ -5642,12 +11550,41 @@ export class DatabaseService {
         ORDER BY total_amount DESC
       `;
 
-      const result = await this.db.getAllAsync(query, [
+      const result = (await this.db.getAllAsync(query, [
         startRange.start,
         endRange.end,
-      ]);
+      ])) as PaymentMethodAnalytics[];
+
+      // Net out refunds against the method the money was returned through
+      const refunds = (await this.db.getAllAsync(
+        `SELECT refund_method, SUM(refund_amount) as refund_total
+         FROM sale_returns
+         WHERE created_at BETWEEN ? AND ?
+         GROUP BY refund_method`,
+        [startRange.start, endRange.end],
+      )) as { refund_method: string; refund_total: number }[];
+
+      if (refunds.length === 0) {
+        return result;
+      }
+
+      const analytics = result.map((row) => ({ ...row }));
+      for (const refund of refunds) {
+        const row = analytics.find(
+          (item) => item.payment_method === refund.refund_method,
+        );
+        if (row) {
+          row.total_amount -= refund.refund_total;
+        } else {
+          analytics.push({
+            payment_method: refund.refund_method,
+            total_amount: -refund.refund_total,
+            transaction_count: 0,
+          });
+        }
+      }
 
-      return result as PaymentMethodAnalytics[];
+      return analytics.sort((a, b) => b.total_amount - a.total_amount);
     } catch (error) {
       console.error('Error getting payment method analytics:', error);
       return [];
@@ -5668,20 +11605,23 @@ export class DatabaseService {
     }>;
   }> {
     try {
+      // Stock is valued the same way as the inventory valuation report
+      const stockValue = this.getStockValueSql();
+
       // Get main stats
       let mainQuery = `
         SELECT 
-          SUM(cost * quantity) as total_value,
-          SUM(quantity) as total_items,
+          SUM(${stockValue}) as total_value,
+          SUM(p.quantity) as total_items,
           COUNT(*) as product_count,
-          SUM(CASE WHEN quantity <= min_stock THEN 1 ELSE 0 END) as low_stock_count
-        FROM products
+          SUM(CASE WHEN p.quantity <= p.min_stock AND ${this.STOCKED_PRODUCT_SQL} THEN 1 ELSE 0 END) as low_stock_count
+        FROM products p
       `;
 
       const params: any[] = [];
 
       if (categoryFilter && categoryFilter !== 'All') {
-        mainQuery += ' WHERE category_id = ?';
+        mainQuery += ' WHERE p.category_id = ?';
         params.push(categoryFilter);
       }
 
@@ -5704,7 +11644,7 @@ export class DatabaseService {
         const categoryQuery = `
           SELECT 
             c.name as category,
-            SUM(p.cost * p.quantity) as value,
+            SUM(${stockValue}) as value,
             SUM(p.quantity) as count,
             COUNT(p.id) as product_count
           FROM products p
@@ -5820,6 +11760,17 @@ export const initializeDatabase = async (
     }
 
     await service.seedInitialData();
+    await service.installSyncTriggers();
+
+    service.setDeviceId(await SyncSettingsService.getDeviceId());
+    service.setAllowNegativeStock(
+      await StockSettingsService.getAllowNegativeStock(),
+    );
+    await service.reconcileStockLedger();
+
+    service.setCostingMethod(await CostingSettingsService.getCostingMethod());
+    await service.reconcileCostLayers();
+
     return service;
   } catch (error) {
     console.error('Database initialization failed:', error);
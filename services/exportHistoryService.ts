@@ -0,0 +1,28 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ExportManifest } from '../utils/exportChain';
+
+/**
+ * Service for remembering the last export shared from the data export
+ * screen, which the next incremental export continues from. Local backups
+ * are not recorded, since the user never holds those files.
+ */
+export class ExportHistoryService {
+  private static readonly LAST_EXPORT_KEY = 'last_export_manifest';
+
+  static async getLastExport(): Promise<ExportManifest | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.LAST_EXPORT_KEY);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('Error reading last export:', error);
+    }
+
+    return null;
+  }
+
+  static async saveLastExport(manifest: ExportManifest): Promise<void> {
+    await AsyncStorage.setItem(this.LAST_EXPORT_KEY, JSON.stringify(manifest));
+  }
+}
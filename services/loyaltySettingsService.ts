@@ -0,0 +1,50 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LoyaltySettings } from '../utils/loyaltyUtils';
+
+/**
+ * Service for persisting the loyalty points program settings
+ */
+export class LoyaltySettingsService {
+  private static readonly LOYALTY_SETTINGS_KEY = 'loyalty_settings';
+  static readonly DEFAULT_SETTINGS: LoyaltySettings = {
+    enabled: false,
+    earnRate: 0.01, // 1 point per 100 spent
+    pointValue: 1,
+    expiryDays: 365,
+    tierMultipliers: { bronze: 1, silver: 1.25, gold: 1.5 },
+  };
+
+  /**
+   * Get the loyalty settings, filling anything missing with the defaults
+   */
+  static async getSettings(): Promise<LoyaltySettings> {
+    try {
+      const stored = await AsyncStorage.getItem(this.LOYALTY_SETTINGS_KEY);
+      if (stored) {
+        const settings = JSON.parse(stored) as Partial<LoyaltySettings>;
+        return {
+          ...this.DEFAULT_SETTINGS,
+          ...settings,
+          tierMultipliers: {
+            ...this.DEFAULT_SETTINGS.tierMultipliers,
+            ...settings.tierMultipliers,
+          },
+        };
+      }
+    } catch (error) {
+      console.error('Error reading loyalty settings:', error);
+    }
+
+    return this.DEFAULT_SETTINGS;
+  }
+
+  /**
+   * Save the loyalty settings
+   */
+  static async setSettings(settings: LoyaltySettings): Promise<void> {
+    await AsyncStorage.setItem(
+      this.LOYALTY_SETTINGS_KEY,
+      JSON.stringify(settings),
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import { ShopSettings } from '@/services/shopSettingsStorage';
+import { PrintJob, restoreJobs } from '@/utils/printQueue';
+
+/**
+ * Service for keeping print jobs on the device until the Bluetooth printer
+ * takes them. The queue is per device and is not synced or exported.
+ */
+export class PrintQueueService {
+  private static readonly STORAGE_KEY = 'print_queue';
+
+  /**
+   * Get the saved jobs, oldest first
+   */
+  static async getJobs(): Promise<PrintJob[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? restoreJobs(JSON.parse(stored)) : [];
+    } catch (error) {
+      console.error('Error reading print queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the jobs
+   */
+  static async saveJobs(jobs: PrintJob[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+      console.error('Error saving print queue:', error);
+    }
+  }
+
+  /**
+   * Send a job to the printer, connecting to the saved printer first if
+   * needed. Throws when the printer cannot be reached or the print fails.
+   */
+  static async printJob(
+    job: PrintJob,
+    shopSettings: ShopSettings | null,
+  ): Promise<void> {
+    const connected =
+      (await BluetoothPrinterService.isConnected()) ||
+      (await BluetoothPrinterService.autoConnect());
+    if (!connected) {
+      throw new Error('Printer not connected');
+    }
+
+    const { payload } = job;
+    switch (payload.type) {
+      case 'receipt':
+        await BluetoothPrinterService.printReceipt(
+          payload.receipt,
+          shopSettings,
+        );
+        break;
+      case 'shift_report':
+        await BluetoothPrinterService.printShiftReport(
+          payload.report,
+          shopSettings,
+        );
+        break;
+      case 'labels':
+        await BluetoothPrinterService.printLabels(
+          payload.labels,
+          payload.options,
+          shopSettings,
+        );
+        break;
+    }
+  }
+}
@@ -9,6 +9,11 @@ import {
   ShopSettingsInput,
   shopSettingsStorage,
 } from './shopSettingsStorage';
+import {
+  CHARS_PER_LINE_RANGE,
+  isValidCharsPerLine,
+} from '@/utils/printerProfiles';
+import { isValidUUID } from '@/utils/uuid';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -93,6 +98,15 @@ export class ShopSettingsService {
       fieldsToValidate.receiptFooter = updates.receiptFooter;
     if (updates.thankYouMessage !== undefined)
       fieldsToValidate.thankYouMessage = updates.thankYouMessage;
+    if (
+      updates.receiptQrMode !== undefined ||
+      updates.receiptQrValue !== undefined
+    ) {
+      fieldsToValidate.receiptQrMode = updates.receiptQrMode;
+      fieldsToValidate.receiptQrValue = updates.receiptQrValue;
+    }
+    if (updates.printerProfile !== undefined)
+      fieldsToValidate.printerProfile = updates.printerProfile;
 
     // Skip validation for non-essential updates (like currency changes)
     if (Object.keys(fieldsToValidate).length > 0 && !isNonEssentialUpdate) {
@@ -237,12 +251,35 @@ export class ShopSettingsService {
 
     // Receipt template validation (only validate if provided)
     if (settings.receiptTemplate !== undefined) {
+      // Custom templates are saved in the database under a UUID
       const validTemplates = ['classic', 'modern', 'minimal', 'elegant'];
-      if (!validTemplates.includes(settings.receiptTemplate)) {
+      if (
+        !validTemplates.includes(settings.receiptTemplate) &&
+        !isValidUUID(settings.receiptTemplate)
+      ) {
         errors.receiptTemplate = 'Please select a valid receipt template';
       }
     }
 
+    // Receipt QR code needs content when turned on
+    if (settings.receiptQrMode) {
+      const qrValue = settings.receiptQrValue?.trim() || '';
+      if (!qrValue) {
+        errors.receiptQrValue = 'QR code content is required';
+      } else if (qrValue.length > 300) {
+        errors.receiptQrValue =
+          'QR code content must be less than 300 characters';
+      }
+    }
+
+    // Printer profile: characters per line must suit a thermal roll
+    if (
+      settings.printerProfile &&
+      !isValidCharsPerLine(settings.printerProfile.charsPerLine)
+    ) {
+      errors.charsPerLine = `Characters per line must be between ${CHARS_PER_LINE_RANGE.min} and ${CHARS_PER_LINE_RANGE.max}`;
+    }
+
     return {
       isValid: Object.keys(errors).length === 0,
       errors,
@@ -349,8 +386,9 @@ export class ShopSettingsService {
     return this.templateEngine.getTemplate(templateId);
   }
 
+  // Takes a built-in template's id, or a custom template to preview edits
   async previewTemplate(
-    templateId: string,
+    template: string | ReceiptTemplate,
     shopSettings?: ShopSettings,
     fontSize?: 'small' | 'medium' | 'large' | 'extra-large'
   ): Promise<string> {
@@ -370,7 +408,7 @@ export class ShopSettingsService {
       }
 
       return await this.templateEngine.previewTemplate(
-        templateId,
+        template,
         settings,
         true,
         fontSize
@@ -382,7 +420,7 @@ export class ShopSettingsService {
       try {
         console.warn('Attempting template preview with default settings');
         return await this.templateEngine.previewTemplate(
-          templateId,
+          template,
           null,
           true,
           fontSize
@@ -1,5 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CurrencySettings } from './currencyManager';
+import type { PrinterProfile } from '@/utils/printerProfiles';
+import { isValidUUID } from '@/utils/uuid';
 
 // Enhanced ShopSettings interface with currency management
 export interface ShopSettings {
@@ -11,6 +13,9 @@ export interface ShopSettings {
   thankYouMessage?: string;
   receiptTemplate?: string;
   receiptFontSize?: 'small' | 'medium' | 'large' | 'extra-large'; // Font size for receipts
+  receiptQrMode?: 'voucher' | 'payment'; // QR code printed under the receipt footer
+  receiptQrValue?: string; // Voucher link with {voucherId}, or the payment QR content
+  printerProfile?: PrinterProfile; // Thermal printer paper, code page and cut
   currency?: CurrencySettings;
   customCurrencies?: CurrencySettings[]; // User-created custom currencies
   lastUpdated?: string;
@@ -25,6 +30,9 @@ export interface ShopSettingsInput {
   thankYouMessage?: string;
   receiptTemplate?: string;
   receiptFontSize?: 'small' | 'medium' | 'large' | 'extra-large'; // Font size for receipts
+  receiptQrMode?: 'voucher' | 'payment';
+  receiptQrValue?: string;
+  printerProfile?: PrinterProfile;
   currency?: CurrencySettings;
   customCurrencies?: CurrencySettings[];
 }
@@ -80,6 +88,9 @@ export class ShopSettingsStorage {
         thankYouMessage: settings.thankYouMessage?.trim() || undefined,
         receiptTemplate: settings.receiptTemplate || 'classic',
         receiptFontSize: settings.receiptFontSize || 'medium',
+        receiptQrMode: settings.receiptQrMode || undefined,
+        receiptQrValue: settings.receiptQrValue?.trim() || undefined,
+        printerProfile: settings.printerProfile || undefined,
         currency: settings.currency || undefined,
         customCurrencies: settings.customCurrencies || [],
         lastUpdated: new Date().toISOString(),
@@ -138,6 +149,19 @@ export class ShopSettingsStorage {
           updates.receiptFontSize ||
           currentSettings?.receiptFontSize ||
           'medium',
+        // Turning the QR code off sends the mode as undefined
+        receiptQrMode:
+          'receiptQrMode' in updates
+            ? updates.receiptQrMode
+            : currentSettings?.receiptQrMode,
+        receiptQrValue:
+          updates.receiptQrValue !== undefined
+            ? updates.receiptQrValue?.trim()
+            : currentSettings?.receiptQrValue,
+        printerProfile:
+          updates.printerProfile !== undefined
+            ? updates.printerProfile
+            : currentSettings?.printerProfile,
         currency:
           updates.currency !== undefined
             ? updates.currency
@@ -162,6 +186,7 @@ export class ShopSettingsStorage {
       'customCurrencies',
       'receiptTemplate',
       'receiptFontSize',
+      'printerProfile',
     ];
     const updateKeys = Object.keys(updates);
 
@@ -307,7 +332,10 @@ export class ShopSettingsStorage {
     // Receipt template validation
     if (settings.receiptTemplate !== undefined) {
       const validTemplates = ['classic', 'modern', 'minimal', 'elegant'];
-      if (!validTemplates.includes(settings.receiptTemplate)) {
+      if (
+        !validTemplates.includes(settings.receiptTemplate) &&
+        !isValidUUID(settings.receiptTemplate)
+      ) {
         errors.push('Please select a valid receipt template');
       }
     }
@@ -0,0 +1,32 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Service for persisting whether checkout may take stock below zero
+ */
+export class StockSettingsService {
+  private static readonly ALLOW_NEGATIVE_STOCK_KEY = 'allow_negative_stock';
+
+  /**
+   * Get whether negative stock is allowed, defaulting to blocked
+   */
+  static async getAllowNegativeStock(): Promise<boolean> {
+    try {
+      return (
+        (await AsyncStorage.getItem(this.ALLOW_NEGATIVE_STOCK_KEY)) === 'true'
+      );
+    } catch (error) {
+      console.error('Error reading negative stock setting:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Save whether negative stock is allowed
+   */
+  static async setAllowNegativeStock(allow: boolean): Promise<void> {
+    await AsyncStorage.setItem(
+      this.ALLOW_NEGATIVE_STOCK_KEY,
+      allow ? 'true' : 'false',
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import type { DatabaseService, SyncChange } from './database';
+import { SyncSettingsService } from './syncSettingsService';
+
+export interface SyncRunResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+}
+
+// The server could not be reached; changes stay in the outbox until it can
+export class SyncOfflineError extends Error {
+  constructor(message: string = 'Sync server is not reachable') {
+    super(message);
+    this.name = 'SyncOfflineError';
+  }
+}
+
+interface PushResponse {
+  accepted: number;
+  rejected: SyncChange[]; // The server's winning version of each rejected row
+}
+
+interface PullResponse {
+  changes: SyncChange[];
+  cursor: number;
+  has_more: boolean;
+}
+
+/**
+ * Pushes the outbox to the sync server and pulls changes made on other
+ * devices. See scripts/syncServer.js for a reference server.
+ */
+export class SyncService {
+  private static readonly BATCH_SIZE = 200;
+  private static readonly REQUEST_TIMEOUT = 15000; // 15 seconds
+
+  constructor(
+    private db: DatabaseService,
+    private serverUrl: string,
+  ) {}
+
+  private static async request<T>(
+    serverUrl: string,
+    path: string,
+    init?: RequestInit,
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      SyncService.REQUEST_TIMEOUT,
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(`${serverUrl.replace(/\/+$/, '')}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+      });
+    } catch {
+      // fetch only rejects when the request never got an answer
+      throw new SyncOfflineError();
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Sync server responded with ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  static async checkConnection(serverUrl: string): Promise<boolean> {
+    try {
+      await SyncService.request(serverUrl, '/health');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private request<T>(path: string, init?: RequestInit): Promise<T> {
+    return SyncService.request<T>(this.serverUrl, path, init);
+  }
+
+  async sync(): Promise<SyncRunResult> {
+    const deviceId = await SyncSettingsService.getDeviceId();
+    const result: SyncRunResult = { pushed: 0, pulled: 0, conflicts: 0 };
+
+    await this.db.queueAllRowsForSync();
+
+    // Push until the outbox is empty
+    while (true) {
+      const { changes, upToSeq } = await this.db.getPendingSyncChanges(
+        SyncService.BATCH_SIZE,
+      );
+      if (changes.length === 0) break;
+
+      const response = await this.request<PushResponse>('/sync/push', {
+        method: 'POST',
+        body: JSON.stringify({
+          device_id: deviceId,
+          changes: changes.map(({ seq, ...change }) => change),
+        }),
+      });
+
+      // Rows another device changed later replace the local edit
+      if (response.rejected.length > 0) {
+        const applied = await this.db.applyRemoteSyncChanges(
+          response.rejected,
+          deviceId,
+        );
+        result.conflicts += applied.conflicts;
+      }
+      await this.db.acknowledgeSyncChanges(upToSeq);
+      result.pushed += response.accepted;
+    }
+
+    // Pull everything the server received since the last run
+    let cursor = Number((await this.db.getSyncState('pull_cursor')) || 0);
+    while (true) {
+      const response = await this.request<PullResponse>(
+        `/sync/pull?since=${cursor}&device_id=${encodeURIComponent(
+          deviceId,
+        )}&limit=${SyncService.BATCH_SIZE}`,
+      );
+
+      const applied = await this.db.applyRemoteSyncChanges(
+        response.changes,
+        deviceId,
+      );
+      result.pulled += applied.applied;
+      result.conflicts += applied.conflicts;
+
+      cursor = response.cursor;
+      await this.db.setSyncState('pull_cursor', String(cursor));
+      if (!response.has_more) break;
+    }
+
+    await this.db.setSyncState('last_synced_at', new Date().toISOString());
+    return result;
+  }
+}
@@ -0,0 +1,56 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateUUID } from '../utils/uuid';
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  intervalMinutes: number;
+}
+
+/**
+ * Service for persisting the sync server settings and this device's id
+ */
+export class SyncSettingsService {
+  private static readonly SETTINGS_KEY = 'sync_settings';
+  private static readonly DEVICE_ID_KEY = 'sync_device_id';
+  private static readonly DEFAULT_SETTINGS: SyncSettings = {
+    enabled: false,
+    serverUrl: '',
+    intervalMinutes: 5,
+  };
+
+  /**
+   * Get the sync settings, filling in defaults for anything not saved
+   */
+  static async getSettings(): Promise<SyncSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(this.SETTINGS_KEY);
+      if (stored) {
+        return { ...this.DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Error reading sync settings:', error);
+    }
+
+    return this.DEFAULT_SETTINGS;
+  }
+
+  /**
+   * Save the sync settings
+   */
+  static async saveSettings(settings: SyncSettings): Promise<void> {
+    await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  /**
+   * Get the id this device signs its changes with, creating it on first use
+   */
+  static async getDeviceId(): Promise<string> {
+    const existing = await AsyncStorage.getItem(this.DEVICE_ID_KEY);
+    if (existing) return existing;
+
+    const deviceId = generateUUID();
+    await AsyncStorage.setItem(this.DEVICE_ID_KEY, deviceId);
+    return deviceId;
+  }
+}
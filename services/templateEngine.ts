@@ -1,6 +1,14 @@
 import { ShopSettings } from './shopSettingsStorage';
 import * as FileSystem from 'expo-file-system';
 import { readAsStringAsync } from 'expo-file-system/legacy';
+import type { TaxBreakdownLine } from '../utils/taxUtils';
+import type { CustomReceiptTemplate } from './database';
+import {
+  renderTemplate,
+  TemplateFormatters,
+  TemplateHtml,
+  TemplateScope,
+} from '../utils/receiptTemplateLanguage';
 
 export interface ReceiptTemplate {
   id: string;
@@ -8,8 +16,20 @@ export interface ReceiptTemplate {
   description: string;
   htmlTemplate: string;
   cssStyles: string;
+  isCustom?: boolean; // Written by the shop in the placeholder language
 }
 
+export const toReceiptTemplate = (
+  template: CustomReceiptTemplate,
+): ReceiptTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || '',
+  htmlTemplate: template.html_template,
+  cssStyles: template.css_styles,
+  isCustom: true,
+});
+
 export interface ReceiptData {
   saleId: string;
   items: Array<{
@@ -26,6 +46,30 @@ export interface ReceiptData {
   paymentMethod: string;
   note?: string;
   date: Date;
+  promotions?: Array<{
+    name: string;
+    discount: number;
+  }>;
+  orderDiscount?: {
+    label: string;
+    amount: number;
+  };
+  loyalty?: {
+    pointsRedeemed: number;
+    discount: number; // Points taken off before tax
+    payment: number; // Points paid towards the total
+    pointsEarned: number;
+    balance: number; // After this sale
+  };
+  taxBreakdown?: TaxBreakdownLine[];
+  creditNote?: {
+    originalReceiptId: string;
+    reason?: string;
+  };
+  customer?: {
+    name: string;
+    debtBalance?: number;
+  };
 }
 
 export interface TemplateContext {
@@ -154,113 +198,30 @@ export class TemplateEngine {
     }
   }
 
-  // Render receipt with template
+  // Render receipt with a built-in template by id, or a custom template
   async renderReceipt(
-    templateId: string,
+    templateOrId: string | ReceiptTemplate,
     context: TemplateContext,
     isPreview: boolean = false,
   ): Promise<string> {
-    const template = this.getTemplate(templateId);
+    const template =
+      typeof templateOrId === 'string'
+        ? this.getTemplate(templateOrId)
+        : templateOrId;
     if (!template) {
-      throw new Error(`Template not found: ${templateId}`);
+      throw new Error(`Template not found: ${templateOrId}`);
     }
 
     try {
-      // Compile template with context
-      let html = template.htmlTemplate;
-
-      // Replace shop information
-      if (context.shopSettings) {
-        html = html.replace(
-          /{{shopName}}/g,
-          context.shopSettings.shopName || '',
-        );
-        html = html.replace(/{{address}}/g, context.shopSettings.address || '');
-        html = html.replace(/{{phone}}/g, context.shopSettings.phone || '');
-        html = html.replace(
-          /{{receiptFooter}}/g,
-          context.shopSettings.receiptFooter || '',
-        );
-        html = html.replace(
-          /{{thankYouMessage}}/g,
-          context.shopSettings.thankYouMessage || '',
-        );
-
-        // Handle logo - convert to base64 for PDF compatibility
-        if (context.shopSettings.logoPath) {
-          const logoBase64 = await this.convertImageToBase64(
-            context.shopSettings.logoPath,
-          );
-          if (logoBase64) {
-            html = html.replace(/{{logoSrc}}/g, logoBase64);
-            html = html.replace(/{{showLogo}}/g, 'block');
-          } else {
-            // If conversion fails, hide logo
-            html = html.replace(/{{logoSrc}}/g, '');
-            html = html.replace(/{{showLogo}}/g, 'none');
-          }
-        } else {
-          html = html.replace(/{{logoSrc}}/g, '');
-          html = html.replace(/{{showLogo}}/g, 'none');
-        }
-      } else {
-        // No shop settings - use defaults
-        html = html.replace(/{{shopName}}/g, 'Mobile POS');
-        html = html.replace(/{{address}}/g, '');
-        html = html.replace(/{{phone}}/g, '');
-        html = html.replace(
-          /{{receiptFooter}}/g,
-          'Thank you for your business!',
-        );
-        html = html.replace(/{{thankYouMessage}}/g, '');
-        html = html.replace(/{{logoSrc}}/g, '');
-        html = html.replace(/{{showLogo}}/g, 'none');
-      }
-
-      // Replace receipt data
-      html = html.replace(/{{saleId}}/g, context.receiptData.saleId);
-      html = html.replace(
-        /{{date}}/g,
-        context.formatters.formatDate(context.receiptData.date),
-      );
-      html = html.replace(
-        /{{paymentMethod}}/g,
-        context.receiptData.paymentMethod.toUpperCase(),
-      );
-      html = html.replace(
-        /{{total}}/g,
-        context.formatters.formatMMK(context.receiptData.total),
-      );
-      html = html.replace(/{{note}}/g, context.receiptData.note || '');
-
-      // Replace items
-      const itemsHtml = context.receiptData.items
-        .map(
-          (item) => `
-        <div class="item">
-          <div class="item-name">${item.product.name}</div>
-          <div class="item-details">
-            <span>${item.quantity} x ${context.formatters.formatMMK(
-              item.product.price,
-            )}</span>
-            <span>${context.formatters.formatMMK(item.subtotal)}</span>
-          </div>
-          ${
-            item.discount > 0
-              ? `
-            <div class="item-details discount">
-              <span>Discount</span>
-              <span>-${context.formatters.formatMMK(item.discount)}</span>
-            </div>
-          `
-              : ''
-          }
-        </div>
-      `,
-        )
-        .join('');
-
-      html = html.replace(/{{items}}/g, itemsHtml);
+      // Custom templates go through the placeholder language, which
+      // escapes values; the built-in ones use plain replacement
+      const html = template.isCustom
+        ? renderTemplate(
+            template.htmlTemplate,
+            await this.buildTemplateScope(context),
+            this.getTemplateFormatters(context),
+          )
+        : await this.fillBuiltInTemplate(template.htmlTemplate, context);
 
       // Calculate dynamic page height based on number of items and font size
       const itemCount = context.receiptData.items.length;
@@ -309,9 +270,198 @@ export class TemplateEngine {
     }
   }
 
+  // Fill a built-in template's placeholders
+  private async fillBuiltInTemplate(
+    html: string,
+    context: TemplateContext,
+  ): Promise<string> {
+    // Replace shop information
+    if (context.shopSettings) {
+      html = html.replace(/{{shopName}}/g, context.shopSettings.shopName || '');
+      html = html.replace(/{{address}}/g, context.shopSettings.address || '');
+      html = html.replace(/{{phone}}/g, context.shopSettings.phone || '');
+      html = html.replace(
+        /{{receiptFooter}}/g,
+        context.shopSettings.receiptFooter || '',
+      );
+      html = html.replace(
+        /{{thankYouMessage}}/g,
+        context.shopSettings.thankYouMessage || '',
+      );
+
+      // Handle logo - convert to base64 for PDF compatibility
+      if (context.shopSettings.logoPath) {
+        const logoBase64 = await this.convertImageToBase64(
+          context.shopSettings.logoPath,
+        );
+        if (logoBase64) {
+          html = html.replace(/{{logoSrc}}/g, logoBase64);
+          html = html.replace(/{{showLogo}}/g, 'block');
+        } else {
+          // If conversion fails, hide logo
+          html = html.replace(/{{logoSrc}}/g, '');
+          html = html.replace(/{{showLogo}}/g, 'none');
+        }
+      } else {
+        html = html.replace(/{{logoSrc}}/g, '');
+        html = html.replace(/{{showLogo}}/g, 'none');
+      }
+    } else {
+      // No shop settings - use defaults
+      html = html.replace(/{{shopName}}/g, 'Mobile POS');
+      html = html.replace(/{{address}}/g, '');
+      html = html.replace(/{{phone}}/g, '');
+      html = html.replace(/{{receiptFooter}}/g, 'Thank you for your business!');
+      html = html.replace(/{{thankYouMessage}}/g, '');
+      html = html.replace(/{{logoSrc}}/g, '');
+      html = html.replace(/{{showLogo}}/g, 'none');
+    }
+
+    // Replace receipt data
+    html = html.replace(/{{saleId}}/g, context.receiptData.saleId);
+    html = html.replace(
+      /{{date}}/g,
+      context.formatters.formatDate(context.receiptData.date),
+    );
+    html = html.replace(
+      /{{paymentMethod}}/g,
+      context.receiptData.paymentMethod.toUpperCase(),
+    );
+    html = html.replace(
+      /{{total}}/g,
+      context.formatters.formatMMK(context.receiptData.total),
+    );
+    html = html.replace(/{{note}}/g, context.receiptData.note || '');
+
+    // Credit receipts for returns get a banner and a refund total label
+    const { creditNote } = context.receiptData;
+    html = html.replace(
+      /{{creditNoteBanner}}/g,
+      creditNote ? this.renderCreditNoteBanner(creditNote, context) : '',
+    );
+    html = html.replace(
+      /{{totalLabel}}/g,
+      creditNote ? context.translations.refundTotal || 'REFUND' : 'TOTAL',
+    );
+
+    // Promotion and order discounts come before tax, so templates only
+    // need one slot
+    html = html.replace(
+      /{{taxLines}}/g,
+      this.renderPromotionLines(context.receiptData.promotions, context) +
+        this.renderOrderDiscountLine(
+          context.receiptData.orderDiscount,
+          context,
+        ) +
+        this.renderLoyaltyDiscountLine(context.receiptData.loyalty, context) +
+        this.renderTaxLines(context.receiptData.taxBreakdown, context),
+    );
+    html = html.replace(
+      /{{loyaltyLines}}/g,
+      this.renderLoyaltyLines(context.receiptData, context),
+    );
+
+    // Replace items
+    const itemsHtml = context.receiptData.items
+      .map(
+        (item) => `
+      <div class="item">
+        <div class="item-name">${item.product.name}</div>
+        <div class="item-details">
+          <span>${item.quantity} x ${context.formatters.formatMMK(
+            item.product.price,
+          )}</span>
+          <span>${context.formatters.formatMMK(item.subtotal)}</span>
+        </div>
+        ${
+          item.discount > 0
+            ? `
+          <div class="item-details discount">
+            <span>Discount</span>
+            <span>-${context.formatters.formatMMK(item.discount)}</span>
+          </div>
+        `
+            : ''
+        }
+      </div>
+    `,
+      )
+      .join('');
+
+    html = html.replace(/{{items}}/g, itemsHtml);
+
+    return html;
+  }
+
+  // Values a custom template can use; see RECEIPT_TEMPLATE_FIELDS
+  private async buildTemplateScope(
+    context: TemplateContext,
+  ): Promise<TemplateScope> {
+    const { shopSettings, receiptData, translations } = context;
+    const { creditNote, customer, orderDiscount } = receiptData;
+
+    return {
+      shopName: shopSettings ? shopSettings.shopName || '' : 'Mobile POS',
+      address: shopSettings?.address || '',
+      phone: shopSettings?.phone || '',
+      logoSrc: shopSettings?.logoPath
+        ? await this.convertImageToBase64(shopSettings.logoPath)
+        : '',
+      thankYouMessage: shopSettings?.thankYouMessage || '',
+      receiptFooter: shopSettings
+        ? shopSettings.receiptFooter || ''
+        : 'Thank you for your business!',
+      saleId: receiptData.saleId,
+      date: receiptData.date,
+      paymentMethod: receiptData.paymentMethod,
+      customerName: customer?.name || '',
+      customerBalance: customer?.debtBalance || 0,
+      note: receiptData.note || '',
+      items: receiptData.items.map((item) => ({
+        name: item.product.name,
+        quantity: item.quantity,
+        price: item.product.price,
+        discount: item.discount,
+        subtotal: item.subtotal,
+      })),
+      discount: orderDiscount?.amount || 0,
+      discountLabel:
+        orderDiscount?.label || translations.discount || 'Discount',
+      total: receiptData.total,
+      totalLabel: creditNote
+        ? translations.refundTotal || 'REFUND'
+        : translations.total || 'TOTAL',
+      // The order discount has its own placeholders, so it is left out here
+      taxLines: new TemplateHtml(
+        this.renderPromotionLines(receiptData.promotions, context) +
+          this.renderLoyaltyDiscountLine(receiptData.loyalty, context) +
+          this.renderTaxLines(receiptData.taxBreakdown, context),
+      ),
+      loyaltyLines: new TemplateHtml(
+        this.renderLoyaltyLines(receiptData, context),
+      ),
+      creditNoteBanner: new TemplateHtml(
+        creditNote ? this.renderCreditNoteBanner(creditNote, context) : '',
+      ),
+    };
+  }
+
+  private getTemplateFormatters(context: TemplateContext): TemplateFormatters {
+    return {
+      currency: (value) => context.formatters.formatMMK(Number(value)),
+      date: (value) => context.formatters.formatDate(new Date(value)),
+      time: (value) =>
+        new Date(value).toLocaleTimeString('en-US', {
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+      upper: (value) => String(value).toUpperCase(),
+    };
+  }
+
   // Preview template with sample data
   async previewTemplate(
-    templateId: string,
+    templateOrId: string | ReceiptTemplate,
     shopSettings: ShopSettings | null,
     isPreview: boolean = true,
     fontSize?: 'small' | 'medium' | 'large' | 'extra-large',
@@ -348,6 +498,7 @@ export class TemplateEngine {
       paymentMethod: 'CASH',
       note: 'Thank you for shopping with us!',
       date: new Date(),
+      customer: { name: 'Daw Aye Aye' }, // Only custom templates show it
     };
 
     const context = this.buildTemplateContext(
@@ -356,7 +507,149 @@ export class TemplateEngine {
       {},
       fontSize,
     );
-    return this.renderReceipt(templateId, context, isPreview);
+    return this.renderReceipt(templateOrId, context, isPreview);
+  }
+
+  private renderPromotionLines(
+    promotions: ReceiptData['promotions'],
+    context: TemplateContext,
+  ): string {
+    if (!promotions || promotions.length === 0) {
+      return '';
+    }
+
+    return promotions
+      .map(
+        (promotion) => `
+      <div class="promotion-line" style="display: flex; justify-content: space-between;">
+        <span>${promotion.name}</span>
+        <span>-${context.formatters.formatMMK(promotion.discount)}</span>
+      </div>
+    `,
+      )
+      .join('');
+  }
+
+  private renderOrderDiscountLine(
+    orderDiscount: ReceiptData['orderDiscount'],
+    context: TemplateContext,
+  ): string {
+    if (!orderDiscount || orderDiscount.amount <= 0) {
+      return '';
+    }
+
+    return `
+      <div class="order-discount-line" style="display: flex; justify-content: space-between;">
+        <span>${orderDiscount.label}</span>
+        <span>-${context.formatters.formatMMK(orderDiscount.amount)}</span>
+      </div>
+    `;
+  }
+
+  private renderLoyaltyDiscountLine(
+    loyalty: ReceiptData['loyalty'],
+    context: TemplateContext,
+  ): string {
+    if (!loyalty || loyalty.discount <= 0) {
+      return '';
+    }
+
+    const label = context.translations.loyaltyPoints || 'Points';
+
+    return `
+      <div class="loyalty-discount-line" style="display: flex; justify-content: space-between;">
+        <span>${label} (${loyalty.pointsRedeemed})</span>
+        <span>-${context.formatters.formatMMK(loyalty.discount)}</span>
+      </div>
+    `;
+  }
+
+  // Points paid and the customer's balance, shown under the total
+  private renderLoyaltyLines(
+    receiptData: ReceiptData,
+    context: TemplateContext,
+  ): string {
+    const { loyalty } = receiptData;
+    if (!loyalty) {
+      return '';
+    }
+
+    const line = (label: string, value: string) => `
+      <div class="loyalty-line" style="display: flex; justify-content: space-between;">
+        <span>${label}</span>
+        <span>${value}</span>
+      </div>
+    `;
+
+    let html = '';
+    if (loyalty.payment > 0) {
+      html +=
+        line(
+          `${context.translations.paidWithPoints || 'Paid with points'} (${loyalty.pointsRedeemed})`,
+          `-${context.formatters.formatMMK(loyalty.payment)}`,
+        ) +
+        line(
+          context.translations.amountDue || 'Amount due',
+          context.formatters.formatMMK(receiptData.total - loyalty.payment),
+        );
+    }
+    html +=
+      line(
+        context.translations.pointsEarned || 'Points earned',
+        String(loyalty.pointsEarned),
+      ) +
+      line(
+        context.translations.pointsBalance || 'Points balance',
+        String(loyalty.balance),
+      );
+
+    return html;
+  }
+
+  private renderTaxLines(
+    taxBreakdown: ReceiptData['taxBreakdown'],
+    context: TemplateContext,
+  ): string {
+    if (!taxBreakdown || taxBreakdown.length === 0) {
+      return '';
+    }
+
+    const includedLabel = context.translations.taxIncluded || 'incl.';
+
+    return taxBreakdown
+      .map(
+        (taxLine) => `
+      <div class="tax-line" style="display: flex; justify-content: space-between;">
+        <span>${taxLine.name} (${taxLine.rate}%${
+          taxLine.inclusive ? ` ${includedLabel}` : ''
+        })</span>
+        <span>${context.formatters.formatMMK(taxLine.amount)}</span>
+      </div>
+    `,
+      )
+      .join('');
+  }
+
+  private renderCreditNoteBanner(
+    creditNote: NonNullable<ReceiptData['creditNote']>,
+    context: TemplateContext,
+  ): string {
+    const title = context.translations.creditNote || 'CREDIT NOTE';
+    const originalLabel =
+      context.translations.originalReceipt || 'Original Receipt';
+    const reasonLabel = context.translations.returnReason || 'Reason';
+
+    return `
+      <div class="credit-note" style="text-align: center; border: 2px solid #000; padding: 6px; margin: 8px 0;">
+        <div style="font-weight: bold;">${title}</div>
+        <div>${originalLabel}: #${creditNote.originalReceiptId}</div>
+        ${
+          creditNote.reason
+            ? `<div>${reasonLabel}: ${creditNote.reason}</div>`
+            : ''
+        }
+      </div>
+    `;
   }
 
   // Get font size multiplier based on setting
@@ -584,6 +877,8 @@ export class TemplateEngine {
                 <div class="shop-phone">{{phone}}</div>
               </div>
               
+              {{creditNoteBanner}}
+              
               <div class="divider"></div>
               
               <div class="receipt-info">
@@ -610,10 +905,12 @@ export class TemplateEngine {
               <div class="divider"></div>
               
               <div class="total">
+                {{taxLines}}
                 <div class="total-line">
-                  <span>TOTAL</span>
+                  <span>{{totalLabel}}</span>
                   <span>{{total}}</span>
                 </div>
+                {{loyaltyLines}}
               </div>
               
               <div class="footer">
@@ -841,6 +1138,8 @@ export class TemplateEngine {
                 <p class="shop-phone">{{phone}}</p>
               </div>
               
+              {{creditNoteBanner}}
+              
               <div class="receipt-info">
                 <div class="info-grid">
                   <div class="info-item">
@@ -866,10 +1165,12 @@ export class TemplateEngine {
               </div>
               
               <div class="total-section">
+                {{taxLines}}
                 <div class="total-line">
-                  <span class="total-label">TOTAL</span>
+                  <span class="total-label">{{totalLabel}}</span>
                   <span class="total-amount">{{total}}</span>
                 </div>
+                {{loyaltyLines}}
               </div>
               
               <div class="footer">
@@ -1111,6 +1412,8 @@ export class TemplateEngine {
                 <div class="contact">{{address}} • {{phone}}</div>
               </div>
               
+              {{creditNoteBanner}}
+              
               <div class="meta">
                 #{{saleId}} • {{date}} • {{paymentMethod}}
               </div>
@@ -1119,7 +1422,9 @@ export class TemplateEngine {
                 {{items}}
               </div>
               
+              {{taxLines}}
               <div class="total">{{total}}</div>
+              {{loyaltyLines}}
               
               <div class="footer">
                 <div>{{thankYouMessage}}</div>
@@ -1307,6 +1612,8 @@ export class TemplateEngine {
                 </div>
               </div>
               
+              {{creditNoteBanner}}
+              
               <div class="receipt-details">
                 <table class="info-table">
                   <tr><td>Receipt Number</td><td>{{saleId}}</td></tr>
@@ -1323,10 +1630,12 @@ export class TemplateEngine {
               </div>
               
               <div class="total-section">
+                {{taxLines}}
                 <div class="total-row">
                   <span class="total-label">Total Amount</span>
                   <span class="total-value">{{total}}</span>
                 </div>
+                {{loyaltyLines}}
               </div>
               
               <div class="footer">
@@ -360,6 +360,57 @@ export class ValidationService {
     };
   }
 
+  // Validate supplier data
+  validateSupplierData(supplier: any): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    // Name validation
+    if (
+      !supplier.name ||
+      typeof supplier.name !== 'string' ||
+      supplier.name.trim().length === 0
+    ) {
+      errors.push({
+        field: 'name',
+        message: 'Supplier name is required and must be a non-empty string',
+        code: 'REQUIRED_FIELD',
+        severity: 'error',
+      });
+    }
+
+    // Phone validation (if provided)
+    if (supplier.phone && typeof supplier.phone === 'string') {
+      const phoneRegex = /^[\+]?[0-9\-\(\)\s]+$/;
+      if (!phoneRegex.test(supplier.phone)) {
+        warnings.push({
+          field: 'phone',
+          message: 'Phone number format may be invalid',
+          code: 'INVALID_PHONE_FORMAT',
+        });
+      }
+    }
+
+    // Email validation (if provided)
+    if (supplier.email && typeof supplier.email === 'string') {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(supplier.email)) {
+        errors.push({
+          field: 'email',
+          message: 'Invalid email format',
+          code: 'INVALID_EMAIL',
+          severity: 'error',
+        });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
   // Validate expense data
   validateExpenseData(expense: any): ValidationResult {
     const errors: ValidationError[] = [];
@@ -0,0 +1,76 @@
+import type { CurrencySettings } from '@/services/currencyManager';
+
+/**
+ * CSV helpers for the accountant report exports
+ */
+
+export type CsvCell = string | number | null | undefined;
+
+export type DebtAgingBucket =
+  'current' | 'days_31_60' | 'days_61_90' | 'over_90';
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Negative amounts from formatCsvAmount, which are left as they are
+const NEGATIVE_AMOUNT = /^-\d[\d.,]*$/;
+
+const escapeCell = (cell: CsvCell): string => {
+  if (cell === null || cell === undefined) return '';
+
+  let text = String(cell);
+  if (
+    typeof cell === 'string' &&
+    FORMULA_PREFIX.test(text) &&
+    !NEGATIVE_AMOUNT.test(text)
+  ) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Join rows into CSV text with CRLF line endings, quoting cells that hold
+ * commas, quotes or line breaks
+ */
+export const toCsv = (rows: CsvCell[][]): string =>
+  rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Amount for a CSV cell. Raw numbers use a plain dot decimal so spreadsheets
+ * read them as numbers; otherwise the shop's separators are applied. Both
+ * are rounded to the currency's decimals and carry no symbol.
+ */
+export const formatCsvAmount = (
+  amount: number,
+  currency: Pick<
+    CurrencySettings,
+    'decimals' | 'thousandSeparator' | 'decimalSeparator'
+  >,
+  rawNumbers: boolean,
+): string => {
+  const value = Number.isFinite(amount) ? amount : 0;
+  const fixed = Math.abs(value).toFixed(currency.decimals);
+  const sign = value < 0 && Number(fixed) !== 0 ? '-' : '';
+  if (rawNumbers) {
+    return `${sign}${fixed}`;
+  }
+
+  const [whole, fraction] = fixed.split('.');
+  const grouped = whole.replace(
+    /\B(?=(\d{3})+(?!\d))/g,
+    currency.thousandSeparator,
+  );
+  return fraction !== undefined
+    ? `${sign}${grouped}${currency.decimalSeparator}${fraction}`
+    : `${sign}${grouped}`;
+};
+
+// Days past the sale date -> aging column
+export const getDebtAgingBucket = (
+  daysOutstanding: number,
+): DebtAgingBucket => {
+  if (daysOutstanding <= 30) return 'current';
+  if (daysOutstanding <= 60) return 'days_31_60';
+  if (daysOutstanding <= 90) return 'days_61_90';
+  return 'over_90';
+};
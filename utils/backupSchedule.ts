@@ -0,0 +1,56 @@
+/**
+ * What made a backup.
+ * - daily: the daily backup taken at closing time
+ * - sales: taken after the configured number of sales
+ * - manual: tapped on the backups screen
+ * - pre_restore: the safety snapshot taken just before a restore
+ */
+export type BackupTrigger = 'daily' | 'sales' | 'manual' | 'pre_restore';
+
+export interface BackupSchedule {
+  dailyAtClose: boolean;
+  closeTime: string; // HH:MM in local time
+  everySales: number; // 0 turns sale-count backups off
+}
+
+export const isValidCloseTime = (value: string): boolean =>
+  /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+/**
+ * The latest closing time that is not after now, in local time.
+ * Before today's closing time this is yesterday's.
+ */
+export const getLastCloseTime = (closeTime: string, now: Date): Date => {
+  const [hours, minutes] = closeTime.split(':').map(Number);
+  const close = new Date(now);
+  close.setHours(hours, minutes, 0, 0);
+  if (close > now) {
+    close.setDate(close.getDate() - 1);
+  }
+  return close;
+};
+
+/**
+ * Work out which scheduled backup is due, if any. A daily backup is due once
+ * closing time has passed since the last one, so a day the app was closed at
+ * closing time is caught up the next time it runs.
+ */
+export const getDueBackupTrigger = (
+  schedule: BackupSchedule,
+  lastDailyAt: Date | null,
+  salesSinceLastBackup: number,
+  now: Date = new Date(),
+): BackupTrigger | null => {
+  if (schedule.dailyAtClose && isValidCloseTime(schedule.closeTime)) {
+    const lastClose = getLastCloseTime(schedule.closeTime, now);
+    if (!lastDailyAt || lastDailyAt < lastClose) {
+      return 'daily';
+    }
+  }
+
+  if (schedule.everySales > 0 && salesSinceLastBackup >= schedule.everySales) {
+    return 'sales';
+  }
+
+  return null;
+};
@@ -0,0 +1,258 @@
+export type BarcodeFormat = 'EAN13' | 'CODE128';
+
+/**
+ * GS1 keeps prefixes 200-299 for numbers a shop assigns itself, so codes
+ * generated here never clash with a manufacturer barcode.
+ */
+export const INTERNAL_BARCODE_PREFIX = '200';
+const INTERNAL_SEQUENCE_LENGTH = 9;
+
+// EAN-13 left-hand "L" patterns; "R" is the inverse and "G" is "R" reversed
+const EAN_L_PATTERNS = [
+  '0001101',
+  '0011001',
+  '0010011',
+  '0111101',
+  '0100011',
+  '0110001',
+  '0101111',
+  '0111011',
+  '0110111',
+  '0001011',
+];
+
+// Which left-hand digits use the "G" set, chosen by the first digit
+const EAN_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// Code 128 bar/space widths by symbol value; 104 is Start B, 106 is Stop
+const CODE128_PATTERNS = [
+  '212222',
+  '222122',
+  '222221',
+  '121223',
+  '121322',
+  '131222',
+  '122213',
+  '122312',
+  '132212',
+  '221213',
+  '221312',
+  '231212',
+  '112232',
+  '122132',
+  '122231',
+  '113222',
+  '123122',
+  '123221',
+  '223211',
+  '221132',
+  '221231',
+  '213212',
+  '223112',
+  '312131',
+  '311222',
+  '321122',
+  '321221',
+  '312212',
+  '322112',
+  '322211',
+  '212123',
+  '212321',
+  '232121',
+  '111323',
+  '131123',
+  '131321',
+  '112313',
+  '132113',
+  '132311',
+  '211313',
+  '231113',
+  '231311',
+  '112133',
+  '112331',
+  '132131',
+  '113123',
+  '113321',
+  '133121',
+  '313121',
+  '211331',
+  '231131',
+  '213113',
+  '213311',
+  '213131',
+  '311123',
+  '311321',
+  '331121',
+  '312113',
+  '312311',
+  '332111',
+  '314111',
+  '221411',
+  '431111',
+  '111224',
+  '111422',
+  '121124',
+  '121421',
+  '141122',
+  '141221',
+  '112214',
+  '112412',
+  '122114',
+  '122411',
+  '142112',
+  '142211',
+  '241211',
+  '221114',
+  '413111',
+  '241112',
+  '134111',
+  '111242',
+  '121142',
+  '121241',
+  '114212',
+  '124112',
+  '124211',
+  '411212',
+  '421112',
+  '421211',
+  '212141',
+  '214121',
+  '412121',
+  '111143',
+  '111341',
+  '131141',
+  '114113',
+  '114311',
+  '411113',
+  '411311',
+  '113141',
+  '114131',
+  '311141',
+  '411131',
+  '211412',
+  '211214',
+  '211232',
+  '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+const invertModules = (modules: string): string =>
+  modules.replace(/[01]/g, (bit) => (bit === '1' ? '0' : '1'));
+
+/**
+ * Check digit for the first 12 digits of an EAN-13
+ */
+export const calculateEan13CheckDigit = (digits: string): number => {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce(
+      (total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1),
+      0,
+    );
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+  /^\d{13}$/.test(code) && calculateEan13CheckDigit(code) === Number(code[12]);
+
+// Code set B covers printable ASCII, which is what barcodes are typed as
+export const isCode128Encodable = (code: string): boolean =>
+  code.length > 0 && /^[\x20-\x7E]+$/.test(code);
+
+/**
+ * Valid EAN-13s print as EAN-13 so they scan like a retail barcode; any
+ * other code, such as a supplier's alphanumeric SKU, prints as Code 128.
+ */
+export const getBarcodeFormat = (code: string): BarcodeFormat | null => {
+  if (isValidEan13(code)) return 'EAN13';
+  if (isCode128Encodable(code)) return 'CODE128';
+  return null;
+};
+
+export const isInternalBarcode = (code: string): boolean =>
+  code.startsWith(INTERNAL_BARCODE_PREFIX) && isValidEan13(code);
+
+/**
+ * EAN-13 for the nth internally assigned barcode
+ */
+export const buildInternalBarcode = (sequence: number): string => {
+  const digits =
+    INTERNAL_BARCODE_PREFIX +
+    String(sequence).padStart(INTERNAL_SEQUENCE_LENGTH, '0');
+  return digits + calculateEan13CheckDigit(digits);
+};
+
+/**
+ * Next internal barcode after the ones already in use
+ */
+export const getNextInternalBarcode = (existing: string[]): string => {
+  const highest = existing
+    .filter(isInternalBarcode)
+    .reduce(
+      (max, code) =>
+        Math.max(max, Number(code.slice(INTERNAL_BARCODE_PREFIX.length, 12))),
+      0,
+    );
+  return buildInternalBarcode(highest + 1);
+};
+
+/**
+ * EAN-13 as a string of 95 modules, "1" for a bar and "0" for a space
+ */
+export const encodeEan13 = (code: string): string => {
+  const parity = EAN_PARITY[Number(code[0])];
+  const left = code
+    .slice(1, 7)
+    .split('')
+    .map((digit, index) => {
+      const pattern = EAN_L_PATTERNS[Number(digit)];
+      return parity[index] === 'L'
+        ? pattern
+        : invertModules(pattern).split('').reverse().join('');
+    })
+    .join('');
+  const right = code
+    .slice(7, 13)
+    .split('')
+    .map((digit) => invertModules(EAN_L_PATTERNS[Number(digit)]))
+    .join('');
+
+  return `101${left}01010${right}101`;
+};
+
+/**
+ * Code 128 (set B) as a string of modules, including the check symbol
+ */
+export const encodeCode128 = (code: string): string => {
+  const values = code.split('').map((char) => char.charCodeAt(0) - 32);
+  const checksum =
+    values.reduce(
+      (sum, value, index) => sum + value * (index + 1),
+      CODE128_START_B,
+    ) % 103;
+
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .map((value) =>
+      CODE128_PATTERNS[value]
+        .split('')
+        .map((width, index) => (index % 2 ? '0' : '1').repeat(Number(width)))
+        .join(''),
+    )
+    .join('');
+};
+
+export const encodeBarcode = (code: string, format: BarcodeFormat): string =>
+  format === 'EAN13' ? encodeEan13(code) : encodeCode128(code);
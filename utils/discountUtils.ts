@@ -0,0 +1,107 @@
+import type { Coupon } from '@/services/database';
+
+export type OrderDiscountType = 'percent' | 'fixed';
+
+/**
+ * A discount on the whole order, entered at checkout or from a coupon. Only
+ * one applies per sale; applying a coupon replaces a manual discount.
+ */
+export interface OrderDiscount {
+  type: OrderDiscountType;
+  value: number; // Percent for 'percent', amount for 'fixed'
+  reason?: string;
+  coupon?: { id: string; code: string };
+}
+
+export type CouponErrorCode =
+  'not_found' | 'inactive' | 'expired' | 'used_up' | 'below_minimum';
+
+export class CouponError extends Error {
+  constructor(
+    message: string,
+    public code: CouponErrorCode,
+  ) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Codes are matched without regard to case or surrounding spaces
+export const normalizeCouponCode = (code: string): string =>
+  code.trim().toUpperCase();
+
+/**
+ * Amount an order discount takes off a subtotal, never more than the
+ * subtotal itself.
+ */
+export const calculateOrderDiscount = (
+  subtotal: number,
+  discount: OrderDiscount | null,
+): number => {
+  if (!discount || subtotal <= 0 || !(discount.value > 0)) {
+    return 0;
+  }
+
+  const amount =
+    discount.type === 'percent'
+      ? (subtotal * Math.min(discount.value, 100)) / 100
+      : discount.value;
+  return roundAmount(Math.min(amount, subtotal));
+};
+
+/**
+ * Share an order discount between the lines in proportion to what each
+ * costs, so line subtotals, tax and profit all reflect it. Rounding is
+ * settled on the last line so the shares add up to the discount exactly.
+ */
+export const allocateOrderDiscount = (
+  lineAmounts: number[],
+  discount: number,
+): number[] => {
+  const total = lineAmounts.reduce((sum, amount) => sum + amount, 0);
+  if (discount <= 0 || total <= 0) {
+    return lineAmounts.map(() => 0);
+  }
+
+  let allocated = 0;
+  return lineAmounts.map((amount, index) => {
+    if (index === lineAmounts.length - 1) {
+      return roundAmount(discount - allocated);
+    }
+    const share = roundAmount((discount * amount) / total);
+    allocated += share;
+    return share;
+  });
+};
+
+/**
+ * Why a coupon cannot be used on an order, or null when it can. Expiry is a
+ * local date and the coupon still works on that day.
+ */
+export const getCouponError = (
+  coupon: Coupon,
+  subtotal: number,
+  at: Date,
+): CouponErrorCode | null => {
+  if (!coupon.is_active) {
+    return 'inactive';
+  }
+
+  const day = `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(
+    at.getDate(),
+  )}`;
+  if (coupon.expires_on && day > coupon.expires_on) {
+    return 'expired';
+  }
+  if (coupon.max_uses != null && (coupon.use_count || 0) >= coupon.max_uses) {
+    return 'used_up';
+  }
+  if (coupon.min_spend && subtotal < coupon.min_spend) {
+    return 'below_minimum';
+  }
+  return null;
+};
@@ -1,7 +1,20 @@
 import { ShopSettings } from '@/services/shopSettingsStorage';
+import type { TaxBreakdownLine } from '@/utils/taxUtils';
+import { encodeBarcode, getBarcodeFormat } from '@/utils/barcodeUtils';
+import {
+  CODE_PAGES,
+  CUT_COMMANDS,
+  encodeForCodePage,
+  getPaperDots,
+  getPrinterProfile,
+  PrinterCodePage,
+  PrinterProfile,
+} from '@/utils/printerProfiles';
+import type { MonochromeImage } from '@/utils/rasterImage';
 
 export interface ReceiptData {
   saleId: string;
+  voucherId?: string; // Printed as the receipt number when set
   items: Array<{
     product: {
       id: string;
@@ -16,8 +29,83 @@ export interface ReceiptData {
   paymentMethod: string;
   note?: string;
   date: Date;
+  customer?: {
+    name: string;
+    debtBalance?: number; // Everything the customer owes, after this sale
+  };
+  promotions?: Array<{
+    name: string;
+    discount: number;
+  }>;
+  orderDiscount?: {
+    label: string;
+    amount: number;
+  };
+  loyalty?: {
+    pointsRedeemed: number;
+    discount: number; // Points taken off before tax
+    payment: number; // Points paid towards the total
+    pointsEarned: number;
+    balance: number; // After this sale
+  };
+  taxBreakdown?: TaxBreakdownLine[];
+  creditNote?: {
+    originalReceiptId: string;
+    reason?: string;
+  };
+}
+
+export interface ShiftReportPrintData {
+  type: 'X' | 'Z'; // X = mid-shift snapshot, Z = end of shift
+  openedAt: Date;
+  closedAt?: Date;
+  openingFloat: number;
+  paymentTotals: Array<{
+    name: string;
+    count: number;
+    total: number;
+  }>;
+  salesTotal: number;
+  cashSales: number;
+  refundsTotal: number;
+  cashRefunds: number;
+  debtCollected: number;
+  payIns: number;
+  payOuts: number;
+  drawerExpenses: number;
+  expectedCash: number;
+  countedCash?: number | null;
+  variance?: number | null;
+}
+
+export interface LabelPrintData {
+  name: string;
+  price: number;
+  barcode?: string | null;
+}
+
+export interface LabelPrintOptions {
+  showName: boolean;
+  showPrice: boolean;
+  showBarcode: boolean;
+  showShopName: boolean;
 }
 
+// One line of receipt text with the formatting it was printed with
+export interface PrintLine {
+  text: string;
+  align: 'left' | 'center' | 'right';
+  bold: boolean;
+  large: boolean; // Double height
+}
+
+/**
+ * Receipt commands split for bitmap printing: runs of text lines to draw as
+ * an image, and commands such as barcodes and cuts that go as they are
+ */
+export type PrintSegment =
+  { type: 'lines'; lines: PrintLine[] } | { type: 'raw'; commands: string };
+
 export class ESCPOSConverter {
   // ESC/POS Commands for Xprinter P300
   private static readonly ESC = '\x1B';
@@ -26,7 +114,6 @@ export class ESCPOSConverter {
   // Basic commands
   private static readonly INIT = ESCPOSConverter.ESC + '@';
   private static readonly LINE_FEED = '\x0A';
-  private static readonly CUT_PAPER = ESCPOSConverter.GS + 'V\x00';
 
   // Text alignment
   private static readonly ALIGN_LEFT = ESCPOSConverter.ESC + 'a\x00';
@@ -39,23 +126,34 @@ export class ESCPOSConverter {
   private static readonly DOUBLE_HEIGHT_ON = ESCPOSConverter.ESC + '!\x10';
   private static readonly DOUBLE_HEIGHT_OFF = ESCPOSConverter.ESC + '!\x00';
 
-  // Paper width for 58mm (384 dots, ~32 characters)
-  private static readonly PAPER_WIDTH = 32;
+  // Barcodes: height in dots, human-readable digits below the bars
+  private static readonly BARCODE_HEIGHT = ESCPOSConverter.GS + 'h\x50';
+  private static readonly BARCODE_TEXT_BELOW = ESCPOSConverter.GS + 'H\x02';
+
+  // Raster image rows sent per GS v 0 command
+  private static readonly RASTER_BAND_ROWS = 128;
 
   /**
-   * Convert receipt data to ESC/POS commands for Xprinter P300
+   * Convert receipt data to ESC/POS commands, laid out for the shop's
+   * printer profile (Xprinter P300 on 58mm paper unless set)
    */
   static convertReceipt(
     receiptData: ReceiptData,
-    shopSettings: ShopSettings | null
+    shopSettings: ShopSettings | null,
+    logo?: MonochromeImage | null
   ): string {
+    const profile = getPrinterProfile(shopSettings?.printerProfile);
+    const width = profile.charsPerLine;
     let commands = '';
 
     // Initialize printer
-    commands += this.INIT;
+    commands += this.initialize(profile);
 
     // Header section
     commands += this.ALIGN_CENTER;
+    if (logo) {
+      commands += this.rasterImage(logo);
+    }
     commands += this.BOLD_ON;
     commands += this.DOUBLE_HEIGHT_ON;
     commands += (shopSettings?.shopName || 'Mobile POS') + this.LINE_FEED;
@@ -70,53 +168,148 @@ export class ESCPOSConverter {
     }
 
     // Separator line
-    commands += this.padLine('-') + this.LINE_FEED;
+    commands += this.padLine('-', width) + this.LINE_FEED;
+
+    // Credit note banner for returns
+    if (receiptData.creditNote) {
+      commands += this.BOLD_ON;
+      commands += 'CREDIT NOTE' + this.LINE_FEED;
+      commands += this.BOLD_OFF;
+      commands +=
+        `Original #: ${receiptData.creditNote.originalReceiptId}` +
+        this.LINE_FEED;
+      if (receiptData.creditNote.reason) {
+        commands += `Reason: ${receiptData.creditNote.reason}` + this.LINE_FEED;
+      }
+      commands += this.padLine('-', width) + this.LINE_FEED;
+    }
 
     // Receipt info
     commands += this.ALIGN_LEFT;
-    commands += `Receipt #: ${receiptData.saleId}` + this.LINE_FEED;
+    commands +=
+      `Receipt #: ${receiptData.voucherId || receiptData.saleId}` +
+      this.LINE_FEED;
     commands += `Date: ${this.formatDate(receiptData.date)}` + this.LINE_FEED;
     commands +=
       `Payment: ${receiptData.paymentMethod.toUpperCase()}` + this.LINE_FEED;
+    if (receiptData.customer) {
+      commands +=
+        this.truncateText(`Customer: ${receiptData.customer.name}`, width) +
+        this.LINE_FEED;
+    }
 
     // Separator line
-    commands += this.padLine('-') + this.LINE_FEED;
+    commands += this.padLine('-', width) + this.LINE_FEED;
 
     // Items
     for (const item of receiptData.items) {
       // Item name
-      commands +=
-        this.truncateText(item.product.name, this.PAPER_WIDTH) + this.LINE_FEED;
+      commands += this.truncateText(item.product.name, width) + this.LINE_FEED;
 
       // Quantity x Price = Subtotal
       const qtyPrice = `${item.quantity} x ${this.formatMMK(
         item.product.price
       )}`;
       const subtotal = this.formatMMK(item.subtotal);
-      commands += this.formatLine(qtyPrice, subtotal) + this.LINE_FEED;
+      commands += this.formatLine(qtyPrice, subtotal, width) + this.LINE_FEED;
 
       // Discount if any
       if (item.discount > 0) {
         const discountLine = this.formatLine(
           'Discount',
-          `-${this.formatMMK(item.discount)}`
+          `-${this.formatMMK(item.discount)}`,
+          width
         );
         commands += discountLine + this.LINE_FEED;
       }
     }
 
     // Separator line
-    commands += this.padLine('-') + this.LINE_FEED;
+    commands += this.padLine('-', width) + this.LINE_FEED;
+
+    // Promotion savings, already taken off the total
+    for (const promotion of receiptData.promotions || []) {
+      commands +=
+        this.formatLine(
+          promotion.name,
+          `-${this.formatMMK(promotion.discount)}`,
+          width
+        ) + this.LINE_FEED;
+    }
+
+    // Whole-order discount or coupon, also already in the total
+    if (receiptData.orderDiscount && receiptData.orderDiscount.amount > 0) {
+      commands +=
+        this.formatLine(
+          receiptData.orderDiscount.label,
+          `-${this.formatMMK(receiptData.orderDiscount.amount)}`,
+          width
+        ) + this.LINE_FEED;
+    }
+
+    if (receiptData.loyalty && receiptData.loyalty.discount > 0) {
+      commands +=
+        this.formatLine(
+          `Points (${receiptData.loyalty.pointsRedeemed} pts)`,
+          `-${this.formatMMK(receiptData.loyalty.discount)}`,
+          width
+        ) + this.LINE_FEED;
+    }
+
+    // Tax per rate; inclusive tax is informational, exclusive is in the total
+    for (const taxLine of receiptData.taxBreakdown || []) {
+      const label = `${taxLine.name} ${taxLine.rate}%${
+        taxLine.inclusive ? ' incl.' : ''
+      }`;
+      commands +=
+        this.formatLine(label, this.formatMMK(taxLine.amount), width) +
+        this.LINE_FEED;
+    }
 
     // Total
     commands += this.BOLD_ON;
     commands += this.DOUBLE_HEIGHT_ON;
+    const totalLabel = receiptData.creditNote ? 'REFUND' : 'TOTAL';
     commands +=
-      this.formatLine('TOTAL', this.formatMMK(receiptData.total)) +
+      this.formatLine(totalLabel, this.formatMMK(receiptData.total), width) +
       this.LINE_FEED;
     commands += this.DOUBLE_HEIGHT_OFF;
     commands += this.BOLD_OFF;
 
+    // Points paid, then the customer's points after this sale
+    if (receiptData.loyalty) {
+      const { loyalty } = receiptData;
+      if (loyalty.payment > 0) {
+        commands +=
+          this.formatLine(
+            `Paid with ${loyalty.pointsRedeemed} pts`,
+            `-${this.formatMMK(loyalty.payment)}`,
+            width
+          ) + this.LINE_FEED;
+        commands +=
+          this.formatLine(
+            'Amount due',
+            this.formatMMK(receiptData.total - loyalty.payment),
+            width
+          ) + this.LINE_FEED;
+      }
+      commands +=
+        this.formatLine('Points earned', String(loyalty.pointsEarned), width) +
+        this.LINE_FEED;
+      commands +=
+        this.formatLine('Points balance', String(loyalty.balance), width) +
+        this.LINE_FEED;
+    }
+
+    if (receiptData.customer?.debtBalance) {
+      commands +=
+        this.formatLine(
+          'Balance owed',
+          this.formatMMK(receiptData.customer.debtBalance),
+          width
+        ) + this.LINE_FEED;
+    }
+
     // Note if any
     if (receiptData.note) {
       commands += this.LINE_FEED;
@@ -133,14 +326,463 @@ export class ESCPOSConverter {
       commands += shopSettings.receiptFooter + this.LINE_FEED;
     }
 
+    const qrContent = this.getReceiptQrContent(receiptData, shopSettings);
+    if (qrContent) {
+      commands += this.LINE_FEED;
+      commands += this.qrCode(qrContent);
+    }
+
+    // Final spacing and cut
+    commands += this.LINE_FEED;
+    commands += this.LINE_FEED;
+    commands += CUT_COMMANDS[profile.cutCommand];
+
+    return commands;
+  }
+
+  /**
+   * What the receipt QR code holds: the voucher link with this receipt's
+   * number filled in, or the shop's payment QR. Refunds get no payment QR.
+   */
+  static getReceiptQrContent(
+    receiptData: ReceiptData,
+    shopSettings: ShopSettings | null
+  ): string | null {
+    const value = shopSettings?.receiptQrValue?.trim();
+    if (!value) {
+      return null;
+    }
+
+    if (shopSettings?.receiptQrMode === 'voucher') {
+      return value.replace(
+        '{voucherId}',
+        encodeURIComponent(receiptData.voucherId || receiptData.saleId)
+      );
+    }
+    if (shopSettings?.receiptQrMode === 'payment' && !receiptData.creditNote) {
+      return value;
+    }
+    return null;
+  }
+
+  /**
+   * Convert an X/Z shift report to ESC/POS commands
+   */
+  static convertShiftReport(
+    report: ShiftReportPrintData,
+    shopSettings: ShopSettings | null
+  ): string {
+    const profile = getPrinterProfile(shopSettings?.printerProfile);
+    const width = profile.charsPerLine;
+    let commands = '';
+
+    commands += this.initialize(profile);
+
+    // Header section
+    commands += this.ALIGN_CENTER;
+    commands += this.BOLD_ON;
+    commands += (shopSettings?.shopName || 'Mobile POS') + this.LINE_FEED;
+    commands += this.DOUBLE_HEIGHT_ON;
+    commands += `${report.type} REPORT` + this.LINE_FEED;
+    commands += this.DOUBLE_HEIGHT_OFF;
+    commands += this.BOLD_OFF;
+    commands += this.padLine('-', width) + this.LINE_FEED;
+
+    commands += this.ALIGN_LEFT;
+    commands += `Opened: ${this.formatDate(report.openedAt)}` + this.LINE_FEED;
+    commands +=
+      `${report.closedAt ? 'Closed' : 'Printed'}: ${this.formatDate(
+        report.closedAt || new Date()
+      )}` + this.LINE_FEED;
+    commands += this.padLine('-', width) + this.LINE_FEED;
+
+    // Sales per payment method
+    commands += this.BOLD_ON + 'SALES' + this.BOLD_OFF + this.LINE_FEED;
+    for (const payment of report.paymentTotals) {
+      commands +=
+        this.formatLine(
+          `${payment.name} (${payment.count})`,
+          this.formatMMK(payment.total),
+          width
+        ) + this.LINE_FEED;
+    }
+    commands +=
+      this.formatLine('Total sales', this.formatMMK(report.salesTotal), width) +
+      this.LINE_FEED;
+    commands +=
+      this.formatLine(
+        'Refunds',
+        `-${this.formatMMK(report.refundsTotal)}`,
+        width
+      ) + this.LINE_FEED;
+    commands += this.padLine('-', width) + this.LINE_FEED;
+
+    // Cash drawer reconciliation
+    const cashLines: Array<[string, number]> = [
+      ['Opening float', report.openingFloat],
+      ['Cash sales', report.cashSales],
+      ['Debt collected', report.debtCollected],
+      ['Pay-ins', report.payIns],
+      ['Pay-outs', -report.payOuts],
+      ['Cash refunds', -report.cashRefunds],
+      ['Expenses', -report.drawerExpenses],
+    ];
+    commands += this.BOLD_ON + 'CASH DRAWER' + this.BOLD_OFF + this.LINE_FEED;
+    for (const [label, amount] of cashLines) {
+      const value =
+        amount < 0
+          ? `-${this.formatMMK(Math.abs(amount))}`
+          : this.formatMMK(amount);
+      commands += this.formatLine(label, value, width) + this.LINE_FEED;
+    }
+    commands += this.padLine('-', width) + this.LINE_FEED;
+
+    commands += this.BOLD_ON;
+    commands +=
+      this.formatLine(
+        'Expected cash',
+        this.formatMMK(report.expectedCash),
+        width
+      ) + this.LINE_FEED;
+    if (report.countedCash !== undefined && report.countedCash !== null) {
+      commands +=
+        this.formatLine(
+          'Counted cash',
+          this.formatMMK(report.countedCash),
+          width
+        ) + this.LINE_FEED;
+      const variance = report.variance || 0;
+      commands +=
+        this.formatLine(
+          variance < 0 ? 'Short' : 'Over',
+          this.formatMMK(Math.abs(variance)),
+          width
+        ) + this.LINE_FEED;
+    }
+    commands += this.BOLD_OFF;
+
     // Final spacing and cut
     commands += this.LINE_FEED;
     commands += this.LINE_FEED;
-    commands += this.CUT_PAPER;
+    commands += CUT_COMMANDS[profile.cutCommand];
+
+    return commands;
+  }
+
+  /**
+   * Convert price/shelf labels to ESC/POS commands, one after another on the
+   * roll with a tear line between them
+   */
+  static convertLabels(
+    labels: LabelPrintData[],
+    options: LabelPrintOptions,
+    shopSettings: ShopSettings | null
+  ): string {
+    const profile = getPrinterProfile(shopSettings?.printerProfile);
+    const width = profile.charsPerLine;
+    let commands = '';
+
+    commands += this.initialize(profile);
+    commands += this.ALIGN_CENTER;
+
+    labels.forEach((label, index) => {
+      if (index > 0) {
+        commands += this.padLine('-', width) + this.LINE_FEED;
+      }
+      if (options.showShopName && shopSettings?.shopName) {
+        commands += shopSettings.shopName + this.LINE_FEED;
+      }
+      if (options.showName) {
+        commands += this.BOLD_ON;
+        commands += this.truncateText(label.name, width) + this.LINE_FEED;
+        commands += this.BOLD_OFF;
+      }
+      if (options.showPrice) {
+        commands += this.DOUBLE_HEIGHT_ON;
+        commands += this.formatMMK(label.price) + this.LINE_FEED;
+        commands += this.DOUBLE_HEIGHT_OFF;
+      }
+      if (options.showBarcode && label.barcode) {
+        commands += this.barcode(label.barcode, getPaperDots(profile));
+      }
+      commands += this.LINE_FEED;
+    });
+
+    commands += this.LINE_FEED;
+    commands += this.LINE_FEED;
+    commands += CUT_COMMANDS[profile.cutCommand];
 
     return commands;
   }
 
+  /**
+   * ESC @ to reset, then ESC t to pick the profile's code page
+   */
+  private static initialize(profile: PrinterProfile): string {
+    return (
+      this.INIT +
+      this.ESC +
+      't' +
+      String.fromCharCode(CODE_PAGES[profile.codePage])
+    );
+  }
+
+  /**
+   * GS k barcode command; EAN-13 sends the 12 digits and the printer adds
+   * the check digit, anything else goes as Code 128 set B
+   */
+  private static barcode(code: string, paperDots: number): string {
+    const format = getBarcodeFormat(code);
+    if (!format) {
+      return code + this.LINE_FEED;
+    }
+
+    // Widest bars that still fit the paper
+    const modules = encodeBarcode(code, format).length;
+    const moduleWidth = Math.max(
+      1,
+      Math.min(3, Math.floor(paperDots / modules))
+    );
+
+    // "{" starts a code set switch in Code 128, so a literal one is doubled
+    const type = format === 'EAN13' ? 67 : 73;
+    const data =
+      format === 'EAN13' ? code.slice(0, 12) : '{B' + code.replace(/\{/g, '{{');
+
+    return (
+      this.BARCODE_HEIGHT +
+      this.GS +
+      'w' +
+      String.fromCharCode(moduleWidth) +
+      this.BARCODE_TEXT_BELOW +
+      this.GS +
+      'k' +
+      String.fromCharCode(type) +
+      String.fromCharCode(data.length) +
+      data +
+      this.LINE_FEED
+    );
+  }
+
+  /**
+   * GS ( k QR code: model 2, medium error correction, printed centred
+   */
+  private static qrCode(content: string): string {
+    const data = this.toUtf8(content);
+    const storeLength = data.length + 3;
+    const qr = this.GS + '(k';
+
+    return (
+      this.ALIGN_CENTER +
+      qr +
+      '\x04\x00' +
+      '1A2\x00' + // Model 2
+      qr +
+      '\x03\x00' +
+      '1C\x06' + // Module size in dots
+      qr +
+      '\x03\x00' +
+      '1E1' + // Error correction M
+      qr +
+      String.fromCharCode(storeLength % 256, storeLength >> 8) +
+      '1P0' +
+      data +
+      qr +
+      '\x03\x00' +
+      '1Q0' + // Print the stored code
+      this.LINE_FEED
+    );
+  }
+
+  /**
+   * GS v 0 raster bit image, one bit per dot. Tall images go in bands so a
+   * whole receipt drawn as a bitmap fits the printer's buffer.
+   */
+  static rasterImage(image: MonochromeImage): string {
+    let commands = '';
+    for (let top = 0; top < image.height; top += this.RASTER_BAND_ROWS) {
+      const rows = Math.min(this.RASTER_BAND_ROWS, image.height - top);
+      commands +=
+        this.GS +
+        'v0\x00' +
+        String.fromCharCode(
+          image.bytesPerRow % 256,
+          image.bytesPerRow >> 8,
+          rows % 256,
+          rows >> 8
+        );
+      const start = top * image.bytesPerRow;
+      for (const byte of image.data.subarray(
+        start,
+        start + rows * image.bytesPerRow
+      )) {
+        commands += String.fromCharCode(byte);
+      }
+    }
+    return commands + this.LINE_FEED;
+  }
+
+  /**
+   * Split commands built by this converter into text lines and everything
+   * else. Only the commands the converter itself writes are recognised.
+   */
+  static toPrintSegments(commands: string): PrintSegment[] {
+    const segments: PrintSegment[] = [];
+    const aligns = ['left', 'center', 'right'] as const;
+    let align: PrintLine['align'] = 'left';
+    let bold = false;
+    let large = false;
+    let text = '';
+
+    const pushRaw = (raw: string) => {
+      const last = segments[segments.length - 1];
+      if (last?.type === 'raw') {
+        last.commands += raw;
+      } else {
+        // Barcodes and QR codes keep the alignment the text had
+        segments.push({
+          type: 'raw',
+          commands:
+            this.ESC + 'a' + String.fromCharCode(aligns.indexOf(align)) + raw,
+        });
+      }
+    };
+
+    let i = 0;
+    while (i < commands.length) {
+      const char = commands[i];
+      const next = commands[i + 1];
+
+      if (char === this.ESC && next === 'a') {
+        align = aligns[commands.charCodeAt(i + 2)] || 'left';
+        i += 3;
+      } else if (char === this.ESC && next === 'E') {
+        bold = commands.charCodeAt(i + 2) === 1;
+        i += 3;
+      } else if (char === this.ESC && next === '!') {
+        large = (commands.charCodeAt(i + 2) & 0x10) !== 0;
+        i += 3;
+      } else if (char === this.ESC && next === '@') {
+        align = 'left';
+        bold = false;
+        large = false;
+        pushRaw(char + next);
+        i += 2;
+      } else if (char === this.ESC && next === 't') {
+        pushRaw(commands.slice(i, i + 3));
+        i += 3;
+      } else if (char === this.GS) {
+        const length = this.gsCommandLength(commands, i);
+        pushRaw(commands.slice(i, i + length));
+        i += length;
+      } else if (char === this.LINE_FEED) {
+        const last = segments[segments.length - 1];
+        if (!text && last?.type === 'raw') {
+          // Feed after a barcode, image or QR code
+          last.commands += char;
+        } else {
+          if (last?.type !== 'lines') {
+            segments.push({ type: 'lines', lines: [] });
+          }
+          const lines = segments[segments.length - 1] as {
+            lines: PrintLine[];
+          };
+          lines.lines.push({ text, align, bold, large });
+        }
+        text = '';
+        i += 1;
+      } else {
+        text += char;
+        i += 1;
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Length of the GS command starting at index, parameters and data included
+   */
+  private static gsCommandLength(commands: string, index: number): number {
+    const byteAt = (offset: number) => commands.charCodeAt(index + offset);
+    switch (commands[index + 1]) {
+      case '(': // GS ( k pL pH data
+        return 5 + byteAt(3) + byteAt(4) * 256;
+      case 'v': // GS v 0 m xL xH yL yH data
+        return (
+          8 + (byteAt(4) + byteAt(5) * 256) * (byteAt(6) + byteAt(7) * 256)
+        );
+      case 'k': // GS k m n data
+        return 4 + byteAt(3);
+      case 'V': // GS V m, or GS V B n to feed first
+        return commands[index + 2] === 'B' ? 4 : 3;
+      default: // GS w, GS h, GS H
+        return 3;
+    }
+  }
+
+  /**
+   * Turn commands into the bytes sent to the printer. Commands and their
+   * barcode, QR and image data go as they are; text is encoded in the
+   * printer's code page.
+   */
+  static toBytes(commands: string, codePage: PrinterCodePage): Uint8Array {
+    const bytes: number[] = [];
+    const pushRaw = (raw: string) => {
+      for (let j = 0; j < raw.length; j++) {
+        bytes.push(raw.charCodeAt(j) & 0xff);
+      }
+    };
+
+    let i = 0;
+    while (i < commands.length) {
+      if (commands[i] === this.ESC) {
+        // ESC @ has no parameter; the other ESC commands written here have one
+        const length = commands[i + 1] === '@' ? 2 : 3;
+        pushRaw(commands.slice(i, i + length));
+        i += length;
+      } else if (commands[i] === this.GS) {
+        const length = this.gsCommandLength(commands, i);
+        pushRaw(commands.slice(i, i + length));
+        i += length;
+      } else {
+        const char = String.fromCodePoint(commands.codePointAt(i) || 0);
+        bytes.push(encodeForCodePage(char, codePage));
+        i += char.length;
+      }
+    }
+    return Uint8Array.from(bytes);
+  }
+
+  /**
+   * UTF-8 encode characters above 0xFF, one string character per byte
+   */
+  private static toUtf8(text: string): string {
+    let result = '';
+    for (const char of text) {
+      const code = char.codePointAt(0) || 0;
+      if (code <= 0xff) {
+        result += char;
+      } else if (code <= 0x7ff) {
+        result += String.fromCharCode(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+      } else if (code <= 0xffff) {
+        result += String.fromCharCode(
+          0xe0 | (code >> 12),
+          0x80 | ((code >> 6) & 0x3f),
+          0x80 | (code & 0x3f)
+        );
+      } else {
+        result += String.fromCharCode(
+          0xf0 | (code >> 18),
+          0x80 | ((code >> 12) & 0x3f),
+          0x80 | ((code >> 6) & 0x3f),
+          0x80 | (code & 0x3f)
+        );
+      }
+    }
+    return result;
+  }
+
   /**
    * Format currency amount using currency-aware formatting
    */
@@ -182,8 +824,11 @@ export class ESCPOSConverter {
   /**
    * Create a line with text on left and right
    */
-  private static formatLine(left: string, right: string): string {
-    const maxWidth = this.PAPER_WIDTH;
+  private static formatLine(
+    left: string,
+    right: string,
+    maxWidth: number
+  ): string {
     const leftTruncated = this.truncateText(left, maxWidth - right.length - 1);
     const spaces = maxWidth - leftTruncated.length - right.length;
     return leftTruncated + ' '.repeat(Math.max(1, spaces)) + right;
@@ -192,8 +837,8 @@ export class ESCPOSConverter {
   /**
    * Create a line filled with character
    */
-  private static padLine(char: string): string {
-    return char.repeat(this.PAPER_WIDTH);
+  private static padLine(char: string, width: number): string {
+    return char.repeat(width);
   }
 
   /**
@@ -0,0 +1,152 @@
+/**
+ * Incremental exports hold only the records changed since the export they
+ * follow. A full export and the increments taken after it form a chain;
+ * every manifest names the export before it, so a chain with a file left
+ * out is caught before anything is imported.
+ */
+
+export type ExportKind = 'full' | 'incremental';
+
+export interface ExportManifest {
+  exportId: string;
+  kind: ExportKind;
+  chainId: string; // exportId of the full export the chain starts from
+  baseExportId: string | null; // Export this one continues from
+  sequence: number; // 0 for the full export, then 1, 2, ...
+  since: string | null; // ISO time changes are included from
+  until: string; // ISO time the data was read
+}
+
+// Export data section -> table whose changes it holds
+export const INCREMENTAL_EXPORT_TABLES: Record<string, string> = {
+  categories: 'categories',
+  suppliers: 'suppliers',
+  products: 'products',
+  customers: 'customers',
+  sales: 'sales',
+  saleItems: 'sale_items',
+  expenses: 'expenses',
+  expenseCategories: 'expense_categories',
+  stockMovements: 'stock_movements',
+  bulkPricing: 'bulk_pricing',
+  receiptTemplates: 'receipt_templates',
+};
+
+export type ExportChainErrorCode =
+  | 'not_linked' // A file has no manifest, e.g. an export from an older version
+  | 'no_full_export'
+  | 'several_full_exports'
+  | 'different_chains'
+  | 'duplicate_link'
+  | 'missing_link'
+  | 'corrupted_link';
+
+export class ExportChainError extends Error {
+  constructor(
+    message: string,
+    public code: ExportChainErrorCode,
+    public sequence?: number,
+  ) {
+    super(message);
+    this.name = 'ExportChainError';
+  }
+}
+
+/**
+ * Manifest for a new export. Without a base it starts a new chain as a full
+ * export; with one it is the next increment, holding changes from the time
+ * the base was read.
+ */
+export const createExportManifest = (
+  exportId: string,
+  until: string,
+  base: ExportManifest | null,
+): ExportManifest =>
+  base
+    ? {
+        exportId,
+        kind: 'incremental',
+        chainId: base.chainId,
+        baseExportId: base.exportId,
+        sequence: base.sequence + 1,
+        since: base.until,
+        until,
+      }
+    : {
+        exportId,
+        kind: 'full',
+        chainId: exportId,
+        baseExportId: null,
+        sequence: 0,
+        since: null,
+        until,
+      };
+
+/**
+ * Put the files of a chain in the order they must be applied, full export
+ * first. Throws ExportChainError when a file is not part of the chain or a
+ * link between the full export and the last increment is missing.
+ */
+export const orderExportChain = <
+  T extends { manifest?: ExportManifest | null },
+>(
+  links: T[],
+): T[] => {
+  if (links.some((link) => !link.manifest)) {
+    throw new ExportChainError(
+      'A selected file is not a full or incremental export',
+      'not_linked',
+    );
+  }
+
+  const fullExports = links.filter((link) => link.manifest!.kind === 'full');
+  if (fullExports.length === 0) {
+    throw new ExportChainError(
+      'Select the full export the increments were taken from',
+      'no_full_export',
+    );
+  }
+  if (fullExports.length > 1) {
+    throw new ExportChainError(
+      'Select only one full export',
+      'several_full_exports',
+    );
+  }
+
+  const chainId = fullExports[0].manifest!.exportId;
+  if (links.some((link) => link.manifest!.chainId !== chainId)) {
+    throw new ExportChainError(
+      'Some increments belong to a different full export',
+      'different_chains',
+    );
+  }
+
+  const ordered = [...links].sort(
+    (a, b) => a.manifest!.sequence - b.manifest!.sequence,
+  );
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1].manifest!;
+    const current = ordered[i].manifest!;
+
+    if (current.sequence === previous.sequence) {
+      throw new ExportChainError(
+        `Increment ${current.sequence} was selected twice`,
+        'duplicate_link',
+        current.sequence,
+      );
+    }
+    // A gap, or an increment taken from a copy of the chain not selected
+    if (
+      current.sequence !== previous.sequence + 1 ||
+      current.baseExportId !== previous.exportId
+    ) {
+      throw new ExportChainError(
+        `Increment ${current.sequence - 1} is missing from the chain`,
+        'missing_link',
+        current.sequence - 1,
+      );
+    }
+  }
+
+  return ordered;
+};
@@ -0,0 +1,168 @@
+import forge from 'node-forge';
+import { getRandomBytes } from 'expo-crypto';
+
+/**
+ * Passphrase encryption for export files. A key is derived from the
+ * passphrase with PBKDF2-SHA256 and the export is sealed with AES-256-GCM,
+ * so any change to the file is caught when it is opened.
+ *
+ * The derived key is twice as long as the AES key; a hash of the second half
+ * is stored as keyCheck. The GCM tag decides whether a file opens; keyCheck
+ * only tells a wrong passphrase apart from a damaged file when it does not.
+ */
+
+export const ENCRYPTED_EXPORT_FORMAT = 'encrypted-export';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 100000;
+const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedExport {
+  format: typeof ENCRYPTED_EXPORT_FORMAT;
+  version: 1;
+  kdf: { algorithm: 'PBKDF2-SHA256'; iterations: number; salt: string };
+  cipher: { algorithm: 'AES-256-GCM'; iv: string; tag: string };
+  keyCheck: string;
+  data: string; // Base64 ciphertext of the export JSON
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super('This file is encrypted. Enter its passphrase to open it');
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is not correct for this file');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export class CorruptedExportError extends Error {
+  constructor() {
+    super('The encrypted file is damaged or has been changed');
+    this.name = 'CorruptedExportError';
+  }
+}
+
+export const isEncryptedExport = (value: any): value is EncryptedExport =>
+  !!value && value.format === ENCRYPTED_EXPORT_FORMAT;
+
+const randomBinary = (byteCount: number): string =>
+  String.fromCharCode(...getRandomBytes(byteCount));
+
+// Runs in chunks so the UI keeps responding while the key is derived
+const deriveKeys = (
+  passphrase: string,
+  salt: string,
+  iterations: number,
+): Promise<{ key: string; keyCheck: string }> =>
+  new Promise((resolve, reject) => {
+    forge.pkcs5.pbkdf2(
+      forge.util.encodeUtf8(passphrase),
+      salt,
+      iterations,
+      KEY_BYTES * 2,
+      forge.md.sha256.create(),
+      (error, derived) => {
+        if (error || !derived) {
+          reject(error || new Error('Key derivation failed'));
+          return;
+        }
+        const check = forge.md.sha256.create();
+        check.update(derived.slice(KEY_BYTES));
+        resolve({
+          key: derived.slice(0, KEY_BYTES),
+          keyCheck: forge.util.encode64(check.digest().getBytes()),
+        });
+      },
+    );
+  });
+
+export const encryptExport = async (
+  plaintext: string,
+  passphrase: string,
+): Promise<EncryptedExport> => {
+  const salt = randomBinary(SALT_BYTES);
+  const iv = randomBinary(IV_BYTES);
+  const { key, keyCheck } = await deriveKeys(
+    passphrase,
+    salt,
+    PBKDF2_ITERATIONS,
+  );
+
+  const cipher = forge.cipher.createCipher('AES-GCM', key);
+  cipher.start({ iv, tagLength: 128 });
+  cipher.update(forge.util.createBuffer(forge.util.encodeUtf8(plaintext)));
+  cipher.finish();
+
+  return {
+    format: ENCRYPTED_EXPORT_FORMAT,
+    version: 1,
+    kdf: {
+      algorithm: 'PBKDF2-SHA256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: forge.util.encode64(salt),
+    },
+    cipher: {
+      algorithm: 'AES-256-GCM',
+      iv: forge.util.encode64(iv),
+      tag: forge.util.encode64(cipher.mode.tag.getBytes()),
+    },
+    keyCheck,
+    data: forge.util.encode64(cipher.output.getBytes()),
+  };
+};
+
+/**
+ * Decrypt an encrypted export back to its JSON text.
+ * Throws WrongPassphraseError or CorruptedExportError. The iteration count
+ * is read from the file, so only the one exports are written with is
+ * accepted; anything else could stall the app deriving the key.
+ */
+export const decryptExport = async (
+  encrypted: EncryptedExport,
+  passphrase: string,
+): Promise<string> => {
+  const { kdf, cipher } = encrypted;
+  if (
+    encrypted.version !== 1 ||
+    kdf?.algorithm !== 'PBKDF2-SHA256' ||
+    kdf.iterations !== PBKDF2_ITERATIONS ||
+    !kdf.salt ||
+    cipher?.algorithm !== 'AES-256-GCM' ||
+    !cipher.iv ||
+    !cipher.tag ||
+    typeof encrypted.data !== 'string'
+  ) {
+    throw new CorruptedExportError();
+  }
+
+  const { key, keyCheck } = await deriveKeys(
+    passphrase,
+    forge.util.decode64(kdf.salt),
+    kdf.iterations,
+  );
+  const decipher = forge.cipher.createDecipher('AES-GCM', key);
+  decipher.start({
+    iv: forge.util.decode64(cipher.iv),
+    tag: forge.util.createBuffer(forge.util.decode64(cipher.tag)),
+    tagLength: 128,
+  });
+  decipher.update(forge.util.createBuffer(forge.util.decode64(encrypted.data)));
+  if (!decipher.finish()) {
+    throw keyCheck === encrypted.keyCheck
+      ? new CorruptedExportError()
+      : new WrongPassphraseError();
+  }
+
+  try {
+    return forge.util.decodeUtf8(decipher.output.getBytes());
+  } catch {
+    throw new CorruptedExportError();
+  }
+};
@@ -0,0 +1,166 @@
+import { encodeBarcode, getBarcodeFormat } from '@/utils/barcodeUtils';
+
+export type LabelLayoutId = 'a4_3x8' | 'a4_4x10' | 'a4_2x7';
+
+export interface LabelLayout {
+  id: LabelLayoutId;
+  columns: number;
+  rows: number;
+  shelf: boolean; // Shelf labels put the price first and large
+}
+
+// A4 sheets cut edge to edge, matching the common pre-cut label stock
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  a4_3x8: { id: 'a4_3x8', columns: 3, rows: 8, shelf: false },
+  a4_4x10: { id: 'a4_4x10', columns: 4, rows: 10, shelf: false },
+  a4_2x7: { id: 'a4_2x7', columns: 2, rows: 7, shelf: true },
+};
+
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+
+export interface LabelContent {
+  name: string;
+  price: string; // Already formatted in the shop currency
+  barcode?: string | null;
+}
+
+export interface LabelSheetOptions {
+  layout: LabelLayout;
+  showName: boolean;
+  showPrice: boolean;
+  showBarcode: boolean;
+  shopName?: string;
+  skip: number; // Labels already used at the start of the first sheet
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Barcode as an SVG with one rect per bar, scaled to the label width
+ */
+export const renderBarcodeSvg = (code: string): string => {
+  const format = getBarcodeFormat(code);
+  if (!format) return '';
+
+  const modules = encodeBarcode(code, format);
+  const bars: string[] = [];
+  let start = -1;
+  for (let i = 0; i <= modules.length; i++) {
+    if (modules[i] === '1' && start < 0) {
+      start = i;
+    } else if (modules[i] !== '1' && start >= 0) {
+      bars.push(`<rect x="${start}" y="0" width="${i - start}" height="1"/>`);
+      start = -1;
+    }
+  }
+
+  return `<svg class="barcode" viewBox="0 0 ${modules.length} 1" preserveAspectRatio="none">${bars.join('')}</svg>`;
+};
+
+/**
+ * Copy each label by the number asked for, keeping a product's copies together
+ */
+export const expandLabelCopies = <T>(
+  items: Array<{ item: T; copies: number }>,
+): T[] =>
+  items.flatMap(({ item, copies }) =>
+    Array.from({ length: Math.max(0, Math.floor(copies)) }, () => item),
+  );
+
+/**
+ * HTML for A4 label sheets, for expo-print to turn into a PDF
+ */
+export const buildLabelSheetHtml = (
+  labels: LabelContent[],
+  options: LabelSheetOptions,
+): string => {
+  const { layout } = options;
+  const perSheet = layout.columns * layout.rows;
+  const width = A4_WIDTH_MM / layout.columns;
+  const height = A4_HEIGHT_MM / layout.rows;
+
+  const cells: Array<LabelContent | null> = [
+    ...Array.from({ length: Math.min(options.skip, perSheet - 1) }, () => null),
+    ...labels,
+  ];
+
+  const renderLabel = (label: LabelContent | null) => {
+    if (!label) return '<div class="label"></div>';
+
+    const parts: string[] = [];
+    if (options.shopName) {
+      parts.push(`<div class="shop">${escapeHtml(options.shopName)}</div>`);
+    }
+    const name = `<div class="name">${escapeHtml(label.name)}</div>`;
+    const price = `<div class="price">${escapeHtml(label.price)}</div>`;
+    if (options.showPrice && layout.shelf) parts.push(price);
+    if (options.showName) parts.push(name);
+    if (options.showPrice && !layout.shelf) parts.push(price);
+    if (options.showBarcode && label.barcode) {
+      parts.push(
+        `<div class="code">${renderBarcodeSvg(label.barcode)}<div class="digits">${escapeHtml(label.barcode)}</div></div>`,
+      );
+    }
+    return `<div class="label">${parts.join('')}</div>`;
+  };
+
+  const sheets: string[] = [];
+  for (let i = 0; i < cells.length; i += perSheet) {
+    sheets.push(
+      `<div class="sheet">${cells
+        .slice(i, i + perSheet)
+        .map(renderLabel)
+        .join('')}</div>`,
+    );
+  }
+
+  const nameSize = layout.shelf ? 14 : 9;
+  const priceSize = layout.shelf ? 26 : 12;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          @page { size: A4; margin: 0; }
+          * { box-sizing: border-box; margin: 0; padding: 0; }
+          body { font-family: Arial, sans-serif; }
+          .sheet {
+            display: flex;
+            flex-wrap: wrap;
+            align-content: flex-start;
+            width: ${A4_WIDTH_MM}mm;
+            height: ${A4_HEIGHT_MM}mm;
+            page-break-after: always;
+          }
+          .sheet:last-child { page-break-after: auto; }
+          .label {
+            width: ${width}mm;
+            height: ${height}mm;
+            padding: 2mm 3mm;
+            overflow: hidden;
+            display: flex;
+            flex-direction: column;
+            justify-content: center;
+            align-items: center;
+            text-align: center;
+          }
+          .shop { font-size: 7px; color: #6B7280; }
+          .name { font-size: ${nameSize}px; font-weight: bold; max-height: 2.6em; overflow: hidden; }
+          .price { font-size: ${priceSize}px; font-weight: bold; margin: 1mm 0; }
+          .code { width: 100%; }
+          .barcode { width: 100%; height: ${layout.shelf ? 12 : 8}mm; display: block; }
+          .digits { font-size: 8px; letter-spacing: 1px; }
+        </style>
+      </head>
+      <body>${sheets.join('')}</body>
+    </html>
+  `;
+};
@@ -0,0 +1,137 @@
+import type { LoyaltyPointsEntry } from '@/services/database';
+import { formatDateForDatabase } from '@/utils/dateUtils';
+
+export type LoyaltyTier = 'bronze' | 'silver' | 'gold';
+
+export type CustomerSegment =
+  'high_value' | 'medium_value' | 'low_value' | 'new' | 'at_risk';
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  earnRate: number; // Points per currency unit spent
+  pointValue: number; // What one point is worth when redeemed
+  expiryDays: number; // How long earned points last, 0 for never
+  tierMultipliers: Record<LoyaltyTier, number>;
+}
+
+/**
+ * Points spent on a sale. As payment they settle part of the total like a
+ * tender; as a discount they lower the price before tax.
+ */
+export interface LoyaltyRedemption {
+  points: number;
+  mode: 'payment' | 'discount';
+}
+
+export interface PointsBalance {
+  balance: number;
+  expired: number;
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Tiers follow the customer segments, so spending more moves a customer up
+export const getLoyaltyTier = (segment: CustomerSegment): LoyaltyTier =>
+  segment === 'high_value'
+    ? 'gold'
+    : segment === 'medium_value'
+      ? 'silver'
+      : 'bronze';
+
+export const calculateEarnedPoints = (
+  amount: number,
+  settings: LoyaltySettings,
+  tier: LoyaltyTier,
+): number => {
+  if (!settings.enabled || amount <= 0) {
+    return 0;
+  }
+
+  // The small margin keeps 1000 * 0.01 from landing just under 10
+  return Math.floor(
+    amount * settings.earnRate * settings.tierMultipliers[tier] + 1e-9,
+  );
+};
+
+export const getRedemptionAmount = (
+  points: number,
+  settings: LoyaltySettings,
+): number => roundAmount(points * settings.pointValue);
+
+/**
+ * Most points that can go towards an amount without paying out change
+ */
+export const getMaxRedeemablePoints = (
+  balance: number,
+  amount: number,
+  settings: LoyaltySettings,
+): number => {
+  if (settings.pointValue <= 0 || amount <= 0) {
+    return 0;
+  }
+  return Math.max(
+    0,
+    Math.min(balance, Math.floor(amount / settings.pointValue + 1e-9)),
+  );
+};
+
+export const getPointsExpiry = (
+  earnedAt: Date,
+  settings: LoyaltySettings,
+): string | null => {
+  if (!(settings.expiryDays > 0)) {
+    return null;
+  }
+  const expiresAt = new Date(earnedAt);
+  expiresAt.setDate(expiresAt.getDate() + settings.expiryDays);
+  return formatDateForDatabase(expiresAt);
+};
+
+/**
+ * Replay a customer's ledger to find the points they can spend. Each earn
+ * entry is a lot with its own expiry; spending uses the oldest lots first,
+ * and whatever is left of a lot when it expires drops out of the balance.
+ * Expiry is worked out here rather than written to the ledger, so devices
+ * syncing the same ledger always agree.
+ */
+export const calculatePointsBalance = (
+  entries: LoyaltyPointsEntry[],
+  at: Date,
+): PointsBalance => {
+  const lots: { points: number; expiresAt: string | null }[] = [];
+  let expired = 0;
+
+  const expireLots = (time: string) => {
+    for (const lot of lots) {
+      if (lot.points > 0 && lot.expiresAt && lot.expiresAt <= time) {
+        expired += lot.points;
+        lot.points = 0;
+      }
+    }
+  };
+
+  const ordered = [...entries].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at),
+  );
+  for (const entry of ordered) {
+    expireLots(entry.created_at);
+
+    if (entry.points > 0) {
+      lots.push({ points: entry.points, expiresAt: entry.expires_at || null });
+    } else {
+      let remaining = -entry.points;
+      for (const lot of lots) {
+        const used = Math.min(lot.points, remaining);
+        lot.points -= used;
+        remaining -= used;
+        if (remaining === 0) break;
+      }
+    }
+  }
+  expireLots(formatDateForDatabase(at));
+
+  return {
+    balance: lots.reduce((sum, lot) => sum + lot.points, 0),
+    expired,
+  };
+};
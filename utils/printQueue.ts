@@ -0,0 +1,157 @@
+import type {
+  LabelPrintData,
+  LabelPrintOptions,
+  ReceiptData,
+  ShiftReportPrintData,
+} from '@/utils/escposConverter';
+
+export type PrintJobPayload =
+  | { type: 'receipt'; receipt: ReceiptData }
+  | { type: 'shift_report'; report: ShiftReportPrintData }
+  | { type: 'labels'; labels: LabelPrintData[]; options: LabelPrintOptions };
+
+/**
+ * Pending jobs wait for their next attempt; failed ones have used up their
+ * attempts and wait for the cashier to retry or cancel them
+ */
+export type PrintJobStatus =
+  'pending' | 'printing' | 'failed' | 'done' | 'cancelled';
+
+export interface PrintJob {
+  id: string;
+  title: string; // Voucher number, report or label count shown in the queue
+  payload: PrintJobPayload;
+  status: PrintJobStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: number;
+  nextAttemptAt: number;
+}
+
+export const PRINT_RETRY = {
+  baseDelayMs: 5 * 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  maxAttempts: 8, // About ten minutes of retrying
+};
+
+// Finished jobs kept so the cashier can see what went through
+const FINISHED_JOBS_KEPT = 20;
+
+export const createPrintJob = (
+  id: string,
+  payload: PrintJobPayload,
+  title: string,
+  now: number,
+): PrintJob => ({
+  id,
+  title,
+  payload,
+  status: 'pending',
+  attempts: 0,
+  createdAt: now,
+  nextAttemptAt: now,
+});
+
+/**
+ * Wait before the next attempt, doubling after each failed one
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(
+    PRINT_RETRY.baseDelayMs * 2 ** Math.max(attempts - 1, 0),
+    PRINT_RETRY.maxDelayMs,
+  );
+
+/**
+ * Oldest pending job whose wait is over. Jobs print in the order they were
+ * queued, so one that is still waiting holds back those behind it.
+ */
+export const getDueJob = (jobs: PrintJob[], now: number): PrintJob | null => {
+  const next = jobs.find((job) => job.status === 'pending');
+  return next && next.nextAttemptAt <= now ? next : null;
+};
+
+export const getNextAttemptAt = (jobs: PrintJob[]): number | null =>
+  jobs.find((job) => job.status === 'pending')?.nextAttemptAt ?? null;
+
+/**
+ * Job after an attempt that did not print: scheduled again, or failed once
+ * it is out of attempts
+ */
+export const recordFailure = (
+  job: PrintJob,
+  error: string,
+  now: number,
+): PrintJob => {
+  const attempts = job.attempts + 1;
+  return {
+    ...job,
+    attempts,
+    lastError: error,
+    status: attempts >= PRINT_RETRY.maxAttempts ? 'failed' : 'pending',
+    nextAttemptAt: now + getRetryDelay(attempts),
+  };
+};
+
+export const requeueJob = (job: PrintJob, now: number): PrintJob => ({
+  ...job,
+  status: 'pending',
+  attempts: 0,
+  lastError: undefined,
+  nextAttemptAt: now,
+});
+
+/**
+ * Jobs as read back from storage. Dates come back as strings, and a job
+ * that was printing when the app closed is tried again, since it may not
+ * have reached the printer.
+ */
+export const restoreJobs = (jobs: PrintJob[]): PrintJob[] =>
+  jobs.map((job) => {
+    const payload = job.payload;
+    const restored: PrintJob =
+      job.status === 'printing' ? { ...job, status: 'pending' } : job;
+
+    if (payload.type === 'receipt') {
+      return {
+        ...restored,
+        payload: {
+          ...payload,
+          receipt: {
+            ...payload.receipt,
+            date: new Date(payload.receipt.date),
+          },
+        },
+      };
+    }
+    if (payload.type === 'shift_report') {
+      return {
+        ...restored,
+        payload: {
+          ...payload,
+          report: {
+            ...payload.report,
+            openedAt: new Date(payload.report.openedAt),
+            closedAt: payload.report.closedAt
+              ? new Date(payload.report.closedAt)
+              : undefined,
+          },
+        },
+      };
+    }
+    return restored;
+  });
+
+/**
+ * Drop all but the most recent finished jobs
+ */
+export const pruneFinishedJobs = (jobs: PrintJob[]): PrintJob[] => {
+  const finished = jobs.filter(
+    (job) => job.status === 'done' || job.status === 'cancelled',
+  );
+  const dropped = new Set(
+    finished
+      .slice(0, Math.max(finished.length - FINISHED_JOBS_KEPT, 0))
+      .map((job) => job.id),
+  );
+  return jobs.filter((job) => !dropped.has(job.id));
+};
@@ -0,0 +1,131 @@
+export type PaperWidth = '58mm' | '80mm';
+export type PrinterCodePage = 'pc437' | 'pc858' | 'wpc1252';
+export type CutCommand = 'full' | 'partial' | 'feed_partial' | 'none';
+
+/**
+ * Text sends characters for the printer's own font to draw; bitmap draws
+ * the receipt on the phone and prints it as an image, for scripts such as
+ * Myanmar that no printer code page covers.
+ */
+export type PrintRenderMode = 'text' | 'bitmap';
+
+export interface PrinterProfile {
+  paperWidth: PaperWidth;
+  charsPerLine: number;
+  codePage: PrinterCodePage;
+  cutCommand: CutCommand;
+  renderMode: PrintRenderMode;
+}
+
+// Printable dots across the roll and the usual Font A characters per line
+export const PAPER_WIDTHS: Record<
+  PaperWidth,
+  { dots: number; charsPerLine: number }
+> = {
+  '58mm': { dots: 384, charsPerLine: 32 },
+  '80mm': { dots: 576, charsPerLine: 48 },
+};
+
+export const CHARS_PER_LINE_RANGE = { min: 24, max: 64 };
+
+// ESC t table numbers as most ESC/POS printers number them
+export const CODE_PAGES: Record<PrinterCodePage, number> = {
+  pc437: 0,
+  pc858: 19,
+  wpc1252: 16,
+};
+
+// Characters at bytes 0x80-0xFF of each code page, 16 to a row. \ufffd
+// marks bytes the code page leaves unassigned.
+const CODE_PAGE_CHARACTERS: Record<PrinterCodePage, string> = {
+  pc437: [
+    'ÇüéâäàåçêëèïîìÄÅ', // 80
+    'ÉæÆôöòûùÿÖÜ¢£¥₧ƒ', // 90
+    'áíóúñÑªº¿⌐¬½¼¡«»', // A0
+    '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐', // B0
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧', // C0
+    '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀', // D0
+    'αßΓπΣσµτΦΘΩδ∞φε∩', // E0
+    '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0', // F0
+  ].join(''),
+  pc858: [
+    'ÇüéâäàåçêëèïîìÄÅ', // 80
+    'ÉæÆôöòûùÿÖÜø£Ø×ƒ', // 90
+    'áíóúñÑªº¿®¬½¼¡«»', // A0
+    '░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐', // B0
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤', // C0
+    'ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀', // D0
+    'ÓßÔÒõÕµþÞÚÛÙýÝ¯´', // E0
+    '\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0', // F0
+  ].join(''),
+  wpc1252: [
+    '€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd', // 80
+    '\ufffd‘’“”•–—˜™š›œ\ufffdžŸ', // 90
+    '\u00a0¡¢£¤¥¦§¨©ª«¬\u00ad®¯', // A0
+    '°±²³´µ¶·¸¹º»¼½¾¿', // B0
+    'ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏ', // C0
+    'ÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞß', // D0
+    'àáâãäåæçèéêëìíîï', // E0
+    'ðñòóôõö÷øùúûüýþÿ', // F0
+  ].join(''),
+};
+
+const codePageBytes = new Map<PrinterCodePage, Map<string, number>>();
+
+/**
+ * Byte for a character in the code page. ASCII is the same in all of them;
+ * a character the code page has no glyph for is sent as '?'.
+ */
+export const encodeForCodePage = (
+  char: string,
+  codePage: PrinterCodePage,
+): number => {
+  if (char.length === 1 && char.charCodeAt(0) < 0x80) {
+    return char.charCodeAt(0);
+  }
+
+  let bytes = codePageBytes.get(codePage);
+  if (!bytes) {
+    bytes = new Map();
+    for (const [index, mapped] of [
+      ...CODE_PAGE_CHARACTERS[codePage],
+    ].entries()) {
+      if (mapped !== '\ufffd') {
+        bytes.set(mapped, 0x80 + index);
+      }
+    }
+    codePageBytes.set(codePage, bytes);
+  }
+  return bytes.get(char) ?? 0x3f;
+};
+
+export const CUT_COMMANDS: Record<CutCommand, string> = {
+  full: '\x1DV\x00',
+  partial: '\x1DV\x01',
+  feed_partial: '\x1DVB\x00', // Feeds to the cutter first
+  none: '', // Printers with only a tear bar
+};
+
+// Matches what receipts printed before profiles existed: Xprinter P300, 58mm
+export const DEFAULT_PRINTER_PROFILE: PrinterProfile = {
+  paperWidth: '58mm',
+  charsPerLine: 32,
+  codePage: 'pc437',
+  cutCommand: 'full',
+  renderMode: 'text',
+};
+
+/**
+ * Saved profile filled in with defaults for anything not set
+ */
+export const getPrinterProfile = (
+  saved?: Partial<PrinterProfile> | null,
+): PrinterProfile => ({ ...DEFAULT_PRINTER_PROFILE, ...saved });
+
+export const getPaperDots = (profile: PrinterProfile): number =>
+  PAPER_WIDTHS[profile.paperWidth].dots;
+
+export const isValidCharsPerLine = (charsPerLine: number): boolean =>
+  Number.isInteger(charsPerLine) &&
+  charsPerLine >= CHARS_PER_LINE_RANGE.min &&
+  charsPerLine <= CHARS_PER_LINE_RANGE.max;
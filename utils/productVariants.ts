@@ -0,0 +1,53 @@
+import type { Product } from '@/services/database';
+
+export type VariantOptions = Record<string, string>;
+
+/**
+ * Option names a parent product's variants are described by, in order
+ */
+export const parseVariantAttributes = (
+  product: Pick<Product, 'variant_attributes'>,
+): string[] => {
+  try {
+    const attributes = JSON.parse(product.variant_attributes || '[]');
+    return Array.isArray(attributes) ? attributes.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Option values of a variant, keyed by option name
+ */
+export const parseVariantOptions = (
+  product: Pick<Product, 'variant_options'>,
+): VariantOptions => {
+  try {
+    const options = JSON.parse(product.variant_options || '{}');
+    return options && typeof options === 'object' ? options : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Short label for a variant, e.g. "M / Red"
+ */
+export const formatVariantLabel = (
+  options: VariantOptions,
+  attributes: string[] = Object.keys(options),
+): string =>
+  attributes
+    .map((attribute) => options[attribute])
+    .filter(Boolean)
+    .join(' / ');
+
+/**
+ * Full name stored on a variant so receipts and reports read on their own,
+ * e.g. "T-Shirt (M / Red)"
+ */
+export const buildVariantName = (
+  parentName: string,
+  options: VariantOptions,
+  attributes?: string[],
+): string => `${parentName} (${formatVariantLabel(options, attributes)})`;
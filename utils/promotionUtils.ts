@@ -0,0 +1,274 @@
+import type { Promotion } from '@/services/database';
+
+/**
+ * A cart line as promotions see it. Prices are after bulk pricing and any
+ * manual discount, so a promotion never gives away more than the line costs.
+ */
+export interface PromotionCartLine {
+  productId: string;
+  categoryId?: string | null;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  discount: number;
+}
+
+export interface PromotionResult {
+  lineDiscounts: Record<string, number>; // Product id -> discount on the line
+  applied: AppliedPromotion[];
+  totalDiscount: number;
+}
+
+interface PromotionMatch {
+  discount: number;
+  lineDiscounts: Record<string, number>;
+  consumed: Record<string, number>; // Units the promotion used up
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Whether a promotion runs at the given time. Dates are local and inclusive;
+ * a daily window such as 22:00-02:00 runs past midnight.
+ */
+export const isPromotionActive = (promotion: Promotion, at: Date): boolean => {
+  if (!promotion.is_active) {
+    return false;
+  }
+
+  const day = `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(
+    at.getDate(),
+  )}`;
+  if (promotion.start_date && day < promotion.start_date) {
+    return false;
+  }
+  if (promotion.end_date && day > promotion.end_date) {
+    return false;
+  }
+
+  if (promotion.start_time && promotion.end_time) {
+    const time = `${pad(at.getHours())}:${pad(at.getMinutes())}`;
+    return promotion.start_time <= promotion.end_time
+      ? time >= promotion.start_time && time < promotion.end_time
+      : time >= promotion.start_time || time < promotion.end_time;
+  }
+  return true;
+};
+
+const isEligible = (promotion: Promotion, line: PromotionCartLine): boolean =>
+  promotion.product_ids.includes(line.productId) ||
+  (!!promotion.category_id && line.categoryId === promotion.category_id);
+
+/**
+ * Buy X get Y across every eligible product (mix and match). Units are
+ * grouped from the most expensive down and the cheapest Y of each group are
+ * free.
+ */
+const matchBuyXGetY = (
+  promotion: Promotion,
+  lines: PromotionCartLine[],
+  remaining: Record<string, number>,
+): PromotionMatch | null => {
+  const buy = promotion.buy_quantity || 0;
+  const get = promotion.get_quantity || 0;
+  if (buy < 1 || get < 1) {
+    return null;
+  }
+
+  const units: PromotionCartLine[] = [];
+  for (const line of lines) {
+    if (isEligible(promotion, line)) {
+      for (let i = 0; i < remaining[line.productId]; i++) {
+        units.push(line);
+      }
+    }
+  }
+  units.sort((a, b) => b.unitPrice - a.unitPrice);
+
+  const groupSize = buy + get;
+  const groups = Math.floor(units.length / groupSize);
+  if (groups === 0) {
+    return null;
+  }
+
+  const match: PromotionMatch = {
+    discount: 0,
+    lineDiscounts: {},
+    consumed: {},
+  };
+  units.slice(0, groups * groupSize).forEach((unit, index) => {
+    match.consumed[unit.productId] = (match.consumed[unit.productId] || 0) + 1;
+    if (index % groupSize >= buy) {
+      match.lineDiscounts[unit.productId] =
+        (match.lineDiscounts[unit.productId] || 0) + unit.unitPrice;
+    }
+  });
+  return match;
+};
+
+const matchPercentOff = (
+  promotion: Promotion,
+  lines: PromotionCartLine[],
+  remaining: Record<string, number>,
+): PromotionMatch | null => {
+  const percent = promotion.discount_percent || 0;
+  if (percent <= 0) {
+    return null;
+  }
+
+  const match: PromotionMatch = {
+    discount: 0,
+    lineDiscounts: {},
+    consumed: {},
+  };
+  for (const line of lines) {
+    const quantity = remaining[line.productId];
+    if (quantity > 0 && isEligible(promotion, line)) {
+      match.consumed[line.productId] = quantity;
+      match.lineDiscounts[line.productId] =
+        (line.unitPrice * quantity * Math.min(percent, 100)) / 100;
+    }
+  }
+  return match;
+};
+
+/**
+ * One of each listed product for a fixed price. The saving is shared
+ * between the lines by price, so each line's subtotal stays meaningful.
+ */
+const matchBundlePrice = (
+  promotion: Promotion,
+  lines: PromotionCartLine[],
+  remaining: Record<string, number>,
+): PromotionMatch | null => {
+  const productIds = [...new Set(promotion.product_ids)];
+  const bundleLines = productIds.map((id) =>
+    lines.find((line) => line.productId === id),
+  );
+  if (
+    productIds.length < 2 ||
+    promotion.bundle_price == null ||
+    bundleLines.some((line) => !line)
+  ) {
+    return null;
+  }
+
+  const bundles = Math.min(
+    ...bundleLines.map((line) => remaining[line!.productId]),
+  );
+  const bundleValue = bundleLines.reduce(
+    (sum, line) => sum + line!.unitPrice,
+    0,
+  );
+  const saving = bundleValue - promotion.bundle_price;
+  if (bundles < 1 || saving <= 0) {
+    return null;
+  }
+
+  const match: PromotionMatch = {
+    discount: 0,
+    lineDiscounts: {},
+    consumed: {},
+  };
+  for (const line of bundleLines) {
+    match.consumed[line!.productId] = bundles;
+    match.lineDiscounts[line!.productId] =
+      (bundles * saving * line!.unitPrice) / bundleValue;
+  }
+  return match;
+};
+
+const matchPromotion = (
+  promotion: Promotion,
+  lines: PromotionCartLine[],
+  remaining: Record<string, number>,
+): PromotionMatch | null => {
+  let match: PromotionMatch | null;
+  switch (promotion.type) {
+    case 'buy_x_get_y':
+      match = matchBuyXGetY(promotion, lines, remaining);
+      break;
+    case 'percent_off':
+      match = matchPercentOff(promotion, lines, remaining);
+      break;
+    case 'bundle_price':
+      match = matchBundlePrice(promotion, lines, remaining);
+      break;
+    default:
+      return null;
+  }
+  if (!match) {
+    return null;
+  }
+
+  for (const productId of Object.keys(match.lineDiscounts)) {
+    match.lineDiscounts[productId] = roundAmount(
+      match.lineDiscounts[productId],
+    );
+    match.discount += match.lineDiscounts[productId];
+  }
+  match.discount = roundAmount(match.discount);
+  return match;
+};
+
+/**
+ * Work out which promotions apply to a cart. The promotion saving the most
+ * is applied first and uses up the units it covers, then the next best runs
+ * on what is left, so a unit is never discounted by two promotions.
+ */
+export const applyPromotions = (
+  lines: PromotionCartLine[],
+  promotions: Promotion[],
+  at: Date,
+): PromotionResult => {
+  const result: PromotionResult = {
+    lineDiscounts: {},
+    applied: [],
+    totalDiscount: 0,
+  };
+  const remaining: Record<string, number> = {};
+  for (const line of lines) {
+    remaining[line.productId] = line.quantity;
+  }
+
+  let candidates = promotions.filter((promotion) =>
+    isPromotionActive(promotion, at),
+  );
+  while (candidates.length > 0) {
+    let best: { promotion: Promotion; match: PromotionMatch } | null = null;
+    for (const promotion of candidates) {
+      const match = matchPromotion(promotion, lines, remaining);
+      if (match && match.discount > (best?.match.discount || 0)) {
+        best = { promotion, match };
+      }
+    }
+    if (!best) {
+      break;
+    }
+
+    const { promotion, match } = best;
+    for (const [productId, units] of Object.entries(match.consumed)) {
+      remaining[productId] -= units;
+    }
+    for (const [productId, discount] of Object.entries(match.lineDiscounts)) {
+      result.lineDiscounts[productId] = roundAmount(
+        (result.lineDiscounts[productId] || 0) + discount,
+      );
+    }
+    result.applied.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      discount: match.discount,
+    });
+    result.totalDiscount = roundAmount(result.totalDiscount + match.discount);
+    candidates = candidates.filter((candidate) => candidate !== promotion);
+  }
+
+  return result;
+};
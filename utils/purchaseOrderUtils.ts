@@ -0,0 +1,16 @@
+import { PurchaseOrderItem, PurchaseOrderStatus } from '@/services/database';
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> =
+  {
+    draft: '#6B7280',
+    sent: '#2563EB',
+    partially_received: '#D97706',
+    received: '#059669',
+    cancelled: '#DC2626',
+  };
+
+/**
+ * Quantity of a line that has not arrived yet
+ */
+export const getRemainingQuantity = (item: PurchaseOrderItem): number =>
+  Math.max(0, item.quantity_ordered - item.quantity_received);
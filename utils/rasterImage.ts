@@ -0,0 +1,303 @@
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // 4 bytes per pixel, row by row
+}
+
+/**
+ * One bit per pixel, 1 for black, rows padded to whole bytes with the
+ * leftmost pixel in the high bit; the layout ESC/POS raster images use
+ */
+export interface MonochromeImage {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+// Deflate tables (RFC 1951)
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+interface Huffman {
+  counts: number[]; // Number of codes of each bit length
+  symbols: number[]; // Symbols ordered by code
+}
+
+const buildHuffman = (lengths: number[]): Huffman => {
+  const counts = new Array(16).fill(0);
+  lengths.forEach((length) => counts[length]++);
+  counts[0] = 0;
+
+  const offsets = [0, 0];
+  for (let length = 1; length < 15; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols: number[] = [];
+  lengths.forEach((length, symbol) => {
+    if (length) symbols[offsets[length]++] = symbol;
+  });
+
+  return { counts, symbols };
+};
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, symbol) =>
+    symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8,
+  ),
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+/**
+ * Decompress a zlib stream, as found in PNG image data
+ */
+export const inflate = (input: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  let position = 2; // Skip the zlib header
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= input.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  // Canonical Huffman codes are read one bit at a time, shortest first
+  const decodeSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= bits(1);
+      const count = huffman.counts[length];
+      if (code - count < first) {
+        return huffman.symbols[index + (code - first)];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  };
+
+  const inflateBlock = (literals: Huffman, distances: Huffman) => {
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        output.push(symbol);
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthIndex = symbol - 257;
+        const length =
+          LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+        const distanceIndex = decodeSymbol(distances);
+        const distance =
+          DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex]);
+        const start = output.length - distance;
+        for (let i = 0; i < length; i++) {
+          output.push(output[start + i]);
+        }
+      }
+    }
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block starts on the next byte boundary
+      bitBuffer = 0;
+      bitCount = 0;
+      const length = input[position] | (input[position + 1] << 8);
+      position += 4;
+      for (let i = 0; i < length; i++) {
+        output.push(input[position++]);
+      }
+    } else if (type === 1) {
+      inflateBlock(FIXED_LITERALS, FIXED_DISTANCES);
+    } else if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+
+      const codeLengthLengths = new Array(19).fill(0);
+      for (let i = 0; i < codeLengthCount; i++) {
+        codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      }
+      const codeLengths = buildHuffman(codeLengthLengths);
+
+      const lengths: number[] = [];
+      while (lengths.length < literalCount + distanceCount) {
+        const symbol = decodeSymbol(codeLengths);
+        if (symbol < 16) {
+          lengths.push(symbol);
+        } else {
+          const [value, repeat] =
+            symbol === 16
+              ? [lengths[lengths.length - 1], 3 + bits(2)]
+              : symbol === 17
+                ? [0, 3 + bits(3)]
+                : [0, 11 + bits(7)];
+          for (let i = 0; i < repeat; i++) lengths.push(value);
+        }
+      }
+
+      inflateBlock(
+        buildHuffman(lengths.slice(0, literalCount)),
+        buildHuffman(lengths.slice(literalCount)),
+      );
+    } else {
+      throw new Error('Invalid compressed block type');
+    }
+  }
+
+  return Uint8Array.from(output);
+};
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+};
+
+/**
+ * Decode an 8-bit, non-interlaced PNG (grey, RGB, grey + alpha or RGBA),
+ * which is what the image manipulator writes
+ */
+export const decodePng = (bytes: Uint8Array): RgbaImage => {
+  const readUint32 = (offset: number) =>
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0;
+
+  if (readUint32(0) !== 0x89504e47) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const compressed: number[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = readUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const start = offset + 8;
+
+    if (type === 'IHDR') {
+      width = readUint32(start);
+      height = readUint32(start + 4);
+      const bitDepth = bytes[start + 8];
+      channels = CHANNELS[bytes[start + 9]] || 0;
+      if (bitDepth !== 8 || !channels || bytes[start + 12] !== 0) {
+        throw new Error('Unsupported PNG format');
+      }
+    } else if (type === 'IDAT') {
+      for (let i = start; i < start + length; i++) compressed.push(bytes[i]);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset = start + length + 4; // Skip the CRC
+  }
+
+  const raw = inflate(Uint8Array.from(compressed));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+
+  // Undo the per-row filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft =
+        y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+      const predictor =
+        filter === 1
+          ? left
+          : filter === 2
+            ? up
+            : filter === 3
+              ? (left + up) >> 1
+              : filter === 4
+                ? paeth(left, up, upLeft)
+                : 0;
+      pixels[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const pixel = pixels.subarray(i * channels, (i + 1) * channels);
+    const isGrey = channels < 3;
+    data[i * 4] = pixel[0];
+    data[i * 4 + 1] = isGrey ? pixel[0] : pixel[1];
+    data[i * 4 + 2] = isGrey ? pixel[0] : pixel[2];
+    data[i * 4 + 3] =
+      channels === 2 || channels === 4 ? pixel[channels - 1] : 255;
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * Threshold an image to black and white, treating transparency as paper
+ */
+export const toMonochrome = (image: RgbaImage): MonochromeImage => {
+  const bytesPerRow = Math.ceil(image.width / 8);
+  const data = new Uint8Array(bytesPerRow * image.height);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const i = (y * image.width + x) * 4;
+      const alpha = image.data[i + 3] / 255;
+      const luminance =
+        0.299 * image.data[i] +
+        0.587 * image.data[i + 1] +
+        0.114 * image.data[i + 2];
+      if (luminance * alpha + 255 * (1 - alpha) < 128) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return { width: image.width, height: image.height, bytesPerRow, data };
+};
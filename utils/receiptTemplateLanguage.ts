@@ -0,0 +1,398 @@
+/**
+ * Placeholder language for receipt templates that shop owners write
+ * themselves. There are no expressions, only the names listed below, and
+ * every value is HTML-escaped, so a template can lay out a receipt but not
+ * run code or reach other data.
+ *
+ *   {{shopName}}                              a value
+ *   {{total | currency}}                      a value through a formatter
+ *   {{#each items}} {{item.name}} {{/each}}   repeated for each item
+ *   {{#if note}} ... {{else}} ... {{/if}}     shown when the value is set
+ */
+
+export type TemplateFieldKind = 'text' | 'number' | 'date' | 'html' | 'list';
+
+export const RECEIPT_TEMPLATE_FIELDS: Record<string, TemplateFieldKind> = {
+  shopName: 'text',
+  address: 'text',
+  phone: 'text',
+  logoSrc: 'text', // Empty when the shop has no logo
+  thankYouMessage: 'text',
+  receiptFooter: 'text',
+  saleId: 'text', // Voucher number when the sale has one
+  date: 'date',
+  paymentMethod: 'text',
+  customerName: 'text',
+  customerBalance: 'number', // Debt the customer still owes
+  note: 'text',
+  items: 'list',
+  discount: 'number', // Whole-order discount
+  discountLabel: 'text',
+  total: 'number',
+  totalLabel: 'text',
+  // Drawn the way the built-in templates draw them
+  taxLines: 'html',
+  loyaltyLines: 'html',
+  creditNoteBanner: 'html',
+};
+
+// Fields of each entry in items, written as {{item.name}}
+export const RECEIPT_TEMPLATE_ITEM_FIELDS: Record<string, TemplateFieldKind> = {
+  name: 'text',
+  quantity: 'number',
+  price: 'number',
+  discount: 'number',
+  subtotal: 'number',
+};
+
+const LOOP_ITEM_NAME = 'item';
+
+export const TEMPLATE_FORMATTERS = ['currency', 'date', 'time', 'upper'];
+
+export type TemplateFormatters = Record<
+  string,
+  (value: string | number | Date) => string
+>;
+
+/**
+ * Markup the app has already built, inserted without escaping
+ */
+export class TemplateHtml {
+  constructor(readonly html: string) {}
+}
+
+export type TemplateValue =
+  | string
+  | number
+  | Date
+  | null
+  | undefined
+  | TemplateHtml
+  | TemplateScope
+  | TemplateScope[];
+
+export interface TemplateScope {
+  [name: string]: TemplateValue;
+}
+
+export type TemplateIssueCode =
+  | 'unknown_placeholder'
+  | 'unknown_formatter'
+  | 'not_a_list'
+  | 'unexpected_tag'
+  | 'unclosed_block'
+  | 'script';
+
+export interface TemplateIssue {
+  code: TemplateIssueCode;
+  name: string; // The placeholder, formatter or tag at fault
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string; formatter?: string }
+  | { type: 'each'; name: string; body: TemplateNode[] }
+  | {
+      type: 'if';
+      name: string;
+      body: TemplateNode[];
+      elseBody: TemplateNode[];
+    };
+
+type BlockNode = Extract<TemplateNode, { type: 'each' | 'if' }>;
+
+const TAG = /{{\s*([^{}]*?)\s*}}/g;
+
+// Markup that would run script in the receipt preview
+const SCRIPT_PATTERNS = [/<script/i, /<[^>]*\son\w+\s*=/i, /javascript:/i];
+
+const parseTemplate = (
+  source: string,
+): { nodes: TemplateNode[]; issues: TemplateIssue[] } => {
+  const nodes: TemplateNode[] = [];
+  const issues: TemplateIssue[] = [];
+  const open: { node: BlockNode; inElse: boolean }[] = [];
+
+  const target = (): TemplateNode[] => {
+    const top = open[open.length - 1];
+    if (!top) return nodes;
+    return top.node.type === 'if' && top.inElse
+      ? top.node.elseBody
+      : top.node.body;
+  };
+
+  let position = 0;
+  for (const match of source.matchAll(TAG)) {
+    const index = match.index ?? 0;
+    if (index > position) {
+      target().push({ type: 'text', text: source.slice(position, index) });
+    }
+    position = index + match[0].length;
+
+    const tag = match[1];
+    const top = open[open.length - 1];
+    if (tag.startsWith('#')) {
+      const [keyword, name = ''] = tag.slice(1).trim().split(/\s+/);
+      if (keyword !== 'each' && keyword !== 'if') {
+        issues.push({ code: 'unexpected_tag', name: tag });
+        continue;
+      }
+      const node: BlockNode =
+        keyword === 'each'
+          ? { type: 'each', name, body: [] }
+          : { type: 'if', name, body: [], elseBody: [] };
+      target().push(node);
+      open.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      if (top?.node.type === 'if' && !top.inElse) {
+        top.inElse = true;
+      } else {
+        issues.push({ code: 'unexpected_tag', name: tag });
+      }
+    } else if (tag.startsWith('/')) {
+      if (top && top.node.type === tag.slice(1).trim()) {
+        open.pop();
+      } else {
+        issues.push({ code: 'unexpected_tag', name: tag });
+      }
+    } else {
+      const [name, formatter] = tag.split('|').map((part) => part.trim());
+      target().push({ type: 'value', name, formatter: formatter || undefined });
+    }
+  }
+  if (position < source.length) {
+    target().push({ type: 'text', text: source.slice(position) });
+  }
+
+  open.forEach(({ node }) =>
+    issues.push({ code: 'unclosed_block', name: `#${node.type} ${node.name}` }),
+  );
+  return { nodes, issues };
+};
+
+const fieldKind = (
+  name: string,
+  inLoop: boolean,
+): TemplateFieldKind | undefined => {
+  if (inLoop && name.startsWith(`${LOOP_ITEM_NAME}.`)) {
+    return RECEIPT_TEMPLATE_ITEM_FIELDS[name.slice(LOOP_ITEM_NAME.length + 1)];
+  }
+  return RECEIPT_TEMPLATE_FIELDS[name];
+};
+
+const checkNames = (
+  nodes: TemplateNode[],
+  inLoop: boolean,
+  issues: TemplateIssue[],
+): void => {
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+
+    const kind = fieldKind(node.name, inLoop);
+    if (!kind) {
+      issues.push({ code: 'unknown_placeholder', name: node.name });
+    } else if (node.type === 'each' && kind !== 'list') {
+      issues.push({ code: 'not_a_list', name: node.name });
+    }
+
+    if (node.type === 'value') {
+      if (node.formatter && !TEMPLATE_FORMATTERS.includes(node.formatter)) {
+        issues.push({ code: 'unknown_formatter', name: node.formatter });
+      }
+    } else if (node.type === 'each') {
+      checkNames(node.body, true, issues);
+    } else {
+      checkNames(node.body, inLoop, issues);
+      checkNames(node.elseBody, inLoop, issues);
+    }
+  }
+};
+
+/**
+ * Everything wrong with a template, in the order it appears; empty when the
+ * template can be saved
+ */
+export const validateTemplate = (
+  source: string,
+  cssStyles: string = '',
+): TemplateIssue[] => {
+  const { nodes, issues } = parseTemplate(source);
+  checkNames(nodes, false, issues);
+
+  const script = SCRIPT_PATTERNS.map((pattern) =>
+    `${source}\n${cssStyles}`.match(pattern),
+  ).find(Boolean);
+  if (script) {
+    issues.push({ code: 'script', name: script[0].trim() });
+  }
+  return issues;
+};
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const lookup = (scope: TemplateScope, name: string): TemplateValue =>
+  name
+    .split('.')
+    .reduce<TemplateValue>(
+      (value, key) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? (value as TemplateScope)[key]
+          : undefined,
+      scope,
+    );
+
+const isSet = (value: TemplateValue): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof TemplateHtml) return value.html !== '';
+  return value !== null && value !== undefined && value !== '' && value !== 0;
+};
+
+const renderNodes = (
+  nodes: TemplateNode[],
+  scope: TemplateScope,
+  formatters: TemplateFormatters,
+): string =>
+  nodes
+    .map((node) => {
+      if (node.type === 'text') return node.text;
+
+      const value = lookup(scope, node.name);
+      if (node.type === 'each') {
+        return Array.isArray(value)
+          ? value
+              .map((entry) =>
+                renderNodes(
+                  node.body,
+                  { ...scope, [LOOP_ITEM_NAME]: entry },
+                  formatters,
+                ),
+              )
+              .join('')
+          : '';
+      }
+      if (node.type === 'if') {
+        return renderNodes(
+          isSet(value) ? node.body : node.elseBody,
+          scope,
+          formatters,
+        );
+      }
+
+      if (value instanceof TemplateHtml) return value.html;
+      if (
+        typeof value !== 'string' &&
+        typeof value !== 'number' &&
+        !(value instanceof Date)
+      ) {
+        return '';
+      }
+      const formatter =
+        formatters[node.formatter || (value instanceof Date ? 'date' : '')];
+      return escapeHtml(formatter ? formatter(value) : String(value));
+    })
+    .join('');
+
+/**
+ * Fill in a template. Templates are checked when saved; one that still has
+ * problems throws rather than print a half-filled receipt.
+ */
+export const renderTemplate = (
+  source: string,
+  scope: TemplateScope,
+  formatters: TemplateFormatters,
+): string => {
+  const issues = validateTemplate(source);
+  if (issues.length > 0) {
+    throw new Error(
+      `Receipt template has errors: ${issues
+        .map((issue) => `${issue.code} ${issue.name}`)
+        .join(', ')}`,
+    );
+  }
+  return renderNodes(parseTemplate(source).nodes, scope, formatters);
+};
+
+// What a new template starts from
+export const STARTER_TEMPLATE = {
+  htmlTemplate: `<div class="receipt">
+  {{#if logoSrc}}<img class="logo" src="{{logoSrc}}" />{{/if}}
+  <div class="shop-name">{{shopName}}</div>
+  <div class="center">{{address}}</div>
+  <div class="center">{{phone}}</div>
+  {{creditNoteBanner}}
+  <div class="line"><span>Receipt #</span><span>{{saleId}}</span></div>
+  <div class="line"><span>Date</span><span>{{date | date}}</span></div>
+  <div class="line"><span>Payment</span><span>{{paymentMethod | upper}}</span></div>
+  {{#if customerName}}
+  <div class="line"><span>Customer</span><span>{{customerName}}</span></div>
+  {{/if}}
+  <hr />
+  {{#each items}}
+  <div>{{item.name}}</div>
+  <div class="line">
+    <span>{{item.quantity}} x {{item.price | currency}}</span>
+    <span>{{item.subtotal | currency}}</span>
+  </div>
+  {{#if item.discount}}
+  <div class="line"><span>Discount</span><span>-{{item.discount | currency}}</span></div>
+  {{/if}}
+  {{/each}}
+  <hr />
+  {{#if discount}}
+  <div class="line"><span>{{discountLabel}}</span><span>-{{discount | currency}}</span></div>
+  {{/if}}
+  {{taxLines}}
+  <div class="line total"><span>{{totalLabel}}</span><span>{{total | currency}}</span></div>
+  {{loyaltyLines}}
+  {{#if customerBalance}}
+  <div class="line"><span>Balance owed</span><span>{{customerBalance | currency}}</span></div>
+  {{/if}}
+  {{#if note}}<div class="note">{{note}}</div>{{/if}}
+  <div class="center">{{thankYouMessage}}</div>
+  <div class="center">{{receiptFooter}}</div>
+</div>`,
+  cssStyles: `@page {
+  margin: 0.5in;
+  size: 8.5in 8in;
+}
+body {
+  font-family: 'Courier New', monospace;
+  font-size: 14px;
+  color: #000;
+}
+.receipt {
+  max-width: 320px;
+  margin: 0 auto;
+}
+.logo {
+  display: block;
+  max-width: 80px;
+  margin: 0 auto 8px;
+}
+.shop-name {
+  font-size: 18px;
+  font-weight: bold;
+  text-align: center;
+}
+.center {
+  text-align: center;
+}
+.line {
+  display: flex;
+  justify-content: space-between;
+}
+.total {
+  font-size: 16px;
+  font-weight: bold;
+}
+.note {
+  margin-top: 8px;
+  font-style: italic;
+}`,
+};
@@ -0,0 +1,68 @@
+import { isValidUUID } from './uuid';
+
+export type RecordMatch = 'uuid' | 'name' | 'other';
+
+// Natural key columns for each record type that can be matched when ids
+// differ; a record matches when any one of them is equal
+export const MATCH_COLUMNS: Record<string, string[]> = {
+  products: ['name', 'barcode'],
+  customers: ['name', 'phone'],
+  categories: ['name'],
+  suppliers: ['name'],
+  expenseCategories: ['name'],
+};
+
+// Check if a data type supports name-based matching
+export const supportsNameMatching = (recordType: string): boolean =>
+  recordType in MATCH_COLUMNS;
+
+// Name-based matching: products by name or barcode, customers by name or
+// phone, the rest by name only
+export const matchByName = (
+  record: any,
+  existing: any,
+  recordType: string,
+): boolean => {
+  try {
+    return (MATCH_COLUMNS[recordType] || []).some(
+      (column) =>
+        !!record[column] &&
+        !!existing[column] &&
+        record[column] === existing[column],
+    );
+  } catch (error) {
+    console.warn(`Error in name matching for ${recordType}:`, error);
+    return false;
+  }
+};
+
+// Universal record matching - tries UUID first, then name-based fallback
+export const findMatchingRecord = (
+  record: any,
+  existingRecords: any[],
+  recordType: string,
+): { matchedRecord: any | null; matchedBy: RecordMatch } => {
+  // Strategy 1: UUID matching (primary method)
+  if (record.id && isValidUUID(record.id)) {
+    for (const existingRecord of existingRecords) {
+      if (
+        existingRecord.id &&
+        isValidUUID(existingRecord.id) &&
+        record.id === existingRecord.id
+      ) {
+        return { matchedRecord: existingRecord, matchedBy: 'uuid' };
+      }
+    }
+  }
+
+  // Strategy 2: Name-based matching (fallback method)
+  if (supportsNameMatching(recordType)) {
+    for (const existingRecord of existingRecords) {
+      if (matchByName(record, existingRecord, recordType)) {
+        return { matchedRecord: existingRecord, matchedBy: 'name' };
+      }
+    }
+  }
+
+  return { matchedRecord: null, matchedBy: 'other' };
+};
@@ -0,0 +1,75 @@
+import type { ShiftReport } from '@/services/database';
+import type { PaymentMethod } from '@/services/paymentMethodService';
+import type { ShiftReportPrintData } from '@/utils/escposConverter';
+
+export interface ShiftPaymentRow {
+  name: string;
+  color?: string;
+  count: number;
+  total: number;
+}
+
+/**
+ * One row per configured payment method (in settings order), followed by any
+ * method that has sales in the shift but has since been removed from settings.
+ */
+export const mergePaymentTotals = (
+  paymentTotals: ShiftReport['paymentTotals'],
+  paymentMethods: PaymentMethod[],
+): ShiftPaymentRow[] => {
+  const rows: ShiftPaymentRow[] = paymentMethods.map((method) => {
+    const totals = paymentTotals.find(
+      (row) => row.payment_method === method.name,
+    );
+    return {
+      name: method.name,
+      color: method.color,
+      count: totals?.sale_count || 0,
+      total: totals?.total || 0,
+    };
+  });
+
+  paymentTotals.forEach((row) => {
+    if (!paymentMethods.some((method) => method.name === row.payment_method)) {
+      rows.push({
+        name: row.payment_method,
+        count: row.sale_count,
+        total: row.total,
+      });
+    }
+  });
+
+  return rows;
+};
+
+const parseDBDate = (value: string): Date => new Date(value.replace(' ', 'T'));
+
+/**
+ * Shape a shift report for the ESC/POS printer. Closed shifts print as a Z
+ * report, open shifts as an X report.
+ */
+export const toShiftReportPrintData = (
+  report: ShiftReport,
+  paymentMethods: PaymentMethod[],
+): ShiftReportPrintData => ({
+  type: report.shift.status === 'closed' ? 'Z' : 'X',
+  openedAt: parseDBDate(report.shift.opened_at),
+  closedAt: report.shift.closed_at
+    ? parseDBDate(report.shift.closed_at)
+    : undefined,
+  openingFloat: report.shift.opening_float,
+  paymentTotals: mergePaymentTotals(report.paymentTotals, paymentMethods).map(
+    ({ name, count, total }) => ({ name, count, total }),
+  ),
+  salesTotal: report.salesTotal,
+  cashSales: report.cashSales,
+  refundsTotal: report.refundsTotal,
+  cashRefunds: report.cashRefunds,
+  debtCollected: report.debtCollected,
+  payIns: report.payIns,
+  payOuts: report.payOuts,
+  drawerExpenses: report.drawerExpenses,
+  expectedCash: report.expectedCash,
+  countedCash: report.countedCash,
+  variance: report.variance,
+});
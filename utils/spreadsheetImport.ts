@@ -0,0 +1,241 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * Helpers for importing products, customers and suppliers from CSV or Excel
+ * sheets. The first row of the first sheet holds the column headers; each
+ * import field is mapped to one of those columns before the rows are read.
+ */
+
+export type SpreadsheetEntity = 'products' | 'customers' | 'suppliers';
+
+export interface SpreadsheetField {
+  key: string;
+  required: boolean;
+  numeric: boolean;
+  aliases: string[]; // Header names matched when suggesting a mapping
+}
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Field key -> column index, or null when the field is not in the sheet
+export type ColumnMapping = Record<string, number | null>;
+
+export const SPREADSHEET_FIELDS: Record<SpreadsheetEntity, SpreadsheetField[]> =
+  {
+    products: [
+      {
+        key: 'name',
+        required: true,
+        numeric: false,
+        aliases: ['product', 'item', 'product name', 'item name'],
+      },
+      {
+        key: 'barcode',
+        required: false,
+        numeric: false,
+        aliases: ['sku', 'code', 'upc', 'ean'],
+      },
+      {
+        key: 'category',
+        required: true,
+        numeric: false,
+        aliases: ['category name', 'group'],
+      },
+      {
+        key: 'price',
+        required: true,
+        numeric: true,
+        aliases: ['selling price', 'sale price', 'retail price', 'unit price'],
+      },
+      {
+        key: 'cost',
+        required: true,
+        numeric: true,
+        aliases: ['cost price', 'purchase price', 'buying price', 'unit cost'],
+      },
+      {
+        key: 'quantity',
+        required: false,
+        numeric: true,
+        aliases: ['qty', 'stock', 'on hand', 'quantity on hand'],
+      },
+      {
+        key: 'min_stock',
+        required: false,
+        numeric: true,
+        aliases: [
+          'min stock',
+          'minimum stock',
+          'reorder level',
+          'reorder point',
+        ],
+      },
+      {
+        key: 'supplier',
+        required: false,
+        numeric: false,
+        aliases: ['supplier name', 'vendor'],
+      },
+    ],
+    customers: [
+      {
+        key: 'name',
+        required: true,
+        numeric: false,
+        aliases: ['customer', 'customer name', 'full name'],
+      },
+      {
+        key: 'phone',
+        required: false,
+        numeric: false,
+        aliases: ['phone number', 'mobile', 'tel', 'telephone'],
+      },
+      {
+        key: 'email',
+        required: false,
+        numeric: false,
+        aliases: ['email address', 'e-mail'],
+      },
+      {
+        key: 'address',
+        required: false,
+        numeric: false,
+        aliases: ['location'],
+      },
+    ],
+    suppliers: [
+      {
+        key: 'name',
+        required: true,
+        numeric: false,
+        aliases: ['supplier', 'supplier name', 'company', 'vendor'],
+      },
+      {
+        key: 'contact_name',
+        required: false,
+        numeric: false,
+        aliases: ['contact', 'contact person'],
+      },
+      {
+        key: 'phone',
+        required: false,
+        numeric: false,
+        aliases: ['phone number', 'mobile', 'tel', 'telephone'],
+      },
+      {
+        key: 'email',
+        required: false,
+        numeric: false,
+        aliases: ['email address', 'e-mail'],
+      },
+      {
+        key: 'address',
+        required: false,
+        numeric: false,
+        aliases: ['location'],
+      },
+    ],
+  };
+
+const normalizeHeader = (header: string): string =>
+  header
+    .toLowerCase()
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Read the first sheet of a CSV or Excel file. Pass the file text for CSV
+ * and base64 content for xlsx/xls. Blank rows are dropped.
+ */
+export const parseSpreadsheet = (
+  content: string,
+  type: 'string' | 'base64',
+): SpreadsheetTable => {
+  const workbook = XLSX.read(content, { type, raw: type === 'string' });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    return { headers: [], rows: [] };
+  }
+
+  // Raw values, since formatted text turns long barcodes into 8.85123E+12
+  const cells = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+  });
+  const [headerRow = [], ...rows] = cells;
+
+  return {
+    headers: headerRow.map((cell) => String(cell).trim()),
+    rows: rows
+      .map((row) => row.map((cell) => String(cell ?? '').trim()))
+      .filter((row) => row.some((cell) => cell !== '')),
+  };
+};
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export const suggestColumnMapping = (
+  headers: string[],
+  entity: SpreadsheetEntity,
+): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of SPREADSHEET_FIELDS[entity]) {
+    const names = [normalizeHeader(field.key), ...field.aliases];
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && names.includes(header),
+    );
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+
+  return mapping;
+};
+
+// Required fields that have no column yet
+export const getUnmappedRequiredFields = (
+  mapping: ColumnMapping,
+  entity: SpreadsheetEntity,
+): string[] =>
+  SPREADSHEET_FIELDS[entity]
+    .filter((field) => field.required && mapping[field.key] == null)
+    .map((field) => field.key);
+
+// "1,250.50" -> 1250.5. Text that is not a number is kept so validation
+// can report it.
+const parseNumber = (value: string): number | string => {
+  const cleaned = value.replace(/[,\s]/g, '');
+  const parsed = Number(cleaned);
+  return cleaned !== '' && Number.isFinite(parsed) ? parsed : value;
+};
+
+/**
+ * Turn sheet rows into import records using the column mapping. Empty cells
+ * are left out, so an unmapped or blank field keeps its default.
+ */
+export const mapSpreadsheetRows = (
+  table: SpreadsheetTable,
+  mapping: ColumnMapping,
+  entity: SpreadsheetEntity,
+): Record<string, any>[] =>
+  table.rows.map((row) => {
+    const record: Record<string, any> = {};
+    for (const field of SPREADSHEET_FIELDS[entity]) {
+      const column = mapping[field.key];
+      if (column == null) continue;
+
+      const value = row[column] ?? '';
+      if (value === '') continue;
+      record[field.key] = field.numeric ? parseNumber(value) : value;
+    }
+    return record;
+  });
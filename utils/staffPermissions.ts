@@ -0,0 +1,115 @@
+export type StaffRole = 'owner' | 'manager' | 'cashier';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'manager', 'cashier'];
+
+export type Permission =
+  | 'sales.delete'
+  | 'sales.refund'
+  | 'products.manage'
+  | 'products.delete'
+  | 'inventory.manage'
+  | 'reports.view'
+  | 'expenses.manage'
+  | 'settings.manage'
+  | 'data.export'
+  | 'data.import'
+  | 'data.cleanup'
+  | 'staff.manage'
+  | 'audit.view';
+
+/**
+ * Permission matrix. Anything not listed here (selling, the cash drawer,
+ * customers, sale history) is open to every role.
+ */
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'sales.delete',
+    'sales.refund',
+    'products.manage',
+    'products.delete',
+    'inventory.manage',
+    'reports.view',
+    'expenses.manage',
+    'settings.manage',
+    'data.export',
+    'data.import',
+    'data.cleanup',
+    'staff.manage',
+    'audit.view',
+  ],
+  manager: [
+    'sales.refund',
+    'products.manage',
+    'inventory.manage',
+    'reports.view',
+    'expenses.manage',
+    'data.export',
+  ],
+  cashier: [],
+};
+
+/**
+ * Drawer screens that need a permission, keyed by route name.
+ */
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  'product-management': 'products.manage',
+  'product-form': 'products.manage',
+  'product-detail': 'products.manage',
+  'category-management': 'products.manage',
+  promotions: 'products.manage',
+  coupons: 'products.manage',
+  'barcode-labels': 'products.manage',
+  'tax-rates': 'settings.manage',
+  loyalty: 'settings.manage',
+  'movement-history': 'inventory.manage',
+  'low-stock': 'inventory.manage',
+  'stock-reconciliation': 'inventory.manage',
+  'supplier-management': 'inventory.manage',
+  'supplier-detail': 'inventory.manage',
+  'purchase-orders': 'inventory.manage',
+  'purchase-order-form': 'inventory.manage',
+  'purchase-order-detail': 'inventory.manage',
+  'purchase-order-receive': 'inventory.manage',
+  overview: 'reports.view',
+  'customer-analytics': 'reports.view',
+  'ai-analytics': 'reports.view',
+  'tax-report': 'reports.view',
+  'inventory-valuation': 'reports.view',
+  expenses: 'expenses.manage',
+  'expense-category-management': 'expenses.manage',
+  'shop-settings': 'settings.manage',
+  'license-management': 'settings.manage',
+  'sync-settings': 'settings.manage',
+  'data-export': 'data.export',
+  'accounting-export': 'data.export',
+  'data-import': 'data.import',
+  backups: 'data.import',
+  'staff-management': 'staff.manage',
+  'audit-log': 'audit.view',
+};
+
+/**
+ * A null role means no staff accounts are set up, in which case the device
+ * user keeps full access.
+ */
+export const hasPermission = (
+  role: StaffRole | null | undefined,
+  permission: Permission,
+): boolean => {
+  if (!role) return true;
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * Permission required by a pathname such as "/product-management" or
+ * "/(drawer)/product-management", or null when the screen is open to all.
+ */
+export const getRoutePermission = (pathname: string): Permission | null => {
+  const routeName = pathname
+    .replace('/(drawer)', '')
+    .split('/')
+    .filter(Boolean)[0];
+  return (routeName && ROUTE_PERMISSIONS[routeName]) || null;
+};
+
+export const isValidPin = (pin: string): boolean => /^\d{4,6}$/.test(pin);
@@ -0,0 +1,163 @@
+/**
+ * How each synced table settles two devices changing the same row.
+ * - last_write_wins: the later change wins
+ * - keep_first: rows are written once (returns, payments); a row that already
+ *   exists keeps its first version and only a delete replaces it
+ */
+export type SyncConflictRule = 'last_write_wins' | 'keep_first';
+
+export interface SyncTableConfig {
+  rule: SyncConflictRule;
+  // Record type for findMatchingRecord, so a row created on two devices
+  // (e.g. the same category name) is merged instead of duplicated
+  matchAs?: string;
+  // Columns holding the id of a row in another synced table
+  references?: Record<string, string>;
+  // Columns each device works out for itself; incoming values are ignored
+  derived?: string[];
+}
+
+/**
+ * Tables that are synced between devices, parents before children.
+ * Product stock is derived from stock_ledger, whose entries from every
+ * device add up, rather than taken from whichever device wrote last.
+ * Cash drawer shifts, held carts, cost layers and the audit log stay on the
+ * device that wrote them.
+ */
+export const SYNC_TABLES: Record<string, SyncTableConfig> = {
+  tax_rates: { rule: 'last_write_wins' },
+  categories: {
+    rule: 'last_write_wins',
+    matchAs: 'categories',
+    references: { tax_rate_id: 'tax_rates' },
+  },
+  suppliers: { rule: 'last_write_wins', matchAs: 'suppliers' },
+  expense_categories: {
+    rule: 'last_write_wins',
+    matchAs: 'expenseCategories',
+  },
+  customers: { rule: 'last_write_wins', matchAs: 'customers' },
+  staff: { rule: 'last_write_wins' },
+  products: {
+    rule: 'last_write_wins',
+    matchAs: 'products',
+    derived: ['quantity'],
+    references: {
+      category_id: 'categories',
+      supplier_id: 'suppliers',
+      tax_rate_id: 'tax_rates',
+      parent_id: 'products',
+    },
+  },
+  bulk_pricing: {
+    rule: 'last_write_wins',
+    references: { product_id: 'products' },
+  },
+  promotions: {
+    rule: 'last_write_wins',
+    references: { category_id: 'categories' },
+  },
+  coupons: { rule: 'last_write_wins' },
+  receipt_templates: { rule: 'last_write_wins' },
+  sales: {
+    rule: 'last_write_wins',
+    references: { customer_id: 'customers', staff_id: 'staff' },
+  },
+  sale_items: {
+    rule: 'last_write_wins',
+    references: { sale_id: 'sales', product_id: 'products' },
+  },
+  sale_promotions: {
+    rule: 'last_write_wins',
+    references: { sale_id: 'sales', promotion_id: 'promotions' },
+  },
+  coupon_redemptions: {
+    rule: 'keep_first',
+    references: { sale_id: 'sales', coupon_id: 'coupons' },
+  },
+  loyalty_points: {
+    rule: 'keep_first',
+    references: { customer_id: 'customers', sale_id: 'sales' },
+  },
+  sale_returns: { rule: 'keep_first', references: { sale_id: 'sales' } },
+  sale_return_items: {
+    rule: 'keep_first',
+    references: {
+      return_id: 'sale_returns',
+      sale_item_id: 'sale_items',
+      product_id: 'products',
+    },
+  },
+  debt_payments: {
+    rule: 'last_write_wins',
+    references: { customer_id: 'customers', sale_id: 'sales' },
+  },
+  expenses: {
+    rule: 'last_write_wins',
+    references: { category_id: 'expense_categories' },
+  },
+  stock_movements: {
+    rule: 'last_write_wins',
+    references: {
+      product_id: 'products',
+      supplier_id: 'suppliers',
+      staff_id: 'staff',
+    },
+  },
+  purchase_orders: {
+    rule: 'last_write_wins',
+    references: { supplier_id: 'suppliers' },
+  },
+  purchase_order_items: {
+    rule: 'last_write_wins',
+    references: {
+      purchase_order_id: 'purchase_orders',
+      product_id: 'products',
+    },
+  },
+  supplier_payments: {
+    rule: 'keep_first',
+    references: {
+      supplier_id: 'suppliers',
+      purchase_order_id: 'purchase_orders',
+    },
+  },
+  stock_ledger: {
+    rule: 'keep_first',
+    references: { product_id: 'products', staff_id: 'staff' },
+  },
+};
+
+// The version of a row one side holds
+export interface SyncRowVersion {
+  operation: 'upsert' | 'delete';
+  version: number;
+  updated_at: string; // ISO timestamp in UTC
+  device_id?: string | null;
+}
+
+/**
+ * Decide which of two versions of a row wins. Both devices and the server
+ * run this on the same inputs, so they always settle on the same row.
+ * Timestamps are compared first, then the per-row version counter, then the
+ * device id as a final tie-break.
+ */
+export const resolveSyncConflict = (
+  rule: SyncConflictRule,
+  current: SyncRowVersion,
+  incoming: SyncRowVersion,
+): 'current' | 'incoming' => {
+  if (rule === 'keep_first') {
+    return incoming.operation === 'delete' ? 'incoming' : 'current';
+  }
+
+  if (incoming.updated_at !== current.updated_at) {
+    return incoming.updated_at > current.updated_at ? 'incoming' : 'current';
+  }
+  if (incoming.version !== current.version) {
+    return incoming.version > current.version ? 'incoming' : 'current';
+  }
+  return (incoming.device_id || '') > (current.device_id || '')
+    ? 'incoming'
+    : 'current';
+};
@@ -0,0 +1,111 @@
+import { Category, Product, TaxRate } from '@/services/database';
+
+/**
+ * Product-level tax_rate_id value that exempts a product from its
+ * category's tax rate. NULL on the product means "use the category rate".
+ */
+export const TAX_EXEMPT = 'exempt';
+
+export interface TaxCalculation {
+  net: number; // Amount excluding tax
+  tax: number; // Tax amount
+  gross: number; // Amount the customer pays
+}
+
+export interface TaxBreakdownLine {
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxable: number; // Net amount the tax was computed on
+  amount: number;
+}
+
+const roundTax = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Split a line amount into net and tax parts.
+ * Inclusive rates extract tax from the amount, exclusive rates add it on top.
+ */
+export const calculateTax = (
+  amount: number,
+  rate: number,
+  inclusive: boolean,
+): TaxCalculation => {
+  if (!rate || rate <= 0 || amount <= 0) {
+    return { net: amount, tax: 0, gross: amount };
+  }
+
+  if (inclusive) {
+    const tax = roundTax((amount * rate) / (100 + rate));
+    return { net: amount - tax, tax, gross: amount };
+  }
+
+  const tax = roundTax((amount * rate) / 100);
+  return { net: amount, tax, gross: amount + tax };
+};
+
+/**
+ * Resolve the tax rate that applies to a product: the product override wins,
+ * otherwise the rate assigned to the product's category.
+ */
+export const resolveProductTaxRate = (
+  product: Pick<Product, 'category_id' | 'tax_rate_id'>,
+  categories: Pick<Category, 'id' | 'tax_rate_id'>[],
+  taxRates: TaxRate[],
+): TaxRate | null => {
+  if (product.tax_rate_id === TAX_EXEMPT) {
+    return null;
+  }
+
+  const taxRateId =
+    product.tax_rate_id ||
+    categories.find((category) => category.id === product.category_id)
+      ?.tax_rate_id;
+
+  if (!taxRateId) {
+    return null;
+  }
+
+  return taxRates.find((taxRate) => taxRate.id === taxRateId) || null;
+};
+
+/**
+ * Group taxed lines by rate for receipts and cart summaries.
+ */
+export const buildTaxBreakdown = (
+  lines: {
+    tax_name?: string;
+    tax_rate: number;
+    tax_inclusive: boolean | number;
+    tax_amount: number;
+    subtotal: number;
+  }[],
+): TaxBreakdownLine[] => {
+  const groups = new Map<string, TaxBreakdownLine>();
+
+  lines.forEach((line) => {
+    if (!line.tax_rate || !line.tax_amount) {
+      return;
+    }
+
+    const inclusive = !!line.tax_inclusive;
+    const key = `${line.tax_name || ''}|${line.tax_rate}|${inclusive}`;
+    const taxable = inclusive ? line.subtotal - line.tax_amount : line.subtotal;
+    const existing = groups.get(key);
+
+    if (existing) {
+      existing.taxable += taxable;
+      existing.amount += line.tax_amount;
+    } else {
+      groups.set(key, {
+        name: line.tax_name || `${line.tax_rate}%`,
+        rate: line.tax_rate,
+        inclusive,
+        taxable,
+        amount: line.tax_amount,
+      });
+    }
+  });
+
+  return Array.from(groups.values());
+};